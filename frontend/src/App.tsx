@@ -41,6 +41,9 @@ import BeyondLeoChart from '@/modules/beyond-leo/BeyondLeoChart'
 import ComparisonPanel from '@/modules/comparison/ComparisonPanel'
 import ComparisonDisplay from '@/modules/comparison/ComparisonDisplay'
 import ComparisonChart from '@/modules/comparison/ComparisonChart'
+import MonteCarloPanel from '@/modules/monte-carlo/MonteCarloPanel'
+import MonteCarloDisplay from '@/modules/monte-carlo/MonteCarloDisplay'
+import MonteCarloChart from '@/modules/monte-carlo/MonteCarloChart'
 import MissionArchitectView from '@/modules/mission-architect/MissionArchitectView'
 import SaveLoadDialog from '@/components/ui/SaveLoadDialog'
 import MobileOverlay from '@/components/ui/MobileOverlay'
@@ -76,6 +79,8 @@ function LeftPanelContent() {
       return <BeyondLeoPanel />
     case ModuleId.Comparison:
       return <ComparisonPanel />
+    case ModuleId.MonteCarlo:
+      return <MonteCarloPanel />
     default:
       return null
   }
@@ -106,6 +111,8 @@ function RightPanelContent() {
       return <BeyondLeoDisplay />
     case ModuleId.Comparison:
       return <ComparisonDisplay />
+    case ModuleId.MonteCarlo:
+      return <MonteCarloDisplay />
     default:
       return null
   }
@@ -136,6 +143,8 @@ function BottomPanelContent() {
       return <BeyondLeoChart />
     case ModuleId.Comparison:
       return <ComparisonChart />
+    case ModuleId.MonteCarlo:
+      return <MonteCarloChart />
     default:
       return null
   }
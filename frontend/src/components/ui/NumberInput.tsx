@@ -0,0 +1,88 @@
+import { useCallback, useState, useEffect } from 'react'
+
+interface NumberInputProps {
+  value: number
+  min?: number
+  max?: number
+  step?: number
+  integer?: boolean
+  precision?: number
+  onChange: (value: number) => void
+  className?: string
+  disabled?: boolean
+}
+
+/**
+ * Number field, optionally bounded. Like SliderInput's text box, the user
+ * types freely and the value is parsed and clamped on blur or Enter.
+ */
+export default function NumberInput({
+  value,
+  min = -Infinity,
+  max = Infinity,
+  step,
+  integer = false,
+  precision = 6,
+  onChange,
+  className = 'input-field w-24 text-sm font-mono',
+  disabled,
+}: NumberInputProps) {
+  const format = useCallback((v: number) => Number(v.toFixed(precision)).toString(), [precision])
+
+  // Local text state so user can type freely without clamping mid-keystroke
+  const [localText, setLocalText] = useState(() => format(value))
+  const [isFocused, setIsFocused] = useState(false)
+
+  // Sync local text when value changes externally (preset, store reset, etc.)
+  useEffect(() => {
+    if (!isFocused) {
+      setLocalText(format(value))
+    }
+  }, [value, format, isFocused])
+
+  const commitValue = useCallback(
+    (text: string) => {
+      const parsed = parseFloat(text)
+      if (!isNaN(parsed)) {
+        const val = Math.min(max, Math.max(min, integer ? Math.round(parsed) : parsed))
+        onChange(val)
+        setLocalText(format(val))
+      } else {
+        // Reset to current value if invalid
+        setLocalText(format(value))
+      }
+    },
+    [onChange, min, max, integer, value, format]
+  )
+
+  const handleBlur = useCallback(() => {
+    setIsFocused(false)
+    commitValue(localText)
+  }, [localText, commitValue])
+
+  const handleKeyDown = useCallback(
+    (e: React.KeyboardEvent<HTMLInputElement>) => {
+      if (e.key === 'Enter') {
+        commitValue(localText)
+        ;(e.target as HTMLInputElement).blur()
+      }
+    },
+    [localText, commitValue]
+  )
+
+  return (
+    <input
+      type="number"
+      value={localText}
+      onChange={(e) => setLocalText(e.target.value)}
+      onFocus={() => setIsFocused(true)}
+      onBlur={handleBlur}
+      onKeyDown={handleKeyDown}
+      min={Number.isFinite(min) ? min : undefined}
+      max={Number.isFinite(max) ? max : undefined}
+      step={step ?? (integer ? 1 : 'any')}
+      className={className}
+      disabled={disabled}
+    />
+  )
+}
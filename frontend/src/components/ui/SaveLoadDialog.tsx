@@ -10,6 +10,8 @@ import {
   importProjectJSON,
 } from '@/lib/persistence'
 import { generateMissionReport } from '@/lib/pdf-report'
+import { PROPULSION_PRESETS } from '@/types/propulsion'
+import type { PropulsionType } from '@/types/propulsion'
 
 interface SaveLoadDialogProps {
   open: boolean
@@ -42,11 +44,19 @@ function restoreProjectData(data: any) {
     state.setWalkerParams(data.walkerParams)
   }
   if (data.propulsion) {
-    state.setPropulsion(data.propulsion)
+    // Projects saved before finite burns have no thruster force, and before low-thrust mode no input power
+    const preset = PROPULSION_PRESETS[data.propulsion.type as PropulsionType]
+    state.setPropulsion({ thrust: preset?.thrust ?? 0, power: preset?.power ?? 0, ...data.propulsion })
   }
   if (data.maneuvers) {
     state.setManeuvers(data.maneuvers)
   }
+  if (data.burnPlan) {
+    state.setBurnPlan(data.burnPlan)
+  }
+  if (data.lowThrust) {
+    state.updateLowThrust(data.lowThrust)
+  }
   if (data.shieldingThicknessMm !== undefined) {
     state.setShieldingThickness(data.shieldingThicknessMm)
   }
@@ -0,0 +1,72 @@
+import { useStore } from '@/stores'
+import { SOLAR_ACTIVITY_WEATHER } from '@/lib/atmosphere'
+import type { SolarActivity, SpaceWeather } from '@/lib/atmosphere'
+
+const PRESETS: { key: SolarActivity; label: string }[] = [
+  { key: 'low', label: 'Low' },
+  { key: 'moderate', label: 'Moderate' },
+  { key: 'high', label: 'High' },
+]
+
+const FIELDS: { key: keyof SpaceWeather; label: string; min: number; max: number }[] = [
+  { key: 'f107', label: 'F10.7', min: 60, max: 350 },
+  { key: 'f107a', label: 'F10.7 (81d)', min: 60, max: 300 },
+  { key: 'ap', label: 'Ap', min: 0, max: 400 },
+]
+
+function matchPreset(weather: SpaceWeather): SolarActivity | 'custom' {
+  const match = PRESETS.find(({ key }) => {
+    const p = SOLAR_ACTIVITY_WEATHER[key]
+    return p.f107 === weather.f107 && p.f107a === weather.f107a && p.ap === weather.ap
+  })
+  return match ? match.key : 'custom'
+}
+
+/** Solar flux / geomagnetic index inputs shared by the drag and lifetime panels */
+export default function SpaceWeatherInputs() {
+  const spaceWeather = useStore((s) => s.spaceWeather)
+  const setSpaceWeather = useStore((s) => s.setSpaceWeather)
+  const preset = matchPreset(spaceWeather)
+
+  return (
+    <div className="space-y-1.5">
+      <label className="flex items-center justify-between">
+        <span className="text-[10px] text-[var(--text-secondary)]">Solar Activity</span>
+        <select
+          value={preset}
+          onChange={(e) => {
+            const key = e.target.value as SolarActivity | 'custom'
+            if (key !== 'custom') setSpaceWeather(SOLAR_ACTIVITY_WEATHER[key])
+          }}
+          className="input-field w-24 text-xs"
+        >
+          {PRESETS.map(({ key, label }) => (
+            <option key={key} value={key}>{label}</option>
+          ))}
+          <option value="custom">Custom</option>
+        </select>
+      </label>
+      <div className="grid grid-cols-3 gap-1.5">
+        {FIELDS.map(({ key, label, min, max }) => (
+          <label key={key} className="flex flex-col gap-0.5">
+            <span className="text-[9px] text-[var(--text-tertiary)] font-mono">{label}</span>
+            <input
+              type="number"
+              value={spaceWeather[key]}
+              onChange={(e) => {
+                const v = parseFloat(e.target.value)
+                if (Number.isFinite(v)) setSpaceWeather({ [key]: Math.min(max, Math.max(min, v)) })
+              }}
+              className="input-field w-full text-[10px] font-mono"
+              min={min}
+              max={max}
+            />
+          </label>
+        ))}
+      </div>
+      <p className="text-[9px] text-[var(--text-tertiary)] italic">
+        Drives the Jacchia-class density model (exospheric temperature, diurnal bulge, storm heating).
+      </p>
+    </div>
+  )
+}
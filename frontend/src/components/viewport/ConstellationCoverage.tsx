@@ -0,0 +1,88 @@
+import { useMemo } from 'react'
+import * as THREE from 'three'
+import { useStore } from '@/stores'
+import { ModuleId } from '@/types'
+import { COVERAGE_MAP_METRICS, coverageMapValues } from '@/lib/coverage'
+import { geodeticToThreeJS } from '@/lib/coordinate-transforms'
+
+const COVERAGE_SURFACE_R = 1.002
+
+// Dark-to-bright ramp (low → high) matching the Viridis map in ConstellationChart
+const RAMP = ['#440154', '#3B528B', '#21918C', '#5EC962', '#FDE725'].map((c) => new THREE.Color(c))
+const NO_ACCESS_COLOR = new THREE.Color('#EF4444')
+
+// No-op raycast — prevents the grid mesh from occluding Html labels
+const noRaycast = () => {}
+
+function rampColor(t: number, out: THREE.Color): THREE.Color {
+  const x = Math.min(1, Math.max(0, t)) * (RAMP.length - 1)
+  const i = Math.min(RAMP.length - 2, Math.floor(x))
+  return out.copy(RAMP[i]).lerp(RAMP[i + 1], x - i)
+}
+
+/** Coverage grid painted on the globe while the Constellation tab is active */
+export default function ConstellationCoverage() {
+  const show = useStore((s) => s.overlayToggles.constellationCoverage)
+  const activeModule = useStore((s) => s.activeModule)
+  const result = useStore((s) => s.coverageResult)
+  const metric = useStore((s) => s.coverageMapMetric)
+
+  const geometry = useMemo(() => {
+    if (!result) return null
+    const values = coverageMapValues(result, metric)
+    const finite = values.filter((v) => Number.isFinite(v))
+    const lo = metric === 'coverage' ? 0 : Math.min(...finite)
+    const hi = metric === 'coverage' ? 100 : Math.max(...finite)
+    const span = hi - lo || 1
+    const lowerIsBetter = COVERAGE_MAP_METRICS[metric].lowerIsBetter
+
+    const { latitudes, longitudes } = result
+    const dLat = 180 / latitudes.length
+    const dLon = 360 / longitudes.length
+    const positions: number[] = []
+    const colors: number[] = []
+    const color = new THREE.Color()
+
+    latitudes.forEach((lat, i) => {
+      longitudes.forEach((lon, j) => {
+        const k = i * longitudes.length + j
+        const v = values[k]
+        if (result.accessCount[k] === 0) color.copy(NO_ACCESS_COLOR)
+        // Revisit is undefined for a single access: best if it never ends, worst otherwise
+        else if (!Number.isFinite(v)) color.copy(RAMP[result.coverageFraction[k] === 1 ? RAMP.length - 1 : 0])
+        else rampColor(lowerIsBetter ? (hi - v) / span : (v - lo) / span, color)
+
+        const corners = [
+          geodeticToThreeJS(lat - dLat / 2, lon - dLon / 2, COVERAGE_SURFACE_R),
+          geodeticToThreeJS(lat - dLat / 2, lon + dLon / 2, COVERAGE_SURFACE_R),
+          geodeticToThreeJS(lat + dLat / 2, lon + dLon / 2, COVERAGE_SURFACE_R),
+          geodeticToThreeJS(lat + dLat / 2, lon - dLon / 2, COVERAGE_SURFACE_R),
+        ]
+        for (const idx of [0, 1, 2, 0, 2, 3]) {
+          const c = corners[idx]
+          positions.push(c.x, c.y, c.z)
+          colors.push(color.r, color.g, color.b)
+        }
+      })
+    })
+
+    const geo = new THREE.BufferGeometry()
+    geo.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3))
+    geo.setAttribute('color', new THREE.Float32BufferAttribute(colors, 3))
+    return geo
+  }, [result, metric])
+
+  if (!show || activeModule !== ModuleId.Constellation || !geometry) return null
+
+  return (
+    <mesh geometry={geometry} raycast={noRaycast}>
+      <meshBasicMaterial
+        vertexColors
+        transparent
+        opacity={0.35}
+        side={THREE.DoubleSide}
+        depthWrite={false}
+      />
+    </mesh>
+  )
+}
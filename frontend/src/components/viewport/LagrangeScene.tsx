@@ -3,7 +3,7 @@ import { useThree } from '@react-three/fiber'
 import { OrbitControls, Line, Html } from '@react-three/drei'
 import { useStore } from '@/stores'
 import Starfield from './Starfield'
-import { computeLagrangeDistance, generateOrbitPoints, generateTransferArc } from '@/lib/lagrange'
+import { computeLagrangeDistance, generateOrbitPoints, generateTransferArc, manifoldMatchesParams } from '@/lib/lagrange'
 import { AU_KM, MOON_SEMI_MAJOR_AXIS } from '@/lib/beyond-leo-constants'
 import type { LagrangePoint } from '@/types/beyond-leo'
 
@@ -47,6 +47,9 @@ function LPointMarker({ position, label, color }: { position: [number, number, n
 
 export default function LagrangeScene() {
   const params = useStore((s) => s.beyondLeo.lagrangeParams)
+  const periodicOrbit = useStore((s) => s.periodicOrbit)
+  const storedManifold = useStore((s) => s.manifoldTransfer)
+  const orbitConfig = useStore((s) => s.periodicOrbitConfig)
   const { camera } = useThree()
 
   const systemDist = params.system === 'SE' ? AU_KM : MOON_SEMI_MAJOR_AXIS
@@ -93,17 +96,56 @@ export default function LagrangeScene() {
     return points
   }, [params.system, systemDist, minLPointOffset])
 
-  // Orbit points (shape depends on orbit type)
+  const cr3bpOrbit = periodicOrbit && periodicOrbit.system === params.system && periodicOrbit.point === params.point
+    ? periodicOrbit
+    : null
+  const manifold = cr3bpOrbit && manifoldMatchesParams(storedManifold, params, orbitConfig)
+    && storedManifold.orbitJacobi === cr3bpOrbit.jacobi
+    ? storedManifold
+    : null
+
+  // Barycentric CR3BP coordinates → scene (primary at origin). L1/L2 are
+  // scaled about the secondary so the orbit sits on the (possibly offset)
+  // marker while manifold trajectories still reach the secondary; L3 is shifted.
+  const toScene = useMemo(() => {
+    if (!cr3bpOrbit) return null
+    const { mu, lPointX } = cr3bpOrbit
+    const marker = lPointPositions.find((p) => p.point === params.point)
+    const markerX = marker ? marker.pos[0] : lPointX + mu
+    if (params.point === 'L3') {
+      const shift = markerX - lPointX
+      return (p: { x: number; y: number; z: number }) => [p.x + shift, p.z, p.y] as [number, number, number]
+    }
+    const k = (markerX - 1) / (lPointX + mu - 1)
+    return (p: { x: number; y: number; z: number }) =>
+      [1 + (p.x + mu - 1) * k, p.z * k, p.y * k] as [number, number, number]
+  }, [cr3bpOrbit, params.point, lPointPositions])
+
+  // Orbit points: the corrected CR3BP orbit when one exists for this point,
+  // else the analytic shape for the orbit type
   const orbitPoints = useMemo(() => {
+    if (cr3bpOrbit && toScene) return cr3bpOrbit.points.map(toScene)
     const pts = generateOrbitPoints(params.system, params.point, params.amplitudeKm, params.orbitType)
     return pts.map((p) => [p.x, p.z, p.y] as [number, number, number])
-  }, [params.system, params.point, params.amplitudeKm, params.orbitType])
+  }, [params.system, params.point, params.amplitudeKm, params.orbitType, cr3bpOrbit, toScene])
+
+  // Stable-manifold tube and the selected transfer trajectory
+  const tubeLines = useMemo(() => {
+    if (!manifold || !toScene) return []
+    return manifold.tube.filter((t) => t.points.length > 2).map((t) => t.points.map(toScene))
+  }, [manifold, toScene])
+
+  const manifoldTransferPoints = useMemo(() => {
+    if (!manifold || !toScene || params.transferType !== 'low-energy') return null
+    return manifold.transfer.points.map(toScene)
+  }, [manifold, toScene, params.transferType])
 
   // Transfer arc
   const transferPoints = useMemo(() => {
+    if (manifoldTransferPoints) return manifoldTransferPoints
     const pts = generateTransferArc(params.system, params.point)
     return pts.map((p) => [p.x, p.z, p.y] as [number, number, number])
-  }, [params.system, params.point])
+  }, [params.system, params.point, manifoldTransferPoints])
 
   // Set camera for scene
   useMemo(() => {
@@ -190,8 +232,28 @@ export default function LagrangeScene() {
         />
       )}
 
-      {/* Transfer arc */}
-      {transferPoints.length > 2 && (
+      {/* Stable-manifold tube */}
+      {tubeLines.map((pts, i) => (
+        <Line
+          key={i}
+          points={pts}
+          color="#10B981"
+          lineWidth={0.5}
+          transparent
+          opacity={0.2}
+        />
+      ))}
+
+      {/* Transfer arc: the manifold trajectory when computed, else the schematic arc */}
+      {transferPoints.length > 2 && (manifoldTransferPoints ? (
+        <Line
+          points={transferPoints}
+          color="#F59E0B"
+          lineWidth={1.5}
+          transparent
+          opacity={0.9}
+        />
+      ) : (
         <Line
           points={transferPoints}
           color="#F59E0B"
@@ -202,7 +264,7 @@ export default function LagrangeScene() {
           dashSize={0.02}
           gapSize={0.01}
         />
-      )}
+      ))}
 
       <OrbitControls
         enablePan={false}
@@ -6,6 +6,7 @@ const TOGGLE_ITEMS: { key: keyof OverlayToggles; label: string }[] = [
   { key: 'sensorFootprint', label: 'Sensor Footprint' },
   { key: 'commLinks', label: 'Comm Links' },
   { key: 'swathCorridor', label: 'Swath Corridor' },
+  { key: 'constellationCoverage', label: 'Constellation Coverage' },
 ]
 
 export default function OverlayTogglePanel() {
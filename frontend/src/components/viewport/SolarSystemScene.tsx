@@ -7,13 +7,25 @@ import {
   generatePlanetOrbitPoints,
   generateEarthOrbitPoints,
   generateInterplanetaryTransferArc,
+  mgaMatchesParams,
 } from '@/lib/interplanetary'
+import { mgaBodyName } from '@/lib/gravity-assist'
+import type { PlanetBody } from '@/lib/ephemeris'
 import { PLANET_DATA } from '@/lib/beyond-leo-constants'
 
+const EARTH_COLOR = '#3B82F6'
+
+function bodyColor(body: PlanetBody): string {
+  return body === 'earth' ? EARTH_COLOR : PLANET_DATA[body].color
+}
+
 // Scale: 1 unit = 1 AU
 
 export default function SolarSystemScene() {
   const params = useStore((s) => s.beyondLeo.interplanetaryParams)
+  const mgaConfig = useStore((s) => s.mgaConfig)
+  const storedMga = useStore((s) => s.mga)
+  const mga = params.transferType === 'mga' && mgaMatchesParams(storedMga, params, mgaConfig) ? storedMga : null
   const { camera } = useThree()
 
   const planet = PLANET_DATA[params.targetBody]
@@ -36,17 +48,36 @@ export default function SolarSystemScene() {
     return pts.map((p) => [p.x, p.y, p.z] as [number, number, number])
   }, [params.targetBody])
 
-  // Earth position dot (at 1 AU on x-axis for simplicity)
-  const earthPos: [number, number, number] = [1, 0, 0]
+  // Gravity-assist legs, plus rings for flyby bodies other than Earth and the target
+  const mgaLegPts = useMemo(
+    () => mga?.legs.map((leg) => leg.points.map((p) => [p.x, p.y, p.z] as [number, number, number])) ?? [],
+    [mga],
+  )
+  const flybyOrbitRings = useMemo(() => {
+    if (!mga) return []
+    const bodies = [...new Set(mga.flybys.map((fb) => fb.body))]
+      .filter((body): body is Exclude<PlanetBody, 'earth'> => body !== 'earth' && body !== params.targetBody)
+    return bodies.map((body) => ({
+      body,
+      points: generatePlanetOrbitPoints(body).map((p) => [p.x, p.y, p.z] as [number, number, number]),
+    }))
+  }, [mga, params.targetBody])
+
+  // Earth position dot (at 1 AU on x-axis for simplicity; launch point for gravity assist)
+  const earthPos: [number, number, number] = mgaLegPts.length > 0 ? mgaLegPts[0][0] : [1, 0, 0]
 
   // Target planet position (at orbit radius on x-axis, opposite side for outer planets)
   const targetPos: [number, number, number] = useMemo(() => {
     // Place target at the end of the transfer arc
+    if (mgaLegPts.length > 0) {
+      const last = mgaLegPts[mgaLegPts.length - 1]
+      return last[last.length - 1]
+    }
     if (transferPts.length > 0) {
       return transferPts[transferPts.length - 1]
     }
     return [planet.semiMajorAxisAU, 0, 0]
-  }, [transferPts, planet.semiMajorAxisAU])
+  }, [mgaLegPts, transferPts, planet.semiMajorAxisAU])
 
   // Camera setup based on target distance
   useMemo(() => {
@@ -89,7 +120,7 @@ export default function SolarSystemScene() {
       {earthOrbitPts.length > 2 && (
         <Line
           points={earthOrbitPts}
-          color="#3B82F6"
+          color={EARTH_COLOR}
           lineWidth={0.8}
           transparent
           opacity={0.4}
@@ -100,7 +131,7 @@ export default function SolarSystemScene() {
       <group position={earthPos}>
         <mesh>
           <sphereGeometry args={[earthDotSize, 16, 16]} />
-          <meshBasicMaterial color="#3B82F6" />
+          <meshBasicMaterial color={EARTH_COLOR} />
         </mesh>
         <Html center distanceFactor={8} style={{ pointerEvents: 'none' }}>
           <div className="text-[10px] font-mono font-bold px-1 py-0.5 rounded bg-black/60 text-blue-400 mt-4 whitespace-nowrap">
@@ -133,8 +164,45 @@ export default function SolarSystemScene() {
         </Html>
       </group>
 
+      {/* Flyby body orbit rings */}
+      {flybyOrbitRings.map(({ body, points }) => (
+        <Line
+          key={body}
+          points={points}
+          color={bodyColor(body)}
+          lineWidth={0.8}
+          transparent
+          opacity={0.3}
+        />
+      ))}
+
+      {/* Gravity-assist legs and flyby markers */}
+      {mgaLegPts.map((pts, i) => (
+        <Line
+          key={`leg-${i}`}
+          points={pts}
+          color={i % 2 === 0 ? '#F59E0B' : '#FBBF24'}
+          lineWidth={2}
+          transparent
+          opacity={0.8}
+        />
+      ))}
+      {mga?.flybys.map((fb, i) => (
+        <group key={`flyby-${i}`} position={mgaLegPts[i + 1][0]}>
+          <mesh>
+            <sphereGeometry args={[0.015, 16, 16]} />
+            <meshBasicMaterial color={bodyColor(fb.body)} />
+          </mesh>
+          <Html center distanceFactor={8} style={{ pointerEvents: 'none' }}>
+            <div className="text-[10px] font-mono font-bold px-1 py-0.5 rounded bg-black/60 mt-4 whitespace-nowrap" style={{ color: bodyColor(fb.body) }}>
+              {mgaBodyName(fb.body)} {fb.dateISO.slice(0, 10)}
+            </div>
+          </Html>
+        </group>
+      ))}
+
       {/* Transfer arc */}
-      {transferPts.length > 2 && (
+      {!mga && transferPts.length > 2 && (
         <Line
           points={transferPts}
           color="#F59E0B"
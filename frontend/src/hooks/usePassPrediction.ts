@@ -0,0 +1,104 @@
+import { useEffect, useState } from 'react'
+import { useStore } from '@/stores'
+import { selectActiveTLE } from '@/stores/propagation-slice'
+import { runComputeJob, isComputeCancelled } from '@/lib/compute-client'
+import type { ComputeRequest } from '@/lib/compute-client'
+import type { SatellitePass } from '@/lib/pass-prediction'
+
+interface PassRunState {
+  passes: SatellitePass[] | null  // null until the run finishes
+  progress: number | null
+  error: string | null
+}
+
+interface PassRun {
+  state: PassRunState
+  listeners: Set<(state: PassRunState) => void>
+  cancel: () => void
+}
+
+// One worker job per distinct request, shared by every component asking for it.
+// Finished runs stay cached until a request with different inputs comes in.
+const runs = new Map<string, PassRun>()
+
+function subscribe(
+  key: string,
+  request: ComputeRequest & { job: 'predict-passes' },
+  listener: (state: PassRunState) => void,
+): () => void {
+  let run = runs.get(key)
+  if (!run) {
+    // Inputs changed: results for the old inputs are stale
+    for (const [k, r] of runs) {
+      if (r.listeners.size === 0) runs.delete(k)
+    }
+    const update = (partial: Partial<PassRunState>) => {
+      created.state = { ...created.state, ...partial }
+      created.listeners.forEach((l) => l(created.state))
+    }
+    const job = runComputeJob(request, (progress) => update({ progress }))
+    const created: PassRun = { state: { passes: null, progress: 0, error: null }, listeners: new Set(), cancel: job.cancel }
+    job.promise
+      .then((passes) => update({ passes, progress: null }))
+      .catch((err) => {
+        if (isComputeCancelled(err)) return
+        update({ progress: null, error: err instanceof Error ? err.message : String(err) })
+      })
+    runs.set(key, created)
+    run = created
+  }
+
+  const shared = run
+  shared.listeners.add(listener)
+  listener(shared.state)
+  return () => {
+    shared.listeners.delete(listener)
+    // Nobody is waiting on an unfinished run any more
+    if (shared.listeners.size === 0 && shared.state.progress !== null) {
+      shared.cancel()
+      runs.delete(key)
+    }
+  }
+}
+
+/**
+ * Runs predictPasses for the current orbit, mission epoch and ground stations
+ * in a Web Worker. Components asking for the same span and sampling share one
+ * job; it re-runs (cancelling any in-flight job) whenever an input changes,
+ * and reports progress while computing and the error of a failed run.
+ */
+export function usePassPrediction(
+  durationDays: number,
+  stepSec = 30,
+  recordTrack = false,
+): { passes: SatellitePass[]; progress: number | null; error: string | null } {
+  const elements = useStore((s) => s.elements)
+  const epoch = useStore((s) => s.mission.epoch)
+  const groundStations = useStore((s) => s.groundStations)
+  const tle = useStore(selectActiveTLE)
+
+  const [passes, setPasses] = useState<SatellitePass[]>([])
+  const [progress, setProgress] = useState<number | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const request = {
+      job: 'predict-passes' as const,
+      elements,
+      epochMs: epoch.getTime(),
+      stations: groundStations,
+      durationDays,
+      stepSec,
+      recordTrack,
+      tle,
+    }
+    // Keep the previous passes on screen until the new run lands
+    return subscribe(JSON.stringify(request), request, (state) => {
+      if (state.passes) setPasses(state.passes)
+      setProgress(state.progress)
+      setError(state.error)
+    })
+  }, [elements, epoch, groundStations, tle, durationDays, stepSec, recordTrack])
+
+  return { passes, progress, error }
+}
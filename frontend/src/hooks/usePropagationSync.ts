@@ -1,9 +1,12 @@
-import { useEffect, useRef } from 'react'
+import { useEffect, useMemo, useRef } from 'react'
 import { useStore } from '@/stores'
+import { sunlitThrusterPower } from '@/lib/low-thrust'
 
 /**
- * Watches orbital elements, propagation mode, perturbation config, and spacecraft props.
- * Re-runs numerical propagation when any dependency changes (if not in keplerian mode).
+ * Watches orbital elements, propagation mode, perturbation/integrator config, spacecraft props, space weather, TLE selection
+ * and the burn plan / propulsion / low-thrust config (plus the thruster power left by the power budget
+ * while a low-thrust arc is planned).
+ * Re-runs numerical/SGP4 propagation when any dependency changes (if not in keplerian mode).
  * Should be called once from EarthScene.tsx.
  */
 export function usePropagationSync() {
@@ -12,22 +15,57 @@ export function usePropagationSync() {
   const propagationMode = useStore((s) => s.propagationMode)
   const perturbationConfig = useStore((s) => s.perturbationConfig)
   const spacecraftProps = useStore((s) => s.spacecraftProps)
+  const spaceWeather = useStore((s) => s.spaceWeather)
+  const integratorConfig = useStore((s) => s.integratorConfig)
   const numOrbits = useStore((s) => s.numOrbits)
+  const tles = useStore((s) => s.tles)
+  const activeTleIndex = useStore((s) => s.activeTleIndex)
+  const burnPlan = useStore((s) => s.burnPlan)
+  const propulsion = useStore((s) => s.propulsion)
+  const lowThrust = useStore((s) => s.lowThrust)
+  const spacecraft = useStore((s) => s.mission.spacecraft)
+  const subsystems = useStore((s) => s.subsystems)
   const runPropagation = useStore((s) => s.runPropagation)
+  const cancelPropagation = useStore((s) => s.cancelPropagation)
 
   const isInitial = useRef(true)
 
+  // Only electric arcs draw on the array, so other power-budget edits don't re-run propagation
+  const hasLowThrustArc = burnPlan.some((b) => b.enabled && b.model === 'low-thrust')
+  const thrusterPowerW = useMemo(
+    () => (hasLowThrustArc ? sunlitThrusterPower(spacecraft, subsystems) : null),
+    [hasLowThrustArc, spacecraft, subsystems],
+  )
+
   useEffect(() => {
+    // Sent even with no burn enabled: drag and SRP act on the wet mass (the
+    // drag/SRP mass is the dry mass, plus the loaded propellant)
+    const plan = {
+      burns: burnPlan,
+      propulsion,
+      dryMassKg: spacecraftProps.mass,
+      lowThrust: thrusterPowerW != null
+        ? { availablePowerW: thrusterPowerW, dutyCycle: lowThrust.dutyCycle }
+        : undefined,
+    }
     if (isInitial.current) {
       isInitial.current = false
       // On mount, propagate if numerical mode was persisted
       if (propagationMode !== 'keplerian') {
-        runPropagation(elements, orbitEpoch.getTime())
+        runPropagation(elements, orbitEpoch.getTime(), plan)
       }
       return
     }
-    if (propagationMode === 'keplerian') return
-    runPropagation(elements, orbitEpoch.getTime())
+    if (propagationMode === 'keplerian') {
+      // Drop any run still in flight from the previous mode
+      cancelPropagation()
+      return
+    }
+    // Supersedes (and cancels) any run still in flight
+    runPropagation(elements, orbitEpoch.getTime(), plan)
   // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [elements, orbitEpoch, propagationMode, perturbationConfig, spacecraftProps, numOrbits])
+  }, [elements, orbitEpoch, propagationMode, perturbationConfig, spacecraftProps, spaceWeather, integratorConfig, numOrbits, tles, activeTleIndex, burnPlan, propulsion, lowThrust, thrusterPowerW])
+
+  // Stop the worker if the scene unmounts mid-run
+  useEffect(() => cancelPropagation, [cancelPropagation])
 }
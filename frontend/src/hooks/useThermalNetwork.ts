@@ -0,0 +1,39 @@
+import { useMemo } from 'react'
+import { useStore } from '@/stores'
+import { computeThermalNetwork } from '@/lib/thermal-network'
+import type { ThermalNetworkResult } from '@/lib/thermal-network'
+
+// The editor, results and chart all read the network; share the latest run
+let cached: { deps: unknown[]; result: ThermalNetworkResult } | null = null
+
+/**
+ * Runs computeThermalNetwork for the current orbit, spacecraft, power budget
+ * and thermal network config. The payload node takes its limits from the
+ * shared payload config.
+ */
+export function useThermalNetwork(): ThermalNetworkResult {
+  const elements = useStore((s) => s.elements)
+  const spacecraft = useStore((s) => s.mission.spacecraft)
+  const epoch = useStore((s) => s.mission.epoch)
+  const subsystems = useStore((s) => s.subsystems)
+  const payloadShared = useStore((s) => s.payloadShared)
+  const config = useStore((s) => s.thermalNetworkConfig)
+
+  const deps = [elements, spacecraft, subsystems, epoch, payloadShared.tempMin, payloadShared.tempMax, config]
+  return useMemo(() => {
+    if (cached && cached.deps.every((d, i) => d === deps[i])) return cached.result
+    const result = computeThermalNetwork(
+      {
+        elements,
+        spacecraft,
+        subsystems,
+        epoch,
+        payloadLimits: { tempMinC: payloadShared.tempMin, tempMaxC: payloadShared.tempMax },
+      },
+      config,
+    )
+    cached = { deps, result }
+    return result
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, deps)
+}
@@ -59,7 +59,7 @@ OrbitForge has three propagation modes available in the Orbit tab:
 - **Keplerian** — Analytical two-body propagation (default, fastest, no perturbations)
 - **J2** — Numerical propagation with J2 oblateness (shows RAAN drift and argument of perigee rotation)
 - **Full** — Numerical propagation with all perturbations:
-  - J2-J6 zonal harmonics
+  - Spherical-harmonic Earth gravity (EGM96, selectable degree/order up to 8×8)
   - Atmospheric drag (uses spacecraft mass, cross-section, and Cd)
   - Solar radiation pressure (uses SRP coefficient Cr and cross-section)
   - Third-body gravity from Sun and Moon
@@ -12,7 +12,7 @@ import { computePowerAnalysis, DEFAULT_SUBSYSTEMS } from './power-budget'
 import type { PowerSubsystem } from './power-budget'
 import { predictPasses, computePassMetrics } from './pass-prediction'
 import { computeBallisticCoefficient, checkCompliance } from './orbital-lifetime'
-import type { SolarActivity } from './orbital-lifetime'
+import type { SolarActivity, SpaceWeather } from './orbital-lifetime'
 import { computeEOAnalysis } from './payload-eo'
 import { computeSATCOMAnalysis } from './payload-satcom'
 import { computeLagrangeResult } from './lagrange'
@@ -20,7 +20,7 @@ import { computeLunarResult, computePropellantMass } from './lunar-transfer'
 import { computeInterplanetaryResult } from './interplanetary'
 import { PLANET_DATA } from './beyond-leo-constants'
 import type { LagrangePoint, LagrangeOrbitType, TargetBody } from '@/types/beyond-leo'
-import { BODY_ARRIVAL_DEFAULTS } from '@/types/beyond-leo'
+import { BODY_ARRIVAL_DEFAULTS, DEFAULT_LUNAR_PARAMS } from '@/types/beyond-leo'
 
 // ─── Tool Definitions (Anthropic API format) ───
 
@@ -112,6 +112,9 @@ export const TOOL_DEFINITIONS: AnthropicToolDef[] = [
         cross_section_m2: { type: 'number', description: 'Cross-sectional drag area in m². Overrides the default for the selected bus type. Use this for non-CubeSat spacecraft.' },
         drag_coefficient: { type: 'number', description: 'Drag coefficient Cd (1.0-4.0). Default: 2.2' },
         solar_activity: { type: 'string', enum: ['low', 'moderate', 'high'], description: 'Solar activity level affecting atmospheric density. Default: moderate' },
+        f107: { type: 'number', description: 'Daily F10.7 solar flux (sfu). Overrides solar_activity when given.' },
+        f107a: { type: 'number', description: '81-day mean F10.7 (sfu). Defaults to f107.' },
+        ap: { type: 'number', description: 'Daily geomagnetic Ap index. Default: 15' },
       },
       required: ['altitude_km'],
     },
@@ -502,12 +505,16 @@ function executePredictLifetime(input: Record<string, unknown>): Record<string,
   const size = (input.spacecraft_size as string) || '3U'
   const massKg = (input.spacecraft_mass_kg as number) || CUBESAT_SIZES[size as CubeSatSize]?.typicalMass.max || 4
   const solarActivity = (input.solar_activity as SolarActivity) || 'moderate'
+  const f107 = input.f107 as number | undefined
+  const weather: SolarActivity | SpaceWeather = f107
+    ? { f107, f107a: (input.f107a as number) || f107, ap: (input.ap as number) ?? 15 }
+    : solarActivity
   const cd = (input.drag_coefficient as number) || 2.2
 
   // Use explicit cross-section if provided, otherwise derive from bus type
   const crossSection = (input.cross_section_m2 as number) || CUBESAT_SIZES[size as CubeSatSize]?.typicalCrossSection || 0.03
   const bStar = computeBallisticCoefficient(massKg, crossSection, cd)
-  const compliance = checkCompliance(altKm, bStar, solarActivity)
+  const compliance = checkCompliance(altKm, bStar, weather)
 
   // Sync spacecraft properties to store
   useStore.getState().updateSpacecraft({
@@ -524,7 +531,7 @@ function executePredictLifetime(input: Record<string, unknown>): Record<string,
     cross_section_m2: +crossSection.toFixed(4),
     drag_coefficient: cd,
     ballistic_coefficient_m2_per_kg: +bStar.toFixed(6),
-    solar_activity: solarActivity,
+    solar_activity: f107 ? weather : solarActivity,
     lifetime_days: +compliance.lifetimeDays.toFixed(0),
     lifetime_years: +compliance.lifetimeYears.toFixed(2),
     compliant_25_year_rule: compliance.lifetime25Year,
@@ -719,6 +726,8 @@ function executeAnalyzeLunarTransfer(input: Record<string, unknown>): Record<str
     ispS,
     propellantMassKg: 0,
     closestApproachAltKm: (input.closest_approach_km as number) || 250,
+    launchDateISO: DEFAULT_LUNAR_PARAMS.launchDateISO,
+    parkingOrbitIncDeg: DEFAULT_LUNAR_PARAMS.parkingOrbitIncDeg,
   })
 
   // Sync to Beyond-LEO store
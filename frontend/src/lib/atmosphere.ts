@@ -0,0 +1,318 @@
+/**
+ * Space-weather driven thermospheric density model (Jacchia-class).
+ *
+ * Exospheric temperature follows Jacchia 1971: a nighttime minimum set by
+ * F10.7 and its 81-day mean, the diurnal bulge (local solar time, latitude,
+ * solar declination) and a geomagnetic heating term from Ap (Jacchia 1970).
+ * Above 120 km, species number densities are in diffusive equilibrium on a
+ * Bates–Walker temperature profile, which integrates in closed form; the
+ * 120 km boundary values are the US Standard Atmosphere 1976 ones, so the
+ * model reproduces US76 at T∞ = 1000 K. The J71 semiannual and seasonal-
+ * latitudinal density variations are applied when a date is supplied.
+ * Below 120 km the exponential table in constants.ts is used.
+ *
+ * Standalone physics module — no UI dependencies.
+ */
+
+import { getAtmosphericDensity, DEG2RAD } from './constants'
+import { dateToMJD } from './time-utils'
+import type { Vec3 } from '@/types'
+
+// ─── Space weather inputs ───
+
+/**
+ * Solar activity presets, kept for quick what-if studies
+ */
+export type SolarActivity = 'low' | 'moderate' | 'high'
+
+export interface SpaceWeather {
+  f107: number   // daily 10.7 cm solar flux (sfu)
+  f107a: number  // 81-day centred average of F10.7 (sfu)
+  ap: number     // daily planetary geomagnetic index
+}
+
+export const SOLAR_ACTIVITY_WEATHER: Record<SolarActivity, SpaceWeather> = {
+  low: { f107: 70, f107a: 70, ap: 5 },
+  moderate: { f107: 140, f107a: 140, ap: 15 },
+  high: { f107: 250, f107a: 250, ap: 30 },
+}
+
+export function resolveSpaceWeather(weather: SolarActivity | SpaceWeather): SpaceWeather {
+  return typeof weather === 'string' ? SOLAR_ACTIVITY_WEATHER[weather] : weather
+}
+
+// ─── Exospheric temperature (Jacchia 1971) ───
+
+// Diurnal variation parameters
+const DIURNAL_R = 0.3
+const DIURNAL_M = 2.2
+const DIURNAL_N = 3.0
+const DIURNAL_BETA = -37 * DEG2RAD
+const DIURNAL_P = 6 * DEG2RAD
+const DIURNAL_GAMMA = 43 * DEG2RAD
+
+/**
+ * Exospheric temperature T∞ (K).
+ * @param latitudeRad - Geocentric latitude of the point
+ * @param localSolarTimeHours - 0-24, 12 = sub-solar meridian
+ * @param sunDeclinationRad - Solar declination
+ */
+export function exosphericTemperature(
+  weather: SpaceWeather,
+  latitudeRad: number,
+  localSolarTimeHours: number,
+  sunDeclinationRad: number,
+): number {
+  return nightMinimumTemperature(weather) * diurnalFactor(latitudeRad, localSolarTimeHours, sunDeclinationRad) +
+    geomagneticHeating(weather)
+}
+
+/** Global nighttime minimum exospheric temperature (K) */
+function nightMinimumTemperature(weather: SpaceWeather): number {
+  return 379.0 + 3.24 * weather.f107a + 1.3 * (weather.f107 - weather.f107a)
+}
+
+/** Geomagnetic heating (Jacchia 1970, in terms of Ap) */
+function geomagneticHeating(weather: SpaceWeather): number {
+  return weather.ap + 100 * (1 - Math.exp(-0.08 * weather.ap))
+}
+
+/** Diurnal-bulge temperature ratio T_local / T_night-minimum */
+function diurnalFactor(latitudeRad: number, localSolarTimeHours: number, sunDeclinationRad: number): number {
+  const eta = Math.abs(latitudeRad - sunDeclinationRad) / 2
+  const theta = Math.abs(latitudeRad + sunDeclinationRad) / 2
+  const hourAngle = (localSolarTimeHours - 12) * Math.PI / 12
+  let tau = hourAngle + DIURNAL_BETA + DIURNAL_P * Math.sin(hourAngle + DIURNAL_GAMMA)
+  tau = ((tau + Math.PI) % (2 * Math.PI) + 2 * Math.PI) % (2 * Math.PI) - Math.PI
+  const sinTheta = Math.pow(Math.sin(theta), DIURNAL_M)
+  const cosEta = Math.pow(Math.cos(eta), DIURNAL_M)
+  return (1 + DIURNAL_R * sinTheta) *
+    (1 + DIURNAL_R * (cosEta - sinTheta) / (1 + DIURNAL_R * sinTheta) * Math.pow(Math.cos(tau / 2), DIURNAL_N))
+}
+
+// ─── Diffusive-equilibrium thermosphere above 120 km ───
+
+const R_GAS = 8.31432          // J/(mol K)
+const AVOGADRO = 6.022045e23
+const R_EARTH_GRAV = 6356.766  // km, US76 effective Earth radius
+const G0_SURFACE = 9.80665     // m/s^2
+
+// Lower boundary (US76 at 120 km)
+const Z_LB = 120
+const T_LB = 360               // K
+const DTDZ_LB = 12             // K/km
+
+interface Species {
+  molarMass: number            // kg/mol
+  alpha: number                // thermal diffusion factor
+  nLB: number                  // number density at 120 km (m^-3)
+}
+
+const SPECIES: Species[] = [
+  { molarMass: 28.0134e-3, alpha: 0, nLB: 3.726e17 },    // N2
+  { molarMass: 15.9994e-3, alpha: 0, nLB: 9.275e16 },    // O
+  { molarMass: 31.9988e-3, alpha: 0, nLB: 4.395e16 },    // O2
+  { molarMass: 39.948e-3, alpha: 0, nLB: 1.130e15 },     // Ar
+  { molarMass: 4.0026e-3, alpha: -0.4, nLB: 3.405e13 },  // He
+]
+const HYDROGEN_MOLAR_MASS = 1.00797e-3
+const Z_HYDROGEN = 500
+
+/** Geopotential-like altitude variable of the Bates profile (km) */
+function zeta(altKm: number): number {
+  return (altKm - Z_LB) * (R_EARTH_GRAV + Z_LB) / (R_EARTH_GRAV + altKm)
+}
+
+/**
+ * Mass density (kg/m^3) in diffusive equilibrium above 120 km for a given
+ * exospheric temperature, with T(z) = T∞ − (T∞ − T120)·exp(−s·ξ).
+ */
+export function thermosphereDensity(altKm: number, exoTempK: number): number {
+  const tInf = Math.max(exoTempK, T_LB + 50)
+  const s = DTDZ_LB / (tInf - T_LB)                 // 1/km
+  const g120 = G0_SURFACE * Math.pow(R_EARTH_GRAV / (R_EARTH_GRAV + Z_LB), 2)
+  const sigma = (s + 1 / (R_EARTH_GRAV + Z_LB)) / 1000  // 1/m
+  const temp = (z: number) => tInf - (tInf - T_LB) * Math.exp(-s * zeta(z))
+
+  const xi = zeta(altKm) * 1000  // m
+  const tz = temp(altKm)
+
+  let rho = 0
+  for (const sp of SPECIES) {
+    const gamma = sp.molarMass * g120 / (sigma * R_GAS * tInf)
+    const n = sp.nLB * Math.pow(T_LB / tz, 1 + sp.alpha + gamma) * Math.exp(-sigma * gamma * xi)
+    rho += n * sp.molarMass / AVOGADRO
+  }
+
+  // Atomic hydrogen from 500 km, boundary density from Jacchia 1971
+  if (altKm > Z_HYDROGEN) {
+    const logT = Math.log10(tInf)
+    const nH500 = Math.pow(10, 73.13 - 39.40 * logT + 5.5 * logT * logT) * 1e6  // m^-3
+    const gamma = HYDROGEN_MOLAR_MASS * g120 / (sigma * R_GAS * tInf)
+    const t500 = temp(Z_HYDROGEN)
+    const nH = nH500 * Math.pow(t500 / tz, 1 - 0.4 + gamma) *
+      Math.exp(-sigma * gamma * (xi - zeta(Z_HYDROGEN) * 1000))
+    rho += nH * HYDROGEN_MOLAR_MASS / AVOGADRO
+  }
+
+  return rho
+}
+
+// Lazily built ln ρ(z, T∞) grid for the orbit-averaged path, which
+// evaluates the profile tens of thousands of times per decay simulation
+const GRID_Z_MAX = 2000, GRID_DZ = 2
+const GRID_T_MIN = 450, GRID_T_MAX = 2500, GRID_DT = 25
+const GRID_NZ = (GRID_Z_MAX - Z_LB) / GRID_DZ + 1
+const GRID_NT = (GRID_T_MAX - GRID_T_MIN) / GRID_DT + 1
+let lnRhoGrid: Float64Array | null = null
+
+function gridDensity(altKm: number, exoTempK: number): number {
+  if (!lnRhoGrid) {
+    lnRhoGrid = new Float64Array(GRID_NZ * GRID_NT)
+    for (let i = 0; i < GRID_NZ; i++) {
+      for (let j = 0; j < GRID_NT; j++) {
+        lnRhoGrid[i * GRID_NT + j] = Math.log(thermosphereDensity(Z_LB + i * GRID_DZ, GRID_T_MIN + j * GRID_DT))
+      }
+    }
+  }
+  const fz = Math.min(GRID_NZ - 1.000001, Math.max(0, (altKm - Z_LB) / GRID_DZ))
+  const ft = Math.min(GRID_NT - 1.000001, Math.max(0, (exoTempK - GRID_T_MIN) / GRID_DT))
+  const i = Math.floor(fz), j = Math.floor(ft)
+  const wz = fz - i, wt = ft - j
+  const g = lnRhoGrid
+  const k = i * GRID_NT + j
+  return Math.exp(
+    (1 - wz) * ((1 - wt) * g[k] + wt * g[k + 1]) +
+    wz * ((1 - wt) * g[k + GRID_NT] + wt * g[k + GRID_NT + 1]),
+  )
+}
+
+// ─── Date-dependent variations (Jacchia 1971), as log10 density corrections ───
+
+/** Fraction of the tropical year since 1958 Jan 1 */
+function yearPhase(date: Date): number {
+  return (dateToMJD(date) - 36204) / 365.2422
+}
+
+function semiannualCorrection(altKm: number, date: Date): number {
+  const phi = yearPhase(date)
+  const f = (5.876e-7 * Math.pow(altKm, 2.331) + 0.06328) * Math.exp(-2.868e-3 * altKm)
+  const tauSA = phi + 0.09544 * (Math.pow(0.5 + 0.5 * Math.sin(2 * Math.PI * phi + 6.035), 1.65) - 0.5)
+  const g = 0.02835 + 0.3817 * (1 + 0.4671 * Math.sin(2 * Math.PI * tauSA + 4.137)) *
+    Math.sin(4 * Math.PI * tauSA + 4.259)
+  return f * g
+}
+
+function seasonalLatitudinalCorrection(altKm: number, latitudeRad: number, date: Date): number {
+  const dz = altKm - 90
+  const sinLat = Math.sin(latitudeRad)
+  return 0.014 * dz * Math.exp(-0.0013 * dz * dz) *
+    Math.sin(2 * Math.PI * yearPhase(date) + 1.72) * sinLat * Math.abs(sinLat)
+}
+
+// ─── Public density evaluation ───
+
+export interface AtmosphereInput {
+  altitudeKm: number
+  latitudeRad: number
+  localSolarTimeHours: number
+  sunDeclinationRad: number
+  weather: SpaceWeather
+  date?: Date            // enables the semiannual and seasonal-latitudinal terms
+}
+
+/** Total mass density (kg/m^3) */
+export function atmosphericDensity(input: AtmosphereInput): number {
+  const { altitudeKm, latitudeRad, date } = input
+  if (altitudeKm < Z_LB) return getAtmosphericDensity(altitudeKm)
+
+  const tInf = exosphericTemperature(input.weather, latitudeRad, input.localSolarTimeHours, input.sunDeclinationRad)
+  let rho = thermosphereDensity(altitudeKm, tInf)
+  if (date) {
+    rho *= Math.pow(10, semiannualCorrection(altitudeKm, date) + seasonalLatitudinalCorrection(altitudeKm, latitudeRad, date))
+  }
+  return rho
+}
+
+/**
+ * Density at an ECI position (km), with the Sun's ECI position giving local
+ * solar time and declination. Geocentric latitude stands in for geodetic.
+ */
+export function densityAtPosition(position: Vec3, sunPos: Vec3, date: Date, weather: SpaceWeather): number {
+  const r = Math.sqrt(position.x * position.x + position.y * position.y + position.z * position.z)
+  const sunR = Math.sqrt(sunPos.x * sunPos.x + sunPos.y * sunPos.y + sunPos.z * sunPos.z)
+  const hourAngle = Math.atan2(position.y, position.x) - Math.atan2(sunPos.y, sunPos.x)
+  return atmosphericDensity({
+    altitudeKm: r - 6378.137,
+    latitudeRad: Math.asin(position.z / r),
+    localSolarTimeHours: ((12 + hourAngle * 12 / Math.PI) % 24 + 24) % 24,
+    sunDeclinationRad: Math.asin(sunPos.z / sunR),
+    weather,
+    date,
+  })
+}
+
+/** Solar declination (rad), low-precision */
+function sunDeclination(date: Date): number {
+  const d = dateToMJD(date) - 51544.5
+  const g = (357.529 + 0.98560028 * d) * DEG2RAD
+  const lambda = (280.459 + 0.98564736 * d) * DEG2RAD + (1.915 * Math.sin(g) + 0.020 * Math.sin(2 * g)) * DEG2RAD
+  return Math.asin(Math.sin(23.439 * DEG2RAD) * Math.sin(lambda))
+}
+
+/**
+ * Density averaged over one orbit and over local solar time, for
+ * orbit-averaged decay models: samples the argument of latitude (giving
+ * latitude from the inclination) and the full day of local times, since
+ * nodal precession sweeps the orbit plane through all local times over a
+ * lifetime. Without a date the Sun is placed at the equinox and the
+ * date-dependent terms are omitted.
+ */
+export function orbitAveragedDensity(
+  altitudeKm: number,
+  weather: SpaceWeather,
+  options?: { inclinationDeg?: number; date?: Date },
+): number {
+  if (altitudeKm < Z_LB) return getAtmosphericDensity(altitudeKm)
+
+  const inc = (options?.inclinationDeg ?? 0) * DEG2RAD
+  const date = options?.date
+  const sunDec = date ? sunDeclination(date) : 0
+  const samples = averagingSamples(inc, sunDec)
+  const tc = nightMinimumTemperature(weather)
+  const dtGeo = geomagneticHeating(weather)
+
+  const semiannual = date ? semiannualCorrection(altitudeKm, date) : 0
+
+  let sum = 0
+  for (const { latitudeRad, factor } of samples) {
+    let rho = gridDensity(altitudeKm, tc * factor + dtGeo)
+    if (date) {
+      rho *= Math.pow(10, semiannual + seasonalLatitudinalCorrection(altitudeKm, latitudeRad, date))
+    }
+    sum += rho
+  }
+  return sum / samples.length
+}
+
+// Sample latitudes × local times; cached since inclination and (rounded)
+// declination rarely change between consecutive calls
+let cachedSamples: { key: string; samples: Array<{ latitudeRad: number; factor: number }> } | null = null
+
+function averagingSamples(incRad: number, sunDecRad: number): Array<{ latitudeRad: number; factor: number }> {
+  const key = `${incRad.toFixed(4)}:${sunDecRad.toFixed(3)}`
+  if (cachedSamples?.key === key) return cachedSamples.samples
+
+  const N_U = 6
+  const N_LST = 8
+  const samples: Array<{ latitudeRad: number; factor: number }> = []
+  for (let i = 0; i < N_U; i++) {
+    const u = (i + 0.5) * Math.PI / N_U - Math.PI / 2   // latitudes are symmetric in u about ±90°
+    const latitudeRad = Math.asin(Math.sin(incRad) * Math.sin(u))
+    for (let j = 0; j < N_LST; j++) {
+      samples.push({ latitudeRad, factor: diurnalFactor(latitudeRad, (j + 0.5) * 24 / N_LST, sunDecRad) })
+    }
+  }
+  cachedSamples = { key, samples }
+  return samples
+}
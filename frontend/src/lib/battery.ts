@@ -0,0 +1,274 @@
+/**
+ * Li-ion battery pack model.
+ *
+ * A pack is seriesCells × parallelStrings identical cells. Each chemistry has
+ * an open-circuit voltage vs state-of-charge curve, giving the pack voltage
+ * through an orbit, and a cycle-life curve (cycles to 80 % capacity vs depth
+ * of discharge, Wöhler form N = N100 · DoD^−k). Charging loses a fixed
+ * fraction of the energy delivered to the pack, charge and discharge power
+ * are capped by C-rate limits, and usable capacity is derated with
+ * temperature.
+ *
+ * Capacity fade adds cycle damage (Miner's rule over the DoD of every
+ * eclipse cycle, accelerated by heat and by charging cold) to calendar fade
+ * (Arrhenius in temperature). Usable capacity shrinks as the pack fades, so
+ * DoD per orbit grows over the mission.
+ *
+ * Standalone physics module — no UI dependencies.
+ */
+
+import type { BatteryChemistry, BatteryPackConfig, SpacecraftConfig } from '@/types/mission'
+
+// ─── Chemistry data ───
+
+export interface ChemistrySpec {
+  name: string
+  nominalCellV: number
+  ocv: number[]                 // cell open-circuit voltage at SOC 0, 0.1 … 1
+  cyclesAt100: number           // cycles to 80 % capacity at 100 % DoD, 25 °C
+  wohlerExponent: number        // N = cyclesAt100 · DoD^−k
+  calendarFadePerYear: number   // capacity lost per year at 25 °C, storage
+}
+
+export const BATTERY_CHEMISTRIES: Record<BatteryChemistry, ChemistrySpec> = {
+  nmc: {
+    name: 'Li-ion NMC',
+    nominalCellV: 3.6,
+    ocv: [3.0, 3.45, 3.55, 3.62, 3.68, 3.74, 3.82, 3.91, 3.99, 4.08, 4.2],
+    cyclesAt100: 600,
+    wohlerExponent: 2.0,
+    calendarFadePerYear: 0.02,
+  },
+  lfp: {
+    name: 'Li-ion LFP',
+    nominalCellV: 3.2,
+    ocv: [2.5, 3.1, 3.2, 3.25, 3.27, 3.29, 3.3, 3.31, 3.33, 3.35, 3.6],
+    cyclesAt100: 2500,
+    wohlerExponent: 1.7,
+    calendarFadePerYear: 0.015,
+  },
+  lco: {
+    name: 'Li-ion LCO',
+    nominalCellV: 3.7,
+    ocv: [3.0, 3.5, 3.6, 3.67, 3.72, 3.77, 3.84, 3.92, 4.0, 4.08, 4.2],
+    cyclesAt100: 500,
+    wohlerExponent: 1.9,
+    calendarFadePerYear: 0.03,
+  },
+}
+
+// Capacity lost at the end of the cycle life
+const EOL_FADE = 0.2
+// Fade acceleration: Arrhenius above the 25 °C reference, plating when charging cold
+const ACTIVATION_ENERGY_J_MOL = 30000
+const GAS_CONSTANT = 8.314
+const T_REF_K = 298.15
+const PLATING_ONSET_C = 10
+const PLATING_PER_C = 0.05
+
+// Usable capacity vs temperature (°C, fraction of rated)
+const DERATING_TABLE: [number, number][] = [
+  [-20, 0.6], [-10, 0.75], [0, 0.87], [10, 0.95], [20, 1], [45, 1], [60, 0.95],
+]
+
+// ─── Pack figures ───
+
+export function packNominalVoltage(pack: BatteryPackConfig): number {
+  return BATTERY_CHEMISTRIES[pack.chemistry].nominalCellV * pack.seriesCells
+}
+
+export function packCapacityAh(pack: BatteryPackConfig): number {
+  return pack.cellCapacityAh * pack.parallelStrings
+}
+
+/** Rated energy at 25 °C */
+export function packEnergyWh(pack: BatteryPackConfig): number {
+  return packNominalVoltage(pack) * packCapacityAh(pack)
+}
+
+export function cellVoltage(chemistry: BatteryChemistry, soc: number): number {
+  const ocv = BATTERY_CHEMISTRIES[chemistry].ocv
+  const x = Math.max(0, Math.min(1, soc)) * (ocv.length - 1)
+  const k = Math.min(ocv.length - 2, Math.floor(x))
+  return ocv[k] + (ocv[k + 1] - ocv[k]) * (x - k)
+}
+
+/** Open-circuit pack voltage at the given state of charge */
+export function packVoltage(pack: BatteryPackConfig, soc: number): number {
+  return cellVoltage(pack.chemistry, soc) * pack.seriesCells
+}
+
+/** Fraction of rated capacity available at the given temperature */
+export function capacityDerating(tempC: number): number {
+  if (tempC <= DERATING_TABLE[0][0]) return DERATING_TABLE[0][1]
+  for (let k = 1; k < DERATING_TABLE.length; k++) {
+    const [t1, f1] = DERATING_TABLE[k]
+    if (tempC <= t1) {
+      const [t0, f0] = DERATING_TABLE[k - 1]
+      return f0 + (f1 - f0) * (tempC - t0) / (t1 - t0)
+    }
+  }
+  return DERATING_TABLE[DERATING_TABLE.length - 1][1]
+}
+
+/**
+ * Usable battery energy: the pack's rated energy derated for temperature, or
+ * the plain capacity without a pack model
+ */
+export function batteryUsableCapacityWh(spacecraft: SpacecraftConfig): number {
+  const pack = spacecraft.battery
+  return pack ? packEnergyWh(pack) * capacityDerating(pack.tempC) : spacecraft.batteryCapacity
+}
+
+// ─── Charge / discharge ───
+
+export interface BatteryLimits {
+  maxChargeW: number
+  maxDischargeW: number
+  chargeEfficiency: number
+}
+
+/** C-rate limits at nominal voltage; unlimited and lossless without a pack */
+export function batteryLimits(pack: BatteryPackConfig | undefined): BatteryLimits {
+  if (!pack) return { maxChargeW: Infinity, maxDischargeW: Infinity, chargeEfficiency: 1 }
+  const ah = packCapacityAh(pack)
+  const v = packNominalVoltage(pack)
+  return {
+    maxChargeW: pack.maxChargeC * ah * v,
+    maxDischargeW: pack.maxDischargeC * ah * v,
+    chargeEfficiency: Math.max(0.01, Math.min(1, pack.chargeEfficiency)),
+  }
+}
+
+export interface BatteryStep {
+  energyWh: number
+  curtailedWh: number           // surplus the battery could not absorb
+  unmetWh: number               // load the battery could not supply
+}
+
+/** Advance stored energy by `hours` with net bus power netW (generation − load) */
+export function stepBattery(
+  energyWh: number,
+  capacityWh: number,
+  netW: number,
+  hours: number,
+  limits: BatteryLimits,
+): BatteryStep {
+  if (netW >= 0) {
+    const chargeW = Math.min(netW, limits.maxChargeW)
+    const next = energyWh + chargeW * limits.chargeEfficiency * hours
+    const overflow = Math.max(0, next - capacityWh) / limits.chargeEfficiency
+    return { energyWh: Math.min(capacityWh, next), curtailedWh: (netW - chargeW) * hours + overflow, unmetWh: 0 }
+  }
+  const dischargeW = Math.min(-netW, limits.maxDischargeW)
+  const next = energyWh - dischargeW * hours
+  return {
+    energyWh: Math.max(0, next),
+    curtailedWh: 0,
+    unmetWh: (-netW - dischargeW) * hours + Math.max(0, -next),
+  }
+}
+
+// ─── Configuration helpers ───
+
+/** Cell capacity rescaled so the pack's rated energy is energyWh */
+export function scaleBatteryPack(pack: BatteryPackConfig, energyWh: number): BatteryPackConfig {
+  const cells = pack.seriesCells * pack.parallelStrings
+  const cellV = BATTERY_CHEMISTRIES[pack.chemistry].nominalCellV
+  if (cells <= 0) return pack
+  return { ...pack, cellCapacityAh: energyWh / (cells * cellV) }
+}
+
+/**
+ * 18650 NMC cells (2.6 Ah) in a string sized to the bus — 2S for up to 3U,
+ * 4S for 6U/12U, 8S for larger spacecraft — with enough parallel strings to
+ * come closest to the configured capacity
+ */
+export function defaultBatteryPack(spacecraft: SpacecraftConfig): BatteryPackConfig {
+  const seriesCells = ['6U', '12U'].includes(spacecraft.size) ? 4
+    : ['SmallSat', 'Custom'].includes(spacecraft.size) ? 8
+    : 2
+  const cellCapacityAh = 2.6
+  const stringWh = seriesCells * BATTERY_CHEMISTRIES.nmc.nominalCellV * cellCapacityAh
+  return {
+    chemistry: 'nmc',
+    cellCapacityAh,
+    seriesCells,
+    parallelStrings: Math.max(1, Math.round(spacecraft.batteryCapacity / stringWh)),
+    chargeEfficiency: 0.95,
+    maxChargeC: 0.5,
+    maxDischargeC: 1,
+    tempC: 20,
+  }
+}
+
+// ─── Cycle life and fade ───
+
+/** Cycles to end of life (80 % capacity) at the given DoD and 25 °C */
+export function cyclesToEol(chemistry: BatteryChemistry, dod: number): number {
+  const spec = BATTERY_CHEMISTRIES[chemistry]
+  return spec.cyclesAt100 * Math.pow(Math.max(0.005, Math.min(1, dod)), -spec.wohlerExponent)
+}
+
+function arrhenius(tempC: number): number {
+  return Math.exp((ACTIVATION_ENERGY_J_MOL / GAS_CONSTANT) * (1 / T_REF_K - 1 / (tempC + 273.15)))
+}
+
+/** A stretch of the mission with a constant eclipse discharge per orbit */
+export interface CycleSegment {
+  cycles: number                // eclipse charge/discharge cycles
+  years: number
+  dischargeWh: number           // energy drawn per cycle
+}
+
+export interface BatteryLife {
+  cycles: number
+  meanDoD: number               // cycle-weighted
+  maxDoD: number
+  cycleFade: number             // fraction of rated capacity
+  calendarFade: number
+  eolCapacityFraction: number
+  eolCapacityWh: number         // usable, at the pack temperature
+  cycleLifeAtMeanDoD: number    // cycles to 80 % at the mean DoD
+}
+
+/**
+ * Fade over the mission: each segment's DoD is taken against the capacity
+ * left after the segments before it
+ */
+export function computeBatteryLife(pack: BatteryPackConfig, segments: CycleSegment[]): BatteryLife {
+  const usableWh = packEnergyWh(pack) * capacityDerating(pack.tempC)
+  const heat = arrhenius(Math.max(25, pack.tempC))
+  const plating = 1 + PLATING_PER_C * Math.max(0, PLATING_ONSET_C - pack.tempC)
+  const calendarRate = BATTERY_CHEMISTRIES[pack.chemistry].calendarFadePerYear * arrhenius(pack.tempC)
+
+  let cycles = 0
+  let dodCycles = 0
+  let maxDoD = 0
+  let cycleFade = 0
+  let calendarFade = 0
+  for (const seg of segments) {
+    const capacity = usableWh * Math.max(0, 1 - cycleFade - calendarFade)
+    if (seg.cycles > 0 && seg.dischargeWh > 0) {
+      const dod = capacity > 0 ? Math.min(1, seg.dischargeWh / capacity) : 1
+      cycleFade += seg.cycles * (EOL_FADE / cyclesToEol(pack.chemistry, dod)) * heat * plating
+      cycles += seg.cycles
+      dodCycles += dod * seg.cycles
+      maxDoD = Math.max(maxDoD, dod)
+    }
+    calendarFade += seg.years * calendarRate
+  }
+
+  const eolCapacityFraction = Math.max(0, 1 - cycleFade - calendarFade)
+  const meanDoD = cycles > 0 ? dodCycles / cycles : 0
+  return {
+    cycles,
+    meanDoD,
+    maxDoD,
+    cycleFade,
+    calendarFade,
+    eolCapacityFraction,
+    eolCapacityWh: usableWh * eolCapacityFraction,
+    cycleLifeAtMeanDoD: meanDoD > 0 ? cyclesToEol(pack.chemistry, meanDoD) : Infinity,
+  }
+}
@@ -3,7 +3,7 @@
  * Lunar, solar, and planetary parameters
  */
 
-import type { TargetBody } from '@/types/beyond-leo'
+import type { TargetBody, LaunchVehicleId } from '@/types/beyond-leo'
 
 // ─── Lunar ───
 export const MU_MOON = 4902.800066              // km³/s²
@@ -71,6 +71,7 @@ export interface PlanetData {
   orbitalPeriodDays: number
   mu: number                    // km³/s²
   radiusKm: number
+  minFlybyAltKm: number         // gravity-assist periapsis floor (atmosphere, rings, radiation)
   massKg: number
   escapeVelocityKms: number
   surfaceGravityMs2: number
@@ -90,6 +91,7 @@ export const PLANET_DATA: Record<TargetBody, PlanetData> = {
     orbitalPeriodDays: 87.97,
     mu: 2.2032e4,
     radiusKm: 2439.7,
+    minFlybyAltKm: 200,
     massKg: 3.301e23,
     escapeVelocityKms: 4.25,
     surfaceGravityMs2: 3.70,
@@ -107,6 +109,7 @@ export const PLANET_DATA: Record<TargetBody, PlanetData> = {
     orbitalPeriodDays: 224.70,
     mu: 3.2486e5,
     radiusKm: 6051.8,
+    minFlybyAltKm: 300,
     massKg: 4.867e24,
     escapeVelocityKms: 10.36,
     surfaceGravityMs2: 8.87,
@@ -124,6 +127,7 @@ export const PLANET_DATA: Record<TargetBody, PlanetData> = {
     orbitalPeriodDays: 686.97,
     mu: 4.2828e4,
     radiusKm: 3389.5,
+    minFlybyAltKm: 200,
     massKg: 6.39e23,
     escapeVelocityKms: 5.03,
     surfaceGravityMs2: 3.71,
@@ -141,6 +145,7 @@ export const PLANET_DATA: Record<TargetBody, PlanetData> = {
     orbitalPeriodDays: 4332.59,
     mu: 1.26687e8,
     radiusKm: 71492,
+    minFlybyAltKm: 200000,
     massKg: 1.898e27,
     escapeVelocityKms: 59.5,
     surfaceGravityMs2: 24.79,
@@ -158,6 +163,7 @@ export const PLANET_DATA: Record<TargetBody, PlanetData> = {
     orbitalPeriodDays: 10759.22,
     mu: 3.7931e7,
     radiusKm: 60268,
+    minFlybyAltKm: 80000,
     massKg: 5.683e26,
     escapeVelocityKms: 35.5,
     surfaceGravityMs2: 10.44,
@@ -175,6 +181,7 @@ export const PLANET_DATA: Record<TargetBody, PlanetData> = {
     orbitalPeriodDays: 30688.5,
     mu: 5.7940e6,
     radiusKm: 25559,
+    minFlybyAltKm: 30000,
     massKg: 8.681e25,
     escapeVelocityKms: 21.3,
     surfaceGravityMs2: 8.69,
@@ -192,6 +199,7 @@ export const PLANET_DATA: Record<TargetBody, PlanetData> = {
     orbitalPeriodDays: 60182.0,
     mu: 6.8351e6,
     radiusKm: 24764,
+    minFlybyAltKm: 5000,
     massKg: 1.024e26,
     escapeVelocityKms: 23.5,
     surfaceGravityMs2: 11.15,
@@ -209,6 +217,7 @@ export const PLANET_DATA: Record<TargetBody, PlanetData> = {
     orbitalPeriodDays: 1681.63,
     mu: 62.6284,
     radiusKm: 473,
+    minFlybyAltKm: 100,
     massKg: 9.383e20,
     escapeVelocityKms: 0.51,
     surfaceGravityMs2: 0.28,
@@ -226,6 +235,7 @@ export const PLANET_DATA: Record<TargetBody, PlanetData> = {
     orbitalPeriodDays: 1325.75,
     mu: 17.288,
     radiusKm: 265,
+    minFlybyAltKm: 100,
     massKg: 2.59e20,
     escapeVelocityKms: 0.36,
     surfaceGravityMs2: 0.25,
@@ -245,7 +255,44 @@ export const EARTH_ORBITAL_DATA = {
   orbitalPeriodDays: 365.25,
   mu: 3.986004418e5, // km³/s²
   radiusKm: 6371.0,
+  minFlybyAltKm: 300,
   meanLongitudeAtJ2000Deg: 100.464,
   eccentricity: 0.01671,
   longitudeOfPerihelionDeg: 102.937,
 }
+
+// ─── Launch vehicles (expendable escape performance) ───
+
+export interface LaunchVehicleData {
+  name: string
+  c3Curve: Array<[number, number]>   // [C3 km²/s², payload kg], C3 ascending
+}
+
+// Approximate values read from published NASA LSP / provider performance
+// curves; adequate for launch-period screening, not for contract margins.
+export const LAUNCH_VEHICLES: Record<LaunchVehicleId, LaunchVehicleData> = {
+  'falcon-9': {
+    name: 'Falcon 9 (exp.)',
+    c3Curve: [[0, 3900], [10, 2900], [20, 2100], [30, 1400], [40, 850], [50, 400]],
+  },
+  'atlas-v-551': {
+    name: 'Atlas V 551',
+    c3Curve: [[0, 6200], [10, 5000], [20, 3950], [30, 3050], [40, 2250], [60, 1000], [80, 250]],
+  },
+  'ariane-64': {
+    name: 'Ariane 64',
+    c3Curve: [[0, 8600], [10, 7000], [20, 5600], [30, 4300], [40, 3200], [60, 1500]],
+  },
+  'vulcan-vc6': {
+    name: 'Vulcan VC6',
+    c3Curve: [[0, 10500], [10, 8600], [20, 6900], [30, 5400], [40, 4100], [60, 2100], [80, 700]],
+  },
+  'falcon-heavy': {
+    name: 'Falcon Heavy (exp.)',
+    c3Curve: [[0, 15000], [10, 12300], [20, 9900], [30, 7800], [40, 6000], [60, 3300], [80, 1500], [100, 400]],
+  },
+  'sls-block-1': {
+    name: 'SLS Block 1',
+    c3Curve: [[0, 27000], [20, 20000], [40, 14000], [60, 10000], [80, 6500], [100, 4000], [120, 2000]],
+  },
+}
@@ -0,0 +1,96 @@
+/**
+ * Helpers for executing a planned burn sequence inside the numerical propagator:
+ * local-frame burn directions, orbit-event detection functions and
+ * rocket-equation propellant accounting.
+ *
+ * Standalone physics module — no UI dependencies.
+ */
+
+import { G0 } from './constants'
+import type { Vec3 } from '@/types'
+import type { BurnFrame, BurnTrigger } from '@/types/propulsion'
+
+type Vec6 = readonly [number, number, number, number, number, number]
+
+function normalize(v: Vec3): Vec3 {
+  const m = Math.sqrt(v.x * v.x + v.y * v.y + v.z * v.z)
+  return m > 0 ? { x: v.x / m, y: v.y / m, z: v.z / m } : { x: 0, y: 0, z: 0 }
+}
+
+function cross(a: Vec3, b: Vec3): Vec3 {
+  return {
+    x: a.y * b.z - a.z * b.y,
+    y: a.z * b.x - a.x * b.z,
+    z: a.x * b.y - a.y * b.x,
+  }
+}
+
+/**
+ * Unit thrust direction in ECI for components given in a local orbital frame.
+ *   RTN: R = r̂, N = (r × v)̂, T = N × R
+ *   VNB: V = v̂, N = (r × v)̂, B = V × N
+ * Returns the zero vector if the components are all zero.
+ */
+export function burnDirectionECI(
+  y: Vec6,
+  frame: BurnFrame,
+  components: readonly [number, number, number],
+): Vec3 {
+  const r: Vec3 = { x: y[0], y: y[1], z: y[2] }
+  const v: Vec3 = { x: y[3], y: y[4], z: y[5] }
+  const n = normalize(cross(r, v))
+
+  let e1: Vec3, e2: Vec3, e3: Vec3
+  if (frame === 'rtn') {
+    e1 = normalize(r)
+    e3 = n
+    e2 = cross(e3, e1)
+  } else {
+    e1 = normalize(v)
+    e2 = n
+    e3 = cross(e1, e2)
+  }
+
+  const [c1, c2, c3] = components
+  return normalize({
+    x: c1 * e1.x + c2 * e2.x + c3 * e3.x,
+    y: c1 * e1.y + c2 * e2.y + c3 * e3.y,
+    z: c1 * e1.z + c2 * e2.z + c3 * e3.z,
+  })
+}
+
+/**
+ * Event function for orbit-event triggers, signed so that every event is a
+ * rising zero crossing:
+ *   perigee  r·v  (− → +)      apogee  −r·v
+ *   ascending node  z (− → +)  descending node  −z
+ * Near-circular orbits have poorly defined apsides; perturbations can then
+ * produce extra r·v crossings.
+ */
+export function burnEventValue(trigger: Exclude<BurnTrigger, 'epoch'>, y: Vec6): number {
+  switch (trigger) {
+    case 'perigee':
+      return y[0] * y[3] + y[1] * y[4] + y[2] * y[5]
+    case 'apogee':
+      return -(y[0] * y[3] + y[1] * y[4] + y[2] * y[5])
+    case 'ascending-node':
+      return y[2]
+    case 'descending-node':
+      return -y[2]
+  }
+}
+
+/**
+ * Propellant consumed delivering `deltaV` from an initial (wet) mass:
+ * mp = m0 × (1 − exp(−ΔV / (Isp × g0)))
+ */
+export function propellantForBurn(initialMassKg: number, deltaV: number, isp: number): number {
+  if (isp <= 0 || initialMassKg <= 0 || deltaV <= 0) return 0
+  return initialMassKg * (1 - Math.exp(-deltaV / (isp * G0)))
+}
+
+/** Delta-v delivered by burning `propellantKg` from an initial mass (Tsiolkovsky) */
+export function deltaVForPropellant(initialMassKg: number, propellantKg: number, isp: number): number {
+  if (isp <= 0 || propellantKg <= 0 || propellantKg >= initialMassKg) return 0
+  return isp * G0 * Math.log(initialMassKg / (initialMassKg - propellantKg))
+}
@@ -0,0 +1,196 @@
+/**
+ * Main-thread client for the compute worker.
+ *
+ * Every call spawns a dedicated worker and returns a handle with the result
+ * promise and a cancel() that terminates the worker immediately — the
+ * integrator loops are synchronous, so termination is the only way to stop
+ * them mid-run. Results are identical to calling the lib functions directly.
+ */
+
+import type { OrbitalElements } from '@/types/orbit'
+import type { GroundStation } from '@/types/ground-station'
+import type {
+  PerturbationConfig, SpacecraftProps, TrajectoryPoint, IntegratorConfig, NumericalPropagationResult, BurnPlan,
+} from './numerical-propagator'
+import type { ParsedTLE } from './tle'
+import type { SpaceWeather } from './atmosphere'
+import type { SatellitePass } from './pass-prediction'
+import type { MonteCarloInputs, MonteCarloConfig, MonteCarloResult } from './monte-carlo'
+import type { ScenarioInputs, TradeStudyConfig, TradeStudyResult } from './trade-study'
+import type { ConstellationSatellite } from './constellation'
+import type { CoverageConfig, CoverageResult } from './coverage'
+import type { PeriodicOrbitRequest, PeriodicOrbitResult } from './cr3bp'
+import type { ManifoldConfig, ManifoldTransferResult } from './invariant-manifolds'
+import type { StationKeepingConfig, StationKeepingResult } from './station-keeping'
+import type { LaunchPeriodConfig, LaunchPeriodResult } from './launch-period'
+import type { MgaConfig, MgaResult } from './interplanetary'
+import type { LunarTargetingConfig, LunarTargetingResult } from './lunar-targeting'
+import type { LunarStabilityConfig, LunarStabilityResult } from './lunar-stability'
+import type { ModeScheduleInputs, ModeScheduleConfig, ModeScheduleResult } from './mode-scheduler'
+import type { InterplanetaryParams, LunarParams } from '@/types/beyond-leo'
+
+// ─── Message protocol ───
+
+export type ComputeRequest =
+  | {
+      job: 'propagate-numerical'
+      elements: OrbitalElements
+      epochMs: number
+      numOrbits: number
+      dtSec: number
+      config: PerturbationConfig
+      sc: SpacecraftProps
+      integrator: IntegratorConfig
+      burnPlan: BurnPlan | null
+      spaceWeather: SpaceWeather
+    }
+  | {
+      job: 'propagate-sgp4'
+      tle: ParsedTLE
+      epochMs: number
+      numOrbits: number
+      dtSec: number
+    }
+  | {
+      job: 'predict-passes'
+      elements: OrbitalElements
+      epochMs: number
+      stations: GroundStation[]
+      durationDays: number
+      stepSec: number
+      recordTrack: boolean
+      tle: ParsedTLE | null
+    }
+  | {
+      job: 'monte-carlo'
+      inputs: MonteCarloInputs
+      config: MonteCarloConfig
+    }
+  | {
+      job: 'trade-study'
+      inputs: ScenarioInputs
+      config: TradeStudyConfig
+    }
+  | {
+      job: 'constellation-coverage'
+      satellites: ConstellationSatellite[]
+      epochMs: number
+      config: CoverageConfig
+    }
+  | {
+      job: 'cr3bp-periodic-orbit'
+      request: PeriodicOrbitRequest
+    }
+  | {
+      job: 'cr3bp-manifold-transfer'
+      orbit: PeriodicOrbitResult
+      departureAltKm: number
+      config: ManifoldConfig
+    }
+  | {
+      job: 'cr3bp-station-keeping'
+      orbit: PeriodicOrbitResult
+      config: StationKeepingConfig
+    }
+  | {
+      job: 'launch-period'
+      params: InterplanetaryParams
+      config: LaunchPeriodConfig
+    }
+  | {
+      job: 'mga-trajectory'
+      params: InterplanetaryParams
+      config: MgaConfig
+    }
+  | {
+      job: 'lunar-targeting'
+      params: LunarParams
+      config: LunarTargetingConfig
+    }
+  | {
+      job: 'lunar-stability'
+      params: LunarParams
+      config: LunarStabilityConfig
+    }
+  | {
+      job: 'mode-schedule'
+      inputs: ModeScheduleInputs
+      config: ModeScheduleConfig
+    }
+
+interface ComputeResults {
+  'propagate-numerical': NumericalPropagationResult
+  'propagate-sgp4': TrajectoryPoint[]
+  'predict-passes': SatellitePass[]
+  'monte-carlo': MonteCarloResult
+  'trade-study': TradeStudyResult
+  'constellation-coverage': CoverageResult
+  'cr3bp-periodic-orbit': PeriodicOrbitResult
+  'cr3bp-manifold-transfer': ManifoldTransferResult
+  'cr3bp-station-keeping': StationKeepingResult
+  'launch-period': LaunchPeriodResult
+  'mga-trajectory': MgaResult
+  'lunar-targeting': LunarTargetingResult
+  'lunar-stability': LunarStabilityResult
+  'mode-schedule': ModeScheduleResult
+}
+
+export type ComputeResponse =
+  | { kind: 'progress'; progress: number }
+  | { kind: 'result'; job: ComputeRequest['job']; result: ComputeResults[ComputeRequest['job']] }
+  | { kind: 'error'; message: string }
+
+export interface ComputeJob<T> {
+  promise: Promise<T>
+  cancel: () => void
+}
+
+/** Rejection message used when a job is cancelled before completion */
+export const COMPUTE_CANCELLED = 'COMPUTE_CANCELLED'
+
+export function isComputeCancelled(err: unknown): boolean {
+  return err instanceof Error && err.message === COMPUTE_CANCELLED
+}
+
+// ─── Job runner ───
+
+export function runComputeJob<J extends ComputeRequest['job']>(
+  request: Extract<ComputeRequest, { job: J }>,
+  onProgress?: (fraction: number) => void,
+): ComputeJob<ComputeResults[J]> {
+  const worker = new Worker(new URL('./compute-worker.ts', import.meta.url), { type: 'module' })
+  let settled = false
+  let rejectFn: (err: Error) => void = () => {}
+
+  const promise = new Promise<ComputeResults[J]>((resolve, reject) => {
+    rejectFn = reject
+    worker.onmessage = (e: MessageEvent<ComputeResponse>) => {
+      const msg = e.data
+      if (msg.kind === 'progress') {
+        onProgress?.(msg.progress)
+        return
+      }
+      settled = true
+      worker.terminate()
+      if (msg.kind === 'result') resolve(msg.result as ComputeResults[J])
+      else reject(new Error(msg.message))
+    }
+    worker.onerror = (e) => {
+      settled = true
+      worker.terminate()
+      reject(new Error(e.message || 'Compute worker failed'))
+    }
+  })
+
+  worker.postMessage(request)
+
+  return {
+    promise,
+    cancel: () => {
+      if (settled) return
+      settled = true
+      worker.terminate()
+      rejectFn(new Error(COMPUTE_CANCELLED))
+    },
+  }
+}
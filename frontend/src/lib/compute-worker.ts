@@ -0,0 +1,134 @@
+/**
+ * Web Worker entry for long-running orbit computations.
+ *
+ * Runs numerical/SGP4 propagation, pass prediction, Monte Carlo studies,
+ * trade-study sweeps, constellation coverage, CR3BP periodic-orbit
+ * continuation, invariant-manifold transfers, libration-point
+ * station-keeping simulations, interplanetary launch-period searches,
+ * gravity-assist trajectory optimization, lunar TLI targeting, lunar
+ * orbit stability analysis and power mode scheduling off the main thread
+ * so the 3D viewport keeps rendering.
+ * Each worker instance handles one job; cancellation is done by
+ * terminating the worker (see compute-client.ts). Gravity fields come from
+ * the bundled coefficient files, loaded before the job runs.
+ */
+
+import { propagateNumericalWithStats } from './numerical-propagator'
+import { propagateSGP4 } from './tle'
+import { predictPasses } from './pass-prediction'
+import { runMonteCarlo } from './monte-carlo'
+import { runTradeStudy } from './trade-study'
+import { computeCoverage } from './coverage'
+import { computePeriodicOrbit } from './cr3bp'
+import { computeManifoldTransfer } from './invariant-manifolds'
+import { runStationKeeping } from './station-keeping'
+import { runLaunchPeriod } from './launch-period'
+import { runMgaDesign } from './gravity-assist'
+import { runLunarTargeting } from './lunar-targeting'
+import { runLunarStability } from './lunar-stability'
+import { runModeSchedule } from './mode-scheduler'
+import { loadGravityFields, gravityField } from './gravity-field'
+import type { ComputeRequest, ComputeResponse } from './compute-client'
+
+const ctx = self as unknown as Worker
+
+function post(msg: ComputeResponse) {
+  ctx.postMessage(msg)
+}
+
+ctx.onmessage = async (e: MessageEvent<ComputeRequest>) => {
+  const req = e.data
+  const onProgress = (progress: number) => post({ kind: 'progress', progress })
+
+  // Workers don't share the main thread's module state
+  await loadGravityFields()
+
+  try {
+    switch (req.job) {
+      case 'propagate-numerical': {
+        const { elements, epochMs, numOrbits, dtSec, config, sc, integrator, burnPlan, spaceWeather } = req
+        // A failed coefficient fetch leaves the degree-2 fallback; don't pass it off as the requested field
+        const earthField = gravityField('earth')
+        if (config.harmonics && earthField.degree < config.gravityDegree) {
+          throw new Error(`Earth gravity coefficients failed to load; only degree ${earthField.degree} is available`)
+        }
+        const result = propagateNumericalWithStats(
+          elements, epochMs, numOrbits, dtSec, config, sc, { integrator, burnPlan, spaceWeather, onProgress },
+        )
+        post({ kind: 'result', job: req.job, result })
+        break
+      }
+      case 'propagate-sgp4': {
+        const trajectory = propagateSGP4(req.tle, req.epochMs, req.numOrbits, req.dtSec, onProgress)
+        post({ kind: 'result', job: req.job, result: trajectory })
+        break
+      }
+      case 'predict-passes': {
+        const { elements, epochMs, stations, durationDays, stepSec, recordTrack, tle } = req
+        const passes = predictPasses(
+          elements, new Date(epochMs), stations, durationDays, stepSec,
+          { recordTrack, tle, onProgress },
+        )
+        post({ kind: 'result', job: req.job, result: passes })
+        break
+      }
+      case 'monte-carlo': {
+        const result = runMonteCarlo(req.inputs, req.config, onProgress)
+        post({ kind: 'result', job: req.job, result })
+        break
+      }
+      case 'trade-study': {
+        const result = runTradeStudy(req.inputs, req.config, onProgress)
+        post({ kind: 'result', job: req.job, result })
+        break
+      }
+      case 'constellation-coverage': {
+        const result = computeCoverage(req.satellites, new Date(req.epochMs), req.config, onProgress)
+        post({ kind: 'result', job: req.job, result })
+        break
+      }
+      case 'cr3bp-periodic-orbit': {
+        const result = computePeriodicOrbit(req.request, onProgress)
+        post({ kind: 'result', job: req.job, result })
+        break
+      }
+      case 'cr3bp-manifold-transfer': {
+        const result = computeManifoldTransfer(req.orbit, req.departureAltKm, req.config, onProgress)
+        post({ kind: 'result', job: req.job, result })
+        break
+      }
+      case 'cr3bp-station-keeping': {
+        const result = runStationKeeping(req.orbit, req.config, onProgress)
+        post({ kind: 'result', job: req.job, result })
+        break
+      }
+      case 'launch-period': {
+        const result = runLaunchPeriod(req.params, req.config, onProgress)
+        post({ kind: 'result', job: req.job, result })
+        break
+      }
+      case 'mga-trajectory': {
+        const result = runMgaDesign(req.params, req.config, onProgress)
+        post({ kind: 'result', job: req.job, result })
+        break
+      }
+      case 'lunar-targeting': {
+        const result = runLunarTargeting(req.params, req.config, onProgress)
+        post({ kind: 'result', job: req.job, result })
+        break
+      }
+      case 'lunar-stability': {
+        const result = runLunarStability(req.params, req.config, onProgress)
+        post({ kind: 'result', job: req.job, result })
+        break
+      }
+      case 'mode-schedule': {
+        const result = runModeSchedule(req.inputs, req.config, onProgress)
+        post({ kind: 'result', job: req.job, result })
+        break
+      }
+    }
+  } catch (err) {
+    post({ kind: 'error', message: err instanceof Error ? err.message : String(err) })
+  }
+}
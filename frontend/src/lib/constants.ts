@@ -40,6 +40,9 @@ export const JD_J2000 = 2451545.0
 // Days per Julian century
 export const DAYS_PER_CENTURY = 36525.0
 
+// Standard gravity (m/s^2), for specific impulse conversions
+export const G0 = 9.80665
+
 // Atmospheric scale heights (km) at reference altitudes
 export const ATMOSPHERE_TABLE: Array<{ altMin: number; altMax: number; rho0: number; H: number }> = [
   { altMin: 0, altMax: 25, rho0: 1.225, H: 7.249 },
@@ -0,0 +1,346 @@
+/**
+ * Grid-based coverage analysis for satellite constellations.
+ *
+ * Propagates every satellite (two-body with J2 secular drift of RAAN and
+ * argument of perigee) over a time span and, at each step, marks the cells
+ * of a global latitude/longitude grid that see at least one satellite above
+ * the elevation mask and inside the optional nadir sensor cone. Per-cell
+ * access histories give percent coverage, revisit time (interval between
+ * successive access starts) and gap duration (time with no access).
+ *
+ * Visibility uses a spherical Earth: a cell is covered when its central
+ * angle to the subsatellite point is within the Earth central angle λ set
+ * by the tighter of the elevation mask and the sensor half-angle.
+ *
+ * Standalone physics module — no UI dependencies.
+ */
+
+import { DEG2RAD, RAD2DEG, R_EARTH_EQUATORIAL, MU_EARTH_KM, OMEGA_EARTH, SEC_PER_DAY } from './constants'
+import {
+  computeJ2RAANDrift, computeJ2ArgPerigeeDrift, solveKeplerEquation, eccentricToTrueAnomaly, trueToMeanAnomaly,
+} from './orbital-mechanics'
+import { dateToGMST } from './time-utils'
+import type { ConstellationSatellite } from './constellation'
+
+// ─── Types ───
+
+export interface CoverageConfig {
+  gridResolutionDeg: number           // cell size in latitude and longitude
+  durationHours: number
+  stepSec: number
+  minElevationDeg: number
+  sensorHalfAngleDeg: number | null   // nadir cone half-angle; null = elevation mask only
+}
+
+export const DEFAULT_COVERAGE_CONFIG: CoverageConfig = {
+  gridResolutionDeg: 5,
+  durationHours: 24,
+  stepSec: 60,
+  minElevationDeg: 10,
+  sensorHalfAngleDeg: null,
+}
+
+export interface LatitudeCoverage {
+  lat: number
+  coverageFraction: number   // mean over the band's cells
+  meanRevisitSec: number     // mean over cells with ≥ 2 accesses (NaN if none)
+  maxRevisitSec: number      // NaN if no cell has ≥ 2 accesses
+  maxGapSec: number
+}
+
+export interface CoverageSummary {
+  meanCoverageFraction: number   // area-weighted time-averaged coverage
+  coveredAreaFraction: number    // area seeing at least one access
+  continuousAreaFraction: number // area covered at every time step
+  meanRevisitSec: number         // area-weighted over cells with ≥ 2 accesses
+  maxRevisitSec: number
+  maxGapSec: number              // worst gap among cells with at least one access
+}
+
+export interface CoverageResult {
+  config: CoverageConfig
+  latitudes: number[]      // cell-centre latitudes, south to north
+  longitudes: number[]     // cell-centre longitudes, -180 to 180
+  // Per-cell values, row-major [latIndex * longitudes.length + lonIndex]
+  coverageFraction: number[]
+  accessCount: number[]
+  meanRevisitSec: number[] // NaN where fewer than 2 accesses
+  maxRevisitSec: number[]
+  maxGapSec: number[]
+  byLatitude: LatitudeCoverage[]
+  summary: CoverageSummary
+}
+
+/** Per-cell quantity shown on the coverage map and globe */
+export type CoverageMapMetric = 'coverage' | 'meanRevisit' | 'maxGap'
+
+export const COVERAGE_MAP_METRICS: Record<CoverageMapMetric, { label: string; unit: string; lowerIsBetter: boolean }> = {
+  coverage: { label: 'Coverage', unit: '%', lowerIsBetter: false },
+  meanRevisit: { label: 'Mean Revisit', unit: 'min', lowerIsBetter: true },
+  maxGap: { label: 'Max Gap', unit: 'min', lowerIsBetter: true },
+}
+
+/** Per-cell values of a map metric in display units (NaN where undefined) */
+export function coverageMapValues(result: CoverageResult, metric: CoverageMapMetric): number[] {
+  if (metric === 'coverage') return result.coverageFraction.map((f) => f * 100)
+  if (metric === 'meanRevisit') return result.meanRevisitSec.map((s) => s / 60)
+  return result.maxGapSec.map((s) => s / 60)
+}
+
+// ─── Geometry ───
+
+/**
+ * Earth central angle (rad) of the region a satellite at the given
+ * altitude can cover, limited by elevation mask and optional sensor cone.
+ */
+export function coverageHalfAngle(altitudeKm: number, minElevationDeg: number, sensorHalfAngleDeg: number | null): number {
+  const sinRho = R_EARTH_EQUATORIAL / (R_EARTH_EQUATORIAL + Math.max(altitudeKm, 1))
+  const eps = minElevationDeg * DEG2RAD
+  // Nadir angle to a point at elevation ε: sin η = cos ε · sin ρ
+  const etaMask = Math.asin(Math.cos(eps) * sinRho)
+  let lambda = Math.PI / 2 - eps - etaMask
+
+  if (sensorHalfAngleDeg != null) {
+    const eta = sensorHalfAngleDeg * DEG2RAD
+    const ratio = Math.sin(eta) / sinRho
+    // A cone wider than the Earth's limb is bounded by the mask alone
+    if (ratio < 1) {
+      const epsSensor = Math.acos(ratio)
+      lambda = Math.min(lambda, Math.PI / 2 - eta - epsSensor)
+    }
+  }
+  return Math.max(0, lambda)
+}
+
+interface SatPropagator {
+  a: number
+  e: number
+  inc: number
+  raan0: number
+  argp0: number
+  M0: number
+  n: number
+  raanDot: number  // rad/s
+  argpDot: number  // rad/s
+}
+
+function makePropagator(sat: ConstellationSatellite): SatPropagator {
+  const { semiMajorAxis: a, eccentricity: e, inclination } = sat.elements
+  return {
+    a,
+    e,
+    inc: inclination * DEG2RAD,
+    raan0: sat.elements.raan * DEG2RAD,
+    argp0: sat.elements.argOfPerigee * DEG2RAD,
+    M0: trueToMeanAnomaly(sat.elements.trueAnomaly * DEG2RAD, e),
+    n: Math.sqrt(MU_EARTH_KM / (a * a * a)),
+    raanDot: computeJ2RAANDrift(a, e, inclination) * DEG2RAD / SEC_PER_DAY,
+    argpDot: computeJ2ArgPerigeeDrift(a, e, inclination) * DEG2RAD / SEC_PER_DAY,
+  }
+}
+
+/** Earth-fixed unit vector to the satellite and its radius (km) */
+function satelliteDirection(p: SatPropagator, t: number, gmst: number, out: [number, number, number]): number {
+  const M = p.M0 + p.n * t
+  let u: number
+  let r: number
+  if (p.e < 1e-8) {
+    u = p.argp0 + p.argpDot * t + M
+    r = p.a
+  } else {
+    const E = solveKeplerEquation(M % (2 * Math.PI), p.e)
+    u = p.argp0 + p.argpDot * t + eccentricToTrueAnomaly(E, p.e)
+    r = p.a * (1 - p.e * Math.cos(E))
+  }
+  // Longitude of the node measured from Greenwich
+  const node = p.raan0 + p.raanDot * t - gmst
+  const cosU = Math.cos(u)
+  const sinU = Math.sin(u)
+  const cosN = Math.cos(node)
+  const sinN = Math.sin(node)
+  const cosI = Math.cos(p.inc)
+  out[0] = cosN * cosU - sinN * sinU * cosI
+  out[1] = sinN * cosU + cosN * sinU * cosI
+  out[2] = sinU * Math.sin(p.inc)
+  return r
+}
+
+// ─── Coverage run ───
+
+export function computeCoverage(
+  satellites: ConstellationSatellite[],
+  epoch: Date,
+  config: CoverageConfig,
+  onProgress?: (fraction: number) => void,
+): CoverageResult {
+  const res = Math.min(30, Math.max(0.5, config.gridResolutionDeg))
+  const nLat = Math.round(180 / res)
+  const nLon = Math.round(360 / res)
+  const latitudes = Array.from({ length: nLat }, (_, i) => -90 + (i + 0.5) * (180 / nLat))
+  const longitudes = Array.from({ length: nLon }, (_, j) => -180 + (j + 0.5) * (360 / nLon))
+  const nCells = nLat * nLon
+
+  // Cell-centre unit vectors
+  const cx = new Float64Array(nCells)
+  const cy = new Float64Array(nCells)
+  const cz = new Float64Array(nCells)
+  latitudes.forEach((lat, i) => {
+    const cosLat = Math.cos(lat * DEG2RAD)
+    const sinLat = Math.sin(lat * DEG2RAD)
+    longitudes.forEach((lon, j) => {
+      const k = i * nLon + j
+      cx[k] = cosLat * Math.cos(lon * DEG2RAD)
+      cy[k] = cosLat * Math.sin(lon * DEG2RAD)
+      cz[k] = sinLat
+    })
+  })
+
+  const durationSec = Math.max(config.stepSec, config.durationHours * 3600)
+  const stepSec = Math.max(1, config.stepSec)
+  const nSteps = Math.floor(durationSec / stepSec) + 1
+
+  const coveredAt = new Int32Array(nCells).fill(-1)  // last step index a cell was seen
+  const coveredSteps = new Int32Array(nCells)
+  const accessCount = new Int32Array(nCells)
+  const lastStart = new Float64Array(nCells).fill(NaN)
+  const lastEnd = new Float64Array(nCells).fill(0)   // end of the previous access (span start before any)
+  const revisitSum = new Float64Array(nCells)
+  const revisitMax = new Float64Array(nCells)
+  const gapMax = new Float64Array(nCells)
+  const wasCovered = new Uint8Array(nCells)
+
+  const props = satellites.map(makePropagator)
+  const gmst0 = dateToGMST(epoch)
+  const dir: [number, number, number] = [0, 0, 0]
+
+  for (let step = 0; step < nSteps; step++) {
+    const t = step * stepSec
+    const gmst = gmst0 + OMEGA_EARTH * t
+
+    for (const p of props) {
+      const r = satelliteDirection(p, t, gmst, dir)
+      const lambda = coverageHalfAngle(r - R_EARTH_EQUATORIAL, config.minElevationDeg, config.sensorHalfAngleDeg)
+      if (lambda <= 0) continue
+      const cosLambda = Math.cos(lambda)
+      const satLat = Math.asin(Math.max(-1, Math.min(1, dir[2]))) * RAD2DEG
+      const lambdaDeg = lambda * RAD2DEG
+
+      // Only latitude rows within λ of the subsatellite point can be covered
+      const iMin = Math.max(0, Math.floor((satLat - lambdaDeg + 90) / (180 / nLat)))
+      const iMax = Math.min(nLat - 1, Math.floor((satLat + lambdaDeg + 90) / (180 / nLat)))
+      for (let i = iMin; i <= iMax; i++) {
+        const rowStart = i * nLon
+        for (let k = rowStart; k < rowStart + nLon; k++) {
+          if (coveredAt[k] === step) continue
+          if (cx[k] * dir[0] + cy[k] * dir[1] + cz[k] * dir[2] >= cosLambda) coveredAt[k] = step
+        }
+      }
+    }
+
+    // Update access histories
+    for (let k = 0; k < nCells; k++) {
+      const covered = coveredAt[k] === step
+      if (covered) {
+        coveredSteps[k]++
+        if (!wasCovered[k]) {
+          accessCount[k]++
+          gapMax[k] = Math.max(gapMax[k], t - lastEnd[k])
+          if (!Number.isNaN(lastStart[k])) {
+            const revisit = t - lastStart[k]
+            revisitSum[k] += revisit
+            revisitMax[k] = Math.max(revisitMax[k], revisit)
+          }
+          lastStart[k] = t
+        }
+      } else if (wasCovered[k]) {
+        lastEnd[k] = t
+      }
+      wasCovered[k] = covered ? 1 : 0
+    }
+
+    if (step % 10 === 0) onProgress?.(step / nSteps)
+  }
+
+  // Close trailing gaps at the end of the span
+  const spanSec = (nSteps - 1) * stepSec
+  const coverageFraction: number[] = new Array(nCells)
+  const meanRevisitSec: number[] = new Array(nCells)
+  const maxRevisitSec: number[] = new Array(nCells)
+  const maxGapSec: number[] = new Array(nCells)
+  for (let k = 0; k < nCells; k++) {
+    if (!wasCovered[k]) gapMax[k] = Math.max(gapMax[k], spanSec - lastEnd[k])
+    coverageFraction[k] = coveredSteps[k] / nSteps
+    const revisits = accessCount[k] - 1
+    meanRevisitSec[k] = revisits > 0 ? revisitSum[k] / revisits : NaN
+    maxRevisitSec[k] = revisits > 0 ? revisitMax[k] : NaN
+    maxGapSec[k] = gapMax[k]
+  }
+
+  // Per-latitude bands and area-weighted global summary
+  const byLatitude: LatitudeCoverage[] = []
+  let areaTotal = 0
+  let coverageArea = 0
+  let coveredArea = 0
+  let continuousArea = 0
+  let revisitArea = 0
+  let revisitWeighted = 0
+  let maxRevisit = NaN
+  let maxGap = 0
+  latitudes.forEach((lat, i) => {
+    const weight = Math.cos(lat * DEG2RAD)
+    let covSum = 0
+    let revSum = 0
+    let revCount = 0
+    let revMax = NaN
+    let bandGap = 0
+    for (let j = 0; j < nLon; j++) {
+      const k = i * nLon + j
+      covSum += coverageFraction[k]
+      bandGap = Math.max(bandGap, maxGapSec[k])
+      if (!Number.isNaN(meanRevisitSec[k])) {
+        revSum += meanRevisitSec[k]
+        revCount++
+        revMax = Number.isNaN(revMax) ? maxRevisitSec[k] : Math.max(revMax, maxRevisitSec[k])
+        revisitWeighted += meanRevisitSec[k] * weight
+        revisitArea += weight
+      }
+      areaTotal += weight
+      coverageArea += coverageFraction[k] * weight
+      if (accessCount[k] > 0) {
+        coveredArea += weight
+        maxGap = Math.max(maxGap, maxGapSec[k])
+      }
+      if (coveredSteps[k] === nSteps) continuousArea += weight
+    }
+    if (!Number.isNaN(revMax)) maxRevisit = Number.isNaN(maxRevisit) ? revMax : Math.max(maxRevisit, revMax)
+    byLatitude.push({
+      lat,
+      coverageFraction: covSum / nLon,
+      meanRevisitSec: revCount > 0 ? revSum / revCount : NaN,
+      maxRevisitSec: revMax,
+      maxGapSec: bandGap,
+    })
+  })
+
+  onProgress?.(1)
+
+  return {
+    config,
+    latitudes,
+    longitudes,
+    coverageFraction,
+    accessCount: Array.from(accessCount),
+    meanRevisitSec,
+    maxRevisitSec,
+    maxGapSec,
+    byLatitude,
+    summary: {
+      meanCoverageFraction: coverageArea / areaTotal,
+      coveredAreaFraction: coveredArea / areaTotal,
+      continuousAreaFraction: continuousArea / areaTotal,
+      meanRevisitSec: revisitArea > 0 ? revisitWeighted / revisitArea : NaN,
+      maxRevisitSec: maxRevisit,
+      maxGapSec: maxGap,
+    },
+  }
+}
@@ -0,0 +1,870 @@
+/**
+ * Circular restricted three-body problem (CR3BP) periodic orbits.
+ *
+ * Integrates the CR3BP equations of motion in the rotating barycentric frame
+ * (nondimensional: unit distance = primary separation, unit time = 1/n) with
+ * an adaptive Dormand-Prince 5(4) integrator and the 6×6 state transition
+ * matrix, and computes true periodic libration-point orbits by differential
+ * correction:
+ *   - Lyapunov: planar, symmetric about the x-axis (vy free, x0 fixed)
+ *   - Halo:     3D, symmetric about the x-z plane (x0, vy free, z0 fixed),
+ *               seeded from Richardson's third-order approximation
+ *   - Vertical: figure-eight, symmetric about the x-axis (x0, vy free, vz0 fixed)
+ *
+ * Single shooting targets the perpendicular crossing at half period;
+ * multiple shooting corrects N patch points over the full period with
+ * continuity, periodicity, phase and family constraints. A requested
+ * amplitude or Jacobi constant is reached by natural-parameter continuation
+ * from a small orbit, bracketing the target and refining by regula falsi.
+ * Stability comes from the monodromy matrix Φ(T): its eigenvalues occur in
+ * reciprocal pairs, and each pair λ, 1/λ gives a stability index
+ * ν = ½(λ + 1/λ), found from tr Φ and tr Φ² without an eigen-solver.
+ *
+ * Standalone physics module — no UI dependencies.
+ */
+
+import { AU_KM, MU_SUN, MU_MOON, MOON_SEMI_MAJOR_AXIS, MU_CR3BP_SE, MU_CR3BP_EM } from './beyond-leo-constants'
+import { MU_EARTH_KM, R_EARTH_EQUATORIAL, SEC_PER_DAY } from './constants'
+import { dp54Attempt } from './dormand-prince'
+import type { DpTolerance } from './dormand-prince'
+import type { LagrangeSystem, LagrangePoint } from '@/types/beyond-leo'
+
+// ─── Types ───
+
+export type PeriodicOrbitFamily = 'lyapunov' | 'halo' | 'vertical'
+export type HaloBranch = 'northern' | 'southern'
+export type PeriodicOrbitTarget = 'amplitude' | 'jacobi'
+export type ShootingMethod = 'single' | 'multiple'
+
+export interface PeriodicOrbitConfig {
+  family: PeriodicOrbitFamily
+  branch: HaloBranch           // halo only: sign of the maximum z excursion
+  target: PeriodicOrbitTarget
+  jacobi: number               // target Jacobi constant (nondimensional) when target = 'jacobi'
+  corrector: ShootingMethod
+  patchPoints: number          // multiple shooting segments per period
+}
+
+export interface PeriodicOrbitRequest extends PeriodicOrbitConfig {
+  system: LagrangeSystem
+  point: LagrangePoint
+  amplitudeKm: number          // Ay for Lyapunov, Az for halo and vertical
+}
+
+export interface Cr3bpSystem {
+  mu: number
+  lengthKm: number             // primary separation
+  timeSec: number              // 1/n — one nondimensional time unit
+  secondaryRadiusKm: number
+}
+
+export interface PeriodicOrbitResult {
+  system: LagrangeSystem
+  point: LagrangePoint
+  family: PeriodicOrbitFamily
+  branch: HaloBranch
+  corrector: ShootingMethod
+  mu: number
+  lengthKm: number
+  timeSec: number
+  lPointX: number                     // libration point x (nondimensional, barycentric)
+  initialState: number[]              // [x y z vx vy vz] at the symmetric crossing, nondimensional
+  periodNd: number
+  periodDays: number
+  jacobi: number
+  amplitudeKm: number                 // Ay for Lyapunov, Az for halo and vertical
+  extentKm: { x: number; y: number; z: number }  // full peak-to-peak extents
+  monodromy: number[][]
+  stabilityIndices: [number, number]  // ν for each non-trivial eigenvalue pair (NaN if complex)
+  stabilityIndex: number              // largest ν; > 1 is unstable
+  maxEigenvalue: number               // largest |λ| of the monodromy matrix
+  iterations: number                  // corrector iterations for the final orbit
+  continuationSteps: number
+  residual: number
+  points: Array<{ x: number; y: number; z: number }>  // one period, nondimensional barycentric
+}
+
+export const DEFAULT_PERIODIC_ORBIT_CONFIG: PeriodicOrbitConfig = {
+  family: 'halo',
+  branch: 'northern',
+  target: 'amplitude',
+  jacobi: 3.0008,
+  corrector: 'single',
+  patchPoints: 6,
+}
+
+export const PERIODIC_ORBIT_FAMILIES: Record<PeriodicOrbitFamily, { label: string; amplitudeAxis: 'y' | 'z' }> = {
+  lyapunov: { label: 'Planar Lyapunov', amplitudeAxis: 'y' },
+  halo: { label: 'Halo', amplitudeAxis: 'z' },
+  vertical: { label: 'Vertical', amplitudeAxis: 'z' },
+}
+
+// ─── System parameters ───
+
+const R_MOON_KM = 1737.4
+
+/** Mass ratio and characteristic units of a primary/secondary pair */
+export function cr3bpSystem(system: LagrangeSystem): Cr3bpSystem {
+  const mu = system === 'SE' ? MU_CR3BP_SE : MU_CR3BP_EM
+  const lengthKm = system === 'SE' ? AU_KM : MOON_SEMI_MAJOR_AXIS
+  const gmTotal = system === 'SE' ? MU_SUN + MU_EARTH_KM : MU_EARTH_KM + MU_MOON
+  return {
+    mu,
+    lengthKm,
+    timeSec: Math.sqrt(lengthKm ** 3 / gmTotal),
+    secondaryRadiusKm: system === 'SE' ? R_EARTH_EQUATORIAL : R_MOON_KM,
+  }
+}
+
+/** x-derivative of the effective potential along the x-axis */
+function potentialGradX(mu: number, x: number): number {
+  const d1 = x + mu
+  const d2 = x - 1 + mu
+  return x - (1 - mu) * d1 / Math.abs(d1) ** 3 - mu * d2 / Math.abs(d2) ** 3
+}
+
+/** Libration point position (nondimensional, barycentric rotating frame) */
+export function librationPoint(mu: number, point: LagrangePoint): { x: number; y: number } {
+  if (point === 'L4' || point === 'L5') {
+    return { x: 0.5 - mu, y: point === 'L4' ? Math.sqrt(3) / 2 : -Math.sqrt(3) / 2 }
+  }
+  const hill = Math.cbrt(mu / 3)
+  let x = point === 'L1' ? 1 - mu - hill : point === 'L2' ? 1 - mu + hill : -1 - 5 * mu / 12
+  for (let i = 0; i < 50; i++) {
+    const f = potentialGradX(mu, x)
+    const h = 1e-7 * Math.max(1, Math.abs(x))
+    const df = (potentialGradX(mu, x + h) - potentialGradX(mu, x - h)) / (2 * h)
+    const dx = f / df
+    x -= dx
+    if (Math.abs(dx) < 1e-15) break
+  }
+  return { x, y: 0 }
+}
+
+/** Jacobi constant C = 2Ω − v² */
+export function jacobiConstant(mu: number, s: ArrayLike<number>): number {
+  const r1 = Math.hypot(s[0] + mu, s[1], s[2])
+  const r2 = Math.hypot(s[0] - 1 + mu, s[1], s[2])
+  const omega = 0.5 * (s[0] * s[0] + s[1] * s[1]) + (1 - mu) / r1 + mu / r2
+  return 2 * omega - (s[3] * s[3] + s[4] * s[4] + s[5] * s[5])
+}
+
+// ─── Equations of motion ───
+
+/**
+ * CR3BP state derivative; with 42 components the trailing 36 are the
+ * row-major state transition matrix, propagated as Φ' = AΦ.
+ */
+function eom(mu: number, s: Float64Array): Float64Array {
+  const n = s.length
+  const out = new Float64Array(n)
+  const [x, y, z, vx, vy, vz] = s
+  const dx1 = x + mu
+  const dx2 = x - 1 + mu
+  const r1sq = dx1 * dx1 + y * y + z * z
+  const r2sq = dx2 * dx2 + y * y + z * z
+  const r1 = Math.sqrt(r1sq)
+  const r2 = Math.sqrt(r2sq)
+  const k1 = (1 - mu) / (r1sq * r1)
+  const k2 = mu / (r2sq * r2)
+
+  out[0] = vx
+  out[1] = vy
+  out[2] = vz
+  out[3] = 2 * vy + x - k1 * dx1 - k2 * dx2
+  out[4] = -2 * vx + y - k1 * y - k2 * y
+  out[5] = -k1 * z - k2 * z
+  if (n === 6) return out
+
+  const q1 = 3 * k1 / r1sq
+  const q2 = 3 * k2 / r2sq
+  const uxx = 1 - k1 - k2 + q1 * dx1 * dx1 + q2 * dx2 * dx2
+  const uyy = 1 - k1 - k2 + (q1 + q2) * y * y
+  const uzz = -k1 - k2 + (q1 + q2) * z * z
+  const uxy = q1 * dx1 * y + q2 * dx2 * y
+  const uxz = q1 * dx1 * z + q2 * dx2 * z
+  const uyz = (q1 + q2) * y * z
+
+  // A = [[0, I], [U, 2Ω]] with Ω the Coriolis block [[0, 1, 0], [-1, 0, 0], [0, 0, 0]]
+  for (let j = 0; j < 6; j++) {
+    const p0 = s[6 + j], p1 = s[12 + j], p2 = s[18 + j]
+    const p3 = s[24 + j], p4 = s[30 + j]
+    out[6 + j] = p3
+    out[12 + j] = p4
+    out[18 + j] = s[36 + j]
+    out[24 + j] = uxx * p0 + uxy * p1 + uxz * p2 + 2 * p4
+    out[30 + j] = uxy * p0 + uyy * p1 + uyz * p2 - 2 * p3
+    out[36 + j] = uxz * p0 + uyz * p1 + uzz * p2
+  }
+  return out
+}
+
+// ─── Dormand-Prince 5(4) integrator ───
+
+const TOLERANCE: DpTolerance = { relTol: 1e-12, absTol: 1e-12 }
+const MAX_STEPS = 200000
+
+/** One Dormand-Prince step of size h; returns the 5th-order state and the scaled error norm */
+function dpStep(mu: number, y: Float64Array, h: number): { yNew: Float64Array; err: number } {
+  return dp54Attempt((s: Float64Array) => eom(mu, s), y, h, eom(mu, y), TOLERANCE)
+}
+
+/** Zero crossing of a scalar function of the state that ends a propagation */
+export interface Cr3bpEvent {
+  value: (s: Float64Array) => number
+  rate: (s: Float64Array, f: Float64Array) => number  // time derivative, f = state derivative
+  count: number                                       // stop at this crossing (1 = first after t = 0)
+  direction?: 1 | -1                                  // only count increasing (1) or decreasing (-1) crossings
+}
+
+export interface Cr3bpPropagation {
+  state: Float64Array
+  t: number
+  eventFound: boolean
+  samples: Float64Array[]
+  times: number[]
+}
+
+/** Event on the zero crossing of one state component */
+function componentEvent(index: number, count = 1): Cr3bpEvent {
+  return { value: (s) => s[index], rate: (_, f) => f[index], count }
+}
+
+/** Identity-augmented initial state (state + row-major 6×6 identity) */
+export function withStm(s: ArrayLike<number>): Float64Array {
+  const y = new Float64Array(42)
+  for (let i = 0; i < 6; i++) {
+    y[i] = s[i]
+    y[6 + i * 7] = 1
+  }
+  return y
+}
+
+/**
+ * Propagate forward to tEnd, or to the requested event crossing (located by
+ * Newton iteration on the step size). Pass a 42-component state from
+ * withStm() to carry the state transition matrix.
+ */
+export function propagateCr3bp(
+  mu: number,
+  y0: Float64Array,
+  tEnd: number,
+  event: Cr3bpEvent | null = null,
+  record = false,
+): Cr3bpPropagation {
+  let y = y0
+  let t = 0
+  let h = Math.min(1e-3, tEnd / 10)
+  let crossings = 0
+  let gPrev = event ? event.value(y) : 0
+  const samples: Float64Array[] = record ? [y.slice(0, 6)] : []
+  const times: number[] = record ? [0] : []
+
+  for (let step = 0; step < MAX_STEPS; step++) {
+    if (t >= tEnd) break
+    if (t + h > tEnd) h = tEnd - t
+    const { yNew, err } = dpStep(mu, y, h)
+    if (err > 1 && h > 1e-12) {
+      h *= Math.max(0.2, 0.9 * err ** -0.2)
+      continue
+    }
+
+    if (event) {
+      const gNew = event.value(yNew)
+      const crossed = t > 0 && gNew !== 0 && Math.sign(gNew) !== Math.sign(gPrev)
+        && (!event.direction || Math.sign(gNew) === event.direction)
+      if (crossed && ++crossings >= event.count) {
+        // Newton on the step length: g(h) = event value, g'(h) = its rate
+        let hh = h * gPrev / (gPrev - gNew)
+        let ys = yNew
+        for (let i = 0; i < 12; i++) {
+          ys = dpStep(mu, y, hh).yNew
+          const dh = event.value(ys) / event.rate(ys, eom(mu, ys.slice(0, 6) as Float64Array))
+          hh -= dh
+          if (Math.abs(dh) < 1e-14) {
+            ys = dpStep(mu, y, hh).yNew
+            break
+          }
+        }
+        if (record) {
+          samples.push(ys.slice(0, 6))
+          times.push(t + hh)
+        }
+        return { state: ys, t: t + hh, eventFound: true, samples, times }
+      }
+      gPrev = gNew
+    }
+
+    t += h
+    y = yNew
+    if (record) {
+      samples.push(y.slice(0, 6))
+      times.push(t)
+    }
+    h *= Math.min(5, 0.9 * Math.max(err, 1e-10) ** -0.2)
+  }
+
+  return { state: y, t, eventFound: false, samples, times }
+}
+
+/** The 6×6 state transition matrix packed in a 42-component state */
+export function stmFromState(y: Float64Array): number[][] {
+  return Array.from({ length: 6 }, (_, i) => Array.from({ length: 6 }, (_, j) => y[6 + i * 6 + j]))
+}
+
+/** Row i, column j of the STM packed in a 42-component state */
+function phi(y: Float64Array, i: number, j: number): number {
+  return y[6 + i * 6 + j]
+}
+
+// ─── Linear algebra ───
+
+/** Solve A x = b by Gaussian elimination with partial pivoting */
+function solveLinear(A: number[][], b: number[]): number[] {
+  const n = b.length
+  const M = A.map((row, i) => [...row, b[i]])
+  for (let c = 0; c < n; c++) {
+    let p = c
+    for (let r = c + 1; r < n; r++) if (Math.abs(M[r][c]) > Math.abs(M[p][c])) p = r
+    if (Math.abs(M[p][c]) < 1e-300) throw new Error('Singular correction matrix — family bifurcation or turning point')
+    ;[M[c], M[p]] = [M[p], M[c]]
+    for (let r = c + 1; r < n; r++) {
+      const f = M[r][c] / M[c][c]
+      if (f === 0) continue
+      for (let k = c; k <= n; k++) M[r][k] -= f * M[c][k]
+    }
+  }
+  const x = new Array(n).fill(0)
+  for (let r = n - 1; r >= 0; r--) {
+    let s = M[r][n]
+    for (let k = r + 1; k < n; k++) s -= M[r][k] * x[k]
+    x[r] = s / M[r][r]
+  }
+  return x
+}
+
+/** Minimum-residual solution of J dx = -F via the normal equations */
+function leastSquaresStep(J: number[][], F: number[]): number[] {
+  const m = J.length
+  const n = J[0].length
+  const JtJ = Array.from({ length: n }, () => new Array(n).fill(0))
+  const JtF = new Array(n).fill(0)
+  for (let r = 0; r < m; r++) {
+    const row = J[r]
+    for (let i = 0; i < n; i++) {
+      if (row[i] === 0) continue
+      JtF[i] -= row[i] * F[r]
+      for (let j = 0; j < n; j++) JtJ[i][j] += row[i] * row[j]
+    }
+  }
+  return solveLinear(JtJ, JtF)
+}
+
+// ─── Family geometry ───
+
+interface FamilySetup {
+  mu: number
+  xL: number
+  gamma: number       // distance from the libration point to the nearer primary
+  c2: number
+  lambda: number      // linearized in-plane frequency
+  nu: number          // linearized out-of-plane frequency
+  kappa: number       // in-plane y/x amplitude ratio
+}
+
+function familySetup(mu: number, point: LagrangePoint): FamilySetup {
+  const xL = librationPoint(mu, point).x
+  const r1 = Math.abs(xL + mu)
+  const r2 = Math.abs(xL - 1 + mu)
+  const c2 = (1 - mu) / r1 ** 3 + mu / r2 ** 3
+  const b = c2 - 2
+  const lambda = Math.sqrt((-b + Math.sqrt(b * b + 4 * (c2 - 1) * (1 + 2 * c2))) / 2)
+  return {
+    mu,
+    xL,
+    gamma: point === 'L3' ? r1 : r2,
+    c2,
+    lambda,
+    nu: Math.sqrt(c2),
+    kappa: (lambda * lambda + 1 + 2 * c2) / (2 * lambda),
+  }
+}
+
+/** Index of the state component held fixed along each family */
+const FAMILY_INDEX: Record<PeriodicOrbitFamily, number> = { lyapunov: 0, halo: 2, vertical: 5 }
+
+/** Continuation parameter a ≥ 0 → value of the fixed state component */
+function familyValue(fam: FamilySetup, family: PeriodicOrbitFamily, branch: HaloBranch, a: number): number {
+  if (family === 'lyapunov') return fam.xL - a
+  if (family === 'halo') return branch === 'southern' ? -a : a
+  return a
+}
+
+/** Linearized seed for a small orbit with continuation parameter a */
+function linearGuess(fam: FamilySetup, family: 'lyapunov' | 'vertical', a: number): { state: number[]; halfPeriod: number } {
+  if (family === 'lyapunov') {
+    return { state: [fam.xL - a, 0, 0, 0, fam.kappa * fam.lambda * a, 0], halfPeriod: Math.PI / fam.lambda }
+  }
+  return { state: [fam.xL, 0, 0, 0, 0, a], halfPeriod: Math.PI / fam.nu }
+}
+
+/**
+ * Richardson (1980) third-order halo approximation at the x-z plane
+ * crossing, for a z amplitude azNd (nondimensional). L1 and L2 only.
+ */
+function richardsonHalo(fam: FamilySetup, point: LagrangePoint, azNd: number, branch: HaloBranch): { state: number[]; halfPeriod: number } {
+  const { mu, gamma, lambda: lam, c2 } = fam
+  const upper = point === 'L1'
+  const cn = (n: number) => (upper
+    ? (mu + (-1) ** n * (1 - mu) * gamma ** (n + 1) / (1 - gamma) ** (n + 1)) / gamma ** 3
+    : ((-1) ** n * mu + (-1) ** n * (1 - mu) * gamma ** (n + 1) / (1 + gamma) ** (n + 1)) / gamma ** 3)
+  const c3 = cn(3)
+  const c4 = cn(4)
+  const k = 2 * lam / (lam * lam + 1 - c2)
+  const l2 = lam * lam
+
+  const d1 = 3 * l2 / k * (k * (6 * l2 - 1) - 2 * lam)
+  const d2 = 8 * l2 / k * (k * (11 * l2 - 1) - 2 * lam)
+  const a21 = 3 * c3 * (k * k - 2) / (4 * (1 + 2 * c2))
+  const a22 = 3 * c3 / (4 * (1 + 2 * c2))
+  const a23 = -3 * c3 * lam / (4 * k * d1) * (3 * k ** 3 * lam - 6 * k * (k - lam) + 4)
+  const a24 = -3 * c3 * lam / (4 * k * d1) * (2 + 3 * k * lam)
+  const b21 = -3 * c3 * lam / (2 * d1) * (3 * k * lam - 4)
+  const b22 = 3 * c3 * lam / d1
+  const d21 = -c3 / (2 * l2)
+  const a31 = -9 * lam / (4 * d2) * (4 * c3 * (k * a23 - b21) + k * c4 * (4 + k * k))
+    + (9 * l2 + 1 - c2) / (2 * d2) * (3 * c3 * (2 * a23 - k * b21) + c4 * (2 + 3 * k * k))
+  const a32 = -1 / d2 * (9 * lam / 4 * (4 * c3 * (k * a24 - b22) + k * c4)
+    + 1.5 * (9 * l2 + 1 - c2) * (c3 * (k * b22 + d21 - 2 * a24) - c4))
+  const b31 = 3 / (8 * d2) * (8 * lam * (3 * c3 * (k * b21 - 2 * a23) - c4 * (2 + 3 * k * k))
+    + (9 * l2 + 1 + 2 * c2) * (4 * c3 * (k * a23 - b21) + k * c4 * (4 + k * k)))
+  const b32 = 1 / d2 * (9 * lam * (c3 * (k * b22 + d21 - 2 * a24) - c4)
+    + 3 / 8 * (9 * l2 + 1 + 2 * c2) * (4 * c3 * (k * a24 - b22) + k * c4))
+  const d31 = 3 / (64 * l2) * (4 * c3 * a24 + c4)
+  const d32 = 3 / (64 * l2) * (4 * c3 * (a23 - d21) + c4 * (4 + k * k))
+  const sDen = 2 * lam * (lam * (1 + k * k) - 2 * k)
+  const s1 = (1.5 * c3 * (2 * a21 * (k * k - 2) - a23 * (k * k + 2) - 2 * k * b21) - 3 / 8 * c4 * (3 * k ** 4 - 8 * k * k + 8)) / sDen
+  const s2 = (1.5 * c3 * (2 * a22 * (k * k - 2) + a24 * (k * k + 2) + 2 * k * b22 + 5 * d21) + 3 / 8 * c4 * (12 - k * k)) / sDen
+  const a1 = -1.5 * c3 * (2 * a21 + a23 + 5 * d21) - 3 / 8 * c4 * (12 - k * k)
+  const a2 = 1.5 * c3 * (a24 - 2 * a22) + 9 / 8 * c4
+  const ll1 = a1 + 2 * l2 * s1
+  const ll2 = a2 + 2 * l2 * s2
+
+  const Az = azNd / gamma
+  const Ax = Math.sqrt(Math.max(0, (-(l2 - c2) - ll2 * Az * Az) / ll1))
+  const omega = 1 + s1 * Ax * Ax + s2 * Az * Az
+  const dm = branch === 'southern' ? -1 : 1
+
+  // τ1 = 0: the x-z plane crossing
+  const x = a21 * Ax * Ax + a22 * Az * Az - Ax + a23 * Ax * Ax - a24 * Az * Az + a31 * Ax ** 3 - a32 * Ax * Az * Az
+  const z = dm * (Az - 2 * d21 * Ax * Az + d32 * Az * Ax * Ax - d31 * Az ** 3)
+  const vy = lam * omega * (k * Ax + 2 * (b21 * Ax * Ax - b22 * Az * Az) + 3 * (b31 * Ax ** 3 - b32 * Ax * Az * Az))
+  return {
+    state: [fam.xL + gamma * x, 0, gamma * z, 0, gamma * vy, 0],
+    halfPeriod: Math.PI / (lam * omega),
+  }
+}
+
+// ─── Differential correction ───
+
+interface CorrectedOrbit {
+  state: number[]
+  halfPeriod: number
+  iterations: number
+  residual: number
+}
+
+const CORRECTION_TOL = 1e-11
+const MAX_CORRECTIONS = 30
+
+/**
+ * Single shooting to the half-period perpendicular crossing. Lyapunov and
+ * halo orbits stop at the x-z plane (y = 0) and null vx (and vz); vertical
+ * orbits stop at the x-y plane (z = 0) and null y and vx.
+ */
+function singleShooting(mu: number, family: PeriodicOrbitFamily, guess: { state: number[]; halfPeriod: number }): CorrectedOrbit {
+  const s = [...guess.state]
+  const eventIndex = family === 'vertical' ? 2 : 1
+  let halfPeriod = guess.halfPeriod
+  let lastNorm = Infinity
+
+  for (let iter = 1; iter <= MAX_CORRECTIONS; iter++) {
+    const out = propagateCr3bp(mu, withStm(s), 4 * guess.halfPeriod + 1, componentEvent(eventIndex))
+    if (!out.eventFound) throw new Error('Symmetric plane crossing not found — the orbit guess is not close to periodic')
+    const yf = out.state
+    halfPeriod = out.t
+    const f = eom(mu, yf.slice(0, 6) as Float64Array)
+    const rate = f[eventIndex]
+
+    if (family === 'lyapunov') {
+      const res = yf[3]
+      if (Math.abs(res) < CORRECTION_TOL) return { state: s, halfPeriod, iterations: iter - 1, residual: Math.abs(res) }
+      if (Math.abs(res) > 10 * lastNorm) break
+      lastNorm = Math.abs(res)
+      const dvy = -res / (phi(yf, 3, 4) - f[3] * phi(yf, 1, 4) / rate)
+      s[4] += dvy
+      continue
+    }
+
+    // Two targets, free variables x0 and vy0
+    const targets = family === 'halo' ? [3, 5] : [1, 3]
+    const res = targets.map((i) => yf[i])
+    const norm = Math.hypot(res[0], res[1])
+    if (norm < CORRECTION_TOL) return { state: s, halfPeriod, iterations: iter - 1, residual: norm }
+    if (norm > 10 * lastNorm) break
+    lastNorm = norm
+    const M = targets.map((i) => [0, 4].map((j) => phi(yf, i, j) - f[i] * phi(yf, eventIndex, j) / rate))
+    const d = solveLinear(M, res.map((r) => -r))
+    s[0] += d[0]
+    s[4] += d[1]
+    if (!Number.isFinite(s[0]) || !Number.isFinite(s[4])) break
+  }
+  throw new Error('Differential correction did not converge')
+}
+
+/**
+ * Multiple shooting over one full period: patch states X1..XN and period T.
+ * Constraints: continuity between segments (the last wraps to X1 for
+ * periodicity), y1 = 0 phase, and the family's fixed component; planar
+ * Lyapunov orbits also pin z1 = vz1 = 0.
+ */
+function multipleShooting(
+  mu: number,
+  family: PeriodicOrbitFamily,
+  guess: { state: number[]; halfPeriod: number },
+  patchPoints: number,
+): CorrectedOrbit {
+  const N = Math.max(2, Math.round(patchPoints))
+  const fixedIndex = FAMILY_INDEX[family]
+  const fixedValue = guess.state[fixedIndex]
+  let T = 2 * guess.halfPeriod
+
+  // Seed the patch points along the first half of the guess and mirror the
+  // second half through the family's symmetry, so guess errors only grow
+  // over half a period
+  const mirror = family === 'vertical' ? [1, -1, -1, -1, 1, 1] : [1, -1, 1, -1, 1, -1]
+  const firstHalf: number[][] = [[...guess.state]]
+  for (let i = 1; i <= Math.floor(N / 2); i++) {
+    firstHalf.push(Array.from(propagateCr3bp(mu, Float64Array.from(firstHalf[i - 1]), T / N).state))
+  }
+  const X = Array.from({ length: N }, (_, i) => (i <= N / 2
+    ? firstHalf[i]
+    : firstHalf[N - i].map((v, c) => v * mirror[c])))
+
+  const nv = 6 * N + 1
+  for (let iter = 1; iter <= MAX_CORRECTIONS; iter++) {
+    const F: number[] = []
+    const J: number[][] = []
+    const dt = T / N
+    for (let i = 0; i < N; i++) {
+      const yf = propagateCr3bp(mu, withStm(X[i]), dt).state
+      const f = eom(mu, yf.slice(0, 6) as Float64Array)
+      const next = X[(i + 1) % N]
+      for (let r = 0; r < 6; r++) {
+        F.push(yf[r] - next[r])
+        const row = new Array(nv).fill(0)
+        for (let c = 0; c < 6; c++) row[6 * i + c] = phi(yf, r, c)
+        row[6 * ((i + 1) % N) + r] -= 1
+        row[nv - 1] = f[r] / N
+        J.push(row)
+      }
+    }
+    const pin = (index: number, value: number) => {
+      F.push(X[0][index] - value)
+      const row = new Array(nv).fill(0)
+      row[index] = 1
+      J.push(row)
+    }
+    pin(1, 0)
+    pin(fixedIndex, fixedValue)
+    if (family === 'lyapunov') {
+      pin(2, 0)
+      pin(5, 0)
+    }
+
+    const norm = Math.sqrt(F.reduce((acc, v) => acc + v * v, 0))
+    if (norm < CORRECTION_TOL * Math.sqrt(N)) {
+      return { state: X[0], halfPeriod: T / 2, iterations: iter - 1, residual: norm }
+    }
+    // Damped update: large period changes lead toward the trivial T = 0 solution
+    const d = leastSquaresStep(J, F)
+    const damping = Math.min(1, 0.1 * T / Math.abs(d[nv - 1]))
+    for (let i = 0; i < N; i++) for (let c = 0; c < 6; c++) X[i][c] += damping * d[6 * i + c]
+    T += damping * d[nv - 1]
+    if (!Number.isFinite(T) || T <= 0) break
+  }
+  throw new Error('Multiple-shooting correction did not converge')
+}
+
+function correct(
+  mu: number,
+  config: PeriodicOrbitConfig,
+  guess: { state: number[]; halfPeriod: number },
+): CorrectedOrbit {
+  return config.corrector === 'multiple'
+    ? multipleShooting(mu, config.family, guess, config.patchPoints)
+    : singleShooting(mu, config.family, guess)
+}
+
+// ─── Orbit measures ───
+
+interface OrbitSample {
+  a: number
+  orbit: CorrectedOrbit
+  amplitude: number    // nondimensional
+  jacobi: number
+}
+
+/** Full-period samples of a corrected orbit */
+function sampleOrbit(mu: number, orbit: CorrectedOrbit): Cr3bpPropagation {
+  return propagateCr3bp(mu, Float64Array.from(orbit.state), 2 * orbit.halfPeriod, null, true)
+}
+
+/**
+ * Minimum and maximum of one position axis. Integrator steps are long on
+ * large orbits, so each extremum is located on the cubic Hermite
+ * interpolant between the samples where the matching velocity changes sign.
+ */
+function axisRange(out: Cr3bpPropagation, axis: number): [number, number] {
+  const { samples, times } = out
+  let lo = Infinity
+  let hi = -Infinity
+  for (let i = 0; i < samples.length; i++) {
+    const y0 = samples[i][axis]
+    lo = Math.min(lo, y0)
+    hi = Math.max(hi, y0)
+    if (i === samples.length - 1) break
+    const m0 = samples[i][axis + 3]
+    const m1 = samples[i + 1][axis + 3]
+    if (Math.sign(m0) === Math.sign(m1)) continue
+    const h = times[i + 1] - times[i]
+    const y1 = samples[i + 1][axis]
+    // Roots of the Hermite derivative Aθ² + Bθ + C on [0, 1]
+    const A = 6 * y0 + 3 * h * m0 - 6 * y1 + 3 * h * m1
+    const B = -6 * y0 - 4 * h * m0 + 6 * y1 - 2 * h * m1
+    const C = h * m0
+    const roots = Math.abs(A) < 1e-300
+      ? [-C / B]
+      : [-1, 1].map((sgn) => (-B + sgn * Math.sqrt(Math.max(0, B * B - 4 * A * C))) / (2 * A))
+    for (const th of roots) {
+      if (!(th >= 0 && th <= 1)) continue
+      const th2 = th * th
+      const th3 = th2 * th
+      const v = (2 * th3 - 3 * th2 + 1) * y0 + (th3 - 2 * th2 + th) * h * m0
+        + (-2 * th3 + 3 * th2) * y1 + (th3 - th2) * h * m1
+      lo = Math.min(lo, v)
+      hi = Math.max(hi, v)
+    }
+  }
+  return [lo, hi]
+}
+
+function measure(mu: number, family: PeriodicOrbitFamily, a: number, orbit: CorrectedOrbit): OrbitSample {
+  const [lo, hi] = axisRange(sampleOrbit(mu, orbit), PERIODIC_ORBIT_FAMILIES[family].amplitudeAxis === 'y' ? 1 : 2)
+  return { a, orbit, amplitude: Math.max(Math.abs(lo), Math.abs(hi)), jacobi: jacobiConstant(mu, orbit.state) }
+}
+
+/**
+ * Stability indices from the monodromy matrix. For a symplectic 6×6 matrix
+ * with one unit pair, the sums s = λ + 1/λ of the other two pairs satisfy
+ * s1 + s2 = tr Φ − 2 and s1² + s2² = tr Φ² + 2.
+ */
+function stabilityFromMonodromy(M: number[][]): { indices: [number, number]; maxEigenvalue: number } {
+  let tr = 0
+  let tr2 = 0
+  for (let i = 0; i < 6; i++) {
+    tr += M[i][i]
+    for (let k = 0; k < 6; k++) tr2 += M[i][k] * M[k][i]
+  }
+  const S = tr - 2
+  const P = (S * S - (tr2 + 2)) / 2
+  const disc = S * S - 4 * P
+  if (disc < 0) return { indices: [NaN, NaN], maxEigenvalue: NaN }
+  const s1 = (S + Math.sqrt(disc)) / 2
+  const s2 = (S - Math.sqrt(disc)) / 2
+  const eig = (s: number) => (Math.abs(s) > 2 ? (Math.abs(s) + Math.sqrt(s * s - 4)) / 2 : 1)
+  const [big, small] = Math.abs(s1) >= Math.abs(s2) ? [s1, s2] : [s2, s1]
+  return { indices: [Math.abs(big) / 2, Math.abs(small) / 2], maxEigenvalue: Math.max(eig(s1), eig(s2)) }
+}
+
+// ─── Family continuation ───
+
+const MAX_CONTINUATION_STEPS = 300
+const MAX_REFINEMENTS = 25
+
+/**
+ * Compute the periodic orbit of the requested family whose amplitude (or
+ * Jacobi constant) matches the request. onProgress receives the fraction of
+ * the way along the family from the seed orbit to the target.
+ */
+export function computePeriodicOrbit(
+  request: PeriodicOrbitRequest,
+  onProgress?: (fraction: number) => void,
+): PeriodicOrbitResult {
+  const sys = cr3bpSystem(request.system)
+  const { mu } = sys
+  const { family, branch, point } = request
+
+  if (point === 'L4' || point === 'L5') {
+    throw new Error('Halo, vertical and Lyapunov families are computed for the collinear points L1–L3')
+  }
+  if (family === 'halo' && point === 'L3') {
+    throw new Error('Halo orbits are seeded from Richardson\'s approximation, available for L1 and L2 only')
+  }
+  if (request.target === 'amplitude' && !(request.amplitudeKm > 0)) {
+    throw new Error('Amplitude must be positive')
+  }
+
+  const fam = familySetup(mu, point)
+  const fixedIndex = FAMILY_INDEX[family]
+  const seedOf = (a: number) => (family === 'halo'
+    ? richardsonHalo(fam, point, a, branch)
+    : linearGuess(fam, family, a))
+
+  // Target residual along the family, increasing with a for amplitude targets
+  const targetAmp = request.amplitudeKm / sys.lengthKm
+  const g = (o: OrbitSample) => (request.target === 'amplitude' ? o.amplitude - targetAmp : request.jacobi - o.jacobi)
+  const solveAt = (a: number, guess: { state: number[]; halfPeriod: number }): OrbitSample => {
+    const state = [...guess.state]
+    state[fixedIndex] = familyValue(fam, family, branch, a)
+    return measure(mu, family, a, correct(mu, request, { state, halfPeriod: guess.halfPeriod }))
+  }
+
+  // Seed orbit: small enough for the analytic guess to converge
+  const aSeed = family === 'halo' ? 0.05 * fam.gamma : family === 'vertical' ? 0.01 * fam.gamma * fam.nu : 0.01 * fam.gamma
+  const seedGuess = seedOf(aSeed)
+  const seedA = family === 'halo' ? Math.abs(seedGuess.state[2]) : aSeed
+  let prev: OrbitSample = solveAt(seedA, seedGuess)
+  let before: OrbitSample | null = null
+  let steps = 0
+  const g0 = g(prev)
+
+  // March along the family (toward larger or smaller orbits) until the
+  // target residual changes sign
+  const dir = g0 < 0 ? 1 : -1
+  const aMin = 1e-4 * fam.gamma
+  const maxStep = 0.05 * fam.gamma * (family === 'vertical' ? fam.nu : 1)
+  let da = 0.5 * prev.a
+  let next: OrbitSample | null = g0 === 0 ? prev : null
+  while (!next || Math.sign(g(next)) === Math.sign(g0)) {
+    if (++steps > MAX_CONTINUATION_STEPS) {
+      throw new Error(`Target not reached along the family (stopped at amplitude ${(prev.amplitude * sys.lengthKm).toFixed(0)} km)`)
+    }
+    if (next) {
+      before = prev
+      prev = next
+    }
+    const aNext = prev.a + dir * Math.min(da, dir < 0 ? 0.5 * prev.a : da)
+    if (aNext < aMin) {
+      throw new Error(`Target lies beyond the small-amplitude end of the family (C = ${prev.jacobi.toFixed(6)} at ${(prev.amplitude * sys.lengthKm).toFixed(0)} km)`)
+    }
+    const guess = before ? extrapolate(before, prev, aNext) : seedOf(aNext)
+    try {
+      next = solveAt(aNext, guess)
+      // A period far from the prediction means the corrector landed on a different family
+      if (Math.abs(next.orbit.halfPeriod / guess.halfPeriod - 1) > 0.1) {
+        throw new Error('Period jump between neighbouring orbits')
+      }
+      checkClearance(mu, sys, next.orbit)
+      if (next.orbit.iterations <= 4) da = Math.min(maxStep, da * 1.5)
+    } catch (err) {
+      next = null
+      da /= 2
+      if (da < 1e-5 * fam.gamma) {
+        throw new Error(`Family continuation stalled at amplitude ${(prev.amplitude * sys.lengthKm).toFixed(0)} km: ${err instanceof Error ? err.message : err}`)
+      }
+      continue
+    }
+    onProgress?.(Math.min(0.95, Math.abs(g(next) - g0) / Math.max(1e-12, Math.abs(g0))))
+  }
+
+  // Regula falsi (Illinois) between the bracketing orbits
+  let [lo, hi] = g(next) < 0 ? [next, prev] : [prev, next]
+  let gLo = g(lo)
+  let gHi = g(hi)
+  let side = 0
+  let best = Math.abs(gLo) < Math.abs(gHi) ? lo : hi
+  const tol = request.target === 'amplitude' ? 1e-7 * targetAmp : 1e-10
+  for (let i = 0; i < MAX_REFINEMENTS && Math.abs(g(best)) > tol; i++) {
+    const a = (lo.a * gHi - hi.a * gLo) / (gHi - gLo)
+    const mid = solveAt(a, extrapolate(lo, hi, a))
+    const gm = g(mid)
+    if (Math.abs(gm) < Math.abs(g(best))) best = mid
+    if (gm < 0) {
+      lo = mid; gLo = gm
+      if (side === -1) gHi /= 2
+      side = -1
+    } else {
+      hi = mid; gHi = gm
+      if (side === 1) gLo /= 2
+      side = 1
+    }
+  }
+  onProgress?.(1)
+
+  return buildResult(request, sys, fam.xL, best, steps)
+}
+
+/** Linear predictor along the family in the continuation parameter */
+function extrapolate(o1: OrbitSample, o2: OrbitSample, a: number): { state: number[]; halfPeriod: number } {
+  const t = (a - o1.a) / (o2.a - o1.a)
+  return {
+    state: o1.orbit.state.map((v, i) => v + (o2.orbit.state[i] - v) * t),
+    halfPeriod: o1.orbit.halfPeriod + (o2.orbit.halfPeriod - o1.orbit.halfPeriod) * t,
+  }
+}
+
+/** Reject orbits that pass through the secondary body */
+function checkClearance(mu: number, sys: Cr3bpSystem, orbit: CorrectedOrbit): void {
+  const rMin = sys.secondaryRadiusKm / sys.lengthKm
+  for (const p of sampleOrbit(mu, orbit).samples) {
+    if (Math.hypot(p[0] - 1 + mu, p[1], p[2]) < rMin) {
+      throw new Error('Orbit intersects the secondary body')
+    }
+  }
+}
+
+function buildResult(
+  request: PeriodicOrbitRequest,
+  sys: Cr3bpSystem,
+  xL: number,
+  sample: OrbitSample,
+  steps: number,
+): PeriodicOrbitResult {
+  const { mu } = sys
+  const periodNd = 2 * sample.orbit.halfPeriod
+  const full = propagateCr3bp(mu, withStm(sample.orbit.state), periodNd, null, true)
+  const monodromy = stmFromState(full.state)
+  const { indices, maxEigenvalue } = stabilityFromMonodromy(monodromy)
+
+  const extent = (axis: number) => {
+    const [lo, hi] = axisRange(full, axis)
+    return (hi - lo) * sys.lengthKm
+  }
+
+  return {
+    system: request.system,
+    point: request.point,
+    family: request.family,
+    branch: request.branch,
+    corrector: request.corrector,
+    mu,
+    lengthKm: sys.lengthKm,
+    timeSec: sys.timeSec,
+    lPointX: xL,
+    initialState: [...sample.orbit.state],
+    periodNd,
+    periodDays: periodNd * sys.timeSec / SEC_PER_DAY,
+    jacobi: sample.jacobi,
+    amplitudeKm: sample.amplitude * sys.lengthKm,
+    extentKm: { x: extent(0), y: extent(1), z: extent(2) },
+    monodromy,
+    stabilityIndices: indices,
+    stabilityIndex: Math.max(indices[0], indices[1]),
+    maxEigenvalue,
+    iterations: sample.orbit.iterations,
+    continuationSteps: steps,
+    residual: sample.orbit.residual,
+    points: full.samples.map((p) => ({ x: p[0], y: p[1], z: p[2] })),
+  }
+}
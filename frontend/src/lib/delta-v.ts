@@ -1,7 +1,7 @@
-import { R_EARTH_EQUATORIAL, MU_EARTH_KM } from './constants'
-import type { PropulsionConfig, DeltaVManeuver } from '@/types/propulsion'
-
-const G0 = 9.80665 // m/s^2, standard gravity
+import { R_EARTH_EQUATORIAL, MU_EARTH_KM, G0 } from './constants'
+import { orbitAveragedDensity, resolveSpaceWeather } from './atmosphere'
+import type { SolarActivity, SpaceWeather } from './atmosphere'
+import type { PropulsionConfig, DeltaVManeuver, ExecutedBurn } from '@/types/propulsion'
 
 // ─── Core Equations ───
 
@@ -43,41 +43,23 @@ export function computeDeorbitDeltaV(altitudeKm: number): number {
 
 /**
  * Annual delta-v to counteract atmospheric drag (station keeping)
- * Based on drag deceleration integrated over one year
+ * Based on drag deceleration integrated over one year, with the
+ * orbit-averaged density of the space-weather atmosphere model
+ * @param ballisticCoeffM2Kg - Cd × A / m
  */
-export function computeDragDeltaV(altitudeKm: number, ballisticCoeffM2Kg: number, solarActivity: 'low' | 'moderate' | 'high' = 'moderate'): number {
-  // Atmospheric density (simplified exponential model)
-  const scaleHeights: [number, number, number][] = [
-    [200, 2.789e-10, 37.5], [300, 7.248e-11, 53.6], [400, 2.803e-11, 58.5],
-    [500, 1.184e-11, 60.8], [600, 5.215e-12, 63.8], [700, 2.390e-12, 65.2],
-    [800, 1.170e-12, 68.9], [900, 5.790e-13, 72.0], [1000, 3.000e-13, 76.0],
-  ]
-
-  const solarFactors = { low: 0.5, moderate: 1.0, high: 2.5 }
-  const solarFactor = solarFactors[solarActivity]
-
-  // Find nearest density
-  let rho = 1e-12 // default
-  let found = false
-  for (let i = 0; i < scaleHeights.length - 1; i++) {
-    if (altitudeKm >= scaleHeights[i][0] && altitudeKm < scaleHeights[i + 1][0]) {
-      const [h0, rho0, H] = scaleHeights[i]
-      rho = rho0 * Math.exp(-(altitudeKm - h0) / H) * solarFactor
-      found = true
-      break
-    }
-  }
-  if (!found && altitudeKm < 200) {
-    rho = 2.789e-10 * solarFactor
-  }
+export function computeDragDeltaV(
+  altitudeKm: number,
+  ballisticCoeffM2Kg: number,
+  solarActivity: SolarActivity | SpaceWeather = 'moderate',
+): number {
+  const rho = orbitAveragedDensity(altitudeKm, resolveSpaceWeather(solarActivity))
 
   // Orbital velocity (m/s)
   const r = (R_EARTH_EQUATORIAL + altitudeKm) * 1000
   const v = Math.sqrt(MU_EARTH_KM * 1e9 / r) // m/s
 
-  // Drag deceleration: a_drag = 0.5 * rho * v^2 * B* (kg/m^2 → need area/mass)
-  // B* = Cd * A / (2 * m), so drag_accel = rho * v^2 * B*
-  const dragAccel = rho * v * v * ballisticCoeffM2Kg // m/s^2
+  // Drag deceleration: a_drag = 0.5 * rho * v^2 * Cd * A / m
+  const dragAccel = 0.5 * rho * v * v * ballisticCoeffM2Kg // m/s^2
 
   // Integrate over one year (seconds)
   const secondsPerYear = 365.25 * 86400
@@ -104,6 +86,12 @@ export interface DeltaVBudgetResult {
   massRatio: number               // wet/dry
 }
 
+/**
+ * Delta-v budget from the scalar maneuver list. Burns already flown by the
+ * numerical propagator (`executedBurns`) enter as one line with the
+ * propellant they actually consumed, and that propellant is no longer
+ * available to the remaining line items.
+ */
 export function computeDeltaVBudget(
   propulsion: PropulsionConfig,
   maneuvers: DeltaVManeuver[],
@@ -111,6 +99,7 @@ export function computeDeltaVBudget(
   altitudeKm: number,
   lifetimeYears: number,
   ballisticCoeffM2Kg: number = 0.01,
+  executedBurns: ExecutedBurn[] = [],
 ): DeltaVBudgetResult {
   const availableDeltaV = tsiolkovskyDeltaV(propulsion.specificImpulse, dryMass, propulsion.propellantMass)
   const deorbitDV = computeDeorbitDeltaV(altitudeKm)
@@ -124,6 +113,18 @@ export function computeDeltaVBudget(
   let currentDryMass = dryMass
   const breakdown: DeltaVBudgetResult['maneuverBreakdown'] = []
 
+  const flown = executedBurns.filter((b) => b.status === 'executed' || b.status === 'truncated')
+  const simulatedProp = flown.reduce((sum, b) => sum + b.propellantKg, 0)
+  if (flown.length > 0) {
+    breakdown.push({
+      id: 'burn-plan',
+      name: 'Burn Plan (simulated)',
+      deltaV: flown.reduce((sum, b) => sum + b.deltaV, 0),
+      propellantKg: simulatedProp,
+    })
+    remainingProp = Math.max(0, remainingProp - simulatedProp)
+  }
+
   for (const m of maneuvers) {
     let dv = m.deltaV
     if (m.id === 'deorbit') dv = deorbitDV
@@ -145,8 +146,10 @@ export function computeDeltaVBudget(
   const marginDV = availableDeltaV - totalRequired
   const marginPercent = availableDeltaV > 0 ? marginDV / availableDeltaV : -1
 
-  // Compute remaining propellant after all maneuvers
-  const totalPropNeeded = propellantForDeltaV(propulsion.specificImpulse, dryMass, totalRequired)
+  // Compute remaining propellant after all maneuvers; simulated burns count
+  // at their actual consumption rather than the rocket-equation estimate
+  const flownDV = flown.length > 0 ? breakdown[0].deltaV : 0
+  const totalPropNeeded = simulatedProp + propellantForDeltaV(propulsion.specificImpulse, dryMass, totalRequired - flownDV)
   const propRemaining = Math.max(0, propulsion.propellantMass - totalPropNeeded)
 
   const marginStatus: 'nominal' | 'warning' | 'critical' =
@@ -0,0 +1,104 @@
+/**
+ * Dormand-Prince 5(4) step core, shared by the Earth-orbit propagator and the
+ * CR3BP integrator.
+ *
+ * Works on any state length (6-component Cartesian states, 42-component
+ * state + STM); the caller owns the step-size control, event location and
+ * output sampling, and passes the derivative function. The derivative also
+ * receives the stage time offset c_i·h within the step.
+ *
+ * Standalone numerics module — no UI dependencies.
+ */
+
+export type DpVector = number[] | Float64Array
+
+/** State derivative; dt is the stage time offset within the step */
+export type DpDeriv<T extends DpVector> = (y: T, dt: number) => T
+
+export interface DpTolerance {
+  relTol: number
+  absTol: number
+}
+
+// Butcher tableau (Dormand & Prince 1980); the 7th stage is FSAL.
+const DP_C = [0, 1 / 5, 3 / 10, 4 / 5, 8 / 9, 1, 1]
+const DP_A = [
+  [],
+  [1 / 5],
+  [3 / 40, 9 / 40],
+  [44 / 45, -56 / 15, 32 / 9],
+  [19372 / 6561, -25360 / 2187, 64448 / 6561, -212 / 729],
+  [9017 / 3168, -355 / 33, 46732 / 5247, 49 / 176, -5103 / 18656],
+  [35 / 384, 0, 500 / 1113, 125 / 192, -2187 / 6784, 11 / 84],
+]
+// Difference between 5th and embedded 4th order weights
+const DP_E = [71 / 57600, 0, -71 / 16695, 71 / 1920, -17253 / 339200, 22 / 525, -1 / 40]
+// Continuous extension coefficients (Hairer, dopri5 dense output)
+const DP_D = [
+  -12715105075 / 11282082432, 0, 87487479700 / 32700410799, -10690763975 / 1880347072,
+  701980252875 / 199316789632, -1453857185 / 822651844, 69997945 / 29380423,
+]
+
+/**
+ * One Dormand-Prince attempt of size h from y, with k1 = f(y, 0). Stage 7 is
+ * evaluated at the 5th-order solution (FSAL), so the last stage argument is
+ * the candidate new state and k[6] is its derivative.
+ * Returns the stages and the scaled RMS error norm (accept when <= 1).
+ */
+export function dp54Attempt<T extends DpVector>(
+  f: DpDeriv<T>,
+  y: T,
+  h: number,
+  k1: T,
+  tol: DpTolerance,
+): { yNew: T; k: T[]; err: number } {
+  const n = y.length
+  const k: T[] = [k1]
+  let yNew = y
+  for (let s = 1; s < 7; s++) {
+    const yi = y.slice() as T
+    for (let j = 0; j < s; j++) {
+      const aij = DP_A[s][j]
+      if (aij === 0) continue
+      const kj = k[j]
+      for (let i = 0; i < n; i++) yi[i] += h * aij * kj[i]
+    }
+    k.push(f(yi, DP_C[s] * h))
+    yNew = yi
+  }
+
+  let errSum = 0
+  for (let i = 0; i < n; i++) {
+    let ei = 0
+    for (let s = 0; s < 7; s++) ei += DP_E[s] * k[s][i]
+    ei *= h
+    const sc = tol.absTol + tol.relTol * Math.max(Math.abs(y[i]), Math.abs(yNew[i]))
+    errSum += (ei / sc) * (ei / sc)
+  }
+  return { yNew, k, err: Math.sqrt(errSum / n) }
+}
+
+/** Dense-output coefficients for one accepted step */
+export function dpDenseCoeffs<T extends DpVector>(y: T, yNew: T, k: T[], h: number): T[] {
+  const zero = () => y.map(() => 0) as T
+  const rcont: T[] = [y, zero(), zero(), zero(), zero()]
+  for (let i = 0; i < y.length; i++) {
+    const dy = yNew[i] - y[i]
+    const bspl = h * k[0][i] - dy
+    rcont[1][i] = dy
+    rcont[2][i] = bspl
+    rcont[3][i] = dy - h * k[6][i] - bspl
+    let d = 0
+    for (let s = 0; s < 7; s++) d += DP_D[s] * k[s][i]
+    rcont[4][i] = h * d
+  }
+  return rcont
+}
+
+/** Dense-output polynomial for one accepted step; theta in [0, 1] */
+export function dpDenseEval<T extends DpVector>(rcont: T[], theta: number): T {
+  const t1 = 1 - theta
+  return rcont[0].map((y0, i) =>
+    y0 + theta * (rcont[1][i] + t1 * (rcont[2][i] + theta * (rcont[3][i] + t1 * rcont[4][i])))
+  ) as T
+}
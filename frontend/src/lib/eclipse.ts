@@ -0,0 +1,274 @@
+/**
+ * Earth-shadow geometry for Earth orbits.
+ *
+ * Eclipses are found with the conical shadow model (Montenbruck & Gill §3.4.2):
+ * the apparent discs of the Sun and Earth seen from the spacecraft give the
+ * illuminated fraction, 1 in full Sun, 0 in umbra and in between through
+ * penumbra. The Sun vector comes from solar-position.ts and the orbit plane
+ * drifts with J2 secular RAAN and argument-of-perigee rates, so the beta
+ * angle and eclipse length follow the seasons over a whole mission.
+ *
+ * Standalone physics module — no UI dependencies.
+ */
+
+import { R_EARTH_EQUATORIAL, DEG2RAD, RAD2DEG, SEC_PER_DAY } from './constants'
+import {
+  computeOrbitalPeriod,
+  computeJ2RAANDrift,
+  computeJ2ArgPerigeeDrift,
+  solveKeplerEquation,
+  eccentricToTrueAnomaly,
+  trueToMeanAnomaly,
+} from './orbital-mechanics'
+import { computeSunPositionECI } from './solar-position'
+import { AU_KM } from './beyond-leo-constants'
+import type { OrbitalElements } from '@/types/orbit'
+import type { Vec3 } from '@/types'
+
+const R_SUN_KM = 696000
+
+// Timeline sampling: at most this many days are evaluated, spread evenly
+const MAX_TIMELINE_SAMPLES = 400
+const TIMELINE_POINTS_PER_ORBIT = 90
+// Sub-steps across a sample interval that contains a shadow boundary
+const BOUNDARY_SUBSTEPS = 64
+
+// ─── Types ───
+
+/** Illumination over one revolution, starting at the elements' true anomaly */
+export interface OrbitEclipse {
+  betaDeg: number
+  periodMin: number
+  umbraMin: number
+  penumbraMin: number
+  eclipseFraction: number      // energy-equivalent: 1 − mean illumination
+  timeMinutes: number[]
+  illumination: number[]       // 0 umbra … 1 full Sun
+}
+
+export interface EclipseDay {
+  day: number                  // days after epoch
+  dateISO: string
+  betaDeg: number
+  umbraMin: number
+  penumbraMin: number
+  eclipseFraction: number
+}
+
+export interface EclipseTimeline {
+  epochISO: string
+  durationDays: number
+  stepDays: number
+  days: EclipseDay[]
+  worstIndex: number           // longest eclipse
+  bestIndex: number            // shortest eclipse
+  minBetaDeg: number
+  maxBetaDeg: number
+  eclipseFreeDays: number
+}
+
+// ─── Geometry ───
+
+/**
+ * Fraction of the solar disc visible from position r (ECI, km) with the Sun at
+ * sun (ECI, km), occulted by a spherical Earth
+ */
+export function shadowFunction(r: Vec3, sun: Vec3): number {
+  const rMag = Math.sqrt(r.x * r.x + r.y * r.y + r.z * r.z)
+  const dx = sun.x - r.x
+  const dy = sun.y - r.y
+  const dz = sun.z - r.z
+  const dMag = Math.sqrt(dx * dx + dy * dy + dz * dz)
+  if (rMag <= R_EARTH_EQUATORIAL) return 0
+
+  const a = Math.asin(Math.min(1, R_SUN_KM / dMag))           // apparent Sun radius
+  const b = Math.asin(Math.min(1, R_EARTH_EQUATORIAL / rMag)) // apparent Earth radius
+  const cosC = -(r.x * dx + r.y * dy + r.z * dz) / (rMag * dMag)
+  const c = Math.acos(Math.max(-1, Math.min(1, cosC)))       // separation of the centres
+
+  if (c >= a + b) return 1
+  if (c <= b - a) return 0
+  if (c <= a - b) return 1 - (b * b) / (a * a)
+
+  const x = (c * c + a * a - b * b) / (2 * c)
+  const y = Math.sqrt(Math.max(0, a * a - x * x))
+  const overlap = a * a * Math.acos(Math.max(-1, Math.min(1, x / a)))
+    + b * b * Math.acos(Math.max(-1, Math.min(1, (c - x) / b)))
+    - c * y
+  return Math.max(0, Math.min(1, 1 - overlap / (Math.PI * a * a)))
+}
+
+/** Solar beta angle (deg): elevation of the Sun above the orbit plane */
+export function computeBetaAngle(raanDeg: number, incDeg: number, sun: Vec3): number {
+  const raan = raanDeg * DEG2RAD
+  const inc = incDeg * DEG2RAD
+  const nx = Math.sin(raan) * Math.sin(inc)
+  const ny = -Math.cos(raan) * Math.sin(inc)
+  const nz = Math.cos(inc)
+  const s = Math.sqrt(sun.x * sun.x + sun.y * sun.y + sun.z * sun.z)
+  return Math.asin(Math.max(-1, Math.min(1, (nx * sun.x + ny * sun.y + nz * sun.z) / s))) * RAD2DEG
+}
+
+/** Elements after `days` of J2 secular drift (RAAN and argument of perigee only) */
+export function driftedElements(elements: OrbitalElements, days: number): OrbitalElements {
+  const { semiMajorAxis: a, eccentricity: e, inclination: i } = elements
+  const raanRate = computeJ2RAANDrift(a, e, i)
+  const aopRate = computeJ2ArgPerigeeDrift(a, e, i)
+  const wrap = (deg: number) => ((deg % 360) + 360) % 360
+  return {
+    ...elements,
+    raan: wrap(elements.raan + (Number.isFinite(raanRate) ? raanRate * days : 0)),
+    argOfPerigee: wrap(elements.argOfPerigee + (Number.isFinite(aopRate) ? aopRate * days : 0)),
+  }
+}
+
+/**
+ * Two-body ECI position (km) at t seconds after the elements' epoch, for
+ * sampling one revolution without rebuilding the rotation each time
+ */
+export function orbitPositionSampler(elements: OrbitalElements): (t: number) => Vec3 {
+  const { semiMajorAxis: a, eccentricity: e } = elements
+  const periodSec = computeOrbitalPeriod(a)
+
+  // Perifocal → ECI rotation columns (P and Q)
+  const raan = elements.raan * DEG2RAD
+  const inc = elements.inclination * DEG2RAD
+  const w = elements.argOfPerigee * DEG2RAD
+  const cO = Math.cos(raan), sO = Math.sin(raan)
+  const ci = Math.cos(inc), si = Math.sin(inc)
+  const cw = Math.cos(w), sw = Math.sin(w)
+  const P = { x: cO * cw - sO * sw * ci, y: sO * cw + cO * sw * ci, z: sw * si }
+  const Q = { x: -cO * sw - sO * cw * ci, y: -sO * sw + cO * cw * ci, z: cw * si }
+
+  const M0 = trueToMeanAnomaly(elements.trueAnomaly * DEG2RAD, e)
+  const p = a * (1 - e * e)
+  return (t) => {
+    const M = M0 + (2 * Math.PI * t) / periodSec
+    const nu = e < 1e-8 ? M : eccentricToTrueAnomaly(solveKeplerEquation(M, e), e)
+    const rMag = p / (1 + e * Math.cos(nu))
+    const px = rMag * Math.cos(nu)
+    const py = rMag * Math.sin(nu)
+    return { x: P.x * px + Q.x * py, y: P.y * px + Q.y * py, z: P.z * px + Q.z * py }
+  }
+}
+
+/**
+ * Sun position (ECI, km) in the orbit plane, opposite the half-period point:
+ * the worst-case β = 0 geometry, with the eclipse centred on the half-period,
+ * for analyses run without a date
+ */
+export function referenceSunPosition(elements: OrbitalElements): Vec3 {
+  const r = orbitPositionSampler(elements)(computeOrbitalPeriod(elements.semiMajorAxis) / 2)
+  const k = -AU_KM / Math.sqrt(r.x * r.x + r.y * r.y + r.z * r.z)
+  return { x: r.x * k, y: r.y * k, z: r.z * k }
+}
+
+/**
+ * Illumination over one revolution, sampled evenly in time. The Sun is held
+ * fixed for the revolution; its motion over one orbit is well under a degree.
+ */
+export function computeOrbitEclipse(
+  elements: OrbitalElements,
+  date: Date,
+  numPoints = 120,
+): OrbitEclipse {
+  const sun = computeSunPositionECI(date)
+  const periodSec = computeOrbitalPeriod(elements.semiMajorAxis)
+  const positionAt = orbitPositionSampler(elements)
+  /** Illuminated fraction at time t (s) after the start */
+  const litAt = (t: number) => shadowFunction(positionAt(t), sun)
+  const phase = (lit: number) => (lit <= 0 ? 0 : lit < 1 ? 1 : 2)
+
+  const timeMinutes: number[] = []
+  const illumination: number[] = []
+  const dt = periodSec / numPoints
+  for (let k = 0; k <= numPoints; k++) {
+    timeMinutes.push((k * dt) / 60)
+    illumination.push(litAt(k * dt))
+  }
+
+  // Durations by midpoint rule; intervals that cross a shadow boundary are
+  // subdivided, since penumbra lasts only seconds in low orbit
+  let umbraSec = 0
+  let penumbraSec = 0
+  let darkSec = 0
+  const tally = (lit: number, h: number) => {
+    if (lit <= 0) umbraSec += h
+    else if (lit < 1) penumbraSec += h
+    darkSec += (1 - lit) * h
+  }
+  for (let k = 0; k < numPoints; k++) {
+    const l0 = illumination[k]
+    const l1 = illumination[k + 1]
+    if (phase(l0) === phase(l1)) {
+      tally((l0 + l1) / 2, dt)
+      continue
+    }
+    const h = dt / BOUNDARY_SUBSTEPS
+    for (let j = 0; j < BOUNDARY_SUBSTEPS; j++) tally(litAt(k * dt + (j + 0.5) * h), h)
+  }
+
+  return {
+    betaDeg: computeBetaAngle(elements.raan, elements.inclination, sun),
+    periodMin: periodSec / 60,
+    umbraMin: umbraSec / 60,
+    penumbraMin: penumbraSec / 60,
+    eclipseFraction: darkSec / periodSec,
+    timeMinutes,
+    illumination,
+  }
+}
+
+/**
+ * Beta angle and eclipse length from epoch over durationDays, with the orbit
+ * plane drifting under J2. Long spans are sampled at most MAX_TIMELINE_SAMPLES
+ * times.
+ */
+export function computeEclipseTimeline(
+  elements: OrbitalElements,
+  epoch: Date,
+  durationDays: number,
+): EclipseTimeline {
+  const span = Math.max(1, durationDays)
+  const stepDays = Math.max(1, Math.ceil(span / MAX_TIMELINE_SAMPLES))
+  const epochMs = epoch.getTime()
+  const days: EclipseDay[] = []
+
+  for (let day = 0; day <= span; day += stepDays) {
+    const date = new Date(epochMs + day * SEC_PER_DAY * 1000)
+    const orbit = computeOrbitEclipse(driftedElements(elements, day), date, TIMELINE_POINTS_PER_ORBIT)
+    days.push({
+      day,
+      dateISO: date.toISOString(),
+      betaDeg: orbit.betaDeg,
+      umbraMin: orbit.umbraMin,
+      penumbraMin: orbit.penumbraMin,
+      eclipseFraction: orbit.eclipseFraction,
+    })
+  }
+
+  let worstIndex = 0
+  let bestIndex = 0
+  let minBetaDeg = Infinity
+  let maxBetaDeg = -Infinity
+  let eclipseFree = 0
+  days.forEach((d, k) => {
+    if (d.eclipseFraction > days[worstIndex].eclipseFraction) worstIndex = k
+    if (d.eclipseFraction < days[bestIndex].eclipseFraction) bestIndex = k
+    minBetaDeg = Math.min(minBetaDeg, d.betaDeg)
+    maxBetaDeg = Math.max(maxBetaDeg, d.betaDeg)
+    if (d.umbraMin + d.penumbraMin === 0) eclipseFree++
+  })
+
+  return {
+    epochISO: epoch.toISOString(),
+    durationDays: span,
+    stepDays,
+    days,
+    worstIndex,
+    bestIndex,
+    minBetaDeg,
+    maxBetaDeg,
+    eclipseFreeDays: Math.min(span, eclipseFree * stepDays),
+  }
+}
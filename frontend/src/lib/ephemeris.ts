@@ -0,0 +1,327 @@
+/**
+ * Solar-system ephemeris — Sun, Moon and planets behind one API.
+ *
+ * Every code path that needs a body position (porkchop and Lambert
+ * targeting, third-body perturbations, Sun geometry) goes through here.
+ * Positions come from an analytic theory:
+ *
+ *   - Planets and the Earth–Moon barycentre: JPL approximate Keplerian
+ *     elements with secular rates (Standish, Table 1), giving inclined,
+ *     precessing 3D orbits in the J2000 ecliptic.
+ *   - Moon: the principal terms of ELP-2000/82 (Meeus ch. 47), precessed
+ *     from the ecliptic of date to J2000.
+ *   - Ceres and Vesta: osculating two-body elements.
+ *
+ * Accuracy is that of the mean-element theory, not of a JPL DE ephemeris:
+ * against DE440 over 1950–2100, errors reach roughly 200 km for the Moon,
+ * 18,000 km for the Sun, 100,000 km for Mars and 1.9 million km for
+ * Jupiter. Fine for porkchop scans, third-body perturbations and Sun
+ * geometry; not for precise targeting.
+ *
+ * Frames: heliocentric ecliptic J2000 for planets; geocentric J2000
+ * equatorial (ECI) for the Sun and Moon. Units km and km/s.
+ *
+ * Standalone physics module — no UI dependencies.
+ */
+
+import { AU_KM, MU_MOON } from './beyond-leo-constants'
+import { DEG2RAD, MU_EARTH_KM, SEC_PER_DAY, JD_J2000, DAYS_PER_CENTURY } from './constants'
+import { dateToJulian } from './time-utils'
+import type { Vec3 } from '@/types'
+
+// ─── Types ───
+
+export type PlanetBody =
+  'mercury' | 'venus' | 'earth' | 'mars' | 'jupiter' |
+  'saturn' | 'uranus' | 'neptune' | 'ceres' | 'vesta'
+
+/** Bodies the theory models directly ('emb' is the Earth–Moon barycentre) */
+type TheoryBody = Exclude<PlanetBody, 'earth'> | 'emb' | 'moon'
+
+export interface BodyState {
+  pos: Vec3   // km
+  vel: Vec3   // km/s
+}
+
+// ─── Constants ───
+
+/** Mean obliquity of the ecliptic at J2000 */
+const OBLIQUITY_J2000 = 23.4392911 * DEG2RAD
+const COS_EPS = Math.cos(OBLIQUITY_J2000)
+const SIN_EPS = Math.sin(OBLIQUITY_J2000)
+
+/** Moon's share of the Earth–Moon barycentre offset */
+const MOON_MASS_FRACTION = MU_MOON / (MU_EARTH_KM + MU_MOON)
+
+// ─── Analytic theory: planets ───
+
+/**
+ * a (AU), e, I, L, ϖ (long. of perihelion), Ω (deg) at J2000 and rates per
+ * Julian century — JPL "Keplerian Elements for Approximate Positions of
+ * the Major Planets", Table 1 (valid 1800–2050).
+ */
+const PLANET_ELEMENTS: Record<Exclude<TheoryBody, 'moon'>, { el: number[]; rate: number[] }> = {
+  mercury: {
+    el: [0.38709927, 0.20563593, 7.00497902, 252.25032350, 77.45779628, 48.33076593],
+    rate: [0.00000037, 0.00001906, -0.00594749, 149472.67411175, 0.16047689, -0.12534081],
+  },
+  venus: {
+    el: [0.72333566, 0.00677672, 3.39467605, 181.97909950, 131.60246718, 76.67984255],
+    rate: [0.00000390, -0.00004107, -0.00078890, 58517.81538729, 0.00268329, -0.27769418],
+  },
+  emb: {
+    el: [1.00000261, 0.01671123, -0.00001531, 100.46457166, 102.93768193, 0.0],
+    rate: [0.00000562, -0.00004392, -0.01294668, 35999.37244981, 0.32327364, 0.0],
+  },
+  mars: {
+    el: [1.52371034, 0.09339410, 1.84969142, -4.55343205, -23.94362959, 49.55953891],
+    rate: [0.00001847, 0.00007882, -0.00813131, 19140.30268499, 0.44441088, -0.29257343],
+  },
+  jupiter: {
+    el: [5.20288700, 0.04838624, 1.30439695, 34.39644051, 14.72847983, 100.47390909],
+    rate: [-0.00011607, -0.00013253, -0.00183714, 3034.74612775, 0.21252668, 0.20469106],
+  },
+  saturn: {
+    el: [9.53667594, 0.05386179, 2.48599187, 49.95424423, 92.59887831, 113.66242448],
+    rate: [-0.00125060, -0.00050991, 0.00193609, 1222.49362201, -0.41897216, -0.28867794],
+  },
+  uranus: {
+    el: [19.18916464, 0.04725744, 0.77263783, 313.23810451, 170.95427630, 74.01692503],
+    rate: [-0.00196176, -0.00004397, -0.00242939, 428.48202785, 0.40805281, 0.04240589],
+  },
+  neptune: {
+    el: [30.06992276, 0.00859048, 1.77004347, -55.12002969, 44.96476227, 131.78422574],
+    rate: [0.00026291, 0.00005105, 0.00035372, 218.45945325, -0.32241464, -0.00508664],
+  },
+  // Osculating two-body elements; L rate is the mean motion
+  ceres: {
+    el: [2.767, 0.0758, 10.587, 231.3, 73.6, 80.305],
+    rate: [0, 0, 0, 36525 * 360 / 1681.63, 0, 0],
+  },
+  vesta: {
+    el: [2.362, 0.0887, 7.142, 275.4, 150.7, 103.851],
+    rate: [0, 0, 0, 36525 * 360 / 1325.75, 0, 0],
+  },
+}
+
+interface KeplerElements {
+  aKm: number
+  e: number
+  iDeg: number
+  nodeDeg: number          // longitude of ascending node
+  argPeriDeg: number       // argument of perihelion
+  meanAnomalyDeg: number
+  meanMotion: number       // rad/s
+}
+
+function elementsAt(body: Exclude<TheoryBody, 'moon'>, T: number): KeplerElements {
+  const { el, rate } = PLANET_ELEMENTS[body]
+  const [a, e, I, L, peri, node] = el.map((v, i) => v + rate[i] * T)
+  const M = ((((L - peri) % 360) + 540) % 360) - 180
+  return {
+    aKm: a * AU_KM,
+    e,
+    iDeg: I,
+    nodeDeg: node,
+    argPeriDeg: peri - node,
+    meanAnomalyDeg: M,
+    meanMotion: rate[3] * DEG2RAD / (DAYS_PER_CENTURY * SEC_PER_DAY),  // rad/s
+  }
+}
+
+function solveKepler(M: number, e: number): number {
+  let E = M + e * Math.sin(M)
+  for (let i = 0; i < 30; i++) {
+    const dE = (E - e * Math.sin(E) - M) / (1 - e * Math.cos(E))
+    E -= dE
+    if (Math.abs(dE) < 1e-13) break
+  }
+  return E
+}
+
+/** Perifocal → ecliptic rotation applied to a perifocal (p, q) vector */
+function perifocalToEcliptic(p: number, q: number, iDeg: number, nodeDeg: number, argPeriDeg: number): Vec3 {
+  const ci = Math.cos(iDeg * DEG2RAD), si = Math.sin(iDeg * DEG2RAD)
+  const cO = Math.cos(nodeDeg * DEG2RAD), sO = Math.sin(nodeDeg * DEG2RAD)
+  const cw = Math.cos(argPeriDeg * DEG2RAD), sw = Math.sin(argPeriDeg * DEG2RAD)
+  return {
+    x: (cw * cO - sw * sO * ci) * p + (-sw * cO - cw * sO * ci) * q,
+    y: (cw * sO + sw * cO * ci) * p + (-sw * sO + cw * cO * ci) * q,
+    z: (sw * si) * p + (cw * si) * q,
+  }
+}
+
+function keplerState(el: KeplerElements): BodyState {
+  const { aKm: a, e } = el
+  const E = solveKepler(el.meanAnomalyDeg * DEG2RAD, e)
+  const cosE = Math.cos(E), sinE = Math.sin(E)
+  const b = a * Math.sqrt(1 - e * e)
+  const Edot = el.meanMotion / (1 - e * cosE)
+  return {
+    pos: perifocalToEcliptic(a * (cosE - e), b * sinE, el.iDeg, el.nodeDeg, el.argPeriDeg),
+    vel: perifocalToEcliptic(-a * sinE * Edot, b * cosE * Edot, el.iDeg, el.nodeDeg, el.argPeriDeg),
+  }
+}
+
+// ─── Analytic theory: Moon ───
+
+// [D, M, M′, F, Σl (1e-6 deg), Σr (1e-3 km)]
+const MOON_LR: number[][] = [
+  [0, 0, 1, 0, 6288774, -20905355], [2, 0, -1, 0, 1274027, -3699111],
+  [2, 0, 0, 0, 658314, -2955968], [0, 0, 2, 0, 213618, -569925],
+  [0, 1, 0, 0, -185116, 48888], [0, 0, 0, 2, -114332, -3149],
+  [2, 0, -2, 0, 58793, 246158], [2, -1, -1, 0, 57066, -152138],
+  [2, 0, 1, 0, 53322, -170733], [2, -1, 0, 0, 45758, -204586],
+  [0, 1, -1, 0, -40923, -129620], [1, 0, 0, 0, -34720, 108743],
+  [0, 1, 1, 0, -30383, 104755], [2, 0, 0, -2, 15327, 10321],
+  [0, 0, 1, 2, -12528, 0], [0, 0, 1, -2, 10980, 79661],
+  [4, 0, -1, 0, 10675, -34782], [0, 0, 3, 0, 10034, -23210],
+  [4, 0, -2, 0, 8548, -21636], [2, 1, -1, 0, -7888, 24208],
+  [2, 1, 0, 0, -6766, 30824], [1, 0, -1, 0, -5163, -8379],
+  [1, 1, 0, 0, 4987, -16675], [2, -1, 1, 0, 4036, -12831],
+  [2, 0, 2, 0, 3994, -10445], [4, 0, 0, 0, 3861, -11650],
+  [2, 0, -3, 0, 3665, 14403], [0, 1, -2, 0, -2689, -7003],
+  [2, 0, -1, 2, -2602, 0], [2, -1, -2, 0, 2390, 10056],
+  [1, 0, 1, 0, -2348, 6322], [2, -2, 0, 0, 2236, -9884],
+  [0, 1, 2, 0, -2120, 5751], [0, 2, 0, 0, -2069, 0],
+  [2, -2, -1, 0, 2048, -4950], [2, 0, 1, -2, -1773, 4130],
+  [2, 0, 0, 2, -1595, 0], [4, -1, -1, 0, 1215, -3958],
+  [0, 0, 2, 2, -1110, 0], [3, 0, -1, 0, -892, 3258],
+  [2, 1, 1, 0, -810, 2616], [4, -1, -2, 0, 759, -1897],
+  [0, 2, -1, 0, -713, -2117], [2, 2, -1, 0, -700, 2354],
+  [2, 1, -2, 0, 691, 0], [2, -1, 0, -2, 596, 0],
+  [4, 0, 1, 0, 549, -1423], [0, 0, 4, 0, 537, -1117],
+  [4, -1, 0, 0, 520, -1571], [1, 0, -2, 0, -487, -1739],
+  [2, 1, 0, -2, -399, 0], [0, 0, 2, -2, -381, -4421],
+  [2, 0, -1, -2, 0, 8752],
+]
+
+// [D, M, M′, F, Σb (1e-6 deg)]
+const MOON_B: number[][] = [
+  [0, 0, 0, 1, 5128122], [0, 0, 1, 1, 280602], [0, 0, 1, -1, 277693],
+  [2, 0, 0, -1, 173237], [2, 0, -1, 1, 55413], [2, 0, -1, -1, 46271],
+  [2, 0, 0, 1, 32573], [0, 0, 2, 1, 17198], [2, 0, 1, -1, 9266],
+  [0, 0, 2, -1, 8822], [2, -1, 0, -1, 8216], [2, 0, -2, -1, 4324],
+  [2, 0, 1, 1, 4200], [2, 1, 0, -1, -3359], [2, -1, -1, 1, 2463],
+  [2, -1, 0, 1, 2211], [2, -1, -1, -1, 2065], [0, 1, -1, -1, -1870],
+  [4, 0, -1, -1, 1828], [0, 1, 0, 1, -1794], [0, 0, 0, 3, -1749],
+  [0, 1, -1, 1, -1565], [1, 0, 0, 1, -1491], [0, 1, 1, 1, -1475],
+  [0, 1, 1, -1, -1410], [0, 1, 0, -1, -1344], [1, 0, 0, -1, -1335],
+  [0, 0, 3, 1, 1107], [4, 0, 0, -1, 1021], [4, 0, -1, 1, 833],
+]
+
+/** Geocentric Moon position, ecliptic J2000 (km) */
+function moonTheory(T: number): Vec3 {
+  const deg = (x: number) => (((x % 360) + 360) % 360) * DEG2RAD
+  const T2 = T * T, T3 = T2 * T, T4 = T3 * T
+  const Lp = 218.3164477 + 481267.88123421 * T - 0.0015786 * T2 + T3 / 538841 - T4 / 65194000
+  const D = deg(297.8501921 + 445267.1114034 * T - 0.0018819 * T2 + T3 / 545868 - T4 / 113065000)
+  const M = deg(357.5291092 + 35999.0502909 * T - 0.0001536 * T2 + T3 / 24490000)
+  const Mp = deg(134.9633964 + 477198.8675055 * T + 0.0087414 * T2 + T3 / 69699 - T4 / 14712000)
+  const F = deg(93.2720950 + 483202.0175233 * T - 0.0036539 * T2 - T3 / 3526000 + T4 / 863310000)
+  const A1 = deg(119.75 + 131.849 * T)
+  const A2 = deg(53.09 + 479264.290 * T)
+  const A3 = deg(313.45 + 481266.484 * T)
+  const E = 1 - 0.002516 * T - 0.0000074 * T2
+  const Lr = deg(Lp)
+
+  let sl = 0, sr = 0, sb = 0
+  for (const [d, m, mp, f, l, r] of MOON_LR) {
+    const arg = d * D + m * M + mp * Mp + f * F
+    const ecc = Math.abs(m) === 1 ? E : Math.abs(m) === 2 ? E * E : 1
+    sl += l * ecc * Math.sin(arg)
+    sr += r * ecc * Math.cos(arg)
+  }
+  for (const [d, m, mp, f, b] of MOON_B) {
+    const ecc = Math.abs(m) === 1 ? E : Math.abs(m) === 2 ? E * E : 1
+    sb += b * ecc * Math.sin(d * D + m * M + mp * Mp + f * F)
+  }
+  sl += 3958 * Math.sin(A1) + 1962 * Math.sin(Lr - F) + 318 * Math.sin(A2)
+  sb += -2235 * Math.sin(Lr) + 382 * Math.sin(A3) + 175 * Math.sin(A1 - F)
+    + 175 * Math.sin(A1 + F) + 127 * Math.sin(Lr - Mp) - 115 * Math.sin(Lr + Mp)
+
+  // Ecliptic of date → J2000: remove general precession in longitude
+  const precession = (5028.796195 * T + 1.1054348 * T2) / 3600
+  const lon = (Lp + sl / 1e6 - precession) * DEG2RAD
+  const lat = (sb / 1e6) * DEG2RAD
+  const dist = 385000.56 + sr / 1000
+  return {
+    x: dist * Math.cos(lat) * Math.cos(lon),
+    y: dist * Math.cos(lat) * Math.sin(lon),
+    z: dist * Math.sin(lat),
+  }
+}
+
+/** Heliocentric for the planets and barycentre, geocentric for the Moon; ecliptic J2000 */
+function bodyState(body: TheoryBody, jd: number): BodyState {
+  const T = (jd - JD_J2000) / DAYS_PER_CENTURY
+  if (body !== 'moon') return keplerState(elementsAt(body, T))
+  // Central difference over ±30 min for the series velocity
+  const h = 1 / 48
+  const p1 = moonTheory((jd + h - JD_J2000) / DAYS_PER_CENTURY)
+  const p0 = moonTheory((jd - h - JD_J2000) / DAYS_PER_CENTURY)
+  const dt = 2 * h * SEC_PER_DAY
+  return {
+    pos: moonTheory(T),
+    vel: { x: (p1.x - p0.x) / dt, y: (p1.y - p0.y) / dt, z: (p1.z - p0.z) / dt },
+  }
+}
+
+// ─── Public API ───
+
+function toJd(date: Date | number): number {
+  return typeof date === 'number' ? date : dateToJulian(date)
+}
+
+function combine(a: BodyState, b: BodyState, k: number): BodyState {
+  return {
+    pos: { x: a.pos.x + k * b.pos.x, y: a.pos.y + k * b.pos.y, z: a.pos.z + k * b.pos.z },
+    vel: { x: a.vel.x + k * b.vel.x, y: a.vel.y + k * b.vel.y, z: a.vel.z + k * b.vel.z },
+  }
+}
+
+/** Rotate an ecliptic J2000 vector into J2000 equatorial */
+export function eclipticToEquatorial(v: Vec3): Vec3 {
+  return { x: v.x, y: COS_EPS * v.y - SIN_EPS * v.z, z: SIN_EPS * v.y + COS_EPS * v.z }
+}
+
+/** Heliocentric state in the J2000 ecliptic (km, km/s); date or Julian date */
+export function heliocentricState(body: PlanetBody, date: Date | number): BodyState {
+  const jd = toJd(date)
+  if (body !== 'earth') return bodyState(body, jd)
+  // Earth = barycentre − (m_Moon / (m_Earth + m_Moon)) · geocentric Moon
+  return combine(bodyState('emb', jd), bodyState('moon', jd), -MOON_MASS_FRACTION)
+}
+
+export function heliocentricPosition(body: PlanetBody, date: Date | number): Vec3 {
+  return heliocentricState(body, date).pos
+}
+
+/** Geocentric Moon state in J2000 equatorial (ECI) */
+export function moonStateEci(date: Date | number): BodyState {
+  const s = bodyState('moon', toJd(date))
+  return { pos: eclipticToEquatorial(s.pos), vel: eclipticToEquatorial(s.vel) }
+}
+
+export function moonPositionEci(date: Date | number): Vec3 {
+  return moonStateEci(date).pos
+}
+
+/** Geocentric Sun position in J2000 equatorial (ECI), km */
+export function sunPositionEci(date: Date | number): Vec3 {
+  const earth = heliocentricState('earth', date).pos
+  return eclipticToEquatorial({ x: -earth.x, y: -earth.y, z: -earth.z })
+}
+
+/** One revolution of a body's mean heliocentric orbit at a date (ecliptic J2000, km), for rendering */
+export function orbitRing(body: PlanetBody, date: Date | number, numPoints = 100): Vec3[] {
+  const T = (toJd(date) - JD_J2000) / DAYS_PER_CENTURY
+  const el = elementsAt(body === 'earth' ? 'emb' : body, T)
+  const points: Vec3[] = []
+  for (let i = 0; i <= numPoints; i++) {
+    const nu = (i / numPoints) * 2 * Math.PI
+    const r = el.aKm * (1 - el.e * el.e) / (1 + el.e * Math.cos(nu))
+    points.push(perifocalToEcliptic(r * Math.cos(nu), r * Math.sin(nu), el.iDeg, el.nodeDeg, el.argPeriDeg))
+  }
+  return points
+}
@@ -0,0 +1,361 @@
+/**
+ * Multiple-gravity-assist (MGA) trajectory design.
+ *
+ * A sequence such as E-V-E-J is modelled as Lambert arcs between the
+ * ephemeris positions of successive bodies, joined by patched-conic
+ * flybys. Each flyby may be powered: the periapsis radius is found from
+ * the required turn angle (Gobetz), and the ΔV is the periapsis speed
+ * difference between the incoming and outgoing hyperbolas. When the
+ * turn cannot be reached above the body's minimum flyby altitude
+ * (PLANET_DATA.minFlybyAltKm) the periapsis is held at the floor and the
+ * missing turn is charged as a ΔV penalty.
+ *
+ * The departure date and every leg's flight time are optimized for total
+ * ΔV (departure from the parking orbit + flybys + arrival insertion) by
+ * seeded differential evolution followed by a compass-search polish.
+ * Multi-revolution legs pick, per leg, the branch cheapest at its
+ * departure node.
+ *
+ * Standalone physics module — no UI dependencies.
+ */
+
+import { EARTH_ORBITAL_DATA, MU_SUN, PLANET_DATA } from './beyond-leo-constants'
+import { eclipticToEquatorial, heliocentricState } from './ephemeris'
+import type { BodyState, PlanetBody } from './ephemeris'
+import {
+  computeDepartureDeltaV, computeMissionInsertionDeltaV, generateArcPoints, solveLambertMultiRev,
+} from './interplanetary'
+import type { MgaConfig, MgaFlyby, MgaLeg, MgaLegWindow, MgaResult } from './interplanetary'
+import { RAD2DEG } from './constants'
+import { createRandom } from './monte-carlo'
+import type { InterplanetaryParams, TargetBody } from '@/types/beyond-leo'
+import type { Vec3 } from '@/types'
+
+// ─── Helpers ───
+
+export function mgaBodyName(body: PlanetBody): string {
+  return body === 'earth' ? 'Earth' : PLANET_DATA[body].name
+}
+
+const BODY_CODES: Record<PlanetBody, string> = {
+  mercury: 'Me', venus: 'V', earth: 'E', mars: 'M', jupiter: 'J',
+  saturn: 'S', uranus: 'U', neptune: 'N', ceres: 'C', vesta: 'Vs',
+}
+
+/** Sequence shorthand, e.g. E-V-E-J */
+export function mgaSequenceLabel(sequence: PlanetBody[]): string {
+  return sequence.map((body) => BODY_CODES[body]).join('-')
+}
+
+function bodyConstants(body: PlanetBody): { mu: number; radiusKm: number; minFlybyAltKm: number; aKm: number; periodDays: number } {
+  const data = body === 'earth' ? EARTH_ORBITAL_DATA : PLANET_DATA[body]
+  return {
+    mu: data.mu,
+    radiusKm: data.radiusKm,
+    minFlybyAltKm: data.minFlybyAltKm,
+    aKm: data.semiMajorAxisKm,
+    periodDays: data.orbitalPeriodDays,
+  }
+}
+
+/**
+ * Flight-time bounds for a leg: 0.9–2.1 periods for a resonant return to
+ * the same body, otherwise from 0.4× the Hohmann time up to the longer of
+ * 2× Hohmann and 1.4 periods of the outer body, capped at 550 days (room
+ * for a one-rev arc between inner planets).
+ */
+export function defaultLegWindow(from: PlanetBody, to: PlanetBody): MgaLegWindow {
+  const a = bodyConstants(from)
+  const b = bodyConstants(to)
+  if (from === to) {
+    return { minDays: Math.round(a.periodDays * 0.9), maxDays: Math.round(a.periodDays * 2.1) }
+  }
+  const aT = (a.aKm + b.aKm) / 2
+  const hohmannDays = Math.PI * Math.sqrt(aT * aT * aT / MU_SUN) / 86400
+  const outerPeriodDays = Math.max(a.periodDays, b.periodDays)
+  return {
+    minDays: Math.max(30, Math.round(hohmannDays * 0.4)),
+    maxDays: Math.round(Math.max(hohmannDays * 2, Math.min(outerPeriodDays * 1.4, 550))),
+  }
+}
+
+/** Default windows for every leg of earth → flybys → target */
+export function defaultLegWindows(flybys: PlanetBody[], target: TargetBody): MgaLegWindow[] {
+  const sequence: PlanetBody[] = ['earth', ...flybys, target]
+  return sequence.slice(1).map((body, i) => defaultLegWindow(sequence[i], body))
+}
+
+export const DEFAULT_MGA_CONFIG: MgaConfig = {
+  flybys: ['venus', 'earth'],
+  legs: defaultLegWindows(['venus', 'earth'], 'mars'),
+  departureSpanDays: 730,
+  maxRevs: 1,
+  seed: 1,
+}
+
+function sub(a: Vec3, b: Vec3): Vec3 {
+  return { x: a.x - b.x, y: a.y - b.y, z: a.z - b.z }
+}
+
+function mag(a: Vec3): number {
+  return Math.sqrt(a.x * a.x + a.y * a.y + a.z * a.z)
+}
+
+function cross(a: Vec3, b: Vec3): Vec3 {
+  return { x: a.y * b.z - a.z * b.y, y: a.z * b.x - a.x * b.z, z: a.x * b.y - a.y * b.x }
+}
+
+/**
+ * Powered patched-conic flyby between two hyperbolic excess velocities
+ * (km/s). Returns the periapsis radius that produces the turn and the ΔV.
+ */
+export function poweredFlyby(
+  vInfIn: Vec3,
+  vInfOut: Vec3,
+  mu: number,
+  rpMinKm: number,
+): { rpKm: number; turnAngleDeg: number; maxTurnAngleDeg: number; deltaVms: number } {
+  const vin = mag(vInfIn)
+  const vout = mag(vInfOut)
+  const cosTurn = (vInfIn.x * vInfOut.x + vInfIn.y * vInfOut.y + vInfIn.z * vInfOut.z) / (vin * vout)
+  const turn = Math.acos(Math.max(-1, Math.min(1, cosTurn)))
+  const halfTurns = (rp: number) =>
+    Math.asin(1 / (1 + rp * vin * vin / mu)) + Math.asin(1 / (1 + rp * vout * vout / mu))
+
+  const maxTurn = halfTurns(rpMinKm)
+  let rp = rpMinKm
+  let shortfall = 0
+  if (maxTurn < turn) {
+    shortfall = turn - maxTurn
+  } else {
+    // Turn angle decreases monotonically with rp: bracket, then bisect
+    let hi = rpMinKm * 2
+    while (halfTurns(hi) > turn && hi < 1e12) hi *= 2
+    let lo = rpMinKm
+    for (let i = 0; i < 60; i++) {
+      const mid = (lo + hi) / 2
+      if (halfTurns(mid) > turn) lo = mid
+      else hi = mid
+    }
+    rp = (lo + hi) / 2
+  }
+  const burn = Math.abs(Math.sqrt(vout * vout + 2 * mu / rp) - Math.sqrt(vin * vin + 2 * mu / rp))
+  const penalty = 2 * vout * Math.sin(shortfall / 2)
+  return { rpKm: rp, turnAngleDeg: turn * RAD2DEG, maxTurnAngleDeg: maxTurn * RAD2DEG, deltaVms: (burn + penalty) * 1000 }
+}
+
+// ─── Trajectory evaluation ───
+
+interface Evaluated {
+  totalDeltaVms: number
+  result?: Omit<MgaResult, 'targetBody' | 'departureAltKm' | 'arrivalOrbitAltKm' | 'arrivalOrbitType' | 'captureApoFactor' | 'windowOpenISO' | 'config'>
+}
+
+const INFEASIBLE = 1e9
+
+/** Chain the legs for x = [departure offset (d), leg flight times (d)…] */
+function evaluateSequence(
+  params: InterplanetaryParams,
+  sequence: PlanetBody[],
+  startMs: number,
+  x: number[],
+  maxRevs: number,
+  detail: boolean,
+): Evaluated {
+  const epochs: number[] = [startMs + x[0] * 86400000]
+  for (let i = 1; i < x.length; i++) epochs.push(epochs[i - 1] + x[i] * 86400000)
+  const states: BodyState[] = sequence.map((body, i) => heliocentricState(body, new Date(epochs[i])))
+
+  let total = 0
+  let vPrevArrive: Vec3 | null = null
+  let c3 = 0
+  let dlaDeg = 0
+  let departureDeltaVms = 0
+  let flybyDeltaVms = 0
+  let arrivalVinfKms = 0
+  let arrivalInsertionDeltaVms = 0
+  const legs: MgaLeg[] = []
+  const flybys: MgaFlyby[] = []
+
+  for (let leg = 0; leg < sequence.length - 1; leg++) {
+    const from = states[leg]
+    const to = states[leg + 1]
+    const tofS = x[leg + 1] * 86400
+    const solutions = solveLambertMultiRev(from.pos, to.pos, tofS, MU_SUN, cross(from.pos, from.vel), maxRevs)
+    if (solutions.length === 0) return { totalDeltaVms: INFEASIBLE }
+    const isLast = leg === sequence.length - 2
+
+    // Cost of each branch at its departure node (plus arrival for the last leg)
+    let best: { cost: number; index: number; node: number; fb?: ReturnType<typeof poweredFlyby>; arrVinf: number; arrDv: number } | null = null
+    for (let k = 0; k < solutions.length; k++) {
+      const sol = solutions[k]
+      const vOut = sub(sol.vDepart, from.vel)
+      let node: number
+      let fb: ReturnType<typeof poweredFlyby> | undefined
+      if (vPrevArrive === null) {
+        node = computeDepartureDeltaV(params.departureAltKm, mag(vOut))
+      } else {
+        const body = bodyConstants(sequence[leg])
+        fb = poweredFlyby(sub(vPrevArrive, from.vel), vOut, body.mu, body.radiusKm + body.minFlybyAltKm)
+        node = fb.deltaVms
+      }
+      let arrVinf = 0, arrDv = 0
+      if (isLast) {
+        arrVinf = mag(sub(sol.vArrive, to.vel))
+        arrDv = computeMissionInsertionDeltaV(params, arrVinf)
+      }
+      const cost = node + arrDv
+      if (!best || cost < best.cost) best = { cost, index: k, node, fb, arrVinf, arrDv }
+    }
+    if (!best || !isFinite(best.cost)) return { totalDeltaVms: INFEASIBLE }
+    const sol = solutions[best.index]
+    total += best.cost
+
+    if (detail) {
+      if (leg === 0) {
+        const vInfDep = sub(sol.vDepart, from.vel)
+        c3 = mag(vInfDep) ** 2
+        dlaDeg = Math.asin(eclipticToEquatorial(vInfDep).z / mag(vInfDep)) * RAD2DEG
+        departureDeltaVms = best.node
+      } else if (best.fb) {
+        const body = bodyConstants(sequence[leg])
+        flybyDeltaVms += best.fb.deltaVms
+        flybys.push({
+          body: sequence[leg],
+          dateISO: new Date(epochs[leg]).toISOString(),
+          vInfInKms: mag(sub(vPrevArrive!, from.vel)),
+          vInfOutKms: mag(sub(sol.vDepart, from.vel)),
+          turnAngleDeg: best.fb.turnAngleDeg,
+          maxTurnAngleDeg: best.fb.maxTurnAngleDeg,
+          periapsisAltKm: best.fb.rpKm - body.radiusKm,
+          deltaVms: best.fb.deltaVms,
+        })
+      }
+      if (isLast) {
+        arrivalVinfKms = best.arrVinf
+        arrivalInsertionDeltaVms = best.arrDv
+      }
+      legs.push({
+        from: sequence[leg],
+        to: sequence[leg + 1],
+        departureDateISO: new Date(epochs[leg]).toISOString(),
+        arrivalDateISO: new Date(epochs[leg + 1]).toISOString(),
+        flightDays: x[leg + 1],
+        revs: sol.revs,
+        points: generateArcPoints(from.pos, sol.vDepart, tofS, 40 + 40 * sol.revs),
+      })
+    }
+    vPrevArrive = sol.vArrive
+  }
+
+  if (!detail) return { totalDeltaVms: total }
+  return {
+    totalDeltaVms: total,
+    result: {
+      sequence,
+      legs,
+      flybys,
+      c3,
+      dlaDeg,
+      departureDeltaVms,
+      flybyDeltaVms,
+      arrivalVinfKms,
+      arrivalInsertionDeltaVms,
+      totalDeltaVms: total,
+      totalFlightDays: x.slice(1).reduce((a, b) => a + b, 0),
+    },
+  }
+}
+
+// ─── Optimizer ───
+
+const GENERATIONS = 250
+const DE_RESTARTS = 3
+const DE_WEIGHT = 0.7
+const DE_CROSSOVER = 0.9
+
+export function runMgaDesign(
+  params: InterplanetaryParams,
+  config: MgaConfig,
+  onProgress?: (progress: number) => void,
+): MgaResult {
+  const sequence: PlanetBody[] = ['earth', ...config.flybys, params.targetBody]
+  if (config.legs.length !== sequence.length - 1) {
+    throw new Error(`Sequence has ${sequence.length - 1} legs but ${config.legs.length} flight-time windows`)
+  }
+  const startMs = new Date(params.departureDateISO).getTime()
+  const lo = [0, ...config.legs.map((l) => Math.max(1, Math.min(l.minDays, l.maxDays)))]
+  const hi = [Math.max(1, config.departureSpanDays), ...config.legs.map((l) => Math.max(l.minDays, l.maxDays, 1))]
+  const D = lo.length
+  const cost = (x: number[]) => evaluateSequence(params, sequence, startMs, x, config.maxRevs, false).totalDeltaVms
+
+  // Differential evolution (rand/1/bin), restarted from fresh populations
+  // since the launch-date landscape is strongly multimodal
+  const random = createRandom(config.seed)
+  const NP = Math.max(20, 15 * D)
+  let x: number[] = lo.slice()
+  let fx = Infinity
+  for (let run = 0; run < DE_RESTARTS; run++) {
+    const pop = Array.from({ length: NP }, () => lo.map((l, d) => l + random() * (hi[d] - l)))
+    const fit = pop.map(cost)
+    for (let g = 0; g < GENERATIONS; g++) {
+      for (let i = 0; i < NP; i++) {
+        let a: number, b: number, c: number
+        do { a = Math.floor(random() * NP) } while (a === i)
+        do { b = Math.floor(random() * NP) } while (b === i || b === a)
+        do { c = Math.floor(random() * NP) } while (c === i || c === a || c === b)
+        const jRand = Math.floor(random() * D)
+        const trial = pop[i].map((xi, d) => {
+          if (d !== jRand && random() > DE_CROSSOVER) return xi
+          const v = pop[a][d] + DE_WEIGHT * (pop[b][d] - pop[c][d])
+          return Math.min(hi[d], Math.max(lo[d], v))
+        })
+        const f = cost(trial)
+        if (f <= fit[i]) {
+          pop[i] = trial
+          fit[i] = f
+        }
+      }
+      if (g % 10 === 0) onProgress?.(0.95 * (run * GENERATIONS + g) / (DE_RESTARTS * GENERATIONS))
+    }
+    for (let i = 0; i < NP; i++) {
+      if (fit[i] < fx) {
+        x = pop[i].slice()
+        fx = fit[i]
+      }
+    }
+  }
+
+  // Compass-search polish of the best member
+  let step = 4
+  while (step > 0.01) {
+    let improved = false
+    for (let d = 0; d < D; d++) {
+      for (const sign of [1, -1]) {
+        const trial = x.slice()
+        trial[d] = Math.min(hi[d], Math.max(lo[d], trial[d] + sign * step))
+        const f = cost(trial)
+        if (f < fx) {
+          x = trial
+          fx = f
+          improved = true
+        }
+      }
+    }
+    if (!improved) step /= 2
+  }
+  onProgress?.(1)
+
+  if (fx >= INFEASIBLE) throw new Error('No Lambert solution chains this sequence within the flight-time windows')
+  const detail = evaluateSequence(params, sequence, startMs, x, config.maxRevs, true).result!
+  return {
+    targetBody: params.targetBody,
+    departureAltKm: params.departureAltKm,
+    arrivalOrbitAltKm: params.arrivalOrbitAltKm,
+    arrivalOrbitType: params.arrivalOrbitType,
+    captureApoFactor: params.captureApoFactor,
+    windowOpenISO: params.departureDateISO,
+    config,
+    ...detail,
+  }
+}
@@ -0,0 +1,221 @@
+/**
+ * Spherical-harmonic gravity fields, shipped as data.
+ *
+ * Coefficient files live in public/gravity/ (fetched by loadGravityFields())
+ * and list fully normalized C̄nm/S̄nm. They are denormalized on load and
+ * evaluated with the Cunningham V/W recursion (Montenbruck & Gill §3.2),
+ * which is singularity-free at the poles. Until a file has loaded, or if
+ * it is missing, each body falls back to its degree-2 terms.
+ *
+ * Accelerations are in the body-fixed frame; callers rotate in and out.
+ * Units km, km/s².
+ *
+ * Standalone physics module — no UI dependencies.
+ */
+
+import { MU_MOON } from './beyond-leo-constants'
+import { MU_EARTH_KM, R_EARTH_EQUATORIAL, J2 } from './constants'
+
+// ─── Types ───
+
+export type GravityBody = 'earth' | 'moon'
+
+/** Coefficient file layout: rows of [n, m, C̄nm, S̄nm] */
+export interface GravityFieldFile {
+  body: GravityBody
+  source: string
+  gm: number           // km³/s²
+  radiusKm: number     // reference radius of the coefficients
+  degree: number
+  order: number
+  normalized: boolean
+  coefficients: [number, number, number, number][]
+}
+
+export interface GravityField {
+  body: GravityBody
+  source: string
+  gm: number
+  radiusKm: number
+  degree: number
+  order: number
+  C: Float64Array      // unnormalized, index n(n+1)/2 + m
+  S: Float64Array
+  V: Float64Array      // recursion scratch through degree + 1
+  W: Float64Array
+}
+
+export const GRAVITY_FIELD_URLS: Record<GravityBody, string> = {
+  earth: '/gravity/earth-egm96-8x8.json',
+  moon: '/gravity/moon-lp-zonal7-tess3.json',
+}
+
+// Degree-2 fallbacks (normalized), used until the coefficient files load
+const FALLBACK_FIELDS: Record<GravityBody, GravityFieldFile> = {
+  earth: {
+    body: 'earth',
+    source: 'Earth J2 and C22/S22 only (coefficient file not loaded)',
+    gm: MU_EARTH_KM,
+    radiusKm: R_EARTH_EQUATORIAL,
+    degree: 2,
+    order: 2,
+    normalized: true,
+    coefficients: [[2, 0, -J2 / Math.sqrt(5), 0], [2, 2, 2.43914352398e-6, -1.40016683654e-6]],
+  },
+  moon: {
+    body: 'moon',
+    source: 'Lunar J2 and C22 only (coefficient file not loaded)',
+    gm: MU_MOON,
+    radiusKm: 1738.0,
+    degree: 2,
+    order: 2,
+    normalized: true,
+    coefficients: [[2, 0, -9.0880e-5, 0], [2, 2, 3.4674e-5, 0]],
+  },
+}
+
+// ─── Construction ───
+
+const idx = (n: number, m: number) => n * (n + 1) / 2 + m
+
+/** ln((n+m)!/(n−m)!) without overflow */
+function logFactorialRatio(n: number, m: number): number {
+  let s = 0
+  for (let k = n - m + 1; k <= n + m; k++) s += Math.log(k)
+  return s
+}
+
+/** Denormalization factor: Cnm = Nnm·C̄nm */
+function normalization(n: number, m: number): number {
+  return Math.sqrt((m === 0 ? 1 : 2) * (2 * n + 1) * Math.exp(-logFactorialRatio(n, m)))
+}
+
+export function gravityFieldFromFile(file: GravityFieldFile): GravityField {
+  const size = idx(file.degree + 2, file.degree + 2)
+  const C = new Float64Array(idx(file.degree + 1, 0))
+  const S = new Float64Array(C.length)
+  for (const [n, m, c, s] of file.coefficients) {
+    if (n > file.degree || m > n) continue
+    const k = file.normalized ? normalization(n, m) : 1
+    C[idx(n, m)] = c * k
+    S[idx(n, m)] = s * k
+  }
+  return {
+    body: file.body,
+    source: file.source,
+    gm: file.gm,
+    radiusKm: file.radiusKm,
+    degree: file.degree,
+    order: file.order,
+    C,
+    S,
+    V: new Float64Array(size),
+    W: new Float64Array(size),
+  }
+}
+
+// ─── Loading ───
+
+const loaded: Partial<Record<GravityBody, GravityField>> = {}
+const fallback: Partial<Record<GravityBody, GravityField>> = {}
+let loading: Promise<void> | null = null
+
+/**
+ * Fetch and install every bundled coefficient file. Safe to call
+ * repeatedly; bodies whose file is missing keep their degree-2 fallback.
+ */
+export function loadGravityFields(): Promise<void> {
+  if (!loading) {
+    loading = Promise.all((Object.keys(GRAVITY_FIELD_URLS) as GravityBody[]).map((body) => {
+      if (loaded[body]) return Promise.resolve()
+      return fetch(GRAVITY_FIELD_URLS[body])
+        .then((res) => (res.ok ? res.json() : null))
+        .then((data: GravityFieldFile | null) => {
+          if (data?.body === body && Array.isArray(data.coefficients)) loaded[body] = gravityFieldFromFile(data)
+        })
+        .catch(() => undefined)
+    })).then(() => undefined).finally(() => { loading = null })
+  }
+  return loading
+}
+
+/** Install a coefficient file directly (e.g. one already parsed elsewhere) */
+export function setGravityField(body: GravityBody, file: GravityFieldFile | null): void {
+  if (file) loaded[body] = gravityFieldFromFile(file)
+  else delete loaded[body]
+}
+
+export function gravityField(body: GravityBody): GravityField {
+  const field = loaded[body]
+  if (field) return field
+  return (fallback[body] ??= gravityFieldFromFile(FALLBACK_FIELDS[body]))
+}
+
+// ─── Evaluation ───
+
+/**
+ * Non-central acceleration of the field truncated to (maxDegree, maxOrder),
+ * at body-fixed position (x, y, z). Written into out as [ax, ay, az].
+ */
+export function harmonicAcceleration(
+  field: GravityField,
+  x: number, y: number, z: number,
+  maxDegree: number, maxOrder: number,
+  out: Float64Array | number[],
+): void {
+  const N = Math.min(maxDegree, field.degree)
+  const M = Math.min(maxOrder, field.order, N)
+  const { C, S, V, W } = field
+  const R = field.radiusKm
+  const r2 = x * x + y * y + z * z
+  const rho = R * R / r2
+  const x0 = R * x / r2
+  const y0 = R * y / r2
+  const z0 = R * z / r2
+
+  // V/W through degree N+1, order M+1
+  V[0] = R / Math.sqrt(r2)
+  W[0] = 0
+  for (let m = 0; m <= M + 1; m++) {
+    if (m > 0) {
+      const prev = idx(m - 1, m - 1)
+      V[idx(m, m)] = (2 * m - 1) * (x0 * V[prev] - y0 * W[prev])
+      W[idx(m, m)] = (2 * m - 1) * (x0 * W[prev] + y0 * V[prev])
+    }
+    if (m <= N) {
+      V[idx(m + 1, m)] = (2 * m + 1) * z0 * V[idx(m, m)]
+      W[idx(m + 1, m)] = (2 * m + 1) * z0 * W[idx(m, m)]
+    }
+    for (let n = m + 2; n <= N + 1; n++) {
+      const a = (2 * n - 1) * z0
+      const b = (n + m - 1) * rho
+      V[idx(n, m)] = (a * V[idx(n - 1, m)] - b * V[idx(n - 2, m)]) / (n - m)
+      W[idx(n, m)] = (a * W[idx(n - 1, m)] - b * W[idx(n - 2, m)]) / (n - m)
+    }
+  }
+
+  let ax = 0, ay = 0, az = 0
+  for (let n = 2; n <= N; n++) {
+    for (let m = 0; m <= Math.min(n, M); m++) {
+      const c = C[idx(n, m)]
+      const s = S[idx(n, m)]
+      if (c === 0 && s === 0) continue
+      if (m === 0) {
+        ax -= c * V[idx(n + 1, 1)]
+        ay -= c * W[idx(n + 1, 1)]
+        az -= (n + 1) * c * V[idx(n + 1, 0)]
+      } else {
+        const f = (n - m + 2) * (n - m + 1)
+        const up = idx(n + 1, m + 1)
+        const down = idx(n + 1, m - 1)
+        ax += 0.5 * (-c * V[up] - s * W[up] + f * (c * V[down] + s * W[down]))
+        ay += 0.5 * (-c * W[up] + s * V[up] + f * (-c * W[down] + s * V[down]))
+        az += (n - m + 1) * (-c * V[idx(n + 1, m)] - s * W[idx(n + 1, m)])
+      }
+    }
+  }
+  const k = field.gm / (R * R)
+  out[0] = ax * k
+  out[1] = ay * k
+  out[2] = az * k
+}
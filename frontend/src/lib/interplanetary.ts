@@ -1,14 +1,18 @@
 /**
  * Interplanetary transfer analysis
  * Hohmann transfers, Lambert solver, porkchop plots
+ * Planet states come from the shared ephemeris (./ephemeris)
  */
 
 import {
   MU_SUN, AU_KM, PLANET_DATA, EARTH_ORBITAL_DATA,
 } from './beyond-leo-constants'
-import { MU_EARTH_KM, R_EARTH_EQUATORIAL, C_LIGHT } from './constants'
+import { MU_EARTH_KM, R_EARTH_EQUATORIAL, C_LIGHT, JD_J2000, RAD2DEG } from './constants'
+import { heliocentricPosition, heliocentricState, orbitRing, eclipticToEquatorial } from './ephemeris'
+import type { PlanetBody } from './ephemeris'
+import type { Vec3 } from '@/types'
 import type {
-  TargetBody, InterplanetaryParams, InterplanetaryResult, PorkchopPoint,
+  ArrivalOrbitType, TargetBody, InterplanetaryParams, InterplanetaryResult, PorkchopPoint,
 } from '@/types/beyond-leo'
 
 /**
@@ -111,129 +115,40 @@ export function computeCommsDelay(distanceKm: number): number {
 }
 
 /**
- * Solve Kepler's equation M = E - e*sin(E) using Newton-Raphson.
- * Returns true anomaly in radians.
+ * Heliocentric ecliptic J2000 → the axes used throughout this module and the
+ * solar-system scene: ecliptic plane in x–z, ecliptic north along +y.
  */
-function solveKeplerEquation(M_rad: number, e: number): number {
-  // Normalize M to [0, 2pi)
-  const twoPi = 2 * Math.PI
-  let M = ((M_rad % twoPi) + twoPi) % twoPi
-
-  // Initial guess
-  let E = M + e * Math.sin(M)
-
-  for (let i = 0; i < 30; i++) {
-    const dE = (E - e * Math.sin(E) - M) / (1 - e * Math.cos(E))
-    E -= dE
-    if (Math.abs(dE) < 1e-12) break
-  }
-
-  // Convert eccentric anomaly to true anomaly
-  const sinNu = Math.sqrt(1 - e * e) * Math.sin(E) / (1 - e * Math.cos(E))
-  const cosNu = (Math.cos(E) - e) / (1 - e * Math.cos(E))
-  return Math.atan2(sinNu, cosNu)
-}
-
-/**
- * Compute Keplerian orbital state (position and velocity) at a date.
- * Uses vis-viva for speed and flight path angle for velocity direction.
- */
-function computeKeplerianState(
-  a: number, e: number, lonPeriDeg: number, meanLongDeg: number,
-  orbitalPeriodDays: number, daysSinceJ2000: number,
-): { pos: { x: number; y: number; z: number }; vel: { x: number; y: number; z: number } } {
-  const lonPeriRad = (lonPeriDeg * Math.PI) / 180
-  const meanMotion = 360 / orbitalPeriodDays
-  const meanLongRad = ((meanLongDeg + meanMotion * daysSinceJ2000) % 360) * Math.PI / 180
-
-  // Mean anomaly = mean longitude - longitude of perihelion
-  const M = meanLongRad - lonPeriRad
-  const nu = solveKeplerEquation(M, e)
-
-  // Heliocentric distance
-  const r = a * (1 - e * e) / (1 + e * Math.cos(nu))
-
-  // True longitude = longitude of perihelion + true anomaly
-  const trueLong = lonPeriRad + nu
-
-  // Position
-  const pos = {
-    x: r * Math.cos(trueLong),
-    y: 0,
-    z: r * Math.sin(trueLong),
-  }
-
-  // Velocity via vis-viva and flight path angle
-  const v = Math.sqrt(MU_SUN * (2 / r - 1 / a))
-  const gamma = Math.atan2(e * Math.sin(nu), 1 + e * Math.cos(nu))
-  const vTang = v * Math.cos(gamma)
-  const vRad = v * Math.sin(gamma)
-
-  // Tangential: (-sin(trueLong), 0, cos(trueLong))
-  // Radial: (cos(trueLong), 0, sin(trueLong))
-  const vel = {
-    x: vRad * Math.cos(trueLong) - vTang * Math.sin(trueLong),
-    y: 0,
-    z: vRad * Math.sin(trueLong) + vTang * Math.cos(trueLong),
-  }
-
-  return { pos, vel }
+function toSceneAxes(v: Vec3): Vec3 {
+  return { x: v.x, y: v.z, z: v.y }
 }
 
-const J2000_MS = new Date('2000-01-01T12:00:00Z').getTime()
-
 /**
- * Compute planet heliocentric position using Keplerian orbit model
- * Returns position in km in the ecliptic plane
+ * Compute planet heliocentric position from the shared ephemeris
+ * Returns position in km (ecliptic J2000, scene axes)
  */
-export function computePlanetPosition(
-  target: TargetBody,
-  date: Date,
-): { x: number; y: number; z: number } {
-  const planet = PLANET_DATA[target]
-  const daysSinceJ2000 = (date.getTime() - J2000_MS) / 86400000
-  return computeKeplerianState(
-    planet.semiMajorAxisKm, planet.eccentricity, planet.longitudeOfPerihelionDeg,
-    planet.meanLongitudeAtJ2000Deg, planet.orbitalPeriodDays, daysSinceJ2000,
-  ).pos
+export function computePlanetPosition(target: TargetBody, date: Date): Vec3 {
+  return toSceneAxes(heliocentricPosition(target, date))
 }
 
 /**
- * Compute Earth heliocentric position using Keplerian orbit model
+ * Compute Earth heliocentric position from the shared ephemeris
  */
-export function computeEarthPosition(date: Date): { x: number; y: number; z: number } {
-  const daysSinceJ2000 = (date.getTime() - J2000_MS) / 86400000
-  return computeKeplerianState(
-    EARTH_ORBITAL_DATA.semiMajorAxisKm, EARTH_ORBITAL_DATA.eccentricity,
-    EARTH_ORBITAL_DATA.longitudeOfPerihelionDeg, EARTH_ORBITAL_DATA.meanLongitudeAtJ2000Deg,
-    EARTH_ORBITAL_DATA.orbitalPeriodDays, daysSinceJ2000,
-  ).pos
+export function computeEarthPosition(date: Date): Vec3 {
+  return toSceneAxes(heliocentricPosition('earth', date))
 }
 
 /**
  * Compute Earth heliocentric velocity (km/s) at a given date
  */
-export function computeEarthVelocity(date: Date): { x: number; y: number; z: number } {
-  const daysSinceJ2000 = (date.getTime() - J2000_MS) / 86400000
-  return computeKeplerianState(
-    EARTH_ORBITAL_DATA.semiMajorAxisKm, EARTH_ORBITAL_DATA.eccentricity,
-    EARTH_ORBITAL_DATA.longitudeOfPerihelionDeg, EARTH_ORBITAL_DATA.meanLongitudeAtJ2000Deg,
-    EARTH_ORBITAL_DATA.orbitalPeriodDays, daysSinceJ2000,
-  ).vel
+export function computeEarthVelocity(date: Date): Vec3 {
+  return toSceneAxes(heliocentricState('earth', date).vel)
 }
 
 /**
  * Compute target planet heliocentric velocity (km/s) at a given date
  */
-export function computePlanetVelocity(
-  target: TargetBody, date: Date,
-): { x: number; y: number; z: number } {
-  const planet = PLANET_DATA[target]
-  const daysSinceJ2000 = (date.getTime() - J2000_MS) / 86400000
-  return computeKeplerianState(
-    planet.semiMajorAxisKm, planet.eccentricity, planet.longitudeOfPerihelionDeg,
-    planet.meanLongitudeAtJ2000Deg, planet.orbitalPeriodDays, daysSinceJ2000,
-  ).vel
+export function computePlanetVelocity(target: TargetBody, date: Date): Vec3 {
+  return toSceneAxes(heliocentricState(target, date).vel)
 }
 
 /**
@@ -255,7 +170,7 @@ export function solveLambert(
   const r2Mag = Math.sqrt(r2.x * r2.x + r2.y * r2.y + r2.z * r2.z)
 
   // Cross product for transfer angle
-  const cross = r1.x * r2.z - r1.z * r2.x // simplified 2D cross (y=0)
+  const cross = r1.x * r2.z - r1.z * r2.x // angular momentum along the ecliptic normal
   const cosNu = (r1.x * r2.x + r1.y * r2.y + r1.z * r2.z) / (r1Mag * r2Mag)
   const sinNu = shortWay
     ? Math.sqrt(Math.max(0, 1 - cosNu * cosNu)) * (cross >= 0 ? 1 : -1)
@@ -356,52 +271,351 @@ function stumpff(z: number): { c2: number; c3: number } {
   return { c2: 1 / 2, c3: 1 / 6 }
 }
 
+// ─── Multi-revolution Lambert (Izzo 2015) ───
+
+export type LambertBranch = 'single' | 'left' | 'right'
+
+export interface LambertSolution {
+  revs: number             // complete revolutions before arrival
+  branch: LambertBranch    // multi-rev: left = lower x (longer period), right = higher x
+  vDepart: Vec3
+  vArrive: Vec3
+}
+
+function cross3(a: Vec3, b: Vec3): Vec3 {
+  return { x: a.y * b.z - a.z * b.y, y: a.z * b.x - a.x * b.z, z: a.x * b.y - a.y * b.x }
+}
+
+function norm3(a: Vec3): number {
+  return Math.sqrt(a.x * a.x + a.y * a.y + a.z * a.z)
+}
+
+function scale3(a: Vec3, k: number): Vec3 {
+  return { x: a.x * k, y: a.y * k, z: a.z * k }
+}
+
+function hypergeometricF(z: number): number {
+  let sum = 1, term = 1
+  for (let j = 0; j < 100; j++) {
+    term *= (3 + j) * (1 + j) / (2.5 + j) * z / (j + 1)
+    sum += term
+    if (Math.abs(term) < 1e-11) break
+  }
+  return sum
+}
+
+/** Non-dimensional time of flight as a function of Izzo's x variable */
+function izzoTof(x: number, N: number, lambda: number): number {
+  const dist = Math.abs(x - 1)
+  if (dist > 0.01 && dist < 0.2) {
+    // Lagrange form near the parabola
+    const a = 1 / (1 - x * x)
+    if (a > 0) {
+      const alfa = 2 * Math.acos(x)
+      let beta = 2 * Math.asin(Math.sqrt(lambda * lambda / a))
+      if (lambda < 0) beta = -beta
+      return a * Math.sqrt(a) * ((alfa - Math.sin(alfa)) - (beta - Math.sin(beta)) + 2 * Math.PI * N) / 2
+    }
+    const alfa = 2 * Math.acosh(x)
+    let beta = 2 * Math.asinh(Math.sqrt(-lambda * lambda / a))
+    if (lambda < 0) beta = -beta
+    return -a * Math.sqrt(-a) * ((beta - Math.sinh(beta)) - (alfa - Math.sinh(alfa))) / 2
+  }
+  const E = x * x - 1
+  const rho = Math.abs(E)
+  const z = Math.sqrt(1 + lambda * lambda * E)
+  if (dist < 0.01) {
+    // Battin series
+    const eta = z - lambda * x
+    const S1 = 0.5 * (1 - lambda - x * eta)
+    const Q = 4 / 3 * hypergeometricF(S1)
+    return (eta * eta * eta * Q + 4 * lambda * eta) / 2 + N * Math.PI / Math.pow(rho, 1.5)
+  }
+  const y = Math.sqrt(rho)
+  const g = x * z - lambda * E
+  const d = E < 0 ? N * Math.PI + Math.acos(g) : Math.log(y * (z - lambda * x) + g)
+  return (x - lambda * z - d / y) / E
+}
+
+/** First three derivatives of izzoTof with respect to x */
+function izzoTofDerivatives(x: number, T: number, lambda: number): [number, number, number] {
+  const l2 = lambda * lambda
+  const l3 = l2 * lambda
+  const umx2 = 1 - x * x
+  const y = Math.sqrt(1 - l2 * umx2)
+  const y2 = y * y, y3 = y2 * y
+  const d1 = (3 * T * x - 2 + 2 * l3 * x / y) / umx2
+  const d2 = (3 * T + 5 * x * d1 + 2 * (1 - l2) * l3 / y3) / umx2
+  const d3 = (7 * x * d2 + 8 * d1 - 6 * (1 - l2) * l2 * l3 * x / y3 / y2) / umx2
+  return [d1, d2, d3]
+}
+
+function izzoHouseholder(T: number, x0: number, N: number, lambda: number, tol: number): number {
+  let x = x0
+  for (let it = 0; it < 15; it++) {
+    const tof = izzoTof(x, N, lambda)
+    const [d1, d2, d3] = izzoTofDerivatives(x, tof, lambda)
+    const delta = tof - T
+    const d1sq = d1 * d1
+    const xNew = x - delta * (d1sq - delta * d2 / 2) / (d1 * (d1sq - delta * d2) + d3 * delta * delta / 6)
+    const err = Math.abs(x - xNew)
+    x = xNew
+    if (!isFinite(x) || err < tol) break
+  }
+  return x
+}
+
+/**
+ * Full 3D Lambert solver (Izzo, "Revisiting Lambert's problem", 2015).
+ * Returns every prograde solution up to `maxRevs` complete revolutions:
+ * one zero-revolution arc plus a left/right pair per feasible revolution
+ * count. "Prograde" is the sense of `hRef` (e.g. the departure body's
+ * orbital angular momentum), so any consistent frame works.
+ */
+export function solveLambertMultiRev(
+  r1: Vec3,
+  r2: Vec3,
+  tofS: number,
+  mu: number,
+  hRef: Vec3,
+  maxRevs = 0,
+): LambertSolution[] {
+  const c = { x: r2.x - r1.x, y: r2.y - r1.y, z: r2.z - r1.z }
+  const cn = norm3(c)
+  const r1n = norm3(r1)
+  const r2n = norm3(r2)
+  const s = (r1n + r2n + cn) / 2
+  const ir1 = scale3(r1, 1 / r1n)
+  const ir2 = scale3(r2, 1 / r2n)
+  const h = cross3(ir1, ir2)
+  const hn = norm3(h)
+  if (tofS <= 0 || hn < 1e-9) return []   // collinear: transfer plane undefined
+  const ih = scale3(h, 1 / hn)
+
+  let lambda = Math.sqrt(Math.max(0, 1 - cn / s))
+  let it1: Vec3, it2: Vec3
+  if (ih.x * hRef.x + ih.y * hRef.y + ih.z * hRef.z < 0) {
+    // Transfer angle > π in the prograde sense
+    lambda = -lambda
+    it1 = cross3(ir1, ih)
+    it2 = cross3(ir2, ih)
+  } else {
+    it1 = cross3(ih, ir1)
+    it2 = cross3(ih, ir2)
+  }
+  const l2 = lambda * lambda
+  const T = Math.sqrt(2 * mu / (s * s * s)) * tofS
+
+  // Highest revolution count with a solution: compare T with the minimum
+  // time of flight of that branch (Halley iterations on dT/dx = 0)
+  let nMax = Math.floor(T / Math.PI)
+  const T00 = Math.acos(lambda) + lambda * Math.sqrt(1 - l2)
+  if (nMax > 0 && T < T00 + nMax * Math.PI) {
+    let xOld = 0
+    let tMin = T00 + nMax * Math.PI
+    for (let it = 0; it < 12; it++) {
+      const [d1, d2, d3] = izzoTofDerivatives(xOld, tMin, lambda)
+      const xNew = d1 !== 0 ? xOld - d1 * d2 / (d2 * d2 - d1 * d3 / 2) : xOld
+      const err = Math.abs(xOld - xNew)
+      tMin = izzoTof(xNew, nMax, lambda)
+      xOld = xNew
+      if (err < 1e-13) break
+    }
+    if (tMin > T) nMax -= 1
+  }
+  nMax = Math.min(nMax, maxRevs)
+
+  // Initial guesses and Householder refinement
+  const T1 = 2 / 3 * (1 - l2 * lambda)
+  let x0: number
+  if (T >= T00) x0 = -(T - T00) / (T - T00 + 4)
+  else if (T <= T1) x0 = T1 * (T1 - T) / (0.4 * (1 - l2 * l2 * lambda) * T) + 1
+  else x0 = Math.pow(T / T00, Math.LN2 / Math.log(T1 / T00)) - 1
+  const xs: { x: number; revs: number; branch: LambertBranch }[] = [
+    { x: izzoHouseholder(T, x0, 0, lambda, 1e-5), revs: 0, branch: 'single' },
+  ]
+  for (let n = 1; n <= nMax; n++) {
+    const tl = Math.pow((n * Math.PI + Math.PI) / (8 * T), 2 / 3)
+    const tr = Math.pow((8 * T) / (n * Math.PI), 2 / 3)
+    xs.push({ x: izzoHouseholder(T, (tl - 1) / (tl + 1), n, lambda, 1e-8), revs: n, branch: 'left' })
+    xs.push({ x: izzoHouseholder(T, (tr - 1) / (tr + 1), n, lambda, 1e-8), revs: n, branch: 'right' })
+  }
+
+  // Velocities from the radial/tangential components
+  const gamma = Math.sqrt(mu * s / 2)
+  const rho = (r1n - r2n) / cn
+  const sigma = Math.sqrt(Math.max(0, 1 - rho * rho))
+  const solutions: LambertSolution[] = []
+  for (const { x, revs, branch } of xs) {
+    if (!isFinite(x) || Math.abs(izzoTof(x, revs, lambda) - T) > 1e-5 * Math.max(1, T)) continue
+    const y = Math.sqrt(1 - l2 + l2 * x * x)
+    const vr1 = gamma * ((lambda * y - x) - rho * (lambda * y + x)) / r1n
+    const vr2 = -gamma * ((lambda * y - x) + rho * (lambda * y + x)) / r2n
+    const vt = gamma * sigma * (y + lambda * x)
+    const vt1 = vt / r1n
+    const vt2 = vt / r2n
+    solutions.push({
+      revs,
+      branch,
+      vDepart: {
+        x: vr1 * ir1.x + vt1 * it1.x, y: vr1 * ir1.y + vt1 * it1.y, z: vr1 * ir1.z + vt1 * it1.z,
+      },
+      vArrive: {
+        x: vr2 * ir2.x + vt2 * it2.x, y: vr2 * ir2.y + vt2 * it2.y, z: vr2 * ir2.z + vt2 * it2.z,
+      },
+    })
+  }
+  return solutions
+}
+
+/**
+ * Two-body position after `dtS` seconds from (r0, v0) — universal-variable
+ * Kepler propagation, valid for elliptic and hyperbolic arcs
+ */
+export function propagateKeplerPosition(r0: Vec3, v0: Vec3, dtS: number, mu: number): Vec3 {
+  const r0n = norm3(r0)
+  const sqrtMu = Math.sqrt(mu)
+  const rv = (r0.x * v0.x + r0.y * v0.y + r0.z * v0.z) / sqrtMu
+  const alpha = 2 / r0n - (v0.x * v0.x + v0.y * v0.y + v0.z * v0.z) / mu
+  let chi = alpha > 1e-12 ? sqrtMu * alpha * dtS : sqrtMu * dtS / (10 * r0n)
+  let r = r0n
+  for (let it = 0; it < 50; it++) {
+    const z = alpha * chi * chi
+    const { c2, c3 } = stumpff(z)
+    r = chi * chi * c2 + rv * chi * (1 - z * c3) + r0n * (1 - z * c2)
+    const F = chi * chi * chi * c3 + rv * chi * chi * c2 + r0n * chi * (1 - z * c3) - sqrtMu * dtS
+    chi -= F / r
+    if (Math.abs(F) < 1e-6 * sqrtMu) break
+  }
+  const z = alpha * chi * chi
+  const { c2, c3 } = stumpff(z)
+  const f = 1 - chi * chi / r0n * c2
+  const g = dtS - chi * chi * chi / sqrtMu * c3
+  return { x: f * r0.x + g * v0.x, y: f * r0.y + g * v0.y, z: f * r0.z + g * v0.z }
+}
+
+/**
+ * Sample a heliocentric arc for 3D rendering (ecliptic J2000 input, km
+ * and km/s). Returns points in AU on the scene axes.
+ */
+export function generateArcPoints(r0: Vec3, v0: Vec3, tofS: number, numPoints = 60): Vec3[] {
+  const points: Vec3[] = []
+  for (let i = 0; i <= numPoints; i++) {
+    const p = i === 0 ? r0 : propagateKeplerPosition(r0, v0, (i / numPoints) * tofS, MU_SUN)
+    points.push(toSceneAxes({ x: p.x / AU_KM, y: p.y / AU_KM, z: p.z / AU_KM }))
+  }
+  return points
+}
+
+// ─── Transfer evaluation ───
+
+/** A Lambert arc scored against the mission's departure and arrival orbits */
+export interface TransferOption {
+  revs: number
+  branch: LambertBranch
+  c3: number                    // km²/s²
+  vInfDepart: number            // km/s
+  vInfArrive: number            // km/s
+  dlaDeg: number                // declination of the launch asymptote (Earth equator)
+  rlaDeg: number                // right ascension of the launch asymptote
+  departureDeltaVms: number
+  arrivalInsertionDeltaVms: number
+  totalDeltaVms: number
+}
+
+/**
+ * Arrival insertion ΔV for the mission's capture orbit
+ */
+export function computeMissionInsertionDeltaV(params: InterplanetaryParams, vInfKms: number): number {
+  const arrivalOrbitType = params.arrivalOrbitType ?? 'circular'
+  const captureApoFactor = params.captureApoFactor ?? 1
+  return arrivalOrbitType === 'elliptical' && captureApoFactor > 1
+    ? computeEllipticalCaptureInsertionDeltaV(params.targetBody, params.arrivalOrbitAltKm, captureApoFactor, vInfKms)
+    : computeArrivalInsertionDeltaV(params.targetBody, params.arrivalOrbitAltKm, vInfKms)
+}
+
+/**
+ * Solve Earth → target for one departure date and flight time and return
+ * the lowest total-ΔV Lambert branch (null when no arc exists)
+ */
+export function evaluateTransfer(
+  params: InterplanetaryParams,
+  depDate: Date,
+  flightDays: number,
+  maxRevs = 0,
+): TransferOption | null {
+  const arrDate = new Date(depDate.getTime() + flightDays * 86400000)
+  const earth = heliocentricState('earth', depDate)
+  const target = heliocentricState(params.targetBody, arrDate)
+  const solutions = solveLambertMultiRev(
+    earth.pos, target.pos, flightDays * 86400, MU_SUN, cross3(earth.pos, earth.vel), maxRevs,
+  )
+
+  let best: TransferOption | null = null
+  for (const sol of solutions) {
+    const vInfDep = {
+      x: sol.vDepart.x - earth.vel.x, y: sol.vDepart.y - earth.vel.y, z: sol.vDepart.z - earth.vel.z,
+    }
+    const vInfDepart = norm3(vInfDep)
+    const vInfArrive = norm3({
+      x: sol.vArrive.x - target.vel.x, y: sol.vArrive.y - target.vel.y, z: sol.vArrive.z - target.vel.z,
+    })
+    const departureDeltaVms = computeDepartureDeltaV(params.departureAltKm, vInfDepart)
+    const arrivalInsertionDeltaVms = computeMissionInsertionDeltaV(params, vInfArrive)
+    const totalDeltaVms = departureDeltaVms + arrivalInsertionDeltaVms
+    if (best && best.totalDeltaVms <= totalDeltaVms) continue
+
+    const eq = eclipticToEquatorial(vInfDep)
+    best = {
+      revs: sol.revs,
+      branch: sol.branch,
+      c3: vInfDepart * vInfDepart,
+      vInfDepart,
+      vInfArrive,
+      dlaDeg: Math.asin(eq.z / vInfDepart) * RAD2DEG,
+      rlaDeg: ((Math.atan2(eq.y, eq.x) * RAD2DEG) + 360) % 360,
+      departureDeltaVms,
+      arrivalInsertionDeltaVms,
+      totalDeltaVms,
+    }
+  }
+  return best
+}
+
 /**
  * Compute porkchop plot data grid
- * Returns C3 values for a grid of departure dates × flight times
+ * Returns the best Lambert branch (up to `maxRevs` revolutions) for a grid
+ * of departure dates × flight times; cells with no solution are omitted
  */
 export function computePorkchopGrid(
-  target: TargetBody,
-  startDate: Date,
+  params: InterplanetaryParams,
   departureDayRange: number,
   nDepartureSamples: number,
   minFlightDays: number,
   maxFlightDays: number,
   nFlightSamples: number,
+  maxRevs = 0,
 ): PorkchopPoint[] {
+  const startDate = new Date(params.departureDateISO)
   const points: PorkchopPoint[] = []
 
   for (let i = 0; i < nDepartureSamples; i++) {
     const depDOY = (i / (nDepartureSamples - 1)) * departureDayRange
     const depDate = new Date(startDate.getTime() + depDOY * 86400000)
 
-    const r1 = computeEarthPosition(depDate)
-
     for (let j = 0; j < nFlightSamples; j++) {
       const flightDays = minFlightDays + (j / (nFlightSamples - 1)) * (maxFlightDays - minFlightDays)
-      const arrDate = new Date(depDate.getTime() + flightDays * 86400000)
-
-      const r2 = computePlanetPosition(target, arrDate)
-      const tofS = flightDays * 86400
-
-      const result = solveLambert(r1, r2, tofS, MU_SUN)
-      if (result) {
-        // V-infinity at Earth departure (Keplerian velocity)
-        const vE = computeEarthVelocity(depDate)
-        const dvx = result.vDepart.x - vE.x
-        const dvz = result.vDepart.z - vE.z
-        const vInf = Math.sqrt(dvx * dvx + dvz * dvz)
-        const c3 = vInf * vInf
-
-        // Arrival v-infinity (Keplerian velocity)
-        const vT = computePlanetVelocity(target, arrDate)
-        const avx = result.vArrive.x - vT.x
-        const avz = result.vArrive.z - vT.z
-        const vInfArr = Math.sqrt(avx * avx + avz * avz)
-
-        if (c3 < 200 && c3 > 0) { // filter out unreasonable values
-          points.push({ departureDOY: depDOY, flightTimeDays: flightDays, c3, vInfArr })
-        }
+      const option = evaluateTransfer(params, depDate, flightDays, maxRevs)
+      if (option) {
+        points.push({
+          departureDOY: depDOY,
+          flightTimeDays: flightDays,
+          c3: option.c3,
+          vInfArr: option.vInfArrive,
+          dlaDeg: option.dlaDeg,
+          totalDeltaVms: option.totalDeltaVms,
+          revs: option.revs,
+        })
       }
     }
   }
@@ -409,10 +623,98 @@ export function computePorkchopGrid(
   return points
 }
 
+// ─── Gravity-assist (MGA) designs ───
+// Computed by runMgaDesign in ./gravity-assist
+
+export interface MgaLegWindow {
+  minDays: number
+  maxDays: number
+}
+
+export interface MgaConfig {
+  flybys: PlanetBody[]         // bodies visited between Earth departure and the target
+  legs: MgaLegWindow[]         // flight-time bounds, one per leg (flybys.length + 1)
+  departureSpanDays: number    // departure window opening at the mission departure date
+  maxRevs: number              // Lambert revolutions allowed per leg
+  seed: number
+}
+
+export interface MgaFlyby {
+  body: PlanetBody
+  dateISO: string
+  vInfInKms: number
+  vInfOutKms: number
+  turnAngleDeg: number
+  maxTurnAngleDeg: number      // unpowered turn available at the minimum altitude
+  periapsisAltKm: number
+  deltaVms: number             // periapsis burn plus any turn-shortfall penalty
+}
+
+export interface MgaLeg {
+  from: PlanetBody
+  to: PlanetBody
+  departureDateISO: string
+  arrivalDateISO: string
+  flightDays: number
+  revs: number
+  points: Vec3[]               // heliocentric path, AU on scene axes
+}
+
+export interface MgaResult {
+  targetBody: TargetBody
+  departureAltKm: number
+  arrivalOrbitAltKm: number
+  arrivalOrbitType: ArrivalOrbitType
+  captureApoFactor: number
+  windowOpenISO: string        // mission departure date the departure window opened at
+  config: MgaConfig
+  sequence: PlanetBody[]       // earth, flybys…, target
+  legs: MgaLeg[]
+  flybys: MgaFlyby[]
+  c3: number                   // km²/s²
+  dlaDeg: number               // declination of launch asymptote
+  departureDeltaVms: number
+  flybyDeltaVms: number
+  arrivalVinfKms: number
+  arrivalInsertionDeltaVms: number
+  totalDeltaVms: number
+  totalFlightDays: number
+}
+
+/**
+ * Whether a computed MGA design applies to the current parameters: target,
+ * parking and arrival orbits, and the departure window (opening date and span)
+ */
+export function mgaMatchesParams(
+  mga: MgaResult | null | undefined,
+  params: InterplanetaryParams,
+  config: MgaConfig,
+): mga is MgaResult {
+  return mga != null
+    && mga.targetBody === params.targetBody
+    && mga.departureAltKm === params.departureAltKm
+    && mga.arrivalOrbitAltKm === params.arrivalOrbitAltKm
+    && mga.arrivalOrbitType === params.arrivalOrbitType
+    && mga.captureApoFactor === params.captureApoFactor
+    && mga.windowOpenISO === params.departureDateISO
+    && mga.config.departureSpanDays === config.departureSpanDays
+    && mga.config.maxRevs === config.maxRevs
+    && mga.config.seed === config.seed
+    && mga.config.flybys.length === config.flybys.length
+    && mga.config.flybys.every((body, i) => body === config.flybys[i])
+    && mga.config.legs.length === config.legs.length
+    && mga.config.legs.every((leg, i) => leg.minDays === config.legs[i].minDays && leg.maxDays === config.legs[i].maxDays)
+}
+
 /**
- * Full interplanetary analysis
+ * Full interplanetary analysis. A gravity-assist transfer takes its
+ * budget from the MGA design; without one it falls back to Hohmann. Pass
+ * only a design that matches the parameters (mgaMatchesParams).
  */
-export function computeInterplanetaryResult(params: InterplanetaryParams): InterplanetaryResult {
+export function computeInterplanetaryResult(
+  params: InterplanetaryParams,
+  mga?: MgaResult | null,
+): InterplanetaryResult {
   const {
     targetBody, transferType, departureAltKm, arrivalOrbitAltKm,
     departureDateISO, arrivalDateISO,
@@ -424,8 +726,15 @@ export function computeInterplanetaryResult(params: InterplanetaryParams): Inter
   let vInfDepart: number
   let vInfArrive: number
   let transferTimeDays: number
-
-  if (transferType === 'hohmann') {
+  let dlaDeg: number | null = null
+
+  if (transferType === 'mga' && mga) {
+    c3Km2s2 = mga.c3
+    vInfDepart = Math.sqrt(mga.c3)
+    vInfArrive = mga.arrivalVinfKms
+    transferTimeDays = mga.totalFlightDays
+    dlaDeg = mga.dlaDeg
+  } else if (transferType !== 'lambert') {
     const hohmann = computeHohmannInterplanetary(targetBody)
     c3Km2s2 = hohmann.c3
     vInfDepart = hohmann.vInfDepart
@@ -434,35 +743,14 @@ export function computeInterplanetaryResult(params: InterplanetaryParams): Inter
   } else {
     const depDate = new Date(departureDateISO)
     const arrDate = new Date(arrivalDateISO)
-    const r1 = computeEarthPosition(depDate)
-    const r2 = computePlanetPosition(targetBody, arrDate)
-    const tofS = (arrDate.getTime() - depDate.getTime()) / 1000
-    transferTimeDays = tofS / 86400
-
-    const vE = computeEarthVelocity(depDate)
-    const computeC3FromResult = (result: ReturnType<typeof solveLambert>) => {
-      if (!result) return Infinity
-      const dvx = result.vDepart.x - vE.x
-      const dvz = result.vDepart.z - vE.z
-      return dvx * dvx + dvz * dvz
-    }
-
-    const resultShort = solveLambert(r1, r2, tofS, MU_SUN, true)
-    const resultLong = solveLambert(r1, r2, tofS, MU_SUN, false)
-    const c3Short = computeC3FromResult(resultShort)
-    const c3Long = computeC3FromResult(resultLong)
-    const bestResult = c3Short <= c3Long ? resultShort : resultLong
-
-    if (bestResult) {
-      const dvx = bestResult.vDepart.x - vE.x
-      const dvz = bestResult.vDepart.z - vE.z
-      vInfDepart = Math.sqrt(dvx * dvx + dvz * dvz)
-      c3Km2s2 = vInfDepart * vInfDepart
-
-      const vT = computePlanetVelocity(targetBody, arrDate)
-      const avx = bestResult.vArrive.x - vT.x
-      const avz = bestResult.vArrive.z - vT.z
-      vInfArrive = Math.sqrt(avx * avx + avz * avz)
+    transferTimeDays = (arrDate.getTime() - depDate.getTime()) / 86400000
+
+    const option = evaluateTransfer(params, depDate, transferTimeDays)
+    if (option) {
+      c3Km2s2 = option.c3
+      vInfDepart = option.vInfDepart
+      vInfArrive = option.vInfArrive
+      dlaDeg = option.dlaDeg
     } else {
       const hohmann = computeHohmannInterplanetary(targetBody)
       c3Km2s2 = hohmann.c3
@@ -474,13 +762,9 @@ export function computeInterplanetaryResult(params: InterplanetaryParams): Inter
   const departureDeltaVms = computeDepartureDeltaV(departureAltKm, vInfDepart)
 
   // Compute arrival insertion DV based on orbit type
-  const arrivalOrbitType = params.arrivalOrbitType ?? 'circular'
-  const captureApoFactor = params.captureApoFactor ?? 1
-
-  const arrivalInsertionDeltaVms = arrivalOrbitType === 'elliptical' && captureApoFactor > 1
-    ? computeEllipticalCaptureInsertionDeltaV(targetBody, arrivalOrbitAltKm, captureApoFactor, vInfArrive)
-    : computeArrivalInsertionDeltaV(targetBody, arrivalOrbitAltKm, vInfArrive)
-  const totalDeltaVms = departureDeltaVms + arrivalInsertionDeltaVms
+  const arrivalInsertionDeltaVms = computeMissionInsertionDeltaV(params, vInfArrive)
+  const flybyDeltaVms = transferType === 'mga' && mga ? mga.flybyDeltaVms : 0
+  const totalDeltaVms = departureDeltaVms + flybyDeltaVms + arrivalInsertionDeltaVms
 
   // Communications (at opposition: closest approach ≈ |r2 - r1|)
   const commsDistanceKm = Math.abs(planet.semiMajorAxisKm - EARTH_ORBITAL_DATA.semiMajorAxisKm)
@@ -489,6 +773,7 @@ export function computeInterplanetaryResult(params: InterplanetaryParams): Inter
 
   return {
     c3Km2s2,
+    dlaDeg,
     departureDeltaVms,
     transferTimeDays,
     arrivalVinfKms: vInfArrive,
@@ -504,51 +789,22 @@ export function computeInterplanetaryResult(params: InterplanetaryParams): Inter
 }
 
 /**
- * Generate planetary orbit points for 3D rendering
- * Returns points where 1 unit = 1 AU
+ * Generate planetary orbit points for 3D rendering — the inclined mean
+ * orbit at J2000. Returns points where 1 unit = 1 AU
  */
-export function generatePlanetOrbitPoints(
-  target: TargetBody,
-  numPoints = 100,
-): Array<{ x: number; y: number; z: number }> {
-  const planet = PLANET_DATA[target]
-  const a = planet.semiMajorAxisAU
-  const e = planet.eccentricity
-  const lonPeriRad = (planet.longitudeOfPerihelionDeg * Math.PI) / 180
-
-  const points: Array<{ x: number; y: number; z: number }> = []
-  for (let i = 0; i <= numPoints; i++) {
-    const nu = (i / numPoints) * 2 * Math.PI
-    const r = a * (1 - e * e) / (1 + e * Math.cos(nu))
-    const trueLong = lonPeriRad + nu
-    points.push({
-      x: r * Math.cos(trueLong),
-      y: 0,
-      z: r * Math.sin(trueLong),
-    })
-  }
-  return points
+export function generatePlanetOrbitPoints(target: TargetBody, numPoints = 100): Vec3[] {
+  return orbitRing(target, JD_J2000, numPoints).map((p) => toSceneAxes({
+    x: p.x / AU_KM, y: p.y / AU_KM, z: p.z / AU_KM,
+  }))
 }
 
 /**
  * Generate Earth orbit points for 3D rendering
  */
-export function generateEarthOrbitPoints(numPoints = 100): Array<{ x: number; y: number; z: number }> {
-  const e = EARTH_ORBITAL_DATA.eccentricity
-  const lonPeriRad = (EARTH_ORBITAL_DATA.longitudeOfPerihelionDeg * Math.PI) / 180
-
-  const points: Array<{ x: number; y: number; z: number }> = []
-  for (let i = 0; i <= numPoints; i++) {
-    const nu = (i / numPoints) * 2 * Math.PI
-    const r = (1 - e * e) / (1 + e * Math.cos(nu)) // a = 1 AU
-    const trueLong = lonPeriRad + nu
-    points.push({
-      x: r * Math.cos(trueLong),
-      y: 0,
-      z: r * Math.sin(trueLong),
-    })
-  }
-  return points
+export function generateEarthOrbitPoints(numPoints = 100): Vec3[] {
+  return orbitRing('earth', JD_J2000, numPoints).map((p) => toSceneAxes({
+    x: p.x / AU_KM, y: p.y / AU_KM, z: p.z / AU_KM,
+  }))
 }
 
 /**
@@ -0,0 +1,363 @@
+/**
+ * Stable invariant manifolds of CR3BP periodic orbits and the low-energy
+ * Earth-departure transfers they provide.
+ *
+ * The stable eigenvector of the monodromy matrix is found by power
+ * iteration on Φ(T)⁻¹ (the monodromy of the time-reversed orbit), carried
+ * around the orbit with the state transition matrix, and each orbit point
+ * is displaced a fixed distance along it. Integrating those states backward
+ * in time traces the manifold tube — trajectories that coast onto the orbit
+ * with no insertion burn. Backward propagation uses the CR3BP time-reversal
+ * symmetry (x, y, z, vx, vy, vz, t) → (x, −y, z, −vx, vy, −vz, −t).
+ *
+ * The perigee radius of each tube trajectory varies continuously with the
+ * orbit phase it departs from; the phases where it equals the parking-orbit
+ * radius are refined by the secant method and the one with the lowest
+ * tangential TLI burn becomes the transfer. When no phase reaches the
+ * parking radius, the closest approach is searched again with larger
+ * step-offs along the stable direction; if the tube still stays above the
+ * parking orbit, the transfer is only an approximation (a Hohmann bridge up
+ * to the closest manifold perigee) and is flagged as such.
+ *
+ * Standalone physics module — no UI dependencies.
+ */
+
+import { cr3bpSystem, propagateCr3bp, withStm, stmFromState } from './cr3bp'
+import type { Cr3bpEvent, HaloBranch, PeriodicOrbitFamily, PeriodicOrbitResult } from './cr3bp'
+import { MU_EARTH_KM, R_EARTH_EQUATORIAL, SEC_PER_DAY } from './constants'
+import type { LagrangeSystem, LagrangePoint } from '@/types/beyond-leo'
+
+// ─── Types ───
+
+export interface ManifoldConfig {
+  tubeTrajectories: number     // orbit phases sampled around the tube
+  stepKm: number               // displacement from the orbit along the stable eigenvector
+  maxTofPeriods: number        // backward propagation limit, in orbit periods
+}
+
+export const DEFAULT_MANIFOLD_CONFIG: ManifoldConfig = {
+  tubeTrajectories: 60,
+  stepKm: 200,
+  maxTofPeriods: 3,
+}
+
+export interface ManifoldTrajectory {
+  phase: number                // orbit phase τ ∈ [0, 1) the trajectory arrives at
+  perigeeRadiusKm: number      // closest Earth approach; NaN when none within the TOF limit
+  tofDays: number              // perigee to the orbit neighbourhood
+  points: Array<{ x: number; y: number; z: number }>  // nondimensional barycentric, perigee → orbit
+}
+
+export interface ManifoldTransfer extends ManifoldTrajectory {
+  stepKm: number               // step-off along the stable eigenvector (retargeting may enlarge it)
+  perigeeAltKm: number
+  perigeeSpeedKms: number      // Earth-relative inertial speed at perigee
+  tliDeltaVms: number          // tangential burn from the circular parking orbit
+  insertionDeltaVms: number    // velocity offset between the manifold start and the orbit
+}
+
+export interface ManifoldTransferResult {
+  system: LagrangeSystem
+  point: LagrangePoint
+  family: PeriodicOrbitFamily
+  orbitBranch: HaloBranch
+  orbitAmplitudeKm: number
+  orbitJacobi: number          // identifies the periodic orbit the tube belongs to
+  departureAltKm: number
+  config: ManifoldConfig
+  branch: 1 | -1               // sign of the eigenvector displacement on the Earth-facing side
+  tube: ManifoldTrajectory[]
+  minPerigeeAltKm: number
+  reachesParkingOrbit: boolean // a tube trajectory passes exactly through the parking radius
+  transfer: ManifoldTransfer   // through the parking radius, else the Hohmann-bridged closest approach (approximate)
+}
+
+// ─── Helpers ───
+
+// Time-reversal mirror R: R·φ_t(R·x) = φ_−t(x)
+const MIRROR = [1, -1, 1, -1, 1, -1]
+const TUBE_POINTS = 80
+const TRANSFER_POINTS = 400
+const MAX_SECANT = 20
+// Step-off multiples tried when no tube trajectory reaches the parking radius
+const RETARGET_STEP_SCALES = [5, 25]
+
+function mirror(s: ArrayLike<number>): number[] {
+  return Array.from({ length: 6 }, (_, i) => s[i] * MIRROR[i])
+}
+
+function matVec(M: number[][], v: number[]): number[] {
+  return M.map((row) => row.reduce((acc, m, j) => acc + m * v[j], 0))
+}
+
+function downsample<T>(arr: T[], max: number): T[] {
+  if (arr.length <= max) return arr
+  const out: T[] = []
+  for (let i = 0; i < max; i++) out.push(arr[Math.round(i * (arr.length - 1) / (max - 1))])
+  return out
+}
+
+/** Stable eigenvector of the monodromy matrix: dominant eigenvector of Φ(T)⁻¹ */
+function stableEigenvector(mu: number, orbit: PeriodicOrbitResult): number[] {
+  // Φ(T)⁻¹ at x0 = R Φ_R(T) R, with Φ_R the monodromy of the mirrored orbit
+  const PhiR = stmFromState(propagateCr3bp(mu, withStm(mirror(orbit.initialState)), orbit.periodNd).state)
+  const inv = PhiR.map((row, i) => row.map((m, j) => m * MIRROR[i] * MIRROR[j]))
+  let v = [1, 1, 1, 1, 1, 1]
+  for (let i = 0; i < 20; i++) {
+    const w = matVec(inv, v)
+    const n = Math.hypot(...w)
+    v = w.map((x) => x / n)
+  }
+  return v
+}
+
+/** Orbit state and stable direction (scaled to unit position displacement) at each phase */
+interface TubeSeed {
+  state: number[]
+  direction: number[]
+}
+
+function seedAt(mu: number, from: TubeSeed, dt: number): TubeSeed {
+  if (dt === 0) return from
+  const y = propagateCr3bp(mu, withStm(from.state), dt).state
+  const d = matVec(stmFromState(y), from.direction)
+  const n = Math.hypot(d[0], d[1], d[2])
+  return { state: Array.from(y.slice(0, 6)), direction: d.map((x) => x / n) }
+}
+
+// ─── Manifold transfer ───
+
+/**
+ * Trace the Earth-ward stable manifold tube of a periodic orbit and find
+ * the trajectory whose perigee matches the parking orbit altitude.
+ */
+export function computeManifoldTransfer(
+  orbit: PeriodicOrbitResult,
+  departureAltKm: number,
+  config: ManifoldConfig,
+  onProgress?: (fraction: number) => void,
+): ManifoldTransferResult {
+  const sys = cr3bpSystem(orbit.system)
+  const { mu, lengthKm, timeSec } = sys
+  const velKms = lengthKm / timeSec
+  const earthX = orbit.system === 'SE' ? 1 - mu : -mu
+  const eps = config.stepKm / lengthKm
+  const maxTof = config.maxTofPeriods * orbit.periodNd
+  const rTarget = (R_EARTH_EQUATORIAL + departureAltKm) / lengthKm
+  const N = Math.max(8, Math.round(config.tubeTrajectories))
+
+  // Earth perigee: radial velocity changes from negative to positive
+  const perigee: Cr3bpEvent = {
+    value: (s) => (s[0] - earthX) * s[3] + s[1] * s[4] + s[2] * s[5],
+    rate: (s, f) => s[3] * s[3] + s[4] * s[4] + s[5] * s[5]
+      + (s[0] - earthX) * f[3] + s[1] * f[4] + s[2] * f[5],
+    count: 1,
+    direction: 1,
+  }
+
+  // Distance oscillations while still winding around the orbit are not Earth passes
+  const rGate = 0.5 * Math.abs(orbit.lPointX - earthX)
+
+  /** Integrate one displaced orbit point backward to its first Earth perigee */
+  const trace = (seed: TubeSeed, sign: 1 | -1, record: boolean, step = eps) => {
+    const start = seed.state.map((x, i) => x + sign * step * seed.direction[i])
+    let y: Float64Array = Float64Array.from(mirror(start))
+    let t = 0
+    const samples: Float64Array[] = []
+    for (;;) {
+      const seg = propagateCr3bp(mu, y, maxTof - t, perigee, record)
+      if (record) samples.push(...(samples.length ? seg.samples.slice(1) : seg.samples))
+      y = seg.state
+      t += seg.t
+      const r = Math.hypot(y[0] - earthX, y[1], y[2])
+      if (!seg.eventFound || r < rGate) {
+        return { state: y, t, samples, radius: seg.eventFound ? r : NaN }
+      }
+    }
+  }
+
+  const toTrajectory = (phase: number, t: ReturnType<typeof trace>, maxPoints: number): ManifoldTrajectory => ({
+    phase,
+    perigeeRadiusKm: t.radius * lengthKm,
+    tofDays: t.t * timeSec / SEC_PER_DAY,
+    points: downsample(
+      t.samples.map((s) => mirror(s)).reverse().map((s) => ({ x: s[0], y: s[1], z: s[2] })),
+      maxPoints,
+    ),
+  })
+
+  // Seeds around the orbit
+  const dt = orbit.periodNd / N
+  const seeds: TubeSeed[] = []
+  let seed: TubeSeed = { state: [...orbit.initialState], direction: [] }
+  const v0 = stableEigenvector(mu, orbit)
+  const n0 = Math.hypot(v0[0], v0[1], v0[2])
+  seed.direction = v0.map((x) => x / n0)
+  for (let k = 0; k < N; k++) {
+    seeds.push(seed)
+    seed = seedAt(mu, seed, dt)
+  }
+
+  // Both displacement signs; keep the branch that comes closer to Earth
+  const branches = ([1, -1] as const).map((sign) => {
+    const traces = seeds.map((s, k) => {
+      const t = trace(s, sign, true)
+      onProgress?.(0.9 * (k + 1 + (sign === 1 ? 0 : N)) / (2 * N))
+      return t
+    })
+    const minRadius = Math.min(...traces.map((t) => (Number.isFinite(t.radius) ? t.radius : Infinity)))
+    return { sign, traces, minRadius }
+  })
+  const best = branches[0].minRadius <= branches[1].minRadius ? branches[0] : branches[1]
+  if (!Number.isFinite(best.minRadius)) {
+    throw new Error(`No stable-manifold trajectory reaches an Earth perigee within ${config.maxTofPeriods} orbit periods`)
+  }
+  const { sign, traces } = best
+
+  /** Orbit state and stable direction at an arbitrary phase, carried from the nearest seed */
+  const seedAtPhase = (phase: number): TubeSeed => {
+    const x = (((phase % 1) + 1) % 1) * N
+    const k = Math.min(N - 1, Math.floor(x))
+    return seedAt(mu, seeds[k], (x - k) * dt)
+  }
+  const radiusAt = (phase: number, step = eps) => trace(seedAtPhase(phase), sign, false, step).radius
+
+  // Perigee radius along the phase: Illinois regula falsi on a parking-radius crossing
+  const refine = (pa: number, fa: number, pb: number, fb: number, step: number): number | null => {
+    let p = pa
+    let side = 0
+    for (let i = 0; i < MAX_SECANT; i++) {
+      p = pa + (pb - pa) * fa / (fa - fb)
+      const r = radiusAt(p, step)
+      if (!Number.isFinite(r)) return null
+      const f = r - rTarget
+      if (Math.abs(f) * lengthKm < 1e-3) break
+      if (Math.sign(f) === Math.sign(fa)) {
+        pa = p; fa = f
+        if (side === -1) fb /= 2
+        side = -1
+      } else {
+        pb = p; fb = f
+        if (side === 1) fa /= 2
+        side = 1
+      }
+    }
+    return p
+  }
+
+  const inertialSpeed = (s: number[]) => {
+    // Earth-relative inertial velocity: v_rot + ω × (r − r_E), ω = ẑ
+    const vx = s[3] - s[1]
+    const vy = s[4] + (s[0] - earthX)
+    return Math.hypot(vx, vy, s[5]) * velKms
+  }
+
+  const rParking = R_EARTH_EQUATORIAL + departureAltKm
+  const vCirc = Math.sqrt(MU_EARTH_KM / rParking)
+
+  const buildTransfer = (phase: number, reaches: boolean, step: number): ManifoldTransfer => {
+    const seedP = seedAtPhase(phase)
+    const t = trace(seedP, sign, true, step)
+    const rp = t.radius * lengthKm
+    const vp = inertialSpeed(mirror(t.state))
+    let tli = vp - vCirc
+    if (!reaches) {
+      // Bridge the gap with a tangential Hohmann arc from the parking orbit up to the manifold perigee
+      const a = (rParking + rp) / 2
+      const v1 = Math.sqrt(MU_EARTH_KM * (2 / rParking - 1 / a))
+      const v2 = Math.sqrt(MU_EARTH_KM * (2 / rp - 1 / a))
+      tli = (v1 - vCirc) + Math.abs(vp - v2)
+    }
+    const dv = seedP.direction.slice(3).map((x) => step * x)
+    return {
+      ...toTrajectory(phase, t, TRANSFER_POINTS),
+      stepKm: step * lengthKm,
+      perigeeAltKm: rp - R_EARTH_EQUATORIAL,
+      perigeeSpeedKms: vp,
+      tliDeltaVms: tli * 1000,
+      insertionDeltaVms: Math.hypot(dv[0], dv[1], dv[2]) * velKms * 1000,
+    }
+  }
+
+  const radii = traces.map((t) => (Number.isFinite(t.radius) ? t.radius : Infinity))
+  const crossings: Array<[number, number, number, number]> = []
+  for (let k = 0; k < N; k++) {
+    const r1 = radii[k]
+    const r2 = radii[(k + 1) % N]
+    if (Number.isFinite(r1) && Number.isFinite(r2) && Math.sign(r1 - rTarget) !== Math.sign(r2 - rTarget)) {
+      crossings.push([k / N, r1 - rTarget, (k + 1) / N, r2 - rTarget])
+    }
+  }
+
+  /** Golden-section search for the lowest perigee between two phases */
+  const closestApproach = (lo: number, hi: number, step: number): { phase: number; radius: number } => {
+    const golden = (Math.sqrt(5) - 1) / 2
+    let p1 = hi - golden * (hi - lo)
+    let p2 = lo + golden * (hi - lo)
+    let f1 = radiusAt(p1, step)
+    let f2 = radiusAt(p2, step)
+    for (let i = 0; i < 20; i++) {
+      if (!(f1 > f2)) {
+        hi = p2; p2 = p1; f2 = f1
+        p1 = hi - golden * (hi - lo); f1 = radiusAt(p1, step)
+      } else {
+        lo = p1; p1 = p2; f1 = f2
+        p2 = lo + golden * (hi - lo); f2 = radiusAt(p2, step)
+      }
+    }
+    return f1 < f2 ? { phase: p1, radius: f1 } : { phase: p2, radius: f2 }
+  }
+
+  let transfer: ManifoldTransfer | null = null
+  const bestThrough = (list: typeof crossings, step: number) => {
+    for (const [pa, fa, pb, fb] of list) {
+      const phase = refine(pa, fa, pb, fb, step)
+      if (phase == null) continue
+      const candidate = buildTransfer(phase, true, step)
+      if (!transfer || candidate.tliDeltaVms < transfer.tliDeltaVms) transfer = candidate
+    }
+  }
+  bestThrough(crossings, eps)
+
+  // No sampled crossing: the perigee minimum may still dip below the parking
+  // radius between samples, or with a larger step-off along the stable direction
+  const kMin = radii.indexOf(Math.min(...radii))
+  let pMin = kMin / N
+  const lo = (kMin - 1) / N
+  const hi = (kMin + 1) / N
+  for (const scale of [1, ...RETARGET_STEP_SCALES]) {
+    if (transfer) break
+    const step = eps * scale
+    const min = closestApproach(lo, hi, step)
+    if (scale === 1 && min.radius < radii[kMin]) pMin = min.phase
+    if (!(min.radius < rTarget)) continue
+    const fMin = min.radius - rTarget
+    const fLo = (scale === 1 ? radii[(kMin - 1 + N) % N] : radiusAt(lo, step)) - rTarget
+    const fHi = (scale === 1 ? radii[(kMin + 1) % N] : radiusAt(hi, step)) - rTarget
+    const bracketed: typeof crossings = []
+    if (fLo > 0) bracketed.push([lo, fLo, min.phase, fMin])
+    if (fHi > 0) bracketed.push([min.phase, fMin, hi, fHi])
+    bestThrough(bracketed, step)
+  }
+
+  const reachesParkingOrbit = transfer != null
+  // Closest approach when the tube never dips to the parking radius
+  if (!transfer) transfer = buildTransfer(pMin, false, eps)
+  onProgress?.(1)
+
+  return {
+    system: orbit.system,
+    point: orbit.point,
+    family: orbit.family,
+    orbitBranch: orbit.branch,
+    orbitAmplitudeKm: orbit.amplitudeKm,
+    orbitJacobi: orbit.jacobi,
+    departureAltKm,
+    config,
+    branch: sign,
+    tube: traces.map((t, k) => toTrajectory(k / N, t, TUBE_POINTS)),
+    minPerigeeAltKm: Math.min(best.minRadius * lengthKm, transfer.perigeeAltKm + R_EARTH_EQUATORIAL) - R_EARTH_EQUATORIAL,
+    reachesParkingOrbit,
+    transfer,
+  }
+}
@@ -18,6 +18,9 @@ import type {
   LagrangeSystem, LagrangePoint, LagrangeOrbitType,
   LagrangeTransferType, LagrangeParams, LagrangeResult,
 } from '@/types/beyond-leo'
+import type { HaloBranch, PeriodicOrbitConfig, PeriodicOrbitFamily, PeriodicOrbitResult } from './cr3bp'
+import type { ManifoldTransferResult } from './invariant-manifolds'
+import type { StationKeepingConfig, StationKeepingResult } from './station-keeping'
 
 // ─── L-point distance lookups ───
 
@@ -212,10 +215,101 @@ export function computeStationKeeping(
   return base * typeFactor * ampFactor
 }
 
+/** The periodic orbit a result was computed for */
+interface OrbitIdentity {
+  system: LagrangeSystem
+  point: LagrangePoint
+  family: PeriodicOrbitFamily
+  branch: HaloBranch
+  amplitudeKm: number
+  jacobi: number
+}
+
+/**
+ * Whether an orbit is the one the parameters and periodic-orbit config ask
+ * for: same family (and halo branch), and the requested amplitude or Jacobi
+ * constant
+ */
+function orbitMatches(orbit: OrbitIdentity, params: LagrangeParams, orbitConfig: PeriodicOrbitConfig): boolean {
+  return orbit.system === params.system
+    && orbit.point === params.point
+    && orbit.family === orbitConfig.family
+    && (orbitConfig.family !== 'halo' || orbit.branch === orbitConfig.branch)
+    && (orbitConfig.target === 'amplitude'
+      ? Math.abs(orbit.amplitudeKm - params.amplitudeKm) <= 1e-3 * params.amplitudeKm
+      : Math.abs(orbit.jacobi - orbitConfig.jacobi) <= 1e-8)
+}
+
+/**
+ * Whether a computed periodic orbit applies to the current parameters
+ */
+export function periodicOrbitMatchesParams(
+  orbit: PeriodicOrbitResult | null | undefined,
+  params: LagrangeParams,
+  orbitConfig: PeriodicOrbitConfig,
+): orbit is PeriodicOrbitResult {
+  return orbit != null && orbitMatches(orbit, params, orbitConfig)
+}
+
+/**
+ * Whether a computed stable-manifold transfer applies to the current
+ * parameters: its orbit and departure altitude
+ */
+export function manifoldMatchesParams(
+  manifold: ManifoldTransferResult | null | undefined,
+  params: LagrangeParams,
+  orbitConfig: PeriodicOrbitConfig,
+): manifold is ManifoldTransferResult {
+  return manifold != null
+    && orbitMatches({
+      system: manifold.system,
+      point: manifold.point,
+      family: manifold.family,
+      branch: manifold.orbitBranch,
+      amplitudeKm: manifold.orbitAmplitudeKm,
+      jacobi: manifold.orbitJacobi,
+    }, params, orbitConfig)
+    && manifold.departureAltKm === params.departureAltKm
+}
+
+/**
+ * Whether a station-keeping simulation applies to the current parameters:
+ * its reference orbit and every simulation setting
+ */
+export function stationKeepingMatchesParams(
+  stationKeeping: StationKeepingResult | null | undefined,
+  params: LagrangeParams,
+  orbitConfig: PeriodicOrbitConfig,
+  skConfig: StationKeepingConfig,
+): stationKeeping is StationKeepingResult {
+  return stationKeeping != null
+    && orbitMatches({
+      system: stationKeeping.system,
+      point: stationKeeping.point,
+      family: stationKeeping.family,
+      branch: stationKeeping.orbitBranch,
+      amplitudeKm: stationKeeping.orbitAmplitudeKm,
+      jacobi: stationKeeping.orbitJacobi,
+    }, params, orbitConfig)
+    && (Object.keys(skConfig) as Array<keyof StationKeepingConfig>)
+      .every((key) => stationKeeping.config[key] === skConfig[key])
+}
+
 /**
- * Full Lagrange analysis
+ * Full Lagrange analysis.
+ * A stable-manifold transfer that reaches the parking orbit replaces the
+ * low-energy estimates with the computed trajectory's TLI ΔV, insertion ΔV
+ * and time of flight (a Hohmann-bridged transfer is only an approximation and
+ * leaves the estimates in place); a
+ * station-keeping simulation replaces the SK_BUDGETS estimate with its
+ * 95th-percentile annual ΔV. Pass only results that match the parameters
+ * (manifoldMatchesParams, stationKeepingMatchesParams).
  */
-export function computeLagrangeResult(params: LagrangeParams): LagrangeResult {
+export function computeLagrangeResult(
+  params: LagrangeParams,
+  manifold?: ManifoldTransferResult | null,
+  stationKeeping?: StationKeepingResult | null,
+): LagrangeResult {
   const {
     system, point, orbitType, amplitudeKm,
     departureAltKm, transferType,
@@ -235,7 +329,15 @@ export function computeLagrangeResult(params: LagrangeParams): LagrangeResult {
   if (orbitType === 'lissajous') adjustedInsertionDV *= 0.85
   else if (orbitType === 'lyapunov') adjustedInsertionDV *= 0.75
 
-  const totalDeltaVms = transferDV + adjustedInsertionDV
+  let transferDeltaVms = transferDV
+  let transferTime = transferTimeDays
+  if (transferType === 'low-energy' && manifold?.reachesParkingOrbit) {
+    transferDeltaVms = manifold.transfer.tliDeltaVms
+    adjustedInsertionDV = manifold.transfer.insertionDeltaVms
+    transferTime = manifold.transfer.tofDays
+  }
+
+  const totalDeltaVms = transferDeltaVms + adjustedInsertionDV
   const haloPeriodDays = computeOrbitPeriod(system, point, orbitType)
 
   // Communications
@@ -261,14 +363,17 @@ export function computeLagrangeResult(params: LagrangeParams): LagrangeResult {
   const stabilityClass = (point === 'L4' || point === 'L5') ? 'stable' as const : 'unstable' as const
 
   // Station-keeping
-  const annualStationKeepingMs = computeStationKeeping(system, point, orbitType, amplitudeKm)
+  // A simulated p95 that lands on a lost run is unbounded; the budget keeps the analytical estimate
+  const annualStationKeepingMs = stationKeeping && Number.isFinite(stationKeeping.p95AnnualDvMs)
+    ? stationKeeping.p95AnnualDvMs
+    : computeStationKeeping(system, point, orbitType, amplitudeKm)
   const missionTotalDeltaVms = totalDeltaVms + annualStationKeepingMs * missionLifetimeYears
 
   return {
     pointDistanceKm,
     pointDistanceAU,
-    transferDeltaVms: transferDV,
-    transferTimeDays,
+    transferDeltaVms,
+    transferTimeDays: transferTime,
     insertionDeltaVms: adjustedInsertionDV,
     totalDeltaVms,
     haloPeriodDays,
@@ -0,0 +1,235 @@
+/**
+ * Launch-period optimizer for interplanetary departures.
+ *
+ * For every departure day in the search span the flight time is scanned
+ * (all Lambert branches up to the configured revolution count) for the
+ * lowest total ΔV whose departure C3 fits within the selected launch
+ * vehicle's capability for the spacecraft mass. The result carries:
+ *
+ *   - the optimum date pair over the whole span;
+ *   - the launch period: the run of consecutive departure days, of the
+ *     configured length, whose worst-day total ΔV is lowest while every
+ *     day stays within the C3 limit. Each day keeps its own optimal
+ *     arrival date (open arrival).
+ *
+ * Standalone physics module — no UI dependencies.
+ */
+
+import { LAUNCH_VEHICLES } from './beyond-leo-constants'
+import { computeHohmannInterplanetary, evaluateTransfer } from './interplanetary'
+import type { TransferOption } from './interplanetary'
+import type { ArrivalOrbitType, InterplanetaryParams, LaunchVehicleId, TargetBody } from '@/types/beyond-leo'
+
+// ─── Types ───
+
+export type PorkchopLayer = 'c3' | 'vinf-arrival' | 'dla' | 'total-dv'
+
+export const PORKCHOP_LAYERS: Record<PorkchopLayer, { label: string; unit: string }> = {
+  c3: { label: 'Departure C3', unit: 'km²/s²' },
+  'vinf-arrival': { label: 'Arrival V∞', unit: 'km/s' },
+  dla: { label: 'DLA', unit: 'deg' },
+  'total-dv': { label: 'Total ΔV', unit: 'm/s' },
+}
+
+/** Shared by the porkchop plot and the launch-period optimizer */
+export interface LaunchPeriodConfig {
+  vehicle: LaunchVehicleId
+  windowDays: number           // launch period length
+  searchDays: number           // departure span searched from the departure date
+  maxRevs: number              // Lambert revolutions considered (0 = direct arcs only)
+  porkchopLayer: PorkchopLayer
+}
+
+export const DEFAULT_LAUNCH_PERIOD_CONFIG: LaunchPeriodConfig = {
+  vehicle: 'atlas-v-551',
+  windowDays: 21,
+  searchDays: 730,
+  maxRevs: 0,
+  porkchopLayer: 'c3',
+}
+
+export interface LaunchDay {
+  departureDateISO: string
+  arrivalDateISO: string
+  flightDays: number
+  revs: number
+  c3: number                   // km²/s²
+  vInfArrive: number           // km/s
+  dlaDeg: number
+  totalDeltaVms: number
+}
+
+export interface LaunchPeriodResult {
+  targetBody: TargetBody
+  spacecraftMassKg: number
+  departureAltKm: number
+  arrivalOrbitAltKm: number
+  arrivalOrbitType: ArrivalOrbitType
+  captureApoFactor: number
+  startDateISO: string
+  config: LaunchPeriodConfig
+  maxC3: number                // vehicle capability at the spacecraft mass
+  days: (LaunchDay | null)[]   // best feasible trajectory per departure day
+  optimum: LaunchDay | null
+  period: {
+    openDateISO: string
+    closeDateISO: string
+    maxC3: number
+    maxTotalDeltaVms: number
+    days: LaunchDay[]
+  } | null
+}
+
+// ─── Helpers ───
+
+/**
+ * Highest C3 the vehicle reaches with the given payload mass (linear
+ * interpolation of its performance curve); null if it cannot lift the
+ * mass to escape.
+ */
+export function vehicleMaxC3(vehicle: LaunchVehicleId, massKg: number): number | null {
+  const curve = LAUNCH_VEHICLES[vehicle].c3Curve
+  if (massKg > curve[0][1]) return null
+  for (let i = 1; i < curve.length; i++) {
+    const [c3a, ma] = curve[i - 1]
+    const [c3b, mb] = curve[i]
+    if (massKg >= mb) return c3a + (ma - massKg) / (ma - mb) * (c3b - c3a)
+  }
+  return curve[curve.length - 1][0]
+}
+
+/** Flight-time span searched for a target: 0.3–2.5× the Hohmann time */
+export function porkchopFlightRange(target: TargetBody): [number, number] {
+  const hohmannDays = computeHohmannInterplanetary(target).transferTimeDays
+  return [Math.max(30, hohmannDays * 0.3), hohmannDays * 2.5]
+}
+
+// Display-only; switching the porkchop layer keeps the optimizer result
+const DISPLAY_ONLY_CONFIG_KEYS: ReadonlySet<keyof LaunchPeriodConfig> = new Set(['porkchopLayer'])
+
+export function launchPeriodMatchesParams(
+  launchPeriod: LaunchPeriodResult | null | undefined,
+  params: InterplanetaryParams,
+  config: LaunchPeriodConfig,
+): launchPeriod is LaunchPeriodResult {
+  return launchPeriod != null
+    && launchPeriod.targetBody === params.targetBody
+    && launchPeriod.spacecraftMassKg === params.spacecraftMassKg
+    && launchPeriod.departureAltKm === params.departureAltKm
+    && launchPeriod.arrivalOrbitAltKm === params.arrivalOrbitAltKm
+    && launchPeriod.arrivalOrbitType === params.arrivalOrbitType
+    && launchPeriod.captureApoFactor === params.captureApoFactor
+    && new Date(launchPeriod.startDateISO).getTime() === new Date(params.departureDateISO).getTime()
+    && (Object.keys(config) as Array<keyof LaunchPeriodConfig>)
+      .every((key) => DISPLAY_ONLY_CONFIG_KEYS.has(key) || launchPeriod.config[key] === config[key])
+}
+
+const FLIGHT_SAMPLES = 48
+const REFINE_SAMPLES = 8
+
+function toLaunchDay(depDate: Date, flightDays: number, option: TransferOption): LaunchDay {
+  return {
+    departureDateISO: depDate.toISOString(),
+    arrivalDateISO: new Date(depDate.getTime() + flightDays * 86400000).toISOString(),
+    flightDays,
+    revs: option.revs,
+    c3: option.c3,
+    vInfArrive: option.vInfArrive,
+    dlaDeg: option.dlaDeg,
+    totalDeltaVms: option.totalDeltaVms,
+  }
+}
+
+/** Lowest-ΔV feasible flight time for one departure day (coarse scan, then local refinement) */
+function bestForDay(
+  params: InterplanetaryParams,
+  depDate: Date,
+  flightRange: [number, number],
+  maxC3: number,
+  maxRevs: number,
+): LaunchDay | null {
+  const [minFlight, maxFlight] = flightRange
+  const step = (maxFlight - minFlight) / (FLIGHT_SAMPLES - 1)
+  const candidates = Array.from({ length: FLIGHT_SAMPLES }, (_, j) => minFlight + j * step)
+  let bestDays = 0
+  let best: TransferOption | null = null
+
+  for (let pass = 0; pass < 2; pass++) {
+    for (const flightDays of candidates) {
+      const option = evaluateTransfer(params, depDate, flightDays, maxRevs)
+      if (option && option.c3 <= maxC3 && (!best || option.totalDeltaVms < best.totalDeltaVms)) {
+        best = option
+        bestDays = flightDays
+      }
+    }
+    if (!best) return null
+    // Second pass: finer samples around the coarse minimum
+    candidates.length = 0
+    for (let k = -REFINE_SAMPLES; k <= REFINE_SAMPLES; k++) {
+      const flightDays = bestDays + k * step / REFINE_SAMPLES
+      if (k !== 0 && flightDays >= minFlight && flightDays <= maxFlight) candidates.push(flightDays)
+    }
+  }
+  return best ? toLaunchDay(depDate, bestDays, best) : null
+}
+
+// ─── Optimizer ───
+
+export function runLaunchPeriod(
+  params: InterplanetaryParams,
+  config: LaunchPeriodConfig,
+  onProgress?: (progress: number) => void,
+): LaunchPeriodResult {
+  const maxC3 = vehicleMaxC3(config.vehicle, params.spacecraftMassKg)
+  if (maxC3 === null) {
+    throw new Error(`${LAUNCH_VEHICLES[config.vehicle].name} cannot lift ${params.spacecraftMassKg} kg to escape`)
+  }
+
+  const start = new Date(params.departureDateISO)
+  const flightRange = porkchopFlightRange(params.targetBody)
+  const nDays = Math.max(1, Math.round(config.searchDays))
+  const days: (LaunchDay | null)[] = []
+  let optimum: LaunchDay | null = null
+
+  for (let d = 0; d < nDays; d++) {
+    const depDate = new Date(start.getTime() + d * 86400000)
+    const day = bestForDay(params, depDate, flightRange, maxC3, config.maxRevs)
+    days.push(day)
+    if (day && (!optimum || day.totalDeltaVms < optimum.totalDeltaVms)) optimum = day
+    if (d % 10 === 0) onProgress?.(d / nDays)
+  }
+
+  // Sliding window over consecutive feasible days, minimizing the worst day
+  const window = Math.max(1, Math.round(config.windowDays))
+  let period: LaunchPeriodResult['period'] = null
+  for (let d = 0; d + window <= nDays; d++) {
+    const run = days.slice(d, d + window)
+    if (run.some((day) => day === null)) continue
+    const feasible = run as LaunchDay[]
+    const maxTotalDeltaVms = Math.max(...feasible.map((day) => day.totalDeltaVms))
+    if (period && period.maxTotalDeltaVms <= maxTotalDeltaVms) continue
+    period = {
+      openDateISO: feasible[0].departureDateISO,
+      closeDateISO: feasible[feasible.length - 1].departureDateISO,
+      maxC3: Math.max(...feasible.map((day) => day.c3)),
+      maxTotalDeltaVms,
+      days: feasible,
+    }
+  }
+  onProgress?.(1)
+
+  return {
+    targetBody: params.targetBody,
+    spacecraftMassKg: params.spacecraftMassKg,
+    departureAltKm: params.departureAltKm,
+    arrivalOrbitAltKm: params.arrivalOrbitAltKm,
+    arrivalOrbitType: params.arrivalOrbitType,
+    captureApoFactor: params.captureApoFactor,
+    startDateISO: start.toISOString(),
+    config,
+    maxC3,
+    days,
+    optimum,
+    period,
+  }
+}
@@ -0,0 +1,356 @@
+/**
+ * Low-thrust (electric propulsion) transfer analysis.
+ *
+ * Spiral transfers between circular orbits follow Edelbaum's constant-yaw
+ * solution, which combines an altitude change with a plane change. The
+ * Edelbaum arc is parametrized by accumulated ΔV, so it is integrated in ΔV
+ * steps with the thrust the spacecraft can actually deliver at each step:
+ *
+ *   - thrust is capped by the power left for the thruster in sunlight
+ *     after the bus loads of the power budget (throttled at fixed Isp);
+ *   - the thruster is off in eclipse, so wall-clock time stretches by
+ *     1 / (duty × sunlit fraction), with one thrust gap per orbit in shadow;
+ *   - mass is depleted with the rocket equation as propellant is spent.
+ *
+ * Interplanetary low-thrust transfers chain an Earth escape spiral, a
+ * heliocentric Edelbaum arc with array power falling off as 1/r², and a
+ * capture spiral at the target.
+ *
+ * Standalone physics module — no UI dependencies.
+ */
+
+import { MU_EARTH_KM, R_EARTH_EQUATORIAL, G0, DEG2RAD, RAD2DEG, SEC_PER_DAY } from './constants'
+import { MU_SUN, AU_KM, PLANET_DATA, EARTH_ORBITAL_DATA } from './beyond-leo-constants'
+import { computeSolarPowerPeak, subsystemAvgPower } from './power-budget'
+import type { PowerSubsystem } from './power-budget'
+import type { SpacecraftConfig } from '@/types/mission'
+import type { LowThrustConfig, PropulsionConfig } from '@/types/propulsion'
+import type { InterplanetaryParams } from '@/types/beyond-leo'
+
+// ─── Types ───
+
+export interface LowThrustSample {
+  day: number
+  altitudeKm: number
+  inclinationDeg: number
+  massKg: number
+  eclipseFraction: number
+}
+
+export interface LowThrustTransferResult {
+  deltaVms: number              // Edelbaum ΔV of the full transfer
+  deliveredDeltaVms: number     // less than deltaVms when propellant runs out
+  complete: boolean
+  transferDays: number          // wall-clock, including coasts
+  thrustingDays: number
+  eclipseCoastDays: number      // thruster off in shadow
+  eclipsePasses: number         // thrust gaps (one per orbit with an eclipse)
+  propellantKg: number
+  finalMassKg: number
+  finalAltitudeKm: number
+  finalInclinationDeg: number
+  thrustN: number               // delivered thrust at full sunlit power
+  throttle: number              // fraction of rated power available to the thruster
+  efficiency: number            // jet power / input power implied by thrust, Isp and power
+  samples: LowThrustSample[]
+}
+
+export interface InterplanetaryLowThrustResult {
+  escapeDeltaVms: number
+  heliocentricDeltaVms: number
+  captureDeltaVms: number
+  totalDeltaVms: number
+  escapeDays: number
+  heliocentricDays: number
+  captureDays: number
+  totalDays: number
+  propellantKg: number
+  complete: boolean
+}
+
+// ─── Thruster and power ───
+
+/** Jet power over electrical input power, η = T·g0·Isp / (2P) */
+export function thrusterEfficiency(propulsion: PropulsionConfig): number {
+  if (propulsion.power <= 0) return 0
+  return propulsion.thrust * G0 * propulsion.specificImpulse / (2 * propulsion.power)
+}
+
+/**
+ * Array power left for the thruster in sunlight: peak generation minus the
+ * sunlit bus loads of the power budget (eclipse-only loads excluded).
+ */
+export function sunlitThrusterPower(spacecraft: SpacecraftConfig, subsystems: PowerSubsystem[]): number {
+  const busW = subsystems
+    .filter((s) => !s.isEclipseOnly)
+    .reduce((sum, s) => sum + subsystemAvgPower(s), 0)
+  return Math.max(0, computeSolarPowerPeak(spacecraft) - busW)
+}
+
+/**
+ * Mass at the start of a thrusting phase: dry mass plus the loaded
+ * propellant. Shared by the spiral estimate and the propagator's burns.
+ */
+export function wetMassKg(dryMassKg: number, propulsion: PropulsionConfig): number {
+  return dryMassKg + Math.max(0, propulsion.propellantMass)
+}
+
+/** Thrust at the available power, throttled at constant Isp (N) */
+export function electricThrust(propulsion: PropulsionConfig, availablePowerW: number): number {
+  if (propulsion.power <= 0) return propulsion.thrust
+  return propulsion.thrust * Math.min(1, Math.max(0, availablePowerW) / propulsion.power)
+}
+
+// ─── Edelbaum ───
+
+/** Edelbaum ΔV between circular orbits of speeds v0, v1 with plane change Δi (same units as v) */
+export function edelbaumDeltaV(v0: number, v1: number, deltaIncRad: number): number {
+  return Math.sqrt(v0 * v0 - 2 * v0 * v1 * Math.cos(Math.PI / 2 * deltaIncRad) + v1 * v1)
+}
+
+interface SpiralLeg {
+  mu: number
+  r0: number                    // km
+  r1: number                    // km (Infinity for escape)
+  deltaIncRad: number
+  massKg: number
+  propellantKg: number
+  ispS: number
+  dutyCycle: number
+  thrustAt: (rKm: number) => number        // N while firing
+  eclipseAt: (rKm: number) => number       // shadow fraction of the orbit
+  onSample?: (sample: { tSec: number; rKm: number; incChangeRad: number; massKg: number; eclipse: number }) => void
+}
+
+interface SpiralOutcome {
+  deltaV: number                // km/s, full leg
+  delivered: number             // km/s
+  complete: boolean
+  tSec: number
+  thrustSec: number
+  eclipseSec: number
+  eclipsePasses: number
+  propellantKg: number
+  rKm: number
+  incChangeRad: number
+}
+
+const SPIRAL_STEPS = 400
+
+/**
+ * Integrate one Edelbaum arc in ΔV steps:
+ *   v(s)² = v0² − 2·v0·s·cos β0 + s²
+ *   i(s)  = (2/π)·[atan((s − v0 cos β0) / (v0 sin β0)) + π/2 − β0]
+ */
+function integrateSpiral(leg: SpiralLeg): SpiralOutcome {
+  const v0 = Math.sqrt(leg.mu / leg.r0)
+  const v1 = isFinite(leg.r1) ? Math.sqrt(leg.mu / leg.r1) : 0
+  const di = leg.deltaIncRad
+  const total = edelbaumDeltaV(v0, v1, di)
+  const beta0 = Math.atan2(Math.sin(Math.PI / 2 * di), v0 - v1 * Math.cos(Math.PI / 2 * di))
+  const ve = leg.ispS * G0 / 1000  // km/s
+
+  const speedAt = (s: number) => Math.sqrt(Math.max(0, v0 * v0 - 2 * v0 * s * Math.cos(beta0) + s * s))
+  const incAt = (s: number) => Math.abs(Math.sin(beta0)) < 1e-12
+    ? 0
+    : (2 / Math.PI) * (Math.atan((s - v0 * Math.cos(beta0)) / (v0 * Math.sin(beta0))) + Math.PI / 2 - beta0)
+
+  let mass = leg.massKg
+  let propLeft = leg.propellantKg
+  let tSec = 0, thrustSec = 0, eclipseSec = 0, orbits = 0, eclipseOrbits = 0
+  let s = 0
+  const ds = total / SPIRAL_STEPS
+  leg.onSample?.({ tSec: 0, rKm: leg.r0, incChangeRad: 0, massKg: mass, eclipse: leg.eclipseAt(leg.r0) })
+
+  for (let k = 0; k < SPIRAL_STEPS && ds > 0; k++) {
+    // Midpoint of the step sets radius, thrust and shadow
+    const vMid = Math.max(1e-6, speedAt(s + ds / 2))
+    const r = leg.mu / (vMid * vMid)
+    const thrust = leg.thrustAt(r)
+    if (thrust <= 0 || propLeft <= 0) break
+
+    // Propellant for this ΔV step; stop short if the tank runs dry
+    let step = ds
+    let dm = mass * (1 - Math.exp(-step / ve))
+    if (dm > propLeft) {
+      step = -ve * Math.log(1 - propLeft / mass)
+      dm = propLeft
+    }
+    const burnSec = dm * ve * 1000 / thrust
+    const eclipse = leg.eclipseAt(r)
+    const wallSec = burnSec / (Math.max(1e-3, leg.dutyCycle) * Math.max(1e-3, 1 - eclipse))
+    const periodSec = 2 * Math.PI * Math.sqrt(r * r * r / leg.mu)
+
+    tSec += wallSec
+    thrustSec += burnSec
+    eclipseSec += wallSec * eclipse
+    orbits += wallSec / periodSec
+    if (eclipse > 0) eclipseOrbits += wallSec / periodSec
+    mass -= dm
+    propLeft -= dm
+    s += step
+    const vNow = Math.max(1e-6, speedAt(s))
+    leg.onSample?.({ tSec, rKm: leg.mu / (vNow * vNow), incChangeRad: incAt(s), massKg: mass, eclipse })
+    if (step < ds) break
+  }
+
+  const vEnd = Math.max(1e-6, speedAt(s))
+  const complete = s >= total - 1e-9
+  return {
+    deltaV: total,
+    delivered: s,
+    complete,
+    tSec,
+    thrustSec,
+    eclipseSec,
+    eclipsePasses: Math.floor(eclipseOrbits),
+    propellantKg: leg.propellantKg - propLeft,
+    rKm: complete ? leg.r1 : leg.mu / (vEnd * vEnd),
+    incChangeRad: complete ? di : incAt(s),
+  }
+}
+
+// ─── Earth orbit raising ───
+
+const MAX_SAMPLES = 200
+
+/**
+ * Circular-to-circular spiral about the Earth with plane change, flown at
+ * the power-limited thrust and gated by cylindrical-shadow eclipses (β = 0,
+ * the longest shadow).
+ */
+export function computeLowThrustSpiral(
+  propulsion: PropulsionConfig,
+  config: LowThrustConfig,
+  dryMassKg: number,
+  startAltitudeKm: number,
+  startInclinationDeg: number,
+  availablePowerW: number,
+): LowThrustTransferResult {
+  const thrustN = electricThrust(propulsion, availablePowerW)
+  const throttle = propulsion.thrust > 0 ? thrustN / propulsion.thrust : 0
+  const r0 = R_EARTH_EQUATORIAL + startAltitudeKm
+  const r1 = R_EARTH_EQUATORIAL + config.targetAltitudeKm
+  const deltaIncRad = Math.abs(config.targetInclinationDeg - startInclinationDeg) * DEG2RAD
+  const incSign = config.targetInclinationDeg >= startInclinationDeg ? 1 : -1
+
+  const startMassKg = wetMassKg(dryMassKg, propulsion)
+  const raw: LowThrustSample[] = []
+  const outcome = integrateSpiral({
+    mu: MU_EARTH_KM,
+    r0,
+    r1,
+    deltaIncRad,
+    massKg: startMassKg,
+    propellantKg: propulsion.propellantMass,
+    ispS: propulsion.specificImpulse,
+    dutyCycle: config.dutyCycle,
+    thrustAt: () => thrustN,
+    eclipseAt: (r) => (r > R_EARTH_EQUATORIAL ? Math.asin(R_EARTH_EQUATORIAL / r) / Math.PI : 1),
+    onSample: ({ tSec, rKm, incChangeRad, massKg, eclipse }) => raw.push({
+      day: tSec / SEC_PER_DAY,
+      altitudeKm: rKm - R_EARTH_EQUATORIAL,
+      inclinationDeg: startInclinationDeg + incSign * incChangeRad * RAD2DEG,
+      massKg,
+      eclipseFraction: eclipse,
+    }),
+  })
+
+  const stride = Math.max(1, Math.ceil(raw.length / MAX_SAMPLES))
+  const samples = raw.filter((_, i) => i % stride === 0 || i === raw.length - 1)
+
+  return {
+    deltaVms: outcome.deltaV * 1000,
+    deliveredDeltaVms: outcome.delivered * 1000,
+    complete: outcome.complete,
+    transferDays: outcome.tSec / SEC_PER_DAY,
+    thrustingDays: outcome.thrustSec / SEC_PER_DAY,
+    eclipseCoastDays: outcome.eclipseSec / SEC_PER_DAY,
+    eclipsePasses: outcome.eclipsePasses,
+    propellantKg: outcome.propellantKg,
+    finalMassKg: startMassKg - outcome.propellantKg,
+    finalAltitudeKm: outcome.rKm - R_EARTH_EQUATORIAL,
+    finalInclinationDeg: startInclinationDeg + incSign * outcome.incChangeRad * RAD2DEG,
+    thrustN,
+    throttle,
+    efficiency: thrusterEfficiency(propulsion),
+    samples,
+  }
+}
+
+// ─── Interplanetary ───
+
+/**
+ * Low-thrust interplanetary estimate: escape spiral from the parking orbit,
+ * coplanar heliocentric Edelbaum arc from 1 AU to the target's mean
+ * distance, and (orbiters/landers) a capture spiral down to the arrival
+ * orbit. Array power, and so thrust, scales with 1/r² from its 1 AU value.
+ */
+export function computeInterplanetaryLowThrust(
+  params: InterplanetaryParams,
+  propulsion: PropulsionConfig,
+  dutyCycle: number,
+  massKg: number,
+  availablePowerW: number,
+): InterplanetaryLowThrustResult {
+  const planet = PLANET_DATA[params.targetBody]
+  const ispS = propulsion.specificImpulse
+  const powerAt = (sunDistanceKm: number) => availablePowerW * (AU_KM / sunDistanceKm) ** 2
+  let mass = massKg
+  let propLeft = propulsion.propellantMass
+  let complete = true
+
+  const fly = (leg: Omit<SpiralLeg, 'massKg' | 'propellantKg' | 'ispS' | 'dutyCycle'>): SpiralOutcome => {
+    const outcome = integrateSpiral({ ...leg, massKg: mass, propellantKg: propLeft, ispS, dutyCycle })
+    mass -= outcome.propellantKg
+    propLeft -= outcome.propellantKg
+    complete = complete && outcome.complete
+    return outcome
+  }
+
+  const escape = fly({
+    mu: MU_EARTH_KM,
+    r0: R_EARTH_EQUATORIAL + params.departureAltKm,
+    r1: Infinity,
+    deltaIncRad: 0,
+    thrustAt: () => electricThrust(propulsion, availablePowerW),
+    eclipseAt: (r) => Math.asin(Math.min(1, R_EARTH_EQUATORIAL / r)) / Math.PI,
+  })
+  const cruise = fly({
+    mu: MU_SUN,
+    r0: EARTH_ORBITAL_DATA.semiMajorAxisKm,
+    r1: planet.semiMajorAxisKm,
+    deltaIncRad: 0,
+    thrustAt: (r) => electricThrust(propulsion, powerAt(r)),
+    eclipseAt: () => 0,
+  })
+
+  let capture: SpiralOutcome | null = null
+  if (params.missionType !== 'flyby') {
+    // Time-reversed escape: the same ΔV and duration as spiralling out from the arrival orbit
+    capture = fly({
+      mu: planet.mu,
+      r0: planet.radiusKm + params.arrivalOrbitAltKm,
+      r1: Infinity,
+      deltaIncRad: 0,
+      thrustAt: () => electricThrust(propulsion, powerAt(planet.semiMajorAxisKm)),
+      eclipseAt: (r) => Math.asin(Math.min(1, planet.radiusKm / r)) / Math.PI,
+    })
+  }
+
+  const escapeDays = escape.tSec / SEC_PER_DAY
+  const heliocentricDays = cruise.tSec / SEC_PER_DAY
+  const captureDays = capture ? capture.tSec / SEC_PER_DAY : 0
+  return {
+    escapeDeltaVms: escape.deltaV * 1000,
+    heliocentricDeltaVms: cruise.deltaV * 1000,
+    captureDeltaVms: capture ? capture.deltaV * 1000 : 0,
+    totalDeltaVms: (escape.deltaV + cruise.deltaV + (capture?.deltaV ?? 0)) * 1000,
+    escapeDays,
+    heliocentricDays,
+    captureDays,
+    totalDays: escapeDays + heliocentricDays + captureDays,
+    propellantKg: propulsion.propellantMass - propLeft,
+    complete,
+  }
+}
@@ -0,0 +1,506 @@
+/**
+ * Low lunar orbit stability and lifetime.
+ *
+ * Propagates the target lunar orbit in a Moon-centred J2000 frame with
+ * RK4 under the bundled lunar gravity field (gravity-field.ts, rotated
+ * through the IAU lunar orientation model) plus Earth and Sun third-body
+ * attraction from the ephemeris. Three studies come out of one run:
+ *
+ *   - Free drift: osculating periselene/aposelene history and the impact
+ *     date if the orbit decays into the surface within the span.
+ *   - Frozen-inclination scan: the same drift at each inclination of a
+ *     grid; inclinations where the eccentricity excursion has a local
+ *     minimum are reported as frozen.
+ *   - Station keeping: whenever the mean periselene (semi-major axis and
+ *     eccentricity vector averaged over the last half sidereal month, which
+ *     removes both the per-orbit terms and the fortnightly Earth tide)
+ *     sinks past the deadband below the target altitude, a two-burn
+ *     correction takes the mean orbit back to the circular target. It is
+ *     applied as an instantaneous change that keeps the orbit plane, the
+ *     argument of latitude and the periodic terms, so periodic periselene
+ *     dips don't trigger burns. ΔV is annualized.
+ *
+ * The bundled field holds the zonals through J7 but only C22 and the
+ * degree-3 tesserals — not a full 7×7 truncation. That captures the
+ * long-period eccentricity forcing of the odd zonals and degree-3
+ * tesserals that drives most low lunar orbits into the surface, but
+ * leaves out the degree 4–7 tesserals and cannot represent mascons
+ * (resolving them needs degree 50+), so below roughly 100 km lifetimes
+ * and station-keeping ΔV are optimistic.
+ *
+ * Inclination, node and argument of periselene are measured in the lunar
+ * equator of date, the node from the IAU node of that equator on the
+ * J2000 equator. The orbit starts circular on the launch date.
+ *
+ * Standalone physics module — no UI dependencies.
+ */
+
+import { gravityField, harmonicAcceleration } from './gravity-field'
+import type { GravityField } from './gravity-field'
+import { moonPositionEci, sunPositionEci } from './ephemeris'
+import { MOON_ORBITAL_PERIOD_S, MU_MOON, MU_SUN, R_MOON } from './beyond-leo-constants'
+import { DEG2RAD, RAD2DEG, MU_EARTH_KM, SEC_PER_DAY, JD_J2000, DAYS_PER_CENTURY } from './constants'
+import { dateToJulian } from './time-utils'
+import type { LunarParams } from '@/types/beyond-leo'
+
+// ─── Types ───
+
+export interface LunarStabilityConfig {
+  durationDays: number     // free-drift and station-keeping span
+  maxDegree: number        // field truncation (capped at the coefficient file's degree)
+  earthThirdBody: boolean
+  sunThirdBody: boolean
+  raanDeg: number          // node on the lunar equator at epoch
+  skDeadbandKm: number     // periselene may sink this far below the target altitude
+  scanStepDeg: number      // frozen-inclination scan spacing
+  scanDays: number         // drift span per scanned inclination
+}
+
+export const DEFAULT_LUNAR_STABILITY_CONFIG: LunarStabilityConfig = {
+  durationDays: 365,
+  maxDegree: 7,
+  earthThirdBody: true,
+  sunThirdBody: true,
+  raanDeg: 0,
+  skDeadbandKm: 20,
+  scanStepDeg: 5,
+  scanDays: 60,
+}
+
+export interface LunarOrbitSample {
+  day: number
+  periAltKm: number        // osculating
+  apoAltKm: number
+  eccentricity: number
+  incDeg: number
+  argPeriDeg: number
+}
+
+export interface LunarSkManeuver {
+  day: number
+  dvMs: number
+  periAltKm: number        // mean periselene altitude that triggered the correction
+}
+
+export interface FrozenScanPoint {
+  incDeg: number
+  maxEccentricity: number
+  minPeriAltKm: number
+  impactDay: number | null
+}
+
+export interface LunarStabilityResult {
+  // Lunar params the analysis was run for
+  targetOrbitAltKm: number
+  targetOrbitIncDeg: number
+  launchDateISO: string
+  config: LunarStabilityConfig
+  fieldSource: string
+  fieldDegree: number      // truncation actually used
+  fieldOrder: number
+  periodMin: number
+  history: LunarOrbitSample[]
+  minPeriAltKm: number
+  impactDay: number | null
+  impactDateISO: string | null
+  scan: FrozenScanPoint[]
+  frozenIncDeg: number[]
+  skManeuvers: LunarSkManeuver[]
+  skDvPerYearMs: number
+  skManeuversPerYear: number
+}
+
+export function lunarStabilityMatchesParams(
+  stability: LunarStabilityResult | null | undefined,
+  params: LunarParams,
+  config: LunarStabilityConfig,
+): stability is LunarStabilityResult {
+  return stability != null
+    && stability.targetOrbitAltKm === params.targetOrbitAltKm
+    && stability.targetOrbitIncDeg === params.targetOrbitIncDeg
+    && stability.launchDateISO === params.launchDateISO
+    && (Object.keys(config) as Array<keyof LunarStabilityConfig>)
+      .every((key) => stability.config[key] === config[key])
+}
+
+// ─── Lunar orientation ───
+
+type V3 = [number, number, number]
+
+const dot = (a: V3, b: V3) => a[0] * b[0] + a[1] * b[1] + a[2] * b[2]
+const cross = (a: V3, b: V3): V3 => [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]]
+const norm = (a: V3) => Math.sqrt(dot(a, a))
+
+interface LunarFrame {
+  node: V3   // ascending node of the lunar equator on the J2000 equator
+  q: V3      // pole × node
+  pole: V3
+  x: V3      // body-fixed axes (prime meridian, 90°E, pole)
+  y: V3
+}
+
+/** IAU (Archinal et al. 2011) lunar pole and prime meridian, dominant terms */
+function lunarFrame(jd: number): LunarFrame {
+  const d = jd - JD_J2000
+  const T = d / DAYS_PER_CENTURY
+  const E1 = (125.045 - 0.0529921 * d) * DEG2RAD
+  const E2 = (250.089 - 0.1059842 * d) * DEG2RAD
+  const E3 = (260.008 + 13.0120009 * d) * DEG2RAD
+  const E4 = (176.625 + 13.3407154 * d) * DEG2RAD
+  const E5 = (357.529 + 0.9856003 * d) * DEG2RAD
+  const ra = (269.9949 + 0.0031 * T - 3.8787 * Math.sin(E1) - 0.1204 * Math.sin(E2)
+    + 0.07 * Math.sin(E3) - 0.0172 * Math.sin(E4)) * DEG2RAD
+  const dec = (66.5392 + 0.013 * T + 1.5419 * Math.cos(E1) + 0.0239 * Math.cos(E2)
+    - 0.0278 * Math.cos(E3) + 0.0068 * Math.cos(E4)) * DEG2RAD
+  const W = (38.3213 + 13.17635815 * d + 3.561 * Math.sin(E1) + 0.1208 * Math.sin(E2)
+    - 0.0642 * Math.sin(E3) + 0.0158 * Math.sin(E4) + 0.0252 * Math.sin(E5)) * DEG2RAD
+  const pole: V3 = [Math.cos(dec) * Math.cos(ra), Math.cos(dec) * Math.sin(ra), Math.sin(dec)]
+  const node: V3 = [-Math.sin(ra), Math.cos(ra), 0]
+  const q = cross(pole, node)
+  const cw = Math.cos(W), sw = Math.sin(W)
+  return {
+    node,
+    q,
+    pole,
+    x: [cw * node[0] + sw * q[0], cw * node[1] + sw * q[1], cw * node[2] + sw * q[2]],
+    y: [-sw * node[0] + cw * q[0], -sw * node[1] + cw * q[1], -sw * node[2] + cw * q[2]],
+  }
+}
+
+// ─── Dynamics ───
+
+const STEPS_PER_ORBIT = 120
+const MAX_SAMPLES = 400
+// Station keeping acts on elements averaged over the Earth tide period seen from the Moon
+const MEAN_WINDOW_SEC = MOON_ORBITAL_PERIOD_S / 2
+
+interface Environment {
+  frame: LunarFrame
+  earth: V3 | null   // Moon-centred
+  sun: V3 | null
+}
+
+interface Model {
+  field: GravityField
+  degree: number
+  order: number
+  config: LunarStabilityConfig
+}
+
+function environment(model: Model, jd: number): Environment {
+  const moon = model.config.earthThirdBody || model.config.sunThirdBody ? moonPositionEci(jd) : null
+  let sun: V3 | null = null
+  if (model.config.sunThirdBody && moon) {
+    const s = sunPositionEci(jd)
+    sun = [s.x - moon.x, s.y - moon.y, s.z - moon.z]
+  }
+  return {
+    frame: lunarFrame(jd),
+    earth: model.config.earthThirdBody && moon ? [-moon.x, -moon.y, -moon.z] : null,
+    sun,
+  }
+}
+
+const harmonic = new Float64Array(3)
+
+function thirdBody(mu: number, body: V3, r: V3, a: number[]) {
+  const dx = body[0] - r[0], dy = body[1] - r[1], dz = body[2] - r[2]
+  const d3 = Math.pow(dx * dx + dy * dy + dz * dz, 1.5)
+  const b3 = Math.pow(dot(body, body), 1.5)
+  a[0] += mu * (dx / d3 - body[0] / b3)
+  a[1] += mu * (dy / d3 - body[1] / b3)
+  a[2] += mu * (dz / d3 - body[2] / b3)
+}
+
+function derivative(model: Model, env: Environment, s: number[]): number[] {
+  const r: V3 = [s[0], s[1], s[2]]
+  const rMag = norm(r)
+  const k = -MU_MOON / (rMag * rMag * rMag)
+  const a = [k * r[0], k * r[1], k * r[2]]
+
+  const { x, y, pole } = env.frame
+  harmonicAcceleration(model.field, dot(x, r), dot(y, r), dot(pole, r), model.degree, model.order, harmonic)
+  for (let i = 0; i < 3; i++) a[i] += harmonic[0] * x[i] + harmonic[1] * y[i] + harmonic[2] * pole[i]
+
+  if (env.earth) thirdBody(MU_EARTH_KM, env.earth, r, a)
+  if (env.sun) thirdBody(MU_SUN, env.sun, r, a)
+  return [s[3], s[4], s[5], a[0], a[1], a[2]]
+}
+
+function rk4(model: Model, s: number[], h: number, e0: Environment, eMid: Environment, e1: Environment): number[] {
+  const k1 = derivative(model, e0, s)
+  const k2 = derivative(model, eMid, s.map((v, i) => v + 0.5 * h * k1[i]))
+  const k3 = derivative(model, eMid, s.map((v, i) => v + 0.5 * h * k2[i]))
+  const k4 = derivative(model, e1, s.map((v, i) => v + h * k3[i]))
+  return s.map((v, i) => v + h / 6 * (k1[i] + 2 * k2[i] + 2 * k3[i] + k4[i]))
+}
+
+// ─── Elements ───
+
+interface LunarElements {
+  a: number
+  e: number
+  eVec: V3                 // eccentricity vector, J2000
+  incDeg: number
+  argPeriDeg: number
+}
+
+function elements(s: number[], frame: LunarFrame): LunarElements {
+  const r: V3 = [s[0], s[1], s[2]]
+  const v: V3 = [s[3], s[4], s[5]]
+  const rMag = norm(r)
+  const v2 = dot(v, v)
+  const rv = dot(r, v)
+  const h = cross(r, v)
+  const hMag = norm(h)
+  const eVec = r.map((ri, i) => ((v2 - MU_MOON / rMag) * ri - rv * v[i]) / MU_MOON) as V3
+  const e = norm(eVec)
+  const incDeg = Math.acos(Math.max(-1, Math.min(1, dot(h, frame.pole) / hMag))) * RAD2DEG
+  let n = cross(frame.pole, h)
+  if (norm(n) < 1e-9 * hMag) n = frame.node
+  const argPeriDeg = e < 1e-9 ? 0
+    : ((Math.atan2(dot(cross(n, eVec), h) / hMag, dot(n, eVec)) * RAD2DEG + 360) % 360)
+  return { a: 1 / (2 / rMag - v2 / MU_MOON), e, eVec, incDeg, argPeriDeg }
+}
+
+/**
+ * State at the current position on the conic with semi-major axis a and
+ * eccentricity vector eVec, keeping the orbit plane and argument of latitude
+ */
+function stateOnConic(s: number[], a: number, eVec: V3): number[] {
+  const r: V3 = [s[0], s[1], s[2]]
+  const hVec = cross(r, [s[3], s[4], s[5]])
+  const hHat = hVec.map((c) => c / norm(hVec)) as V3
+  const rHat = r.map((c) => c / norm(r)) as V3
+  // Keep the eccentricity vector in the orbit plane
+  const eIn = eVec.map((c, k) => c - dot(eVec, hHat) * hHat[k]) as V3
+  const e = Math.min(norm(eIn), 0.99)
+  const P = e > 1e-12 ? eIn.map((c) => c / norm(eIn)) as V3 : rHat
+  const Q = cross(hHat, P)
+  const nu = Math.atan2(dot(rHat, Q), dot(rHat, P))
+  const p = a * (1 - e * e)
+  const rNew = p / (1 + e * Math.cos(nu))
+  const vk = Math.sqrt(MU_MOON / p)
+  return [
+    ...rHat.map((c) => c * rNew),
+    ...P.map((c, k) => vk * (-Math.sin(nu) * c + (e + Math.cos(nu)) * Q[k])),
+  ]
+}
+
+/** Circular orbit of radius rKm in the lunar equator of frame; argLat from the node */
+function circularState(rKm: number, incDeg: number, raanDeg: number, argLatRad: number, frame: LunarFrame): number[] {
+  const O = raanDeg * DEG2RAD
+  const i = incDeg * DEG2RAD
+  const nodeDir = frame.node.map((c, k) => Math.cos(O) * c + Math.sin(O) * frame.q[k]) as V3
+  const side = cross(frame.pole, nodeDir)
+  const normal = frame.pole.map((c, k) => Math.cos(i) * c - Math.sin(i) * side[k]) as V3
+  const inPlane = cross(normal, nodeDir)
+  const vc = Math.sqrt(MU_MOON / rKm)
+  const rHat = nodeDir.map((c, k) => Math.cos(argLatRad) * c + Math.sin(argLatRad) * inPlane[k])
+  const vHat = nodeDir.map((c, k) => -Math.sin(argLatRad) * c + Math.cos(argLatRad) * inPlane[k])
+  return [...rHat.map((c) => c * rKm), ...vHat.map((c) => c * vc)]
+}
+
+// ─── Drift runs ───
+
+interface DriftOptions {
+  startJd: number
+  durationSec: number
+  targetRadiusKm: number
+  deadbandKm: number | null          // station keeping on when set
+  sampleSec: number | null           // record history when set
+  onProgress?: (fraction: number) => void
+}
+
+interface DriftRun {
+  history: LunarOrbitSample[]
+  maxEccentricity: number
+  minPeriAltKm: number
+  impactSec: number | null
+  maneuvers: LunarSkManeuver[]
+}
+
+function drift(model: Model, initial: number[], opts: DriftOptions): DriftRun {
+  const period = 2 * Math.PI * Math.sqrt(opts.targetRadiusKm ** 3 / MU_MOON)
+  const steps = Math.ceil(opts.durationSec / (period / STEPS_PER_ORBIT))
+  const h = opts.durationSec / steps
+  const hDays = h / SEC_PER_DAY
+  const history: LunarOrbitSample[] = []
+  const maneuvers: LunarSkManeuver[] = []
+  let maxEccentricity = 0
+  let minPeriAltKm = Infinity
+  let nextSample = 0
+  let s = initial
+  let env0 = environment(model, opts.startJd)
+
+  // Ring buffer of osculating a and eccentricity vector, for the mean elements
+  const windowSteps = Math.max(STEPS_PER_ORBIT, Math.round(MEAN_WINDOW_SEC / h))
+  const windowA = opts.deadbandKm != null ? new Float64Array(windowSteps) : null
+  const windowE = opts.deadbandKm != null ? new Float64Array(3 * windowSteps) : null
+  let filled = 0
+  let head = 0
+  let sumA = 0
+  const sumE: V3 = [0, 0, 0]
+
+  const record = (t: number, el: LunarElements) => {
+    history.push({
+      day: t / SEC_PER_DAY,
+      periAltKm: el.a * (1 - el.e) - R_MOON,
+      apoAltKm: el.a * (1 + el.e) - R_MOON,
+      eccentricity: el.e,
+      incDeg: el.incDeg,
+      argPeriDeg: el.argPeriDeg,
+    })
+  }
+
+  for (let j = 0; j < steps; j++) {
+    const t = j * h
+    const jd = opts.startJd + j * hDays
+    const el = elements(s, env0.frame)
+    const periAlt = el.a * (1 - el.e) - R_MOON
+    maxEccentricity = Math.max(maxEccentricity, el.e)
+    minPeriAltKm = Math.min(minPeriAltKm, periAlt)
+    if (opts.sampleSec != null && t >= nextSample) {
+      record(t, el)
+      nextSample += opts.sampleSec
+    }
+
+    if (windowA && windowE) {
+      if (filled === windowSteps) {
+        sumA -= windowA[head]
+        for (let k = 0; k < 3; k++) sumE[k] -= windowE[3 * head + k]
+      } else {
+        filled++
+      }
+      windowA[head] = el.a
+      sumA += el.a
+      for (let k = 0; k < 3; k++) {
+        windowE[3 * head + k] = el.eVec[k]
+        sumE[k] += el.eVec[k]
+      }
+      head = (head + 1) % windowSteps
+    }
+
+    if (opts.deadbandKm != null && filled === windowSteps) {
+      const aMean = sumA / windowSteps
+      const eMeanVec = sumE.map((c) => c / windowSteps) as V3
+      const eMean = norm(eMeanVec)
+      const meanPeriAlt = aMean * (1 - eMean) - R_MOON
+      if (meanPeriAlt < opts.targetRadiusKm - R_MOON - opts.deadbandKm) {
+        // Raise mean periselene to the target at aposelene, then circularize there
+        const rp = aMean * (1 - eMean)
+        const ra = aMean * (1 + eMean)
+        const rt = opts.targetRadiusKm
+        const dv1 = Math.abs(Math.sqrt(MU_MOON * (2 / ra - 2 / (ra + rt))) - Math.sqrt(MU_MOON * (2 / ra - 2 / (ra + rp))))
+        const dv2 = Math.abs(Math.sqrt(MU_MOON / rt) - Math.sqrt(MU_MOON * (2 / rt - 2 / (ra + rt))))
+        maneuvers.push({ day: t / SEC_PER_DAY, dvMs: (dv1 + dv2) * 1000, periAltKm: meanPeriAlt })
+        // Remove the mean offsets, keep the short-period terms
+        s = stateOnConic(s, el.a - aMean + rt, el.eVec.map((c, k) => c - eMeanVec[k]) as V3)
+        filled = 0
+        head = 0
+        sumA = 0
+        sumE.fill(0)
+      }
+    }
+
+    const envMid = environment(model, jd + 0.5 * hDays)
+    const env1 = environment(model, jd + hDays)
+    const next = rk4(model, s, h, env0, envMid, env1)
+    const r0 = norm([s[0], s[1], s[2]])
+    const r1 = norm([next[0], next[1], next[2]])
+    if (r1 < R_MOON || !Number.isFinite(r1)) {
+      const frac = Number.isFinite(r1) ? Math.max(0, Math.min(1, (r0 - R_MOON) / (r0 - r1))) : 0
+      return { history, maxEccentricity, minPeriAltKm: Math.min(minPeriAltKm, 0), impactSec: t + frac * h, maneuvers }
+    }
+    s = next
+    env0 = env1
+    if (opts.onProgress && j % 2000 === 0) opts.onProgress(j / steps)
+  }
+  if (opts.sampleSec != null) record(opts.durationSec, elements(s, env0.frame))
+  return { history, maxEccentricity, minPeriAltKm, impactSec: null, maneuvers }
+}
+
+// ─── Analysis ───
+
+export function runLunarStability(
+  params: LunarParams,
+  config: LunarStabilityConfig,
+  onProgress?: (fraction: number) => void,
+): LunarStabilityResult {
+  const field = gravityField('moon')
+  const degree = Math.max(2, Math.min(config.maxDegree, field.degree))
+  const model: Model = { field, degree, order: Math.min(field.order, degree), config }
+  const startJd = dateToJulian(new Date(params.launchDateISO))
+  const frame = lunarFrame(startJd)
+  const rt = R_MOON + params.targetOrbitAltKm
+  const periodSec = 2 * Math.PI * Math.sqrt(rt ** 3 / MU_MOON)
+  const durationSec = config.durationDays * SEC_PER_DAY
+
+  // Frozen-inclination scan (first half of the progress bar)
+  const scanIncs: number[] = []
+  for (let inc = 0; inc <= 90 + 1e-9; inc += Math.max(1, config.scanStepDeg)) scanIncs.push(inc)
+  const scan: FrozenScanPoint[] = scanIncs.map((incDeg, k) => {
+    const run = drift(model, circularState(rt, incDeg, config.raanDeg, 0, frame), {
+      startJd,
+      durationSec: config.scanDays * SEC_PER_DAY,
+      targetRadiusKm: rt,
+      deadbandKm: null,
+      sampleSec: null,
+      onProgress: onProgress && ((f) => onProgress(0.5 * (k + f) / scanIncs.length)),
+    })
+    return {
+      incDeg,
+      maxEccentricity: run.maxEccentricity,
+      minPeriAltKm: run.minPeriAltKm,
+      impactDay: run.impactSec != null ? run.impactSec / SEC_PER_DAY : null,
+    }
+  })
+  const frozenIncDeg = scan
+    .filter((p, k) => p.impactDay == null
+      && (k === 0 || p.maxEccentricity < scan[k - 1].maxEccentricity)
+      && (k === scan.length - 1 || p.maxEccentricity < scan[k + 1].maxEccentricity))
+    .map((p) => p.incDeg)
+
+  const initial = circularState(rt, params.targetOrbitIncDeg, config.raanDeg, 0, frame)
+  const free = drift(model, initial, {
+    startJd,
+    durationSec,
+    targetRadiusKm: rt,
+    deadbandKm: null,
+    sampleSec: Math.max(periodSec, durationSec / MAX_SAMPLES),
+    onProgress: onProgress && ((f) => onProgress(0.5 + 0.25 * f)),
+  })
+  const sk = drift(model, initial, {
+    startJd,
+    durationSec,
+    targetRadiusKm: rt,
+    deadbandKm: Math.max(0.1, config.skDeadbandKm),
+    sampleSec: null,
+    onProgress: onProgress && ((f) => onProgress(0.75 + 0.25 * f)),
+  })
+  onProgress?.(1)
+
+  const years = config.durationDays / 365.25
+  const impactDay = free.impactSec != null ? free.impactSec / SEC_PER_DAY : null
+  return {
+    targetOrbitAltKm: params.targetOrbitAltKm,
+    targetOrbitIncDeg: params.targetOrbitIncDeg,
+    launchDateISO: params.launchDateISO,
+    config,
+    fieldSource: field.source,
+    fieldDegree: degree,
+    fieldOrder: model.order,
+    periodMin: periodSec / 60,
+    history: free.history,
+    minPeriAltKm: free.minPeriAltKm,
+    impactDay,
+    impactDateISO: impactDay != null
+      ? new Date(new Date(params.launchDateISO).getTime() + impactDay * SEC_PER_DAY * 1000).toISOString()
+      : null,
+    scan,
+    frozenIncDeg,
+    skManeuvers: sk.maneuvers,
+    skDvPerYearMs: sk.maneuvers.reduce((sum, m) => sum + m.dvMs, 0) / years,
+    skManeuversPerYear: sk.maneuvers.length / years,
+  }
+}
@@ -0,0 +1,720 @@
+/**
+ * Patched-conic lunar transfer targeting against the ephemeris Moon.
+ *
+ * The fixed-distance estimates in lunar-transfer.ts assume a Moon parked
+ * at 384,400 km. Here every candidate transfer is built for the Moon's
+ * real position and velocity at arrival:
+ *
+ *   - Earth conic: a tangential TLI from the circular parking orbit whose
+ *     plane contains the arrival Moon position. The parking inclination
+ *     constrains that plane; when the Moon's declination exceeds it the
+ *     extra plane change is paid at TLI.
+ *   - Lunar hyperbola: the arrival V∞ relative to the Moon, aimed in the
+ *     B-plane for the requested perilune altitude and selenographic
+ *     inclination (orbit/landing) or a retrograde pass behind the Moon
+ *     (flyby/free-return). Inclinations below the V∞ declination are not
+ *     reachable and are made up by a plane change at LOI.
+ *
+ * Daily TLI opportunities over the window come from the patched conic.
+ * The launch-date opportunity is then targeted exactly: the TLI speed and
+ * its position in the parking orbit (argument of latitude, RAAN) are
+ * differentially corrected through an Earth + Moon point-mass propagation
+ * until the osculating lunar B-plane hits the aim point, and perilune
+ * altitude, arrival inclination and flight time are read off the
+ * converged trajectory.
+ *
+ * Frames: geocentric J2000 equatorial; the lunar pole is the IAU mean pole.
+ *
+ * Standalone physics module — no UI dependencies.
+ */
+
+import { MU_MOON, R_MOON } from './beyond-leo-constants'
+import { MU_EARTH_KM, R_EARTH_EQUATORIAL, DEG2RAD, RAD2DEG, SEC_PER_DAY } from './constants'
+import { moonStateEci } from './ephemeris'
+import { LUNAR_DESCENT_DELTAV_MS } from './lunar-transfer'
+import type { LunarMissionType, LunarParams, LunarTransferType } from '@/types/beyond-leo'
+
+// ─── Types ───
+
+export interface LunarTargetingConfig {
+  windowDays: number       // daily TLI opportunities listed from the launch date
+  minFlightDays: number    // TLI to perilune
+  maxFlightDays: number
+}
+
+export const DEFAULT_LUNAR_TARGETING_CONFIG: LunarTargetingConfig = {
+  windowDays: 30,
+  minFlightDays: 3,
+  maxFlightDays: 5,
+}
+
+/** Best patched-conic transfer for one launch day */
+export interface TliOpportunity {
+  tliDateISO: string
+  arrivalDateISO: string
+  flightDays: number
+  tliDeltaVms: number
+  planeChangeDeltaVms: number   // part of the TLI ΔV spent turning out of the parking plane
+  loiDeltaVms: number
+  totalDeltaVms: number
+  vInfKms: number               // arrival V∞ relative to the Moon
+  moonDistanceKm: number        // at arrival
+  moonDeclinationDeg: number    // at arrival
+}
+
+export interface TargetedLunarTransfer {
+  tliDateISO: string
+  periluneDateISO: string
+  flightDays: number
+  tliDeltaVms: number
+  planeChangeDeltaVms: number
+  loiDeltaVms: number
+  totalDeltaVms: number
+  periluneAltKm: number
+  arrivalIncDeg: number         // selenographic, of the approach hyperbola
+  insertionPlaneChangeDeg: number  // target inclination not reachable on the approach
+  vInfKms: number
+  transferIncDeg: number        // Earth-relative plane of the TLI arc
+  raanDeg: number               // parking-orbit RAAN at TLI
+  argLatDeg: number             // TLI point in the parking orbit
+  phaseAngleDeg: number         // Moon lead over the TLI point, in the direction of motion
+  moonDistanceKm: number        // at perilune
+  iterations: number
+  converged: boolean
+  missKm: number                // final B-plane miss
+  profile: { day: number; distanceKm: number }[]
+}
+
+export interface LunarTargetingResult {
+  missionType: LunarMissionType
+  transferType: LunarTransferType
+  departureAltKm: number
+  parkingOrbitIncDeg: number
+  targetOrbitAltKm: number
+  targetOrbitIncDeg: number
+  closestApproachAltKm: number
+  launchDateISO: string
+  config: LunarTargetingConfig
+  opportunities: (TliOpportunity | null)[]
+  best: TliOpportunity | null
+  targeted: TargetedLunarTransfer | null
+}
+
+export function lunarTargetingMatchesParams(
+  targeting: LunarTargetingResult | null | undefined,
+  params: LunarParams,
+): targeting is LunarTargetingResult {
+  return targeting != null
+    && targeting.missionType === params.missionType
+    && targeting.transferType === params.transferType
+    && targeting.departureAltKm === params.departureAltKm
+    && targeting.parkingOrbitIncDeg === params.parkingOrbitIncDeg
+    && targeting.targetOrbitAltKm === params.targetOrbitAltKm
+    && targeting.targetOrbitIncDeg === params.targetOrbitIncDeg
+    && targeting.closestApproachAltKm === params.closestApproachAltKm
+    && targeting.launchDateISO === params.launchDateISO
+}
+
+// ─── Vector helpers ───
+
+type V3 = [number, number, number]
+
+const dot = (a: V3, b: V3) => a[0] * b[0] + a[1] * b[1] + a[2] * b[2]
+const cross = (a: V3, b: V3): V3 => [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]]
+const norm = (a: V3) => Math.sqrt(dot(a, a))
+const scale = (a: V3, k: number): V3 => [a[0] * k, a[1] * k, a[2] * k]
+const add = (a: V3, b: V3): V3 => [a[0] + b[0], a[1] + b[1], a[2] + b[2]]
+const sub = (a: V3, b: V3): V3 => [a[0] - b[0], a[1] - b[1], a[2] - b[2]]
+const unit = (a: V3): V3 => scale(a, 1 / norm(a))
+
+// IAU mean lunar pole (J2000 equatorial)
+const POLE_RA = 269.9949 * DEG2RAD
+const POLE_DEC = 66.5392 * DEG2RAD
+const LUNAR_POLE: V3 = [Math.cos(POLE_DEC) * Math.cos(POLE_RA), Math.cos(POLE_DEC) * Math.sin(POLE_RA), Math.sin(POLE_DEC)]
+const Z_AXIS: V3 = [0, 0, 1]
+
+function moonState(ms: number): { pos: V3; vel: V3 } {
+  const s = moonStateEci(new Date(ms))
+  return { pos: [s.pos.x, s.pos.y, s.pos.z], vel: [s.vel.x, s.vel.y, s.vel.z] }
+}
+
+/** Combined burn turning speed v0 into v1 through angle Δ */
+function combinedBurn(v0: number, v1: number, angleRad: number): number {
+  return Math.sqrt(Math.max(0, v0 * v0 + v1 * v1 - 2 * v0 * v1 * Math.cos(angleRad)))
+}
+
+// ─── Mission geometry ───
+
+interface ArrivalTarget {
+  periluneRadiusKm: number
+  incDeg: number
+  capture: 'orbit' | 'landing' | null
+}
+
+/** Orbit/landing aim for the target orbit; flyby and free-return pass retrograde behind the Moon */
+function arrivalTarget(params: LunarParams): ArrivalTarget {
+  switch (params.missionType) {
+    case 'orbit':
+    case 'landing':
+      return {
+        periluneRadiusKm: R_MOON + params.targetOrbitAltKm,
+        incDeg: params.targetOrbitIncDeg,
+        capture: params.missionType,
+      }
+    default:
+      return { periluneRadiusKm: R_MOON + params.closestApproachAltKm, incDeg: 180, capture: null }
+  }
+}
+
+/** Selenographic inclinations reachable from V∞ direction ŝ, and the one closest to the target */
+function achievableInclination(sHat: V3, targetIncDeg: number): { incDeg: number; sinDec: number } {
+  const sinDec = dot(sHat, LUNAR_POLE)
+  const minInc = Math.asin(Math.min(1, Math.abs(sinDec))) * RAD2DEG
+  return { incDeg: Math.min(180 - minInc, Math.max(minInc, targetIncDeg)), sinDec }
+}
+
+/** Insertion ΔV (m/s) for an arrival V∞ (km/s) */
+function insertionDeltaV(vInf: V3, target: ArrivalTarget): { loiMs: number; planeChangeDeg: number } {
+  if (!target.capture) return { loiMs: 0, planeChangeDeg: 0 }
+  const vInfMag = norm(vInf)
+  const { incDeg } = achievableInclination(scale(vInf, 1 / vInfMag), target.incDeg)
+  const planeChangeDeg = Math.abs(target.incDeg - incDeg)
+  const rp = target.periluneRadiusKm
+  const vHyp = Math.sqrt(vInfMag * vInfMag + 2 * MU_MOON / rp)
+  const vCirc = Math.sqrt(MU_MOON / rp)
+  const loi = combinedBurn(vHyp, vCirc, planeChangeDeg * DEG2RAD) * 1000
+  return { loiMs: loi + (target.capture === 'landing' ? LUNAR_DESCENT_DELTAV_MS : 0), planeChangeDeg }
+}
+
+// ─── Earth conic ───
+
+/** Normals of the planes through the origin containing û at inclination i (two solutions) */
+function planeNormals(u: V3, incRad: number): V3[] {
+  const zPerp = sub(Z_AXIS, scale(u, u[2]))
+  const cosDec = norm(zPerp)
+  if (cosDec < 1e-9) return []
+  const e1 = scale(zPerp, 1 / cosDec)
+  const e2 = cross(u, e1)
+  const c = Math.min(1, Math.cos(incRad) / cosDec)
+  const s = Math.sqrt(Math.max(0, 1 - c * c))
+  return [add(scale(e1, c), scale(e2, s)), add(scale(e1, c), scale(e2, -s))]
+}
+
+/** Time from periapsis (rP) to radius r on the outbound leg of a conic of eccentricity e */
+function timeToRadius(rP: number, r: number, e: number): number {
+  if (e < 1) {
+    const a = rP / (1 - e)
+    const E = Math.acos(Math.max(-1, Math.min(1, (1 - r / a) / e)))
+    return (E - e * Math.sin(E)) * Math.sqrt(a * a * a / MU_EARTH_KM)
+  }
+  const a = rP / (e - 1)
+  const H = Math.acosh(Math.max(1, (1 + r / a) / e))
+  return (e * Math.sinh(H) - H) * Math.sqrt(a * a * a / MU_EARTH_KM)
+}
+
+interface EarthConic {
+  normal: V3
+  incRad: number               // plane inclination actually flown
+  perigeeDir: V3
+  vPerigee: number             // km/s
+  vArrival: V3                 // km/s, at the target point
+  tliMs: number
+  planeChangeMs: number
+}
+
+/**
+ * Tangential-TLI conic from the parking orbit to a target point in the
+ * given flight time, in the plane with normal `normal`. Null when the
+ * flight time exceeds the Hohmann time to that radius.
+ */
+function earthConic(
+  rPark: number, target: V3, flightSec: number, normal: V3, incRad: number, parkIncRad: number,
+): EarthConic | null {
+  const rT = norm(target)
+  const u = scale(target, 1 / rT)
+  const eMin = (rT - rPark) / (rT + rPark)
+  if (timeToRadius(rPark, rT, eMin + 1e-9) < flightSec) return null
+
+  // Flight time falls with eccentricity; bisect for the conic that arrives on time
+  let lo = eMin + 1e-9
+  let hi = 3
+  if (timeToRadius(rPark, rT, hi) > flightSec) return null
+  for (let i = 0; i < 60; i++) {
+    const mid = 0.5 * (lo + hi)
+    if (timeToRadius(rPark, rT, mid) > flightSec) lo = mid
+    else hi = mid
+  }
+  const e = 0.5 * (lo + hi)
+  const p = rPark * (1 + e)
+  const cosNu = Math.max(-1, Math.min(1, (p / rT - 1) / e))
+  const nu = Math.acos(cosNu)
+  const sinNu = Math.sin(nu)
+
+  const along = cross(normal, u)
+  const perigeeDir = sub(scale(u, cosNu), scale(along, sinNu))
+  const vPerigee = Math.sqrt(MU_EARTH_KM * (1 + e) / rPark)
+  const k = Math.sqrt(MU_EARTH_KM / p)
+  const vArrival = add(scale(u, k * e * sinNu), scale(along, k * (1 + e * cosNu)))
+
+  const vCirc = Math.sqrt(MU_EARTH_KM / rPark)
+  const planeChange = Math.max(0, incRad - parkIncRad)
+  const tliMs = combinedBurn(vCirc, vPerigee, planeChange) * 1000
+  return {
+    normal, incRad, perigeeDir, vPerigee, vArrival, tliMs,
+    planeChangeMs: Math.max(0, tliMs - (vPerigee - vCirc) * 1000),
+  }
+}
+
+/** Plane inclination to fly for an arrival direction: the parking inclination, or the declination if higher */
+function transferInclination(u: V3, parkIncRad: number): number {
+  const dec = Math.asin(Math.max(-1, Math.min(1, u[2])))
+  return Math.max(parkIncRad, Math.abs(dec) + 1e-6)
+}
+
+// ─── Patched-conic opportunities ───
+
+interface ConicCandidate {
+  tliMs: number               // epoch
+  flightSec: number
+  conic: EarthConic
+  moon: { pos: V3; vel: V3 }
+  vInf: V3
+  loiMs: number
+  totalMs: number
+}
+
+function evaluateConic(
+  params: LunarParams, target: ArrivalTarget, tliEpochMs: number, flightSec: number,
+): ConicCandidate | null {
+  const rPark = R_EARTH_EQUATORIAL + params.departureAltKm
+  const parkInc = params.parkingOrbitIncDeg * DEG2RAD
+  const moon = moonState(tliEpochMs + flightSec * 1000)
+  const u = unit(moon.pos)
+  const inc = transferInclination(u, parkInc)
+
+  let best: ConicCandidate | null = null
+  for (const normal of planeNormals(u, inc)) {
+    const conic = earthConic(rPark, moon.pos, flightSec, normal, inc, parkInc)
+    if (!conic) continue
+    const vInf = sub(conic.vArrival, moon.vel)
+    const { loiMs } = insertionDeltaV(vInf, target)
+    const totalMs = conic.tliMs + loiMs
+    if (!best || totalMs < best.totalMs) {
+      best = { tliMs: tliEpochMs, flightSec, conic, moon, vInf, loiMs, totalMs }
+    }
+  }
+  return best
+}
+
+function toOpportunity(c: ConicCandidate): TliOpportunity {
+  const moonDist = norm(c.moon.pos)
+  return {
+    tliDateISO: new Date(c.tliMs).toISOString(),
+    arrivalDateISO: new Date(c.tliMs + c.flightSec * 1000).toISOString(),
+    flightDays: c.flightSec / SEC_PER_DAY,
+    tliDeltaVms: c.conic.tliMs,
+    planeChangeDeltaVms: c.conic.planeChangeMs,
+    loiDeltaVms: c.loiMs,
+    totalDeltaVms: c.totalMs,
+    vInfKms: norm(c.vInf),
+    moonDistanceKm: moonDist,
+    moonDeclinationDeg: Math.asin(c.moon.pos[2] / moonDist) * RAD2DEG,
+  }
+}
+
+const TLI_HOURS_PER_DAY = 24
+const FLIGHT_STEP_DAYS = 0.125
+
+/** Lowest-ΔV TLI hour and flight time within one launch day */
+function bestForDay(
+  params: LunarParams, target: ArrivalTarget, config: LunarTargetingConfig, dayStartMs: number,
+): ConicCandidate | null {
+  let best: ConicCandidate | null = null
+  for (let h = 0; h < TLI_HOURS_PER_DAY; h++) {
+    const tli = dayStartMs + h * 3600000
+    for (let f = config.minFlightDays; f <= config.maxFlightDays + 1e-9; f += FLIGHT_STEP_DAYS) {
+      const c = evaluateConic(params, target, tli, f * SEC_PER_DAY)
+      if (c && (!best || c.totalMs < best.totalMs)) best = c
+    }
+  }
+  return best
+}
+
+// ─── Earth + Moon propagation ───
+
+/** Cubic Hermite interpolation of the ephemeris Moon on hourly nodes (seconds from the TLI epoch) */
+function moonTrack(epochMs: number, spanSec: number): (tSec: number) => { pos: V3; vel: V3 } {
+  const dt = 3600
+  const n = Math.ceil(spanSec / dt) + 3
+  const nodes = Array.from({ length: n }, (_, i) => moonState(epochMs + (i - 1) * dt * 1000))
+  return (tSec) => {
+    const x = tSec / dt + 1
+    const i = Math.max(0, Math.min(n - 2, Math.floor(x)))
+    const s = x - i
+    const a = nodes[i]
+    const b = nodes[i + 1]
+    const h00 = 2 * s * s * s - 3 * s * s + 1
+    const h10 = s * s * s - 2 * s * s + s
+    const h01 = -2 * s * s * s + 3 * s * s
+    const h11 = s * s * s - s * s
+    const d00 = (6 * s * s - 6 * s) / dt
+    const d10 = 3 * s * s - 4 * s + 1
+    const d01 = (-6 * s * s + 6 * s) / dt
+    const d11 = 3 * s * s - 2 * s
+    const pos: V3 = [0, 0, 0]
+    const vel: V3 = [0, 0, 0]
+    for (let k = 0; k < 3; k++) {
+      pos[k] = h00 * a.pos[k] + h10 * dt * a.vel[k] + h01 * b.pos[k] + h11 * dt * b.vel[k]
+      vel[k] = d00 * a.pos[k] + d10 * a.vel[k] + d01 * b.pos[k] + d11 * b.vel[k]
+    }
+    return { pos, vel }
+  }
+}
+
+type Moon = ReturnType<typeof moonTrack>
+
+function accel(r: V3, moonPos: V3): V3 {
+  const rMag = norm(r)
+  const rel = sub(moonPos, r)
+  const relMag = norm(rel)
+  const mMag = norm(moonPos)
+  const kE = -MU_EARTH_KM / (rMag * rMag * rMag)
+  const kRel = MU_MOON / (relMag * relMag * relMag)
+  const kM = MU_MOON / (mMag * mMag * mMag)
+  return [
+    kE * r[0] + kRel * rel[0] - kM * moonPos[0],
+    kE * r[1] + kRel * rel[1] - kM * moonPos[1],
+    kE * r[2] + kRel * rel[2] - kM * moonPos[2],
+  ]
+}
+
+interface Encounter {
+  tSec: number       // closest approach, from TLI
+  rel: V3            // Moon-relative position (km)
+  relVel: V3         // Moon-relative velocity (km/s)
+  moonPos: V3
+  profile: { day: number; distanceKm: number }[]
+}
+
+const STEP_FRACTION = 0.01
+const MAX_STEP_SEC = 600
+const MIN_STEP_SEC = 0.5
+const PROFILE_POINTS = 150
+
+/** RK4 from TLI until closest approach to the Moon (or the time limit) */
+function propagateToMoon(r0: V3, v0: V3, moon: Moon, maxSec: number, withProfile: boolean): Encounter {
+  let t = 0
+  let r = r0
+  let v = v0
+  let prevRangeRate = -1
+  const profile: { day: number; distanceKm: number }[] = []
+  const profileEvery = maxSec / PROFILE_POINTS
+  let nextProfile = 0
+
+  const f = (tt: number, rr: V3, vv: V3): [V3, V3] => [vv, accel(rr, moon(tt).pos)]
+
+  for (;;) {
+    const m = moon(t)
+    const rel = sub(r, m.pos)
+    const relVel = sub(v, m.vel)
+    const rangeRate = dot(rel, relVel)
+    if (withProfile && t >= nextProfile) {
+      profile.push({ day: t / SEC_PER_DAY, distanceKm: norm(r) })
+      nextProfile += profileEvery
+    }
+    if ((prevRangeRate < 0 && rangeRate >= 0) || norm(rel) < 0.3 * R_MOON || t >= maxSec) {
+      if (withProfile) profile.push({ day: t / SEC_PER_DAY, distanceKm: norm(r) })
+      return { tSec: t, rel, relVel, moonPos: m.pos, profile }
+    }
+    prevRangeRate = rangeRate
+
+    const scaleSec = Math.min(norm(r) / norm(v), norm(rel) / norm(relVel))
+    const h = Math.min(maxSec - t, Math.max(MIN_STEP_SEC, Math.min(MAX_STEP_SEC, STEP_FRACTION * scaleSec)))
+    const [k1r, k1v] = f(t, r, v)
+    const [k2r, k2v] = f(t + h / 2, add(r, scale(k1r, h / 2)), add(v, scale(k1v, h / 2)))
+    const [k3r, k3v] = f(t + h / 2, add(r, scale(k2r, h / 2)), add(v, scale(k2v, h / 2)))
+    const [k4r, k4v] = f(t + h, add(r, scale(k3r, h)), add(v, scale(k3v, h)))
+    r = add(r, scale(add(add(k1r, scale(add(k2r, k3r), 2)), k4r), h / 6))
+    v = add(v, scale(add(add(k1v, scale(add(k2v, k3v), 2)), k4v), h / 6))
+    t += h
+  }
+}
+
+// ─── B-plane ───
+
+interface BPlane {
+  bt: number
+  br: number
+  sHat: V3
+  vInf: number
+  T: V3
+  R: V3
+  hHat: V3
+  periapsisKm: number
+}
+
+/** B-plane axes for incoming asymptote ŝ: T in the lunar equator, R = ŝ × T */
+function bPlaneAxes(sHat: V3): [V3, V3] {
+  const T = unit(cross(sHat, LUNAR_POLE))
+  return [T, cross(sHat, T)]
+}
+
+/** Osculating lunar B-plane of a Moon-relative state */
+function bPlane(rel: V3, relVel: V3): BPlane {
+  const h = cross(rel, relVel)
+  const hMag = norm(h)
+  const hHat = scale(h, 1 / hMag)
+  const rMag = norm(rel)
+  const eVec = sub(scale(cross(relVel, h), 1 / MU_MOON), scale(rel, 1 / rMag))
+  const e = norm(eVec)
+  const vInf2 = dot(relVel, relVel) - 2 * MU_MOON / rMag
+
+  let sHat: V3
+  let bVec: V3
+  let vInf: number
+  if (e > 1 + 1e-6 && vInf2 > 0) {
+    vInf = Math.sqrt(vInf2)
+    const eHat = scale(eVec, 1 / e)
+    sHat = add(scale(eHat, 1 / e), scale(cross(hHat, eHat), Math.sqrt(e * e - 1) / e))
+    bVec = scale(cross(sHat, hHat), hMag / vInf)
+  } else {
+    // Bound relative to the Moon: fall back to the miss vector normal to the current velocity
+    vInf = Math.sqrt(Math.max(vInf2, 1e-6))
+    sHat = unit(relVel)
+    bVec = sub(rel, scale(sHat, dot(rel, sHat)))
+  }
+  const [T, R] = bPlaneAxes(sHat)
+  return {
+    bt: dot(bVec, T),
+    br: dot(bVec, R),
+    sHat, vInf, T, R, hHat,
+    periapsisKm: (hMag * hMag / MU_MOON) / (1 + e),
+  }
+}
+
+/** B-plane aim point (B·T, B·R) for the arrival target, on the branch nearest the current angle */
+function aimPoint(sHat: V3, vInf: number, target: ArrivalTarget, currentAngle: number): [number, number] {
+  const rp = target.periluneRadiusKm
+  const bMag = rp * Math.sqrt(1 + 2 * MU_MOON / (rp * vInf * vInf))
+  const { incDeg, sinDec } = achievableInclination(sHat, target.incDeg)
+  const cosDec = Math.sqrt(Math.max(1e-12, 1 - sinDec * sinDec))
+  const theta = Math.acos(Math.max(-1, Math.min(1, Math.cos(incDeg * DEG2RAD) / cosDec)))
+  const d = (a: number) => Math.abs(Math.atan2(Math.sin(a - currentAngle), Math.cos(a - currentAngle)))
+  const angle = d(theta) <= d(-theta) ? theta : -theta
+  return [bMag * Math.cos(angle), bMag * Math.sin(angle)]
+}
+
+// ─── Differential correction ───
+
+interface TliState {
+  speed: number     // km/s
+  argLat: number    // rad
+  raan: number      // rad
+}
+
+function tliCartesian(rPark: number, inc: number, s: TliState): [V3, V3] {
+  const cO = Math.cos(s.raan)
+  const sO = Math.sin(s.raan)
+  const cu = Math.cos(s.argLat)
+  const su = Math.sin(s.argLat)
+  const ci = Math.cos(inc)
+  const si = Math.sin(inc)
+  const rHat: V3 = [cO * cu - sO * su * ci, sO * cu + cO * su * ci, su * si]
+  const tHat: V3 = [-cO * su - sO * cu * ci, -sO * su + cO * cu * ci, cu * si]
+  return [scale(rHat, rPark), scale(tHat, s.speed)]
+}
+
+/** Parking-orbit RAAN and TLI argument of latitude for a transfer plane and perigee direction */
+function tliGuess(conic: EarthConic): TliState {
+  const n = conic.normal
+  const node = unit([-n[1], n[0], 0])
+  const argLat = Math.atan2(dot(cross(node, conic.perigeeDir), n), dot(node, conic.perigeeDir))
+  return { speed: conic.vPerigee, argLat, raan: Math.atan2(n[0], -n[1]) }
+}
+
+const MAX_ITERATIONS = 20
+const TOLERANCE_KM = 1
+// Scales so one unit of each control is comparable: 1 m/s, 1 mrad, 1 mrad
+const CONTROL_SCALE = [1e-3, 1e-3, 1e-3]
+const FD_STEP = 1e-3       // in scaled units
+const MAX_CORRECTION = 50   // scaled units per iteration
+
+function applyControls(s: TliState, d: number[]): TliState {
+  return {
+    speed: s.speed + d[0] * CONTROL_SCALE[0],
+    argLat: s.argLat + d[1] * CONTROL_SCALE[1],
+    raan: s.raan + d[2] * CONTROL_SCALE[2],
+  }
+}
+
+function targetTransfer(
+  params: LunarParams, target: ArrivalTarget, seed: ConicCandidate,
+): TargetedLunarTransfer {
+  const rPark = R_EARTH_EQUATORIAL + params.departureAltKm
+  const parkInc = params.parkingOrbitIncDeg * DEG2RAD
+  const maxSec = seed.flightSec * 1.6
+  const moon = moonTrack(seed.tliMs, maxSec)
+  const inc = seed.conic.incRad
+
+  // Re-aim the conic from the Moon's centre to the B-plane aim point
+  const seedS = unit(seed.vInf)
+  const [seedT, seedR] = bPlaneAxes(seedS)
+  const [bt0, br0] = aimPoint(seedS, norm(seed.vInf), target, 0)
+  const aimOffset = add(scale(seedT, bt0), scale(seedR, br0))
+  const moonAtArrival = seed.moon.pos
+  const normals = planeNormals(unit(add(moonAtArrival, aimOffset)), inc)
+  const seedNormal = normals.reduce((a, b) => (dot(a, seed.conic.normal) >= dot(b, seed.conic.normal) ? a : b), seed.conic.normal)
+  const aimed = earthConic(rPark, add(moonAtArrival, aimOffset), seed.flightSec, seedNormal, inc, parkInc)
+  let state = tliGuess(aimed ?? seed.conic)
+
+  const evaluate = (s: TliState, withProfile = false) => {
+    const [r0, v0] = tliCartesian(rPark, inc, s)
+    const enc = propagateToMoon(r0, v0, moon, maxSec, withProfile)
+    return { enc, b: bPlane(enc.rel, enc.relVel) }
+  }
+
+  let iterations = 0
+  let current = evaluate(state)
+  let miss = Infinity
+  for (; iterations < MAX_ITERATIONS; iterations++) {
+    const { b } = current
+    const [btAim, brAim] = aimPoint(b.sHat, b.vInf, target, Math.atan2(b.br, b.bt))
+    const F = [b.bt - btAim, b.br - brAim]
+    miss = Math.hypot(F[0], F[1])
+    if (miss < TOLERANCE_KM) break
+
+    // Finite-difference Jacobian of (B·T, B·R) in the scaled controls
+    const J: number[][] = [[0, 0, 0], [0, 0, 0]]
+    for (let k = 0; k < 3; k++) {
+      const d = [0, 0, 0]
+      d[k] = FD_STEP
+      const pb = evaluate(applyControls(state, d)).b
+      J[0][k] = (pb.bt - b.bt) / FD_STEP
+      J[1][k] = (pb.br - b.br) / FD_STEP
+    }
+    // Minimum-norm Newton step: Δ = −Jᵀ (J Jᵀ)⁻¹ F
+    const a = J[0][0] * J[0][0] + J[0][1] * J[0][1] + J[0][2] * J[0][2]
+    const bb = J[0][0] * J[1][0] + J[0][1] * J[1][1] + J[0][2] * J[1][2]
+    const c = J[1][0] * J[1][0] + J[1][1] * J[1][1] + J[1][2] * J[1][2]
+    const det = a * c - bb * bb
+    if (Math.abs(det) < 1e-30) break
+    const y0 = (c * F[0] - bb * F[1]) / det
+    const y1 = (-bb * F[0] + a * F[1]) / det
+    let delta = [0, 1, 2].map((k) => -(J[0][k] * y0 + J[1][k] * y1))
+    const size = Math.hypot(delta[0], delta[1], delta[2])
+    if (size > MAX_CORRECTION) delta = delta.map((x) => x * MAX_CORRECTION / size)
+
+    // Halve the step until the miss shrinks
+    let accepted = false
+    for (let tries = 0; tries < 6 && !accepted; tries++) {
+      const trial = applyControls(state, delta)
+      const next = evaluate(trial)
+      const [ta, tb] = aimPoint(next.b.sHat, next.b.vInf, target, Math.atan2(next.b.br, next.b.bt))
+      if (Math.hypot(next.b.bt - ta, next.b.br - tb) < miss) {
+        state = trial
+        current = next
+        accepted = true
+      } else {
+        delta = delta.map((x) => x / 2)
+      }
+    }
+    if (!accepted) break
+  }
+
+  const final = evaluate(state, true)
+  const { enc, b } = final
+  const periluneRadius = b.periapsisKm
+  const arrivalIncDeg = Math.acos(Math.max(-1, Math.min(1, dot(b.hHat, LUNAR_POLE)))) * RAD2DEG
+
+  const vCirc = Math.sqrt(MU_EARTH_KM / rPark)
+  const tliMs = combinedBurn(vCirc, state.speed, Math.max(0, inc - parkInc)) * 1000
+  const planeChangeMs = Math.max(0, tliMs - (state.speed - vCirc) * 1000)
+
+  let loiMs = 0
+  let insertionPlaneChangeDeg = 0
+  if (target.capture) {
+    insertionPlaneChangeDeg = Math.abs(target.incDeg - arrivalIncDeg)
+    const vHyp = Math.sqrt(b.vInf * b.vInf + 2 * MU_MOON / periluneRadius)
+    const vLunar = Math.sqrt(MU_MOON / periluneRadius)
+    loiMs = combinedBurn(vHyp, vLunar, insertionPlaneChangeDeg * DEG2RAD) * 1000
+      + (target.capture === 'landing' ? LUNAR_DESCENT_DELTAV_MS : 0)
+  }
+
+  // Phase angle: Moon ahead of the TLI point at TLI, measured in the transfer plane
+  const [r0, v0] = tliCartesian(rPark, inc, state)
+  const moon0 = moon(0).pos
+  const phase = Math.atan2(dot(cross(r0, moon0), unit(cross(r0, v0))), dot(r0, moon0))
+  const phaseAngleDeg = ((phase * RAD2DEG) % 360 + 360) % 360
+
+  return {
+    tliDateISO: new Date(seed.tliMs).toISOString(),
+    periluneDateISO: new Date(seed.tliMs + enc.tSec * 1000).toISOString(),
+    flightDays: enc.tSec / SEC_PER_DAY,
+    tliDeltaVms: tliMs,
+    planeChangeDeltaVms: planeChangeMs,
+    loiDeltaVms: loiMs,
+    totalDeltaVms: tliMs + loiMs,
+    periluneAltKm: periluneRadius - R_MOON,
+    arrivalIncDeg,
+    insertionPlaneChangeDeg,
+    vInfKms: b.vInf,
+    transferIncDeg: inc * RAD2DEG,
+    raanDeg: ((state.raan * RAD2DEG) % 360 + 360) % 360,
+    argLatDeg: ((state.argLat * RAD2DEG) % 360 + 360) % 360,
+    phaseAngleDeg,
+    moonDistanceKm: norm(enc.moonPos),
+    iterations,
+    converged: miss < TOLERANCE_KM,
+    missKm: miss,
+    profile: enc.profile,
+  }
+}
+
+// ─── Entry point ───
+
+/**
+ * Daily TLI opportunities from the launch date, and the launch-date
+ * opportunity targeted through the Earth + Moon propagation.
+ * Only direct ('hohmann') transfers are targeted.
+ */
+export function runLunarTargeting(
+  params: LunarParams,
+  config: LunarTargetingConfig,
+  onProgress?: (progress: number) => void,
+): LunarTargetingResult {
+  if (params.transferType !== 'hohmann') {
+    throw new Error('Targeting covers direct transfers only')
+  }
+  const target = arrivalTarget(params)
+  const startMs = Date.parse(params.launchDateISO)
+  if (!Number.isFinite(startMs)) throw new Error('Invalid launch date')
+  const nDays = Math.max(1, Math.round(config.windowDays))
+
+  const candidates: (ConicCandidate | null)[] = []
+  for (let d = 0; d < nDays; d++) {
+    candidates.push(bestForDay(params, target, config, startMs + d * SEC_PER_DAY * 1000))
+    onProgress?.(0.6 * (d + 1) / nDays)
+  }
+  const opportunities = candidates.map((c) => (c ? toOpportunity(c) : null))
+  const best = opportunities.reduce<TliOpportunity | null>(
+    (acc, o) => (o && (!acc || o.totalDeltaVms < acc.totalDeltaVms) ? o : acc), null,
+  )
+
+  const targeted = candidates[0] ? targetTransfer(params, target, candidates[0]) : null
+  onProgress?.(1)
+
+  return {
+    missionType: params.missionType,
+    transferType: params.transferType,
+    departureAltKm: params.departureAltKm,
+    parkingOrbitIncDeg: params.parkingOrbitIncDeg,
+    targetOrbitAltKm: params.targetOrbitAltKm,
+    targetOrbitIncDeg: params.targetOrbitIncDeg,
+    closestApproachAltKm: params.closestApproachAltKm,
+    launchDateISO: params.launchDateISO,
+    config: { ...config },
+    opportunities,
+    best,
+    targeted,
+  }
+}
@@ -8,9 +8,13 @@ import {
 } from './beyond-leo-constants'
 import { MU_EARTH_KM, R_EARTH_EQUATORIAL, C_LIGHT } from './constants'
 import type { LunarParams, LunarResult, LunarTransferType } from '@/types/beyond-leo'
+import type { TargetedLunarTransfer } from './lunar-targeting'
 
 const G0 = 9.80665e-3 // km/s² standard gravity (for Tsiolkovsky with Isp in seconds)
 
+/** Deorbit from low lunar orbit plus powered descent, added to LOI for landings (m/s) */
+export const LUNAR_DESCENT_DELTAV_MS = 1700
+
 /**
  * TLI ΔV from circular parking orbit to transfer ellipse with apogee at lunar distance
  * Uses vis-viva equation
@@ -97,16 +101,18 @@ export function computePropellantMass(
 }
 
 /**
- * Full lunar transfer analysis
+ * Full lunar transfer analysis. A targeted transfer (lunar-targeting.ts)
+ * for these params replaces the fixed-Moon TLI/LOI, flight time and phase
+ * angle with the values solved against the ephemeris Moon.
  */
-export function computeLunarResult(params: LunarParams): LunarResult {
+export function computeLunarResult(params: LunarParams, targeted?: TargetedLunarTransfer | null): LunarResult {
   const {
     missionType, targetOrbitAltKm, transferType,
     departureAltKm, spacecraftMassKg, ispS,
   } = params
 
-  const tliDeltaVms = computeTLIDeltaV(departureAltKm)
-  const transferTimeDays = computeLunarTransferTime(transferType)
+  const tliDeltaVms = targeted ? targeted.tliDeltaVms : computeTLIDeltaV(departureAltKm)
+  const transferTimeDays = targeted ? targeted.flightDays : computeLunarTransferTime(transferType)
 
   let loiDeltaVms: number
   let lunarOrbitPeriodMin: number
@@ -131,7 +137,7 @@ export function computeLunarResult(params: LunarParams): LunarResult {
       // Landing requires LOI + deorbit + descent
       loiDeltaVms = computeLOIDeltaV(targetOrbitAltKm)
       // Deorbit from low orbit + powered descent: ~1.7 km/s additional
-      loiDeltaVms += 1700
+      loiDeltaVms += LUNAR_DESCENT_DELTAV_MS
       lunarOrbitPeriodMin = 0
       freeReturnPeriodDays = 0
       break
@@ -149,9 +155,11 @@ export function computeLunarResult(params: LunarParams): LunarResult {
       freeReturnPeriodDays = 0
   }
 
+  if (targeted) loiDeltaVms = targeted.loiDeltaVms
+
   const totalDeltaVms = tliDeltaVms + loiDeltaVms
   const propellantRequiredKg = computePropellantMass(totalDeltaVms, spacecraftMassKg, ispS)
-  const phaseAngleDeg = computeLunarPhaseAngle(transferTimeDays)
+  const phaseAngleDeg = targeted ? targeted.phaseAngleDeg : computeLunarPhaseAngle(transferTimeDays)
   const commDelayS = MOON_SEMI_MAJOR_AXIS / (C_LIGHT / 1000) // ~1.28 s
 
   return {
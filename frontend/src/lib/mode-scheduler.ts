@@ -0,0 +1,365 @@
+/**
+ * Operational mode scheduler for the power budget.
+ *
+ * The spacecraft runs in named modes, each setting a power level for every
+ * subsystem. Prioritised rules pick the mode at each time step from real
+ * events — battery state of charge below a threshold (latched until it
+ * recovers), ground passes from predictPasses, overflights of ground
+ * targets, and eclipse — falling back to a default mode. Generation comes
+ * from the same per-orbit model as the power profile (conical-shadow
+ * eclipse, or the panel-geometry array when defined), evaluated once per day
+ * on the J2-drifting orbit. The battery (with the pack's charge efficiency
+ * and C-rate limits when modelled) is integrated over several days to give
+ * the energy balance timeline and the worst-case state of charge.
+ *
+ * Standalone physics module — no UI dependencies.
+ */
+
+import { DEG2RAD, SEC_PER_DAY } from './constants'
+import { eciToEcef, geodeticToEcef } from './coordinate-transforms'
+import { computeOrbitalPeriod } from './orbital-mechanics'
+import { dateToGMST } from './time-utils'
+import { sunPositionEci } from './ephemeris'
+import { computeOrbitEclipse, driftedElements, orbitPositionSampler } from './eclipse'
+import { computeArrayOrbitProfile } from './solar-array'
+import { computeSolarPowerPeak, subsystemAvgPower } from './power-budget'
+import type { PowerSubsystem } from './power-budget'
+import { predictPasses } from './pass-prediction'
+import { batteryUsableCapacityWh, batteryLimits, stepBattery } from './battery'
+import type { ParsedTLE } from './tle'
+import type { OrbitalElements } from '@/types/orbit'
+import type { SpacecraftConfig } from '@/types/mission'
+import type { GroundStation } from '@/types/ground-station'
+
+// ─── Configuration ───
+
+export interface SpacecraftMode {
+  id: string
+  name: string
+  loads: Record<string, number>   // subsystem id → fraction of its powerW (missing = off)
+}
+
+export type ModeTrigger = 'soc-below' | 'pass' | 'target' | 'eclipse'
+
+export interface ModeRule {
+  id: string
+  enabled: boolean
+  trigger: ModeTrigger
+  modeId: string
+  socThreshold: number            // 'soc-below': enter below this SOC (0-1)
+  sunlitOnly: boolean             // only fire while the spacecraft is in sunlight
+}
+
+export interface ScheduleTarget {
+  id: string
+  name: string
+  lat: number                     // deg
+  lon: number                     // deg
+  maxOffNadirDeg: number          // overflight when the target is within this off-nadir angle
+}
+
+export interface ModeScheduleConfig {
+  durationDays: number
+  stepSec: number
+  initialSoc: number              // 0-1
+  socHysteresis: number           // 'soc-below' rules release at threshold + hysteresis
+  endOfLife: boolean              // degrade generation to end of mission life
+  defaultModeId: string
+  modes: SpacecraftMode[]
+  rules: ModeRule[]               // priority order: first match wins
+  targets: ScheduleTarget[]
+}
+
+export const MODE_TRIGGER_LABELS: Record<ModeTrigger, string> = {
+  'soc-below': 'SOC Below',
+  'pass': 'Ground Pass',
+  'target': 'Target Overflight',
+  'eclipse': 'Eclipse',
+}
+
+export const DEFAULT_MODE_SCHEDULE_CONFIG: ModeScheduleConfig = {
+  durationDays: 3,
+  stepSec: 30,
+  initialSoc: 1,
+  socHysteresis: 0.1,
+  endOfLife: false,
+  defaultModeId: 'idle',
+  modes: [
+    { id: 'idle', name: 'Idle', loads: { obc: 1, adcs: 1 } },
+    { id: 'eclipse', name: 'Eclipse', loads: { obc: 1, adcs: 1, heater: 1 } },
+    { id: 'science', name: 'Science', loads: { obc: 1, adcs: 1, camera: 1 } },
+    { id: 'downlink', name: 'Downlink', loads: { obc: 1, adcs: 1, 'radio-tx': 1 } },
+    { id: 'safe', name: 'Safe', loads: { obc: 1, adcs: 0.3, heater: 0.5 } },
+  ],
+  rules: [
+    { id: 'low-soc', enabled: true, trigger: 'soc-below', modeId: 'safe', socThreshold: 0.3, sunlitOnly: false },
+    { id: 'passes', enabled: true, trigger: 'pass', modeId: 'downlink', socThreshold: 0.3, sunlitOnly: false },
+    { id: 'targets', enabled: true, trigger: 'target', modeId: 'science', socThreshold: 0.3, sunlitOnly: true },
+    { id: 'shadow', enabled: true, trigger: 'eclipse', modeId: 'eclipse', socThreshold: 0.3, sunlitOnly: false },
+  ],
+  targets: [
+    { id: 'target-1', name: 'Target 1', lat: 48.86, lon: 2.35, maxOffNadirDeg: 30 },
+  ],
+}
+
+// ─── Inputs / results ───
+
+export interface ModeScheduleInputs {
+  elements: OrbitalElements
+  spacecraft: SpacecraftConfig
+  subsystems: PowerSubsystem[]
+  groundStations: GroundStation[]
+  epochMs: number
+  lifetimeYears: number
+  degradationRate: number
+  tle: ParsedTLE | null
+}
+
+export interface ModeStats {
+  modeId: string
+  name: string
+  hours: number
+  energyWh: number
+  entries: number
+}
+
+export interface ScheduleDay {
+  day: number
+  generatedWh: number
+  consumedWh: number
+  netWh: number
+  minSoc: number
+}
+
+export interface ModeScheduleResult {
+  epochISO: string
+  durationDays: number
+  modes: { id: string; name: string }[]
+  timeHours: number[]
+  soc: number[]                   // 0-1
+  generationW: number[]
+  loadW: number[]
+  modeIndex: number[]             // into modes
+  modeStats: ModeStats[]
+  days: ScheduleDay[]
+  worstSoc: number
+  worstSocISO: string
+  finalSoc: number
+  generatedWh: number
+  consumedWh: number
+  unmetWh: number                 // load the battery could not carry (empty or at its discharge limit)
+  curtailedWh: number             // generation left unused (full battery or charge limit)
+  averageLoadW: number
+  budgetAverageW: number          // static duty-cycle average, for comparison
+  passCount: number
+  targetOverflights: number
+  modeSwitches: number
+}
+
+// Points kept for plotting; the simulation itself runs at stepSec
+const MAX_RECORDED_POINTS = 4000
+const PROFILE_POINTS = 120
+
+export function modeLoadW(mode: SpacecraftMode, subsystems: PowerSubsystem[]): number {
+  return subsystems.reduce((sum, s) => sum + s.powerW * Math.max(0, Math.min(1, mode.loads[s.id] ?? 0)), 0)
+}
+
+// ─── Simulation ───
+
+export function runModeSchedule(
+  inputs: ModeScheduleInputs,
+  config: ModeScheduleConfig,
+  onProgress?: (fraction: number) => void,
+): ModeScheduleResult {
+  const { elements, spacecraft, subsystems } = inputs
+  const epochMs = inputs.epochMs
+  const durationDays = Math.max(0.1, config.durationDays)
+  const stepSec = Math.max(1, config.stepSec)
+  const totalSteps = Math.ceil(durationDays * SEC_PER_DAY / stepSec)
+  const capacityWh = Math.max(1e-6, batteryUsableCapacityWh(spacecraft))
+  const limits = batteryLimits(spacecraft.battery)
+  const periodSec = computeOrbitalPeriod(elements.semiMajorAxis)
+
+  if (config.modes.length === 0) throw new Error('Define at least one mode')
+  const modeIndexById = new Map(config.modes.map((m, k) => [m.id, k]))
+  const defaultMode = modeIndexById.get(config.defaultModeId) ?? 0
+  const modeLoads = config.modes.map((m) => modeLoadW(m, subsystems))
+  const rules = config.rules.filter((r) => r.enabled && modeIndexById.has(r.modeId))
+
+  // Ground passes, sorted by AOS
+  const passes = rules.some((r) => r.trigger === 'pass')
+    ? predictPasses(elements, new Date(epochMs), inputs.groundStations, durationDays, 30, { tle: inputs.tle })
+      .map((p) => [p.aos.getTime(), p.los.getTime()] as [number, number])
+      .sort((a, b) => a[0] - b[0])
+    : []
+  onProgress?.(0.1)
+
+  const targets = config.targets.map((t) => ({
+    ecef: geodeticToEcef({ lat: t.lat, lon: t.lon, alt: 0 }),
+    cosMax: Math.cos(Math.max(0, Math.min(89.9, t.maxOffNadirDeg)) * DEG2RAD),
+  }))
+  const watchTargets = targets.length > 0 && rules.some((r) => r.trigger === 'target')
+
+  // Generation over one revolution, rebuilt each day on the drifted orbit
+  const degradation = config.endOfLife ? Math.pow(1 - inputs.degradationRate, inputs.lifetimeYears) : 1
+  const peak = computeSolarPowerPeak(spacecraft)
+  let profileDay = -1
+  let profile: { illumination: number[]; powerW: number[] } = { illumination: [], powerW: [] }
+  let positionAt = orbitPositionSampler(elements)
+  const loadDay = (day: number) => {
+    const el = driftedElements(elements, day)
+    const date = new Date(epochMs + day * SEC_PER_DAY * 1000)
+    if (spacecraft.solarArray) {
+      const p = computeArrayOrbitProfile(el, spacecraft, spacecraft.solarArray, sunPositionEci(date), PROFILE_POINTS)
+      profile = { illumination: p.illumination, powerW: p.powerW }
+    } else {
+      const orbit = computeOrbitEclipse(el, date, PROFILE_POINTS)
+      profile = { illumination: orbit.illumination, powerW: orbit.illumination.map((l) => peak * l) }
+    }
+    positionAt = orbitPositionSampler(el)
+    profileDay = day
+  }
+  const sampleProfile = (values: number[], t: number) => {
+    const x = (((t % periodSec) + periodSec) % periodSec) / periodSec * PROFILE_POINTS
+    const k = Math.min(PROFILE_POINTS - 1, Math.floor(x))
+    const f = x - k
+    return values[k] * (1 - f) + values[k + 1] * f
+  }
+
+  const record = Math.max(1, Math.ceil((totalSteps + 1) / MAX_RECORDED_POINTS))
+  const timeHours: number[] = []
+  const soc: number[] = []
+  const generationW: number[] = []
+  const loadW: number[] = []
+  const modeIndex: number[] = []
+  const modeStats: ModeStats[] = config.modes.map((m) => ({ modeId: m.id, name: m.name, hours: 0, energyWh: 0, entries: 0 }))
+  const days: ScheduleDay[] = []
+
+  let energyWh = capacityWh * Math.max(0, Math.min(1, config.initialSoc))
+  let worstSoc = energyWh / capacityWh
+  let worstSocMs = epochMs
+  let generatedWh = 0
+  let consumedWh = 0
+  let unmetWh = 0
+  let curtailedWh = 0
+  let passPtr = 0
+  let latched: ModeRule | null = null
+  let previousMode = -1
+  let modeSwitches = 0
+  let wasOverTarget = false
+  let targetOverflights = 0
+  const progressEvery = Math.max(1, Math.floor(totalSteps / 50))
+
+  for (let step = 0; step <= totalSteps; step++) {
+    const t = step * stepSec
+    const nowMs = epochMs + t * 1000
+    const day = Math.min(Math.floor(t / SEC_PER_DAY), Math.ceil(durationDays) - 1)
+    if (day !== profileDay) {
+      loadDay(day)
+      days.push({ day, generatedWh: 0, consumedWh: 0, netWh: 0, minSoc: energyWh / capacityWh })
+    }
+
+    // Events
+    const illumination = sampleProfile(profile.illumination, t)
+    const sunlit = illumination >= 0.5
+    while (passPtr < passes.length && passes[passPtr][1] < nowMs) passPtr++
+    const inPass = passPtr < passes.length && passes[passPtr][0] <= nowMs
+    let overTarget = false
+    if (watchTargets) {
+      const r = eciToEcef(positionAt(t), dateToGMST(new Date(nowMs)))
+      for (const target of targets) {
+        const dx = target.ecef.x - r.x, dy = target.ecef.y - r.y, dz = target.ecef.z - r.z
+        const d = Math.sqrt(dx * dx + dy * dy + dz * dz)
+        const rMag = Math.sqrt(r.x * r.x + r.y * r.y + r.z * r.z)
+        // Off-nadir angle at the spacecraft, and the target above its horizon
+        const cosOffNadir = -(dx * r.x + dy * r.y + dz * r.z) / (d * rMag)
+        const aboveHorizon = (target.ecef.x * -dx + target.ecef.y * -dy + target.ecef.z * -dz) > 0
+        if (aboveHorizon && cosOffNadir >= target.cosMax) { overTarget = true; break }
+      }
+      if (overTarget && !wasOverTarget) targetOverflights++
+      wasOverTarget = overTarget
+    }
+    const currentSoc = energyWh / capacityWh
+    if (latched && currentSoc >= latched.socThreshold + config.socHysteresis) latched = null
+
+    // Mode selection: first matching rule in priority order
+    let mode = defaultMode
+    for (const rule of rules) {
+      if (rule.sunlitOnly && !sunlit) continue
+      const fires = rule.trigger === 'soc-below' ? latched === rule || currentSoc < rule.socThreshold
+        : rule.trigger === 'pass' ? inPass
+        : rule.trigger === 'target' ? overTarget
+        : !sunlit
+      if (fires) {
+        if (rule.trigger === 'soc-below') latched = rule
+        mode = modeIndexById.get(rule.modeId)!
+        break
+      }
+    }
+    if (mode !== previousMode) {
+      if (previousMode >= 0) modeSwitches++
+      modeStats[mode].entries++
+      previousMode = mode
+    }
+
+    const gen = sampleProfile(profile.powerW, t) * degradation
+    const load = modeLoads[mode]
+
+    if (step % record === 0 || step === totalSteps) {
+      timeHours.push(t / 3600)
+      soc.push(currentSoc)
+      generationW.push(gen)
+      loadW.push(load)
+      modeIndex.push(mode)
+    }
+    if (currentSoc < worstSoc) {
+      worstSoc = currentSoc
+      worstSocMs = nowMs
+    }
+    const today = days[days.length - 1]
+    today.minSoc = Math.min(today.minSoc, currentSoc)
+    if (step === totalSteps) break
+
+    // Battery over the step
+    const hours = stepSec / 3600
+    const battery = stepBattery(energyWh, capacityWh, gen - load, hours, limits)
+    curtailedWh += battery.curtailedWh
+    unmetWh += battery.unmetWh
+    energyWh = battery.energyWh
+    generatedWh += gen * hours
+    consumedWh += load * hours
+    today.generatedWh += gen * hours
+    today.consumedWh += load * hours
+    modeStats[mode].hours += hours
+    modeStats[mode].energyWh += load * hours
+
+    if (step % progressEvery === 0) onProgress?.(0.1 + 0.9 * step / totalSteps)
+  }
+
+  for (const d of days) d.netWh = d.generatedWh - d.consumedWh
+
+  return {
+    epochISO: new Date(epochMs).toISOString(),
+    durationDays,
+    modes: config.modes.map((m) => ({ id: m.id, name: m.name })),
+    timeHours,
+    soc,
+    generationW,
+    loadW,
+    modeIndex,
+    modeStats,
+    days,
+    worstSoc,
+    worstSocISO: new Date(worstSocMs).toISOString(),
+    finalSoc: energyWh / capacityWh,
+    generatedWh,
+    consumedWh,
+    unmetWh,
+    curtailedWh,
+    averageLoadW: consumedWh / (totalSteps * stepSec / 3600),
+    budgetAverageW: subsystems.reduce((sum, s) => sum + subsystemAvgPower(s), 0),
+    passCount: passes.length,
+    targetOverflights,
+    modeSwitches,
+  }
+}
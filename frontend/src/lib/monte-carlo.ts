@@ -0,0 +1,301 @@
+/**
+ * Monte Carlo uncertainty analysis for lifetime, power and link margins.
+ *
+ * Perturbs the selected inputs (spacecraft mass/drag properties, solar
+ * flux, panel degradation, antenna gains and orbit injection errors) with
+ * normal or uniform distributions, re-runs the deterministic models
+ * (estimateLifetime, computePowerAnalysis, computePassLinkBudget) for each
+ * sample and reports percentiles. A seeded generator makes runs repeatable.
+ *
+ * Standalone physics module — no UI dependencies.
+ */
+
+import { R_EARTH_EQUATORIAL, DEG2RAD, RAD2DEG } from './constants'
+import { computeBallisticCoefficient, estimateLifetime } from './orbital-lifetime'
+import { computePowerAnalysis } from './power-budget'
+import type { PowerSubsystem } from './power-budget'
+import { computePassLinkBudget } from './link-budget'
+import type { CommConfig } from './link-budget'
+import type { SpaceWeather } from './atmosphere'
+import { forecastWeather } from './solar-cycle'
+import type { SolarForecastConfig } from './solar-cycle'
+import type { OrbitalElements } from '@/types/orbit'
+import type { SpacecraftConfig } from '@/types/mission'
+
+// ─── Types ───
+
+export type UncertainParameterId =
+  | 'mass'
+  | 'dragCoefficient'
+  | 'crossSectionArea'
+  | 'solarFlux'
+  | 'degradationRate'
+  | 'satAntennaGain'
+  | 'gsAntennaGain'
+  | 'semiMajorAxis'
+  | 'eccentricity'
+  | 'inclination'
+
+export type DistributionKind = 'normal' | 'uniform'
+
+export interface UncertainParameter {
+  enabled: boolean
+  distribution: DistributionKind
+  spread: number  // 1σ (normal) or half-width (uniform), in the parameter's spread unit
+}
+
+export interface UncertainParameterInfo {
+  label: string
+  unit: string        // unit of the spread; '%' means relative to the nominal value
+  defaultSpread: number
+  group: 'spacecraft' | 'environment' | 'comm' | 'injection'
+}
+
+export const UNCERTAIN_PARAMETERS: Record<UncertainParameterId, UncertainParameterInfo> = {
+  mass: { label: 'Mass', unit: '%', defaultSpread: 5, group: 'spacecraft' },
+  dragCoefficient: { label: 'Drag Coeff (Cd)', unit: '', defaultSpread: 0.2, group: 'spacecraft' },
+  crossSectionArea: { label: 'Cross-Section', unit: '%', defaultSpread: 15, group: 'spacecraft' },
+  solarFlux: { label: 'Solar Flux (F10.7)', unit: '%', defaultSpread: 20, group: 'environment' },
+  degradationRate: { label: 'Panel Degradation', unit: '%/yr', defaultSpread: 1, group: 'environment' },
+  satAntennaGain: { label: 'Sat Antenna Gain', unit: 'dB', defaultSpread: 1, group: 'comm' },
+  gsAntennaGain: { label: 'GS Antenna Gain', unit: 'dB', defaultSpread: 1, group: 'comm' },
+  semiMajorAxis: { label: 'Semi-Major Axis', unit: 'km', defaultSpread: 5, group: 'injection' },
+  eccentricity: { label: 'Eccentricity Vector', unit: '', defaultSpread: 0.001, group: 'injection' },
+  inclination: { label: 'Inclination', unit: '°', defaultSpread: 0.1, group: 'injection' },
+}
+
+export const UNCERTAIN_PARAMETER_IDS = Object.keys(UNCERTAIN_PARAMETERS) as UncertainParameterId[]
+
+export interface MonteCarloConfig {
+  samples: number
+  seed: number
+  linkElevationDeg: number  // reference pass elevation for the link margin
+  parameters: Record<UncertainParameterId, UncertainParameter>
+}
+
+// Each sample re-runs the lifetime decay (up to ~0.3 s for long-lived orbits), so keep the default modest
+export const DEFAULT_MONTE_CARLO_CONFIG: MonteCarloConfig = {
+  samples: 50,
+  seed: 1,
+  linkElevationDeg: 10,
+  parameters: Object.fromEntries(
+    UNCERTAIN_PARAMETER_IDS.map((id) => [
+      id,
+      { enabled: true, distribution: 'normal', spread: UNCERTAIN_PARAMETERS[id].defaultSpread },
+    ]),
+  ) as Record<UncertainParameterId, UncertainParameter>,
+}
+
+/** Nominal mission inputs the samples are drawn around */
+export interface MonteCarloInputs {
+  elements: OrbitalElements
+  spacecraft: SpacecraftConfig
+  subsystems: PowerSubsystem[]
+  lifetimeTargetYears: number
+  degradationRate: number   // fraction per year
+  comm: CommConfig
+  spaceWeather: SpaceWeather
+  solarForecast: SolarForecastConfig
+  epochMs: number
+}
+
+export type MonteCarloMetricId = 'lifetimeYears' | 'powerMarginBol' | 'powerMarginEol' | 'linkMarginDb'
+
+export const MONTE_CARLO_METRICS: Record<MonteCarloMetricId, { label: string; unit: string }> = {
+  lifetimeYears: { label: 'Orbital Lifetime', unit: 'yr' },
+  powerMarginBol: { label: 'Power Margin (BOL)', unit: '%' },
+  powerMarginEol: { label: 'Power Margin (EOL)', unit: '%' },
+  linkMarginDb: { label: 'Link Margin', unit: 'dB' },
+}
+
+export interface MetricStatistics {
+  nominal: number
+  mean: number
+  std: number
+  min: number
+  max: number
+  p5: number
+  p50: number
+  p95: number
+}
+
+export interface MonteCarloResult {
+  samples: number
+  metrics: Record<MonteCarloMetricId, { values: number[]; stats: MetricStatistics }>
+}
+
+// ─── Random sampling ───
+
+/** Mulberry32 — small, fast, seedable uniform generator on [0, 1) */
+export function createRandom(seed: number): () => number {
+  let s = seed >>> 0
+  return () => {
+    s = (s + 0x6d2b79f5) >>> 0
+    let t = s
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/** Zero-mean deviate: N(0, spread²) or U(−spread, spread) */
+function drawDeviate(random: () => number, param: UncertainParameter): number {
+  if (param.distribution === 'uniform') return (2 * random() - 1) * param.spread
+  // Box–Muller
+  const u1 = Math.max(random(), 1e-12)
+  const u2 = random()
+  return Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2) * param.spread
+}
+
+// ─── Statistics ───
+
+/** Linear-interpolated percentile of pre-sorted values, p in [0, 100] */
+export function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return NaN
+  const idx = (p / 100) * (sorted.length - 1)
+  const lo = Math.floor(idx)
+  const hi = Math.min(lo + 1, sorted.length - 1)
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (idx - lo)
+}
+
+export function computeStatistics(values: number[], nominal: number): MetricStatistics {
+  const sorted = [...values].sort((a, b) => a - b)
+  const n = sorted.length
+  const mean = sorted.reduce((s, v) => s + v, 0) / n
+  const variance = n > 1 ? sorted.reduce((s, v) => s + (v - mean) * (v - mean), 0) / (n - 1) : 0
+  return {
+    nominal,
+    mean,
+    std: Math.sqrt(variance),
+    min: sorted[0],
+    max: sorted[n - 1],
+    p5: percentile(sorted, 5),
+    p50: percentile(sorted, 50),
+    p95: percentile(sorted, 95),
+  }
+}
+
+export interface HistogramBin {
+  x0: number
+  x1: number
+  count: number
+}
+
+export function computeHistogram(values: number[], bins: number = 20): HistogramBin[] {
+  if (values.length === 0) return []
+  let min = Infinity
+  let max = -Infinity
+  for (const v of values) {
+    if (v < min) min = v
+    if (v > max) max = v
+  }
+  if (max === min) return [{ x0: min, x1: max, count: values.length }]
+  const width = (max - min) / bins
+  const result: HistogramBin[] = Array.from({ length: bins }, (_, i) => ({
+    x0: min + i * width,
+    x1: min + (i + 1) * width,
+    count: 0,
+  }))
+  for (const v of values) {
+    result[Math.min(bins - 1, Math.floor((v - min) / width))].count++
+  }
+  return result
+}
+
+// ─── Runner ───
+
+// The eccentricity error is a 2-D deviate on (e·cos ω, e·sin ω); eccentricityCross is its
+// second component, so near-circular orbits scatter around e = 0 instead of clamping to it
+type Deviates = Record<UncertainParameterId, number> & { eccentricityCross: number }
+
+function evaluateSample(inputs: MonteCarloInputs, config: MonteCarloConfig, d: Deviates): Record<MonteCarloMetricId, number> {
+  const { spacecraft, elements, comm } = inputs
+
+  const sampledSpacecraft: SpacecraftConfig = {
+    ...spacecraft,
+    mass: Math.max(0.01, spacecraft.mass * (1 + d.mass / 100)),
+    dragCoefficient: Math.max(0.1, spacecraft.dragCoefficient + d.dragCoefficient),
+    crossSectionArea: Math.max(1e-5, spacecraft.crossSectionArea * (1 + d.crossSectionArea / 100)),
+  }
+  // The perigee moves with the eccentricity vector; the argument of latitude (injection point) stays put
+  const ex = elements.eccentricity * Math.cos(elements.argOfPerigee * DEG2RAD) + d.eccentricity
+  const ey = elements.eccentricity * Math.sin(elements.argOfPerigee * DEG2RAD) + d.eccentricityCross
+  const argOfPerigee = ex === 0 && ey === 0 ? elements.argOfPerigee : (Math.atan2(ey, ex) * RAD2DEG + 360) % 360
+  const sampledElements: OrbitalElements = {
+    ...elements,
+    semiMajorAxis: elements.semiMajorAxis + d.semiMajorAxis,
+    eccentricity: Math.min(0.99, Math.hypot(ex, ey)),
+    argOfPerigee,
+    trueAnomaly: (((elements.trueAnomaly + elements.argOfPerigee - argOfPerigee) % 360) + 360) % 360,
+    inclination: Math.min(180, Math.max(0, elements.inclination + d.inclination)),
+  }
+  const sampledComm: CommConfig = {
+    ...comm,
+    satAntennaGainDbi: comm.satAntennaGainDbi + d.satAntennaGain,
+    gsAntennaGainDbi: comm.gsAntennaGainDbi + d.gsAntennaGain,
+  }
+
+  // Solar flux error scales the daily and 81-day F10.7 alike
+  const fluxScale = Math.max(0.1, 1 + d.solarFlux / 100)
+  const scaleFlux = (w: SpaceWeather): SpaceWeather => ({ ...w, f107: w.f107 * fluxScale, f107a: w.f107a * fluxScale })
+  const weather = forecastWeather(inputs.solarForecast, inputs.spaceWeather)
+  const sampledWeather = typeof weather === 'function' ? (date: Date) => scaleFlux(weather(date)) : scaleFlux(weather)
+
+  const bStar = computeBallisticCoefficient(
+    sampledSpacecraft.mass, sampledSpacecraft.crossSectionArea, sampledSpacecraft.dragCoefficient,
+  )
+  const lifetimeDays = estimateLifetime(sampledElements, bStar, sampledWeather, {
+    inclinationDeg: sampledElements.inclination,
+    startDate: new Date(inputs.epochMs),
+  })
+
+  const degradationRate = Math.min(1, Math.max(0, inputs.degradationRate + d.degradationRate / 100))
+  const power = computePowerAnalysis(
+    sampledElements, sampledSpacecraft, inputs.subsystems, inputs.lifetimeTargetYears, degradationRate,
+    new Date(inputs.epochMs),
+  )
+
+  const altitudeKm = sampledElements.semiMajorAxis - R_EARTH_EQUATORIAL
+  const link = computePassLinkBudget(sampledComm, altitudeKm, config.linkElevationDeg, 600)
+
+  return {
+    lifetimeYears: lifetimeDays / 365.25,
+    powerMarginBol: power.powerMargin * 100,
+    powerMarginEol: power.eolMargin * 100,
+    linkMarginDb: link.linkMarginDb,
+  }
+}
+
+export function runMonteCarlo(
+  inputs: MonteCarloInputs,
+  config: MonteCarloConfig,
+  onProgress?: (fraction: number) => void,
+): MonteCarloResult {
+  const random = createRandom(config.seed)
+  const zero = { ...Object.fromEntries(UNCERTAIN_PARAMETER_IDS.map((id) => [id, 0])), eccentricityCross: 0 } as Deviates
+  const nominal = evaluateSample(inputs, config, zero)
+
+  const metricIds = Object.keys(MONTE_CARLO_METRICS) as MonteCarloMetricId[]
+  const values = Object.fromEntries(metricIds.map((id) => [id, [] as number[]])) as Record<MonteCarloMetricId, number[]>
+  const n = Math.max(1, Math.round(config.samples))
+
+  for (let i = 0; i < n; i++) {
+    // Draw every parameter each sample so enabling one doesn't reshuffle the others
+    const deviates = { ...zero }
+    for (const id of UNCERTAIN_PARAMETER_IDS) {
+      const param = config.parameters[id]
+      const deviate = drawDeviate(random, param)
+      if (param.enabled) deviates[id] = deviate
+    }
+    const eccentricityCross = drawDeviate(random, config.parameters.eccentricity)
+    if (config.parameters.eccentricity.enabled) deviates.eccentricityCross = eccentricityCross
+    const sample = evaluateSample(inputs, config, deviates)
+    for (const id of metricIds) values[id].push(sample[id])
+    onProgress?.((i + 1) / n)
+  }
+
+  const metrics = Object.fromEntries(
+    metricIds.map((id) => [id, { values: values[id], stats: computeStatistics(values[id], nominal[id]) }]),
+  ) as MonteCarloResult['metrics']
+  return { samples: n, metrics }
+}
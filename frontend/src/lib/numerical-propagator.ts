@@ -1,31 +1,39 @@
 /**
  * High-fidelity numerical orbit propagator for LEO satellites.
  *
- * Uses RK4 integration with selectable perturbation models:
- *   - J2-J6 zonal harmonics
- *   - Atmospheric drag (exponential model)
+ * Uses fixed-step RK4 or adaptive Dormand-Prince 5(4) integration with
+ * selectable perturbation models:
+ *   - J2 oblateness, or the full spherical-harmonic Earth field (bundled
+ *     EGM96 coefficients, ./gravity-field) to a selectable degree/order
+ *   - Atmospheric drag (space-weather driven Jacchia-class density)
  *   - Solar radiation pressure (cylindrical shadow)
- *   - Third-body Sun and Moon gravity
+ *   - Third-body Sun and Moon gravity (positions from ./ephemeris)
+ *
+ * Optionally executes a planned burn sequence (impulsive, finite or
+ * continuous low-thrust burns) with propellant mass depletion. Low-thrust
+ * burns fire only in sunlight, at the thrust the array power allows.
  *
  * Standalone physics module — no UI dependencies.
  */
 
 import {
   MU_EARTH_KM, R_EARTH_EQUATORIAL, J2, OMEGA_EARTH,
-  DEG2RAD, RAD2DEG, getAtmosphericDensity,
+  RAD2DEG, G0, getAtmosphericDensity,
 } from './constants'
 import { MU_MOON, MU_SUN, AU_KM } from './beyond-leo-constants'
-import { dateToJulianCenturies } from './time-utils'
 import { keplerianToCartesian } from './coordinate-transforms'
+import { sunPositionEci, moonPositionEci } from './ephemeris'
+import { gravityField, harmonicAcceleration } from './gravity-field'
+import { dateToGMST } from './time-utils'
+import { dp54Attempt, dpDenseCoeffs, dpDenseEval } from './dormand-prince'
+import { burnDirectionECI, burnEventValue, propellantForBurn, deltaVForPropellant } from './burn-plan'
+import { electricThrust, wetMassKg } from './low-thrust'
+import { densityAtPosition, SOLAR_ACTIVITY_WEATHER } from './atmosphere'
+import type { SpaceWeather } from './atmosphere'
 import type { OrbitalElements } from '@/types/orbit'
+import type { PropulsionConfig, PlannedBurn, BurnFrame, ExecutedBurn } from '@/types/propulsion'
 import type { Vec3 } from '@/types'
 
-// ─── Higher-order zonal harmonic coefficients ───
-const J3 = -2.53266e-6
-const J4 = -1.61988e-6
-const J5 = -2.27e-7
-const J6 = 5.407e-7
-
 // Solar radiation pressure at 1 AU (N/m^2)
 const P_SRP = 4.56e-6
 
@@ -43,7 +51,9 @@ export interface TrajectoryPoint {
 
 export interface PerturbationConfig {
   j2: boolean
-  j3j6: boolean
+  harmonics: boolean      // full Earth field to gravityDegree × gravityOrder; supersedes the J2 term
+  gravityDegree: number
+  gravityOrder: number
   drag: boolean
   srp: boolean
   thirdBodyMoon: boolean
@@ -54,10 +64,75 @@ export interface SpacecraftProps {
   cd: number    // drag coefficient (typ. 2.2)
   cr: number    // SRP reflectivity coefficient (typ. 1.2)
   area: number  // cross-section area m^2
-  mass: number  // kg
+  mass: number  // kg; the wet mass when a burn plan carries the propellant
 }
 
-export type PropagationMode = 'keplerian' | 'numerical-j2' | 'numerical-full'
+export type PropagationMode = 'keplerian' | 'numerical-j2' | 'numerical-full' | 'sgp4'
+
+export type IntegratorMethod = 'rk4' | 'dp54'
+
+export interface IntegratorConfig {
+  method: IntegratorMethod
+  relTol: number       // relative error tolerance per step (dp54)
+  absTol: number       // absolute error tolerance per step, km and km/s (dp54)
+  minStepSec: number   // step-size floor (dp54)
+  maxStepSec: number   // step-size ceiling (dp54)
+}
+
+export interface IntegrationStats {
+  method: IntegratorMethod
+  acceptedSteps: number
+  rejectedSteps: number
+  functionEvals: number
+  minStepSec: number
+  maxStepSec: number
+  meanStepSec: number
+}
+
+/** Burn sequence executed during propagation, with the thruster that flies it */
+export interface BurnPlan {
+  burns: PlannedBurn[]
+  propulsion: PropulsionConfig
+  dryMassKg: number          // burns start from this plus the loaded propellant
+  lowThrust?: {
+    availablePowerW: number  // sunlit array power left for the thruster
+    dutyCycle: number        // 0-1, applied as a mean thrust reduction
+  }
+}
+
+export interface NumericalPropagationResult {
+  trajectory: TrajectoryPoint[]
+  stats: IntegrationStats
+  burns: ExecutedBurn[]  // one entry per enabled planned burn, in plan order
+}
+
+/** Atmosphere state for the drag term, refreshed once per integration step */
+interface DragEnvironment {
+  weather: SpaceWeather
+  sunPos: Vec3
+  date: Date
+}
+
+/** Thrust acceleration of an active finite burn, direction fixed in the local orbital frame */
+interface ThrustAccel {
+  frame: BurnFrame
+  direction: [number, number, number]
+  accelKmS2: number
+}
+
+/** Default truncation of the bundled Earth field */
+export const GRAVITY_FIELD_DEFAULTS: Pick<PerturbationConfig, 'gravityDegree' | 'gravityOrder'> = {
+  gravityDegree: 8,
+  gravityOrder: 8,
+}
+
+export const DEFAULT_INTEGRATOR_CONFIG: IntegratorConfig = {
+  method: 'rk4',
+  relTol: 1e-10,
+  absTol: 1e-9,
+  minStepSec: 0.1,
+  maxStepSec: 3600,
+}
 
 // ─── Vector helpers ───
 
@@ -79,6 +154,8 @@ function vecCross(a: Vec3, b: Vec3): Vec3 {
 
 // ─── Acceleration functions (all return km/s^2 in ECI) ───
 
+const harmonicScratch = new Float64Array(3)
+
 /** Two-body central gravity: a = -mu * r / |r|^3 */
 function accelCentralBody(x: number, y: number, z: number, rMag: number): Vec3 {
   const rMag3 = rMag * rMag * rMag
@@ -107,81 +184,35 @@ function accelJ2(x: number, y: number, z: number, rMag: number): Vec3 {
 }
 
 /**
- * J3-J6 zonal harmonic accelerations.
- * Standard Cartesian formulations from Vallado & Montenbruck-Gill.
+ * Spherical-harmonic Earth gravity to (degree, order), excluding the central
+ * term. The Earth-fixed frame is the ECI frame rotated by the sidereal
+ * angle about z (precession, nutation and polar motion neglected).
  */
-function accelJ3toJ6(x: number, y: number, z: number, rMag: number): Vec3 {
-  const Re = R_EARTH_EQUATORIAL
-  const rMag2 = rMag * rMag
-  const zr = z / rMag
-  const zr2 = zr * zr
-  let ax = 0, ay = 0, az = 0
-
-  // J3
-  {
-    const Re3 = Re * Re * Re
-    const r7 = rMag2 * rMag2 * rMag2 * rMag
-    const coeff = -0.5 * J3 * MU_EARTH_KM * Re3 / r7
-    const fxy = 5 * (7 * zr2 * zr - 3 * zr)
-    const fz = 3 - 42 * zr2 + 35 * zr2 * zr2
-    ax += coeff * x * fxy
-    ay += coeff * y * fxy
-    az += coeff * z * fz + coeff * rMag * (6 * zr2 - 3)  // corrected z component
-  }
-
-  // J4
-  {
-    const Re4 = Re * Re * Re * Re
-    const r9 = rMag2 * rMag2 * rMag2 * rMag2 * rMag
-    const coeff = (5.0 / 8.0) * J4 * MU_EARTH_KM * Re4 / r9
-    const fxy = 3 - 42 * zr2 + 63 * zr2 * zr2
-    const fz = 15 - 70 * zr2 + 63 * zr2 * zr2
-    ax += coeff * x * fxy
-    ay += coeff * y * fxy
-    az += coeff * z * fz
-  }
-
-  // J5
-  {
-    const Re5 = Re * Re * Re * Re * Re
-    const r11 = rMag2 * rMag2 * rMag2 * rMag2 * rMag2 * rMag
-    const coeff = (1.0 / 8.0) * J5 * MU_EARTH_KM * Re5 / r11
-    const fxy = zr * (315 * zr2 * zr2 - 210 * zr2 + 15)
-    const fz = 315 * zr2 * zr2 - 420 * zr2 + 105
-    ax += coeff * x * fxy
-    ay += coeff * y * fxy
-    az += coeff * z * fz * zr + coeff * rMag * (-1) * (15 * zr2 - 210 * zr2 * zr2 + 315 * zr2 * zr2 * zr2 - 1)
-  }
-
-  // J6
-  {
-    const Re6 = Re * Re * Re * Re * Re * Re
-    const r13 = rMag2 * rMag2 * rMag2 * rMag2 * rMag2 * rMag2 * rMag
-    const coeff = -(1.0 / 16.0) * J6 * MU_EARTH_KM * Re6 / r13
-    const fxy = 35 - 945 * zr2 + 3465 * zr2 * zr2 - 3003 * zr2 * zr2 * zr2
-    const fz = 245 - 2205 * zr2 + 4851 * zr2 * zr2 - 3003 * zr2 * zr2 * zr2
-    ax += coeff * x * fxy
-    ay += coeff * y * fxy
-    az += coeff * z * fz
-  }
-
-  return { x: ax, y: ay, z: az }
+function accelHarmonics(x: number, y: number, z: number, earthAngle: number, degree: number, order: number): Vec3 {
+  const c = Math.cos(earthAngle), s = Math.sin(earthAngle)
+  harmonicAcceleration(gravityField('earth'), c * x + s * y, -s * x + c * y, z, degree, order, harmonicScratch)
+  const [ax, ay, az] = harmonicScratch
+  return { x: c * ax - s * ay, y: s * ax + c * ay, z: az }
 }
 
 /**
  * Atmospheric drag acceleration.
- * Uses exponential density model (existing getAtmosphericDensity),
+ * Uses the space-weather density model (local solar time and latitude from
+ * the Sun position) when `env` is given, else the exponential table;
  * accounts for atmospheric co-rotation with Earth.
  */
 function accelDrag(
   x: number, y: number, z: number,
   vx: number, vy: number, vz: number,
   rMag: number, sc: SpacecraftProps,
+  env: DragEnvironment | null,
 ): Vec3 {
   const altKm = rMag - R_EARTH_EQUATORIAL
-  if (altKm > 1000 || altKm < 0) return { x: 0, y: 0, z: 0 }
+  if (altKm > 2000 || altKm < 0) return { x: 0, y: 0, z: 0 }
 
-  const rho = getAtmosphericDensity(altKm)
+  const rho = env
+    ? densityAtPosition({ x, y, z }, env.sunPos, env.date, env.weather)
+    : getAtmosphericDensity(altKm)
   if (rho <= 0) return { x: 0, y: 0, z: 0 }
 
   // Velocity relative to rotating atmosphere
@@ -205,6 +236,16 @@ function accelDrag(
   }
 }
 
+/** Cylindrical Earth shadow: behind the Earth and within one radius of the Sun line */
+function inEarthShadow(x: number, y: number, z: number, sunPos: Vec3): boolean {
+  const sMag = vecMag(sunPos)
+  // Project satellite position onto Sun direction
+  const dot = (x * sunPos.x + y * sunPos.y + z * sunPos.z) / sMag
+  if (dot >= 0) return false
+  const perpDistSq = x * x + y * y + z * z - dot * dot
+  return perpDistSq < R_EARTH_EQUATORIAL * R_EARTH_EQUATORIAL
+}
+
 /**
  * Solar radiation pressure acceleration with cylindrical shadow model.
  */
@@ -212,6 +253,8 @@ function accelSRP(
   x: number, y: number, z: number,
   sunPos: Vec3, sc: SpacecraftProps,
 ): Vec3 {
+  if (inEarthShadow(x, y, z, sunPos)) return { x: 0, y: 0, z: 0 }
+
   // Vector from satellite to Sun
   const dx = sunPos.x - x
   const dy = sunPos.y - y
@@ -221,18 +264,6 @@ function accelSRP(
   const sunDirY = dy / dMag
   const sunDirZ = dz / dMag
 
-  // Shadow check: cylindrical model
-  // Project satellite position onto Sun direction
-  const dot = x * sunDirX + y * sunDirY + z * sunDirZ
-  if (dot < 0) {
-    // Satellite is on the opposite side of Earth from the Sun
-    const rMag2 = x * x + y * y + z * z
-    const perpDistSq = rMag2 - dot * dot
-    if (perpDistSq < R_EARTH_EQUATORIAL * R_EARTH_EQUATORIAL) {
-      return { x: 0, y: 0, z: 0 } // in shadow
-    }
-  }
-
   // SRP acceleration: a = -Cr * P * (A/m) * (AU/dist)^2 * sunDir
   // P in N/m^2, A/m in m^2/kg => m/s^2 => /1000 for km/s^2
   const scale = (AU_KM / dMag) * (AU_KM / dMag)
@@ -269,80 +300,15 @@ function accelThirdBody(
   }
 }
 
-// ─── Ephemeris (low-precision analytical) ───
-
-/**
- * Approximate Sun position in ECI (km). ~1 degree accuracy.
- */
-export function computeSunPositionECI(date: Date): Vec3 {
-  const T = dateToJulianCenturies(date)
-  const L0 = (280.46646 + 36000.76983 * T) % 360
-  const M = (357.52911 + 35999.05029 * T) % 360
-  const Mrad = M * DEG2RAD
-  const C = (1.914602 - 0.004817 * T) * Math.sin(Mrad)
-    + 0.019993 * Math.sin(2 * Mrad)
-  const sunLon = (L0 + C) * DEG2RAD
-  const eps = (23.439291 - 0.0130042 * T) * DEG2RAD
-  // Distance from Earth (approximate, varies ~3%)
-  const dist = (1.00014 - 0.01671 * Math.cos(Mrad) - 0.00014 * Math.cos(2 * Mrad)) * AU_KM
-  return {
-    x: dist * Math.cos(sunLon),
-    y: dist * Math.cos(eps) * Math.sin(sunLon),
-    z: dist * Math.sin(eps) * Math.sin(sunLon),
-  }
-}
-
-/**
- * Approximate Moon position in ECI (km). ~1-2 degree accuracy.
- * Simplified Brown's lunar theory.
- */
-export function computeMoonPositionECI(date: Date): Vec3 {
-  const T = dateToJulianCenturies(date)
-  // Mean longitude (deg)
-  const L0 = ((218.3165 + 481267.8813 * T) % 360 + 360) % 360
-  // Mean anomaly (deg)
-  const M = ((134.9634 + 477198.8676 * T) % 360 + 360) % 360
-  // Argument of latitude (deg)
-  const F = ((93.2720 + 483202.0175 * T) % 360 + 360) % 360
-
-  const Mrad = M * DEG2RAD
-  const Frad = F * DEG2RAD
-
-  // Ecliptic longitude (simplified)
-  const lonRad = (L0 + 6.289 * Math.sin(Mrad)) * DEG2RAD
-  // Ecliptic latitude (simplified)
-  const latRad = 5.128 * Math.sin(Frad) * DEG2RAD
-  // Distance (km)
-  const dist = 385001 - 20905 * Math.cos(Mrad)
-
-  // Obliquity of ecliptic
-  const eps = (23.439291 - 0.0130042 * T) * DEG2RAD
-
-  // Ecliptic to ECI
-  const cosLat = Math.cos(latRad)
-  const sinLat = Math.sin(latRad)
-  const cosLon = Math.cos(lonRad)
-  const sinLon = Math.sin(lonRad)
-  const cosEps = Math.cos(eps)
-  const sinEps = Math.sin(eps)
-
-  const xEcl = dist * cosLat * cosLon
-  const yEcl = dist * cosLat * sinLon
-  const zEcl = dist * sinLat
-
-  return {
-    x: xEcl,
-    y: yEcl * cosEps - zEcl * sinEps,
-    z: yEcl * sinEps + zEcl * cosEps,
-  }
-}
-
 // ─── Total acceleration dispatcher ───
 
 /**
  * Compute total acceleration at a given state and time.
  * Sums all enabled perturbation forces.
- * sunPos/moonPos are passed in to avoid recomputing per RK4 sub-step.
+ * sunPos/moonPos are passed in to avoid recomputing per RK4 sub-step;
+ * `earthAngle` is the sidereal rotation angle at the stage time.
+ * `dragEnv` carries space weather and the Sun for the density model;
+ * `thrust` is the acceleration of a finite burn in progress, if any.
  */
 function totalAcceleration(
   x: number, y: number, z: number,
@@ -351,6 +317,9 @@ function totalAcceleration(
   sc: SpacecraftProps,
   sunPos: Vec3 | null,
   moonPos: Vec3 | null,
+  earthAngle: number,
+  dragEnv: DragEnvironment | null = null,
+  thrust: ThrustAccel | null = null,
 ): Vec3 {
   const rMag = Math.sqrt(x * x + y * y + z * z)
 
@@ -359,18 +328,16 @@ function totalAcceleration(
   let ay = -MU_EARTH_KM * y / (rMag * rMag * rMag)
   let az = -MU_EARTH_KM * z / (rMag * rMag * rMag)
 
-  if (config.j2) {
-    const a = accelJ2(x, y, z, rMag)
+  if (config.harmonics) {
+    const a = accelHarmonics(x, y, z, earthAngle, config.gravityDegree, config.gravityOrder)
     ax += a.x; ay += a.y; az += a.z
-  }
-
-  if (config.j3j6) {
-    const a = accelJ3toJ6(x, y, z, rMag)
+  } else if (config.j2) {
+    const a = accelJ2(x, y, z, rMag)
     ax += a.x; ay += a.y; az += a.z
   }
 
   if (config.drag) {
-    const a = accelDrag(x, y, z, vx, vy, vz, rMag, sc)
+    const a = accelDrag(x, y, z, vx, vy, vz, rMag, sc, dragEnv)
     ax += a.x; ay += a.y; az += a.z
   }
 
@@ -389,57 +356,453 @@ function totalAcceleration(
     ax += a.x; ay += a.y; az += a.z
   }
 
+  if (thrust) {
+    const d = burnDirectionECI([x, y, z, vx, vy, vz], thrust.frame, thrust.direction)
+    ax += d.x * thrust.accelKmS2; ay += d.y * thrust.accelKmS2; az += d.z * thrust.accelKmS2
+  }
+
   return { x: ax, y: ay, z: az }
 }
 
-// ─── RK4 Integrator (3D) ───
+// ─── Integrator steppers ───
+
+type Vec6 = [number, number, number, number, number, number]
+/** State derivative; dt is the stage time past the start of the current step */
+type Deriv = (y: Vec6, dt?: number) => Vec6
+
+function stateToVec6(s: StateVector): Vec6 {
+  return [s.x, s.y, s.z, s.vx, s.vy, s.vz]
+}
+
+function vec6ToState(y: Vec6): StateVector {
+  return { x: y[0], y: y[1], z: y[2], vx: y[3], vy: y[4], vz: y[5] }
+}
+
+function axpy(y: Vec6, k: Vec6, s: number): Vec6 {
+  return [y[0] + s * k[0], y[1] + s * k[1], y[2] + s * k[2], y[3] + s * k[3], y[4] + s * k[4], y[5] + s * k[5]]
+}
+
+/** Classic RK4 step on the 6-component state [x,y,z,vx,vy,vz] */
+function rk4Step(f: Deriv, y: Vec6, h: number, k1: Vec6): Vec6 {
+  const k2 = f(axpy(y, k1, h / 2), h / 2)
+  const k3 = f(axpy(y, k2, h / 2), h / 2)
+  const k4 = f(axpy(y, k3, h), h)
+  const out = [0, 0, 0, 0, 0, 0] as Vec6
+  for (let i = 0; i < 6; i++) out[i] = y[i] + h / 6 * (k1[i] + 2 * k2[i] + 2 * k3[i] + k4[i])
+  return out
+}
 
 /**
- * Single RK4 step for 6-component state vector [x,y,z,vx,vy,vz].
- * Sun/Moon positions computed once per step and reused across sub-evaluations.
+ * Cubic Hermite dense output across one RK4 step, from the end-point states
+ * and derivatives; theta in [0, 1]
  */
-function rk4Step3D(
-  state: StateVector,
-  tMs: number,
-  dtSec: number,
+function hermiteDense(y0: Vec6, f0: Vec6, y1: Vec6, f1: Vec6, h: number, theta: number): Vec6 {
+  const s2 = theta * theta
+  const s3 = s2 * theta
+  const h00 = 2 * s3 - 3 * s2 + 1
+  const h10 = s3 - 2 * s2 + theta
+  const h01 = -2 * s3 + 3 * s2
+  const h11 = s3 - s2
+  const out = [0, 0, 0, 0, 0, 0] as Vec6
+  for (let i = 0; i < 6; i++) out[i] = h00 * y0[i] + h10 * h * f0[i] + h01 * y1[i] + h11 * h * f1[i]
+  return out
+}
+
+// ─── Integration driver ───
+
+/**
+ * Finite burn in progress; mass is linear in time at constant thrust.
+ * A low-thrust arc has no fixed end: it thrusts only in sunlight and ends
+ * once its propellant is spent.
+ */
+interface FiniteBurnArc {
+  burn: PlannedBurn
+  startSec: number
+  endSec: number
+  massStartKg: number
+  mdotKgS: number
+  propellantKg: number
+  truncated: boolean
+  elementsBefore: OrbitalElements
+  lowThrust: boolean
+  thrustN: number
+  propUsedKg: number
+  sunlit: boolean
+  eclipseSec: number
+  eclipsePasses: number
+}
+
+// Step ceiling while a low-thrust arc is active, so shadow entry/exit is resolved
+const LOW_THRUST_MAX_STEP_SEC = 60
+
+/**
+ * Integrate from `state0` for `totalTimeSec`, sampling the output at a fixed
+ * cadence so downstream consumers (ground track, interpolation, pass
+ * geometry) see uniformly spaced points. RK4 steps land on the output grid;
+ * DP5(4) steps are adaptive and sampled from the dense-output polynomial.
+ *
+ * When a burn plan is given, burns execute in order: each one is armed once
+ * the previous burn completes and fires at its epoch offset (or immediately,
+ * if that time has passed) or at the Nth matching orbit event, located by
+ * bisection on the step's dense output. Steps are cut at every burn
+ * boundary, impulsive burns add a post-burn sample at the burn time, and the
+ * spacecraft mass seen by drag/SRP starts from the wet mass (dry mass plus
+ * loaded propellant) and is depleted as propellant is consumed, never below
+ * the dry mass. Burns armed once the tank is empty are not fired and are
+ * reported as 'no-propellant'.
+ * Low-thrust burns fly at the power-limited electric thrust (scaled by the
+ * duty cycle) and coast whenever the spacecraft is in Earth shadow.
+ */
+function integrate(
+  state0: StateVector,
+  epochMs: number,
+  totalTimeSec: number,
+  outputDtSec: number,
   config: PerturbationConfig,
   sc: SpacecraftProps,
-): StateVector {
-  // Compute Sun/Moon positions once per step (they barely move in 30s)
-  const date = new Date(tMs)
-  const sunPos = (config.srp || config.thirdBodySun) ? computeSunPositionECI(date) : null
-  const moonPos = config.thirdBodyMoon ? computeMoonPositionECI(date) : null
+  ic: IntegratorConfig,
+  plan: BurnPlan | null,
+  weather: SpaceWeather,
+  onProgress?: (fraction: number) => void,
+): NumericalPropagationResult {
+  const adaptive = ic.method === 'dp54'
+  let sunPos: Vec3 | null = null
+  let moonPos: Vec3 | null = null
+  let dragEnv: DragEnvironment | null = null
+  let thrust: ThrustAccel | null = null
+  let scNow = sc
+  let evals = 0
+  // Start time of the current step, and the sidereal angle at epoch
+  let stepStartSec = 0
+  const gmst0 = config.harmonics ? dateToGMST(new Date(epochMs)) : 0
+
+  // Sun and Moon are frozen within a step; the stage time offsets only drive
+  // the Earth rotation seen by the tesseral harmonics
+  const f: Deriv = (y, dt = 0) => {
+    evals++
+    const earthAngle = gmst0 + OMEGA_EARTH * (stepStartSec + dt)
+    const a = totalAcceleration(y[0], y[1], y[2], y[3], y[4], y[5], config, scNow, sunPos, moonPos, earthAngle, dragEnv, thrust)
+    return [y[3], y[4], y[5], a.x, a.y, a.z]
+  }
 
-  function deriv(sx: number, sy: number, sz: number, svx: number, svy: number, svz: number) {
-    const a = totalAcceleration(sx, sy, sz, svx, svy, svz, config, sc, sunPos, moonPos)
-    return { dx: svx, dy: svy, dz: svz, dvx: a.x, dvy: a.y, dvz: a.z }
+  // Sun/Moon evaluated once per step (low-thrust burns need the Sun for shadow gating)
+  const needSun = config.srp || config.thirdBodySun || config.drag
+    || (plan?.burns.some((b) => b.enabled && b.model === 'low-thrust') ?? false)
+  const updateBodies = (tSec: number) => {
+    stepStartSec = tSec
+    const date = new Date(epochMs + tSec * 1000)
+    sunPos = needSun ? sunPositionEci(date) : null
+    moonPos = config.thirdBodyMoon ? moonPositionEci(date) : null
+    dragEnv = config.drag && sunPos ? { weather, sunPos, date } : null
   }
 
-  const dt = dtSec
-  const k1 = deriv(state.x, state.y, state.z, state.vx, state.vy, state.vz)
+  let t = 0
+  let y = stateToVec6(state0)
+  updateBodies(0)
+  let k1 = f(y)
+  // Initial adaptive step guess: ~1/200 of the local orbit timescale r/v
+  const r0 = Math.sqrt(y[0] * y[0] + y[1] * y[1] + y[2] * y[2])
+  const v0 = Math.sqrt(y[3] * y[3] + y[4] * y[4] + y[5] * y[5])
+  let h = adaptive
+    ? Math.min(ic.maxStepSec, Math.max(ic.minStepSec, 0.005 * r0 / v0 * 2 * Math.PI))
+    : outputDtSec
+
+  const trajectory: TrajectoryPoint[] = [{ t: epochMs, state: vec6ToState(y) }]
+  let nextOutSec = outputDtSec
+  let accepted = 0, rejected = 0
+  let hMin = Infinity, hMax = 0
+  let lastProgress = 0
+
+  // ─── Burn plan state ───
+  const burns = plan ? plan.burns.filter((b) => b.enabled) : []
+  const isp = plan?.propulsion.specificImpulse ?? 0
+  const thrustN = plan?.propulsion.thrust ?? 0
+  const lowThrustN = plan?.lowThrust ? electricThrust(plan.propulsion, plan.lowThrust.availablePowerW) : thrustN
+  const dutyCycle = Math.max(0, Math.min(1, plan?.lowThrust?.dutyCycle ?? 1))
+  const executed: ExecutedBurn[] = []
+  let burnIdx = 0
+  let eventCount = 0
+  let eventFired = false
+  let propellantLeft = Math.max(0, plan?.propulsion.propellantMass ?? 0)
+  const dryMass = plan ? plan.dryMassKg : sc.mass
+  let mass = plan ? wetMassKg(plan.dryMassKg, plan.propulsion) : sc.mass
+  scNow = { ...sc, mass }
+  // Assigned inside fireBurn; the cast keeps TS from narrowing it to null in the loop
+  let arc = null as FiniteBurnArc | null
+
+  const osculating = () => cartesianToKeplerian(vec6ToState(y))
+
+  const pushSample = () => {
+    const tMs = epochMs + t * 1000
+    const last = trajectory[trajectory.length - 1]
+    if (Math.abs(last.t - tMs) < 1e-6) last.state = vec6ToState(y)
+    else trajectory.push({ t: tMs, state: vec6ToState(y) })
+  }
 
-  const k2 = deriv(
-    state.x + k1.dx * dt / 2, state.y + k1.dy * dt / 2, state.z + k1.dz * dt / 2,
-    state.vx + k1.dvx * dt / 2, state.vy + k1.dvy * dt / 2, state.vz + k1.dvz * dt / 2,
-  )
+  const completeBurn = (record: ExecutedBurn) => {
+    executed.push(record)
+    burnIdx++
+    eventCount = 0
+    scNow = { ...sc, mass }
+  }
 
-  const k3 = deriv(
-    state.x + k2.dx * dt / 2, state.y + k2.dy * dt / 2, state.z + k2.dz * dt / 2,
-    state.vx + k2.dvx * dt / 2, state.vy + k2.dvy * dt / 2, state.vz + k2.dvz * dt / 2,
-  )
+  const fireBurn = (burn: PlannedBurn) => {
+    if (burn.deltaV > 0 && propellantLeft <= 1e-12) {
+      completeBurn({
+        id: burn.id,
+        name: burn.name,
+        status: 'no-propellant',
+        startMs: epochMs + t * 1000,
+        durationSec: 0,
+        deltaV: 0,
+        propellantKg: 0,
+        massBeforeKg: mass,
+        massAfterKg: mass,
+        elementsBefore: null,
+        elementsAfter: null,
+      })
+      return
+    }
+    const elementsBefore = osculating()
+    const wanted = propellantForBurn(mass, burn.deltaV, isp)
+    const propKg = Math.min(wanted, propellantLeft)
+    const short = burn.deltaV > 0 && (isp <= 0 || propKg < wanted - 1e-12)
+
+    const arcThrustN = burn.model === 'low-thrust' ? lowThrustN * dutyCycle : thrustN
+    if (burn.model !== 'impulsive' && arcThrustN > 0 && propKg > 0) {
+      const mdot = arcThrustN / (isp * G0)
+      arc = {
+        burn,
+        startSec: t,
+        endSec: burn.model === 'low-thrust' ? Infinity : t + propKg / mdot,
+        massStartKg: mass,
+        mdotKgS: mdot,
+        propellantKg: propKg,
+        truncated: short,
+        elementsBefore,
+        lowThrust: burn.model === 'low-thrust',
+        thrustN: arcThrustN,
+        propUsedKg: 0,
+        sunlit: true,
+        eclipseSec: 0,
+        eclipsePasses: 0,
+      }
+      return
+    }
 
-  const k4 = deriv(
-    state.x + k3.dx * dt, state.y + k3.dy * dt, state.z + k3.dz * dt,
-    state.vx + k3.dvx * dt, state.vy + k3.dvy * dt, state.vz + k3.dvz * dt,
-  )
+    // Impulsive (or a finite/low-thrust burn with no thrust available, which delivers nothing)
+    const usable = burn.model === 'impulsive' ? propKg : 0
+    const dv = deltaVForPropellant(mass, usable, isp)
+    const dir = burnDirectionECI(y, burn.frame, burn.direction)
+    y = [y[0], y[1], y[2], y[3] + dir.x * dv / 1000, y[4] + dir.y * dv / 1000, y[5] + dir.z * dv / 1000]
+    const massBefore = mass
+    mass = Math.max(dryMass, mass - usable)
+    propellantLeft = Math.max(0, propellantLeft - usable)
+    completeBurn({
+      id: burn.id,
+      name: burn.name,
+      status: short || usable < propKg ? 'truncated' : 'executed',
+      startMs: epochMs + t * 1000,
+      durationSec: 0,
+      deltaV: dv,
+      propellantKg: usable,
+      massBeforeKg: massBefore,
+      massAfterKg: mass,
+      elementsBefore,
+      elementsAfter: osculating(),
+    })
+    pushSample()
+  }
+
+  const finishArc = (a: FiniteBurnArc, endedEarly: boolean) => {
+    const burnedSec = t - a.startSec
+    const propKg = a.lowThrust ? a.propUsedKg : Math.min(a.propellantKg, a.mdotKgS * burnedSec)
+    mass = Math.max(dryMass, a.massStartKg - propKg)
+    propellantLeft = Math.max(0, propellantLeft - propKg)
+    thrust = null
+    completeBurn({
+      id: a.burn.id,
+      name: a.burn.name,
+      status: a.truncated || endedEarly ? 'truncated' : 'executed',
+      startMs: epochMs + a.startSec * 1000,
+      durationSec: burnedSec,
+      deltaV: deltaVForPropellant(a.massStartKg, propKg, isp),
+      propellantKg: propKg,
+      massBeforeKg: a.massStartKg,
+      massAfterKg: mass,
+      elementsBefore: a.elementsBefore,
+      elementsAfter: osculating(),
+      ...(a.lowThrust ? { eclipseCoastSec: a.eclipseSec, eclipsePasses: a.eclipsePasses } : {}),
+    })
+  }
+
+  while (t < totalTimeSec - 1e-9) {
+    // ─── Burn boundaries at the current time ───
+    let discontinuity = false
+    if (arc && (arc.lowThrust ? arc.propUsedKg >= arc.propellantKg - 1e-9 : t >= arc.endSec - 1e-9)) {
+      finishArc(arc, false)
+      arc = null
+      discontinuity = true
+    }
+    while (!arc && burnIdx < burns.length) {
+      const burn = burns[burnIdx]
+      const due = burn.trigger === 'epoch' ? t >= burn.offsetSec - 1e-9 : eventFired
+      if (!due) break
+      eventFired = false
+      fireBurn(burn)
+      discontinuity = true
+    }
+
+    // ─── Step size, cut at the next burn boundary ───
+    let tStop = totalTimeSec
+    const pending = !arc && burnIdx < burns.length ? burns[burnIdx] : null
+    if (arc) tStop = Math.min(tStop, arc.endSec)
+    if (pending?.trigger === 'epoch') tStop = Math.min(tStop, pending.offsetSec)
+
+    let hTry = adaptive
+      ? Math.min(h, tStop - t)
+      : Math.min(outputDtSec, nextOutSec - t, tStop - t)
+    // Resolve the mass flow of a finite burn with at least ~20 steps
+    if (arc && adaptive) hTry = Math.min(hTry, Math.max(ic.minStepSec, (arc.endSec - arc.startSec) / 20))
+
+    updateBodies(t)
+    // Low-thrust arcs: shadow state at the step start gates the thruster
+    if (arc?.lowThrust) {
+      const sunlit = sunPos !== null && !inEarthShadow(y[0], y[1], y[2], sunPos)
+      if (!sunlit && arc.sunlit) arc.eclipsePasses++
+      arc.sunlit = sunlit
+      hTry = Math.min(hTry, LOW_THRUST_MAX_STEP_SEC)
+      if (sunlit) hTry = Math.min(hTry, (arc.propellantKg - arc.propUsedKg) / arc.mdotKgS)
+    }
+    // Thrust acceleration uses the mass at mid-step
+    const setThrust = (hStep: number) => {
+      if (!arc) return
+      if (arc.lowThrust && !arc.sunlit) {
+        thrust = null
+        scNow = { ...sc, mass: arc.massStartKg - arc.propUsedKg }
+        return
+      }
+      const used = arc.lowThrust ? arc.propUsedKg + arc.mdotKgS * hStep / 2 : arc.mdotKgS * (t + hStep / 2 - arc.startSec)
+      const m = arc.massStartKg - used
+      thrust = { frame: arc.burn.frame, direction: arc.burn.direction, accelKmS2: arc.thrustN / m / 1000 }
+      scNow = { ...sc, mass: m }
+    }
+    setThrust(hTry)
+    // FSAL derivative is stale after a burn starts/ends; RK4 always re-evaluates
+    if (discontinuity || arc || !adaptive) k1 = f(y)
+
+    let yNew: Vec6
+    let dense: (theta: number) => Vec6
+    let err = 0
+    if (adaptive) {
+      const attempt = dp54Attempt(f, y, hTry, k1, ic)
+      err = attempt.err
+      if (err > 1 && hTry > ic.minStepSec) {
+        rejected++
+        h = Math.min(ic.maxStepSec, Math.max(ic.minStepSec, hTry * Math.max(0.2, 0.9 * Math.pow(err, -0.2))))
+        continue
+      }
+      yNew = attempt.yNew
+      k1 = attempt.k[6]
+      const rcont = dpDenseCoeffs(y, attempt.yNew, attempt.k, hTry)
+      dense = (theta) => dpDenseEval(rcont, theta)
+    } else {
+      const y0 = y, f0 = k1, hStep = hTry
+      const y1 = rk4Step(f, y, hTry, k1)
+      let f1: Vec6 | null = null
+      yNew = y1
+      dense = (theta) => {
+        if (theta >= 1) return y1
+        f1 ??= f(y1, hStep)
+        return hermiteDense(y0, f0, y1, f1, hStep, theta)
+      }
+    }
+
+    // ─── Orbit-event trigger: count rising crossings, cut the step at the Nth ───
+    let stepSec = hTry
+    if (pending && pending.trigger !== 'epoch') {
+      const trig = pending.trigger
+      if (burnEventValue(trig, y) < 0 && burnEventValue(trig, yNew) >= 0) {
+        eventCount++
+        if (eventCount >= Math.max(1, pending.occurrence)) {
+          let lo = 0, hi = 1
+          for (let iter = 0; iter < 50 && (hi - lo) * hTry > 1e-3; iter++) {
+            const mid = (lo + hi) / 2
+            if (burnEventValue(trig, dense(mid)) < 0) lo = mid
+            else hi = mid
+          }
+          stepSec = hi * hTry
+          yNew = dense(hi)
+          eventFired = true
+          k1 = f(yNew, stepSec)
+        }
+      }
+    }
+
+    // Sample output times inside the (possibly cut) step
+    while (nextOutSec <= t + stepSec + 1e-9 && nextOutSec <= totalTimeSec + 1e-9) {
+      const theta = Math.min(1, (nextOutSec - t) / hTry)
+      trajectory.push({ t: epochMs + nextOutSec * 1000, state: vec6ToState(theta >= 1 && stepSec === hTry ? yNew : dense(theta)) })
+      nextOutSec += outputDtSec
+    }
+
+    if (arc?.lowThrust) {
+      if (arc.sunlit) arc.propUsedKg = Math.min(arc.propellantKg, arc.propUsedKg + arc.mdotKgS * stepSec)
+      else arc.eclipseSec += stepSec
+    }
+    t += stepSec
+    y = yNew
+    accepted++
+    hMin = Math.min(hMin, stepSec)
+    hMax = Math.max(hMax, stepSec)
+
+    if (adaptive && stepSec === hTry) {
+      const factor = err === 0 ? 5 : Math.min(5, Math.max(0.2, 0.9 * Math.pow(err, -0.2)))
+      h = Math.min(ic.maxStepSec, Math.max(ic.minStepSec, hTry * factor))
+    }
+
+    if (onProgress && t / totalTimeSec - lastProgress >= 0.01) {
+      lastProgress = t / totalTimeSec
+      onProgress(lastProgress)
+    }
+  }
+
+  // Make sure the final state is present even if it falls between output samples
+  if (trajectory[trajectory.length - 1].t < epochMs + totalTimeSec * 1000 - 1) {
+    trajectory.push({ t: epochMs + totalTimeSec * 1000, state: vec6ToState(y) })
+  }
+
+  // Close out a burn still firing at the end, and any burns never triggered
+  if (arc) finishArc(arc, true)
+  for (const burn of burns.slice(burnIdx)) {
+    executed.push({
+      id: burn.id,
+      name: burn.name,
+      status: 'not-reached',
+      startMs: 0,
+      durationSec: 0,
+      deltaV: 0,
+      propellantKg: 0,
+      massBeforeKg: mass,
+      massAfterKg: mass,
+      elementsBefore: null,
+      elementsAfter: null,
+    })
+  }
+  onProgress?.(1)
 
   return {
-    x:  state.x  + dt / 6 * (k1.dx  + 2 * k2.dx  + 2 * k3.dx  + k4.dx),
-    y:  state.y  + dt / 6 * (k1.dy  + 2 * k2.dy  + 2 * k3.dy  + k4.dy),
-    z:  state.z  + dt / 6 * (k1.dz  + 2 * k2.dz  + 2 * k3.dz  + k4.dz),
-    vx: state.vx + dt / 6 * (k1.dvx + 2 * k2.dvx + 2 * k3.dvx + k4.dvx),
-    vy: state.vy + dt / 6 * (k1.dvy + 2 * k2.dvy + 2 * k3.dvy + k4.dvy),
-    vz: state.vz + dt / 6 * (k1.dvz + 2 * k2.dvz + 2 * k3.dvz + k4.dvz),
+    trajectory,
+    stats: {
+      method: ic.method,
+      acceptedSteps: accepted,
+      rejectedSteps: rejected,
+      functionEvals: evals,
+      minStepSec: accepted > 0 ? hMin : 0,
+      maxStepSec: hMax,
+      meanStepSec: accepted > 0 ? totalTimeSec / accepted : 0,
+    },
+    burns: executed,
   }
 }
 
@@ -447,19 +810,30 @@ function rk4Step3D(
 
 /**
  * Propagate an orbit numerically from Keplerian elements.
- * Returns timestamped trajectory points for interpolation.
+ * Returns timestamped trajectory points (every `dtSec`) for interpolation
+ * plus integrator step statistics and, when `burnPlan` is given, the
+ * outcome of every enabled burn.
+ * `onProgress` receives the completed fraction (0-1) roughly every 1%.
  */
-export function propagateNumerical(
+export function propagateNumericalWithStats(
   elements: OrbitalElements,
   epochMs: number,
   numOrbits: number,
   dtSec: number,
   config: PerturbationConfig,
   sc: SpacecraftProps,
-): TrajectoryPoint[] {
+  options?: {
+    integrator?: IntegratorConfig
+    burnPlan?: BurnPlan | null
+    spaceWeather?: SpaceWeather
+    onProgress?: (fraction: number) => void
+  },
+): NumericalPropagationResult {
+  const integrator = options?.integrator ?? DEFAULT_INTEGRATOR_CONFIG
+
   // Convert elements to state vector using existing utility
   const { position, velocity } = keplerianToCartesian(elements, MU_EARTH_KM)
-  let state: StateVector = {
+  const state: StateVector = {
     x: position.x, y: position.y, z: position.z,
     vx: velocity.x, vy: velocity.y, vz: velocity.z,
   }
@@ -476,25 +850,37 @@ export function propagateNumerical(
   const effectiveDt = numSteps > maxSteps
     ? totalTimeSec / maxSteps
     : dtSec
-  const effectiveNumSteps = numSteps > maxSteps ? maxSteps : numSteps
 
-  const trajectory: TrajectoryPoint[] = [{ t: epochMs, state: { ...state } }]
-
-  let tMs = epochMs
-  for (let i = 0; i < effectiveNumSteps; i++) {
-    state = rk4Step3D(state, tMs, effectiveDt, config, sc)
-    tMs += effectiveDt * 1000
-    trajectory.push({ t: tMs, state: { ...state } })
-  }
+  return integrate(
+    state, epochMs, totalTimeSec, effectiveDt, config, sc, integrator,
+    options?.burnPlan ?? null, options?.spaceWeather ?? SOLAR_ACTIVITY_WEATHER.moderate, options?.onProgress,
+  )
+}
 
-  return trajectory
+/**
+ * Propagate an orbit numerically from Keplerian elements.
+ * Returns timestamped trajectory points for interpolation.
+ */
+export function propagateNumerical(
+  elements: OrbitalElements,
+  epochMs: number,
+  numOrbits: number,
+  dtSec: number,
+  config: PerturbationConfig,
+  sc: SpacecraftProps,
+  integrator?: IntegratorConfig,
+  burnPlan?: BurnPlan | null,
+): TrajectoryPoint[] {
+  return propagateNumericalWithStats(elements, epochMs, numOrbits, dtSec, config, sc, { integrator, burnPlan }).trajectory
 }
 
 // ─── Trajectory interpolation ───
 
 /**
- * Interpolate position at arbitrary time from pre-propagated trajectory.
- * Uses binary search + linear interpolation between bracketing points.
+ * Interpolate state at arbitrary time from pre-propagated trajectory.
+ * Uses binary search + cubic Hermite interpolation on position with the
+ * stored velocities as end-point derivatives, so sparse (adaptive-step or
+ * long-cadence) trajectories stay on the orbit between samples.
  */
 export function interpolateTrajectory(
   trajectory: TrajectoryPoint[],
@@ -512,17 +898,35 @@ export function interpolateTrajectory(
     else hi = mid
   }
 
-  const p0 = trajectory[lo]
-  const p1 = trajectory[hi]
-  const frac = (tMs - p0.t) / (p1.t - p0.t)
+  const p0 = trajectory[lo].state
+  const p1 = trajectory[hi].state
+  const h = (trajectory[hi].t - trajectory[lo].t) / 1000  // seconds
+  const s = (tMs - trajectory[lo].t) / (trajectory[hi].t - trajectory[lo].t)
+
+  // Hermite basis and derivatives (d/ds)
+  const s2 = s * s
+  const s3 = s2 * s
+  const h00 = 2 * s3 - 3 * s2 + 1
+  const h10 = s3 - 2 * s2 + s
+  const h01 = -2 * s3 + 3 * s2
+  const h11 = s3 - s2
+  const d00 = 6 * s2 - 6 * s
+  const d10 = 3 * s2 - 4 * s + 1
+  const d01 = -6 * s2 + 6 * s
+  const d11 = 3 * s2 - 2 * s
+
+  const pos = (a: number, va: number, b: number, vb: number) =>
+    h00 * a + h10 * h * va + h01 * b + h11 * h * vb
+  const vel = (a: number, va: number, b: number, vb: number) =>
+    (d00 * a + d10 * h * va + d01 * b + d11 * h * vb) / h
 
   return {
-    x:  p0.state.x  + frac * (p1.state.x  - p0.state.x),
-    y:  p0.state.y  + frac * (p1.state.y  - p0.state.y),
-    z:  p0.state.z  + frac * (p1.state.z  - p0.state.z),
-    vx: p0.state.vx + frac * (p1.state.vx - p0.state.vx),
-    vy: p0.state.vy + frac * (p1.state.vy - p0.state.vy),
-    vz: p0.state.vz + frac * (p1.state.vz - p0.state.vz),
+    x:  pos(p0.x, p0.vx, p1.x, p1.vx),
+    y:  pos(p0.y, p0.vy, p1.y, p1.vy),
+    z:  pos(p0.z, p0.vz, p1.z, p1.vz),
+    vx: vel(p0.x, p0.vx, p1.x, p1.vx),
+    vy: vel(p0.y, p0.vy, p1.y, p1.vy),
+    vz: vel(p0.z, p0.vz, p1.z, p1.vz),
   }
 }
 
@@ -598,10 +1002,12 @@ export function cartesianToKeplerian(state: StateVector, mu: number = MU_EARTH_K
 export function configForMode(mode: PropagationMode, custom?: Partial<PerturbationConfig>): PerturbationConfig {
   switch (mode) {
     case 'keplerian':
-      return { j2: false, j3j6: false, drag: false, srp: false, thirdBodyMoon: false, thirdBodySun: false }
+    case 'sgp4':
+      // SGP4 carries its own perturbation model; the numerical toggles do not apply
+      return { ...GRAVITY_FIELD_DEFAULTS, j2: false, harmonics: false, drag: false, srp: false, thirdBodyMoon: false, thirdBodySun: false }
     case 'numerical-j2':
-      return { j2: true, j3j6: false, drag: false, srp: false, thirdBodyMoon: false, thirdBodySun: false, ...custom }
+      return { ...GRAVITY_FIELD_DEFAULTS, j2: true, harmonics: false, drag: false, srp: false, thirdBodyMoon: false, thirdBodySun: false, ...custom }
     case 'numerical-full':
-      return { j2: true, j3j6: true, drag: true, srp: true, thirdBodyMoon: true, thirdBodySun: true, ...custom }
+      return { ...GRAVITY_FIELD_DEFAULTS, j2: true, harmonics: true, drag: true, srp: true, thirdBodyMoon: true, thirdBodySun: true, ...custom }
   }
 }
@@ -1,24 +1,26 @@
-import { R_EARTH_EQUATORIAL, MU_EARTH_KM, getAtmosphericDensity } from './constants'
+import { R_EARTH_EQUATORIAL, MU_EARTH_KM, SEC_PER_DAY } from './constants'
+import { orbitAveragedDensity, resolveSpaceWeather } from './atmosphere'
+import type { SolarActivity, SpaceWeather } from './atmosphere'
+import type { SpaceWeatherForecast } from './solar-cycle'
+import type { OrbitalElements } from '@/types/orbit'
+
+export type { SolarActivity, SpaceWeather, SpaceWeatherForecast }
 
 /**
- * Solar activity levels and corresponding F10.7 indices
+ * Solar input for decay: a fixed activity level, fixed indices, or a
+ * time-varying forecast evaluated at each step's date.
  */
-export type SolarActivity = 'low' | 'moderate' | 'high'
-
-const F107_VALUES: Record<SolarActivity, number> = {
-  low: 70,
-  moderate: 140,
-  high: 250,
-}
+export type DecayWeather = SolarActivity | SpaceWeather | SpaceWeatherForecast
 
 /**
- * Atmospheric density multiplier based on solar activity
- * The exponential model in constants.ts represents moderate activity.
- * F10.7 scaling: rho ~ rho_ref * (F10.7 / 140)^0.7
+ * Optional orbit context for the density model: inclination sets the
+ * latitudes sampled by the orbit average, and a start date enables the
+ * seasonal/semiannual density terms (advanced day by day during decay).
+ * A forecast without a start date begins today.
  */
-function solarActivityMultiplier(activity: SolarActivity): number {
-  const f107 = F107_VALUES[activity]
-  return Math.pow(f107 / 140, 0.7)
+export interface DecayOptions {
+  inclinationDeg?: number
+  startDate?: Date
 }
 
 /**
@@ -60,15 +62,16 @@ export function estimateCrossSection(size: string): number {
 function decayRate(
   altitudeKm: number,
   ballisticCoeffM2Kg: number,
-  solarActivity: SolarActivity,
+  weather: SpaceWeather,
+  inclinationDeg?: number,
+  date?: Date,
 ): number {
   if (altitudeKm <= 0) return 0
 
   const r = R_EARTH_EQUATORIAL + altitudeKm // km
-  const v = Math.sqrt(MU_EARTH_KM / r)  // km/s
 
-  // Get atmospheric density (kg/m^3) and apply solar multiplier
-  const rho = getAtmosphericDensity(altitudeKm) * solarActivityMultiplier(solarActivity)
+  // Orbit-averaged atmospheric density (kg/m^3) for the given space weather
+  const rho = orbitAveragedDensity(altitudeKm, weather, { inclinationDeg, date })
 
   // Convert rho from kg/m^3 to kg/km^3 for consistent units
   const rhoKm = rho * 1e9
@@ -85,6 +88,22 @@ function decayRate(
   return daPerOrbit * orbitsPerDay // km/day
 }
 
+/**
+ * Date origin and per-step weather lookup shared by the decay integrators.
+ * Forecasts are sampled at each step's date; fixed inputs are resolved once.
+ */
+function decayWeatherSource(
+  solarActivity: DecayWeather,
+  options?: DecayOptions,
+): { startMs: number | undefined; weatherAt: (date?: Date) => SpaceWeather } {
+  if (typeof solarActivity === 'function') {
+    const startMs = options?.startDate?.getTime() ?? Date.now()
+    return { startMs, weatherAt: (date) => solarActivity(date ?? new Date(startMs)) }
+  }
+  const weather = resolveSpaceWeather(solarActivity)
+  return { startMs: options?.startDate?.getTime(), weatherAt: () => weather }
+}
+
 /**
  * Simulate orbital decay over time
  * Returns array of {days, altitude} pairs
@@ -97,13 +116,15 @@ export interface DecayPoint {
 export function simulateDecay(
   initialAltitudeKm: number,
   ballisticCoeffM2Kg: number,
-  solarActivity: SolarActivity,
+  solarActivity: DecayWeather,
   maxYears: number = 30,
   stepDays: number = 1,
+  options?: DecayOptions,
 ): DecayPoint[] {
   const points: DecayPoint[] = []
   let alt = initialAltitudeKm
   const maxDays = maxYears * 365.25
+  const { startMs, weatherAt } = decayWeatherSource(solarActivity, options)
 
   points.push({ days: 0, altitude: alt })
 
@@ -112,8 +133,10 @@ export function simulateDecay(
     const subSteps = (alt < 200 && stepDays > 0.1) ? Math.ceil(stepDays / 0.1) : 1
     const subDt = stepDays / subSteps
 
+    const date = startMs !== undefined ? new Date(startMs + (d - stepDays) * 86400000) : undefined
+    const weather = weatherAt(date)
     for (let s = 0; s < subSteps; s++) {
-      const rate = decayRate(alt, ballisticCoeffM2Kg, solarActivity)
+      const rate = decayRate(alt, ballisticCoeffM2Kg, weather, options?.inclinationDeg, date)
       alt += rate * subDt // rate is negative
       if (alt <= 80) break
     }
@@ -130,14 +153,147 @@ export function simulateDecay(
 }
 
 /**
- * Estimate orbital lifetime in days
+ * Eccentric orbit decay: orbit-averaged semi-major axis and eccentricity
+ * Returns perigee/apogee altitude history
+ */
+export type DecayOrbit = Pick<OrbitalElements, 'semiMajorAxis' | 'eccentricity'> & { inclination?: number }
+
+export interface EccentricDecayPoint {
+  days: number
+  perigee: number        // km altitude
+  apogee: number         // km altitude
+  semiMajorAxis: number  // km
+  eccentricity: number
+}
+
+const REENTRY_PERIGEE_KM = 80
+// Drag above the density model's ceiling is neglected
+const DRAG_CEILING_KM = 2000
+// Simpson intervals over the drag arc (even)
+const DRAG_ARC_INTERVALS = 32
+// Sub-step limit on perigee/apogee motion (km), relaxed to 2% of the apsis spread
+const MAX_APSIS_STEP_KM = 1
+const MIN_SUBSTEP_DAYS = 1e-3
+
+/**
+ * Change in semi-major axis (km) and eccentricity per revolution from drag
+ * (King-Hele, non-rotating atmosphere):
+ *   Δa = −δ a² ∫ ρ (1 + e cosE)^(3/2) (1 − e cosE)^(−1/2) dE
+ *   Δe = −δ a (1 − e²) ∫ ρ ((1 + e cosE) / (1 − e cosE))^(1/2) cosE dE
+ * over eccentric anomaly E, with δ = Cd·A/m and the orbit-averaged density
+ * at each altitude. Only the arc below the drag ceiling contributes; the
+ * substitution E = Emax·u² clusters samples at perigee, where density peaks
+ * sharply on high-eccentricity orbits.
+ */
+function dragPerRevolution(
+  a: number,
+  e: number,
+  ballisticCoeffM2Kg: number,
+  weather: SpaceWeather,
+  inclinationDeg?: number,
+  date?: Date,
+): { da: number; de: number } {
+  const perigeeAlt = a * (1 - e) - R_EARTH_EQUATORIAL
+  if (perigeeAlt >= DRAG_CEILING_KM) return { da: 0, de: 0 }
+
+  const span = e > 0 ? (DRAG_CEILING_KM - perigeeAlt) / (a * e) : 2
+  const eMax = span >= 2 ? Math.PI : Math.acos(1 - span)
+
+  let sumA = 0
+  let sumE = 0
+  for (let k = 1; k <= DRAG_ARC_INTERVALS; k++) {
+    const u = k / DRAG_ARC_INTERVALS
+    const simpson = k === DRAG_ARC_INTERVALS ? 1 : k % 2 ? 4 : 2
+    const weight = simpson * 2 * eMax * u // × dE/du
+    const cosE = Math.cos(eMax * u * u)
+    const alt = a * (1 - e * cosE) - R_EARTH_EQUATORIAL
+    const rho = orbitAveragedDensity(alt, weather, { inclinationDeg, date }) * 1e9 // kg/km^3
+    const root = Math.sqrt((1 + e * cosE) / (1 - e * cosE))
+    sumA += weight * rho * (1 + e * cosE) * root
+    sumE += weight * rho * root * cosE
+  }
+
+  // Simpson h/3, doubled for the symmetric half-orbit
+  const quad = 2 / (3 * DRAG_ARC_INTERVALS)
+  const delta = ballisticCoeffM2Kg * 1e-6 // km^2/kg
+  return {
+    da: -delta * a * a * quad * sumA,
+    de: -delta * a * (1 - e * e) * quad * sumE,
+  }
+}
+
+export function simulateEccentricDecay(
+  orbit: DecayOrbit,
+  ballisticCoeffM2Kg: number,
+  solarActivity: DecayWeather,
+  maxYears: number = 30,
+  stepDays: number = 5,
+  options?: DecayOptions,
+): EccentricDecayPoint[] {
+  const points: EccentricDecayPoint[] = []
+  let a = orbit.semiMajorAxis
+  let e = Math.max(0, orbit.eccentricity)
+  const inclinationDeg = options?.inclinationDeg ?? orbit.inclination
+  const maxDays = maxYears * 365.25
+  const { startMs, weatherAt } = decayWeatherSource(solarActivity, options)
+
+  // Apsis altitudes are floored at re-entry, as in the circular model
+  const pushPoint = (days: number) => points.push({
+    days,
+    perigee: Math.max(a * (1 - e) - R_EARTH_EQUATORIAL, REENTRY_PERIGEE_KM),
+    apogee: Math.max(a * (1 + e) - R_EARTH_EQUATORIAL, REENTRY_PERIGEE_KM),
+    semiMajorAxis: a,
+    eccentricity: e,
+  })
+  const reentered = () => a * (1 - e) - R_EARTH_EQUATORIAL <= REENTRY_PERIGEE_KM
+
+  pushPoint(0)
+  if (reentered()) return points
+
+  for (let d = stepDays; d <= maxDays; d += stepDays) {
+    const date = startMs !== undefined ? new Date(startMs + (d - stepDays) * 86400000) : undefined
+    const weather = weatherAt(date)
+
+    // Sub-step so neither apsis moves too far per step as decay accelerates
+    let remaining = stepDays
+    while (remaining > 0 && !reentered()) {
+      const { da, de } = dragPerRevolution(a, e, ballisticCoeffM2Kg, weather, inclinationDeg, date)
+      const revsPerDay = SEC_PER_DAY / (2 * Math.PI * Math.sqrt(a * a * a / MU_EARTH_KM))
+      const aDot = da * revsPerDay
+      const eDot = de * revsPerDay
+      const perigeeRate = Math.abs(aDot * (1 - e) - a * eDot)
+      const apogeeRate = Math.abs(aDot * (1 + e) + a * eDot)
+      const apogeeLimit = Math.max(MAX_APSIS_STEP_KM, 0.02 * 2 * a * e)
+      const maxDt = 1 / Math.max(perigeeRate / MAX_APSIS_STEP_KM, apogeeRate / apogeeLimit, 1e-12)
+      const dt = Math.min(remaining, Math.max(maxDt, MIN_SUBSTEP_DAYS))
+      a += aDot * dt
+      e = Math.max(0, e + eDot * dt)
+      remaining -= dt
+    }
+
+    pushPoint(d)
+    if (reentered()) break
+  }
+
+  return points
+}
+
+/**
+ * Estimate orbital lifetime in days, from a circular altitude or an
+ * eccentric orbit (decayed by perigee/apogee)
  */
 export function estimateLifetime(
-  initialAltitudeKm: number,
+  initial: number | DecayOrbit,
   ballisticCoeffM2Kg: number,
-  solarActivity: SolarActivity,
+  solarActivity: DecayWeather,
+  options?: DecayOptions,
 ): number {
-  const decay = simulateDecay(initialAltitudeKm, ballisticCoeffM2Kg, solarActivity, 50, 1)
+  if (typeof initial !== 'number') {
+    const decay = simulateEccentricDecay(initial, ballisticCoeffM2Kg, solarActivity, 50, 5, options)
+    return decay[decay.length - 1].days
+  }
+
+  const decay = simulateDecay(initial, ballisticCoeffM2Kg, solarActivity, 50, 1, options)
   const lastPoint = decay[decay.length - 1]
 
   if (lastPoint.altitude <= 80) {
@@ -148,14 +304,15 @@ export function estimateLifetime(
 
 /**
  * Compute delta-v needed for deorbit burn to lower perigee to ~80km
- * Uses Hohmann transfer approximation
+ * Retrograde burn at apogee (the current altitude for circular orbits)
  */
-export function computeDeorbitDeltaV(currentAltitudeKm: number): number {
-  const r1 = R_EARTH_EQUATORIAL + currentAltitudeKm
+export function computeDeorbitDeltaV(perigeeAltitudeKm: number, apogeeAltitudeKm: number = perigeeAltitudeKm): number {
+  const rp = R_EARTH_EQUATORIAL + perigeeAltitudeKm
+  const r1 = R_EARTH_EQUATORIAL + Math.max(apogeeAltitudeKm, perigeeAltitudeKm)
   const r2 = R_EARTH_EQUATORIAL + 80 // target perigee
 
-  // Velocity at current altitude (circular orbit)
-  const v1 = Math.sqrt(MU_EARTH_KM / r1)
+  // Velocity at apogee of the current orbit
+  const v1 = Math.sqrt(MU_EARTH_KM * (2 / r1 - 2 / (r1 + rp)))
 
   // Velocity at apoapsis of deorbit ellipse
   const a_transfer = (r1 + r2) / 2
@@ -178,13 +335,19 @@ export interface ComplianceResult {
 }
 
 export function checkCompliance(
-  initialAltitudeKm: number,
+  initial: number | DecayOrbit,
   ballisticCoeffM2Kg: number,
-  solarActivity: SolarActivity,
+  solarActivity: DecayWeather,
+  options?: DecayOptions,
 ): ComplianceResult {
-  const lifetimeDays = estimateLifetime(initialAltitudeKm, ballisticCoeffM2Kg, solarActivity)
+  const lifetimeDays = estimateLifetime(initial, ballisticCoeffM2Kg, solarActivity, options)
   const lifetimeYears = lifetimeDays / 365.25
-  const deorbitDeltaV = computeDeorbitDeltaV(initialAltitudeKm)
+  const deorbitDeltaV = typeof initial === 'number'
+    ? computeDeorbitDeltaV(initial)
+    : computeDeorbitDeltaV(
+      initial.semiMajorAxis * (1 - initial.eccentricity) - R_EARTH_EQUATORIAL,
+      initial.semiMajorAxis * (1 + initial.eccentricity) - R_EARTH_EQUATORIAL,
+    )
 
   const lifetime25Year = lifetimeYears <= 25
   const lifetime5Year = lifetimeYears <= 5
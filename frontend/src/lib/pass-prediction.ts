@@ -5,6 +5,8 @@ import { dateToGMST } from './time-utils'
 import type { GroundStation } from '@/types/ground-station'
 import type { CommConfig } from './link-budget'
 import { computePassLinkBudget } from './link-budget'
+import type { ParsedTLE } from './tle'
+import { sgp4PositionFn } from './tle'
 
 export interface SatellitePass {
   station: string
@@ -106,7 +108,10 @@ function computeElevation(
 }
 
 /**
- * Predict satellite passes over ground stations
+ * Predict satellite passes over ground stations.
+ * When `options.tle` is given, positions come from SGP4 instead of the
+ * J2-secular Keplerian model. `options.onProgress` receives the completed
+ * fraction (0-1) across all stations.
  */
 export function predictPasses(
   elements: OrbitalElements,
@@ -114,7 +119,7 @@ export function predictPasses(
   stations: GroundStation[],
   durationDays: number,
   stepSec = 30,
-  options?: { recordTrack?: boolean },
+  options?: { recordTrack?: boolean; tle?: ParsedTLE | null; onProgress?: (fraction: number) => void },
 ): SatellitePass[] {
   const passes: SatellitePass[] = []
   const totalSec = durationDays * SEC_PER_DAY
@@ -123,8 +128,16 @@ export function predictPasses(
 
   if (activeStations.length === 0) return passes
 
+  const positionAt = options?.tle
+    ? sgp4PositionFn(options.tle, epoch)
+    : (t: number) => getPositionAtTime(elements, epoch, t)
+
+  const onProgress = options?.onProgress
+  const progressEvery = Math.max(stepSec, Math.floor(totalSec / 100 / stepSec) * stepSec)
+
   // For each station, track when satellite is above minimum elevation
-  for (const station of activeStations) {
+  for (let si = 0; si < activeStations.length; si++) {
+    const station = activeStations[si]
     let inPass = false
     let passStart = 0
     let passStartAz = 0
@@ -134,7 +147,11 @@ export function predictPasses(
     let track: Array<{ azimuth: number; elevation: number; timeSec: number }> = []
 
     for (let t = 0; t <= totalSec; t += stepSec) {
-      const satEci = getPositionAtTime(elements, epoch, t)
+      if (onProgress && t % progressEvery === 0) {
+        onProgress((si + t / totalSec) / activeStations.length)
+      }
+      const satEci = positionAt(t)
+      if (!satEci) break  // SGP4 decay/error: no further positions
       const currentDate = new Date(epoch.getTime() + t * 1000)
       const gmst = dateToGMST(currentDate)
       const { elevation, azimuth } = computeElevation(
@@ -189,6 +206,8 @@ export function predictPasses(
     }
   }
 
+  onProgress?.(1)
+
   // Sort by AOS time
   passes.sort((a, b) => a.aos.getTime() - b.aos.getTime())
   return passes
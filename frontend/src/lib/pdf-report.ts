@@ -13,6 +13,12 @@ import { computeLagrangeResult } from './lagrange'
 import { computeLunarResult } from './lunar-transfer'
 import { computeInterplanetaryResult } from './interplanetary'
 import { PLANET_DATA } from './beyond-leo-constants'
+import type { ParsedTLE } from './tle'
+import type { ExecutedBurn } from '@/types/propulsion'
+import { SOLAR_ACTIVITY_WEATHER } from './atmosphere'
+import type { SpaceWeather } from './atmosphere'
+import { forecastWeather, DEFAULT_SOLAR_FORECAST } from './solar-cycle'
+import type { SolarForecastConfig } from './solar-cycle'
 
 interface ReportState {
   elements: any
@@ -23,6 +29,9 @@ interface ReportState {
   walkerParams: any
   propulsion?: any
   maneuvers?: any
+  executedBurns?: ExecutedBurn[]
+  spaceWeather?: SpaceWeather
+  solarForecast?: SolarForecastConfig
   shieldingThicknessMm?: number
   payloadType?: string
   payloadShared?: any
@@ -30,6 +39,9 @@ interface ReportState {
   payloadSAR?: any
   payloadSATCOM?: any
   beyondLeo?: any
+  propagationMode?: string
+  tles?: ParsedTLE[]
+  activeTleIndex?: number
 }
 
 export async function generateMissionReport(state: ReportState): Promise<void> {
@@ -160,17 +172,25 @@ export async function generateMissionReport(state: ReportState): Promise<void> {
     mission.spacecraft,
     subsystems,
     mission.lifetimeTarget,
+    degradationRate,
+    mission.epoch,
   )
 
-  // Pass prediction (3 days)
-  const passes = predictPasses(elements, mission.epoch, groundStations, 3)
+  // Pass prediction (3 days) — SGP4 when a TLE is driving the orbit
+  const tle = state.propagationMode === 'sgp4' ? state.tles?.[state.activeTleIndex ?? 0] ?? null : null
+  const passes = predictPasses(elements, mission.epoch, groundStations, 3, 30, { tle })
   const passMetrics = computePassMetrics(passes, 3, mission.spacecraft.dataRate)
 
   // Lifetime
   const crossSection = mission.spacecraft.crossSectionArea
   const bStar = computeBallisticCoefficient(mission.spacecraft.mass, crossSection, mission.spacecraft.dragCoefficient)
-  const lifetimeDays = estimateLifetime(avgAlt, bStar, 'moderate')
-  const compliance = checkCompliance(avgAlt, bStar, 'moderate')
+  const decayWeather = forecastWeather(
+    state.solarForecast ?? DEFAULT_SOLAR_FORECAST,
+    state.spaceWeather ?? SOLAR_ACTIVITY_WEATHER.moderate,
+  )
+  const decayOptions = { inclinationDeg: elements.inclination, startDate: new Date(mission.epoch) }
+  const lifetimeDays = estimateLifetime(elements, bStar, decayWeather, decayOptions)
+  const compliance = checkCompliance(elements, bStar, decayWeather, decayOptions)
 
   // Constellation — use orbit tab values when synced
   const effectiveWalkerParams = walkerParams.syncWithOrbit
@@ -266,6 +286,21 @@ export async function generateMissionReport(state: ReportState): Promise<void> {
       ['BOL Power Margin', `${(powerAnalysis.powerMargin * 100).toFixed(1)}% (${powerAnalysis.marginStatus})`],
       ['EOL Power Margin', `${(powerAnalysis.eolMargin * 100).toFixed(1)}% (${powerAnalysis.eolMarginStatus})`],
       ['Battery DoD/Orbit', `${(powerAnalysis.batteryDoD * 100).toFixed(1)}% (${powerAnalysis.dodStatus})`],
+      ...(powerAnalysis.battery ? [
+        ['Battery Pack', `${mission.spacecraft.battery!.seriesCells}S${mission.spacecraft.battery!.parallelStrings}P ${powerAnalysis.battery.nominalVoltage.toFixed(1)} V, ${powerAnalysis.battery.usableEnergyWh.toFixed(1)} Wh usable`],
+        ['Battery Cycles / Mean DoD', `${powerAnalysis.battery.life.cycles.toFixed(0)} / ${(powerAnalysis.battery.life.meanDoD * 100).toFixed(1)}%`],
+        ['EOL Battery Capacity', `${powerAnalysis.battery.life.eolCapacityWh.toFixed(1)} Wh (${(powerAnalysis.battery.life.eolCapacityFraction * 100).toFixed(1)}%)`],
+        ['EOL Battery DoD/Orbit', `${(powerAnalysis.battery.eolDoD * 100).toFixed(1)}% (${powerAnalysis.battery.eolDoDStatus})`],
+      ] : []),
+      ...(powerAnalysis.arrayPerformance ? [
+        ['Array Incidence / Shadow Loss', `${(powerAnalysis.arrayPerformance.meanIncidence * 100).toFixed(1)}% / ${(powerAnalysis.arrayPerformance.shadowLoss * 100).toFixed(1)}%`],
+        ['Array Cell Temperature', `${powerAnalysis.arrayPerformance.minCellTempC.toFixed(0)} to ${powerAnalysis.arrayPerformance.maxCellTempC.toFixed(0)} °C`],
+      ] : []),
+      ...(powerAnalysis.worstDay && powerAnalysis.bestDay && powerAnalysis.eclipseTimeline ? [
+        ['Beta Angle Range', `${powerAnalysis.eclipseTimeline.minBetaDeg.toFixed(1)}° to ${powerAnalysis.eclipseTimeline.maxBetaDeg.toFixed(1)}°`],
+        ['Worst Eclipse Day', `${powerAnalysis.worstDay.dateISO.slice(0, 10)}: ${powerAnalysis.worstDay.eclipseMin.toFixed(1)} min, margin ${(powerAnalysis.worstDay.powerMargin * 100).toFixed(1)}%`],
+        ['Best Eclipse Day', `${powerAnalysis.bestDay.dateISO.slice(0, 10)}: ${powerAnalysis.bestDay.eclipseMin.toFixed(1)} min, margin ${(powerAnalysis.bestDay.powerMargin * 100).toFixed(1)}%`],
+      ] : []),
       ['Degradation Rate', `${(degradationRate * 100).toFixed(1)}%/year`],
     ]
   )
@@ -350,6 +385,7 @@ export async function generateMissionReport(state: ReportState): Promise<void> {
       avgAlt,
       mission.lifetimeTarget,
       bStar,
+      state.executedBurns,
     )
 
     addKeyValue('Propulsion Type', state.propulsion.type)
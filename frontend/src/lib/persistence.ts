@@ -1,5 +1,5 @@
 const STORAGE_PREFIX = 'orbitforge-project-'
-const SCHEMA_VERSION = 5
+const SCHEMA_VERSION = 7
 
 interface SavedProject {
   version: number
@@ -14,6 +14,8 @@ interface SavedProject {
     walkerParams?: any
     propulsion?: any
     maneuvers?: any
+    burnPlan?: any
+    lowThrust?: any
     shieldingThicknessMm?: number
     scenarios?: any[]
     payloadType?: string
@@ -40,6 +42,8 @@ function serializeMissionState(state: any): SavedProject['data'] {
     walkerParams: state.walkerParams,
     propulsion: state.propulsion,
     maneuvers: state.maneuvers,
+    burnPlan: state.burnPlan,
+    lowThrust: state.lowThrust,
     shieldingThicknessMm: state.shieldingThicknessMm,
     scenarios: state.scenarios,
     payloadType: state.payloadType,
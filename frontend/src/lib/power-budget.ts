@@ -1,5 +1,26 @@
 import { SOLAR_FLUX } from './constants'
 import { computeOrbitalPeriod, computeEclipseFraction } from './orbital-mechanics'
+import {
+  computeOrbitEclipse,
+  computeEclipseTimeline,
+  driftedElements,
+  referenceSunPosition,
+  type EclipseTimeline,
+} from './eclipse'
+import { sunPositionEci } from './ephemeris'
+import { computeArrayOrbitProfile, summarizeArrayProfile, type ArrayPerformance } from './solar-array'
+import {
+  batteryUsableCapacityWh,
+  batteryLimits,
+  stepBattery,
+  packNominalVoltage,
+  packEnergyWh,
+  packVoltage,
+  capacityDerating,
+  computeBatteryLife,
+  type BatteryLife,
+  type CycleSegment,
+} from './battery'
 import type { SpacecraftConfig } from '@/types/mission'
 import type { OrbitalElements } from '@/types/orbit'
 
@@ -42,6 +63,9 @@ export function totalAvgPowerDraw(subsystems: PowerSubsystem[]): number {
 /**
  * Compute solar panel power generation in sunlight
  * Returns peak power in Watts
+ *
+ * Incidence-factor lookup; panel geometry (spacecraft.solarArray) is
+ * evaluated around the orbit by computeArrayOrbitProfile instead.
  */
 export function computeSolarPowerPeak(spacecraft: SpacecraftConfig): number {
   // P = solar_flux * panel_area * efficiency * cos(average_incidence)
@@ -97,6 +121,15 @@ export function powerMarginStatus(margin: number): 'nominal' | 'warning' | 'crit
   return 'critical'
 }
 
+/**
+ * Get status color for battery depth of discharge
+ */
+export function batteryDoDStatus(dod: number): 'nominal' | 'warning' | 'critical' {
+  if (dod <= 0.2) return 'nominal'
+  if (dod <= 0.4) return 'warning'
+  return 'critical'
+}
+
 /**
  * Battery depth of discharge per orbit
  * Returns DoD as fraction (0-1)
@@ -121,25 +154,55 @@ export interface OrbitPowerProfile {
   powerGeneration: number[]
   powerConsumption: number[]
   batteryCharge: number[]  // Wh remaining
+  batteryVoltage: number[] | null  // open-circuit pack voltage (pack model only)
   inSunlight: boolean[]
+  illumination: number[]   // 0 umbra … 1 full Sun
+  cellTempC: number[] | null  // mean array temperature (panel geometry only)
 }
 
+/**
+ * With a date, shadow entry/exit comes from the conical shadow model for the
+ * Sun on that date and generation follows the illuminated fraction through
+ * penumbra. Without one, the worst-case (β = 0) eclipse is centred on the
+ * half-period. With panel geometry on the spacecraft, generation is the
+ * instantaneous array power for the attitude law instead of the lookup peak.
+ * With a battery pack model, charging is limited by C-rate and efficiency and
+ * the pack starts full at its temperature-derated capacity.
+ */
 export function computeOrbitPowerProfile(
   elements: OrbitalElements,
   spacecraft: SpacecraftConfig,
   subsystems: PowerSubsystem[],
   numPoints = 120,
+  date?: Date,
 ): OrbitPowerProfile {
   const periodSec = computeOrbitalPeriod(elements.semiMajorAxis)
-  const avgAlt = elements.semiMajorAxis - 6378.137
-  const eclipseFrac = computeEclipseFraction(avgAlt)
-
   const peakSolarPower = computeSolarPowerPeak(spacecraft)
 
-  // Simple eclipse model: eclipse is centered on one side of orbit
-  // Eclipse starts at (0.5 - eclipseFrac/2)*period, ends at (0.5 + eclipseFrac/2)*period
-  const eclipseStart = (0.5 - eclipseFrac / 2) * periodSec
-  const eclipseEnd = (0.5 + eclipseFrac / 2) * periodSec
+  let illuminationAt: (i: number) => number
+  let generationAt = (i: number) => peakSolarPower * illuminationAt(i)
+  let cellTempC: number[] | null = null
+  if (spacecraft.solarArray) {
+    const sun = date ? sunPositionEci(date) : referenceSunPosition(elements)
+    const array = computeArrayOrbitProfile(elements, spacecraft, spacecraft.solarArray, sun, numPoints)
+    illuminationAt = (i) => array.illumination[i]
+    generationAt = (i) => array.powerW[i]
+    cellTempC = array.cellTempC
+  } else if (date) {
+    const orbit = computeOrbitEclipse(elements, date, numPoints)
+    illuminationAt = (i) => orbit.illumination[i]
+  } else {
+    const avgAlt = elements.semiMajorAxis - 6378.137
+    const eclipseFrac = computeEclipseFraction(avgAlt)
+    // Simple eclipse model: eclipse is centered on one side of orbit
+    // Eclipse starts at (0.5 - eclipseFrac/2)*period, ends at (0.5 + eclipseFrac/2)*period
+    const eclipseStart = (0.5 - eclipseFrac / 2) * periodSec
+    const eclipseEnd = (0.5 + eclipseFrac / 2) * periodSec
+    illuminationAt = (i) => {
+      const t = (i / numPoints) * periodSec
+      return t < eclipseStart || t > eclipseEnd ? 1 : 0
+    }
+  }
 
   // Sunlight: all non-eclipse-only subsystems
   const sunlightConsumption = subsystems
@@ -154,19 +217,26 @@ export function computeOrbitPowerProfile(
   const powerGeneration: number[] = []
   const powerConsumption: number[] = []
   const batteryCharge: number[] = []
+  const batteryVoltage: number[] | null = spacecraft.battery ? [] : null
   const inSunlight: boolean[] = []
+  const illumination: number[] = []
 
-  let batteryWh = spacecraft.batteryCapacity
+  const capacityWh = batteryUsableCapacityWh(spacecraft)
+  const limits = batteryLimits(spacecraft.battery)
+  let batteryWh = capacityWh
 
   for (let i = 0; i <= numPoints; i++) {
     const t = (i / numPoints) * periodSec
     const tMin = t / 60
-    const isSun = t < eclipseStart || t > eclipseEnd
+    const lit = illuminationAt(i)
+    // Eclipse-only loads switch on once more than half the Sun is hidden
+    const isSun = lit >= 0.5
 
     timeMinutes.push(tMin)
     inSunlight.push(isSun)
+    illumination.push(lit)
 
-    const gen = isSun ? peakSolarPower : 0
+    const gen = generationAt(i)
     const consumption = isSun ? sunlightConsumption : eclipseConsumption
 
     powerGeneration.push(gen)
@@ -175,11 +245,47 @@ export function computeOrbitPowerProfile(
     // Battery charge/discharge
     const dt = periodSec / numPoints / 3600 // hours
     const netPower = gen - consumption
-    batteryWh = Math.max(0, Math.min(spacecraft.batteryCapacity, batteryWh + netPower * dt))
+    batteryWh = stepBattery(batteryWh, capacityWh, netPower, dt, limits).energyWh
     batteryCharge.push(batteryWh)
+    if (batteryVoltage) batteryVoltage.push(packVoltage(spacecraft.battery!, capacityWh > 0 ? batteryWh / capacityWh : 0))
   }
 
-  return { timeMinutes, powerGeneration, powerConsumption, batteryCharge, inSunlight }
+  return {
+    timeMinutes, powerGeneration, powerConsumption, batteryCharge, batteryVoltage, inSunlight, illumination, cellTempC,
+  }
+}
+
+/**
+ * Power balance on one day of the eclipse timeline (BOL generation)
+ */
+export interface PowerDay {
+  day: number
+  dateISO: string
+  betaDeg: number
+  eclipseMin: number         // umbra + penumbra
+  eclipseFraction: number    // energy-equivalent
+  avgPowerGeneration: number
+  powerMargin: number
+  batteryDoD: number
+}
+
+/**
+ * Battery pack figures for the worst day, and capacity fade over the mission
+ */
+export interface BatteryAnalysis {
+  nominalVoltage: number
+  energyWh: number           // rated
+  usableEnergyWh: number     // derated for pack temperature
+  deratingFactor: number
+  maxChargeW: number
+  maxDischargeW: number
+  eclipseLoadW: number
+  dischargeLimited: boolean  // eclipse load above the discharge C-rate limit
+  rechargeMargin: number     // sunlit charge available ÷ needed − 1
+  minVoltage: number         // open-circuit, at the deepest discharge
+  life: BatteryLife
+  eolDoD: number             // worst-day DoD against the end-of-life capacity
+  eolDoDStatus: 'nominal' | 'warning' | 'critical'
 }
 
 /**
@@ -200,35 +306,167 @@ export interface PowerAnalysis {
   eolPowerGeneration: number
   eolMargin: number
   eolMarginStatus: 'nominal' | 'warning' | 'critical'
+  // Set when an epoch is given: the headline figures are then the worst day's
+  eclipseTimeline: EclipseTimeline | null
+  worstDay: PowerDay | null
+  bestDay: PowerDay | null
+  // Set with panel geometry: array figures for the worst day (or β = 0 orbit)
+  arrayPerformance: ArrayPerformance | null
+  // Set with a battery pack model
+  battery: BatteryAnalysis | null
 }
 
+// Panel geometry is too costly to evaluate on every timeline day: rank a
+// subset of days on coarse orbits, then rerun the worst and best in full
+const ARRAY_RANKED_DAYS = 48
+const ARRAY_RANK_POINTS = 48
+
+
 export function computePowerAnalysis(
   elements: OrbitalElements,
   spacecraft: SpacecraftConfig,
   subsystems: PowerSubsystem[],
   lifetimeYears: number,
+  degradationRate = 0.03, // panel degradation per year
+  epoch?: Date,           // enables the beta-angle eclipse timeline over the mission
 ): PowerAnalysis {
   const periodSec = computeOrbitalPeriod(elements.semiMajorAxis)
+  const avgPowerConsumption = totalAvgPowerDraw(subsystems)
+  const capacityWh = batteryUsableCapacityWh(spacecraft)
+
+  const array = spacecraft.solarArray
+  const arrayOnOrbit = (el: OrbitalElements, date: Date | null, numPoints = 120): ArrayPerformance | null => {
+    if (!array) return null
+    const sun = date ? sunPositionEci(date) : referenceSunPosition(el)
+    return summarizeArrayProfile(computeArrayOrbitProfile(el, spacecraft, array, sun, numPoints), spacecraft, array)
+  }
+
+  // Timeline covers at least one year so every eclipse season is seen
+  const eclipseTimeline = epoch
+    ? computeEclipseTimeline(elements, epoch, Math.max(1, lifetimeYears) * 365.25)
+    : null
+
+  // Worst / best day = lowest / highest orbit-average generation. With the
+  // lookup model that is simply the longest / shortest eclipse.
+  let worstIndex = eclipseTimeline?.worstIndex ?? 0
+  let bestIndex = eclipseTimeline?.bestIndex ?? 0
+  if (eclipseTimeline && array) {
+    const days = eclipseTimeline.days
+    const stride = Math.max(1, Math.ceil(days.length / ARRAY_RANKED_DAYS))
+    const candidates = new Set([worstIndex, bestIndex])
+    for (let k = 0; k < days.length; k += stride) candidates.add(k)
+    let lowest = Infinity
+    let highest = -Infinity
+    for (const k of candidates) {
+      const d = days[k]
+      const gen = arrayOnOrbit(driftedElements(elements, d.day), new Date(d.dateISO), ARRAY_RANK_POINTS)!.avgPowerW
+      if (gen < lowest) { lowest = gen; worstIndex = k }
+      if (gen > highest) { highest = gen; bestIndex = k }
+    }
+  }
+
+  const dayPerformance = new Map<number, ArrayPerformance | null>()
+  const powerDay = (index: number): PowerDay => {
+    const d = eclipseTimeline!.days[index]
+    if (!dayPerformance.has(index)) {
+      dayPerformance.set(index, arrayOnOrbit(driftedElements(elements, d.day), new Date(d.dateISO)))
+    }
+    const performance = dayPerformance.get(index)
+    const avgGeneration = performance
+      ? performance.avgPowerW
+      : computeAvgPowerGeneration(spacecraft, d.eclipseFraction)
+    return {
+      day: d.day,
+      dateISO: d.dateISO,
+      betaDeg: d.betaDeg,
+      eclipseMin: d.umbraMin + d.penumbraMin,
+      eclipseFraction: d.eclipseFraction,
+      avgPowerGeneration: avgGeneration,
+      powerMargin: computePowerMargin(avgGeneration, avgPowerConsumption),
+      batteryDoD: computeBatteryDoD(avgPowerConsumption, d.eclipseFraction * periodSec, capacityWh),
+    }
+  }
+  const worstDay = eclipseTimeline ? powerDay(worstIndex) : null
+  const bestDay = eclipseTimeline ? powerDay(bestIndex) : null
+  const arrayPerformance = eclipseTimeline
+    ? dayPerformance.get(worstIndex) ?? null
+    : arrayOnOrbit(elements, null)
+
   const avgAlt = elements.semiMajorAxis - 6378.137
-  const eclipseFraction = computeEclipseFraction(avgAlt)
+  const eclipseFraction = worstDay ? worstDay.eclipseFraction : computeEclipseFraction(avgAlt)
   const eclipseDurationSec = eclipseFraction * periodSec
   const sunlightDurationSec = (1 - eclipseFraction) * periodSec
 
-  const peakSolarPower = computeSolarPowerPeak(spacecraft)
-  const avgPowerGeneration = computeAvgPowerGeneration(spacecraft, eclipseFraction)
-  const avgPowerConsumption = totalAvgPowerDraw(subsystems)
+  const peakSolarPower = arrayPerformance
+    ? Math.max(arrayPerformance.peakPowerW, dayPerformance.get(bestIndex)?.peakPowerW ?? 0)
+    : computeSolarPowerPeak(spacecraft)
+  const avgPowerGeneration = worstDay?.avgPowerGeneration
+    ?? arrayPerformance?.avgPowerW
+    ?? computeAvgPowerGeneration(spacecraft, eclipseFraction)
   const powerMargin = computePowerMargin(avgPowerGeneration, avgPowerConsumption)
   const marginStatus = powerMarginStatus(powerMargin)
 
-  const batteryDoD = computeBatteryDoD(avgPowerConsumption, eclipseDurationSec, spacecraft.batteryCapacity)
-  const dodStatus: 'nominal' | 'warning' | 'critical' =
-    batteryDoD <= 0.2 ? 'nominal' : batteryDoD <= 0.4 ? 'warning' : 'critical'
+  const batteryDoD = computeBatteryDoD(avgPowerConsumption, eclipseDurationSec, capacityWh)
+  const dodStatus = batteryDoDStatus(batteryDoD)
 
   // End of life analysis
-  const eolPowerGeneration = computeAvgPowerGeneration(spacecraft, eclipseFraction, lifetimeYears)
+  const eolPowerGeneration = avgPowerGeneration * Math.pow(1 - degradationRate, lifetimeYears)
   const eolMargin = computePowerMargin(eolPowerGeneration, avgPowerConsumption)
   const eolMarginStatus = powerMarginStatus(eolMargin)
 
+  // Battery pack: one charge/discharge cycle per orbit with an eclipse, over
+  // the timeline days that fall within the mission life
+  let battery: BatteryAnalysis | null = null
+  const pack = spacecraft.battery
+  if (pack) {
+    const lifeDays = lifetimeYears * 365.25
+    const dischargeWh = (fraction: number) => avgPowerConsumption * fraction * periodSec / 3600
+    const segments: CycleSegment[] = []
+    if (eclipseTimeline) {
+      for (const d of eclipseTimeline.days) {
+        const span = Math.min(eclipseTimeline.stepDays, lifeDays - d.day)
+        if (span <= 0) break
+        segments.push({
+          cycles: d.eclipseFraction > 0 ? span * 86400 / periodSec : 0,
+          years: span / 365.25,
+          dischargeWh: dischargeWh(d.eclipseFraction),
+        })
+      }
+    } else {
+      segments.push({
+        cycles: eclipseFraction > 0 ? lifeDays * 86400 / periodSec : 0,
+        years: lifetimeYears,
+        dischargeWh: dischargeWh(eclipseFraction),
+      })
+    }
+    const life = computeBatteryLife(pack, segments)
+    const limits = batteryLimits(pack)
+
+    // Recharge over the sunlit arc at the sunlit surplus, capped by the charge limit
+    const eclipseLoadW = subsystems.reduce((sum, s) => sum + subsystemAvgPower(s), 0)
+    const sunlitLoadW = subsystems.filter((s) => !s.isEclipseOnly).reduce((sum, s) => sum + subsystemAvgPower(s), 0)
+    const sunlitGenerationW = eclipseFraction < 1 ? avgPowerGeneration / (1 - eclipseFraction) : 0
+    const chargeW = Math.min(Math.max(0, sunlitGenerationW - sunlitLoadW), limits.maxChargeW)
+    const needWh = eclipseLoadW * eclipseDurationSec / 3600 / limits.chargeEfficiency
+    const eolDoD = computeBatteryDoD(avgPowerConsumption, eclipseDurationSec, life.eolCapacityWh)
+
+    battery = {
+      nominalVoltage: packNominalVoltage(pack),
+      energyWh: packEnergyWh(pack),
+      usableEnergyWh: capacityWh,
+      deratingFactor: capacityDerating(pack.tempC),
+      maxChargeW: limits.maxChargeW,
+      maxDischargeW: limits.maxDischargeW,
+      eclipseLoadW,
+      dischargeLimited: eclipseLoadW > limits.maxDischargeW,
+      rechargeMargin: needWh > 0 ? chargeW * sunlightDurationSec / 3600 / needWh - 1 : Infinity,
+      minVoltage: packVoltage(pack, 1 - batteryDoD),
+      life,
+      eolDoD,
+      eolDoDStatus: batteryDoDStatus(eolDoD),
+    }
+  }
+
   return {
     peakSolarPower,
     avgPowerGeneration,
@@ -244,5 +482,10 @@ export function computePowerAnalysis(
     eolPowerGeneration,
     eolMargin,
     eolMarginStatus,
+    eclipseTimeline,
+    worstDay,
+    bestDay,
+    arrayPerformance,
+    battery,
   }
 }
@@ -0,0 +1,423 @@
+/**
+ * Solar array power from panel geometry, attitude and Sun direction.
+ *
+ * Each panel is a flat plate with a cell-side normal in the body frame,
+ * either fixed or driven about a hinge axis (1-axis) or gimbal (2-axis) to
+ * face the Sun. Around the orbit the attitude law (nadir-, sun-pointing or
+ * tumbling) sets the body frame, giving the instantaneous cosine loss per
+ * panel. Deployables and the bus box shadow other panels (rays cast from a
+ * 3×3 grid on each panel), and a lumped panel temperature — sunlight, Earth
+ * IR and albedo in, radiation out — sets the cell efficiency through a
+ * linear temperature coefficient.
+ *
+ * Standalone physics module — no UI dependencies.
+ */
+
+import { R_EARTH_EQUATORIAL, SOLAR_FLUX } from './constants'
+import { AU_KM } from './beyond-leo-constants'
+import { computeOrbitalPeriod } from './orbital-mechanics'
+import { orbitPositionSampler, shadowFunction } from './eclipse'
+import type {
+  CubeSatSize,
+  PointingMode,
+  SolarArrayConfig,
+  SolarPanel,
+  SpacecraftConfig,
+} from '@/types/mission'
+import type { OrbitalElements } from '@/types/orbit'
+import type { Vec3 } from '@/types'
+
+// ─── Constants ───
+
+const STEFAN_BOLTZMANN = 5.670374419e-8  // W/(m² K⁴)
+const EARTH_IR = 240                      // W/m²
+const EARTH_ALBEDO = 0.3
+const REFERENCE_TEMP_C = 28               // cell efficiency rating temperature
+export const PANEL_HEAT_CAPACITY = 2000   // J/(m² K), cells + substrate
+const BODY_PANEL_CONDUCTANCE = 3          // W/(m² K) from body-mounted panels into the bus
+const BUS_TEMP_K = 293
+const MAX_THERMAL_STEP_SEC = 10
+export const TUMBLING_PROJECTION = 0.25   // orientation-averaged cosine of a flat plate
+const SHADOW_GRID = 3
+
+/** Bus box used for the default geometry (X along the long axis) */
+export const BUS_DIMENSIONS_M: Record<CubeSatSize, [number, number, number]> = {
+  '1U': [0.1, 0.1, 0.1],
+  '1.5U': [0.15, 0.1, 0.1],
+  '2U': [0.2, 0.1, 0.1],
+  '3U': [0.3, 0.1, 0.1],
+  '6U': [0.3, 0.2, 0.1],
+  '12U': [0.3, 0.2, 0.2],
+  'SmallSat': [1.0, 1.0, 1.0],
+  'Custom': [0.3, 0.1, 0.1],
+}
+
+// ─── Types ───
+
+export interface ArrayOrbitProfile {
+  timeMinutes: number[]
+  illumination: number[]
+  powerW: number[]
+  cellTempC: number[]             // area-weighted mean over panels
+  panels: { id: string; name: string; powerW: number[]; tempC: number[] }[]
+  unshadowedW: number[]           // same cosine and temperature, no self-shadowing
+  referenceW: number[]            // same geometry at the 28 °C efficiency
+}
+
+export interface ArrayPerformance {
+  avgPowerW: number
+  peakPowerW: number
+  meanIncidence: number           // sunlit-average power ÷ full-Sun normal-incidence power
+  shadowLoss: number              // fraction of energy lost to self-shadowing
+  temperatureLoss: number         // fraction lost (negative = gained) to cell temperature
+  minCellTempC: number
+  maxCellTempC: number
+}
+
+// ─── Configuration helpers ───
+
+export function solarArrayArea(array: SolarArrayConfig): number {
+  return array.panels.reduce((sum, p) => sum + Math.max(0, p.areaM2), 0)
+}
+
+/** Rescale every panel so the total cell area is totalAreaM2 */
+export function scaleSolarArray(array: SolarArrayConfig, totalAreaM2: number): SolarArrayConfig {
+  const current = solarArrayArea(array)
+  if (current <= 0) return array
+  const k = totalAreaM2 / current
+  return { ...array, panels: array.panels.map((p) => ({ ...p, areaM2: p.areaM2 * k })) }
+}
+
+/**
+ * Geometry matching the spacecraft's panel configuration: cells on the four
+ * long faces for body-mounted, or two wings hinged on ±Y for deployables
+ * (normal −Z, i.e. zenith when nadir-pointing)
+ */
+export function defaultSolarArray(spacecraft: SpacecraftConfig): SolarArrayConfig {
+  const [dx, dy, dz] = BUS_DIMENSIONS_M[spacecraft.size] ?? BUS_DIMENSIONS_M['3U']
+  const total = spacecraft.solarPanelArea
+  let panels: SolarPanel[]
+
+  if (spacecraft.solarPanelConfig === 'body-mounted') {
+    const faces: [string, [number, number, number], number][] = [
+      ['+Y', [0, 1, 0], dx * dz],
+      ['−Y', [0, -1, 0], dx * dz],
+      ['+Z', [0, 0, 1], dx * dy],
+      ['−Z', [0, 0, -1], dx * dy],
+    ]
+    const faceTotal = faces.reduce((sum, f) => sum + f[2], 0)
+    panels = faces.map(([name, n, faceArea]) => ({
+      id: `face${name.replace('−', '-')}`,
+      name: `Face ${name}`,
+      mount: 'body',
+      tracking: 'fixed',
+      areaM2: total * faceArea / faceTotal,
+      normal: n,
+      axis: [1, 0, 0],
+      position: [0, n[1] * dy / 2, n[2] * dz / 2],
+    }))
+  } else {
+    const tracking = spacecraft.solarPanelConfig === '2-axis-deployable' ? '2-axis' : '1-axis'
+    const side = Math.sqrt(total / 2)
+    panels = [1, -1].map((sign) => ({
+      id: sign > 0 ? 'wing+y' : 'wing-y',
+      name: sign > 0 ? 'Wing +Y' : 'Wing −Y',
+      mount: 'deployable',
+      tracking,
+      areaM2: total / 2,
+      normal: [0, 0, -1],
+      axis: [0, 1, 0],
+      position: [0, sign * (dy / 2 + side / 2 + 0.01), 0],
+    }))
+  }
+
+  return {
+    bodyDimsM: [dx, dy, dz],
+    panels,
+    tempCoeffPerC: spacecraft.solarCellEfficiency < 0.25 ? -0.0045 : -0.0022,
+    absorptance: 0.9,
+    emittance: 0.85,
+  }
+}
+
+// ─── Vector helpers ───
+
+type V = [number, number, number]
+const dot = (a: V, b: V) => a[0] * b[0] + a[1] * b[1] + a[2] * b[2]
+const cross = (a: V, b: V): V => [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]]
+const scale = (a: V, k: number): V => [a[0] * k, a[1] * k, a[2] * k]
+const sub = (a: V, b: V): V => [a[0] - b[0], a[1] - b[1], a[2] - b[2]]
+const add = (a: V, b: V): V => [a[0] + b[0], a[1] + b[1], a[2] + b[2]]
+const norm = (a: V) => Math.sqrt(dot(a, a))
+function unit(a: V): V {
+  const n = norm(a)
+  return n > 0 ? scale(a, 1 / n) : [0, 0, 0]
+}
+/** Any unit vector perpendicular to a */
+function perpendicular(a: V): V {
+  const t: V = Math.abs(a[0]) < 0.9 ? [1, 0, 0] : [0, 1, 0]
+  return unit(cross(a, t))
+}
+
+// ─── Attitude and panel orientation ───
+
+/**
+ * Body axes in ECI for the attitude law, or null when tumbling. r is the
+ * position, h the orbit normal, s the unit Sun vector.
+ */
+export function bodyAxes(mode: PointingMode, r: V, h: V, s: V): [V, V, V] | null {
+  if (mode === 'tumbling') return null
+  if (mode === 'sun-pointing') {
+    const z = scale(s, -1)
+    let y = sub(scale(h, -1), scale(z, -dot(h, z)))
+    y = norm(y) < 1e-6 ? perpendicular(z) : unit(y)
+    return [cross(y, z), y, z]
+  }
+  const z = unit(scale(r, -1))
+  const y = scale(h, -1)
+  return [cross(y, z), y, z]
+}
+
+/** Cell-side normal after the drive has turned the panel toward sBody */
+export function drivenNormal(panel: SolarPanel, sBody: V): V {
+  const n0 = unit(panel.normal)
+  if (panel.tracking === '2-axis') return sBody
+  if (panel.tracking === '1-axis') {
+    const a = unit(panel.axis)
+    const inPlane = sub(sBody, scale(a, dot(sBody, a)))
+    return norm(inPlane) < 1e-9 ? n0 : unit(inPlane)
+  }
+  return n0
+}
+
+interface PanelPose {
+  center: V
+  normal: V
+  u: V
+  v: V
+  half: number     // half side of the square footprint
+}
+
+function panelPose(panel: SolarPanel, normal: V): PanelPose {
+  const a = unit(panel.axis)
+  let u = sub(a, scale(normal, dot(a, normal)))
+  u = norm(u) < 1e-6 ? perpendicular(normal) : unit(u)
+  return {
+    center: panel.position,
+    normal,
+    u,
+    v: cross(normal, u),
+    half: Math.sqrt(Math.max(0, panel.areaM2)) / 2,
+  }
+}
+
+/** Ray–box test against the bus, centred on the body origin */
+function hitsBody(o: V, d: V, half: V): boolean {
+  let tMin = 1e-9
+  let tMax = Infinity
+  for (let k = 0; k < 3; k++) {
+    if (Math.abs(d[k]) < 1e-12) {
+      if (Math.abs(o[k]) > half[k]) return false
+      continue
+    }
+    let t1 = (-half[k] - o[k]) / d[k]
+    let t2 = (half[k] - o[k]) / d[k]
+    if (t1 > t2) [t1, t2] = [t2, t1]
+    tMin = Math.max(tMin, t1)
+    tMax = Math.min(tMax, t2)
+    if (tMin > tMax) return false
+  }
+  return true
+}
+
+function hitsPanel(o: V, d: V, p: PanelPose): boolean {
+  const dn = dot(d, p.normal)
+  if (Math.abs(dn) < 1e-12) return false
+  const t = dot(sub(p.center, o), p.normal) / dn
+  if (t <= 1e-9) return false
+  const rel = sub(add(o, scale(d, t)), p.center)
+  return Math.abs(dot(rel, p.u)) <= p.half && Math.abs(dot(rel, p.v)) <= p.half
+}
+
+/** Fraction of the panel's 3×3 sample grid that sees the Sun */
+function litFraction(index: number, poses: PanelPose[], panels: SolarPanel[], s: V, bodyHalf: V): number {
+  const own = poses[index]
+  let lit = 0
+  for (let i = 0; i < SHADOW_GRID; i++) {
+    for (let j = 0; j < SHADOW_GRID; j++) {
+      const du = ((2 * i + 1) / SHADOW_GRID - 1) * own.half
+      const dv = ((2 * j + 1) / SHADOW_GRID - 1) * own.half
+      const o = add(add(add(own.center, scale(own.u, du)), scale(own.v, dv)), scale(own.normal, 1e-4))
+      let blocked = hitsBody(o, s, bodyHalf)
+      for (let k = 0; !blocked && k < poses.length; k++) {
+        if (k !== index && panels[k].mount === 'deployable') blocked = hitsPanel(o, s, poses[k])
+      }
+      if (!blocked) lit++
+    }
+  }
+  return lit / (SHADOW_GRID * SHADOW_GRID)
+}
+
+// ─── Orbit profile ───
+
+/**
+ * Array power over one revolution, sampled evenly in time from the
+ * elements' true anomaly, with the Sun at sun (ECI, km). Panel temperatures
+ * are integrated through one revolution first so the recorded one starts on
+ * the periodic solution.
+ */
+export function computeArrayOrbitProfile(
+  elements: OrbitalElements,
+  spacecraft: SpacecraftConfig,
+  array: SolarArrayConfig,
+  sun: Vec3,
+  numPoints = 120,
+): ArrayOrbitProfile {
+  const periodSec = computeOrbitalPeriod(elements.semiMajorAxis)
+  const positionAt = orbitPositionSampler(elements)
+  const panels = array.panels.filter((p) => p.areaM2 > 0)
+  const bodyHalf = scale(array.bodyDimsM, 0.5)
+  const sunDist = Math.sqrt(sun.x * sun.x + sun.y * sun.y + sun.z * sun.z)
+  const s: V = [sun.x / sunDist, sun.y / sunDist, sun.z / sunDist]
+  const flux = SOLAR_FLUX * (AU_KM / sunDist) ** 2
+  const eta0 = spacecraft.solarCellEfficiency
+  const etaAt = (tempK: number) => Math.max(0, eta0 * (1 + array.tempCoeffPerC * (tempK - 273.15 - REFERENCE_TEMP_C)))
+
+  // Orbit normal (ECI)
+  const r0 = positionAt(0)
+  const r1 = positionAt(periodSec / 4)
+  const h = unit(cross([r0.x, r0.y, r0.z], [r1.x, r1.y, r1.z]))
+
+  /** Per-panel geometry at time t: Sun fraction (cos × lit × illumination) and Earth terms */
+  const geometryAt = (t: number) => {
+    const rv = positionAt(t)
+    const r: V = [rv.x, rv.y, rv.z]
+    const rMag = norm(r)
+    const illumination = shadowFunction(rv, sun)
+    const earthView = (R_EARTH_EQUATORIAL / rMag) ** 2
+    const dayside = Math.max(0, dot(scale(r, 1 / rMag), s))
+    const axes = bodyAxes(spacecraft.pointingMode, r, h, s)
+
+    if (!axes) {
+      return panels.map(() => ({
+        sun: TUMBLING_PROJECTION * illumination,
+        unshadowed: TUMBLING_PROJECTION * illumination,
+        earthFront: TUMBLING_PROJECTION * earthView,
+        earthBack: TUMBLING_PROJECTION * earthView,
+        illumination,
+        dayside,
+      }))
+    }
+
+    const [X, Y, Z] = axes
+    const sBody: V = [dot(X, s), dot(Y, s), dot(Z, s)]
+    const nadirBody = unit([-dot(X, r), -dot(Y, r), -dot(Z, r)])
+    const normals = panels.map((p) => drivenNormal(p, sBody))
+    const poses = panels.map((p, k) => panelPose(p, normals[k]))
+
+    return panels.map((_, k) => {
+      const cos = Math.max(0, dot(normals[k], sBody))
+      const lit = cos > 0 && illumination > 0 ? litFraction(k, poses, panels, sBody, bodyHalf) : 0
+      const facing = dot(normals[k], nadirBody)
+      return {
+        sun: cos * lit * illumination,
+        unshadowed: cos * illumination,
+        earthFront: Math.max(0, facing) * earthView,
+        earthBack: Math.max(0, -facing) * earthView,
+        illumination,
+        dayside,
+      }
+    })
+  }
+
+  const dtSample = periodSec / numPoints
+  const subSteps = Math.max(1, Math.ceil(dtSample / MAX_THERMAL_STEP_SEC))
+  const h2 = dtSample / subSteps
+  const temps = panels.map(() => 273.15)
+  const samples = Array.from({ length: numPoints + 1 }, (_, k) => geometryAt(k * dtSample))
+
+  /** Advance panel temperatures over one sample interval (geometry held from its start) */
+  const advance = (k: number) => {
+    const geom = samples[k]
+    panels.forEach((p, j) => {
+      const g = geom[j]
+      const sides = p.mount === 'deployable' ? 2 : 1
+      for (let n = 0; n < subSteps; n++) {
+        const T = temps[j]
+        const qSun = flux * g.sun * (array.absorptance - etaAt(T))
+        const qEarth = array.emittance * EARTH_IR * (g.earthFront + (sides === 2 ? g.earthBack : 0))
+          + array.absorptance * EARTH_ALBEDO * flux * g.dayside * (g.earthFront + (sides === 2 ? g.earthBack : 0))
+        const qOut = sides * array.emittance * STEFAN_BOLTZMANN * T ** 4
+        const qBus = p.mount === 'body' ? BODY_PANEL_CONDUCTANCE * (BUS_TEMP_K - T) : 0
+        temps[j] = T + (qSun + qEarth - qOut + qBus) * h2 / PANEL_HEAT_CAPACITY
+      }
+    })
+  }
+
+  // Spin-up revolution
+  for (let k = 0; k < numPoints; k++) advance(k)
+
+  const profile: ArrayOrbitProfile = {
+    timeMinutes: [],
+    illumination: [],
+    powerW: [],
+    cellTempC: [],
+    panels: panels.map((p) => ({ id: p.id, name: p.name, powerW: [], tempC: [] })),
+    unshadowedW: [],
+    referenceW: [],
+  }
+  const totalArea = panels.reduce((sum, p) => sum + p.areaM2, 0)
+
+  for (let k = 0; k <= numPoints; k++) {
+    const geom = samples[k]
+    let power = 0
+    let unshadowed = 0
+    let reference = 0
+    let tempSum = 0
+    panels.forEach((p, j) => {
+      const eta = etaAt(temps[j])
+      const pw = flux * p.areaM2 * eta * geom[j].sun
+      power += pw
+      unshadowed += flux * p.areaM2 * eta * geom[j].unshadowed
+      reference += flux * p.areaM2 * eta0 * geom[j].sun
+      tempSum += temps[j] * p.areaM2
+      profile.panels[j].powerW.push(pw)
+      profile.panels[j].tempC.push(temps[j] - 273.15)
+    })
+    profile.timeMinutes.push((k * dtSample) / 60)
+    profile.illumination.push(geom[0]?.illumination ?? shadowFunction(positionAt(k * dtSample), sun))
+    profile.powerW.push(power)
+    profile.unshadowedW.push(unshadowed)
+    profile.referenceW.push(reference)
+    profile.cellTempC.push(totalArea > 0 ? tempSum / totalArea - 273.15 : REFERENCE_TEMP_C)
+    if (k < numPoints) advance(k)
+  }
+
+  return profile
+}
+
+/** Orbit-average figures from a profile (the closing sample is not double counted) */
+export function summarizeArrayProfile(
+  profile: ArrayOrbitProfile,
+  spacecraft: SpacecraftConfig,
+  array: SolarArrayConfig,
+): ArrayPerformance {
+  const n = profile.powerW.length - 1
+  let energy = 0, unshadowed = 0, reference = 0, sunlit = 0
+  for (let k = 0; k < n; k++) {
+    energy += profile.powerW[k]
+    unshadowed += profile.unshadowedW[k]
+    reference += profile.referenceW[k]
+    sunlit += profile.illumination[k]
+  }
+  const fullSun = SOLAR_FLUX * solarArrayArea(array) * spacecraft.solarCellEfficiency
+  return {
+    avgPowerW: n > 0 ? energy / n : 0,
+    peakPowerW: Math.max(0, ...profile.powerW),
+    meanIncidence: sunlit > 0 && fullSun > 0 ? reference / sunlit / fullSun : 0,
+    shadowLoss: unshadowed > 0 ? 1 - energy / unshadowed : 0,
+    temperatureLoss: reference > 0 ? 1 - energy / reference : 0,
+    minCellTempC: Math.min(...profile.cellTempC),
+    maxCellTempC: Math.max(...profile.cellTempC),
+  }
+}
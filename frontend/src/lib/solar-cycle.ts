@@ -0,0 +1,300 @@
+/**
+ * Solar-cycle space-weather forecasts for long-horizon decay studies.
+ *
+ * Built-in model: each cycle's smoothed sunspot number follows the
+ * Hathaway–Wilson–Reichmann (1994) shape
+ *   R(t) = a·t³ / (exp(t²/b²) − c),  t in months from cycle onset,
+ *   b = 27.12 + 25.15 / (a·10³)^¼,   c = 0.71
+ * with overlapping cycles summed. Cycles 23–25 use observed onsets and
+ * amplitudes; later cycles repeat every 11 years at a nominal amplitude.
+ * The min/max cases scale each cycle amplitude by its forecast uncertainty.
+ * Sunspot number maps to F10.7 and Ap by linear fits to the smoothed
+ * 13-month records; the model is already smooth, so F10.7a = F10.7.
+ *
+ * Imported predictions (e.g. NOAA/MSFC monthly tables) are parsed from
+ * CSV and interpolated linearly, falling back to the built-in model
+ * outside the imported date range.
+ *
+ * Standalone physics module — no UI dependencies.
+ */
+
+import { SEC_PER_DAY } from './constants'
+import type { SpaceWeather } from './atmosphere'
+
+// ─── Types ───
+
+export type SolarCycleCase = 'min' | 'nominal' | 'max'
+
+export const SOLAR_CYCLE_CASES: SolarCycleCase[] = ['min', 'nominal', 'max']
+
+/** Space weather as a function of date, sampled during decay integration */
+export type SpaceWeatherForecast = (date: Date) => SpaceWeather
+
+/** One row of an imported flux prediction; bounds default to the nominal value */
+export interface SolarFluxRecord {
+  epochMs: number
+  f107: number
+  f107Min: number
+  f107Max: number
+  ap: number
+  apMin: number
+  apMax: number
+}
+
+export interface SolarFluxParseResult {
+  records: SolarFluxRecord[]
+  errors: string[]
+}
+
+/** Where decay studies take their solar input from */
+export type SolarForecastSource = 'fixed' | 'cycle' | 'imported'
+
+export interface SolarForecastConfig {
+  source: SolarForecastSource
+  fileName: string | null
+  records: SolarFluxRecord[]
+}
+
+export const DEFAULT_SOLAR_FORECAST: SolarForecastConfig = {
+  source: 'cycle',
+  fileName: null,
+  records: [],
+}
+
+// ─── Built-in cycle model ───
+
+interface CycleDef {
+  onsetYear: number    // decimal year of t = 0 in the shape function
+  amplitude: number    // peak smoothed sunspot number (SILSO v2)
+  uncertainty: number  // fractional amplitude spread for the min/max cases
+}
+
+const OBSERVED_CYCLES: CycleDef[] = [
+  { onsetYear: 1997.3, amplitude: 180, uncertainty: 0 },    // cycle 23
+  { onsetYear: 2009.5, amplitude: 116, uncertainty: 0 },    // cycle 24
+  { onsetYear: 2020.5, amplitude: 160, uncertainty: 0.15 }, // cycle 25 (declining phase still forecast)
+]
+
+const CYCLE_PERIOD_YEARS = 11
+const FUTURE_AMPLITUDE = 140
+const FUTURE_UNCERTAINTY = 0.35
+
+const SHAPE_C = 0.71
+// max of x³/(exp(x²) − c), at x ≈ 1.081
+const SHAPE_PEAK = 0.50380
+
+const MS_PER_YEAR = 365.25 * SEC_PER_DAY * 1000
+const YEAR_1970 = 1970
+
+function shapeWidth(a: number): number {
+  return 27.12 + 25.15 / Math.pow(a * 1e3, 0.25)
+}
+
+const scaleCache = new Map<number, { a: number; b: number }>()
+
+/** Shape scale a (and width b) giving the requested peak sunspot number */
+function shapeForAmplitude(amplitude: number): { a: number; b: number } {
+  const cached = scaleCache.get(amplitude)
+  if (cached) return cached
+
+  // a·b(a)³ increases monotonically with a — bisect in log space
+  let lo = 1e-6
+  let hi = 1
+  for (let i = 0; i < 60; i++) {
+    const mid = Math.sqrt(lo * hi)
+    const b = shapeWidth(mid)
+    if (mid * b * b * b * SHAPE_PEAK < amplitude) lo = mid
+    else hi = mid
+  }
+  const shape = { a: lo, b: shapeWidth(lo) }
+  scaleCache.set(amplitude, shape)
+  return shape
+}
+
+function cycleAt(index: number): CycleDef {
+  if (index < OBSERVED_CYCLES.length) return OBSERVED_CYCLES[index]
+  const last = OBSERVED_CYCLES[OBSERVED_CYCLES.length - 1]
+  return {
+    onsetYear: last.onsetYear + (index - OBSERVED_CYCLES.length + 1) * CYCLE_PERIOD_YEARS,
+    amplitude: FUTURE_AMPLITUDE,
+    uncertainty: FUTURE_UNCERTAINTY,
+  }
+}
+
+/** Smoothed sunspot number from the built-in cycle model */
+export function sunspotNumber(date: Date, cycleCase: SolarCycleCase = 'nominal'): number {
+  const year = YEAR_1970 + date.getTime() / MS_PER_YEAR
+  const sign = cycleCase === 'min' ? -1 : cycleCase === 'max' ? 1 : 0
+
+  let r = 0
+  // Sum overlapping cycles; a cycle's tail is negligible beyond x = 4 (~15 yr)
+  for (let i = 0; ; i++) {
+    const cycle = cycleAt(i)
+    if (cycle.onsetYear > year) break
+    const tMonths = (year - cycle.onsetYear) * 12
+    const amplitude = cycle.amplitude * (1 + sign * cycle.uncertainty)
+    const { a, b } = shapeForAmplitude(amplitude)
+    const x = tMonths / b
+    if (x < 4) r += a * tMonths * tMonths * tMonths / (Math.exp(x * x) - SHAPE_C)
+  }
+  return r
+}
+
+function fluxFromSunspots(r: number): number {
+  return 66 + 0.73 * r
+}
+
+function apFromSunspots(r: number): number {
+  return 6 + 0.06 * r
+}
+
+/** Smoothed space weather from the built-in solar-cycle model */
+export function builtinCycleWeather(date: Date, cycleCase: SolarCycleCase = 'nominal'): SpaceWeather {
+  const r = sunspotNumber(date, cycleCase)
+  const f107 = fluxFromSunspots(r)
+  return { f107, f107a: f107, ap: apFromSunspots(r) }
+}
+
+// ─── Imported predictions ───
+
+type ColumnKind = 'f107' | 'f107Min' | 'f107Max' | 'ap' | 'apMin' | 'apMax'
+
+function classifyColumn(header: string): ColumnKind | null {
+  const h = header.toLowerCase().replace(/[\s_.%()-]/g, '')
+  let base: 'f107' | 'ap'
+  let rest: string
+  if (h.startsWith('f107') || h.startsWith('flux')) {
+    base = 'f107'
+    rest = h.replace(/^(f107|flux)/, '')
+  } else if (h.startsWith('ap')) {
+    base = 'ap'
+    rest = h.slice(2)
+  } else {
+    return null
+  }
+  if (/^(min|low|lo|5|05)$/.test(rest)) return `${base}Min` as ColumnKind
+  if (/^(max|high|hi|95)$/.test(rest)) return `${base}Max` as ColumnKind
+  if (/^(|nom|nominal|mean|pred|predicted|50)$/.test(rest)) return base
+  return null
+}
+
+/** Parse ISO dates ("2027-03", "2027-03-15") or decimal years ("2027.25") */
+function parseFluxDate(field: string): number | null {
+  const trimmed = field.trim()
+  if (/^\d{4}(\.\d+)?$/.test(trimmed)) {
+    return (parseFloat(trimmed) - YEAR_1970) * MS_PER_YEAR
+  }
+  const ms = Date.parse(trimmed.length === 7 ? `${trimmed}-01T00:00:00Z` : trimmed)
+  return Number.isFinite(ms) ? ms : null
+}
+
+/**
+ * Parse a CSV of predicted solar flux. The first column is the date.
+ * With a header row, columns are matched by name (f107 / f107_min / f107_max,
+ * ap / ap_min / ap_max, also "5%"/"95%" or "low"/"high" suffixes); without
+ * one, columns are read as date, F10.7[, Ap]. Missing Ap is derived from F10.7.
+ */
+export function parseSolarFluxCSV(text: string): SolarFluxParseResult {
+  const errors: string[] = []
+  const records: SolarFluxRecord[] = []
+  const lines = text.split(/\r?\n/).map((l) => l.trim()).filter((l) => l && !l.startsWith('#'))
+  if (lines.length === 0) return { records, errors: ['No data rows found'] }
+
+  const split = (line: string) => line.split(/[,;\t]/).map((f) => f.trim())
+
+  let columns: (ColumnKind | null)[] = [null, 'f107', 'ap']
+  let start = 0
+  const first = split(lines[0])
+  if (first.slice(1).some((f) => f !== '' && !Number.isFinite(Number(f)))) {
+    columns = first.map((h, i) => (i === 0 ? null : classifyColumn(h)))
+    start = 1
+    if (!columns.includes('f107')) {
+      return { records, errors: ['Header has no F10.7 column (expected "f107")'] }
+    }
+  }
+
+  for (let i = start; i < lines.length; i++) {
+    const fields = split(lines[i])
+    const epochMs = parseFluxDate(fields[0])
+    if (epochMs === null) {
+      errors.push(`Row ${i + 1}: unrecognised date "${fields[0]}"`)
+      continue
+    }
+    const values: Partial<Record<ColumnKind, number>> = {}
+    columns.forEach((kind, c) => {
+      if (!kind || fields[c] === undefined || fields[c] === '') return
+      const v = Number(fields[c])
+      if (Number.isFinite(v)) values[kind] = v
+    })
+    const f107 = values.f107
+    if (f107 === undefined || f107 <= 0) {
+      errors.push(`Row ${i + 1}: missing or invalid F10.7`)
+      continue
+    }
+    const ap = values.ap ?? apFromSunspots((f107 - 66) / 0.73)
+    records.push({
+      epochMs,
+      f107,
+      f107Min: values.f107Min ?? f107,
+      f107Max: values.f107Max ?? f107,
+      ap,
+      apMin: values.apMin ?? ap,
+      apMax: values.apMax ?? ap,
+    })
+  }
+
+  records.sort((a, b) => a.epochMs - b.epochMs)
+  return { records, errors }
+}
+
+function recordValues(r: SolarFluxRecord, cycleCase: SolarCycleCase): [number, number] {
+  if (cycleCase === 'min') return [r.f107Min, r.apMin]
+  if (cycleCase === 'max') return [r.f107Max, r.apMax]
+  return [r.f107, r.ap]
+}
+
+/** Linearly interpolated imported flux; built-in model outside the table */
+export function importedFluxWeather(
+  records: SolarFluxRecord[],
+  date: Date,
+  cycleCase: SolarCycleCase = 'nominal',
+): SpaceWeather {
+  const t = date.getTime()
+  if (records.length === 0 || t < records[0].epochMs || t > records[records.length - 1].epochMs) {
+    return builtinCycleWeather(date, cycleCase)
+  }
+
+  let lo = 0
+  let hi = records.length - 1
+  while (hi - lo > 1) {
+    const mid = (lo + hi) >> 1
+    if (records[mid].epochMs <= t) lo = mid
+    else hi = mid
+  }
+  const [f0, ap0] = recordValues(records[lo], cycleCase)
+  const [f1, ap1] = recordValues(records[hi], cycleCase)
+  const span = records[hi].epochMs - records[lo].epochMs
+  const frac = span > 0 ? (t - records[lo].epochMs) / span : 0
+  const f107 = f0 + (f1 - f0) * frac
+  return { f107, f107a: f107, ap: ap0 + (ap1 - ap0) * frac }
+}
+
+/** Forecast function for one cycle case, from imported records when given */
+export function solarCycleForecast(
+  cycleCase: SolarCycleCase,
+  records?: SolarFluxRecord[] | null,
+): SpaceWeatherForecast {
+  return records && records.length > 0
+    ? (date) => importedFluxWeather(records, date, cycleCase)
+    : (date) => builtinCycleWeather(date, cycleCase)
+}
+
+/** Solar input for a decay study: the fixed indices, or the selected forecast case */
+export function forecastWeather(
+  config: SolarForecastConfig,
+  fixed: SpaceWeather,
+  cycleCase: SolarCycleCase = 'nominal',
+): SpaceWeather | SpaceWeatherForecast {
+  if (config.source === 'fixed') return fixed
+  return solarCycleForecast(cycleCase, config.source === 'imported' ? config.records : null)
+}
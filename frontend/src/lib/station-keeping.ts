@@ -0,0 +1,357 @@
+/**
+ * Station-keeping simulation for libration-point orbits.
+ *
+ * Each Monte Carlo run starts on the corrected CR3BP reference orbit with
+ * an injection error, propagates the true state between maneuvers and,
+ * at every cadence epoch, plans a correction from a navigation estimate
+ * (true state plus position/velocity noise). The planned burn is executed
+ * with a proportional magnitude error. Two control laws are offered:
+ *
+ *   - x-axis crossing control: the minimum-norm ΔV that nulls vx at the
+ *     next y = 0 crossing, keeping the trajectory symmetric and bounded
+ *     (one or two Newton iterations through the STM).
+ *   - Floquet-mode control: the minimum-norm ΔV that removes the
+ *     deviation's projection onto the unstable mode, using the left
+ *     eigenvector of the monodromy matrix carried around the orbit.
+ *
+ * Both laws also hold the reference Jacobi constant; otherwise navigation
+ * noise random-walks the energy onto neighbouring family members, where
+ * the reference orbit's modes no longer apply.
+ *
+ * Deviations are measured from the nearest point of the reference orbit,
+ * so slow phase drift along the orbit is not mistaken for divergence.
+ * Runs whose deviation grows past a quarter of the L-point's distance
+ * from the secondary are counted as lost. Annual ΔV statistics
+ * come from the surviving runs.
+ *
+ * Standalone physics module — no UI dependencies.
+ */
+
+import { cr3bpSystem, jacobiConstant, propagateCr3bp, withStm, stmFromState } from './cr3bp'
+import type { Cr3bpEvent, HaloBranch, PeriodicOrbitFamily, PeriodicOrbitResult } from './cr3bp'
+import { createRandom, percentile } from './monte-carlo'
+import { SEC_PER_DAY } from './constants'
+import type { LagrangeSystem, LagrangePoint } from '@/types/beyond-leo'
+
+// ─── Types ───
+
+export type StationKeepingStrategy = 'x-axis' | 'floquet'
+
+export const STATION_KEEPING_STRATEGIES: Record<StationKeepingStrategy, string> = {
+  'x-axis': 'x-Axis Crossing',
+  floquet: 'Floquet Mode',
+}
+
+export interface StationKeepingConfig {
+  strategy: StationKeepingStrategy
+  cadenceDays: number          // time between correction maneuvers
+  durationYears: number        // simulated span per run
+  runs: number
+  insertionPosKm: number       // 1σ per axis, at orbit insertion
+  insertionVelCms: number      // 1σ per axis, at orbit insertion
+  navPosKm: number             // 1σ per axis, orbit determination at each maneuver
+  navVelCms: number            // 1σ per axis, orbit determination at each maneuver
+  executionErrorPct: number    // 1σ proportional burn magnitude error
+  minBurnCms: number           // planned burns below this are skipped
+  seed: number
+}
+
+export const DEFAULT_STATION_KEEPING_CONFIG: StationKeepingConfig = {
+  strategy: 'x-axis',
+  cadenceDays: 30,
+  durationYears: 2,
+  runs: 50,
+  insertionPosKm: 10,
+  insertionVelCms: 5,
+  navPosKm: 1,
+  navVelCms: 1,
+  executionErrorPct: 2,
+  minBurnCms: 1,
+  seed: 1,
+}
+
+export interface StationKeepingEvent {
+  day: number
+  deviationKm: number          // position offset from the reference orbit before the burn
+  cumulativeDvMs: number
+}
+
+export interface StationKeepingResult {
+  system: LagrangeSystem
+  point: LagrangePoint
+  family: PeriodicOrbitFamily
+  orbitBranch: HaloBranch
+  orbitAmplitudeKm: number
+  orbitJacobi: number          // identifies the reference orbit
+  config: StationKeepingConfig
+  runs: number
+  lostRuns: number
+  lostDeviationKm: number      // deviation at which a run is declared lost
+  annualDvMs: number[]         // per surviving run
+  meanAnnualDvMs: number
+  stdAnnualDvMs: number
+  p50AnnualDvMs: number        // lost runs rank above every survivor; Infinity once the percentile falls among them
+  p95AnnualDvMs: number
+  maxAnnualDvMs: number
+  maneuversPerYear: number     // mean over surviving runs, excluding skipped burns
+  meanBurnCms: number
+  p95DeviationKm: number       // 95th percentile of each run's largest deviation
+  sampleRun: StationKeepingEvent[]  // first surviving run, for plotting
+}
+
+// ─── Helpers ───
+
+const REFERENCE_SEGMENTS = 400
+
+/**
+ * Percentile over every run, counting lost runs as failures ranked above
+ * all survivors. Infinity when the percentile lands on a lost run.
+ */
+function percentileCountingLost(sorted: number[], lostRuns: number, p: number): number {
+  const idx = (p / 100) * (sorted.length + lostRuns - 1)
+  const lo = Math.floor(idx)
+  const hi = Math.ceil(idx)
+  if (hi >= sorted.length) return Infinity
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (idx - lo)
+}
+const MAX_TARGETING_ITERATIONS = 2
+
+function gaussian(random: () => number): number {
+  const u1 = Math.max(random(), 1e-12)
+  const u2 = random()
+  return Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2)
+}
+
+/** Dominant eigenvector of Mᵀ — the left eigenvector of the unstable mode */
+function leftUnstableEigenvector(M: number[][]): number[] {
+  let w = [1, 1, 1, 1, 1, 1]
+  for (let i = 0; i < 30; i++) {
+    const next = w.map((_, j) => M.reduce((acc, row, k) => acc + row[j] * w[k], 0))
+    const n = Math.hypot(...next)
+    w = next.map((x) => x / n)
+  }
+  return w
+}
+
+/** Minimum-norm ΔV satisfying one or two linear constraints rows·ΔV = rhs */
+function minNormBurn(rows: number[][], rhs: number[]): number[] {
+  const dot = (a: number[], b: number[]) => a[0] * b[0] + a[1] * b[1] + a[2] * b[2]
+  if (rows.length === 1) return rows[0].map((g) => g * rhs[0] / dot(rows[0], rows[0]))
+  const [a, b] = rows
+  const g11 = dot(a, a)
+  const g12 = dot(a, b)
+  const g22 = dot(b, b)
+  const det = g11 * g22 - g12 * g12
+  if (Math.abs(det) < 1e-14 * g11 * g22) return minNormBurn([a], [rhs[0]])
+  const l1 = (g22 * rhs[0] - g12 * rhs[1]) / det
+  const l2 = (g11 * rhs[1] - g12 * rhs[0]) / det
+  return [0, 1, 2].map((k) => l1 * a[k] + l2 * b[k])
+}
+
+/** x-component of the CR3BP acceleration in the rotating frame */
+function accelX(mu: number, s: ArrayLike<number>): number {
+  const r1 = Math.hypot(s[0] + mu, s[1], s[2])
+  const r2 = Math.hypot(s[0] - 1 + mu, s[1], s[2])
+  return 2 * s[4] + s[0] - (1 - mu) * (s[0] + mu) / r1 ** 3 - mu * (s[0] - 1 + mu) / r2 ** 3
+}
+
+const Y_CROSSING: Cr3bpEvent = { value: (s) => s[1], rate: (s) => s[4], count: 1 }
+const Y_SECOND_CROSSING: Cr3bpEvent = { ...Y_CROSSING, count: 2 }
+
+// ─── Simulation ───
+
+export function runStationKeeping(
+  orbit: PeriodicOrbitResult,
+  config: StationKeepingConfig,
+  onProgress?: (fraction: number) => void,
+): StationKeepingResult {
+  const { mu, lengthKm, timeSec } = cr3bpSystem(orbit.system)
+  const velMs = lengthKm / timeSec * 1000
+  const T = orbit.periodNd
+  const cadence = config.cadenceDays * SEC_PER_DAY / timeSec
+  const duration = config.durationYears * 365.25 * SEC_PER_DAY / timeSec
+  const lostDeviationKm = 0.25 * Math.abs(orbit.lPointX - (1 - mu)) * lengthKm
+  const lostDeviation = lostDeviationKm / lengthKm
+  const random = createRandom(config.seed)
+
+  // Reference states and unstable left eigenvectors at evenly spaced phases
+  const dtRef = T / REFERENCE_SEGMENTS
+  const refStates: number[][] = [orbit.initialState]
+  const segmentStms: number[][][] = []
+  for (let j = 0; j < REFERENCE_SEGMENTS; j++) {
+    const y = propagateCr3bp(mu, withStm(refStates[j]), dtRef).state
+    refStates.push(Array.from(y.slice(0, 6)))
+    segmentStms.push(stmFromState(y))
+  }
+  // wⱼᵀ ∝ wⱼ₊₁ᵀ Φ(τⱼ₊₁, τⱼ), closing on w₀ of the monodromy matrix
+  const leftVectors: number[][] = new Array(REFERENCE_SEGMENTS + 1)
+  leftVectors[REFERENCE_SEGMENTS] = leftUnstableEigenvector(orbit.monodromy)
+  for (let j = REFERENCE_SEGMENTS - 1; j >= 0; j--) {
+    const Phi = segmentStms[j]
+    const w = leftVectors[j + 1]
+    const next = w.map((_, c) => Phi.reduce((acc, row, r) => acc + row[c] * w[r], 0))
+    const n = Math.hypot(...next)
+    leftVectors[j] = next.map((x) => x / n)
+  }
+
+  /** Orbit phase (time since the initial state) of the reference point nearest to a position */
+  const nearestPhase = (x: number[]): number => {
+    let best = Infinity
+    let tau = 0
+    for (let j = 0; j < REFERENCE_SEGMENTS; j++) {
+      const a = refStates[j]
+      const b = refStates[j + 1]
+      const d = [b[0] - a[0], b[1] - a[1], b[2] - a[2]]
+      const d2 = d[0] * d[0] + d[1] * d[1] + d[2] * d[2]
+      const u = Math.max(0, Math.min(1, ((x[0] - a[0]) * d[0] + (x[1] - a[1]) * d[1] + (x[2] - a[2]) * d[2]) / d2))
+      const dist = Math.hypot(x[0] - a[0] - u * d[0], x[1] - a[1] - u * d[1], x[2] - a[2] - u * d[2])
+      if (dist < best) {
+        best = dist
+        tau = (j + u) * dtRef
+      }
+    }
+    return tau
+  }
+
+  /** Reference state at orbit phase τ, and (for Floquet control) the unstable left eigenvector */
+  const reference = (phase: number, withMode: boolean) => {
+    const tau = ((phase % T) + T) % T
+    const j = Math.min(REFERENCE_SEGMENTS - 1, Math.floor(tau / dtRef))
+    const dt = tau - j * dtRef
+    const state = dt > 0 ? Array.from(propagateCr3bp(mu, Float64Array.from(refStates[j]), dt).state) : refStates[j]
+    if (!withMode) return { state, mode: null }
+    // w(τ)ᵀ ∝ wⱼ₊₁ᵀ Φ(τⱼ₊₁, τ)
+    const Phi = stmFromState(propagateCr3bp(mu, withStm(state), (j + 1) * dtRef - tau).state)
+    const w = leftVectors[j + 1]
+    const mode = w.map((_, c) => Phi.reduce((acc, row, r) => acc + row[c] * w[r], 0))
+    return { state, mode }
+  }
+
+  const xAxisManeuver = (estimate: number[]): number[] => {
+    const dv = [0, 0, 0]
+    for (let iter = 0; iter < MAX_TARGETING_ITERATIONS; iter++) {
+      const start = estimate.map((x, i) => (i >= 3 ? x + dv[i - 3] : x))
+      let out = propagateCr3bp(mu, withStm(start), 1.5 * T, Y_CROSSING)
+      // A crossing right after the burn carries no control authority; target the next one
+      if (out.eventFound && out.t < 0.05 * T) out = propagateCr3bp(mu, withStm(start), 1.5 * T, Y_SECOND_CROSSING)
+      if (!out.eventFound) break
+      const f = out.state
+      const Phi = stmFromState(f)
+      const ratio = accelX(mu, f) / f[4]
+      const g = [0, 1, 2].map((k) => Phi[3][3 + k] - ratio * Phi[1][3 + k])
+      // ∂C/∂v = −2v
+      const step = minNormBurn(
+        [g, start.slice(3).map((v) => -2 * v)],
+        [-f[3], orbit.jacobi - jacobiConstant(mu, start)],
+      )
+      for (let k = 0; k < 3; k++) dv[k] += step[k]
+      if (Math.abs(f[3]) * velMs < 1e-4) break
+    }
+    return dv
+  }
+
+  const floquetManeuver = (estimate: number[], ref: number[], mode: number[]): number[] => {
+    const alpha = mode.reduce((acc, w, i) => acc + w * (estimate[i] - ref[i]), 0)
+    return minNormBurn(
+      [mode.slice(3), estimate.slice(3).map((v) => -2 * v)],
+      [-alpha, orbit.jacobi - jacobiConstant(mu, estimate)],
+    )
+  }
+
+  const annualDvMs: number[] = []
+  const maneuverCounts: number[] = []
+  const burnsCms: number[] = []
+  const maxDeviationsKm: number[] = []
+  let lostRuns = 0
+  let sampleRun: StationKeepingEvent[] = []
+
+  for (let run = 0; run < config.runs; run++) {
+    const insertion = [0, 1, 2, 3, 4, 5].map((i) => gaussian(random) * (i < 3
+      ? config.insertionPosKm / lengthKm
+      : config.insertionVelCms / 100 / velMs))
+    let x = orbit.initialState.map((v, i) => v + insertion[i])
+    let t = 0
+    let totalDv = 0
+    let maneuvers = 0
+    let maxDeviation = 0
+    let lost = false
+    const history: StationKeepingEvent[] = []
+
+    while (t < duration) {
+      const tNext = Math.min(t + cadence, duration)
+      x = Array.from(propagateCr3bp(mu, Float64Array.from(x), tNext - t).state)
+      t = tNext
+      const ref = reference(nearestPhase(x), config.strategy === 'floquet')
+      const deviation = Math.hypot(x[0] - ref.state[0], x[1] - ref.state[1], x[2] - ref.state[2])
+      maxDeviation = Math.max(maxDeviation, deviation)
+      if (deviation > lostDeviation || !Number.isFinite(deviation)) {
+        lost = true
+        break
+      }
+      if (t >= duration) break
+
+      const estimate = x.map((v, i) => v + gaussian(random) * (i < 3
+        ? config.navPosKm / lengthKm
+        : config.navVelCms / 100 / velMs))
+      const planned = config.strategy === 'floquet' && ref.mode
+        ? floquetManeuver(estimate, ref.state, ref.mode)
+        : xAxisManeuver(estimate)
+      const plannedCms = Math.hypot(...planned) * velMs * 100
+      if (plannedCms >= config.minBurnCms) {
+        const scale = 1 + gaussian(random) * config.executionErrorPct / 100
+        for (let k = 0; k < 3; k++) x[3 + k] += planned[k] * scale
+        const burn = Math.hypot(...planned) * Math.abs(scale)
+        totalDv += burn
+        burnsCms.push(burn * velMs * 100)
+        maneuvers++
+      }
+      history.push({ day: t * timeSec / SEC_PER_DAY, deviationKm: deviation * lengthKm, cumulativeDvMs: totalDv * velMs })
+    }
+
+    if (lost) {
+      lostRuns++
+    } else {
+      annualDvMs.push(totalDv * velMs / config.durationYears)
+      maneuverCounts.push(maneuvers / config.durationYears)
+      maxDeviationsKm.push(maxDeviation * lengthKm)
+      if (sampleRun.length === 0) sampleRun = history
+    }
+    onProgress?.((run + 1) / config.runs)
+  }
+
+  if (annualDvMs.length === 0) {
+    const eFoldDays = orbit.periodDays / Math.log(orbit.maxEigenvalue)
+    throw new Error(
+      `All ${config.runs} runs diverged — use a maneuver cadence well below the ${eFoldDays.toFixed(1)}-day e-folding time`,
+    )
+  }
+
+  const sorted = [...annualDvMs].sort((a, b) => a - b)
+  const n = sorted.length
+  const mean = sorted.reduce((s, v) => s + v, 0) / n
+  const variance = n > 1 ? sorted.reduce((s, v) => s + (v - mean) * (v - mean), 0) / (n - 1) : 0
+  const sortedDeviation = [...maxDeviationsKm].sort((a, b) => a - b)
+
+  return {
+    system: orbit.system,
+    point: orbit.point,
+    family: orbit.family,
+    orbitBranch: orbit.branch,
+    orbitAmplitudeKm: orbit.amplitudeKm,
+    orbitJacobi: orbit.jacobi,
+    config,
+    runs: config.runs,
+    lostRuns,
+    lostDeviationKm,
+    annualDvMs,
+    meanAnnualDvMs: mean,
+    stdAnnualDvMs: Math.sqrt(variance),
+    p50AnnualDvMs: percentileCountingLost(sorted, lostRuns, 50),
+    p95AnnualDvMs: percentileCountingLost(sorted, lostRuns, 95),
+    maxAnnualDvMs: sorted[n - 1],
+    maneuversPerYear: maneuverCounts.reduce((s, v) => s + v, 0) / n,
+    meanBurnCms: burnsCms.length ? burnsCms.reduce((s, v) => s + v, 0) / burnsCms.length : 0,
+    p95DeviationKm: percentile(sortedDeviation, 95),
+    sampleRun,
+  }
+}
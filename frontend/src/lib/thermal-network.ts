@@ -0,0 +1,535 @@
+/**
+ * Multi-node transient thermal network.
+ *
+ * The bus is six face nodes (the box of the panel geometry), each with its
+ * own surface material on the area not covered by body-mounted cells, plus
+ * one node per deployable panel and lumped component nodes — battery,
+ * payload, electronics — inside the bus. Faces conduct to their neighbours
+ * along shared edges and deployables through their hinge; components conduct
+ * through their mounts and radiate to the inner face surfaces. Around the
+ * orbit the attitude law and the conical-shadow Sun give the solar, albedo
+ * and Earth-IR load on every external surface, and each face radiates to
+ * space. Power-budget subsystems dissipate in the component they are
+ * assigned to (unassigned ones spread over the structure). Thermostatic
+ * heaters switch on below a set point and off above a release temperature;
+ * their orbit-average draw is what the budget's heater entry should carry.
+ *
+ * Explicit integration, repeated orbit after orbit until the temperatures
+ * repeat, then one recorded orbit.
+ *
+ * Standalone physics module — no UI dependencies.
+ */
+
+import { R_EARTH_EQUATORIAL, SOLAR_FLUX, SEC_PER_DAY } from './constants'
+import { AU_KM } from './beyond-leo-constants'
+import { computeOrbitalPeriod } from './orbital-mechanics'
+import {
+  orbitPositionSampler,
+  shadowFunction,
+  computeBetaAngle,
+  computeEclipseTimeline,
+  driftedElements,
+} from './eclipse'
+import { sunPositionEci } from './ephemeris'
+import {
+  PANEL_HEAT_CAPACITY,
+  TUMBLING_PROJECTION,
+  bodyAxes,
+  defaultSolarArray,
+  drivenNormal,
+} from './solar-array'
+import { subsystemAvgPower, type PowerSubsystem } from './power-budget'
+import { SURFACE_MATERIALS, DEFAULT_MATERIAL } from './thermal-analysis'
+import type { SpacecraftConfig } from '@/types/mission'
+import type { OrbitalElements } from '@/types/orbit'
+
+// ─── Constants ───
+
+const STEFAN_BOLTZMANN = 5.670374419e-8  // W/(m² K⁴)
+const EARTH_IR = 240                      // W/m²
+const EARTH_ALBEDO = 0.3
+const STRUCTURE_HEAT_CAPACITY = 4860      // J/(m² K), 2 mm aluminium face
+const EDGE_CONDUCTANCE = 2.5              // W/K per metre of edge shared by two faces
+const HINGE_CONDUCTANCE = 0.05            // W/K, deployable panel to its face
+const INNER_EMITTANCE = 0.85              // inside of the faces
+const SAMPLES_PER_ORBIT = 180
+const MAX_STEP_SEC = 5
+const MAX_SPINUP_ORBITS = 30
+const CONVERGENCE_K = 0.05
+const LIMIT_MARGIN_C = 5
+const INITIAL_TEMP_K = 293.15
+
+/** Budget entry that stands for the thermostatic heaters */
+export const HEATER_SUBSYSTEM_ID = 'heater'
+
+// ─── Configuration ───
+
+export type FaceId = '+X' | '-X' | '+Y' | '-Y' | '+Z' | '-Z'
+export const FACE_IDS: FaceId[] = ['+X', '-X', '+Y', '-Y', '+Z', '-Z']
+
+export type ComponentKind = 'battery' | 'payload' | 'electronics'
+
+export interface HeaterConfig {
+  enabled: boolean
+  powerW: number
+  onBelowC: number
+  offAboveC: number
+}
+
+export interface ComponentNodeConfig {
+  id: string
+  name: string
+  kind: ComponentKind
+  massKg: number
+  specificHeat: number            // J/(kg K)
+  areaM2: number                  // radiating area facing the bus interior
+  emittance: number
+  mountConductance: number        // W/K to the structure, shared over the faces by area
+  tempMinC: number                // operating limits (payload: from the payload config)
+  tempMaxC: number
+  subsystemIds: string[]          // power-budget entries dissipated here
+  heater: HeaterConfig
+}
+
+/** 'hot' / 'cold' run the shortest / longest-eclipse day of the year from epoch */
+export type ThermalOrbitCase = 'epoch' | 'hot' | 'cold'
+
+export interface ThermalNetworkConfig {
+  orbitCase: ThermalOrbitCase
+  faceMaterials: Record<FaceId, string>   // SURFACE_MATERIALS key, for the area without cells
+  components: ComponentNodeConfig[]
+}
+
+export const DEFAULT_THERMAL_NETWORK_CONFIG: ThermalNetworkConfig = {
+  orbitCase: 'cold',
+  faceMaterials: {
+    '+X': DEFAULT_MATERIAL, '-X': DEFAULT_MATERIAL,
+    '+Y': DEFAULT_MATERIAL, '-Y': DEFAULT_MATERIAL,
+    '+Z': DEFAULT_MATERIAL, '-Z': DEFAULT_MATERIAL,
+  },
+  components: [
+    {
+      id: 'battery', name: 'Battery', kind: 'battery',
+      massKg: 0.35, specificHeat: 1000, areaM2: 0.01, emittance: 0.3, mountConductance: 0.05,
+      tempMinC: 0, tempMaxC: 45, subsystemIds: [],
+      heater: { enabled: true, powerW: 2, onBelowC: 5, offAboveC: 10 },
+    },
+    {
+      id: 'payload', name: 'Payload', kind: 'payload',
+      massKg: 0.6, specificHeat: 900, areaM2: 0.02, emittance: 0.8, mountConductance: 0.5,
+      tempMinC: -20, tempMaxC: 50, subsystemIds: ['camera'],
+      heater: { enabled: false, powerW: 1, onBelowC: -15, offAboveC: -10 },
+    },
+    {
+      id: 'electronics', name: 'Electronics', kind: 'electronics',
+      massKg: 0.4, specificHeat: 900, areaM2: 0.02, emittance: 0.8, mountConductance: 0.8,
+      tempMinC: -40, tempMaxC: 85, subsystemIds: ['obc', 'radio-tx', 'adcs'],
+      heater: { enabled: false, powerW: 0.5, onBelowC: -35, offAboveC: -30 },
+    },
+  ],
+}
+
+// ─── Inputs / results ───
+
+export interface ThermalNetworkInputs {
+  elements: OrbitalElements
+  spacecraft: SpacecraftConfig
+  subsystems: PowerSubsystem[]
+  epoch: Date
+  payloadLimits: { tempMinC: number; tempMaxC: number } | null
+}
+
+export type ThermalNodeKind = 'face' | 'panel' | ComponentKind
+
+export interface ThermalNodeResult {
+  id: string
+  name: string
+  kind: ThermalNodeKind
+  tempC: number[]
+  minC: number
+  maxC: number
+  meanC: number
+  limitMinC: number | null
+  limitMaxC: number | null
+  status: 'nominal' | 'warning' | 'critical'
+  dissipationW: number
+  heaterAvgW: number
+  heaterDuty: number
+}
+
+export interface ThermalNetworkResult {
+  dateISO: string
+  betaDeg: number
+  timeMinutes: number[]
+  illumination: number[]
+  nodes: ThermalNodeResult[]
+  heaterW: number[]               // total heater draw
+  heaterAvgW: number
+  heaterInstalledW: number
+  dissipationW: number            // budget loads turned into heat
+  orbitsToConverge: number
+  converged: boolean
+}
+
+// ─── Vector helpers ───
+
+type V = [number, number, number]
+const dot = (a: V, b: V) => a[0] * b[0] + a[1] * b[1] + a[2] * b[2]
+const unit = (a: V): V => {
+  const n = Math.sqrt(dot(a, a))
+  return n > 0 ? [a[0] / n, a[1] / n, a[2] / n] : [0, 0, 0]
+}
+
+const FACE_NORMALS: Record<FaceId, V> = {
+  '+X': [1, 0, 0], '-X': [-1, 0, 0],
+  '+Y': [0, 1, 0], '-Y': [0, -1, 0],
+  '+Z': [0, 0, 1], '-Z': [0, 0, -1],
+}
+const faceAxis = (id: FaceId) => FACE_NORMALS[id].findIndex((c) => c !== 0)
+
+// ─── Network ───
+
+interface NetworkNode {
+  id: string
+  name: string
+  kind: ThermalNodeKind
+  capacity: number                // J/K
+  dissipationW: number
+  radiatorEA: number              // ε·A radiating to space
+  limits: [number, number] | null
+  heater: HeaterConfig | null
+}
+
+interface Coupling {
+  a: number
+  b: number
+  conductance: number             // W/K
+  radiative: number               // σ·ε·A, W/K⁴
+}
+
+/** Case date and drifted elements for the orbit case */
+function caseOrbit(inputs: ThermalNetworkInputs, orbitCase: ThermalOrbitCase): { elements: OrbitalElements; date: Date } {
+  if (orbitCase === 'epoch') return { elements: inputs.elements, date: inputs.epoch }
+  const timeline = computeEclipseTimeline(inputs.elements, inputs.epoch, 365.25)
+  const day = timeline.days[orbitCase === 'hot' ? timeline.bestIndex : timeline.worstIndex]
+  return {
+    elements: driftedElements(inputs.elements, day.day),
+    date: new Date(inputs.epoch.getTime() + day.day * SEC_PER_DAY * 1000),
+  }
+}
+
+export function computeThermalNetwork(
+  inputs: ThermalNetworkInputs,
+  config: ThermalNetworkConfig,
+): ThermalNetworkResult {
+  const { spacecraft, subsystems } = inputs
+  const { elements, date } = caseOrbit(inputs, config.orbitCase)
+  const array = spacecraft.solarArray ?? defaultSolarArray(spacecraft)
+  const dims = array.bodyDimsM
+  const cellAlpha = array.absorptance
+  const cellEps = array.emittance
+  const eta = spacecraft.solarCellEfficiency
+
+  const nodes: NetworkNode[] = []
+  const couplings: Coupling[] = []
+
+  // Faces, with the body-mounted cell area they carry
+  const faceArea = (id: FaceId) => {
+    const k = faceAxis(id)
+    return dims[(k + 1) % 3] * dims[(k + 2) % 3]
+  }
+  const cellArea: Record<string, number> = {}
+  for (const p of array.panels) {
+    if (p.mount !== 'body' || p.areaM2 <= 0) continue
+    const n = unit(p.normal)
+    const face = FACE_IDS.reduce((best, id) => (dot(n, FACE_NORMALS[id]) > dot(n, FACE_NORMALS[best]) ? id : best), FACE_IDS[0])
+    cellArea[face] = (cellArea[face] ?? 0) + p.areaM2
+  }
+  const faces = FACE_IDS.map((id) => {
+    const area = faceArea(id)
+    const coverage = area > 0 ? Math.min(1, (cellArea[id] ?? 0) / area) : 0
+    const material = SURFACE_MATERIALS[config.faceMaterials[id]] ?? SURFACE_MATERIALS[DEFAULT_MATERIAL]
+    return {
+      id,
+      area,
+      coverage,
+      alpha: coverage * cellAlpha + (1 - coverage) * material.absorptivity,
+      eps: coverage * cellEps + (1 - coverage) * material.emissivity,
+    }
+  })
+  const totalFaceArea = faces.reduce((sum, f) => sum + f.area, 0)
+  for (const f of faces) {
+    nodes.push({
+      id: `face${f.id}`,
+      name: `Face ${f.id}`,
+      kind: 'face',
+      capacity: f.area * STRUCTURE_HEAT_CAPACITY,
+      dissipationW: 0,
+      radiatorEA: f.eps * f.area,
+      limits: null,
+      heater: null,
+    })
+  }
+  // Edges between perpendicular faces
+  for (let i = 0; i < 6; i++) {
+    for (let j = i + 1; j < 6; j++) {
+      const ai = faceAxis(FACE_IDS[i])
+      const aj = faceAxis(FACE_IDS[j])
+      if (ai === aj) continue
+      const edge = dims[3 - ai - aj]
+      couplings.push({ a: i, b: j, conductance: EDGE_CONDUCTANCE * edge, radiative: 0 })
+    }
+  }
+
+  // Deployable panels, hinged to the face they stand off
+  const deployables = array.panels.filter((p) => p.mount === 'deployable' && p.areaM2 > 0)
+  for (const p of deployables) {
+    const dir = unit(p.position)
+    const face = FACE_IDS.reduce((best, id) => (dot(dir, FACE_NORMALS[id]) > dot(dir, FACE_NORMALS[best]) ? id : best), FACE_IDS[0])
+    couplings.push({ a: FACE_IDS.indexOf(face), b: nodes.length, conductance: HINGE_CONDUCTANCE, radiative: 0 })
+    nodes.push({
+      id: p.id,
+      name: p.name,
+      kind: 'panel',
+      capacity: p.areaM2 * PANEL_HEAT_CAPACITY,
+      dissipationW: 0,
+      radiatorEA: 2 * cellEps * p.areaM2,
+      limits: null,
+      heater: null,
+    })
+  }
+
+  // Components inside the bus
+  const assigned = new Set(config.components.flatMap((c) => c.subsystemIds))
+  const loadOf = (ids: string[]) => subsystems
+    .filter((s) => ids.includes(s.id) && s.id !== HEATER_SUBSYSTEM_ID)
+    .reduce((sum, s) => sum + subsystemAvgPower(s), 0)
+  for (const c of config.components) {
+    const index = nodes.length
+    const limits: [number, number] = c.kind === 'payload' && inputs.payloadLimits
+      ? [inputs.payloadLimits.tempMinC, inputs.payloadLimits.tempMaxC]
+      : [c.tempMinC, c.tempMaxC]
+    nodes.push({
+      id: c.id,
+      name: c.name,
+      kind: c.kind,
+      capacity: Math.max(1e-3, c.massKg * c.specificHeat),
+      dissipationW: loadOf(c.subsystemIds),
+      radiatorEA: 0,
+      limits,
+      heater: c.heater.enabled && c.heater.powerW > 0 ? c.heater : null,
+    })
+    const epsEff = 1 / (1 / Math.max(0.01, c.emittance) + 1 / INNER_EMITTANCE - 1)
+    faces.forEach((f, j) => {
+      const share = f.area / totalFaceArea
+      couplings.push({
+        a: index,
+        b: j,
+        conductance: c.mountConductance * share,
+        radiative: STEFAN_BOLTZMANN * epsEff * c.areaM2 * share,
+      })
+    })
+  }
+  // Loads not assigned to a component warm the structure
+  const unassignedW = subsystems
+    .filter((s) => !assigned.has(s.id) && s.id !== HEATER_SUBSYSTEM_ID)
+    .reduce((sum, s) => sum + subsystemAvgPower(s), 0)
+  faces.forEach((f, j) => { nodes[j].dissipationW += unassignedW * f.area / totalFaceArea })
+
+  // ── Environment over one revolution (Sun held fixed) ──
+  const periodSec = computeOrbitalPeriod(elements.semiMajorAxis)
+  const positionAt = orbitPositionSampler(elements)
+  const sun = sunPositionEci(date)
+  const sunDist = Math.sqrt(sun.x * sun.x + sun.y * sun.y + sun.z * sun.z)
+  const s: V = [sun.x / sunDist, sun.y / sunDist, sun.z / sunDist]
+  const flux = SOLAR_FLUX * (AU_KM / sunDist) ** 2
+  const r0 = positionAt(0)
+  const r1 = positionAt(periodSec / 4)
+  const h = unit([
+    r0.y * r1.z - r0.z * r1.y,
+    r0.z * r1.x - r0.x * r1.z,
+    r0.x * r1.y - r0.y * r1.x,
+  ])
+
+  const illumination: number[] = []
+  const external: number[][] = []     // [sample][node] absorbed environmental load, W
+  for (let k = 0; k <= SAMPLES_PER_ORBIT; k++) {
+    const rv = positionAt((k / SAMPLES_PER_ORBIT) * periodSec)
+    const r: V = [rv.x, rv.y, rv.z]
+    const rMag = Math.sqrt(dot(r, r))
+    const lit = shadowFunction(rv, sun)
+    const earthView = (R_EARTH_EQUATORIAL / rMag) ** 2
+    const dayside = Math.max(0, dot(r, s) / rMag)
+    const axes = bodyAxes(spacecraft.pointingMode, r, h, s)
+    const toBody = (v: V): V => (axes ? [dot(axes[0], v), dot(axes[1], v), dot(axes[2], v)] : v)
+    const sBody = toBody(s)
+    const nadirBody = unit(toBody([-r[0], -r[1], -r[2]]))
+
+    /** Sun and Earth projections for a surface with body-frame normal n */
+    const view = (n: V) => axes
+      ? { sun: Math.max(0, dot(n, sBody)) * lit, earth: Math.max(0, dot(n, nadirBody)) * earthView }
+      : { sun: TUMBLING_PROJECTION * lit, earth: TUMBLING_PROJECTION * earthView }
+
+    const q = new Array<number>(nodes.length).fill(0)
+    faces.forEach((f, j) => {
+      const v = view(FACE_NORMALS[f.id])
+      q[j] = f.area * (
+        flux * v.sun * (f.alpha - f.coverage * eta)
+        + f.eps * EARTH_IR * v.earth
+        + f.alpha * EARTH_ALBEDO * flux * dayside * v.earth
+      )
+    })
+    deployables.forEach((p, j) => {
+      const n = axes ? drivenNormal(p, sBody) : unit(p.normal)
+      const front = view(n)
+      const back = view([-n[0], -n[1], -n[2]])
+      const earth = front.earth + back.earth
+      q[6 + j] = p.areaM2 * (
+        flux * front.sun * (cellAlpha - eta)
+        + cellEps * EARTH_IR * earth
+        + cellAlpha * EARTH_ALBEDO * flux * dayside * earth
+      )
+    })
+    illumination.push(lit)
+    external.push(q)
+  }
+
+  // ── Integration ──
+  const n = nodes.length
+  const sampleSec = periodSec / SAMPLES_PER_ORBIT
+  // Explicit step well inside the fastest node's conductive time constant
+  const coupled = new Array<number>(n).fill(0)
+  for (const c of couplings) {
+    const g = c.conductance + 4 * c.radiative * 400 ** 3
+    coupled[c.a] += g
+    coupled[c.b] += g
+  }
+  const stable = Math.min(...nodes.map((node, i) => 0.5 * node.capacity / Math.max(1e-9, coupled[i] + 4 * STEFAN_BOLTZMANN * node.radiatorEA * 400 ** 3)))
+  const subSteps = Math.max(1, Math.ceil(sampleSec / Math.min(MAX_STEP_SEC, stable)))
+  const dt = sampleSec / subSteps
+
+  const T = new Array<number>(n).fill(INITIAL_TEMP_K)
+  const heaterOn = nodes.map(() => false)
+  const heaterEnergy = new Array<number>(n).fill(0)
+  const net = new Array<number>(n).fill(0)
+
+  /** Advance one sample interval; returns the heater draw at its start */
+  const advance = (k: number): number => {
+    const q = external[k]
+    let heaterStart = 0
+    for (let m = 0; m < subSteps; m++) {
+      for (let i = 0; i < n; i++) {
+        const node = nodes[i]
+        let heat = q[i] + node.dissipationW - STEFAN_BOLTZMANN * node.radiatorEA * T[i] ** 4
+        if (node.heater) {
+          const tc = T[i] - 273.15
+          if (tc < node.heater.onBelowC) heaterOn[i] = true
+          else if (tc > node.heater.offAboveC) heaterOn[i] = false
+          if (heaterOn[i]) {
+            heat += node.heater.powerW
+            heaterEnergy[i] += node.heater.powerW * dt
+            if (m === 0) heaterStart += node.heater.powerW
+          }
+        }
+        net[i] = heat
+      }
+      for (const c of couplings) {
+        const flow = c.conductance * (T[c.a] - T[c.b]) + c.radiative * (T[c.a] ** 4 - T[c.b] ** 4)
+        net[c.a] -= flow
+        net[c.b] += flow
+      }
+      for (let i = 0; i < n; i++) T[i] = Math.max(3, T[i] + net[i] * dt / nodes[i].capacity)
+    }
+    return heaterStart
+  }
+
+  // Compare orbit means rather than end points: thermostats cycle on their
+  // own period, so individual samples need not repeat exactly
+  let orbitsToConverge = 0
+  let converged = false
+  let previousMean: number[] | null = null
+  while (orbitsToConverge < MAX_SPINUP_ORBITS) {
+    const mean = new Array<number>(n).fill(0)
+    for (let k = 0; k < SAMPLES_PER_ORBIT; k++) {
+      advance(k)
+      for (let i = 0; i < n; i++) mean[i] += T[i] / SAMPLES_PER_ORBIT
+    }
+    orbitsToConverge++
+    if (previousMean && mean.every((t, i) => Math.abs(t - previousMean![i]) < CONVERGENCE_K)) {
+      converged = true
+      break
+    }
+    previousMean = mean
+  }
+
+  // Recorded orbit
+  heaterEnergy.fill(0)
+  const temps: number[][] = nodes.map(() => [])
+  const heaterW: number[] = []
+  const timeMinutes: number[] = []
+  for (let k = 0; k <= SAMPLES_PER_ORBIT; k++) {
+    timeMinutes.push((k * sampleSec) / 60)
+    nodes.forEach((_, i) => temps[i].push(T[i] - 273.15))
+    heaterW.push(k < SAMPLES_PER_ORBIT
+      ? advance(k)
+      : nodes.reduce((sum, node, i) => sum + (node.heater && heaterOn[i] ? node.heater.powerW : 0), 0))
+  }
+
+  const results: ThermalNodeResult[] = nodes.map((node, i) => {
+    const series = temps[i]
+    const minC = Math.min(...series)
+    const maxC = Math.max(...series)
+    const meanC = series.slice(0, -1).reduce((sum, t) => sum + t, 0) / SAMPLES_PER_ORBIT
+    let status: ThermalNodeResult['status'] = 'nominal'
+    if (node.limits) {
+      const [lo, hi] = node.limits
+      if (minC < lo || maxC > hi) status = 'critical'
+      else if (minC < lo + LIMIT_MARGIN_C || maxC > hi - LIMIT_MARGIN_C) status = 'warning'
+    }
+    const heaterAvgW = heaterEnergy[i] / periodSec
+    return {
+      id: node.id,
+      name: node.name,
+      kind: node.kind,
+      tempC: series,
+      minC,
+      maxC,
+      meanC,
+      limitMinC: node.limits?.[0] ?? null,
+      limitMaxC: node.limits?.[1] ?? null,
+      status,
+      dissipationW: node.dissipationW,
+      heaterAvgW,
+      heaterDuty: node.heater ? heaterAvgW / node.heater.powerW : 0,
+    }
+  })
+
+  return {
+    dateISO: date.toISOString(),
+    betaDeg: computeBetaAngle(elements.raan, elements.inclination, sun),
+    timeMinutes,
+    illumination,
+    nodes: results,
+    heaterW,
+    heaterAvgW: results.reduce((sum, r) => sum + r.heaterAvgW, 0),
+    heaterInstalledW: nodes.reduce((sum, node) => sum + (node.heater?.powerW ?? 0), 0),
+    dissipationW: nodes.reduce((sum, node) => sum + node.dissipationW, 0),
+    orbitsToConverge,
+    converged,
+  }
+}
+
+/**
+ * Budget entry carrying the heaters: installed power at the thermostat duty
+ * cycle, drawn whenever they run rather than only in eclipse
+ */
+export function heaterSubsystem(result: ThermalNetworkResult): PowerSubsystem {
+  return {
+    id: HEATER_SUBSYSTEM_ID,
+    name: 'Heater',
+    mode: 'Thermostat',
+    powerW: +result.heaterInstalledW.toFixed(2),
+    dutyCycle: result.heaterInstalledW > 0 ? +(result.heaterAvgW / result.heaterInstalledW).toFixed(3) : 0,
+    isEclipseOnly: false,
+  }
+}
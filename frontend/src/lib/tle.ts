@@ -0,0 +1,294 @@
+/**
+ * Two-Line Element set parsing and SGP4/SDP4 propagation.
+ *
+ * Accepts raw TLE (2-line) and 3LE (name + 2 lines) text, single or
+ * multi-object, validates line structure, checksums and epoch, and
+ * propagates via satellite.js (SDP4 is selected automatically for
+ * deep-space objects with periods > 225 min).
+ *
+ * SGP4 output is in the TEME frame, which is treated as ECI here —
+ * the difference (precession/nutation of the equinox) is well below
+ * the fidelity of the rest of the app.
+ */
+
+import { twoline2satrec, propagate as sgp4Propagate } from 'satellite.js'
+import type { SatRec, EciVec3 } from 'satellite.js'
+import { MU_EARTH_KM, SEC_PER_DAY } from './constants'
+import { cartesianToKeplerian } from './numerical-propagator'
+import type { StateVector, TrajectoryPoint } from './numerical-propagator'
+import type { OrbitalElements } from '@/types/orbit'
+
+// Epochs older than this relative to the reference date are flagged as stale
+const STALE_EPOCH_DAYS = 14
+
+// ─── Types ───
+
+export interface ParsedTLE {
+  name: string
+  noradId: string
+  classification: string
+  intlDesignator: string
+  epochMs: number              // ms since Unix epoch (UTC)
+  meanMotionRevPerDay: number
+  eccentricity: number
+  inclination: number          // degrees
+  raan: number                 // degrees
+  argOfPerigee: number         // degrees
+  meanAnomaly: number          // degrees
+  bstar: number                // 1/earth radii
+  line1: string
+  line2: string
+  warnings: string[]
+}
+
+export interface TLEParseResult {
+  tles: ParsedTLE[]
+  errors: string[]
+}
+
+// ─── Validation helpers ───
+
+/**
+ * TLE modulo-10 checksum: sum of all digits, with '-' counting as 1,
+ * over the first 68 columns.
+ */
+export function computeTLEChecksum(line: string): number {
+  let sum = 0
+  for (let i = 0; i < 68 && i < line.length; i++) {
+    const c = line[i]
+    if (c >= '0' && c <= '9') sum += c.charCodeAt(0) - 48
+    else if (c === '-') sum += 1
+  }
+  return sum % 10
+}
+
+function hasValidChecksum(line: string): boolean {
+  const expected = parseInt(line[68], 10)
+  return !isNaN(expected) && computeTLEChecksum(line) === expected
+}
+
+/** Parse the "assumed decimal point" exponent fields (e.g. " 12345-3" => 0.12345e-3) */
+function parseImpliedDecimal(field: string): number {
+  const s = field.trim()
+  if (s === '' || /^[+-]?0+[+-]0$/.test(s)) return 0
+  const match = s.match(/^([+-]?)(\d+)([+-]\d)$/)
+  if (!match) return NaN
+  const mantissa = parseFloat(`0.${match[2]}`)
+  const sign = match[1] === '-' ? -1 : 1
+  return sign * mantissa * Math.pow(10, parseInt(match[3], 10))
+}
+
+/** Convert the TLE epoch field (YYDDD.DDDDDDDD) to ms since Unix epoch */
+function parseTLEEpoch(field: string): number {
+  const yy = parseInt(field.slice(0, 2), 10)
+  const dayOfYear = parseFloat(field.slice(2))
+  if (isNaN(yy) || isNaN(dayOfYear) || dayOfYear < 1 || dayOfYear >= 367) return NaN
+  const year = yy < 57 ? 2000 + yy : 1900 + yy
+  return Date.UTC(year, 0, 1) + (dayOfYear - 1) * SEC_PER_DAY * 1000
+}
+
+// ─── Parsing ───
+
+/**
+ * Parse a single TLE from its two data lines.
+ * Returns either the parsed set or a list of validation errors.
+ */
+export function parseTLELines(
+  name: string,
+  line1: string,
+  line2: string,
+  referenceDate: Date = new Date(),
+): { tle: ParsedTLE | null; errors: string[] } {
+  const errors: string[] = []
+  const label = name || 'Unnamed object'
+
+  if (line1.length !== 69) errors.push(`${label}: line 1 must be 69 characters (got ${line1.length})`)
+  if (line2.length !== 69) errors.push(`${label}: line 2 must be 69 characters (got ${line2.length})`)
+  if (errors.length > 0) return { tle: null, errors }
+
+  if (!line1.startsWith('1 ')) errors.push(`${label}: line 1 must start with "1 "`)
+  if (!line2.startsWith('2 ')) errors.push(`${label}: line 2 must start with "2 "`)
+  if (!hasValidChecksum(line1)) errors.push(`${label}: line 1 checksum mismatch`)
+  if (!hasValidChecksum(line2)) errors.push(`${label}: line 2 checksum mismatch`)
+
+  const noradId = line1.slice(2, 7).trim()
+  if (noradId !== line2.slice(2, 7).trim()) {
+    errors.push(`${label}: catalog numbers differ between lines`)
+  }
+
+  const epochMs = parseTLEEpoch(line1.slice(18, 32))
+  if (isNaN(epochMs)) errors.push(`${label}: invalid epoch "${line1.slice(18, 32).trim()}"`)
+
+  const bstar = parseImpliedDecimal(line1.slice(53, 61))
+  const inclination = parseFloat(line2.slice(8, 16))
+  const raan = parseFloat(line2.slice(17, 25))
+  const eccentricity = parseFloat(`0.${line2.slice(26, 33).trim()}`)
+  const argOfPerigee = parseFloat(line2.slice(34, 42))
+  const meanAnomaly = parseFloat(line2.slice(43, 51))
+  const meanMotionRevPerDay = parseFloat(line2.slice(52, 63))
+
+  if ([bstar, inclination, raan, eccentricity, argOfPerigee, meanAnomaly, meanMotionRevPerDay].some(isNaN)) {
+    errors.push(`${label}: malformed numeric field`)
+  } else {
+    if (inclination < 0 || inclination > 180) errors.push(`${label}: inclination out of range`)
+    if (eccentricity >= 1) errors.push(`${label}: eccentricity must be < 1`)
+    if (meanMotionRevPerDay <= 0) errors.push(`${label}: mean motion must be positive`)
+  }
+
+  if (errors.length > 0) return { tle: null, errors }
+
+  const warnings: string[] = []
+  const ageDays = (referenceDate.getTime() - epochMs) / (SEC_PER_DAY * 1000)
+  if (Math.abs(ageDays) > STALE_EPOCH_DAYS) {
+    warnings.push(
+      ageDays > 0
+        ? `Epoch is ${ageDays.toFixed(0)} days before the reference date; SGP4 accuracy degrades quickly`
+        : `Epoch is ${(-ageDays).toFixed(0)} days after the reference date; SGP4 accuracy degrades quickly`,
+    )
+  }
+
+  // satellite.js flags elements it cannot initialize (e.g. already decayed)
+  const satrec = twoline2satrec(line1, line2)
+  if (satrec.error !== 0) {
+    return { tle: null, errors: [`${label}: SGP4 initialization failed (error ${satrec.error})`] }
+  }
+
+  return {
+    tle: {
+      name: name || `NORAD ${noradId}`,
+      noradId,
+      classification: line1[7],
+      intlDesignator: line1.slice(9, 17).trim(),
+      epochMs,
+      meanMotionRevPerDay,
+      eccentricity,
+      inclination,
+      raan,
+      argOfPerigee,
+      meanAnomaly,
+      bstar,
+      line1,
+      line2,
+      warnings,
+    },
+    errors: [],
+  }
+}
+
+/**
+ * Parse free-form TLE / 3LE text containing one or more objects.
+ * Blank lines are ignored; a line preceding a "1 " / "2 " pair is taken
+ * as the object name (a leading "0 " from 3LE catalogs is stripped).
+ */
+export function parseTLEText(text: string, referenceDate: Date = new Date()): TLEParseResult {
+  const lines = text
+    .split(/\r?\n/)
+    .map((l) => l.replace(/\s+$/, ''))
+    .filter((l) => l.trim().length > 0)
+
+  const tles: ParsedTLE[] = []
+  const errors: string[] = []
+  let pendingName = ''
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i]
+    if (line.startsWith('1 ') && i + 1 < lines.length && lines[i + 1].startsWith('2 ')) {
+      const result = parseTLELines(pendingName, line, lines[i + 1], referenceDate)
+      if (result.tle) tles.push(result.tle)
+      errors.push(...result.errors)
+      pendingName = ''
+      i++
+    } else if (line.startsWith('1 ') || line.startsWith('2 ')) {
+      errors.push(`Line ${i + 1}: orphan TLE line without its pair`)
+      pendingName = ''
+    } else {
+      if (pendingName) errors.push(`Line ${i}: name "${pendingName}" has no element lines`)
+      pendingName = line.replace(/^0 /, '').trim()
+    }
+  }
+
+  if (pendingName) errors.push(`Name "${pendingName}" has no element lines`)
+  if (tles.length === 0 && errors.length === 0) errors.push('No TLE data found')
+
+  return { tles, errors }
+}
+
+// ─── SGP4 propagation ───
+
+function satrecFor(tle: ParsedTLE): SatRec {
+  return twoline2satrec(tle.line1, tle.line2)
+}
+
+function toStateVector(satrec: SatRec, date: Date): StateVector | null {
+  const pv = sgp4Propagate(satrec, date)
+  if (typeof pv.position === 'boolean' || typeof pv.velocity === 'boolean') return null
+  const p = pv.position as EciVec3<number>
+  const v = pv.velocity as EciVec3<number>
+  return { x: p.x, y: p.y, z: p.z, vx: v.x, vy: v.y, vz: v.z }
+}
+
+/** SGP4 state (TEME ~ ECI, km and km/s) at an absolute time, or null if propagation fails */
+export function sgp4StateAt(tle: ParsedTLE, date: Date): StateVector | null {
+  return toStateVector(satrecFor(tle), date)
+}
+
+/** Orbital period implied by the TLE mean motion (seconds) */
+export function tlePeriodSec(tle: ParsedTLE): number {
+  return SEC_PER_DAY / tle.meanMotionRevPerDay
+}
+
+/**
+ * Propagate a TLE with SGP4/SDP4 over a number of orbits.
+ * Output format matches propagateNumerical so it can drive the same
+ * trajectory consumers. Stops early if SGP4 reports decay or an error.
+ * `onProgress` receives the completed fraction (0-1) roughly every 1%.
+ */
+export function propagateSGP4(
+  tle: ParsedTLE,
+  epochMs: number,
+  numOrbits: number,
+  dtSec: number,
+  onProgress?: (fraction: number) => void,
+): TrajectoryPoint[] {
+  const satrec = satrecFor(tle)
+  const totalTimeSec = tlePeriodSec(tle) * numOrbits
+  const numSteps = Math.min(50000, Math.ceil(totalTimeSec / dtSec))
+  const stepSec = totalTimeSec / numSteps
+
+  const progressEvery = Math.max(1, Math.ceil(numSteps / 100))
+  const trajectory: TrajectoryPoint[] = []
+  for (let i = 0; i <= numSteps; i++) {
+    const tMs = epochMs + i * stepSec * 1000
+    const state = toStateVector(satrec, new Date(tMs))
+    if (!state) break
+    trajectory.push({ t: tMs, state })
+    if (onProgress && i % progressEvery === 0) onProgress(i / numSteps)
+  }
+  onProgress?.(1)
+  return trajectory
+}
+
+/**
+ * Osculating Keplerian elements from the SGP4 state at a given time.
+ * Used to seed the analytical views (sliders, derived params) from a TLE.
+ */
+export function tleToOrbitalElements(tle: ParsedTLE, date: Date): OrbitalElements | null {
+  const state = sgp4StateAt(tle, date)
+  if (!state) return null
+  return cartesianToKeplerian(state, MU_EARTH_KM)
+}
+
+/**
+ * Build a position function (ECI km at seconds after `epoch`) for pass prediction.
+ */
+export function sgp4PositionFn(
+  tle: ParsedTLE,
+  epoch: Date,
+): (dtSec: number) => { x: number; y: number; z: number } | null {
+  const satrec = satrecFor(tle)
+  const epochMs = epoch.getTime()
+  return (dtSec) => {
+    const state = toStateVector(satrec, new Date(epochMs + dtSec * 1000))
+    return state ? { x: state.x, y: state.y, z: state.z } : null
+  }
+}
@@ -0,0 +1,315 @@
+/**
+ * Parametric trade-study sweeps.
+ *
+ * Varies two mission inputs over a grid and evaluates the full scenario
+ * metric set (orbit, power, passes, lifetime, ΔV, radiation) in every
+ * cell — the same numbers the Comparison module stores for a hand-saved
+ * scenario. Constraints (e.g. lifetime < 5 yr, power margin > 20%) mark
+ * each cell feasible or not for overlay on the heatmaps.
+ *
+ * Standalone physics module — no UI dependencies.
+ */
+
+import { R_EARTH_EQUATORIAL } from './constants'
+import { computePowerAnalysis } from './power-budget'
+import type { PowerSubsystem } from './power-budget'
+import { scaleSolarArray } from './solar-array'
+import { scaleBatteryPack } from './battery'
+import { estimateLifetime, computeBallisticCoefficient } from './orbital-lifetime'
+import { forecastWeather } from './solar-cycle'
+import type { SolarForecastConfig } from './solar-cycle'
+import type { SpaceWeather } from './atmosphere'
+import { computeDeltaVBudget } from './delta-v'
+import { computeRadiationEnvironment } from './radiation'
+import { computeDerivedParams } from './orbital-mechanics'
+import { predictPasses, computePassMetrics } from './pass-prediction'
+import type { ParsedTLE } from './tle'
+import type { OrbitalElements } from '@/types/orbit'
+import type { MissionConfig } from '@/types/mission'
+import type { PropulsionConfig, DeltaVManeuver } from '@/types/propulsion'
+import type { GroundStation } from '@/types/ground-station'
+import type { ScenarioMetrics } from '@/stores/comparison-slice'
+
+// ─── Scenario evaluation ───
+
+/** Everything needed to evaluate one scenario's metrics */
+export interface ScenarioInputs {
+  elements: OrbitalElements
+  mission: MissionConfig
+  subsystems: PowerSubsystem[]
+  propulsion: PropulsionConfig
+  maneuvers: DeltaVManeuver[]
+  shieldingMm: number
+  groundStations: GroundStation[]
+  spaceWeather: SpaceWeather
+  solarForecast: SolarForecastConfig
+  tle?: ParsedTLE | null
+}
+
+export function computeScenarioMetrics(inputs: ScenarioInputs): ScenarioMetrics {
+  const { elements, mission, subsystems, propulsion, maneuvers, shieldingMm, groundStations } = inputs
+  const { spacecraft } = mission
+
+  const avgAlt = elements.semiMajorAxis - R_EARTH_EQUATORIAL
+  const derived = computeDerivedParams(elements)
+  const bStar = computeBallisticCoefficient(spacecraft.mass, spacecraft.crossSectionArea, spacecraft.dragCoefficient)
+
+  const power = computePowerAnalysis(elements, spacecraft, subsystems, mission.lifetimeTarget, undefined, mission.epoch)
+  const decayWeather = forecastWeather(inputs.solarForecast, inputs.spaceWeather)
+  const decayOptions = { inclinationDeg: elements.inclination, startDate: mission.epoch }
+  const lifetimeDays = estimateLifetime(elements, bStar, decayWeather, decayOptions)
+  // Same thresholds as checkCompliance, without integrating the decay twice
+  const lifetimeYears = lifetimeDays / 365.25
+  const passes = predictPasses(elements, mission.epoch, groundStations, 1, 30, { tle: inputs.tle ?? null })
+  const passMetrics = computePassMetrics(passes, 1, spacecraft.dataRate)
+  const dvBudget = computeDeltaVBudget(propulsion, maneuvers, spacecraft.mass, avgAlt, mission.lifetimeTarget, bStar)
+  const rad = computeRadiationEnvironment(avgAlt, elements.inclination, shieldingMm, mission.lifetimeTarget)
+
+  return {
+    periodMin: derived.period / 60,
+    perigeeAlt: derived.periapsisAlt,
+    apogeeAlt: derived.apoapsisAlt,
+    eclipseFraction: power.eclipseFraction,  // worst day of the mission
+    passesPerDay: passMetrics.totalPassesPerDay,
+    powerMarginBol: power.powerMargin,
+    powerMarginEol: power.eolMargin,
+    batteryDoD: power.batteryDoD,
+    lifetimeDays,
+    compliance25yr: lifetimeYears <= 25,
+    compliance5yr: lifetimeYears <= 5,
+    availableDeltaV: dvBudget.availableDeltaV,
+    annualRadDoseKrad: rad.shieldedDoseKradPerYear,
+    hotCaseC: 0,  // placeholder — would come from thermal module
+    coldCaseC: 0,
+  }
+}
+
+// ─── Sweep variables ───
+
+export type SweepVariableId =
+  | 'altitude'
+  | 'inclination'
+  | 'eccentricity'
+  | 'mass'
+  | 'crossSectionArea'
+  | 'solarPanelArea'
+  | 'solarCellEfficiency'
+  | 'batteryCapacity'
+  | 'shieldingMm'
+  | 'lifetimeTarget'
+
+export interface SweepVariableInfo {
+  label: string
+  unit: string
+  min: number        // default sweep range
+  max: number
+  limits: [number, number]  // physically valid range
+  apply: (inputs: ScenarioInputs, value: number) => ScenarioInputs
+}
+
+function withSpacecraft(inputs: ScenarioInputs, partial: Partial<MissionConfig['spacecraft']>): ScenarioInputs {
+  return { ...inputs, mission: { ...inputs.mission, spacecraft: { ...inputs.mission.spacecraft, ...partial } } }
+}
+
+export const SWEEP_VARIABLES: Record<SweepVariableId, SweepVariableInfo> = {
+  altitude: {
+    label: 'Mean Altitude', unit: 'km', min: 350, max: 700, limits: [150, 40000],
+    apply: (inputs, v) => ({ ...inputs, elements: { ...inputs.elements, semiMajorAxis: R_EARTH_EQUATORIAL + v } }),
+  },
+  inclination: {
+    label: 'Inclination', unit: '°', min: 0, max: 98, limits: [0, 180],
+    apply: (inputs, v) => ({ ...inputs, elements: { ...inputs.elements, inclination: v } }),
+  },
+  eccentricity: {
+    label: 'Eccentricity', unit: '', min: 0, max: 0.05, limits: [0, 0.9],
+    apply: (inputs, v) => ({ ...inputs, elements: { ...inputs.elements, eccentricity: v } }),
+  },
+  mass: {
+    label: 'Mass', unit: 'kg', min: 2, max: 12, limits: [0.1, 5000],
+    apply: (inputs, v) => withSpacecraft(inputs, { mass: v }),
+  },
+  crossSectionArea: {
+    label: 'Cross-Section', unit: 'm²', min: 0.01, max: 0.1, limits: [1e-4, 50],
+    apply: (inputs, v) => withSpacecraft(inputs, { crossSectionArea: v }),
+  },
+  solarPanelArea: {
+    label: 'Panel Area', unit: 'm²', min: 0.03, max: 0.3, limits: [0, 100],
+    apply: (inputs, v) => {
+      const array = inputs.mission.spacecraft.solarArray
+      return withSpacecraft(inputs, { solarPanelArea: v, ...(array ? { solarArray: scaleSolarArray(array, v) } : {}) })
+    },
+  },
+  solarCellEfficiency: {
+    label: 'Cell Efficiency', unit: '', min: 0.2, max: 0.32, limits: [0.01, 0.5],
+    apply: (inputs, v) => withSpacecraft(inputs, { solarCellEfficiency: v }),
+  },
+  batteryCapacity: {
+    label: 'Battery Capacity', unit: 'Wh', min: 10, max: 100, limits: [0.1, 10000],
+    apply: (inputs, v) => {
+      const pack = inputs.mission.spacecraft.battery
+      return withSpacecraft(inputs, { batteryCapacity: v, ...(pack ? { battery: scaleBatteryPack(pack, v) } : {}) })
+    },
+  },
+  shieldingMm: {
+    label: 'Shielding', unit: 'mm Al', min: 0.5, max: 5, limits: [0, 50],
+    apply: (inputs, v) => ({ ...inputs, shieldingMm: v }),
+  },
+  lifetimeTarget: {
+    label: 'Mission Duration', unit: 'yr', min: 1, max: 10, limits: [0.1, 30],
+    apply: (inputs, v) => ({ ...inputs, mission: { ...inputs.mission, lifetimeTarget: v } }),
+  },
+}
+
+export const SWEEP_VARIABLE_IDS = Object.keys(SWEEP_VARIABLES) as SweepVariableId[]
+
+// ─── Plotted metrics and constraints ───
+
+export type TradeMetricId =
+  | 'lifetimeYears'
+  | 'powerMarginBol'
+  | 'powerMarginEol'
+  | 'batteryDoD'
+  | 'passesPerDay'
+  | 'eclipseFraction'
+  | 'availableDeltaV'
+  | 'annualRadDoseKrad'
+  | 'periodMin'
+
+export interface TradeMetricInfo {
+  label: string
+  unit: string
+  higherIsBetter?: boolean  // undefined = no preferred direction
+  value: (m: ScenarioMetrics) => number
+}
+
+export const TRADE_METRICS: Record<TradeMetricId, TradeMetricInfo> = {
+  lifetimeYears: { label: 'Lifetime', unit: 'yr', higherIsBetter: true, value: (m) => m.lifetimeDays / 365.25 },
+  powerMarginBol: { label: 'Power Margin (BOL)', unit: '%', higherIsBetter: true, value: (m) => m.powerMarginBol * 100 },
+  powerMarginEol: { label: 'Power Margin (EOL)', unit: '%', higherIsBetter: true, value: (m) => m.powerMarginEol * 100 },
+  batteryDoD: { label: 'Battery DoD', unit: '%', higherIsBetter: false, value: (m) => m.batteryDoD * 100 },
+  passesPerDay: { label: 'Passes/Day', unit: '', higherIsBetter: true, value: (m) => m.passesPerDay },
+  eclipseFraction: { label: 'Eclipse', unit: '%', higherIsBetter: false, value: (m) => m.eclipseFraction * 100 },
+  availableDeltaV: { label: 'Available ΔV', unit: 'm/s', higherIsBetter: true, value: (m) => m.availableDeltaV },
+  annualRadDoseKrad: { label: 'Radiation Dose', unit: 'krad/yr', higherIsBetter: false, value: (m) => m.annualRadDoseKrad },
+  periodMin: { label: 'Period', unit: 'min', value: (m) => m.periodMin },
+}
+
+export const TRADE_METRIC_IDS = Object.keys(TRADE_METRICS) as TradeMetricId[]
+
+export interface TradeConstraint {
+  id: string
+  metric: TradeMetricId
+  op: '<' | '>'
+  value: number
+  enabled: boolean
+}
+
+export function satisfiesConstraint(metrics: ScenarioMetrics, constraint: TradeConstraint): boolean {
+  const v = TRADE_METRICS[constraint.metric].value(metrics)
+  return constraint.op === '<' ? v < constraint.value : v > constraint.value
+}
+
+export function isFeasible(metrics: ScenarioMetrics, constraints: TradeConstraint[]): boolean {
+  return constraints.every((c) => !c.enabled || satisfiesConstraint(metrics, c))
+}
+
+// ─── Sweep ───
+
+export interface SweepAxis {
+  variable: SweepVariableId
+  min: number
+  max: number
+  steps: number
+}
+
+export interface TradeStudyConfig {
+  x: SweepAxis
+  y: SweepAxis
+  metric: TradeMetricId
+  plotType: 'heatmap' | 'contour'
+  constraints: TradeConstraint[]
+}
+
+export const DEFAULT_TRADE_STUDY_CONFIG: TradeStudyConfig = {
+  x: { variable: 'altitude', min: 350, max: 700, steps: 10 },
+  y: { variable: 'inclination', min: 0, max: 98, steps: 10 },
+  metric: 'lifetimeYears',
+  plotType: 'heatmap',
+  constraints: [
+    { id: 'c-lifetime', metric: 'lifetimeYears', op: '<', value: 5, enabled: true },
+    { id: 'c-power', metric: 'powerMarginEol', op: '>', value: 20, enabled: true },
+  ],
+}
+
+export interface TradeStudyResult {
+  x: { variable: SweepVariableId; values: number[] }
+  y: { variable: SweepVariableId; values: number[] }
+  cells: ScenarioMetrics[][]  // [y index][x index]
+}
+
+export function sweepValues(axis: SweepAxis): number[] {
+  const n = Math.max(2, Math.round(axis.steps))
+  return Array.from({ length: n }, (_, i) => axis.min + (axis.max - axis.min) * i / (n - 1))
+}
+
+export function runTradeStudy(
+  inputs: ScenarioInputs,
+  config: TradeStudyConfig,
+  onProgress?: (fraction: number) => void,
+): TradeStudyResult {
+  if (config.x.variable === config.y.variable) {
+    throw new Error('Choose two different sweep variables')
+  }
+  const xInfo = SWEEP_VARIABLES[config.x.variable]
+  const yInfo = SWEEP_VARIABLES[config.y.variable]
+  const clamp = (info: SweepVariableInfo, v: number) => Math.min(info.limits[1], Math.max(info.limits[0], v))
+  const xValues = sweepValues(config.x).map((v) => clamp(xInfo, v))
+  const yValues = sweepValues(config.y).map((v) => clamp(yInfo, v))
+
+  // A loaded TLE pins the orbit, so sweeps always propagate the swept elements
+  const base: ScenarioInputs = { ...inputs, tle: null }
+  const total = xValues.length * yValues.length
+  const cells: ScenarioMetrics[][] = []
+  let done = 0
+  for (const yv of yValues) {
+    const row: ScenarioMetrics[] = []
+    const rowInputs = yInfo.apply(base, yv)
+    for (const xv of xValues) {
+      row.push(computeScenarioMetrics(xInfo.apply(rowInputs, xv)))
+      onProgress?.(++done / total)
+    }
+    cells.push(row)
+  }
+
+  return {
+    x: { variable: config.x.variable, values: xValues },
+    y: { variable: config.y.variable, values: yValues },
+    cells,
+  }
+}
+
+export interface TradeCell {
+  ix: number
+  iy: number
+  value: number
+}
+
+/** Best feasible cell for a metric (by its preferred direction, else the largest) */
+export function findBestCell(
+  result: TradeStudyResult,
+  metric: TradeMetricId,
+  constraints: TradeConstraint[],
+): TradeCell | null {
+  const info = TRADE_METRICS[metric]
+  const sign = info.higherIsBetter === false ? -1 : 1
+  let best: TradeCell | null = null
+  result.cells.forEach((row, iy) => {
+    row.forEach((cell, ix) => {
+      if (!isFeasible(cell, constraints)) return
+      const value = info.value(cell)
+      if (!Number.isFinite(value)) return
+      if (!best || sign * value > sign * best.value) best = { ix, iy, value }
+    })
+  })
+  return best
+}
@@ -3,11 +3,19 @@ import Plot from 'react-plotly.js'
 import { useStore } from '@/stores'
 import {
   computeInterplanetaryResult,
-  computeHohmannInterplanetary,
   computePorkchopGrid,
   generateHeliocentricProfile,
+  mgaMatchesParams,
 } from '@/lib/interplanetary'
+import {
+  PORKCHOP_LAYERS,
+  launchPeriodMatchesParams,
+  porkchopFlightRange,
+  vehicleMaxC3,
+} from '@/lib/launch-period'
+import { mgaBodyName, mgaSequenceLabel } from '@/lib/gravity-assist'
 import { PLANET_DATA } from '@/lib/beyond-leo-constants'
+import type { PorkchopPoint } from '@/types/beyond-leo'
 
 const darkLayout = {
   paper_bgcolor: 'transparent',
@@ -19,68 +27,145 @@ const darkLayout = {
 
 export default function InterplanetaryChart() {
   const params = useStore((s) => s.beyondLeo.interplanetaryParams)
+  const launchConfig = useStore((s) => s.launchPeriodConfig)
+  const storedLaunchPeriod = useStore((s) => s.launchPeriod)
+  const launchPeriod = launchPeriodMatchesParams(storedLaunchPeriod, params, launchConfig) ? storedLaunchPeriod : null
+  const maxC3 = vehicleMaxC3(launchConfig.vehicle, params.spacecraftMassKg)
+  const mgaConfig = useStore((s) => s.mgaConfig)
+  const storedMga = useStore((s) => s.mga)
+  const mga = params.transferType === 'mga' && mgaMatchesParams(storedMga, params, mgaConfig) ? storedMga : null
 
-  const result = useMemo(() => computeInterplanetaryResult(params), [params])
+  const result = useMemo(() => computeInterplanetaryResult(params, mga), [params, mga])
   const planet = PLANET_DATA[params.targetBody]
 
-  // Left chart: Porkchop plot (Lambert) or ΔV breakdown (Hohmann)
+  // Left chart: Porkchop plot (Lambert) or ΔV breakdown (Hohmann, gravity assist)
   const leftChart = useMemo(() => {
     if (params.transferType === 'lambert') {
-      // Compute porkchop grid
-      const startDate = new Date(params.departureDateISO)
-      const hohmann = computeHohmannInterplanetary(params.targetBody)
-      const minFlight = Math.max(30, hohmann.transferTimeDays * 0.3)
-      const maxFlight = hohmann.transferTimeDays * 2.5
-
+      // Compute porkchop grid over the optimizer's search span
+      const [minFlight, maxFlight] = porkchopFlightRange(params.targetBody)
       const points = computePorkchopGrid(
-        params.targetBody,
-        startDate,
-        730, // 2 years of departure dates
-        25,  // samples
+        params,
+        launchConfig.searchDays,
+        40,  // departure samples
         minFlight,
         maxFlight,
-        25,  // flight time samples
+        40,  // flight time samples
+        launchConfig.maxRevs,
       )
 
       if (points.length < 10) {
         return { type: 'empty' as const }
       }
 
-      // Build contour data
+      // Build contour data for the selected layer (gaps where no arc exists)
       const depDays = [...new Set(points.map((p) => p.departureDOY))].sort((a, b) => a - b)
       const flights = [...new Set(points.map((p) => p.flightTimeDays))].sort((a, b) => a - b)
+      const cell = new Map(points.map((p) => [`${p.departureDOY}:${p.flightTimeDays}`, p]))
+      const minDv = Math.min(...points.map((p) => p.totalDeltaVms))
+      const layerValue = (p: PorkchopPoint): number => {
+        switch (launchConfig.porkchopLayer) {
+          case 'c3': return Math.min(p.c3, 100)
+          case 'vinf-arrival': return Math.min(p.vInfArr, 20)
+          case 'dla': return p.dlaDeg
+          case 'total-dv': return Math.min(p.totalDeltaVms, 3 * minDv)
+        }
+      }
 
-      const z: number[][] = []
+      const z: (number | null)[][] = []
+      const c3z: (number | null)[][] = []
       for (const fd of flights) {
-        const row: number[] = []
+        const row: (number | null)[] = []
+        const c3Row: (number | null)[] = []
         for (const dd of depDays) {
-          const pt = points.find((p) => p.departureDOY === dd && p.flightTimeDays === fd)
-          row.push(pt ? Math.min(pt.c3, 100) : 100)
+          const pt = cell.get(`${dd}:${fd}`)
+          row.push(pt ? layerValue(pt) : null)
+          c3Row.push(pt ? pt.c3 : null)
         }
         z.push(row)
+        c3z.push(c3Row)
       }
 
-      return {
-        type: 'porkchop' as const,
-        trace: {
+      const layer = PORKCHOP_LAYERS[launchConfig.porkchopLayer]
+      const traces: object[] = [{
+        x: depDays,
+        y: flights,
+        z,
+        type: 'contour' as const,
+        colorscale: launchConfig.porkchopLayer === 'dla' ? 'RdBu' : 'Viridis',
+        reversescale: launchConfig.porkchopLayer !== 'dla',
+        contours: { coloring: 'heatmap' as const },
+        connectgaps: false,
+        colorbar: {
+          title: { text: `${layer.label} (${layer.unit})`, font: { size: 9, color: '#9CA3AF' } },
+          tickfont: { size: 8, color: '#9CA3AF' },
+        },
+        name: layer.label,
+      }]
+
+      // Launch-vehicle C3 limit
+      if (maxC3 !== null) {
+        traces.push({
           x: depDays,
           y: flights,
-          z,
+          z: c3z,
           type: 'contour' as const,
-          colorscale: 'Viridis',
-          reversescale: true,
-          contours: { coloring: 'heatmap' as const },
-          colorbar: {
-            title: { text: 'C3 (km²/s²)', font: { size: 9, color: '#9CA3AF' } },
-            tickfont: { size: 8, color: '#9CA3AF' },
+          contours: { coloring: 'none' as const, start: maxC3, end: maxC3, size: 1 },
+          line: { color: '#EF4444', width: 1.5, dash: 'dash' as const },
+          showscale: false,
+          hoverinfo: 'skip' as const,
+          name: `C3 ≤ ${maxC3.toFixed(1)}`,
+        })
+      }
+
+      // Optimizer results, as day offsets from the date the optimizer searched from
+      if (launchPeriod) {
+        const startMs = new Date(launchPeriod.startDateISO).getTime()
+        const offset = (iso: string) => (new Date(iso).getTime() - startMs) / 86400000
+        if (launchPeriod.period) {
+          traces.push({
+            x: launchPeriod.period.days.map((d) => offset(d.departureDateISO)),
+            y: launchPeriod.period.days.map((d) => d.flightDays),
+            type: 'scatter' as const,
+            mode: 'lines' as const,
+            name: 'Launch period',
+            line: { color: '#F59E0B', width: 3 },
+          })
+        }
+        if (launchPeriod.optimum) {
+          traces.push({
+            x: [offset(launchPeriod.optimum.departureDateISO)],
+            y: [launchPeriod.optimum.flightDays],
+            type: 'scatter' as const,
+            mode: 'markers' as const,
+            name: 'Min ΔV',
+            marker: { color: '#F9FAFB', size: 10, symbol: 'star' },
+          })
+        }
+      }
+
+      return { type: 'porkchop' as const, title: layer.label, traces }
+    }
+
+    // Gravity assist: one bar per maneuver
+    if (mga) {
+      return {
+        type: 'bars' as const,
+        title: `ΔV Breakdown (${mgaSequenceLabel(mga.sequence)})`,
+        traces: [
+          {
+            x: ['Departure', ...mga.flybys.map((fb, i) => `${i + 1}. ${mgaBodyName(fb.body)}`), 'Arrival'],
+            y: [result.departureDeltaVms, ...mga.flybys.map((fb) => fb.deltaVms), result.arrivalInsertionDeltaVms],
+            type: 'bar' as const,
+            marker: { color: ['#3B82F6', ...mga.flybys.map(() => '#F59E0B'), '#10B981'] },
           },
-        },
+        ],
       }
     }
 
     // Hohmann: ΔV breakdown bars
     return {
       type: 'bars' as const,
+      title: 'ΔV Breakdown (Hohmann)',
       traces: [
         {
           x: ['Departure', 'Arrival'],
@@ -90,13 +175,38 @@ export default function InterplanetaryChart() {
         },
       ],
     }
-  }, [params, result])
+  }, [params, result, launchConfig, launchPeriod, maxC3, mga])
 
-  // Right chart: Heliocentric distance profile
-  const helioProfile = useMemo(
-    () => generateHeliocentricProfile(params.targetBody, result.transferTimeDays),
-    [params.targetBody, result.transferTimeDays],
-  )
+  // Right chart: Heliocentric distance profile (sampled along the legs for gravity assist)
+  const helioProfile = useMemo(() => {
+    if (!mga) return generateHeliocentricProfile(params.targetBody, result.transferTimeDays)
+    const profile: { day: number; distanceAU: number }[] = []
+    let legStart = 0
+    for (const leg of mga.legs) {
+      const n = leg.points.length - 1
+      leg.points.forEach((p, i) => {
+        if (i === 0 && profile.length > 0) return
+        profile.push({ day: legStart + (i / n) * leg.flightDays, distanceAU: Math.hypot(p.x, p.y, p.z) })
+      })
+      legStart += leg.flightDays
+    }
+    return profile
+  }, [mga, params.targetBody, result.transferTimeDays])
+
+  const flybyTrace = useMemo(() => {
+    if (!mga) return null
+    let day = 0
+    const days = mga.legs.slice(0, -1).map((leg) => (day += leg.flightDays))
+    return {
+      x: days,
+      y: mga.legs.slice(1).map((leg) => { const p = leg.points[0]; return Math.hypot(p.x, p.y, p.z) }),
+      text: mga.flybys.map((fb) => mgaBodyName(fb.body)),
+      type: 'scatter' as const,
+      mode: 'markers' as const,
+      name: 'Flybys',
+      marker: { color: '#F59E0B', size: 8 },
+    }
+  }, [mga])
 
   const helioTrace = useMemo(() => ({
     x: helioProfile.map((p) => p.day),
@@ -130,10 +240,11 @@ export default function InterplanetaryChart() {
       <div className="flex-1 h-full">
         {leftChart.type === 'porkchop' ? (
           <Plot
-            data={[leftChart.trace] as any}
+            data={leftChart.traces as any}
             layout={{
               ...darkLayout,
-              title: { text: 'Porkchop Plot (C3)', font: { size: 11, color: '#9CA3AF' } },
+              title: { text: `Porkchop Plot (${leftChart.title})`, font: { size: 11, color: '#9CA3AF' } },
+              showlegend: true,
               xaxis: {
                 title: { text: 'Departure (day offset)', font: { size: 10 } },
                 gridcolor: 'rgba(255,255,255,0.05)',
@@ -154,7 +265,7 @@ export default function InterplanetaryChart() {
             data={leftChart.traces as any}
             layout={{
               ...darkLayout,
-              title: { text: 'ΔV Breakdown (Hohmann)', font: { size: 11, color: '#9CA3AF' } },
+              title: { text: leftChart.title, font: { size: 11, color: '#9CA3AF' } },
               xaxis: {
                 gridcolor: 'rgba(255,255,255,0.05)',
                 color: '#6B7280',
@@ -179,7 +290,7 @@ export default function InterplanetaryChart() {
 
       <div className="flex-1 h-full">
         <Plot
-          data={[helioTrace, earthRef, targetRef] as any}
+          data={(flybyTrace ? [helioTrace, flybyTrace, earthRef, targetRef] : [helioTrace, earthRef, targetRef]) as any}
           layout={{
             ...darkLayout,
             title: { text: 'Heliocentric Distance', font: { size: 11, color: '#9CA3AF' } },
@@ -3,13 +3,37 @@ import { useStore } from '@/stores'
 import MetricCard from '@/components/ui/MetricCard'
 import SectionHeader from '@/components/ui/SectionHeader'
 import DataReadout from '@/components/ui/DataReadout'
-import { computeInterplanetaryResult } from '@/lib/interplanetary'
-import { PLANET_DATA } from '@/lib/beyond-leo-constants'
+import { computeInterplanetaryResult, mgaMatchesParams } from '@/lib/interplanetary'
+import { launchPeriodMatchesParams } from '@/lib/launch-period'
+import { mgaBodyName, mgaSequenceLabel } from '@/lib/gravity-assist'
+import { computeInterplanetaryLowThrust, sunlitThrusterPower } from '@/lib/low-thrust'
+import { ELECTRIC_PROPULSION } from '@/types/propulsion'
+import { PLANET_DATA, LAUNCH_VEHICLES } from '@/lib/beyond-leo-constants'
 
 export default function InterplanetaryDisplay() {
   const params = useStore((s) => s.beyondLeo.interplanetaryParams)
+  const launchConfig = useStore((s) => s.launchPeriodConfig)
+  const storedLaunchPeriod = useStore((s) => s.launchPeriod)
+  const launchPeriod = launchPeriodMatchesParams(storedLaunchPeriod, params, launchConfig) ? storedLaunchPeriod : null
+  const mgaConfig = useStore((s) => s.mgaConfig)
+  const storedMga = useStore((s) => s.mga)
+  const mga = params.transferType === 'mga' && mgaMatchesParams(storedMga, params, mgaConfig) ? storedMga : null
 
-  const result = useMemo(() => computeInterplanetaryResult(params), [params])
+  const result = useMemo(() => computeInterplanetaryResult(params, mga), [params, mga])
+
+  // Electric-propulsion alternative, flown with the Delta-V module's thruster and the power budget
+  const propulsion = useStore((s) => s.propulsion)
+  const dutyCycle = useStore((s) => s.lowThrust.dutyCycle)
+  const spacecraft = useStore((s) => s.mission.spacecraft)
+  const subsystems = useStore((s) => s.subsystems)
+  const lowThrust = useMemo(
+    () => ELECTRIC_PROPULSION.includes(propulsion.type)
+      ? computeInterplanetaryLowThrust(
+          params, propulsion, dutyCycle, params.spacecraftMassKg, sunlitThrusterPower(spacecraft, subsystems),
+        )
+      : null,
+    [params, propulsion, dutyCycle, spacecraft, subsystems]
+  )
 
   const planet = PLANET_DATA[params.targetBody]
 
@@ -45,6 +69,13 @@ export default function InterplanetaryDisplay() {
             value={result.arrivalVinfKms.toFixed(2)}
             unit="km/s"
           />
+          {result.dlaDeg !== null && (
+            <DataReadout
+              label="DLA"
+              value={result.dlaDeg.toFixed(1)}
+              unit="deg"
+            />
+          )}
           <DataReadout
             label="Insertion ΔV"
             value={result.arrivalInsertionDeltaVms.toFixed(0)}
@@ -63,6 +94,174 @@ export default function InterplanetaryDisplay() {
         </div>
       </SectionHeader>
 
+      {mga && (
+        <SectionHeader title={`Gravity Assist (${mgaSequenceLabel(mga.sequence)})`}>
+          <div className="grid grid-cols-2 gap-2">
+            <DataReadout
+              label="Launch"
+              value={mga.legs[0].departureDateISO.slice(0, 10)}
+            />
+            <DataReadout
+              label="Arrival"
+              value={mga.legs[mga.legs.length - 1].arrivalDateISO.slice(0, 10)}
+            />
+            <DataReadout
+              label="Flyby ΔV"
+              value={mga.flybyDeltaVms.toFixed(0)}
+              unit="m/s"
+              status={mga.flybyDeltaVms < 100 ? 'nominal' : 'warning'}
+            />
+            <DataReadout
+              label="Flight Time"
+              value={(mga.totalFlightDays / 365.25).toFixed(2)}
+              unit="yr"
+            />
+            {mga.flybys.map((fb, i) => (
+              <div key={i} className="col-span-2 grid grid-cols-2 gap-2">
+                <DataReadout
+                  label={`${mgaBodyName(fb.body)} Flyby`}
+                  value={fb.dateISO.slice(0, 10)}
+                />
+                <DataReadout
+                  label="Periapsis Alt"
+                  value={fb.periapsisAltKm.toFixed(0)}
+                  unit="km"
+                />
+                <DataReadout
+                  label="V∞ In / Out"
+                  value={`${fb.vInfInKms.toFixed(2)} / ${fb.vInfOutKms.toFixed(2)}`}
+                  unit="km/s"
+                />
+                <DataReadout
+                  label="Turn / Max"
+                  value={`${fb.turnAngleDeg.toFixed(1)} / ${fb.maxTurnAngleDeg.toFixed(1)}`}
+                  unit="deg"
+                  status={fb.turnAngleDeg > fb.maxTurnAngleDeg ? 'critical' : 'default'}
+                />
+                {fb.deltaVms >= 1 && (
+                  <DataReadout
+                    label="Powered ΔV"
+                    value={fb.deltaVms.toFixed(0)}
+                    unit="m/s"
+                    status="warning"
+                  />
+                )}
+              </div>
+            ))}
+            {mga.flybys.some((fb) => fb.turnAngleDeg > fb.maxTurnAngleDeg) && (
+              <div className="col-span-2 text-[10px] text-amber-400/90 bg-amber-400/10 px-2 py-1.5 rounded">
+                A flyby needs more bending than the minimum altitude allows — the missing turn is charged as ΔV. Widen the leg windows or change the sequence.
+              </div>
+            )}
+          </div>
+        </SectionHeader>
+      )}
+
+      {lowThrust && (
+        <SectionHeader title="Electric Propulsion">
+          <div className="grid grid-cols-2 gap-2">
+            <DataReadout label="Escape Spiral" value={lowThrust.escapeDeltaVms.toFixed(0)} unit="m/s" />
+            <DataReadout label="Escape Time" value={lowThrust.escapeDays.toFixed(0)} unit="days" />
+            <DataReadout label="Heliocentric" value={lowThrust.heliocentricDeltaVms.toFixed(0)} unit="m/s" />
+            <DataReadout label="Cruise Time" value={lowThrust.heliocentricDays.toFixed(0)} unit="days" />
+            {params.missionType !== 'flyby' && (
+              <>
+                <DataReadout label="Capture Spiral" value={lowThrust.captureDeltaVms.toFixed(0)} unit="m/s" />
+                <DataReadout label="Capture Time" value={lowThrust.captureDays.toFixed(0)} unit="days" />
+              </>
+            )}
+            <DataReadout
+              label="Total ΔV"
+              value={lowThrust.totalDeltaVms.toFixed(0)}
+              unit="m/s"
+              status={lowThrust.complete ? 'nominal' : 'critical'}
+            />
+            <DataReadout label="Total Time" value={lowThrust.totalDays.toFixed(0)} unit="days" />
+            <DataReadout
+              label="Propellant"
+              value={lowThrust.propellantKg.toFixed(1)}
+              unit="kg"
+              status={lowThrust.complete ? 'default' : 'critical'}
+            />
+            {!lowThrust.complete && (
+              <div className="col-span-2 text-[10px] text-amber-400/90 bg-amber-400/10 px-2 py-1.5 rounded">
+                The loaded propellant runs out before the low-thrust transfer completes.
+              </div>
+            )}
+          </div>
+        </SectionHeader>
+      )}
+
+      {launchPeriod && (
+        <SectionHeader title="Launch Period">
+          <div className="grid grid-cols-2 gap-2">
+            <DataReadout
+              label={`Max C3 (${LAUNCH_VEHICLES[launchPeriod.config.vehicle].name})`}
+              value={launchPeriod.maxC3.toFixed(1)}
+              unit="km²/s²"
+            />
+            {launchPeriod.optimum ? (
+              <>
+                <DataReadout
+                  label="Min-ΔV Departure"
+                  value={launchPeriod.optimum.departureDateISO.slice(0, 10)}
+                />
+                <DataReadout
+                  label="Min-ΔV Arrival"
+                  value={launchPeriod.optimum.arrivalDateISO.slice(0, 10)}
+                />
+                <DataReadout
+                  label="Min Total ΔV"
+                  value={launchPeriod.optimum.totalDeltaVms.toFixed(0)}
+                  unit="m/s"
+                  status="nominal"
+                />
+                <DataReadout
+                  label="C3 / DLA"
+                  value={`${launchPeriod.optimum.c3.toFixed(1)} / ${launchPeriod.optimum.dlaDeg.toFixed(1)}°`}
+                />
+                {launchPeriod.optimum.revs > 0 && (
+                  <DataReadout
+                    label="Revolutions"
+                    value={launchPeriod.optimum.revs.toFixed(0)}
+                  />
+                )}
+              </>
+            ) : (
+              <div className="col-span-2 text-[10px] text-amber-400/90 bg-amber-400/10 px-2 py-1.5 rounded">
+                No departure in the search span meets the vehicle's C3 limit.
+              </div>
+            )}
+            {launchPeriod.period ? (
+              <>
+                <DataReadout
+                  label={`${launchPeriod.config.windowDays}-Day Open`}
+                  value={launchPeriod.period.openDateISO.slice(0, 10)}
+                />
+                <DataReadout
+                  label={`${launchPeriod.config.windowDays}-Day Close`}
+                  value={launchPeriod.period.closeDateISO.slice(0, 10)}
+                />
+                <DataReadout
+                  label="Period Max C3"
+                  value={launchPeriod.period.maxC3.toFixed(1)}
+                  unit="km²/s²"
+                />
+                <DataReadout
+                  label="Period Max ΔV"
+                  value={launchPeriod.period.maxTotalDeltaVms.toFixed(0)}
+                  unit="m/s"
+                />
+              </>
+            ) : launchPeriod.optimum && (
+              <div className="col-span-2 text-[10px] text-amber-400/90 bg-amber-400/10 px-2 py-1.5 rounded">
+                No {launchPeriod.config.windowDays}-day run of consecutive feasible departures — shorten the period or pick a larger vehicle.
+              </div>
+            )}
+          </div>
+        </SectionHeader>
+      )}
+
       <SectionHeader title={`${planet.name} Data`}>
         <div className="grid grid-cols-2 gap-2">
           <DataReadout
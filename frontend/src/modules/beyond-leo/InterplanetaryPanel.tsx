@@ -1,14 +1,25 @@
 import { useMemo, useEffect, useRef } from 'react'
 import { useStore } from '@/stores'
 import SectionHeader from '@/components/ui/SectionHeader'
+import NumberInput from '@/components/ui/NumberInput'
 import DataReadout from '@/components/ui/DataReadout'
-import { PLANET_DATA } from '@/lib/beyond-leo-constants'
+import { PLANET_DATA, LAUNCH_VEHICLES } from '@/lib/beyond-leo-constants'
+import {
+  PORKCHOP_LAYERS,
+  launchPeriodMatchesParams,
+  vehicleMaxC3,
+  type PorkchopLayer,
+} from '@/lib/launch-period'
+import { defaultLegWindows, mgaSequenceLabel } from '@/lib/gravity-assist'
+import { mgaMatchesParams, type MgaLegWindow } from '@/lib/interplanetary'
+import type { PlanetBody } from '@/lib/ephemeris'
 import {
   BODY_ARRIVAL_DEFAULTS,
   type TargetBody,
   type InterplanetaryMissionType,
   type InterplanetaryTransferType,
   type ArrivalOrbitType,
+  type LaunchVehicleId,
 } from '@/types/beyond-leo'
 
 const TARGET_OPTIONS = Object.entries(PLANET_DATA).map(([key, data]) => ({
@@ -25,13 +36,56 @@ const MISSION_TYPES: { value: InterplanetaryMissionType; label: string }[] = [
 const TRANSFER_TYPES: { value: InterplanetaryTransferType; label: string }[] = [
   { value: 'hohmann', label: 'Hohmann' },
   { value: 'lambert', label: 'Lambert' },
+  { value: 'mga', label: 'Gravity Assist' },
 ]
 
 const GAS_GIANTS: TargetBody[] = ['jupiter', 'saturn', 'uranus', 'neptune']
 
+const VEHICLE_OPTIONS = Object.entries(LAUNCH_VEHICLES).map(([key, data]) => ({
+  value: key as LaunchVehicleId,
+  label: data.name,
+}))
+
+const LAYER_OPTIONS = Object.entries(PORKCHOP_LAYERS) as [PorkchopLayer, { label: string; unit: string }][]
+
+const FLYBY_OPTIONS: { value: PlanetBody; label: string }[] = [
+  { value: 'venus', label: 'Venus' },
+  { value: 'earth', label: 'Earth' },
+  { value: 'mars', label: 'Mars' },
+  { value: 'jupiter', label: 'Jupiter' },
+  { value: 'saturn', label: 'Saturn' },
+  { value: 'mercury', label: 'Mercury' },
+]
+
+const MAX_FLYBYS = 5
+
 export default function InterplanetaryPanel() {
   const params = useStore((s) => s.beyondLeo.interplanetaryParams)
   const update = useStore((s) => s.updateInterplanetaryParams)
+  const launchConfig = useStore((s) => s.launchPeriodConfig)
+  const updateLaunchConfig = useStore((s) => s.updateLaunchPeriodConfig)
+  const storedLaunchPeriod = useStore((s) => s.launchPeriod)
+  const launchProgress = useStore((s) => s.launchPeriodProgress)
+  const launchError = useStore((s) => s.launchPeriodError)
+  const runLaunchPeriod = useStore((s) => s.runLaunchPeriod)
+  const cancelLaunchPeriod = useStore((s) => s.cancelLaunchPeriod)
+  const mgaConfig = useStore((s) => s.mgaConfig)
+  const updateMgaConfig = useStore((s) => s.updateMgaConfig)
+  const storedMga = useStore((s) => s.mga)
+  const mgaProgress = useStore((s) => s.mgaProgress)
+  const mgaError = useStore((s) => s.mgaError)
+  const runMga = useStore((s) => s.runMga)
+  const cancelMga = useStore((s) => s.cancelMga)
+
+  const launchPeriod = launchPeriodMatchesParams(storedLaunchPeriod, params, launchConfig) ? storedLaunchPeriod : null
+  const maxC3 = vehicleMaxC3(launchConfig.vehicle, params.spacecraftMassKg)
+  const mga = mgaMatchesParams(storedMga, params, mgaConfig) ? storedMga : null
+  const mgaSequence: PlanetBody[] = ['earth', ...mgaConfig.flybys, params.targetBody]
+
+  const setFlybys = (flybys: PlanetBody[]) =>
+    updateMgaConfig({ flybys, legs: defaultLegWindows(flybys, params.targetBody) })
+  const setLeg = (index: number, partial: Partial<MgaLegWindow>) =>
+    updateMgaConfig({ legs: mgaConfig.legs.map((leg, i) => (i === index ? { ...leg, ...partial } : leg)) })
 
   const showOrbiterParams = params.missionType === 'orbiter' || params.missionType === 'lander'
   const isGasGiant = GAS_GIANTS.includes(params.targetBody)
@@ -47,8 +101,9 @@ export default function InterplanetaryPanel() {
         arrivalOrbitType: defaults.orbitType,
         captureApoFactor: defaults.apoFactor,
       })
+      updateMgaConfig({ legs: defaultLegWindows(useStore.getState().mgaConfig.flybys, params.targetBody) })
     }
-  }, [params.targetBody, update])
+  }, [params.targetBody, update, updateMgaConfig])
 
   const transferTimeDays = useMemo(() => {
     if (params.transferType !== 'lambert') return null
@@ -207,6 +262,279 @@ export default function InterplanetaryPanel() {
         </SectionHeader>
       )}
 
+      {params.transferType === 'lambert' && (
+        <SectionHeader title="Launch Period" defaultOpen={false}>
+          <div className="space-y-3">
+            <label className="flex items-center justify-between">
+              <span className="text-[10px] text-[var(--text-secondary)]">Vehicle</span>
+              <select
+                value={launchConfig.vehicle}
+                onChange={(e) => updateLaunchConfig({ vehicle: e.target.value as LaunchVehicleId })}
+                className="input-field w-32 text-xs"
+              >
+                {VEHICLE_OPTIONS.map((v) => (
+                  <option key={v.value} value={v.value}>{v.label}</option>
+                ))}
+              </select>
+            </label>
+
+            <DataReadout
+              label="Max C3"
+              value={maxC3 !== null ? maxC3.toFixed(1) : '—'}
+              unit="km²/s²"
+              status={maxC3 === null ? 'critical' : 'default'}
+            />
+
+            <label className="flex items-center justify-between">
+              <span className="text-[10px] text-[var(--text-secondary)]">Period</span>
+              <div className="flex items-center gap-1.5">
+                <NumberInput
+                  value={launchConfig.windowDays}
+                  onChange={(v) => updateLaunchConfig({ windowDays: v })}
+                  min={1}
+                  max={120}
+                  integer
+                  step={1}
+                />
+                <span className="text-[11px] text-[var(--text-secondary)] font-mono w-10">d</span>
+              </div>
+            </label>
+
+            <label className="flex items-center justify-between">
+              <span className="text-[10px] text-[var(--text-secondary)]">Search Span</span>
+              <div className="flex items-center gap-1.5">
+                <NumberInput
+                  value={launchConfig.searchDays}
+                  onChange={(v) => updateLaunchConfig({ searchDays: v })}
+                  min={30}
+                  max={3650}
+                  integer
+                  step={30}
+                />
+                <span className="text-[11px] text-[var(--text-secondary)] font-mono w-10">d</span>
+              </div>
+            </label>
+
+            <label className="flex items-center justify-between">
+              <span className="text-[10px] text-[var(--text-secondary)]">Max Revs</span>
+              <NumberInput
+                value={launchConfig.maxRevs}
+                onChange={(v) => updateLaunchConfig({ maxRevs: v })}
+                min={0}
+                max={3}
+                integer
+              />
+            </label>
+
+            <label className="flex items-center justify-between">
+              <span className="text-[10px] text-[var(--text-secondary)]">Porkchop Layer</span>
+              <select
+                value={launchConfig.porkchopLayer}
+                onChange={(e) => updateLaunchConfig({ porkchopLayer: e.target.value as PorkchopLayer })}
+                className="input-field w-32 text-xs"
+              >
+                {LAYER_OPTIONS.map(([value, { label }]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            </label>
+
+            <button
+              onClick={runLaunchPeriod}
+              disabled={launchProgress != null || maxC3 === null}
+              className="w-full px-2 py-1.5 rounded text-[10px] font-mono font-medium bg-accent-blue/10 border border-accent-blue/30 text-accent-blue hover:bg-accent-blue/20 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              Optimize Launch Period
+            </button>
+            {maxC3 === null && (
+              <p className="text-[9px] text-[var(--text-tertiary)] px-1">
+                {LAUNCH_VEHICLES[launchConfig.vehicle].name} cannot lift {params.spacecraftMassKg} kg to escape — pick a larger vehicle.
+              </p>
+            )}
+            {launchProgress != null && (
+              <div className="space-y-1">
+                <div className="flex items-center justify-between">
+                  <p className="text-[10px] text-accent-amber animate-pulse">
+                    Searching departure days... {Math.round(launchProgress * 100)}%
+                  </p>
+                  <button
+                    onClick={cancelLaunchPeriod}
+                    className="text-[9px] px-1.5 py-0.5 rounded border border-white/10 text-[var(--text-tertiary)] hover:text-accent-red hover:border-accent-red/30 transition-all"
+                  >
+                    Cancel
+                  </button>
+                </div>
+                <div className="h-1 rounded bg-white/5 overflow-hidden">
+                  <div
+                    className="h-full bg-accent-amber/60 transition-[width] duration-150"
+                    style={{ width: `${launchProgress * 100}%` }}
+                  />
+                </div>
+              </div>
+            )}
+            {launchError && <p className="text-[10px] text-accent-red font-mono">{launchError}</p>}
+            {launchPeriod?.optimum && launchProgress == null && (
+              <button
+                onClick={() => update({
+                  departureDateISO: launchPeriod.optimum!.departureDateISO,
+                  arrivalDateISO: launchPeriod.optimum!.arrivalDateISO,
+                })}
+                className="w-full px-2 py-1.5 rounded text-[10px] font-mono font-medium bg-accent-blue/10 border border-accent-blue/30 text-accent-blue hover:bg-accent-blue/20 transition-colors"
+              >
+                Use Min-ΔV Dates
+              </button>
+            )}
+          </div>
+        </SectionHeader>
+      )}
+
+      {params.transferType === 'mga' && (
+        <SectionHeader title="Gravity Assist">
+          <div className="space-y-3">
+            <label className="flex items-center justify-between">
+              <span className="text-[10px] text-[var(--text-secondary)]">Earliest Departure</span>
+              <input
+                type="date"
+                value={params.departureDateISO.slice(0, 10)}
+                onChange={(e) => update({ departureDateISO: new Date(e.target.value).toISOString() })}
+                className="input-field w-36 text-xs"
+              />
+            </label>
+
+            <label className="flex items-center justify-between">
+              <span className="text-[10px] text-[var(--text-secondary)]">Departure Span</span>
+              <div className="flex items-center gap-1.5">
+                <NumberInput
+                  value={mgaConfig.departureSpanDays}
+                  onChange={(v) => updateMgaConfig({ departureSpanDays: v })}
+                  min={1}
+                  max={3650}
+                  integer
+                  step={30}
+                />
+                <span className="text-[11px] text-[var(--text-secondary)] font-mono w-10">d</span>
+              </div>
+            </label>
+
+            <label className="flex items-center justify-between">
+              <span className="text-[10px] text-[var(--text-secondary)]">Max Revs / Leg</span>
+              <NumberInput
+                value={mgaConfig.maxRevs}
+                onChange={(v) => updateMgaConfig({ maxRevs: v })}
+                min={0}
+                max={2}
+                integer
+              />
+            </label>
+
+            <div className="space-y-1.5">
+              <span className="text-[10px] text-[var(--text-secondary)]">Flyby Sequence</span>
+              {mgaConfig.flybys.map((body, i) => (
+                <div key={i} className="flex items-center justify-between gap-1.5">
+                  <span className="text-[10px] text-[var(--text-tertiary)] font-mono">Flyby {i + 1}</span>
+                  <div className="flex items-center gap-1.5">
+                    <select
+                      value={body}
+                      onChange={(e) => setFlybys(mgaConfig.flybys.map((b, j) => (j === i ? e.target.value as PlanetBody : b)))}
+                      className="input-field w-32 text-xs"
+                    >
+                      {FLYBY_OPTIONS.map((f) => (
+                        <option key={f.value} value={f.value}>{f.label}</option>
+                      ))}
+                    </select>
+                    <button
+                      onClick={() => setFlybys(mgaConfig.flybys.filter((_, j) => j !== i))}
+                      className="text-[9px] px-1.5 py-0.5 rounded border border-white/10 text-[var(--text-tertiary)] hover:text-accent-red hover:border-accent-red/30 transition-all"
+                    >
+                      ✕
+                    </button>
+                  </div>
+                </div>
+              ))}
+              {mgaConfig.flybys.length < MAX_FLYBYS && (
+                <button
+                  onClick={() => setFlybys([...mgaConfig.flybys, 'earth'])}
+                  className="text-[9px] px-1.5 py-0.5 rounded border border-white/10 text-[var(--text-tertiary)] hover:text-accent-blue hover:border-accent-blue/30 transition-all"
+                >
+                  + Add Flyby
+                </button>
+              )}
+            </div>
+
+            <div className="space-y-1.5">
+              <div className="flex items-center justify-between">
+                <span className="text-[10px] text-[var(--text-secondary)]">Leg Flight Times (d)</span>
+                <button
+                  onClick={() => setFlybys(mgaConfig.flybys)}
+                  className="text-[9px] px-1.5 py-0.5 rounded border border-white/10 text-[var(--text-tertiary)] hover:text-accent-blue hover:border-accent-blue/30 transition-all"
+                >
+                  Defaults
+                </button>
+              </div>
+              {mgaConfig.legs.map((leg, i) => (
+                <div key={i} className="flex items-center justify-between gap-1.5">
+                  <span className="text-[10px] text-[var(--text-tertiary)] font-mono">
+                    {mgaSequenceLabel(mgaSequence.slice(i, i + 2)).replace('-', '→')}
+                  </span>
+                  <div className="flex items-center gap-1.5">
+                    <NumberInput
+                      value={leg.minDays}
+                      onChange={(v) => setLeg(i, { minDays: v })}
+                      min={1}
+                      integer
+                      className="input-field w-16 text-sm font-mono"
+                    />
+                    <span className="text-[11px] text-[var(--text-secondary)] font-mono">–</span>
+                    <NumberInput
+                      value={leg.maxDays}
+                      onChange={(v) => setLeg(i, { maxDays: v })}
+                      min={1}
+                      integer
+                      className="input-field w-16 text-sm font-mono"
+                    />
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            <button
+              onClick={runMga}
+              disabled={mgaProgress != null}
+              className="w-full px-2 py-1.5 rounded text-[10px] font-mono font-medium bg-accent-blue/10 border border-accent-blue/30 text-accent-blue hover:bg-accent-blue/20 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              Optimize {mgaSequenceLabel(mgaSequence)} Trajectory
+            </button>
+            {mgaProgress != null && (
+              <div className="space-y-1">
+                <div className="flex items-center justify-between">
+                  <p className="text-[10px] text-accent-amber animate-pulse">
+                    Optimizing sequence... {Math.round(mgaProgress * 100)}%
+                  </p>
+                  <button
+                    onClick={cancelMga}
+                    className="text-[9px] px-1.5 py-0.5 rounded border border-white/10 text-[var(--text-tertiary)] hover:text-accent-red hover:border-accent-red/30 transition-all"
+                  >
+                    Cancel
+                  </button>
+                </div>
+                <div className="h-1 rounded bg-white/5 overflow-hidden">
+                  <div
+                    className="h-full bg-accent-amber/60 transition-[width] duration-150"
+                    style={{ width: `${mgaProgress * 100}%` }}
+                  />
+                </div>
+              </div>
+            )}
+            {mgaError && <p className="text-[10px] text-accent-red font-mono">{mgaError}</p>}
+            {!mga && mgaProgress == null && !mgaError && (
+              <p className="text-[9px] text-[var(--text-tertiary)] px-1">
+                Until a sequence is optimized the budget shows a direct Hohmann transfer.
+              </p>
+            )}
+          </div>
+        </SectionHeader>
+      )}
+
       <SectionHeader title="Spacecraft" defaultOpen={false}>
         <div className="space-y-3">
           <label className="flex items-center justify-between">
@@ -1,7 +1,7 @@
 import { useMemo } from 'react'
 import Plot from 'react-plotly.js'
 import { useStore } from '@/stores'
-import { computeLagrangeResult, generateTransferProfile } from '@/lib/lagrange'
+import { computeLagrangeResult, generateTransferProfile, stationKeepingMatchesParams } from '@/lib/lagrange'
 
 const darkLayout = {
   paper_bgcolor: 'transparent',
@@ -14,7 +14,12 @@ const darkLayout = {
 export default function LagrangeChart() {
   const params = useStore((s) => s.beyondLeo.lagrangeParams)
 
-  const result = useMemo(() => computeLagrangeResult(params), [params])
+  const orbitConfig = useStore((s) => s.periodicOrbitConfig)
+  const skConfig = useStore((s) => s.stationKeepingConfig)
+
+  const storedSk = useStore((s) => s.stationKeeping)
+  const sk = stationKeepingMatchesParams(storedSk, params, orbitConfig, skConfig) ? storedSk : null
+  const result = useMemo(() => computeLagrangeResult(params, null, sk), [params, sk])
   const profile = useMemo(() => generateTransferProfile(params), [params])
 
   // Transfer profile chart data
@@ -54,6 +59,16 @@ export default function LagrangeChart() {
     fillcolor: 'rgba(16,185,129,0.1)',
   }), [skData])
 
+  // One simulated campaign, when a station-keeping simulation exists
+  const skSampleTrace = useMemo(() => sk && sk.sampleRun.length > 0 ? {
+    x: [0, ...sk.sampleRun.map((e) => e.day / 365.25)],
+    y: [0, ...sk.sampleRun.map((e) => e.cumulativeDvMs)],
+    type: 'scatter' as const,
+    mode: 'lines' as const,
+    name: 'Simulated run',
+    line: { color: '#F59E0B', width: 1.5, shape: 'hv' as const },
+  } : null, [sk])
+
   return (
     <div className="flex h-full gap-2">
       <div className="flex-1 h-full">
@@ -81,7 +96,7 @@ export default function LagrangeChart() {
 
       <div className="flex-1 h-full">
         <Plot
-          data={[skTrace] as any}
+          data={(skSampleTrace ? [skTrace, skSampleTrace] : [skTrace]) as any}
           layout={{
             ...darkLayout,
             title: { text: 'Station-Keeping Budget', font: { size: 11, color: '#9CA3AF' } },
@@ -3,12 +3,34 @@ import { useStore } from '@/stores'
 import MetricCard from '@/components/ui/MetricCard'
 import SectionHeader from '@/components/ui/SectionHeader'
 import DataReadout from '@/components/ui/DataReadout'
-import { computeLagrangeResult, computeLissajousOutOfPlanePeriod } from '@/lib/lagrange'
+import {
+  computeLagrangeResult, computeLissajousOutOfPlanePeriod, manifoldMatchesParams, stationKeepingMatchesParams,
+} from '@/lib/lagrange'
+import { PERIODIC_ORBIT_FAMILIES } from '@/lib/cr3bp'
+import { STATION_KEEPING_STRATEGIES } from '@/lib/station-keeping'
+
+const STATE_LABELS = ['x', 'y', 'z', 'vx', 'vy', 'vz']
+
+function formatKm(km: number): string {
+  return km > 1e6 ? (km / 1e6).toFixed(3) + 'M' : km >= 1e4 ? (km / 1e3).toFixed(1) + 'k' : km.toFixed(0)
+}
 
 export default function LagrangeDisplay() {
   const params = useStore((s) => s.beyondLeo.lagrangeParams)
+  const orbitConfig = useStore((s) => s.periodicOrbitConfig)
+  const skConfig = useStore((s) => s.stationKeepingConfig)
 
-  const result = useMemo(() => computeLagrangeResult(params), [params])
+  const storedManifold = useStore((s) => s.manifoldTransfer)
+  const manifold = manifoldMatchesParams(storedManifold, params, orbitConfig) ? storedManifold : null
+  const storedSk = useStore((s) => s.stationKeeping)
+  const sk = stationKeepingMatchesParams(storedSk, params, orbitConfig, skConfig) ? storedSk : null
+  const result = useMemo(() => computeLagrangeResult(params, manifold, sk), [params, manifold, sk])
+  // The budget only takes the simulated p95 while it stays among the surviving runs
+  const skBounded = sk != null && Number.isFinite(sk.p95AnnualDvMs)
+  const storedOrbit = useStore((s) => s.periodicOrbit)
+  const orbit = storedOrbit && storedOrbit.system === params.system && storedOrbit.point === params.point
+    ? storedOrbit
+    : null
 
   return (
     <div className="space-y-3">
@@ -76,8 +98,8 @@ export default function LagrangeDisplay() {
             status={result.stabilityClass === 'stable' ? 'nominal' : 'warning'}
           />
           <DataReadout
-            label="Annual SK ΔV"
-            value={result.annualStationKeepingMs.toFixed(1)}
+            label={skBounded ? 'Annual SK ΔV (p95)' : 'Annual SK ΔV'}
+            value={result.annualStationKeepingMs.toFixed(skBounded ? 2 : 1)}
             unit="m/s/yr"
           />
           <DataReadout
@@ -87,6 +109,169 @@ export default function LagrangeDisplay() {
         </div>
       </SectionHeader>
 
+      {orbit && (
+        <SectionHeader title="CR3BP Periodic Orbit">
+          <div className="grid grid-cols-2 gap-2">
+            <DataReadout
+              label="Family"
+              value={PERIODIC_ORBIT_FAMILIES[orbit.family].label + (orbit.family === 'halo' ? (orbit.branch === 'northern' ? ' N' : ' S') : '')}
+            />
+            <DataReadout label="Period" value={orbit.periodDays.toFixed(2)} unit="days" />
+            <DataReadout label="Jacobi C" value={orbit.jacobi.toFixed(6)} />
+            <DataReadout
+              label={PERIODIC_ORBIT_FAMILIES[orbit.family].amplitudeAxis === 'y' ? 'Ay' : 'Az'}
+              value={formatKm(orbit.amplitudeKm)}
+              unit="km"
+            />
+            <DataReadout
+              label="Stability Index"
+              value={Number.isFinite(orbit.stabilityIndex) ? orbit.stabilityIndex.toFixed(2) : 'complex'}
+              status={orbit.stabilityIndex <= 1.001 ? 'nominal' : orbit.stabilityIndex < 10 ? 'warning' : 'critical'}
+            />
+            <DataReadout
+              label="Max |λ|"
+              value={Number.isFinite(orbit.maxEigenvalue) ? orbit.maxEigenvalue.toFixed(1) : '\u2014'}
+            />
+            {orbit.maxEigenvalue > 1.001 && (
+              <DataReadout
+                label="e-Folding Time"
+                value={(orbit.periodDays / Math.log(orbit.maxEigenvalue)).toFixed(1)}
+                unit="days"
+              />
+            )}
+            <DataReadout
+              label="Extent x/y/z"
+              value={`${formatKm(orbit.extentKm.x)}/${formatKm(orbit.extentKm.y)}/${formatKm(orbit.extentKm.z)}`}
+              unit="km"
+            />
+          </div>
+          <table className="w-full text-[10px]">
+            <thead>
+              <tr className="border-b border-white/10">
+                {['State', 'Nondim.', 'Dim.'].map((h) => (
+                  <th key={h} className="text-right py-1 px-1 text-[var(--text-tertiary)] font-normal uppercase tracking-wider">{h}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {orbit.initialState.map((v, i) => (
+                <tr key={STATE_LABELS[i]} className="border-b border-white/5 hover:bg-white/[0.02]">
+                  <td className="py-0.5 px-1 text-right font-mono text-[var(--text-secondary)]">{STATE_LABELS[i]}</td>
+                  <td className="py-0.5 px-1 text-right font-mono text-[var(--text-primary)]">{v.toFixed(9)}</td>
+                  <td className="py-0.5 px-1 text-right font-mono text-[var(--text-primary)]">
+                    {i < 3
+                      ? `${(v * orbit.lengthKm).toFixed(0)} km`
+                      : `${(v * orbit.lengthKm / orbit.timeSec * 1000).toFixed(2)} m/s`}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <div className="text-[9px] text-[var(--text-tertiary)] font-mono px-1">
+            Rotating barycentric frame, μ = {orbit.mu.toExponential(4)} ·
+            {' '}{orbit.corrector === 'multiple' ? 'multiple' : 'single'} shooting, {orbit.iterations} iter,
+            {' '}residual {orbit.residual.toExponential(1)} · {orbit.continuationSteps} continuation steps
+          </div>
+        </SectionHeader>
+      )}
+
+      {manifold && (
+        <SectionHeader title="Manifold Transfer">
+          <div className="grid grid-cols-2 gap-2">
+            <DataReadout
+              label="Perigee Alt"
+              value={formatKm(manifold.transfer.perigeeAltKm)}
+              unit="km"
+              status={manifold.reachesParkingOrbit ? 'nominal' : 'warning'}
+            />
+            <DataReadout
+              label="Perigee Speed"
+              value={manifold.transfer.perigeeSpeedKms.toFixed(3)}
+              unit="km/s"
+            />
+            <DataReadout
+              label="TLI ΔV"
+              value={manifold.transfer.tliDeltaVms.toFixed(0)}
+              unit="m/s"
+              status={manifold.reachesParkingOrbit ? 'default' : 'warning'}
+            />
+            <DataReadout
+              label="Insertion ΔV"
+              value={manifold.transfer.insertionDeltaVms.toFixed(2)}
+              unit="m/s"
+            />
+            <DataReadout
+              label="Time of Flight"
+              value={manifold.transfer.tofDays.toFixed(1)}
+              unit="days"
+            />
+            <DataReadout
+              label="Tube Min Alt"
+              value={formatKm(manifold.minPerigeeAltKm)}
+              unit="km"
+              status={manifold.minPerigeeAltKm < 0 ? 'warning' : 'default'}
+            />
+          </div>
+          {!manifold.reachesParkingOrbit && (
+            <p className="text-[9px] text-accent-amber font-mono px-1">
+              Approximation — no tube trajectory passes through the {manifold.departureAltKm.toFixed(0)} km parking
+              orbit, even with a larger step-off. TLI includes a Hohmann bridge up to the closest manifold perigee;
+              the budget above keeps the low-energy estimate.
+            </p>
+          )}
+          {params.transferType !== 'low-energy' && (
+            <p className="text-[9px] text-[var(--text-tertiary)] font-mono px-1">
+              Direct transfer selected — the budget above uses the direct estimate.
+            </p>
+          )}
+          <div className="text-[9px] text-[var(--text-tertiary)] font-mono px-1">
+            {manifold.tube.length} trajectories · {manifold.transfer.stepKm.toFixed(0)} km step-off ·
+            {' '}arrival phase τ = {manifold.transfer.phase.toFixed(3)}
+          </div>
+        </SectionHeader>
+      )}
+
+      {sk && (
+        <SectionHeader title="Station-Keeping Simulation">
+          <div className="grid grid-cols-2 gap-2">
+            <DataReadout label="Mean ΔV" value={sk.meanAnnualDvMs.toFixed(2)} unit="m/s/yr" />
+            <DataReadout label="σ" value={sk.stdAnnualDvMs.toFixed(2)} unit="m/s/yr" />
+            <DataReadout
+              label="Median ΔV"
+              value={Number.isFinite(sk.p50AnnualDvMs) ? sk.p50AnnualDvMs.toFixed(2) : 'LOST'}
+              unit="m/s/yr"
+            />
+            <DataReadout
+              label="95th Pct ΔV"
+              value={skBounded ? sk.p95AnnualDvMs.toFixed(2) : 'LOST'}
+              unit="m/s/yr"
+              status={skBounded ? 'nominal' : 'critical'}
+            />
+            <DataReadout label="Max ΔV" value={sk.maxAnnualDvMs.toFixed(2)} unit="m/s/yr" />
+            <DataReadout label="Maneuvers" value={sk.maneuversPerYear.toFixed(1)} unit="/yr" />
+            <DataReadout label="Mean Burn" value={sk.meanBurnCms.toFixed(1)} unit="cm/s" />
+            <DataReadout label="Max Deviation (p95)" value={formatKm(sk.p95DeviationKm)} unit="km" />
+            <DataReadout
+              label="Runs Lost"
+              value={`${sk.lostRuns} / ${sk.runs}`}
+              status={sk.lostRuns === 0 ? 'nominal' : sk.lostRuns < 0.05 * sk.runs ? 'warning' : 'critical'}
+            />
+          </div>
+          <div className="text-[9px] text-[var(--text-tertiary)] font-mono px-1">
+            {STATION_KEEPING_STRATEGIES[sk.config.strategy]} control every {sk.config.cadenceDays} d over
+            {' '}{sk.config.durationYears} yr · nav σ {sk.config.navPosKm} km / {sk.config.navVelCms} cm/s ·
+            {' '}lost beyond {formatKm(sk.lostDeviationKm)} km
+          </div>
+          {sk.lostRuns > 0 && (
+            <p className="text-[9px] text-accent-amber font-mono px-1">
+              {skBounded
+                ? 'Lost runs count as failures in the percentiles; mean, σ and max cover surviving runs only.'
+                : 'More than 5% of runs were lost, so the 95th percentile is unbounded and the mission budget keeps the analytical estimate. Shorten the cadence or tighten navigation.'}
+            </p>
+          )}
+        </SectionHeader>
+      )}
+
       <SectionHeader title="Communications">
         <div className="grid grid-cols-2 gap-2">
           <DataReadout
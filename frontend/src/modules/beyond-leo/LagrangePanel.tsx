@@ -1,5 +1,11 @@
 import { useStore } from '@/stores'
 import SectionHeader from '@/components/ui/SectionHeader'
+import NumberInput from '@/components/ui/NumberInput'
+import { PERIODIC_ORBIT_FAMILIES } from '@/lib/cr3bp'
+import type { PeriodicOrbitFamily, HaloBranch, PeriodicOrbitTarget, ShootingMethod } from '@/lib/cr3bp'
+import { manifoldMatchesParams, periodicOrbitMatchesParams, stationKeepingMatchesParams } from '@/lib/lagrange'
+import { STATION_KEEPING_STRATEGIES } from '@/lib/station-keeping'
+import type { StationKeepingStrategy } from '@/lib/station-keeping'
 import type { LagrangeSystem, LagrangePoint, LagrangeOrbitType, LagrangeTransferType } from '@/types/beyond-leo'
 
 const SYSTEMS: { value: LagrangeSystem; label: string }[] = [
@@ -26,9 +32,54 @@ const TRANSFER_TYPES: { value: LagrangeTransferType; label: string }[] = [
   { value: 'low-energy', label: 'Low-Energy' },
 ]
 
+const FAMILIES = Object.entries(PERIODIC_ORBIT_FAMILIES) as [PeriodicOrbitFamily, { label: string }][]
+
+const BRANCHES: { value: HaloBranch; label: string }[] = [
+  { value: 'northern', label: 'Northern' },
+  { value: 'southern', label: 'Southern' },
+]
+
+const TARGETS: { value: PeriodicOrbitTarget; label: string }[] = [
+  { value: 'amplitude', label: 'Amplitude' },
+  { value: 'jacobi', label: 'Jacobi Constant' },
+]
+
+const CORRECTORS: { value: ShootingMethod; label: string }[] = [
+  { value: 'single', label: 'Single Shooting' },
+  { value: 'multiple', label: 'Multiple Shooting' },
+]
+
+const SK_STRATEGIES = Object.entries(STATION_KEEPING_STRATEGIES) as [StationKeepingStrategy, string][]
+
 export default function LagrangePanel() {
   const params = useStore((s) => s.beyondLeo.lagrangeParams)
   const update = useStore((s) => s.updateLagrangeParams)
+  const orbitConfig = useStore((s) => s.periodicOrbitConfig)
+  const updateOrbitConfig = useStore((s) => s.updatePeriodicOrbitConfig)
+  const periodicOrbit = useStore((s) => s.periodicOrbit)
+  const orbitProgress = useStore((s) => s.periodicOrbitProgress)
+  const orbitError = useStore((s) => s.periodicOrbitError)
+  const runPeriodicOrbit = useStore((s) => s.runPeriodicOrbit)
+  const cancelPeriodicOrbit = useStore((s) => s.cancelPeriodicOrbit)
+  const manifoldConfig = useStore((s) => s.manifoldConfig)
+  const updateManifoldConfig = useStore((s) => s.updateManifoldConfig)
+  const manifold = useStore((s) => s.manifoldTransfer)
+  const manifoldProgress = useStore((s) => s.manifoldProgress)
+  const manifoldError = useStore((s) => s.manifoldError)
+  const runManifoldTransfer = useStore((s) => s.runManifoldTransfer)
+  const cancelManifoldTransfer = useStore((s) => s.cancelManifoldTransfer)
+  const skConfig = useStore((s) => s.stationKeepingConfig)
+  const updateSkConfig = useStore((s) => s.updateStationKeepingConfig)
+  const stationKeeping = useStore((s) => s.stationKeeping)
+  const skProgress = useStore((s) => s.stationKeepingProgress)
+  const skError = useStore((s) => s.stationKeepingError)
+  const runStationKeeping = useStore((s) => s.runStationKeeping)
+  const cancelStationKeeping = useStore((s) => s.cancelStationKeeping)
+
+  const collinear = params.point === 'L1' || params.point === 'L2' || params.point === 'L3'
+  const orbitStale = periodicOrbit != null && !periodicOrbitMatchesParams(periodicOrbit, params, orbitConfig)
+  const manifoldStale = manifold != null && !manifoldMatchesParams(manifold, params, orbitConfig)
+  const skStale = stationKeeping != null && !stationKeepingMatchesParams(stationKeeping, params, orbitConfig, skConfig)
 
   return (
     <>
@@ -122,6 +173,408 @@ export default function LagrangePanel() {
         </div>
       </SectionHeader>
 
+      <SectionHeader title="Periodic Orbit (CR3BP)">
+        <div className="space-y-3">
+          <label className="flex items-center justify-between">
+            <span className="text-[10px] text-[var(--text-secondary)]">Family</span>
+            <select
+              value={orbitConfig.family}
+              onChange={(e) => updateOrbitConfig({ family: e.target.value as PeriodicOrbitFamily })}
+              className="input-field w-32 text-xs"
+            >
+              {FAMILIES.map(([value, info]) => (
+                <option key={value} value={value}>{info.label}</option>
+              ))}
+            </select>
+          </label>
+
+          {orbitConfig.family === 'halo' && (
+            <label className="flex items-center justify-between">
+              <span className="text-[10px] text-[var(--text-secondary)]">Branch</span>
+              <select
+                value={orbitConfig.branch}
+                onChange={(e) => updateOrbitConfig({ branch: e.target.value as HaloBranch })}
+                className="input-field w-32 text-xs"
+              >
+                {BRANCHES.map((b) => (
+                  <option key={b.value} value={b.value}>{b.label}</option>
+                ))}
+              </select>
+            </label>
+          )}
+
+          <label className="flex items-center justify-between">
+            <span className="text-[10px] text-[var(--text-secondary)]">Target</span>
+            <select
+              value={orbitConfig.target}
+              onChange={(e) => updateOrbitConfig({ target: e.target.value as PeriodicOrbitTarget })}
+              className="input-field w-32 text-xs"
+            >
+              {TARGETS.map((t) => (
+                <option key={t.value} value={t.value}>{t.label}</option>
+              ))}
+            </select>
+          </label>
+
+          {orbitConfig.target === 'jacobi' ? (
+            <label className="flex items-center justify-between">
+              <span className="text-[10px] text-[var(--text-secondary)]">Jacobi C</span>
+              <NumberInput
+                value={orbitConfig.jacobi}
+                onChange={(v) => updateOrbitConfig({ jacobi: v })}
+                step={0.0001}
+              />
+            </label>
+          ) : (
+            <p className="text-[9px] text-[var(--text-tertiary)] px-1">
+              Targets the Amplitude above as {PERIODIC_ORBIT_FAMILIES[orbitConfig.family].amplitudeAxis === 'y' ? 'the in-plane Ay' : 'the out-of-plane Az'} excursion.
+            </p>
+          )}
+
+          <label className="flex items-center justify-between">
+            <span className="text-[10px] text-[var(--text-secondary)]">Corrector</span>
+            <select
+              value={orbitConfig.corrector}
+              onChange={(e) => updateOrbitConfig({ corrector: e.target.value as ShootingMethod })}
+              className="input-field w-32 text-xs"
+            >
+              {CORRECTORS.map((c) => (
+                <option key={c.value} value={c.value}>{c.label}</option>
+              ))}
+            </select>
+          </label>
+
+          {orbitConfig.corrector === 'multiple' && (
+            <label className="flex items-center justify-between">
+              <span className="text-[10px] text-[var(--text-secondary)]">Patch Points</span>
+              <NumberInput
+                value={orbitConfig.patchPoints}
+                onChange={(v) => updateOrbitConfig({ patchPoints: v })}
+                min={2}
+                max={20}
+                integer
+              />
+            </label>
+          )}
+
+          <button
+            onClick={runPeriodicOrbit}
+            disabled={orbitProgress != null || !collinear}
+            className="w-full px-2 py-1.5 rounded text-[10px] font-mono font-medium bg-accent-blue/10 border border-accent-blue/30 text-accent-blue hover:bg-accent-blue/20 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            Compute Periodic Orbit
+          </button>
+          {!collinear && (
+            <p className="text-[9px] text-[var(--text-tertiary)] px-1">
+              Periodic families are computed for the collinear points L1–L3.
+            </p>
+          )}
+          {orbitProgress != null && (
+            <div className="space-y-1">
+              <div className="flex items-center justify-between">
+                <p className="text-[10px] text-accent-amber animate-pulse">
+                  Continuing family... {Math.round(orbitProgress * 100)}%
+                </p>
+                <button
+                  onClick={cancelPeriodicOrbit}
+                  className="text-[9px] px-1.5 py-0.5 rounded border border-white/10 text-[var(--text-tertiary)] hover:text-accent-red hover:border-accent-red/30 transition-all"
+                >
+                  Cancel
+                </button>
+              </div>
+              <div className="h-1 rounded bg-white/5 overflow-hidden">
+                <div
+                  className="h-full bg-accent-amber/60 transition-[width] duration-150"
+                  style={{ width: `${orbitProgress * 100}%` }}
+                />
+              </div>
+            </div>
+          )}
+          {orbitError && <p className="text-[10px] text-accent-red font-mono">{orbitError}</p>}
+          {orbitStale && orbitProgress == null && (
+            <p className="text-[9px] text-accent-amber font-mono px-1">
+              Inputs changed since the last run — recompute to update.
+            </p>
+          )}
+        </div>
+      </SectionHeader>
+
+      <SectionHeader title="Stable Manifold" defaultOpen={false}>
+        <div className="space-y-3">
+          <label className="flex items-center justify-between">
+            <span className="text-[10px] text-[var(--text-secondary)]">Trajectories</span>
+            <NumberInput
+              value={manifoldConfig.tubeTrajectories}
+              onChange={(v) => updateManifoldConfig({ tubeTrajectories: v })}
+              min={8}
+              max={200}
+              integer
+              step={4}
+            />
+          </label>
+
+          <label className="flex items-center justify-between">
+            <span className="text-[10px] text-[var(--text-secondary)]">Step Off</span>
+            <div className="flex items-center gap-1.5">
+              <NumberInput
+                value={manifoldConfig.stepKm}
+                onChange={(v) => updateManifoldConfig({ stepKm: v })}
+                min={1}
+                max={5000}
+                step={50}
+              />
+              <span className="text-[11px] text-[var(--text-secondary)] font-mono w-10">km</span>
+            </div>
+          </label>
+
+          <label className="flex items-center justify-between">
+            <span className="text-[10px] text-[var(--text-secondary)]">Max TOF</span>
+            <div className="flex items-center gap-1.5">
+              <NumberInput
+                value={manifoldConfig.maxTofPeriods}
+                onChange={(v) => updateManifoldConfig({ maxTofPeriods: v })}
+                min={0.5}
+                max={10}
+                step={0.5}
+              />
+              <span className="text-[11px] text-[var(--text-secondary)] font-mono w-10">periods</span>
+            </div>
+          </label>
+
+          <button
+            onClick={runManifoldTransfer}
+            disabled={manifoldProgress != null || periodicOrbit == null || orbitStale}
+            className="w-full px-2 py-1.5 rounded text-[10px] font-mono font-medium bg-accent-blue/10 border border-accent-blue/30 text-accent-blue hover:bg-accent-blue/20 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            Compute Manifold Transfer
+          </button>
+          {(periodicOrbit == null || orbitStale) && (
+            <p className="text-[9px] text-[var(--text-tertiary)] px-1">
+              Traces the stable manifold of the current periodic orbit — compute the orbit first.
+            </p>
+          )}
+          {manifoldProgress != null && (
+            <div className="space-y-1">
+              <div className="flex items-center justify-between">
+                <p className="text-[10px] text-accent-amber animate-pulse">
+                  Tracing manifold... {Math.round(manifoldProgress * 100)}%
+                </p>
+                <button
+                  onClick={cancelManifoldTransfer}
+                  className="text-[9px] px-1.5 py-0.5 rounded border border-white/10 text-[var(--text-tertiary)] hover:text-accent-red hover:border-accent-red/30 transition-all"
+                >
+                  Cancel
+                </button>
+              </div>
+              <div className="h-1 rounded bg-white/5 overflow-hidden">
+                <div
+                  className="h-full bg-accent-amber/60 transition-[width] duration-150"
+                  style={{ width: `${manifoldProgress * 100}%` }}
+                />
+              </div>
+            </div>
+          )}
+          {manifoldError && <p className="text-[10px] text-accent-red font-mono">{manifoldError}</p>}
+          {manifoldStale && manifoldProgress == null && (
+            <p className="text-[9px] text-accent-amber font-mono px-1">
+              Orbit or departure altitude changed — recompute the manifold.
+            </p>
+          )}
+          {params.transferType !== 'low-energy' && manifold != null && !manifoldStale && (
+            <p className="text-[9px] text-[var(--text-tertiary)] px-1">
+              Select the Low-Energy transfer to use the manifold trajectory.
+            </p>
+          )}
+        </div>
+      </SectionHeader>
+
+      <SectionHeader title="Station-Keeping Sim" defaultOpen={false}>
+        <div className="space-y-3">
+          <label className="flex items-center justify-between">
+            <span className="text-[10px] text-[var(--text-secondary)]">Control</span>
+            <select
+              value={skConfig.strategy}
+              onChange={(e) => updateSkConfig({ strategy: e.target.value as StationKeepingStrategy })}
+              className="input-field w-32 text-xs"
+            >
+              {SK_STRATEGIES.map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </label>
+
+          <label className="flex items-center justify-between">
+            <span className="text-[10px] text-[var(--text-secondary)]">Cadence</span>
+            <div className="flex items-center gap-1.5">
+              <NumberInput
+                value={skConfig.cadenceDays}
+                onChange={(v) => updateSkConfig({ cadenceDays: v })}
+                min={0.1}
+                max={365}
+                step={1}
+              />
+              <span className="text-[11px] text-[var(--text-secondary)] font-mono w-10">d</span>
+            </div>
+          </label>
+
+          <label className="flex items-center justify-between">
+            <span className="text-[10px] text-[var(--text-secondary)]">Duration</span>
+            <div className="flex items-center gap-1.5">
+              <NumberInput
+                value={skConfig.durationYears}
+                onChange={(v) => updateSkConfig({ durationYears: v })}
+                min={0.1}
+                max={10}
+                step={0.25}
+              />
+              <span className="text-[11px] text-[var(--text-secondary)] font-mono w-10">yr</span>
+            </div>
+          </label>
+
+          <label className="flex items-center justify-between">
+            <span className="text-[10px] text-[var(--text-secondary)]">Runs</span>
+            <NumberInput
+              value={skConfig.runs}
+              onChange={(v) => updateSkConfig({ runs: v })}
+              min={1}
+              max={500}
+              integer
+              step={10}
+            />
+          </label>
+
+          <label className="flex items-center justify-between">
+            <span className="text-[10px] text-[var(--text-secondary)]">Insertion σ</span>
+            <div className="flex items-center gap-1.5">
+              <NumberInput
+                value={skConfig.insertionPosKm}
+                onChange={(v) => updateSkConfig({ insertionPosKm: v })}
+                min={0}
+                max={1000}
+                step={1}
+              />
+              <span className="text-[11px] text-[var(--text-secondary)] font-mono w-10">km</span>
+            </div>
+          </label>
+
+          <label className="flex items-center justify-between">
+            <span className="text-[10px] text-[var(--text-secondary)]">Insertion σ</span>
+            <div className="flex items-center gap-1.5">
+              <NumberInput
+                value={skConfig.insertionVelCms}
+                onChange={(v) => updateSkConfig({ insertionVelCms: v })}
+                min={0}
+                max={1000}
+                step={1}
+              />
+              <span className="text-[11px] text-[var(--text-secondary)] font-mono w-10">cm/s</span>
+            </div>
+          </label>
+
+          <label className="flex items-center justify-between">
+            <span className="text-[10px] text-[var(--text-secondary)]">Nav σ</span>
+            <div className="flex items-center gap-1.5">
+              <NumberInput
+                value={skConfig.navPosKm}
+                onChange={(v) => updateSkConfig({ navPosKm: v })}
+                min={0}
+                max={100}
+                step={0.1}
+              />
+              <span className="text-[11px] text-[var(--text-secondary)] font-mono w-10">km</span>
+            </div>
+          </label>
+
+          <label className="flex items-center justify-between">
+            <span className="text-[10px] text-[var(--text-secondary)]">Nav σ</span>
+            <div className="flex items-center gap-1.5">
+              <NumberInput
+                value={skConfig.navVelCms}
+                onChange={(v) => updateSkConfig({ navVelCms: v })}
+                min={0}
+                max={100}
+                step={0.1}
+              />
+              <span className="text-[11px] text-[var(--text-secondary)] font-mono w-10">cm/s</span>
+            </div>
+          </label>
+
+          <label className="flex items-center justify-between">
+            <span className="text-[10px] text-[var(--text-secondary)]">Execution σ</span>
+            <div className="flex items-center gap-1.5">
+              <NumberInput
+                value={skConfig.executionErrorPct}
+                onChange={(v) => updateSkConfig({ executionErrorPct: v })}
+                min={0}
+                max={50}
+                step={0.5}
+              />
+              <span className="text-[11px] text-[var(--text-secondary)] font-mono w-10">%</span>
+            </div>
+          </label>
+
+          <label className="flex items-center justify-between">
+            <span className="text-[10px] text-[var(--text-secondary)]">Min Burn</span>
+            <div className="flex items-center gap-1.5">
+              <NumberInput
+                value={skConfig.minBurnCms}
+                onChange={(v) => updateSkConfig({ minBurnCms: v })}
+                min={0}
+                max={100}
+                step={0.5}
+              />
+              <span className="text-[11px] text-[var(--text-secondary)] font-mono w-10">cm/s</span>
+            </div>
+          </label>
+
+          {periodicOrbit && !orbitStale && (
+            <p className="text-[9px] text-[var(--text-tertiary)] px-1">
+              Orbit e-folding time {(periodicOrbit.periodDays / Math.log(periodicOrbit.maxEigenvalue)).toFixed(1)} d — keep the cadence well below it.
+            </p>
+          )}
+
+          <button
+            onClick={runStationKeeping}
+            disabled={skProgress != null || periodicOrbit == null || orbitStale}
+            className="w-full px-2 py-1.5 rounded text-[10px] font-mono font-medium bg-accent-blue/10 border border-accent-blue/30 text-accent-blue hover:bg-accent-blue/20 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            Simulate Station-Keeping
+          </button>
+          {(periodicOrbit == null || orbitStale) && (
+            <p className="text-[9px] text-[var(--text-tertiary)] px-1">
+              Flies the current periodic orbit as the reference — compute the orbit first.
+            </p>
+          )}
+          {skProgress != null && (
+            <div className="space-y-1">
+              <div className="flex items-center justify-between">
+                <p className="text-[10px] text-accent-amber animate-pulse">
+                  Simulating runs... {Math.round(skProgress * 100)}%
+                </p>
+                <button
+                  onClick={cancelStationKeeping}
+                  className="text-[9px] px-1.5 py-0.5 rounded border border-white/10 text-[var(--text-tertiary)] hover:text-accent-red hover:border-accent-red/30 transition-all"
+                >
+                  Cancel
+                </button>
+              </div>
+              <div className="h-1 rounded bg-white/5 overflow-hidden">
+                <div
+                  className="h-full bg-accent-amber/60 transition-[width] duration-150"
+                  style={{ width: `${skProgress * 100}%` }}
+                />
+              </div>
+            </div>
+          )}
+          {skError && <p className="text-[10px] text-accent-red font-mono">{skError}</p>}
+          {skStale && skProgress == null && (
+            <p className="text-[9px] text-accent-amber font-mono px-1">
+              Reference orbit or simulation settings changed — rerun the simulation.
+            </p>
+          )}
+        </div>
+      </SectionHeader>
+
       <SectionHeader title="Mission" defaultOpen={false}>
         <div className="space-y-3">
           <label className="flex items-center justify-between">
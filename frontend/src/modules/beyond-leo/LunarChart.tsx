@@ -2,6 +2,8 @@ import { useMemo } from 'react'
 import Plot from 'react-plotly.js'
 import { useStore } from '@/stores'
 import { computeLunarResult, generateAltitudeProfile } from '@/lib/lunar-transfer'
+import { lunarTargetingMatchesParams } from '@/lib/lunar-targeting'
+import { lunarStabilityMatchesParams } from '@/lib/lunar-stability'
 import { MOON_SEMI_MAJOR_AXIS } from '@/lib/beyond-leo-constants'
 
 const darkLayout = {
@@ -14,9 +16,18 @@ const darkLayout = {
 
 export default function LunarChart() {
   const params = useStore((s) => s.beyondLeo.lunarParams)
+  const storedTargeting = useStore((s) => s.lunarTargeting)
+  const storedStability = useStore((s) => s.lunarStability)
+  const stabilityConfig = useStore((s) => s.lunarStabilityConfig)
 
-  const result = useMemo(() => computeLunarResult(params), [params])
-  const profile = useMemo(() => generateAltitudeProfile(params), [params])
+  const targeting = storedTargeting && lunarTargetingMatchesParams(storedTargeting, params) ? storedTargeting : null
+  const targeted = targeting?.targeted ?? null
+  const result = useMemo(() => computeLunarResult(params, targeted), [params, targeted])
+  // The targeted transfer carries its own propagated Earth-distance profile
+  const profile = useMemo(() => targeted?.profile ?? generateAltitudeProfile(params), [params, targeted])
+  const moonDistanceKm = targeted?.moonDistanceKm ?? MOON_SEMI_MAJOR_AXIS
+  const stability = (params.missionType === 'orbit' || params.missionType === 'landing')
+    && storedStability && lunarStabilityMatchesParams(storedStability, params, stabilityConfig) ? storedStability : null
 
   // Altitude profile trace
   const altTrace = useMemo(() => ({
@@ -33,18 +44,20 @@ export default function LunarChart() {
   // Moon distance reference line
   const moonRef = useMemo(() => ({
     x: [0, result.transferTimeDays],
-    y: [MOON_SEMI_MAJOR_AXIS / 1e3, MOON_SEMI_MAJOR_AXIS / 1e3],
+    y: [moonDistanceKm / 1e3, moonDistanceKm / 1e3],
     type: 'scatter' as const,
     mode: 'lines' as const,
     name: 'Moon Distance',
     line: { color: '#6B7280', width: 1, dash: 'dash' as const },
-  }), [result.transferTimeDays])
+  }), [result.transferTimeDays, moonDistanceKm])
 
   // ΔV breakdown bar chart
   const dvTrace = useMemo(() => {
-    const categories = ['TLI', 'LOI']
-    const values = [result.tliDeltaVms, result.loiDeltaVms]
-    const colors = ['#3B82F6', '#10B981']
+    const categories = targeted ? ['TLI', 'Plane Chg', 'LOI'] : ['TLI', 'LOI']
+    const values = targeted
+      ? [result.tliDeltaVms, targeted.planeChangeDeltaVms, result.loiDeltaVms]
+      : [result.tliDeltaVms, result.loiDeltaVms]
+    const colors = targeted ? ['#3B82F6', '#F59E0B', '#10B981'] : ['#3B82F6', '#10B981']
 
     return categories.map((cat, i) => ({
       x: [cat],
@@ -53,7 +66,55 @@ export default function LunarChart() {
       name: cat,
       marker: { color: colors[i] },
     }))
-  }, [result])
+  }, [result, targeted])
+
+  // Free-drift periselene/aposelene of the lunar orbit
+  const stabilityTraces = useMemo(() => {
+    if (!stability) return null
+    const days = stability.history.map((h) => h.day)
+    return [
+      {
+        x: days,
+        y: stability.history.map((h) => h.apoAltKm),
+        type: 'scatter' as const,
+        mode: 'lines' as const,
+        name: 'Aposelene',
+        line: { color: '#6B7280', width: 1 },
+      },
+      {
+        x: days,
+        y: stability.history.map((h) => Math.max(0, h.periAltKm)),
+        type: 'scatter' as const,
+        mode: 'lines' as const,
+        name: 'Periselene',
+        line: { color: '#EF4444', width: 2 },
+      },
+      ...(stability.skManeuvers.length > 0 ? [{
+        x: stability.skManeuvers.map((m) => m.day),
+        y: stability.skManeuvers.map((m) => m.periAltKm),
+        type: 'scatter' as const,
+        mode: 'markers' as const,
+        name: 'SK Burn',
+        marker: { color: '#F59E0B', size: 5, symbol: 'triangle-up' },
+      }] : []),
+    ]
+  }, [stability])
+
+  // Total ΔV per daily TLI opportunity across the targeting window
+  const oppTrace = useMemo(() => {
+    if (!targeting) return null
+    const opps = targeting.opportunities.filter((o): o is NonNullable<typeof o> => o != null)
+    if (opps.length === 0) return null
+    return {
+      x: opps.map((o) => o.tliDateISO.slice(5, 10)),
+      y: opps.map((o) => o.totalDeltaVms),
+      type: 'bar' as const,
+      name: 'Total ΔV',
+      marker: {
+        color: opps.map((o) => (o.tliDateISO === targeting.best?.tliDateISO ? '#10B981' : '#3B82F6')),
+      },
+    }
+  }, [targeting])
 
   return (
     <div className="flex h-full gap-2">
@@ -104,6 +165,60 @@ export default function LunarChart() {
           useResizeHandler
         />
       </div>
+
+      {stabilityTraces && (
+        <div className="flex-1 h-full">
+          <Plot
+            data={stabilityTraces as any}
+            layout={{
+              ...darkLayout,
+              title: { text: 'Lunar Orbit Evolution', font: { size: 11, color: '#9CA3AF' } },
+              xaxis: {
+                title: { text: 'Time (days)', font: { size: 10 } },
+                gridcolor: 'rgba(255,255,255,0.05)',
+                color: '#6B7280',
+              },
+              yaxis: {
+                title: { text: 'Altitude (km)', font: { size: 10 } },
+                gridcolor: 'rgba(255,255,255,0.05)',
+                color: '#6B7280',
+                rangemode: 'tozero' as const,
+              },
+              showlegend: true,
+            }}
+            config={{ displayModeBar: false, responsive: true }}
+            style={{ width: '100%', height: '100%' }}
+            useResizeHandler
+          />
+        </div>
+      )}
+
+      {oppTrace && (
+        <div className="flex-1 h-full">
+          <Plot
+            data={[oppTrace] as any}
+            layout={{
+              ...darkLayout,
+              title: { text: 'Daily TLI Opportunities', font: { size: 11, color: '#9CA3AF' } },
+              xaxis: {
+                title: { text: 'TLI Date (MM-DD)', font: { size: 10 } },
+                gridcolor: 'rgba(255,255,255,0.05)',
+                color: '#6B7280',
+                type: 'category' as const,
+              },
+              yaxis: {
+                title: { text: 'Total ΔV (m/s)', font: { size: 10 } },
+                gridcolor: 'rgba(255,255,255,0.05)',
+                color: '#6B7280',
+              },
+              showlegend: false,
+            }}
+            config={{ displayModeBar: false, responsive: true }}
+            style={{ width: '100%', height: '100%' }}
+            useResizeHandler
+          />
+        </div>
+      )}
     </div>
   )
 }
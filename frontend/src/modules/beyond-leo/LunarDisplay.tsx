@@ -4,11 +4,20 @@ import MetricCard from '@/components/ui/MetricCard'
 import SectionHeader from '@/components/ui/SectionHeader'
 import DataReadout from '@/components/ui/DataReadout'
 import { computeLunarResult } from '@/lib/lunar-transfer'
+import { lunarTargetingMatchesParams } from '@/lib/lunar-targeting'
+import { lunarStabilityMatchesParams } from '@/lib/lunar-stability'
 
 export default function LunarDisplay() {
   const params = useStore((s) => s.beyondLeo.lunarParams)
+  const storedTargeting = useStore((s) => s.lunarTargeting)
+  const storedStability = useStore((s) => s.lunarStability)
+  const stabilityConfig = useStore((s) => s.lunarStabilityConfig)
 
-  const result = useMemo(() => computeLunarResult(params), [params])
+  const targeting = storedTargeting && lunarTargetingMatchesParams(storedTargeting, params) ? storedTargeting : null
+  const targeted = targeting?.targeted ?? null
+  const result = useMemo(() => computeLunarResult(params, targeted), [params, targeted])
+  const showOrbit = params.missionType === 'orbit' || params.missionType === 'landing'
+  const stability = showOrbit && storedStability && lunarStabilityMatchesParams(storedStability, params, stabilityConfig) ? storedStability : null
 
   const propStatus = result.propellantRequiredKg <= params.propellantMassKg
     ? 'nominal'
@@ -78,6 +87,112 @@ export default function LunarDisplay() {
         </SectionHeader>
       )}
 
+      {stability && (
+        <SectionHeader title="Orbit Stability">
+          <div className="grid grid-cols-2 gap-2">
+            {stability.impactDay != null && (
+              <div className="col-span-2 text-[10px] text-amber-400/90 bg-amber-400/10 px-2 py-1.5 rounded">
+                Uncontrolled orbit impacts the surface after {stability.impactDay.toFixed(0)} days
+                ({stability.impactDateISO?.slice(0, 10)})
+              </div>
+            )}
+            <DataReadout
+              label="Lifetime"
+              value={stability.impactDay != null ? stability.impactDay.toFixed(0) : `>${stability.config.durationDays}`}
+              unit="days"
+              status={stability.impactDay == null ? 'nominal' : stability.impactDay < 90 ? 'critical' : 'warning'}
+            />
+            <DataReadout
+              label="Min Periselene"
+              value={Math.max(0, stability.minPeriAltKm).toFixed(1)}
+              unit="km"
+              status={stability.impactDay == null ? 'nominal' : 'warning'}
+            />
+            <DataReadout label="SK ΔV / yr" value={stability.skDvPerYearMs.toFixed(1)} unit="m/s" />
+            <DataReadout label="SK Burns / yr" value={stability.skManeuversPerYear.toFixed(1)} />
+            <DataReadout
+              label="Frozen Inc"
+              value={stability.frozenIncDeg.length > 0 ? stability.frozenIncDeg.join(', ') : '—'}
+              unit="°"
+            />
+            <DataReadout label="Field" value={`${stability.fieldDegree}×${stability.fieldOrder}`} />
+          </div>
+          <p className="text-[9px] text-[var(--text-tertiary)] px-1 mt-1">{stability.fieldSource}</p>
+          {stability.config.maxDegree > stability.fieldDegree && (
+            <p className="text-[9px] text-accent-amber font-mono px-1">
+              Field degree {stability.config.maxDegree} requested; the loaded coefficients stop at degree {stability.fieldDegree}.
+            </p>
+          )}
+          <p className="text-[9px] text-accent-amber font-mono px-1">
+            Zonals to degree {stability.fieldDegree}, tesserals to degree {stability.fieldOrder}; no mascons (degree 50+) — below about
+            100 km, lifetime is optimistic and SK ΔV low. SK burns correct the half-month mean periselene.
+          </p>
+        </SectionHeader>
+      )}
+
+      {targeted && (
+        <SectionHeader title="Targeted Transfer">
+          <div className="grid grid-cols-2 gap-2">
+            <DataReadout label="TLI Epoch" value={targeted.tliDateISO.slice(0, 16).replace('T', ' ')} unit="UTC" />
+            <DataReadout label="Perilune" value={targeted.periluneDateISO.slice(0, 16).replace('T', ' ')} unit="UTC" />
+            <DataReadout
+              label="Perilune Alt"
+              value={targeted.periluneAltKm.toFixed(1)}
+              unit="km"
+              status={targeted.converged ? 'nominal' : 'warning'}
+            />
+            <DataReadout label="Arrival Inc" value={targeted.arrivalIncDeg.toFixed(1)} unit="°" />
+            <DataReadout label="V∞ at Moon" value={targeted.vInfKms.toFixed(3)} unit="km/s" />
+            <DataReadout label="Moon Distance" value={(targeted.moonDistanceKm / 1e3).toFixed(1)} unit="×10³ km" />
+            <DataReadout label="Transfer Inc" value={targeted.transferIncDeg.toFixed(2)} unit="°" />
+            <DataReadout label="Transfer RAAN" value={targeted.raanDeg.toFixed(2)} unit="°" />
+            <DataReadout label="TLI Arg Lat" value={targeted.argLatDeg.toFixed(2)} unit="°" />
+            <DataReadout
+              label="Plane Change"
+              value={targeted.planeChangeDeltaVms.toFixed(0)}
+              unit="m/s"
+              status={targeted.planeChangeDeltaVms > 100 ? 'warning' : 'nominal'}
+            />
+            {targeted.insertionPlaneChangeDeg > 0.1 && (
+              <DataReadout label="LOI Plane Chg" value={targeted.insertionPlaneChangeDeg.toFixed(1)} unit="°" />
+            )}
+            <DataReadout
+              label="Corrector"
+              value={targeted.converged ? `${targeted.iterations} it` : `${targeted.missKm.toFixed(0)} km miss`}
+              status={targeted.converged ? 'nominal' : 'warning'}
+            />
+          </div>
+        </SectionHeader>
+      )}
+
+      {targeting && targeting.opportunities.length > 0 && (
+        <SectionHeader title="Daily Opportunities" defaultOpen={false}>
+          <div className="space-y-0.5 font-mono text-[10px]">
+            <div className="grid grid-cols-4 gap-1 text-[9px] text-[var(--text-tertiary)] px-1">
+              <span>TLI (UTC)</span>
+              <span className="text-right">TOF d</span>
+              <span className="text-right">Plane m/s</span>
+              <span className="text-right">Total m/s</span>
+            </div>
+            {targeting.opportunities.map((o, i) => o ? (
+              <div
+                key={o.tliDateISO}
+                className={`grid grid-cols-4 gap-1 px-1 py-0.5 rounded ${
+                  targeting.best?.tliDateISO === o.tliDateISO ? 'bg-accent-green/10 text-accent-green' : 'text-[var(--text-secondary)]'
+                }`}
+              >
+                <span>{o.tliDateISO.slice(5, 16).replace('T', ' ')}</span>
+                <span className="text-right">{o.flightDays.toFixed(2)}</span>
+                <span className="text-right">{o.planeChangeDeltaVms.toFixed(0)}</span>
+                <span className="text-right">{o.totalDeltaVms.toFixed(0)}</span>
+              </div>
+            ) : (
+              <div key={i} className="px-1 py-0.5 text-[var(--text-tertiary)]">Day {i}: no transfer in flight-time range</div>
+            ))}
+          </div>
+        </SectionHeader>
+      )}
+
       <SectionHeader title="Communications">
         <div className="grid grid-cols-2 gap-2">
           <DataReadout
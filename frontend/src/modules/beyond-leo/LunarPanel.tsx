@@ -1,7 +1,11 @@
 import { useStore } from '@/stores'
 import SectionHeader from '@/components/ui/SectionHeader'
+import NumberInput from '@/components/ui/NumberInput'
 import type { LunarMissionType, LunarTransferType } from '@/types/beyond-leo'
 
+// Truncation of the bundled lunar coefficient file
+const MOON_FIELD_MAX_DEGREE = 7
+
 const MISSION_TYPES: { value: LunarMissionType; label: string }[] = [
   { value: 'orbit', label: 'Orbit Insertion' },
   { value: 'flyby', label: 'Flyby' },
@@ -18,6 +22,19 @@ const TRANSFER_TYPES: { value: LunarTransferType; label: string }[] = [
 export default function LunarPanel() {
   const params = useStore((s) => s.beyondLeo.lunarParams)
   const update = useStore((s) => s.updateLunarParams)
+  const targetingConfig = useStore((s) => s.lunarTargetingConfig)
+  const updateTargetingConfig = useStore((s) => s.updateLunarTargetingConfig)
+  const targeting = useStore((s) => s.lunarTargeting)
+  const targetingProgress = useStore((s) => s.lunarTargetingProgress)
+  const targetingError = useStore((s) => s.lunarTargetingError)
+  const runTargeting = useStore((s) => s.runLunarTargeting)
+  const cancelTargeting = useStore((s) => s.cancelLunarTargeting)
+  const stabilityConfig = useStore((s) => s.lunarStabilityConfig)
+  const updateStabilityConfig = useStore((s) => s.updateLunarStabilityConfig)
+  const stabilityProgress = useStore((s) => s.lunarStabilityProgress)
+  const stabilityError = useStore((s) => s.lunarStabilityError)
+  const runStability = useStore((s) => s.runLunarStability)
+  const cancelStability = useStore((s) => s.cancelLunarStability)
 
   const showOrbitParams = params.missionType === 'orbit' || params.missionType === 'landing'
 
@@ -126,9 +143,259 @@ export default function LunarPanel() {
               <span className="text-[11px] text-[var(--text-secondary)] font-mono w-6">km</span>
             </div>
           </label>
+
+          <label className="flex items-center justify-between">
+            <span className="text-[10px] text-[var(--text-secondary)]">Parking Inc</span>
+            <div className="flex items-center gap-1.5">
+              <NumberInput
+                value={params.parkingOrbitIncDeg}
+                onChange={(v) => update({ parkingOrbitIncDeg: v })}
+                min={0}
+                max={180}
+                step={0.1}
+              />
+              <span className="text-[11px] text-[var(--text-secondary)] font-mono w-6">°</span>
+            </div>
+          </label>
         </div>
       </SectionHeader>
 
+      {params.transferType === 'hohmann' && (
+        <SectionHeader title="TLI Targeting" defaultOpen={false}>
+          <div className="space-y-3">
+            <label className="flex items-center justify-between">
+              <span className="text-[10px] text-[var(--text-secondary)]">Launch Date</span>
+              <input
+                type="date"
+                value={params.launchDateISO.slice(0, 10)}
+                onChange={(e) => update({ launchDateISO: new Date(e.target.value).toISOString() })}
+                className="input-field w-36 text-xs"
+              />
+            </label>
+
+            <label className="flex items-center justify-between">
+              <span className="text-[10px] text-[var(--text-secondary)]">Window</span>
+              <div className="flex items-center gap-1.5">
+                <NumberInput
+                  value={targetingConfig.windowDays}
+                  onChange={(v) => updateTargetingConfig({ windowDays: v })}
+                  min={1}
+                  max={90}
+                  integer
+                />
+                <span className="text-[11px] text-[var(--text-secondary)] font-mono w-6">d</span>
+              </div>
+            </label>
+
+            <label className="flex items-center justify-between">
+              <span className="text-[10px] text-[var(--text-secondary)]">Flight Time</span>
+              <div className="flex items-center gap-1">
+                <NumberInput
+                  value={targetingConfig.minFlightDays}
+                  onChange={(v) => updateTargetingConfig({ minFlightDays: v })}
+                  min={1}
+                  max={targetingConfig.maxFlightDays}
+                  step={0.5}
+                  className="input-field w-14 text-sm font-mono"
+                />
+                <span className="text-[10px] text-[var(--text-tertiary)]">–</span>
+                <NumberInput
+                  value={targetingConfig.maxFlightDays}
+                  onChange={(v) => updateTargetingConfig({ maxFlightDays: v })}
+                  min={targetingConfig.minFlightDays}
+                  max={6}
+                  step={0.5}
+                  className="input-field w-14 text-sm font-mono"
+                />
+                <span className="text-[11px] text-[var(--text-secondary)] font-mono w-6">d</span>
+              </div>
+            </label>
+
+            <button
+              onClick={runTargeting}
+              disabled={targetingProgress != null}
+              className="w-full px-2 py-1.5 rounded text-[10px] font-mono font-medium bg-accent-blue/10 border border-accent-blue/30 text-accent-blue hover:bg-accent-blue/20 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              Target TLI
+            </button>
+            {targetingProgress != null && (
+              <div className="space-y-1">
+                <div className="flex items-center justify-between">
+                  <p className="text-[10px] text-accent-amber animate-pulse">
+                    Scanning launch days... {Math.round(targetingProgress * 100)}%
+                  </p>
+                  <button
+                    onClick={cancelTargeting}
+                    className="text-[9px] px-1.5 py-0.5 rounded border border-white/10 text-[var(--text-tertiary)] hover:text-accent-red hover:border-accent-red/30 transition-all"
+                  >
+                    Cancel
+                  </button>
+                </div>
+                <div className="h-1 rounded bg-white/5 overflow-hidden">
+                  <div
+                    className="h-full bg-accent-amber/60 transition-[width] duration-150"
+                    style={{ width: `${targetingProgress * 100}%` }}
+                  />
+                </div>
+              </div>
+            )}
+            {targetingError && <p className="text-[10px] text-accent-red font-mono">{targetingError}</p>}
+            {targeting?.best && targetingProgress == null && targeting.best.tliDateISO.slice(0, 10) !== params.launchDateISO.slice(0, 10) && (
+              <button
+                onClick={() => update({ launchDateISO: `${targeting.best!.tliDateISO.slice(0, 10)}T00:00:00.000Z` })}
+                className="w-full px-2 py-1.5 rounded text-[10px] font-mono font-medium bg-accent-blue/10 border border-accent-blue/30 text-accent-blue hover:bg-accent-blue/20 transition-colors"
+              >
+                Use Min-ΔV Day ({targeting.best.tliDateISO.slice(0, 10)})
+              </button>
+            )}
+            <p className="text-[9px] text-[var(--text-tertiary)] px-1">
+              Solves the transfer against the ephemeris Moon for each launch day and targets the launch-date
+              opportunity through an Earth + Moon propagation.
+            </p>
+          </div>
+        </SectionHeader>
+      )}
+
+      {showOrbitParams && (
+        <SectionHeader title="Orbit Stability" defaultOpen={false}>
+          <div className="space-y-3">
+            <label className="flex items-center justify-between">
+              <span className="text-[10px] text-[var(--text-secondary)]">Duration</span>
+              <div className="flex items-center gap-1.5">
+                <NumberInput
+                  value={stabilityConfig.durationDays}
+                  onChange={(v) => updateStabilityConfig({ durationDays: v })}
+                  min={10}
+                  max={1095}
+                  integer
+                />
+                <span className="text-[11px] text-[var(--text-secondary)] font-mono w-6">d</span>
+              </div>
+            </label>
+
+            <label className="flex items-center justify-between">
+              <span className="text-[10px] text-[var(--text-secondary)]">Field Degree</span>
+              <div className="flex items-center gap-1.5">
+                <NumberInput
+                  value={stabilityConfig.maxDegree}
+                  onChange={(v) => updateStabilityConfig({ maxDegree: v })}
+                  min={2}
+                  max={MOON_FIELD_MAX_DEGREE}
+                  integer
+                />
+                <span className="text-[11px] text-[var(--text-secondary)] font-mono w-6" />
+              </div>
+            </label>
+            <p className="text-[9px] text-[var(--text-tertiary)] px-1">
+              The bundled field has zonals to degree {MOON_FIELD_MAX_DEGREE} but tesserals only to degree 3, and no mascons.
+            </p>
+
+            <label className="flex items-center justify-between">
+              <span className="text-[10px] text-[var(--text-secondary)]">Node (RAAN)</span>
+              <div className="flex items-center gap-1.5">
+                <NumberInput
+                  value={stabilityConfig.raanDeg}
+                  onChange={(v) => updateStabilityConfig({ raanDeg: v })}
+                  min={0}
+                  max={360}
+                />
+                <span className="text-[11px] text-[var(--text-secondary)] font-mono w-6">°</span>
+              </div>
+            </label>
+
+            <label className="flex items-center justify-between">
+              <span className="text-[10px] text-[var(--text-secondary)]">SK Deadband</span>
+              <div className="flex items-center gap-1.5">
+                <NumberInput
+                  value={stabilityConfig.skDeadbandKm}
+                  onChange={(v) => updateStabilityConfig({ skDeadbandKm: v })}
+                  min={1}
+                  max={params.targetOrbitAltKm}
+                />
+                <span className="text-[11px] text-[var(--text-secondary)] font-mono w-6">km</span>
+              </div>
+            </label>
+
+            <label className="flex items-center justify-between">
+              <span className="text-[10px] text-[var(--text-secondary)]">Frozen Scan</span>
+              <div className="flex items-center gap-1">
+                <NumberInput
+                  value={stabilityConfig.scanStepDeg}
+                  onChange={(v) => updateStabilityConfig({ scanStepDeg: v })}
+                  min={1}
+                  max={30}
+                  className="input-field w-14 text-sm font-mono"
+                />
+                <span className="text-[10px] text-[var(--text-tertiary)]">° /</span>
+                <NumberInput
+                  value={stabilityConfig.scanDays}
+                  onChange={(v) => updateStabilityConfig({ scanDays: v })}
+                  min={5}
+                  max={365}
+                  integer
+                  className="input-field w-14 text-sm font-mono"
+                />
+                <span className="text-[11px] text-[var(--text-secondary)] font-mono w-6">d</span>
+              </div>
+            </label>
+
+            <div className="flex items-center gap-4">
+              <label className="flex items-center gap-1.5 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={stabilityConfig.earthThirdBody}
+                  onChange={(e) => updateStabilityConfig({ earthThirdBody: e.target.checked })}
+                  className="accent-accent-blue w-3 h-3"
+                />
+                <span className="text-[10px] text-[var(--text-secondary)]">Earth</span>
+              </label>
+              <label className="flex items-center gap-1.5 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={stabilityConfig.sunThirdBody}
+                  onChange={(e) => updateStabilityConfig({ sunThirdBody: e.target.checked })}
+                  className="accent-accent-blue w-3 h-3"
+                />
+                <span className="text-[10px] text-[var(--text-secondary)]">Sun</span>
+              </label>
+            </div>
+
+            <button
+              onClick={runStability}
+              disabled={stabilityProgress != null}
+              className="w-full px-2 py-1.5 rounded text-[10px] font-mono font-medium bg-accent-blue/10 border border-accent-blue/30 text-accent-blue hover:bg-accent-blue/20 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              Analyze Stability
+            </button>
+            {stabilityProgress != null && (
+              <div className="space-y-1">
+                <div className="flex items-center justify-between">
+                  <p className="text-[10px] text-accent-amber animate-pulse">
+                    {stabilityProgress < 0.5 ? 'Scanning inclinations' : 'Propagating lunar orbit'}... {Math.round(stabilityProgress * 100)}%
+                  </p>
+                  <button
+                    onClick={cancelStability}
+                    className="text-[9px] px-1.5 py-0.5 rounded border border-white/10 text-[var(--text-tertiary)] hover:text-accent-red hover:border-accent-red/30 transition-all"
+                  >
+                    Cancel
+                  </button>
+                </div>
+                <div className="h-1 rounded bg-white/5 overflow-hidden">
+                  <div
+                    className="h-full bg-accent-amber/60 transition-[width] duration-150"
+                    style={{ width: `${stabilityProgress * 100}%` }}
+                  />
+                </div>
+              </div>
+            )}
+            {stabilityError && <p className="text-[10px] text-accent-red font-mono">{stabilityError}</p>}
+            <p className="text-[9px] text-[var(--text-tertiary)] px-1">
+              Lunar gravity field plus Earth and Sun third-body attraction, starting circular on the launch date.
+            </p>
+          </div>
+        </SectionHeader>
+      )}
+
       <SectionHeader title="Spacecraft" defaultOpen={false}>
         <div className="space-y-3">
           <label className="flex items-center justify-between">
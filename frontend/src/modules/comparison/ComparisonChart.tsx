@@ -1,9 +1,11 @@
 import { useMemo } from 'react'
 import Plot from 'react-plotly.js'
 import { useStore } from '@/stores'
+import TradeStudyChart from './TradeStudyChart'
 
 export default function ComparisonChart() {
   const scenarios = useStore((s) => s.scenarios)
+  const mode = useStore((s) => s.comparisonMode)
 
   const darkLayout = {
     paper_bgcolor: 'transparent',
@@ -59,6 +61,8 @@ export default function ComparisonChart() {
     hovertemplate: '%{x}: %{y:.1f} yr<extra></extra>',
   }))
 
+  if (mode === 'sweep') return <TradeStudyChart />
+
   if (scenarios.length === 0) {
     return (
       <div className="flex items-center justify-center h-full text-[11px] text-[var(--text-tertiary)] italic">
@@ -1,5 +1,6 @@
 import { useStore } from '@/stores'
 import SectionHeader from '@/components/ui/SectionHeader'
+import TradeStudyDisplay from './TradeStudyDisplay'
 
 const STATUS_COLORS = {
   nominal: 'text-accent-green',
@@ -36,6 +37,9 @@ const METRIC_ROWS: MetricRow[] = [
 
 export default function ComparisonDisplay() {
   const scenarios = useStore((s) => s.scenarios)
+  const mode = useStore((s) => s.comparisonMode)
+
+  if (mode === 'sweep') return <TradeStudyDisplay />
 
   if (scenarios.length === 0) {
     return (
@@ -1,17 +1,20 @@
 import { useState } from 'react'
 import { useStore } from '@/stores'
+import { selectActiveTLE } from '@/stores/propagation-slice'
 import SectionHeader from '@/components/ui/SectionHeader'
-import { computePowerAnalysis, totalAvgPowerDraw } from '@/lib/power-budget'
-import { estimateLifetime, checkCompliance, computeBallisticCoefficient } from '@/lib/orbital-lifetime'
-import { computeDeltaVBudget, tsiolkovskyDeltaV } from '@/lib/delta-v'
-import { computeRadiationEnvironment } from '@/lib/radiation'
-import { computeDerivedParams } from '@/lib/orbital-mechanics'
-import { predictPasses, computePassMetrics } from '@/lib/pass-prediction'
-import { R_EARTH_EQUATORIAL } from '@/lib/constants'
+import { totalAvgPowerDraw } from '@/lib/power-budget'
+import { tsiolkovskyDeltaV } from '@/lib/delta-v'
+import { computeScenarioMetrics } from '@/lib/trade-study'
 import { computeLagrangeResult } from '@/lib/lagrange'
 import { computeLunarResult } from '@/lib/lunar-transfer'
 import { computeInterplanetaryResult } from '@/lib/interplanetary'
-import type { ScenarioMetrics, Scenario, BeyondLeoSummary } from '@/stores/comparison-slice'
+import type { Scenario, BeyondLeoSummary, ComparisonMode } from '@/stores/comparison-slice'
+import TradeStudyPanel from './TradeStudyPanel'
+
+const MODES: { value: ComparisonMode; label: string }[] = [
+  { value: 'scenarios', label: 'Scenarios' },
+  { value: 'sweep', label: 'Trade Sweep' },
+]
 
 export default function ComparisonPanel() {
   const [scenarioName, setScenarioName] = useState('')
@@ -26,6 +29,8 @@ export default function ComparisonPanel() {
   const addScenario = useStore((s) => s.addScenario)
   const removeScenario = useStore((s) => s.removeScenario)
   const clearScenarios = useStore((s) => s.clearScenarios)
+  const mode = useStore((s) => s.comparisonMode)
+  const setMode = useStore((s) => s.setComparisonMode)
 
   // Restore a scenario to the active state
   const handleLoad = (scenario: Scenario) => {
@@ -43,36 +48,19 @@ export default function ComparisonPanel() {
     const name = scenarioName.trim() || `Scenario ${scenarios.length + 1}`
 
     // Compute all metrics from current state
-    const avgAlt = elements.semiMajorAxis - R_EARTH_EQUATORIAL
-    const derived = computeDerivedParams(elements)
-    const crossSection = mission.spacecraft.crossSectionArea
-    const bStar = computeBallisticCoefficient(mission.spacecraft.mass, crossSection, mission.spacecraft.dragCoefficient)
-
-    const power = computePowerAnalysis(elements, mission.spacecraft, subsystems, mission.lifetimeTarget)
-    const lifetimeDays = estimateLifetime(avgAlt, bStar, 'moderate')
-    const compliance = checkCompliance(avgAlt, bStar, 'moderate')
-    const passes = predictPasses(elements, mission.epoch, groundStations, 1)
-    const passMetrics = computePassMetrics(passes, 1, mission.spacecraft.dataRate)
-    const dvBudget = computeDeltaVBudget(propulsion, useStore.getState().maneuvers, mission.spacecraft.mass, avgAlt, mission.lifetimeTarget, bStar)
-    const rad = computeRadiationEnvironment(avgAlt, elements.inclination, shieldingMm, mission.lifetimeTarget)
-
-    const metrics: ScenarioMetrics = {
-      periodMin: derived.period / 60,
-      perigeeAlt: derived.periapsisAlt,
-      apogeeAlt: derived.apoapsisAlt,
-      eclipseFraction: derived.eclipseFraction,
-      passesPerDay: passMetrics.totalPassesPerDay,
-      powerMarginBol: power.powerMargin,
-      powerMarginEol: power.eolMargin,
-      batteryDoD: power.batteryDoD,
-      lifetimeDays,
-      compliance25yr: compliance.lifetime25Year,
-      compliance5yr: compliance.lifetime5Year,
-      availableDeltaV: dvBudget.availableDeltaV,
-      annualRadDoseKrad: rad.shieldedDoseKradPerYear,
-      hotCaseC: 0,  // placeholder — would come from thermal module
-      coldCaseC: 0,
-    }
+    const { maneuvers, spaceWeather, solarForecast } = useStore.getState()
+    const metrics = computeScenarioMetrics({
+      elements,
+      mission,
+      subsystems,
+      propulsion,
+      maneuvers,
+      shieldingMm,
+      groundStations,
+      spaceWeather,
+      solarForecast,
+      tle: selectActiveTLE(useStore.getState()),
+    })
 
     // Beyond-LEO summary (optional)
     let beyondLeoSummary: BeyondLeoSummary | undefined
@@ -111,8 +99,38 @@ export default function ComparisonPanel() {
     setScenarioName('')
   }
 
+  const modeTabs = (
+    <div className="flex gap-1 p-1 glass-panel overflow-x-auto">
+      {MODES.map((m) => (
+        <button
+          key={m.value}
+          onClick={() => setMode(m.value)}
+          className={`
+            shrink-0 px-3 py-1.5 rounded text-[10px] font-mono font-medium transition-all duration-150 whitespace-nowrap
+            ${mode === m.value
+              ? 'bg-accent-blue/15 text-accent-blue border border-accent-blue/30'
+              : 'text-[var(--text-tertiary)] hover:text-[var(--text-secondary)] hover:bg-white/5 border border-transparent'
+            }
+          `}
+        >
+          {m.label}
+        </button>
+      ))}
+    </div>
+  )
+
+  if (mode === 'sweep') {
+    return (
+      <div className="space-y-2">
+        {modeTabs}
+        <TradeStudyPanel />
+      </div>
+    )
+  }
+
   return (
     <div className="space-y-2">
+      {modeTabs}
       <SectionHeader title="Save Scenario" defaultOpen={true}>
         <div className="space-y-2">
           <input
@@ -0,0 +1,125 @@
+import Plot from 'react-plotly.js'
+import { useStore } from '@/stores'
+import { SWEEP_VARIABLES, TRADE_METRICS, findBestCell, isFeasible } from '@/lib/trade-study'
+
+const CONSTRAINT_COLORS = ['#EF4444', '#F59E0B', '#10B981', '#8B5CF6', '#EC4899', '#06B6D4']
+
+export default function TradeStudyChart() {
+  const result = useStore((s) => s.tradeStudyResult)
+  const config = useStore((s) => s.tradeStudyConfig)
+
+  if (!result) {
+    return (
+      <div className="flex items-center justify-center h-full text-[11px] text-[var(--text-tertiary)] italic">
+        Run a trade-study sweep to see the heatmap
+      </div>
+    )
+  }
+
+  const darkLayout = {
+    paper_bgcolor: 'transparent',
+    plot_bgcolor: 'transparent',
+    font: { family: 'JetBrains Mono', size: 10, color: '#9CA3AF' },
+    margin: { l: 60, r: 20, t: 30, b: 45 },
+    legend: {
+      font: { size: 9, color: '#9CA3AF' },
+      bgcolor: 'transparent',
+      orientation: 'h' as const,
+      y: 1.12,
+    },
+  }
+
+  const xInfo = SWEEP_VARIABLES[result.x.variable]
+  const yInfo = SWEEP_VARIABLES[result.y.variable]
+  const metricInfo = TRADE_METRICS[config.metric]
+  const axisTitle = (label: string, unit: string) => (unit ? `${label} (${unit})` : label)
+
+  const z = result.cells.map((row) => row.map((cell) => metricInfo.value(cell)))
+  const traces: any[] = [
+    {
+      x: result.x.values,
+      y: result.y.values,
+      z,
+      type: config.plotType,
+      colorscale: 'Viridis',
+      reversescale: metricInfo.higherIsBetter === false,
+      colorbar: {
+        title: { text: metricInfo.unit, side: 'right', font: { size: 9 } },
+        thickness: 10,
+        tickfont: { size: 9 },
+      },
+      ...(config.plotType === 'contour' ? { contours: { showlabels: true, labelfont: { size: 8, color: '#F9FAFB' } } } : {}),
+      name: metricInfo.label,
+      showlegend: false,
+      hovertemplate: `${xInfo.label}: %{x:.3~f}<br>${yInfo.label}: %{y:.3~f}<br>${metricInfo.label}: %{z:.2f} ${metricInfo.unit}<extra></extra>`,
+    },
+  ]
+
+  // Shade cells that violate any enabled constraint
+  const enabled = config.constraints.filter((c) => c.enabled)
+  if (enabled.length > 0) {
+    traces.push({
+      x: result.x.values,
+      y: result.y.values,
+      z: result.cells.map((row) => row.map((cell) => (isFeasible(cell, enabled) ? null : 1))),
+      type: 'heatmap',
+      colorscale: [[0, 'rgba(10,10,15,0.65)'], [1, 'rgba(10,10,15,0.65)']],
+      showscale: false,
+      hoverinfo: 'skip',
+      name: 'Infeasible',
+    })
+  }
+
+  // Each constraint limit as an iso-line of its own metric
+  enabled.forEach((c, i) => {
+    const info = TRADE_METRICS[c.metric]
+    traces.push({
+      x: result.x.values,
+      y: result.y.values,
+      z: result.cells.map((row) => row.map((cell) => info.value(cell))),
+      type: 'contour',
+      contours: { start: c.value, end: c.value, size: 1, coloring: 'none' },
+      line: { color: CONSTRAINT_COLORS[i % CONSTRAINT_COLORS.length], width: 2, dash: 'dash' },
+      showscale: false,
+      showlegend: true,
+      hoverinfo: 'skip',
+      name: `${info.label} ${c.op} ${c.value}${info.unit ? ` ${info.unit}` : ''}`,
+    })
+  })
+
+  const best = findBestCell(result, config.metric, config.constraints)
+  if (best) {
+    traces.push({
+      x: [result.x.values[best.ix]],
+      y: [result.y.values[best.iy]],
+      type: 'scatter',
+      mode: 'markers',
+      marker: { symbol: 'star', size: 12, color: '#F9FAFB', line: { color: '#111827', width: 1 } },
+      name: `Best ${metricInfo.label}`,
+      hovertemplate: `Best: %{x:.3~f}, %{y:.3~f}<br>${metricInfo.label}: ${best.value.toFixed(2)} ${metricInfo.unit}<extra></extra>`,
+    })
+  }
+
+  return (
+    <Plot
+      data={traces}
+      layout={{
+        ...darkLayout,
+        title: { text: `${metricInfo.label} — ${xInfo.label} × ${yInfo.label}`, font: { size: 11, color: '#9CA3AF' } },
+        xaxis: {
+          title: { text: axisTitle(xInfo.label, xInfo.unit), font: { size: 9 } },
+          gridcolor: 'rgba(255,255,255,0.05)',
+          color: '#6B7280',
+        },
+        yaxis: {
+          title: { text: axisTitle(yInfo.label, yInfo.unit), font: { size: 9 } },
+          gridcolor: 'rgba(255,255,255,0.05)',
+          color: '#6B7280',
+        },
+      }}
+      config={{ displayModeBar: false, responsive: true }}
+      style={{ width: '100%', height: '100%' }}
+      useResizeHandler
+    />
+  )
+}
@@ -0,0 +1,88 @@
+import { useStore } from '@/stores'
+import SectionHeader from '@/components/ui/SectionHeader'
+import DataReadout from '@/components/ui/DataReadout'
+import { SWEEP_VARIABLES, TRADE_METRICS, TRADE_METRIC_IDS, findBestCell, isFeasible, satisfiesConstraint } from '@/lib/trade-study'
+
+function formatValue(v: number): string {
+  const abs = Math.abs(v)
+  return abs >= 100 ? v.toFixed(0) : abs >= 1 ? v.toFixed(2) : v.toFixed(3)
+}
+
+export default function TradeStudyDisplay() {
+  const result = useStore((s) => s.tradeStudyResult)
+  const config = useStore((s) => s.tradeStudyConfig)
+
+  if (!result) {
+    return (
+      <div className="flex items-center justify-center h-full text-[11px] text-[var(--text-tertiary)] italic p-4 text-center">
+        Pick two inputs to sweep in the left panel and run the sweep to map the trade space.
+      </div>
+    )
+  }
+
+  const xInfo = SWEEP_VARIABLES[result.x.variable]
+  const yInfo = SWEEP_VARIABLES[result.y.variable]
+  const cells = result.cells.flat()
+  const feasibleCount = cells.filter((c) => isFeasible(c, config.constraints)).length
+  const feasibleFraction = feasibleCount / Math.max(1, cells.length)
+  const metricInfo = TRADE_METRICS[config.metric]
+  const best = findBestCell(result, config.metric, config.constraints)
+  const bestCell = best ? result.cells[best.iy][best.ix] : null
+
+  return (
+    <div className="space-y-3">
+      <SectionHeader title="Feasible Region" defaultOpen={true}>
+        <div className="grid grid-cols-2 gap-2">
+          <DataReadout
+            label="Feasible Cells"
+            value={`${feasibleCount} / ${cells.length}`}
+            status={feasibleFraction > 0.5 ? 'nominal' : feasibleFraction > 0 ? 'warning' : 'critical'}
+          />
+          <DataReadout label="Feasible" value={(feasibleFraction * 100).toFixed(0)} unit="%" />
+        </div>
+        <div className="space-y-1">
+          {config.constraints.filter((c) => c.enabled).map((c) => {
+            const passing = cells.filter((cell) => satisfiesConstraint(cell, c)).length
+            return (
+              <div key={c.id} className="flex items-center justify-between text-[10px]">
+                <span className="text-[var(--text-secondary)]">
+                  {TRADE_METRICS[c.metric].label} {c.op} {c.value} {TRADE_METRICS[c.metric].unit}
+                </span>
+                <span className="font-mono text-[var(--text-primary)]">{passing}/{cells.length}</span>
+              </div>
+            )
+          })}
+        </div>
+      </SectionHeader>
+
+      <SectionHeader title={`Best Feasible ${metricInfo.label}`} defaultOpen={true}>
+        {best && bestCell ? (
+          <div className="space-y-2">
+            <div className="grid grid-cols-2 gap-2">
+              <DataReadout label={xInfo.label} value={formatValue(result.x.values[best.ix])} unit={xInfo.unit} />
+              <DataReadout label={yInfo.label} value={formatValue(result.y.values[best.iy])} unit={yInfo.unit} />
+            </div>
+            <table className="w-full text-[10px]">
+              <tbody>
+                {TRADE_METRIC_IDS.map((id) => (
+                  <tr key={id} className="border-b border-white/5 hover:bg-white/[0.02]">
+                    <td className="py-1 px-1 text-[var(--text-secondary)]">{TRADE_METRICS[id].label}</td>
+                    <td className={`py-1 px-1 text-right font-mono ${
+                      id === config.metric ? 'text-accent-green font-semibold' : 'text-[var(--text-primary)]'
+                    }`}>
+                      {formatValue(TRADE_METRICS[id].value(bestCell))} {TRADE_METRICS[id].unit}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <div className="text-[10px] text-accent-red italic">
+            No cell satisfies every enabled constraint.
+          </div>
+        )}
+      </SectionHeader>
+    </div>
+  )
+}
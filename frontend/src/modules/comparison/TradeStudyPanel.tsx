@@ -0,0 +1,216 @@
+import { useStore } from '@/stores'
+import SectionHeader from '@/components/ui/SectionHeader'
+import NumberInput from '@/components/ui/NumberInput'
+import { SWEEP_VARIABLES, SWEEP_VARIABLE_IDS, TRADE_METRICS, TRADE_METRIC_IDS } from '@/lib/trade-study'
+import type { SweepVariableId, TradeMetricId, TradeStudyConfig } from '@/lib/trade-study'
+
+const MAX_STEPS = 40
+
+function AxisEditor({ axis, title }: { axis: 'x' | 'y'; title: string }) {
+  const config = useStore((s) => s.tradeStudyConfig[axis])
+  const other = useStore((s) => s.tradeStudyConfig[axis === 'x' ? 'y' : 'x'].variable)
+  const updateSweepAxis = useStore((s) => s.updateSweepAxis)
+  const info = SWEEP_VARIABLES[config.variable]
+
+  const numberField = (key: 'min' | 'max' | 'steps', label: string) => (
+    <label className="flex flex-col gap-0.5">
+      <span className="text-[9px] text-[var(--text-tertiary)] font-mono">{label}</span>
+      <NumberInput
+        value={config[key]}
+        min={key === 'steps' ? 2 : info.limits[0]}
+        max={key === 'steps' ? MAX_STEPS : info.limits[1]}
+        integer={key === 'steps'}
+        onChange={(v) => updateSweepAxis(axis, { [key]: v })}
+        className="input-field w-full text-[10px] font-mono"
+      />
+    </label>
+  )
+
+  return (
+    <div className="space-y-1.5">
+      <label className="flex items-center justify-between">
+        <span className="text-[10px] text-[var(--text-secondary)]">{title}</span>
+        <select
+          value={config.variable}
+          onChange={(e) => {
+            const variable = e.target.value as SweepVariableId
+            const v = SWEEP_VARIABLES[variable]
+            updateSweepAxis(axis, { variable, min: v.min, max: v.max })
+          }}
+          className="input-field w-36 text-xs"
+        >
+          {SWEEP_VARIABLE_IDS.map((id) => (
+            <option key={id} value={id} disabled={id === other}>
+              {SWEEP_VARIABLES[id].label}
+            </option>
+          ))}
+        </select>
+      </label>
+      <div className="grid grid-cols-3 gap-1.5">
+        {numberField('min', `Min${info.unit ? ` (${info.unit})` : ''}`)}
+        {numberField('max', `Max${info.unit ? ` (${info.unit})` : ''}`)}
+        {numberField('steps', 'Steps')}
+      </div>
+    </div>
+  )
+}
+
+export default function TradeStudyPanel() {
+  const config = useStore((s) => s.tradeStudyConfig)
+  const progress = useStore((s) => s.tradeStudyProgress)
+  const error = useStore((s) => s.tradeStudyError)
+  const updateTradeStudyConfig = useStore((s) => s.updateTradeStudyConfig)
+  const addTradeConstraint = useStore((s) => s.addTradeConstraint)
+  const updateTradeConstraint = useStore((s) => s.updateTradeConstraint)
+  const removeTradeConstraint = useStore((s) => s.removeTradeConstraint)
+  const runTradeStudy = useStore((s) => s.runTradeStudy)
+  const cancelTradeStudy = useStore((s) => s.cancelTradeStudy)
+
+  const handleRun = () => {
+    const state = useStore.getState()
+    runTradeStudy({
+      elements: state.elements,
+      mission: state.mission,
+      subsystems: state.subsystems,
+      propulsion: state.propulsion,
+      maneuvers: state.maneuvers,
+      shieldingMm: state.shieldingThicknessMm,
+      groundStations: state.groundStations,
+      spaceWeather: state.spaceWeather,
+      solarForecast: state.solarForecast,
+    })
+  }
+
+  const cellCount = Math.round(config.x.steps) * Math.round(config.y.steps)
+  const sameVariable = config.x.variable === config.y.variable
+
+  return (
+    <div className="space-y-2">
+      <SectionHeader title="Sweep Axes" defaultOpen={true}>
+        <AxisEditor axis="x" title="X Axis" />
+        <AxisEditor axis="y" title="Y Axis" />
+        <button
+          onClick={handleRun}
+          disabled={progress != null || sameVariable}
+          className="w-full px-2 py-1.5 rounded text-[10px] font-mono font-medium bg-accent-blue/10 border border-accent-blue/30 text-accent-blue hover:bg-accent-blue/20 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          {sameVariable ? 'Choose Two Different Inputs' : `Run Sweep (${cellCount} cells)`}
+        </button>
+        {progress != null && (
+          <div className="space-y-1">
+            <div className="flex items-center justify-between">
+              <p className="text-[10px] text-accent-amber animate-pulse">
+                Sweeping... {Math.round(progress * 100)}%
+              </p>
+              <button
+                onClick={cancelTradeStudy}
+                className="text-[9px] px-1.5 py-0.5 rounded border border-white/10 text-[var(--text-tertiary)] hover:text-accent-red hover:border-accent-red/30 transition-all"
+              >
+                Cancel
+              </button>
+            </div>
+            <div className="h-1 rounded bg-white/5 overflow-hidden">
+              <div
+                className="h-full bg-accent-amber/60 transition-[width] duration-150"
+                style={{ width: `${progress * 100}%` }}
+              />
+            </div>
+          </div>
+        )}
+        {error && <p className="text-[10px] text-accent-red font-mono">{error}</p>}
+        <p className="text-[9px] text-[var(--text-tertiary)] italic">
+          All other inputs are taken from the current mission configuration.
+        </p>
+      </SectionHeader>
+
+      <SectionHeader title="Plot" defaultOpen={true}>
+        <label className="flex items-center justify-between">
+          <span className="text-[10px] text-[var(--text-secondary)]">Metric</span>
+          <select
+            value={config.metric}
+            onChange={(e) => updateTradeStudyConfig({ metric: e.target.value as TradeMetricId })}
+            className="input-field w-36 text-xs"
+          >
+            {TRADE_METRIC_IDS.map((id) => (
+              <option key={id} value={id}>{TRADE_METRICS[id].label}</option>
+            ))}
+          </select>
+        </label>
+        <div className="flex gap-1">
+          {(['heatmap', 'contour'] as TradeStudyConfig['plotType'][]).map((type) => (
+            <button
+              key={type}
+              onClick={() => updateTradeStudyConfig({ plotType: type })}
+              className={`flex-1 px-1.5 py-1 rounded text-[10px] font-mono border transition-all ${
+                config.plotType === type
+                  ? 'bg-accent-blue/15 text-accent-blue border-accent-blue/30'
+                  : 'text-[var(--text-secondary)] border-white/10 hover:bg-white/5'
+              }`}
+            >
+              {type === 'heatmap' ? 'Heatmap' : 'Contour'}
+            </button>
+          ))}
+        </div>
+      </SectionHeader>
+
+      <SectionHeader title={`Constraints (${config.constraints.length})`} defaultOpen={true}>
+        <div className="space-y-1.5">
+          {config.constraints.map((c) => (
+            <div key={c.id} className="flex items-center gap-1 group">
+              <input
+                type="checkbox"
+                checked={c.enabled}
+                onChange={(e) => updateTradeConstraint(c.id, { enabled: e.target.checked })}
+                className="accent-accent-blue w-3 h-3"
+              />
+              <select
+                value={c.metric}
+                onChange={(e) => updateTradeConstraint(c.id, { metric: e.target.value as TradeMetricId })}
+                className="input-field flex-1 min-w-0 text-[10px]"
+              >
+                {TRADE_METRIC_IDS.map((id) => (
+                  <option key={id} value={id}>{TRADE_METRICS[id].label}</option>
+                ))}
+              </select>
+              <select
+                value={c.op}
+                onChange={(e) => updateTradeConstraint(c.id, { op: e.target.value as '<' | '>' })}
+                className="input-field w-10 text-[10px] font-mono"
+              >
+                <option value=">">&gt;</option>
+                <option value="<">&lt;</option>
+              </select>
+              <input
+                type="number"
+                value={c.value}
+                onChange={(e) => {
+                  const v = parseFloat(e.target.value)
+                  if (Number.isFinite(v)) updateTradeConstraint(c.id, { value: v })
+                }}
+                className="input-field w-14 text-[10px] font-mono"
+              />
+              <span className="w-9 text-[9px] text-[var(--text-tertiary)] font-mono truncate">
+                {TRADE_METRICS[c.metric].unit}
+              </span>
+              <button
+                onClick={() => removeTradeConstraint(c.id)}
+                className="px-1 text-[9px] text-accent-red/50 hover:text-accent-red transition-colors opacity-0 group-hover:opacity-100"
+              >
+                ✕
+              </button>
+            </div>
+          ))}
+          <button
+            onClick={() => addTradeConstraint({ metric: 'passesPerDay', op: '>', value: 4, enabled: true })}
+            className="w-full px-2 py-1 rounded text-[10px] font-sans border border-white/10 text-[var(--text-secondary)] hover:border-accent-blue/40 hover:text-accent-blue transition-all"
+          >
+            + Add Constraint
+          </button>
+          <p className="text-[9px] text-[var(--text-tertiary)] italic">
+            Cells violating an enabled constraint are shaded; each limit is drawn as a contour line.
+          </p>
+        </div>
+      </SectionHeader>
+    </div>
+  )
+}
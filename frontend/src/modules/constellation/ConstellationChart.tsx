@@ -5,10 +5,13 @@ import { generateWalkerConstellation } from '@/lib/constellation'
 import { keplerianToCartesian, ecefToGeodetic, eciToEcef } from '@/lib/coordinate-transforms'
 import { MU_EARTH_KM, R_EARTH_EQUATORIAL } from '@/lib/constants'
 import { dateToGMST } from '@/lib/time-utils'
+import { COVERAGE_MAP_METRICS, coverageMapValues } from '@/lib/coverage'
 
 export default function ConstellationChart() {
   const storeParams = useStore((s) => s.walkerParams)
   const elements = useStore((s) => s.elements)
+  const coverage = useStore((s) => s.coverageResult)
+  const mapMetric = useStore((s) => s.coverageMapMetric)
 
   const params = useMemo(() => {
     if (storeParams.syncWithOrbit) {
@@ -87,47 +90,173 @@ export default function ConstellationChart() {
     hoverinfo: 'text',
   }
 
+  // Coverage grid as square markers beneath the tracks
+  const coverageTrace: any = useMemo(() => {
+    if (!coverage) return null
+    const info = COVERAGE_MAP_METRICS[mapMetric]
+    const values = coverageMapValues(coverage, mapMetric)
+    const lats: number[] = []
+    const lons: number[] = []
+    coverage.latitudes.forEach((lat) => coverage.longitudes.forEach((lon) => {
+      lats.push(lat)
+      lons.push(lon)
+    }))
+    return {
+      type: 'scattergeo',
+      lat: lats,
+      lon: lons,
+      mode: 'markers',
+      name: info.label,
+      marker: {
+        symbol: 'square',
+        size: Math.max(3, 40 / coverage.config.gridResolutionDeg),
+        color: values.map((v) => (Number.isFinite(v) ? v : null)),
+        colorscale: 'Viridis',
+        reversescale: info.lowerIsBetter,
+        cmin: mapMetric === 'coverage' ? 0 : undefined,
+        cmax: mapMetric === 'coverage' ? 100 : undefined,
+        opacity: 0.55,
+        colorbar: {
+          title: { text: info.unit, side: 'right', font: { size: 9 } },
+          thickness: 8,
+          len: 0.8,
+          tickfont: { size: 8 },
+          x: 1,
+        },
+      },
+      text: values.map((v, k) =>
+        `${coverage.latitudes[Math.floor(k / coverage.longitudes.length)].toFixed(1)}°, ${coverage.longitudes[k % coverage.longitudes.length].toFixed(1)}°<br>` +
+        `${info.label}: ${Number.isFinite(v) ? v.toFixed(1) : '—'} ${info.unit}`,
+      ),
+      hoverinfo: 'text',
+    }
+  }, [coverage, mapMetric])
+
+  // Per-latitude statistics
+  const latitudeTraces: any[] = useMemo(() => {
+    if (!coverage) return []
+    const lats = coverage.byLatitude.map((b) => b.lat)
+    const toMin = (sec: number) => (Number.isFinite(sec) ? sec / 60 : null)
+    return [
+      {
+        x: coverage.byLatitude.map((b) => b.coverageFraction * 100),
+        y: lats,
+        type: 'scatter',
+        mode: 'lines',
+        name: 'Coverage (%)',
+        line: { color: '#10B981', width: 2 },
+        hovertemplate: '%{y:.1f}°: %{x:.1f}%<extra>Coverage</extra>',
+      },
+      {
+        x: coverage.byLatitude.map((b) => toMin(b.meanRevisitSec)),
+        y: lats,
+        type: 'scatter',
+        mode: 'lines',
+        name: 'Mean revisit (min)',
+        xaxis: 'x2',
+        line: { color: '#3B82F6', width: 1.5 },
+        hovertemplate: '%{y:.1f}°: %{x:.1f} min<extra>Mean revisit</extra>',
+      },
+      {
+        x: coverage.byLatitude.map((b) => toMin(b.maxGapSec)),
+        y: lats,
+        type: 'scatter',
+        mode: 'lines',
+        name: 'Max gap (min)',
+        xaxis: 'x2',
+        line: { color: '#F59E0B', width: 1.5, dash: 'dash' },
+        hovertemplate: '%{y:.1f}°: %{x:.1f} min<extra>Max gap</extra>',
+      },
+    ]
+  }, [coverage])
+
   return (
-    <div className="h-full">
-      <Plot
-        data={[...planeTraces, satTrace]}
-        layout={{
-          paper_bgcolor: 'transparent',
-          plot_bgcolor: 'transparent',
-          font: { family: 'JetBrains Mono', size: 10, color: '#9CA3AF' },
-          margin: { l: 0, r: 0, t: 30, b: 0 },
-          title: {
-            text: `Walker ${params.type === 'delta' ? 'Delta' : 'Star'} ${params.totalSats}/${params.planes}/${params.phasing} — Subsatellite Points`,
-            font: { size: 11, color: '#9CA3AF' },
-          },
-          geo: {
-            bgcolor: 'transparent',
-            showland: true,
-            landcolor: '#1F2937',
-            showocean: true,
-            oceancolor: '#111827',
-            showcoastlines: true,
-            coastlinecolor: '#374151',
-            showlakes: false,
-            showcountries: true,
-            countrycolor: '#374151',
-            showframe: false,
-            projection: { type: 'natural earth' },
-            lataxis: { gridcolor: 'rgba(255,255,255,0.05)' },
-            lonaxis: { gridcolor: 'rgba(255,255,255,0.05)' },
-          },
-          legend: {
-            font: { size: 8, color: '#6B7280' },
-            bgcolor: 'transparent',
-            orientation: 'h',
-            y: -0.05,
-          },
-          showlegend: false,
-        }}
-        config={{ displayModeBar: false, responsive: true }}
-        style={{ width: '100%', height: '100%' }}
-        useResizeHandler
-      />
+    <div className="flex h-full gap-2">
+      <div className="flex-[3] h-full min-w-0">
+        <Plot
+          data={coverageTrace ? [coverageTrace, ...planeTraces, satTrace] : [...planeTraces, satTrace]}
+          layout={{
+            paper_bgcolor: 'transparent',
+            plot_bgcolor: 'transparent',
+            font: { family: 'JetBrains Mono', size: 10, color: '#9CA3AF' },
+            margin: { l: 0, r: 0, t: 30, b: 0 },
+            title: {
+              text: `Walker ${params.type === 'delta' ? 'Delta' : 'Star'} ${params.totalSats}/${params.planes}/${params.phasing} — Subsatellite Points`,
+              font: { size: 11, color: '#9CA3AF' },
+            },
+            geo: {
+              bgcolor: 'transparent',
+              showland: true,
+              landcolor: '#1F2937',
+              showocean: true,
+              oceancolor: '#111827',
+              showcoastlines: true,
+              coastlinecolor: '#374151',
+              showlakes: false,
+              showcountries: true,
+              countrycolor: '#374151',
+              showframe: false,
+              projection: { type: 'natural earth' },
+              lataxis: { gridcolor: 'rgba(255,255,255,0.05)' },
+              lonaxis: { gridcolor: 'rgba(255,255,255,0.05)' },
+            },
+            legend: {
+              font: { size: 8, color: '#6B7280' },
+              bgcolor: 'transparent',
+              orientation: 'h',
+              y: -0.05,
+            },
+            showlegend: false,
+          }}
+          config={{ displayModeBar: false, responsive: true }}
+          style={{ width: '100%', height: '100%' }}
+          useResizeHandler
+        />
+      </div>
+      {coverage && (
+        <div className="flex-1 h-full min-w-0">
+          <Plot
+            data={latitudeTraces}
+            layout={{
+              paper_bgcolor: 'transparent',
+              plot_bgcolor: 'transparent',
+              font: { family: 'JetBrains Mono', size: 10, color: '#9CA3AF' },
+              margin: { l: 40, r: 10, t: 50, b: 40 },
+              title: { text: 'Coverage by Latitude', font: { size: 11, color: '#9CA3AF' } },
+              xaxis: {
+                title: { text: 'Coverage (%)', font: { size: 9 } },
+                range: [0, 100],
+                gridcolor: 'rgba(255,255,255,0.05)',
+                color: '#10B981',
+              },
+              xaxis2: {
+                title: { text: 'Time (min)', font: { size: 9 } },
+                overlaying: 'x',
+                side: 'top',
+                rangemode: 'tozero',
+                showgrid: false,
+                color: '#3B82F6',
+              },
+              yaxis: {
+                title: { text: 'Latitude (°)', font: { size: 9 } },
+                range: [-90, 90],
+                gridcolor: 'rgba(255,255,255,0.05)',
+                color: '#6B7280',
+              },
+              legend: {
+                font: { size: 8, color: '#9CA3AF' },
+                bgcolor: 'transparent',
+                orientation: 'h',
+                y: -0.2,
+              },
+              showlegend: true,
+            }}
+            config={{ displayModeBar: false, responsive: true }}
+            style={{ width: '100%', height: '100%' }}
+            useResizeHandler
+          />
+        </div>
+      )}
     </div>
   )
 }
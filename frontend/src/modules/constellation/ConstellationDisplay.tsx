@@ -5,10 +5,15 @@ import SectionHeader from '@/components/ui/SectionHeader'
 import { computeConstellationMetrics } from '@/lib/constellation'
 import { R_EARTH_EQUATORIAL } from '@/lib/constants'
 
+function formatMinutes(sec: number): string {
+  return Number.isFinite(sec) ? (sec / 60).toFixed(1) : '\u2014'
+}
+
 export default function ConstellationDisplay() {
   const mission = useStore((s) => s.mission)
   const storeParams = useStore((s) => s.walkerParams)
   const elements = useStore((s) => s.elements)
+  const coverage = useStore((s) => s.coverageResult)
 
   const params = useMemo(() => {
     if (storeParams.syncWithOrbit) {
@@ -84,6 +89,69 @@ export default function ConstellationDisplay() {
         </div>
       </SectionHeader>
 
+      {coverage && (
+        <SectionHeader title="Grid Coverage">
+          <div className="grid grid-cols-2 gap-2">
+            <DataReadout
+              label="Mean Coverage"
+              value={(coverage.summary.meanCoverageFraction * 100).toFixed(1)}
+              unit="%"
+              status={coverage.summary.meanCoverageFraction >= 0.9 ? 'nominal' : coverage.summary.meanCoverageFraction >= 0.5 ? 'warning' : 'critical'}
+            />
+            <DataReadout
+              label="Area Reached"
+              value={(coverage.summary.coveredAreaFraction * 100).toFixed(1)}
+              unit="%"
+            />
+            <DataReadout
+              label="Continuous"
+              value={(coverage.summary.continuousAreaFraction * 100).toFixed(1)}
+              unit="% area"
+            />
+            <DataReadout
+              label="Mean Revisit"
+              value={formatMinutes(coverage.summary.meanRevisitSec)}
+              unit="min"
+            />
+            <DataReadout
+              label="Max Revisit"
+              value={formatMinutes(coverage.summary.maxRevisitSec)}
+              unit="min"
+            />
+            <DataReadout
+              label="Max Gap"
+              value={formatMinutes(coverage.summary.maxGapSec)}
+              unit="min"
+            />
+          </div>
+          <div className="text-[9px] text-[var(--text-tertiary)] font-mono px-1">
+            {coverage.config.gridResolutionDeg}° grid · {coverage.config.durationHours} h @ {coverage.config.stepSec} s ·
+            {' '}el ≥ {coverage.config.minElevationDeg}°
+            {coverage.config.sensorHalfAngleDeg != null && ` · cone ${coverage.config.sensorHalfAngleDeg}°`}
+          </div>
+          <table className="w-full text-[10px]">
+            <thead>
+              <tr className="border-b border-white/10">
+                {['Lat', 'Cov %', 'Revisit', 'Max Gap'].map((h) => (
+                  <th key={h} className="text-right py-1 px-1 text-[var(--text-tertiary)] font-normal uppercase tracking-wider">{h}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {[...coverage.byLatitude].reverse().filter((_, i, arr) => arr.length <= 18 || i % Math.ceil(arr.length / 18) === 0).map((b) => (
+                <tr key={b.lat} className="border-b border-white/5 hover:bg-white/[0.02]">
+                  <td className="py-0.5 px-1 text-right font-mono text-[var(--text-secondary)]">{b.lat.toFixed(1)}°</td>
+                  <td className="py-0.5 px-1 text-right font-mono text-[var(--text-primary)]">{(b.coverageFraction * 100).toFixed(1)}</td>
+                  <td className="py-0.5 px-1 text-right font-mono text-[var(--text-primary)]">{formatMinutes(b.meanRevisitSec)}</td>
+                  <td className="py-0.5 px-1 text-right font-mono text-[var(--text-primary)]">{formatMinutes(b.maxGapSec)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <div className="text-[9px] text-[var(--text-tertiary)] italic px-1">Revisit and gap times in minutes.</div>
+        </SectionHeader>
+      )}
+
       <SectionHeader title="Deployment Notes">
         <div className="text-[10px] text-[var(--text-tertiary)] leading-relaxed space-y-2">
           <p>
@@ -13,6 +13,13 @@ import {
 } from '@/lib/constellation'
 import { R_EARTH_EQUATORIAL } from '@/lib/constants'
 import { exportCSV } from '@/lib/csv-export'
+import { COVERAGE_MAP_METRICS, type CoverageMapMetric } from '@/lib/coverage'
+
+const MAP_METRICS = Object.keys(COVERAGE_MAP_METRICS) as CoverageMapMetric[]
+
+function sameParams(a: WalkerParams, b: WalkerParams): boolean {
+  return (Object.keys(a) as (keyof WalkerParams)[]).every((k) => k === 'syncWithOrbit' || a[k] === b[k])
+}
 
 export default function ConstellationPanel() {
   const mission = useStore((s) => s.mission)
@@ -20,6 +27,15 @@ export default function ConstellationPanel() {
   const params = useStore((s) => s.walkerParams)
   const updateWalkerParams = useStore((s) => s.updateWalkerParams)
   const setWalkerParams = useStore((s) => s.setWalkerParams)
+  const coverageConfig = useStore((s) => s.coverageConfig)
+  const coverageProgress = useStore((s) => s.coverageProgress)
+  const coverageError = useStore((s) => s.coverageError)
+  const coverageRunParams = useStore((s) => s.coverageRunParams)
+  const coverageMapMetric = useStore((s) => s.coverageMapMetric)
+  const updateCoverageConfig = useStore((s) => s.updateCoverageConfig)
+  const setCoverageMapMetric = useStore((s) => s.setCoverageMapMetric)
+  const runCoverage = useStore((s) => s.runCoverage)
+  const cancelCoverage = useStore((s) => s.cancelCoverage)
 
   // When synced with orbit tab, use orbit tab's altitude and inclination
   const orbitAltitude = Math.round(elements.semiMajorAxis - R_EARTH_EQUATORIAL)
@@ -136,6 +152,118 @@ export default function ConstellationPanel() {
         </div>
       </SectionHeader>
 
+      <SectionHeader title="Coverage Analysis">
+        <div className="space-y-2">
+          <SliderInput
+            label="Grid Resolution"
+            value={coverageConfig.gridResolutionDeg}
+            onChange={(v) => updateCoverageConfig({ gridResolutionDeg: v })}
+            min={1}
+            max={15}
+            step={1}
+            unit={"\u00B0"}
+            precision={0}
+          />
+          <SliderInput
+            label="Duration"
+            value={coverageConfig.durationHours}
+            onChange={(v) => updateCoverageConfig({ durationHours: v })}
+            min={1}
+            max={168}
+            step={1}
+            unit="h"
+            precision={0}
+          />
+          <SliderInput
+            label="Time Step"
+            value={coverageConfig.stepSec}
+            onChange={(v) => updateCoverageConfig({ stepSec: v })}
+            min={10}
+            max={600}
+            step={10}
+            unit="s"
+            precision={0}
+          />
+          <SliderInput
+            label="Min Elevation"
+            value={coverageConfig.minElevationDeg}
+            onChange={(v) => updateCoverageConfig({ minElevationDeg: v })}
+            min={0}
+            max={60}
+            step={1}
+            unit={"\u00B0"}
+            precision={0}
+          />
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={coverageConfig.sensorHalfAngleDeg != null}
+              onChange={(e) => updateCoverageConfig({ sensorHalfAngleDeg: e.target.checked ? 45 : null })}
+              className="accent-accent-blue w-3 h-3"
+            />
+            <span className="text-[10px] text-[var(--text-secondary)]">Limit by sensor cone</span>
+          </label>
+          {coverageConfig.sensorHalfAngleDeg != null && (
+            <SliderInput
+              label="Sensor Half-Angle"
+              value={coverageConfig.sensorHalfAngleDeg}
+              onChange={(v) => updateCoverageConfig({ sensorHalfAngleDeg: v })}
+              min={1}
+              max={89}
+              step={1}
+              unit={"\u00B0"}
+              precision={0}
+            />
+          )}
+          <button
+            onClick={() => runCoverage(effectiveParams, mission.epoch)}
+            disabled={coverageProgress != null}
+            className="w-full px-2 py-1.5 rounded text-[10px] font-mono font-medium bg-accent-blue/10 border border-accent-blue/30 text-accent-blue hover:bg-accent-blue/20 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            Compute Coverage
+          </button>
+          {coverageProgress != null && (
+            <div className="space-y-1">
+              <div className="flex items-center justify-between">
+                <p className="text-[10px] text-accent-amber animate-pulse">
+                  Computing... {Math.round(coverageProgress * 100)}%
+                </p>
+                <button
+                  onClick={cancelCoverage}
+                  className="text-[9px] px-1.5 py-0.5 rounded border border-white/10 text-[var(--text-tertiary)] hover:text-accent-red hover:border-accent-red/30 transition-all"
+                >
+                  Cancel
+                </button>
+              </div>
+              <div className="h-1 rounded bg-white/5 overflow-hidden">
+                <div
+                  className="h-full bg-accent-amber/60 transition-[width] duration-150"
+                  style={{ width: `${coverageProgress * 100}%` }}
+                />
+              </div>
+            </div>
+          )}
+          {coverageError && <p className="text-[10px] text-accent-red font-mono">{coverageError}</p>}
+          {coverageRunParams && coverageProgress == null && !sameParams(coverageRunParams, effectiveParams) && (
+            <p className="text-[9px] text-accent-amber font-mono px-1">
+              Constellation changed since the last run — recompute to update.
+            </p>
+          )}
+          <label className="flex items-center justify-between">
+            <span className="text-[10px] text-[var(--text-secondary)]">Map</span>
+            <select
+              value={coverageMapMetric}
+              onChange={(e) => setCoverageMapMetric(e.target.value as CoverageMapMetric)}
+              className="input-field w-28 text-xs"
+            >
+              {MAP_METRICS.map((m) => (
+                <option key={m} value={m}>{COVERAGE_MAP_METRICS[m].label}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+      </SectionHeader>
+
       <SectionHeader title="Constellation Metrics" actions={
         <ExportCSVButton onClick={() => {
           const sats = generateWalkerConstellation(effectiveParams)
@@ -0,0 +1,166 @@
+import { useStore } from '@/stores'
+import SectionHeader from '@/components/ui/SectionHeader'
+import NumberInput from '@/components/ui/NumberInput'
+import { DEFAULT_PLANNED_BURN } from '@/types/propulsion'
+import type { BurnTrigger, BurnFrame, BurnModel, PlannedBurn } from '@/types/propulsion'
+
+const TRIGGER_LABELS: Record<BurnTrigger, string> = {
+  'epoch': 'At Time',
+  'perigee': 'Perigee',
+  'apogee': 'Apogee',
+  'ascending-node': 'Asc. Node',
+  'descending-node': 'Desc. Node',
+}
+
+const FRAME_AXES: Record<BurnFrame, [string, string, string]> = {
+  rtn: ['R', 'T', 'N'],
+  vnb: ['V', 'N', 'B'],
+}
+
+function BurnEditor({ burn }: { burn: PlannedBurn }) {
+  const updatePlannedBurn = useStore((s) => s.updatePlannedBurn)
+  const removePlannedBurn = useStore((s) => s.removePlannedBurn)
+  const update = (partial: Partial<PlannedBurn>) => updatePlannedBurn(burn.id, partial)
+
+  const setAxis = (axis: number, value: number) => {
+    const direction = [...burn.direction] as PlannedBurn['direction']
+    direction[axis] = value
+    update({ direction })
+  }
+
+  return (
+    <div className={`space-y-1.5 p-1.5 rounded border border-white/5 ${burn.enabled ? '' : 'opacity-50'}`}>
+      <div className="flex items-center gap-1.5">
+        <input
+          type="checkbox"
+          checked={burn.enabled}
+          onChange={(e) => update({ enabled: e.target.checked })}
+          className="accent-accent-blue w-3 h-3"
+        />
+        <input
+          type="text"
+          value={burn.name}
+          onChange={(e) => update({ name: e.target.value })}
+          className="input-field flex-1 min-w-0 text-[10px]"
+        />
+        <button
+          onClick={() => removePlannedBurn(burn.id)}
+          className="text-[10px] text-[var(--text-tertiary)] hover:text-accent-red"
+        >
+          ×
+        </button>
+      </div>
+
+      <div className="flex items-center gap-1.5">
+        <select
+          value={burn.trigger}
+          onChange={(e) => update({ trigger: e.target.value as BurnTrigger })}
+          className="input-field flex-1 text-[10px]"
+        >
+          {Object.entries(TRIGGER_LABELS).map(([key, label]) => (
+            <option key={key} value={key}>{label}</option>
+          ))}
+        </select>
+        {burn.trigger === 'epoch' ? (
+          <>
+            <NumberInput
+              value={burn.offsetSec}
+              onChange={(v) => update({ offsetSec: v })}
+              min={0}
+              className="input-field w-20 text-[10px] font-mono"
+            />
+            <span className="text-[10px] text-[var(--text-tertiary)] font-mono w-6">s</span>
+          </>
+        ) : (
+          <>
+            <span className="text-[10px] text-[var(--text-tertiary)] font-mono">#</span>
+            <NumberInput
+              value={burn.occurrence}
+              onChange={(v) => update({ occurrence: v })}
+              min={1}
+              integer
+              className="input-field w-14 text-[10px] font-mono"
+            />
+          </>
+        )}
+      </div>
+
+      <div className="flex items-center gap-1.5">
+        <select
+          value={burn.frame}
+          onChange={(e) => update({ frame: e.target.value as BurnFrame })}
+          className="input-field w-16 text-[10px]"
+        >
+          <option value="vnb">VNB</option>
+          <option value="rtn">RTN</option>
+        </select>
+        {FRAME_AXES[burn.frame].map((axis, i) => (
+          <label key={axis} className="flex items-center gap-0.5">
+            <span className="text-[9px] text-[var(--text-tertiary)] font-mono">{axis}</span>
+            <input
+              type="number"
+              value={burn.direction[i]}
+              onChange={(e) => setAxis(i, parseFloat(e.target.value) || 0)}
+              className="input-field w-11 text-[10px] font-mono"
+              step="0.1"
+            />
+          </label>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-1.5">
+        <select
+          value={burn.model}
+          onChange={(e) => update({ model: e.target.value as BurnModel })}
+          className="input-field flex-1 text-[10px]"
+        >
+          <option value="impulsive">Impulsive</option>
+          <option value="finite">Finite Burn</option>
+          <option value="low-thrust">Low-Thrust (EP)</option>
+        </select>
+        <NumberInput
+          value={burn.deltaV}
+          onChange={(v) => update({ deltaV: v })}
+          min={0}
+          className="input-field w-20 text-[10px] font-mono"
+        />
+        <span className="text-[10px] text-[var(--text-secondary)] font-mono">m/s</span>
+      </div>
+    </div>
+  )
+}
+
+export default function BurnPlanSection() {
+  const burnPlan = useStore((s) => s.burnPlan)
+  const addPlannedBurn = useStore((s) => s.addPlannedBurn)
+  const propagationMode = useStore((s) => s.propagationMode)
+  const isNumerical = propagationMode === 'numerical-j2' || propagationMode === 'numerical-full'
+
+  return (
+    <SectionHeader title="Burn Plan" defaultOpen={false}>
+      <div className="space-y-1.5">
+        {!isNumerical && (
+          <div className="text-[10px] text-[var(--text-tertiary)] italic px-1">
+            Burns are executed by the numerical propagator. Select a numerical mode in the Orbit module to fly this plan.
+          </div>
+        )}
+        {burnPlan.map((burn) => (
+          <BurnEditor key={burn.id} burn={burn} />
+        ))}
+        <button
+          onClick={() => addPlannedBurn({
+            ...DEFAULT_PLANNED_BURN,
+            id: `burn-${Date.now()}`,
+            name: `Burn ${burnPlan.length + 1}`,
+          })}
+          className="w-full px-2 py-1.5 rounded text-[10px] font-mono border border-white/10 text-[var(--text-tertiary)] hover:bg-white/5 hover:border-accent-blue/30 transition-colors"
+        >
+          + Add Burn
+        </button>
+        <div className="text-[9px] text-[var(--text-tertiary)] px-1">
+          Burns fire in order; each is armed when the previous one ends. Event burns fire at the Nth event after that.
+        </div>
+      </div>
+    </SectionHeader>
+  )
+}
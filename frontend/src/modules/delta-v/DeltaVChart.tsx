@@ -4,12 +4,17 @@ import { useStore } from '@/stores'
 import { computeDeltaVBudget } from '@/lib/delta-v'
 import { R_EARTH_EQUATORIAL } from '@/lib/constants'
 import { computeBallisticCoefficient } from '@/lib/orbital-lifetime'
+import { computeLowThrustSpiral, sunlitThrusterPower } from '@/lib/low-thrust'
+import { ELECTRIC_PROPULSION } from '@/types/propulsion'
 
 export default function DeltaVChart() {
   const elements = useStore((s) => s.elements)
   const mission = useStore((s) => s.mission)
   const propulsion = useStore((s) => s.propulsion)
   const maneuvers = useStore((s) => s.maneuvers)
+  const executedBurns = useStore((s) => s.executedBurns)
+  const lowThrust = useStore((s) => s.lowThrust)
+  const subsystems = useStore((s) => s.subsystems)
 
   const avgAlt = elements.semiMajorAxis - R_EARTH_EQUATORIAL
   const dryMass = mission.spacecraft.mass
@@ -17,8 +22,19 @@ export default function DeltaVChart() {
   const bStar = computeBallisticCoefficient(dryMass, crossSection, mission.spacecraft.dragCoefficient)
 
   const budget = useMemo(
-    () => computeDeltaVBudget(propulsion, maneuvers, dryMass, avgAlt, mission.lifetimeTarget, bStar),
-    [propulsion, maneuvers, dryMass, avgAlt, mission.lifetimeTarget, bStar]
+    () => computeDeltaVBudget(propulsion, maneuvers, dryMass, avgAlt, mission.lifetimeTarget, bStar, executedBurns),
+    [propulsion, maneuvers, dryMass, avgAlt, mission.lifetimeTarget, bStar, executedBurns]
+  )
+
+  const isElectric = ELECTRIC_PROPULSION.includes(propulsion.type)
+  const spiral = useMemo(
+    () => isElectric
+      ? computeLowThrustSpiral(
+          propulsion, lowThrust, dryMass, avgAlt, elements.inclination,
+          sunlitThrusterPower(mission.spacecraft, subsystems),
+        )
+      : null,
+    [isElectric, propulsion, lowThrust, dryMass, avgAlt, elements.inclination, mission.spacecraft, subsystems]
   )
 
   const darkLayout = {
@@ -89,6 +105,31 @@ export default function DeltaVChart() {
     showlegend: false,
   }
 
+  // Low-thrust spiral: altitude and inclination against elapsed time
+  const spiralTraces: any[] = spiral
+    ? [
+        {
+          x: spiral.samples.map((s) => s.day),
+          y: spiral.samples.map((s) => s.altitudeKm),
+          type: 'scatter',
+          mode: 'lines',
+          name: 'Altitude',
+          line: { color: '#3B82F6', width: 1.5 },
+          hovertemplate: 'Day %{x:.1f}: %{y:.0f} km<extra></extra>',
+        },
+        {
+          x: spiral.samples.map((s) => s.day),
+          y: spiral.samples.map((s) => s.inclinationDeg),
+          type: 'scatter',
+          mode: 'lines',
+          name: 'Inclination',
+          yaxis: 'y2',
+          line: { color: '#F59E0B', width: 1.5, dash: 'dot' },
+          hovertemplate: 'Day %{x:.1f}: %{y:.2f}°<extra></extra>',
+        },
+      ]
+    : []
+
   if (propulsion.type === 'none') {
     return (
       <div className="flex items-center justify-center h-full text-[11px] text-[var(--text-tertiary)] italic">
@@ -145,6 +186,39 @@ export default function DeltaVChart() {
           useResizeHandler
         />
       </div>
+
+      {spiral && spiral.samples.length > 1 && (
+        <div className="flex-1 h-full">
+          <Plot
+            data={spiralTraces}
+            layout={{
+              ...darkLayout,
+              title: { text: 'Low-Thrust Spiral', font: { size: 11, color: '#9CA3AF' } },
+              xaxis: {
+                title: { text: 'Elapsed (days)', font: { size: 9 } },
+                gridcolor: 'rgba(255,255,255,0.05)',
+                color: '#6B7280',
+              },
+              yaxis: {
+                title: { text: 'Altitude (km)', font: { size: 9 } },
+                gridcolor: 'rgba(255,255,255,0.05)',
+                color: '#6B7280',
+              },
+              yaxis2: {
+                title: { text: 'Inclination (°)', font: { size: 9 } },
+                overlaying: 'y',
+                side: 'right',
+                color: '#6B7280',
+                showgrid: false,
+              },
+              showlegend: true,
+            }}
+            config={{ displayModeBar: false, responsive: true }}
+            style={{ width: '100%', height: '100%' }}
+            useResizeHandler
+          />
+        </div>
+      )}
     </div>
   )
 }
@@ -6,12 +6,17 @@ import SectionHeader from '@/components/ui/SectionHeader'
 import { computeDeltaVBudget } from '@/lib/delta-v'
 import { R_EARTH_EQUATORIAL } from '@/lib/constants'
 import { computeBallisticCoefficient } from '@/lib/orbital-lifetime'
+import { computeLowThrustSpiral, sunlitThrusterPower } from '@/lib/low-thrust'
+import { ELECTRIC_PROPULSION } from '@/types/propulsion'
 
 export default function DeltaVDisplay() {
   const elements = useStore((s) => s.elements)
   const mission = useStore((s) => s.mission)
   const propulsion = useStore((s) => s.propulsion)
   const maneuvers = useStore((s) => s.maneuvers)
+  const executedBurns = useStore((s) => s.executedBurns)
+  const lowThrust = useStore((s) => s.lowThrust)
+  const subsystems = useStore((s) => s.subsystems)
 
   const avgAlt = elements.semiMajorAxis - R_EARTH_EQUATORIAL
   const dryMass = mission.spacecraft.mass
@@ -19,8 +24,19 @@ export default function DeltaVDisplay() {
   const bStar = computeBallisticCoefficient(dryMass, crossSection, mission.spacecraft.dragCoefficient)
 
   const budget = useMemo(
-    () => computeDeltaVBudget(propulsion, maneuvers, dryMass, avgAlt, mission.lifetimeTarget, bStar),
-    [propulsion, maneuvers, dryMass, avgAlt, mission.lifetimeTarget, bStar]
+    () => computeDeltaVBudget(propulsion, maneuvers, dryMass, avgAlt, mission.lifetimeTarget, bStar, executedBurns),
+    [propulsion, maneuvers, dryMass, avgAlt, mission.lifetimeTarget, bStar, executedBurns]
+  )
+
+  const isElectric = ELECTRIC_PROPULSION.includes(propulsion.type)
+  const spiral = useMemo(
+    () => isElectric
+      ? computeLowThrustSpiral(
+          propulsion, lowThrust, dryMass, avgAlt, elements.inclination,
+          sunlitThrusterPower(mission.spacecraft, subsystems),
+        )
+      : null,
+    [isElectric, propulsion, lowThrust, dryMass, avgAlt, elements.inclination, mission.spacecraft, subsystems]
   )
 
   if (propulsion.type === 'none') {
@@ -94,6 +110,103 @@ export default function DeltaVDisplay() {
         </div>
       </SectionHeader>
 
+      {executedBurns.length > 0 && (
+        <SectionHeader title="Burn Plan Results">
+          <div className="space-y-2">
+            {executedBurns.map((b, i) => (
+              <div key={`${b.id}-${i}`} className="text-[10px] space-y-0.5">
+                <div className="flex items-center justify-between">
+                  <span className="text-[var(--text-secondary)] truncate flex-1">{b.name}</span>
+                  <span className={`font-mono ml-2 ${
+                    b.status === 'executed' ? 'text-accent-green'
+                      : b.status === 'truncated' ? 'text-accent-amber'
+                      : b.status === 'no-propellant' ? 'text-accent-red'
+                      : 'text-[var(--text-tertiary)]'
+                  }`}>
+                    {b.status}
+                  </span>
+                </div>
+                {b.status === 'no-propellant' && (
+                  <p className="font-mono text-[9px] text-accent-red">
+                    Propellant exhausted at {new Date(b.startMs).toISOString().slice(0, 19).replace('T', ' ')} UTC
+                  </p>
+                )}
+                {(b.status === 'executed' || b.status === 'truncated') && (
+                  <div className="font-mono text-[9px] text-[var(--text-tertiary)] space-y-0.5">
+                    <p>
+                      {new Date(b.startMs).toISOString().slice(0, 19).replace('T', ' ')} UTC
+                      {b.durationSec > 0 && ` · ${b.durationSec.toFixed(0)} s`}
+                    </p>
+                    <p>ΔV {b.deltaV.toFixed(2)} m/s · {b.propellantKg.toFixed(4)} kg · m {b.massAfterKg.toFixed(3)} kg</p>
+                    {b.eclipseCoastSec !== undefined && (
+                      <p>
+                        Eclipse coast {(b.eclipseCoastSec / 3600).toFixed(2)} h · {b.eclipsePasses ?? 0} shadow passes
+                      </p>
+                    )}
+                    {b.elementsAfter && (
+                      <p className="text-accent-cyan">
+                        a {b.elementsAfter.semiMajorAxis.toFixed(1)} km · e {b.elementsAfter.eccentricity.toFixed(5)} · i {b.elementsAfter.inclination.toFixed(3)}°
+                      </p>
+                    )}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        </SectionHeader>
+      )}
+
+      {spiral && (
+        <SectionHeader title="Low-Thrust Spiral">
+          <div className="grid grid-cols-2 gap-2">
+            <DataReadout
+              label="Edelbaum ΔV"
+              value={spiral.deltaVms.toFixed(1)}
+              unit="m/s"
+              status={spiral.complete ? 'nominal' : 'critical'}
+            />
+            <DataReadout label="Transfer Time" value={spiral.transferDays.toFixed(1)} unit="days" />
+            <DataReadout label="Thrusting" value={spiral.thrustingDays.toFixed(1)} unit="days" />
+            <DataReadout label="Eclipse Coast" value={spiral.eclipseCoastDays.toFixed(1)} unit="days" />
+            <DataReadout label="Eclipse Passes" value={spiral.eclipsePasses.toFixed(0)} />
+            <DataReadout
+              label="Propellant"
+              value={spiral.propellantKg.toFixed(3)}
+              unit="kg"
+              status={spiral.complete ? 'default' : 'critical'}
+            />
+            <DataReadout
+              label="Thrust"
+              value={(spiral.thrustN * 1000).toFixed(2)}
+              unit="mN"
+              status={spiral.throttle < 1 ? 'warning' : 'default'}
+            />
+            <DataReadout
+              label="Efficiency"
+              value={(spiral.efficiency * 100).toFixed(0)}
+              unit="%"
+              status={spiral.efficiency > 1 ? 'critical' : 'default'}
+            />
+            {!spiral.complete && (
+              <div className="col-span-2 text-[10px] text-amber-400/90 bg-amber-400/10 px-2 py-1.5 rounded">
+                Propellant runs out at {spiral.finalAltitudeKm.toFixed(0)} km, {spiral.finalInclinationDeg.toFixed(2)}° after{' '}
+                {spiral.deliveredDeltaVms.toFixed(0)} m/s.
+              </div>
+            )}
+            {spiral.throttle < 1 && (
+              <div className="col-span-2 text-[10px] text-amber-400/90 bg-amber-400/10 px-2 py-1.5 rounded">
+                Sunlit power margin covers {(spiral.throttle * 100).toFixed(0)}% of the thruster input power; thrust is throttled to match.
+              </div>
+            )}
+            {spiral.efficiency > 1 && (
+              <div className="col-span-2 text-[10px] text-amber-400/90 bg-amber-400/10 px-2 py-1.5 rounded">
+                Thrust, Isp and power imply over 100% jet efficiency; raise the input power.
+              </div>
+            )}
+          </div>
+        </SectionHeader>
+      )}
+
       <SectionHeader title="Reference Values">
         <div className="grid grid-cols-2 gap-2">
           <DataReadout
@@ -1,7 +1,9 @@
 import { useMemo } from 'react'
 import { useStore } from '@/stores'
 import SectionHeader from '@/components/ui/SectionHeader'
-import { PROPULSION_PRESETS, DEFAULT_MANEUVERS } from '@/types/propulsion'
+import NumberInput from '@/components/ui/NumberInput'
+import BurnPlanSection from './BurnPlanSection'
+import { PROPULSION_PRESETS, DEFAULT_MANEUVERS, ELECTRIC_PROPULSION } from '@/types/propulsion'
 import type { PropulsionType } from '@/types/propulsion'
 import { computeDeorbitDeltaV } from '@/lib/delta-v'
 import { R_EARTH_EQUATORIAL } from '@/lib/constants'
@@ -10,7 +12,9 @@ export default function DeltaVPanel() {
   const elements = useStore((s) => s.elements)
   const propulsion = useStore((s) => s.propulsion)
   const maneuvers = useStore((s) => s.maneuvers)
+  const lowThrust = useStore((s) => s.lowThrust)
   const updatePropulsion = useStore((s) => s.updatePropulsion)
+  const updateLowThrust = useStore((s) => s.updateLowThrust)
   const updateManeuver = useStore((s) => s.updateManeuver)
   const addManeuver = useStore((s) => s.addManeuver)
   const removeManeuver = useStore((s) => s.removeManeuver)
@@ -18,12 +22,15 @@ export default function DeltaVPanel() {
 
   const avgAlt = elements.semiMajorAxis - R_EARTH_EQUATORIAL
   const deorbitDv = useMemo(() => computeDeorbitDeltaV(avgAlt), [avgAlt])
+  const isElectric = ELECTRIC_PROPULSION.includes(propulsion.type)
 
   const handleTypeChange = (type: PropulsionType) => {
     const preset = PROPULSION_PRESETS[type]
     updatePropulsion({
       type,
       specificImpulse: preset.isp,
+      thrust: preset.thrust,
+      power: preset.power,
       propellantMass: type === 'none' ? 0 : propulsion.propellantMass || 0.1,
     })
   }
@@ -78,11 +85,89 @@ export default function DeltaVPanel() {
                   <span className="text-[11px] text-[var(--text-secondary)] font-mono w-6">kg</span>
                 </div>
               </label>
+
+              <label className="flex items-center justify-between">
+                <span className="text-[10px] text-[var(--text-secondary)]">Thrust</span>
+                <div className="flex items-center gap-1.5">
+                  <NumberInput
+                    value={propulsion.thrust}
+                    onChange={(v) => updatePropulsion({ thrust: v })}
+                    min={0}
+                    step={0.001}
+                  />
+                  <span className="text-[11px] text-[var(--text-secondary)] font-mono w-6">N</span>
+                </div>
+              </label>
+
+              {isElectric && (
+                <label className="flex items-center justify-between">
+                  <span className="text-[10px] text-[var(--text-secondary)]">Input Power</span>
+                  <div className="flex items-center gap-1.5">
+                    <NumberInput
+                      value={propulsion.power}
+                      onChange={(v) => updatePropulsion({ power: v })}
+                      min={0}
+                    />
+                    <span className="text-[11px] text-[var(--text-secondary)] font-mono w-6">W</span>
+                  </div>
+                </label>
+              )}
             </>
           )}
         </div>
       </SectionHeader>
 
+      {isElectric && (
+        <SectionHeader title="Low-Thrust Transfer" defaultOpen={false}>
+          <div className="space-y-2">
+            <label className="flex items-center justify-between">
+              <span className="text-[10px] text-[var(--text-secondary)]">Duty Cycle</span>
+              <div className="flex items-center gap-1.5">
+                <NumberInput
+                  value={Math.round(lowThrust.dutyCycle * 100)}
+                  onChange={(v) => updateLowThrust({ dutyCycle: v / 100 })}
+                  min={1}
+                  max={100}
+                  integer
+                />
+                <span className="text-[11px] text-[var(--text-secondary)] font-mono w-6">%</span>
+              </div>
+            </label>
+
+            <label className="flex items-center justify-between">
+              <span className="text-[10px] text-[var(--text-secondary)]">Target Altitude</span>
+              <div className="flex items-center gap-1.5">
+                <NumberInput
+                  value={lowThrust.targetAltitudeKm}
+                  onChange={(v) => updateLowThrust({ targetAltitudeKm: v })}
+                  min={100}
+                />
+                <span className="text-[11px] text-[var(--text-secondary)] font-mono w-6">km</span>
+              </div>
+            </label>
+
+            <label className="flex items-center justify-between">
+              <span className="text-[10px] text-[var(--text-secondary)]">Target Inclination</span>
+              <div className="flex items-center gap-1.5">
+                <NumberInput
+                  value={lowThrust.targetInclinationDeg}
+                  onChange={(v) => updateLowThrust({ targetInclinationDeg: v })}
+                  min={0}
+                  max={180}
+                  step={0.1}
+                />
+                <span className="text-[11px] text-[var(--text-secondary)] font-mono w-6">°</span>
+              </div>
+            </label>
+
+            <p className="text-[9px] text-[var(--text-tertiary)] px-1">
+              Edelbaum spiral from the current orbit, flown at the thrust the array can power in sunlight.
+              The duty cycle also scales low-thrust burns in the burn plan.
+            </p>
+          </div>
+        </SectionHeader>
+      )}
+
       {propulsion.type !== 'none' && (
         <SectionHeader title="Maneuver Budget" defaultOpen={true}>
           <div className="space-y-1.5">
@@ -142,6 +227,8 @@ export default function DeltaVPanel() {
         </SectionHeader>
       )}
 
+      {propulsion.type !== 'none' && <BurnPlanSection />}
+
       <button
         onClick={resetDeltaV}
         className="w-full px-2 py-1.5 rounded text-[10px] font-mono text-[var(--text-tertiary)] hover:text-[var(--text-secondary)] hover:bg-white/5 transition-colors"
@@ -1,7 +1,8 @@
 import { useMemo } from 'react'
 import Plot from 'react-plotly.js'
 import { useStore } from '@/stores'
-import { predictPasses, enrichPassesWithLinkBudget, computeContactGaps } from '@/lib/pass-prediction'
+import { usePassPrediction } from '@/hooks/usePassPrediction'
+import { enrichPassesWithLinkBudget, computeContactGaps } from '@/lib/pass-prediction'
 import { R_EARTH_EQUATORIAL } from '@/lib/constants'
 
 const STATION_COLORS: Record<string, string> = {}
@@ -19,16 +20,11 @@ function getStationColor(station: string): string {
 
 export default function ContactTimelineChart() {
   const elements = useStore((s) => s.elements)
-  const mission = useStore((s) => s.mission)
-  const groundStations = useStore((s) => s.groundStations)
   const commConfig = useStore((s) => s.commConfig)
 
   const avgAlt = elements.semiMajorAxis - R_EARTH_EQUATORIAL
 
-  const passes = useMemo(
-    () => predictPasses(elements, mission.epoch, groundStations, 3),
-    [elements, mission.epoch, groundStations]
-  )
+  const { passes } = usePassPrediction(3)
 
   const enrichedPasses = useMemo(
     () => enrichPassesWithLinkBudget(passes, commConfig, avgAlt),
@@ -1,24 +1,20 @@
 import { useMemo } from 'react'
 import Plot from 'react-plotly.js'
 import { useStore } from '@/stores'
-import { predictPasses, enrichPassesWithLinkBudget } from '@/lib/pass-prediction'
+import { usePassPrediction } from '@/hooks/usePassPrediction'
+import { enrichPassesWithLinkBudget } from '@/lib/pass-prediction'
 import { computeWaterfallSteps, computeLinkMarginProfile } from '@/lib/link-budget'
 import { R_EARTH_EQUATORIAL } from '@/lib/constants'
 import type { CommConfig } from '@/lib/link-budget'
 
 export default function LinkBudgetWaterfallChart() {
   const elements = useStore((s) => s.elements)
-  const mission = useStore((s) => s.mission)
-  const groundStations = useStore((s) => s.groundStations)
   const commConfig = useStore((s) => s.commConfig)
   const selectedPassIndex = useStore((s) => s.selectedPassIndex)
 
   const avgAlt = elements.semiMajorAxis - R_EARTH_EQUATORIAL
 
-  const passes = useMemo(
-    () => predictPasses(elements, mission.epoch, groundStations, 3),
-    [elements, mission.epoch, groundStations]
-  )
+  const { passes } = usePassPrediction(3)
 
   const enrichedPasses = useMemo(
     () => enrichPassesWithLinkBudget(passes, commConfig, avgAlt),
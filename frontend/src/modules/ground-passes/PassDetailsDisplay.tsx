@@ -1,25 +1,21 @@
 import { useMemo } from 'react'
 import { useStore } from '@/stores'
+import { usePassPrediction } from '@/hooks/usePassPrediction'
 import DataReadout from '@/components/ui/DataReadout'
 import SectionHeader from '@/components/ui/SectionHeader'
-import { predictPasses, enrichPassesWithLinkBudget, computePassMetrics, computeContactGaps } from '@/lib/pass-prediction'
+import { enrichPassesWithLinkBudget, computePassMetrics, computeContactGaps } from '@/lib/pass-prediction'
 import { computePassLinkBudget, atmosphericLoss } from '@/lib/link-budget'
 import { R_EARTH_EQUATORIAL } from '@/lib/constants'
 import LinkBudgetSection from './LinkBudgetSection'
 
 export default function PassDetailsDisplay() {
   const elements = useStore((s) => s.elements)
-  const mission = useStore((s) => s.mission)
-  const groundStations = useStore((s) => s.groundStations)
   const commConfig = useStore((s) => s.commConfig)
   const selectedPassIndex = useStore((s) => s.selectedPassIndex)
 
   const avgAlt = elements.semiMajorAxis - R_EARTH_EQUATORIAL
 
-  const passes = useMemo(
-    () => predictPasses(elements, mission.epoch, groundStations, 3),
-    [elements, mission.epoch, groundStations]
-  )
+  const { passes } = usePassPrediction(3)
 
   const enrichedPasses = useMemo(
     () => enrichPassesWithLinkBudget(passes, commConfig, avgAlt),
@@ -1,9 +1,10 @@
 import { useState, useMemo, useCallback } from 'react'
 import { useStore } from '@/stores'
+import { usePassPrediction } from '@/hooks/usePassPrediction'
 import SectionHeader from '@/components/ui/SectionHeader'
 import MetricCard from '@/components/ui/MetricCard'
 import ExportCSVButton from '@/components/ui/ExportCSVButton'
-import { predictPasses, enrichPassesWithLinkBudget, computePassMetrics } from '@/lib/pass-prediction'
+import { enrichPassesWithLinkBudget, computePassMetrics } from '@/lib/pass-prediction'
 import { exportCSV } from '@/lib/csv-export'
 import { R_EARTH_EQUATORIAL } from '@/lib/constants'
 import CommConfigSection from './CommConfigSection'
@@ -14,7 +15,6 @@ type SortDir = 'asc' | 'desc'
 export default function PassPredictionPanel() {
   const elements = useStore((s) => s.elements)
   const mission = useStore((s) => s.mission)
-  const groundStations = useStore((s) => s.groundStations)
   const commConfig = useStore((s) => s.commConfig)
   const selectedPassIndex = useStore((s) => s.selectedPassIndex)
   const setSelectedPassIndex = useStore((s) => s.setSelectedPassIndex)
@@ -27,10 +27,7 @@ export default function PassPredictionPanel() {
 
   const avgAlt = elements.semiMajorAxis - R_EARTH_EQUATORIAL
 
-  const passes = useMemo(
-    () => predictPasses(elements, mission.epoch, groundStations, durationDays),
-    [elements, mission.epoch, groundStations, durationDays]
-  )
+  const { passes, progress: passProgress, error: passError } = usePassPrediction(durationDays)
 
   // Enrich with link budget data
   const enrichedPasses = useMemo(
@@ -222,8 +219,16 @@ export default function PassPredictionPanel() {
           ))}
         </div>
 
+        {passProgress != null && (
+          <p className="text-[10px] text-accent-amber animate-pulse mb-1">
+            Predicting passes... {Math.round(passProgress * 100)}%
+          </p>
+        )}
+        {passError && passProgress == null && (
+          <p className="text-[10px] text-accent-red font-mono mb-1">Pass prediction failed: {passError}</p>
+        )}
         <div className="space-y-0.5 max-h-72 overflow-y-auto">
-          {sortedPasses.length === 0 ? (
+          {sortedPasses.length === 0 && passProgress == null && !passError ? (
             <div className="text-[var(--text-tertiary)] text-xs font-mono text-center py-4">
               No passes found. Ensure ground stations are active.
             </div>
@@ -1,7 +1,7 @@
 import { useMemo, useState } from 'react'
 import Plot from 'react-plotly.js'
 import { useStore } from '@/stores'
-import { predictPasses } from '@/lib/pass-prediction'
+import { usePassPrediction } from '@/hooks/usePassPrediction'
 
 const STATION_COLORS: Record<string, string> = {}
 const COLOR_PALETTE = [
@@ -17,15 +17,9 @@ function getStationColor(station: string): string {
 }
 
 export default function PassTimelineChart() {
-  const elements = useStore((s) => s.elements)
-  const mission = useStore((s) => s.mission)
-  const groundStations = useStore((s) => s.groundStations)
   const [durationDays, setDurationDays] = useState(3)
 
-  const passes = useMemo(
-    () => predictPasses(elements, mission.epoch, groundStations, durationDays),
-    [elements, mission.epoch, groundStations, durationDays]
-  )
+  const { passes } = usePassPrediction(durationDays)
 
   // Build Gantt-style timeline using horizontal bars
   const traces: any[] = useMemo(() => {
@@ -1,7 +1,7 @@
 import { useMemo, useRef, useState, useEffect } from 'react'
 import Plot from 'react-plotly.js'
 import { useStore } from '@/stores'
-import { predictPasses } from '@/lib/pass-prediction'
+import { usePassPrediction } from '@/hooks/usePassPrediction'
 
 const QUALITY_COLORS: Record<string, string> = {
   A: '#10B981',
@@ -11,16 +11,11 @@ const QUALITY_COLORS: Record<string, string> = {
 }
 
 export default function SkyPlotChart() {
-  const elements = useStore((s) => s.elements)
-  const mission = useStore((s) => s.mission)
   const groundStations = useStore((s) => s.groundStations)
   const selectedPassIndex = useStore((s) => s.selectedPassIndex)
 
   // Compute passes with tracks
-  const passes = useMemo(
-    () => predictPasses(elements, mission.epoch, groundStations, 3, 10, { recordTrack: true }),
-    [elements, mission.epoch, groundStations]
-  )
+  const { passes } = usePassPrediction(3, 10, true)
 
   // Determine which station to show (from selected pass, or first active station)
   const selectedPass = selectedPassIndex != null ? passes[selectedPassIndex] : null
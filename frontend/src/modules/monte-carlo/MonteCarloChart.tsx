@@ -0,0 +1,103 @@
+import Plot from 'react-plotly.js'
+import { useStore } from '@/stores'
+import { MONTE_CARLO_METRICS, computeHistogram } from '@/lib/monte-carlo'
+import type { MonteCarloMetricId } from '@/lib/monte-carlo'
+
+const METRIC_IDS = Object.keys(MONTE_CARLO_METRICS) as MonteCarloMetricId[]
+
+const METRIC_COLORS: Record<MonteCarloMetricId, string> = {
+  lifetimeYears: '#3B82F6',
+  powerMarginBol: '#10B981',
+  powerMarginEol: '#F59E0B',
+  linkMarginDb: '#8B5CF6',
+}
+
+const HISTOGRAM_BINS = 25
+
+export default function MonteCarloChart() {
+  const result = useStore((s) => s.monteCarloResult)
+
+  if (!result) {
+    return (
+      <div className="flex items-center justify-center h-full text-[11px] text-[var(--text-tertiary)] italic">
+        Run a Monte Carlo analysis to see output distributions
+      </div>
+    )
+  }
+
+  const darkLayout = {
+    paper_bgcolor: 'transparent',
+    plot_bgcolor: 'transparent',
+    font: { family: 'JetBrains Mono', size: 10, color: '#9CA3AF' },
+    margin: { l: 40, r: 15, t: 30, b: 40 },
+    showlegend: false,
+    bargap: 0.05,
+  }
+
+  return (
+    <div className="flex h-full gap-2">
+      {METRIC_IDS.map((id) => {
+        const { values, stats } = result.metrics[id]
+        const { label, unit } = MONTE_CARLO_METRICS[id]
+        const bins = computeHistogram(values, HISTOGRAM_BINS)
+        const maxCount = Math.max(1, ...bins.map((b) => b.count))
+
+        const markers = [
+          { x: stats.p5, color: '#EF4444', dash: 'dash', text: 'P5' },
+          { x: stats.nominal, color: '#F9FAFB', dash: 'dot', text: 'Nom' },
+          { x: stats.p95, color: '#EF4444', dash: 'dash', text: 'P95' },
+        ]
+
+        return (
+          <div key={id} className="flex-1 h-full min-w-0">
+            <Plot
+              data={[
+                {
+                  x: bins.map((b) => (b.x0 + b.x1) / 2),
+                  y: bins.map((b) => b.count),
+                  width: bins.map((b) => Math.max(b.x1 - b.x0, 1e-9)),
+                  type: 'bar',
+                  marker: { color: METRIC_COLORS[id], opacity: 0.7 },
+                  hovertemplate: `%{x:.2f} ${unit}: %{y} samples<extra></extra>`,
+                },
+              ]}
+              layout={{
+                ...darkLayout,
+                title: { text: label, font: { size: 11, color: '#9CA3AF' } },
+                xaxis: {
+                  title: { text: unit, font: { size: 9 } },
+                  gridcolor: 'rgba(255,255,255,0.05)',
+                  color: '#6B7280',
+                },
+                yaxis: {
+                  title: { text: 'Samples', font: { size: 9 } },
+                  gridcolor: 'rgba(255,255,255,0.05)',
+                  color: '#6B7280',
+                  range: [0, maxCount * 1.2],
+                },
+                shapes: markers.map((m) => ({
+                  type: 'line' as const,
+                  x0: m.x,
+                  x1: m.x,
+                  y0: 0,
+                  y1: maxCount * 1.1,
+                  line: { color: m.color, width: 1, dash: m.dash as 'dash' | 'dot' },
+                })),
+                annotations: markers.map((m) => ({
+                  x: m.x,
+                  y: maxCount * 1.15,
+                  text: m.text,
+                  showarrow: false,
+                  font: { size: 8, color: m.color },
+                })),
+              }}
+              config={{ displayModeBar: false, responsive: true }}
+              style={{ width: '100%', height: '100%' }}
+              useResizeHandler
+            />
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,122 @@
+import { useStore } from '@/stores'
+import SectionHeader from '@/components/ui/SectionHeader'
+import DataReadout from '@/components/ui/DataReadout'
+import { MONTE_CARLO_METRICS } from '@/lib/monte-carlo'
+import type { MetricStatistics, MonteCarloMetricId } from '@/lib/monte-carlo'
+
+const METRIC_IDS = Object.keys(MONTE_CARLO_METRICS) as MonteCarloMetricId[]
+
+const PRECISION: Record<MonteCarloMetricId, number> = {
+  lifetimeYears: 2,
+  powerMarginBol: 1,
+  powerMarginEol: 1,
+  linkMarginDb: 2,
+}
+
+const STAT_ROWS: { key: keyof MetricStatistics; label: string }[] = [
+  { key: 'nominal', label: 'Nominal' },
+  { key: 'mean', label: 'Mean' },
+  { key: 'std', label: 'Std Dev (σ)' },
+  { key: 'min', label: 'Min' },
+  { key: 'p5', label: 'P5' },
+  { key: 'p50', label: 'P50 (median)' },
+  { key: 'p95', label: 'P95' },
+  { key: 'max', label: 'Max' },
+]
+
+/** Margins must stay positive; lifetime is judged against the mission target */
+function thresholdFor(id: MonteCarloMetricId, lifetimeTarget: number): number {
+  return id === 'lifetimeYears' ? lifetimeTarget : 0
+}
+
+export default function MonteCarloDisplay() {
+  const result = useStore((s) => s.monteCarloResult)
+  const lifetimeTarget = useStore((s) => s.mission.lifetimeTarget)
+
+  if (!result) {
+    return (
+      <div className="flex items-center justify-center h-full text-[11px] text-[var(--text-tertiary)] italic p-4 text-center">
+        Choose the uncertain inputs in the left panel and run the analysis to see percentile statistics.
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-3">
+      <SectionHeader title="95% Confidence Values" defaultOpen={true}>
+        <div className="grid grid-cols-2 gap-2">
+          {METRIC_IDS.map((id) => {
+            const { stats, values } = result.metrics[id]
+            const threshold = thresholdFor(id, lifetimeTarget)
+            const status = stats.p5 >= threshold ? 'nominal' : stats.p50 >= threshold ? 'warning' : 'critical'
+            return (
+              <DataReadout
+                key={id}
+                label={MONTE_CARLO_METRICS[id].label}
+                value={values.length > 0 ? stats.p5.toFixed(PRECISION[id]) : '—'}
+                unit={MONTE_CARLO_METRICS[id].unit}
+                status={status}
+              />
+            )
+          })}
+        </div>
+        <p className="text-[9px] text-[var(--text-tertiary)] italic">
+          Values exceeded in 95% of {result.samples} samples (5th percentile).
+        </p>
+      </SectionHeader>
+
+      <SectionHeader title="Success Probability" defaultOpen={true}>
+        <div className="space-y-1">
+          {METRIC_IDS.map((id) => {
+            const { values } = result.metrics[id]
+            const threshold = thresholdFor(id, lifetimeTarget)
+            const fraction = values.filter((v) => v >= threshold).length / Math.max(1, values.length)
+            const color = fraction >= 0.95 ? 'text-accent-green' : fraction >= 0.5 ? 'text-accent-amber' : 'text-accent-red'
+            return (
+              <div key={id} className="flex items-center justify-between text-[10px]">
+                <span className="text-[var(--text-secondary)]">
+                  {MONTE_CARLO_METRICS[id].label} ≥ {threshold} {MONTE_CARLO_METRICS[id].unit}
+                </span>
+                <span className={`font-mono ${color}`}>{(fraction * 100).toFixed(1)}%</span>
+              </div>
+            )
+          })}
+        </div>
+      </SectionHeader>
+
+      <SectionHeader title="Percentile Statistics" defaultOpen={true}>
+        <div className="overflow-x-auto">
+          <table className="w-full text-[10px]">
+            <thead>
+              <tr className="border-b border-white/10">
+                <th className="text-left py-1.5 px-1 text-[var(--text-tertiary)] font-normal uppercase tracking-wider">
+                  Stat
+                </th>
+                {METRIC_IDS.map((id) => (
+                  <th key={id} className="text-right py-1.5 px-1 text-accent-blue font-semibold">
+                    {MONTE_CARLO_METRICS[id].unit}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {STAT_ROWS.map((row) => (
+                <tr key={row.key} className="border-b border-white/5 hover:bg-white/[0.02]">
+                  <td className="py-1.5 px-1 text-[var(--text-secondary)]">{row.label}</td>
+                  {METRIC_IDS.map((id) => (
+                    <td key={id} className="py-1.5 px-1 text-right font-mono text-[var(--text-primary)]">
+                      {result.metrics[id].stats[row.key].toFixed(PRECISION[id])}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <p className="text-[9px] text-[var(--text-tertiary)] italic">
+          Columns: lifetime (yr), BOL and EOL power margin (%), link margin (dB).
+        </p>
+      </SectionHeader>
+    </div>
+  )
+}
@@ -0,0 +1,164 @@
+import { useStore } from '@/stores'
+import SectionHeader from '@/components/ui/SectionHeader'
+import SliderInput from '@/components/ui/SliderInput'
+import { UNCERTAIN_PARAMETERS, UNCERTAIN_PARAMETER_IDS } from '@/lib/monte-carlo'
+import type { DistributionKind, UncertainParameterInfo } from '@/lib/monte-carlo'
+
+const GROUPS: { group: UncertainParameterInfo['group']; title: string }[] = [
+  { group: 'spacecraft', title: 'Spacecraft' },
+  { group: 'environment', title: 'Environment' },
+  { group: 'comm', title: 'Communications' },
+  { group: 'injection', title: 'Injection Errors' },
+]
+
+export default function MonteCarloPanel() {
+  const config = useStore((s) => s.monteCarloConfig)
+  const progress = useStore((s) => s.monteCarloProgress)
+  const error = useStore((s) => s.monteCarloError)
+  const updateMonteCarloConfig = useStore((s) => s.updateMonteCarloConfig)
+  const updateUncertainParameter = useStore((s) => s.updateUncertainParameter)
+  const resetMonteCarloConfig = useStore((s) => s.resetMonteCarloConfig)
+  const runMonteCarlo = useStore((s) => s.runMonteCarlo)
+  const cancelMonteCarlo = useStore((s) => s.cancelMonteCarlo)
+
+  const handleRun = () => {
+    const state = useStore.getState()
+    runMonteCarlo({
+      elements: state.elements,
+      spacecraft: state.mission.spacecraft,
+      subsystems: state.subsystems,
+      lifetimeTargetYears: state.mission.lifetimeTarget,
+      degradationRate: state.degradationRate,
+      comm: state.commConfig,
+      spaceWeather: state.spaceWeather,
+      solarForecast: state.solarForecast,
+      epochMs: state.mission.epoch.getTime(),
+    })
+  }
+
+  const enabledCount = UNCERTAIN_PARAMETER_IDS.filter((id) => config.parameters[id].enabled).length
+
+  return (
+    <div className="space-y-2">
+      <SectionHeader title="Run Settings" defaultOpen={true}>
+        <SliderInput
+          label="Samples"
+          value={config.samples}
+          min={10}
+          max={2000}
+          step={10}
+          precision={0}
+          onChange={(v) => updateMonteCarloConfig({ samples: Math.round(v) })}
+        />
+        <SliderInput
+          label="Random Seed"
+          value={config.seed}
+          min={1}
+          max={9999}
+          step={1}
+          precision={0}
+          onChange={(v) => updateMonteCarloConfig({ seed: Math.round(v) })}
+        />
+        <SliderInput
+          label="Link Elevation"
+          value={config.linkElevationDeg}
+          min={0}
+          max={90}
+          step={1}
+          unit="°"
+          precision={0}
+          onChange={(v) => updateMonteCarloConfig({ linkElevationDeg: v })}
+        />
+        <button
+          onClick={handleRun}
+          disabled={progress != null || enabledCount === 0}
+          className="w-full px-2 py-1.5 rounded text-[10px] font-mono font-medium bg-accent-blue/10 border border-accent-blue/30 text-accent-blue hover:bg-accent-blue/20 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          {enabledCount === 0 ? 'Enable a Parameter' : `Run ${config.samples} Samples`}
+        </button>
+        {progress != null && (
+          <div className="space-y-1">
+            <div className="flex items-center justify-between">
+              <p className="text-[10px] text-accent-amber animate-pulse">
+                Sampling... {Math.round(progress * 100)}%
+              </p>
+              <button
+                onClick={cancelMonteCarlo}
+                className="text-[9px] px-1.5 py-0.5 rounded border border-white/10 text-[var(--text-tertiary)] hover:text-accent-red hover:border-accent-red/30 transition-all"
+              >
+                Cancel
+              </button>
+            </div>
+            <div className="h-1 rounded bg-white/5 overflow-hidden">
+              <div
+                className="h-full bg-accent-amber/60 transition-[width] duration-150"
+                style={{ width: `${progress * 100}%` }}
+              />
+            </div>
+          </div>
+        )}
+        {error && <p className="text-[10px] text-accent-red font-mono">{error}</p>}
+      </SectionHeader>
+
+      {GROUPS.map(({ group, title }) => (
+        <SectionHeader key={group} title={title} defaultOpen={true}>
+          <div className="space-y-1.5">
+            {UNCERTAIN_PARAMETER_IDS.filter((id) => UNCERTAIN_PARAMETERS[id].group === group).map((id) => {
+              const info = UNCERTAIN_PARAMETERS[id]
+              const param = config.parameters[id]
+              return (
+                <div key={id} className="flex items-center gap-1.5">
+                  <label className="flex items-center gap-1.5 flex-1 min-w-0 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={param.enabled}
+                      onChange={(e) => updateUncertainParameter(id, { enabled: e.target.checked })}
+                      className="accent-accent-blue w-3 h-3"
+                    />
+                    <span className={`text-[10px] truncate ${param.enabled ? 'text-[var(--text-secondary)]' : 'text-[var(--text-tertiary)]'}`}>
+                      {info.label}
+                    </span>
+                  </label>
+                  <select
+                    value={param.distribution}
+                    onChange={(e) => updateUncertainParameter(id, { distribution: e.target.value as DistributionKind })}
+                    disabled={!param.enabled}
+                    className="input-field w-[4.5rem] text-[10px] disabled:opacity-40"
+                  >
+                    <option value="normal">Normal</option>
+                    <option value="uniform">Uniform</option>
+                  </select>
+                  <input
+                    type="number"
+                    value={param.spread}
+                    onChange={(e) => {
+                      const v = parseFloat(e.target.value)
+                      if (Number.isFinite(v) && v >= 0) updateUncertainParameter(id, { spread: v })
+                    }}
+                    disabled={!param.enabled}
+                    step={info.defaultSpread / 5}
+                    min={0}
+                    className="input-field w-16 text-[10px] font-mono disabled:opacity-40"
+                  />
+                  <span className="w-7 text-[9px] text-[var(--text-tertiary)] font-mono">{info.unit}</span>
+                </div>
+              )
+            })}
+          </div>
+        </SectionHeader>
+      ))}
+
+      <p className="text-[9px] text-[var(--text-tertiary)] italic px-1">
+        Normal spreads are 1σ; uniform spreads are half-widths. Orbit, spacecraft, power and
+        link settings are taken from the other modules at run time.
+      </p>
+
+      <button
+        onClick={resetMonteCarloConfig}
+        className="w-full px-2 py-1.5 rounded text-[10px] font-mono text-[var(--text-tertiary)] hover:text-accent-red hover:bg-accent-red/5 transition-colors"
+      >
+        Reset to Defaults
+      </button>
+    </div>
+  )
+}
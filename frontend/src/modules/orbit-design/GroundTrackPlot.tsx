@@ -2,15 +2,26 @@ import { useMemo } from 'react'
 import Plot from 'react-plotly.js'
 import { useStore } from '@/stores'
 import { computeGroundTrack } from '@/lib/orbital-mechanics'
+import { eciToEcef, ecefToGeodetic } from '@/lib/coordinate-transforms'
+import { dateToGMST } from '@/lib/time-utils'
 
 export default function GroundTrackPlot() {
   const elements = useStore((s) => s.elements)
   const orbitEpoch = useStore((s) => s.orbitEpoch)
+  const propagationMode = useStore((s) => s.propagationMode)
+  const propagatedTrajectory = useStore((s) => s.propagatedTrajectory)
   const groundStations = useStore((s) => s.groundStations)
   const activeStations = groundStations.filter((gs) => gs.active)
 
   const traces = useMemo(() => {
-    const track = computeGroundTrack(elements, orbitEpoch, 10, 180)
+    // SGP4 / numerical modes: follow the propagated trajectory, as the 3D ground track does
+    const track = propagationMode !== 'keplerian' && propagatedTrajectory.length > 0
+      ? propagatedTrajectory.map((pt) => {
+          const gmst = dateToGMST(new Date(pt.t))
+          const geo = ecefToGeodetic(eciToEcef({ x: pt.state.x, y: pt.state.y, z: pt.state.z }, gmst))
+          return { lat: geo.lat, lon: geo.lon }
+        })
+      : computeGroundTrack(elements, orbitEpoch, 10, 180)
 
     // Split into segments at antimeridian
     const segments: Array<{ lats: number[]; lons: number[] }> = []
@@ -54,7 +65,7 @@ export default function GroundTrackPlot() {
     }
 
     return result
-  }, [elements, activeStations, orbitEpoch])
+  }, [elements, activeStations, orbitEpoch, propagationMode, propagatedTrajectory])
 
   // Dynamic satellite marker driven by 3D animation
   const satSubPoint = useStore((s) => s.satSubPoint)
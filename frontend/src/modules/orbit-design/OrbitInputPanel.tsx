@@ -5,23 +5,37 @@ import { R_EARTH_EQUATORIAL, MU_EARTH_KM } from '@/lib/constants'
 import { computeSunSyncInclination } from '@/lib/orbital-mechanics'
 import SliderInput from '@/components/ui/SliderInput'
 import SectionHeader from '@/components/ui/SectionHeader'
-import type { PropagationMode } from '@/lib/numerical-propagator'
+import NumberInput from '@/components/ui/NumberInput'
+import SpaceWeatherInputs from '@/components/ui/SpaceWeatherInputs'
+import type { PropagationMode, IntegratorMethod } from '@/lib/numerical-propagator'
+import TLEImportSection from './TLEImportSection'
 
 const PROPAGATION_MODES: { mode: PropagationMode; label: string }[] = [
   { mode: 'keplerian', label: 'Kepler' },
   { mode: 'numerical-j2', label: 'J2' },
   { mode: 'numerical-full', label: 'Full' },
+  { mode: 'sgp4', label: 'SGP4' },
 ]
 
+const INTEGRATOR_METHODS: { method: IntegratorMethod; label: string }[] = [
+  { method: 'rk4', label: 'RK4 Fixed' },
+  { method: 'dp54', label: 'DP5(4) Adaptive' },
+]
+
+const TOLERANCE_PRESETS = [1e-6, 1e-8, 1e-10, 1e-12]
+
 const PERTURBATION_TOGGLES = [
   { key: 'j2', label: 'J2 Oblateness' },
-  { key: 'j3j6', label: 'J3-J6 Zonal' },
+  { key: 'harmonics', label: 'Spherical Harmonics' },
   { key: 'drag', label: 'Atmospheric Drag' },
   { key: 'srp', label: 'Solar Radiation' },
   { key: 'thirdBodyMoon', label: 'Moon Gravity' },
   { key: 'thirdBodySun', label: 'Sun Gravity' },
 ] as const
 
+// Truncation of the bundled EGM96 coefficient file
+const EARTH_FIELD_MAX_DEGREE = 8
+
 const INCLINATION_PRESETS = [
   { label: '0\u00B0 Equatorial', value: 0 },
   { label: '51.6\u00B0 ISS', value: 51.6 },
@@ -41,7 +55,14 @@ export default function OrbitInputPanel() {
   const spacecraftProps = useStore((s) => s.spacecraftProps)
   const setSpacecraftProps = useStore((s) => s.setSpacecraftProps)
   const mission = useStore((s) => s.mission)
-  const isPropagating = useStore((s) => s.isPropagating)
+  const propagationProgress = useStore((s) => s.propagationProgress)
+  const propagationError = useStore((s) => s.propagationError)
+  const cancelPropagation = useStore((s) => s.cancelPropagation)
+  const integratorConfig = useStore((s) => s.integratorConfig)
+  const setIntegratorConfig = useStore((s) => s.setIntegratorConfig)
+  const integrationStats = useStore((s) => s.integrationStats)
+  const hasTLE = useStore((s) => s.tles.length > 0)
+  const isNumerical = propagationMode === 'numerical-j2' || propagationMode === 'numerical-full'
 
   // Sync propagator spacecraft props from mission store values
   useEffect(() => {
@@ -89,6 +110,9 @@ export default function OrbitInputPanel() {
         </div>
       </SectionHeader>
 
+      {/* TLE Import */}
+      <TLEImportSection />
+
       {/* Orbital Elements */}
       <SectionHeader title="Orbital Elements" defaultOpen={true}>
         <SliderInput
@@ -201,12 +225,12 @@ export default function OrbitInputPanel() {
         actions={
           propagationMode !== 'keplerian' ? (
             <span className="text-[9px] px-1.5 py-0.5 rounded bg-accent-green/15 text-accent-green border border-accent-green/30 font-mono">
-              NUMERICAL
+              {propagationMode === 'sgp4' ? 'SGP4' : 'NUMERICAL'}
             </span>
           ) : undefined
         }
       >
-        <div className="grid grid-cols-3 gap-1.5">
+        <div className="grid grid-cols-4 gap-1.5">
           {PROPAGATION_MODES.map(({ mode, label }) => (
             <button
               key={mode}
@@ -235,37 +259,151 @@ export default function OrbitInputPanel() {
             <p className="text-[10px] text-[var(--text-tertiary)] mt-0.5">{durationText}</p>
           </div>
         )}
-        {isPropagating && (
-          <p className="text-[10px] text-accent-amber animate-pulse mt-1">Propagating...</p>
+        {propagationProgress != null && (
+          <div className="mt-1 space-y-1">
+            <div className="flex items-center justify-between">
+              <p className="text-[10px] text-accent-amber animate-pulse">
+                Propagating... {Math.round(propagationProgress * 100)}%
+              </p>
+              <button
+                onClick={cancelPropagation}
+                className="text-[9px] px-1.5 py-0.5 rounded border border-white/10 text-[var(--text-tertiary)] hover:text-accent-red hover:border-accent-red/30 transition-all"
+              >
+                Cancel
+              </button>
+            </div>
+            <div className="h-1 rounded bg-white/5 overflow-hidden">
+              <div
+                className="h-full bg-accent-amber/60 transition-[width] duration-150"
+                style={{ width: `${propagationProgress * 100}%` }}
+              />
+            </div>
+          </div>
+        )}
+        {propagationError && propagationProgress == null && (
+          <p className="text-[10px] text-accent-red font-mono mt-1">Propagation failed: {propagationError}</p>
         )}
-        {propagationMode !== 'keplerian' && (
-          <p className="text-[10px] text-[var(--text-tertiary)] mt-1">
-            RK4 integration with {propagationMode === 'numerical-j2' ? 'J2 only' : 'full perturbations'}
+        {isNumerical && (
+          <div className="mt-2 space-y-1.5">
+            <div className="grid grid-cols-2 gap-1.5">
+              {INTEGRATOR_METHODS.map(({ method, label }) => (
+                <button
+                  key={method}
+                  onClick={() => setIntegratorConfig({ method })}
+                  className={`text-[10px] px-2 py-1 rounded border transition-all font-sans ${
+                    integratorConfig.method === method
+                      ? 'border-accent-blue/50 bg-accent-blue/15 text-accent-blue'
+                      : 'border-white/10 text-[var(--text-secondary)] hover:border-accent-blue/40 hover:text-accent-blue'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            {integratorConfig.method === 'dp54' && (
+              <>
+                <label className="flex items-center justify-between">
+                  <span className="text-[10px] text-[var(--text-secondary)]">Rel. Tolerance</span>
+                  <select
+                    value={integratorConfig.relTol}
+                    onChange={(e) => setIntegratorConfig({ relTol: parseFloat(e.target.value) })}
+                    className="input-field w-20 text-xs text-center"
+                  >
+                    {TOLERANCE_PRESETS.map((tol) => (
+                      <option key={tol} value={tol}>{tol.toExponential(0)}</option>
+                    ))}
+                  </select>
+                </label>
+                <label className="flex items-center justify-between">
+                  <span className="text-[10px] text-[var(--text-secondary)]">Abs. Tolerance</span>
+                  <select
+                    value={integratorConfig.absTol}
+                    onChange={(e) => setIntegratorConfig({ absTol: parseFloat(e.target.value) })}
+                    className="input-field w-20 text-xs text-center"
+                  >
+                    {[1e-3, ...TOLERANCE_PRESETS.slice(0, 3)].map((tol) => (
+                      <option key={tol} value={tol}>{tol.toExponential(0)}</option>
+                    ))}
+                  </select>
+                </label>
+              </>
+            )}
+            <p className="text-[10px] text-[var(--text-tertiary)]">
+              {integratorConfig.method === 'dp54' ? 'Dormand-Prince 5(4)' : 'RK4'} integration with{' '}
+              {propagationMode === 'numerical-j2' ? 'J2 only' : 'full perturbations'}
+            </p>
+            {integrationStats && propagationProgress == null && (
+              <div className="grid grid-cols-2 gap-x-2 text-[9px] font-mono text-[var(--text-tertiary)]">
+                <span>Steps: {integrationStats.acceptedSteps}</span>
+                <span>Rejected: {integrationStats.rejectedSteps}</span>
+                <span>f evals: {integrationStats.functionEvals}</span>
+                <span>Mean h: {integrationStats.meanStepSec.toFixed(1)}s</span>
+                <span>Min h: {integrationStats.minStepSec.toFixed(1)}s</span>
+                <span>Max h: {integrationStats.maxStepSec.toFixed(1)}s</span>
+              </div>
+            )}
+          </div>
+        )}
+        {propagationMode === 'sgp4' && (
+          <p className={`text-[10px] mt-1 ${hasTLE ? 'text-[var(--text-tertiary)]' : 'text-accent-amber'}`}>
+            {hasTLE ? 'SGP4/SDP4 from imported TLE' : 'Import a TLE to enable SGP4 propagation'}
           </p>
         )}
       </SectionHeader>
 
       {/* Perturbation Toggles */}
-      {propagationMode !== 'keplerian' && (
+      {isNumerical && (
         <SectionHeader title="Perturbations" defaultOpen={false}>
           <div className="space-y-1.5">
             {PERTURBATION_TOGGLES.map(({ key, label }) => (
               <label key={key} className="flex items-center gap-2 text-[11px] text-[var(--text-secondary)] cursor-pointer hover:text-[var(--text-primary)] transition-colors">
                 <input
                   type="checkbox"
-                  checked={perturbationConfig[key as keyof typeof perturbationConfig]}
+                  checked={perturbationConfig[key] || (key === 'j2' && perturbationConfig.harmonics)}
+                  disabled={key === 'j2' && perturbationConfig.harmonics}
                   onChange={(e) => setPerturbationConfig({ [key]: e.target.checked })}
                   className="accent-accent-blue w-3 h-3"
                 />
                 {label}
               </label>
             ))}
+            {perturbationConfig.harmonics && (
+              <div className="pl-5 space-y-1.5">
+                <label className="flex items-center justify-between">
+                  <span className="text-[10px] text-[var(--text-secondary)]">Degree × Order</span>
+                  <div className="flex items-center gap-1">
+                    <NumberInput
+                      value={perturbationConfig.gravityDegree}
+                      onChange={(v) => setPerturbationConfig({ gravityDegree: v, gravityOrder: Math.min(perturbationConfig.gravityOrder, v) })}
+                      min={2}
+                      max={EARTH_FIELD_MAX_DEGREE}
+                      integer
+                      className="input-field w-12 text-sm font-mono"
+                    />
+                    <span className="text-[10px] text-[var(--text-tertiary)]">×</span>
+                    <NumberInput
+                      value={perturbationConfig.gravityOrder}
+                      onChange={(v) => setPerturbationConfig({ gravityOrder: v })}
+                      min={0}
+                      max={perturbationConfig.gravityDegree}
+                      integer
+                      className="input-field w-12 text-sm font-mono"
+                    />
+                  </div>
+                </label>
+                <p className="text-[9px] text-[var(--text-tertiary)]">
+                  EGM96 field; order 0 keeps only the zonal terms. Replaces the J2 term. The bundled
+                  coefficients stop at {EARTH_FIELD_MAX_DEGREE}×{EARTH_FIELD_MAX_DEGREE}: enough for resonance and GEO drift
+                  studies, not for precise low-orbit ephemerides, which need degree 20–70.
+                </p>
+              </div>
+            )}
           </div>
         </SectionHeader>
       )}
 
       {/* Spacecraft Properties (for drag/SRP) */}
-      {propagationMode !== 'keplerian' && (perturbationConfig.drag || perturbationConfig.srp) && (
+      {isNumerical && (perturbationConfig.drag || perturbationConfig.srp) && (
         <SectionHeader title="Spacecraft Properties" defaultOpen={false}>
           <SliderInput
             label="Drag Coeff (Cd)"
@@ -296,7 +434,7 @@ export default function OrbitInputPanel() {
             onChange={(v) => setSpacecraftProps({ area: v })}
           />
           <SliderInput
-            label="Mass"
+            label="Dry Mass"
             value={spacecraftProps.mass}
             min={0.5}
             max={1000}
@@ -307,6 +445,13 @@ export default function OrbitInputPanel() {
           />
         </SectionHeader>
       )}
+
+      {/* Space Weather (for drag) */}
+      {isNumerical && perturbationConfig.drag && (
+        <SectionHeader title="Space Weather" defaultOpen={false}>
+          <SpaceWeatherInputs />
+        </SectionHeader>
+      )}
     </div>
   )
 }
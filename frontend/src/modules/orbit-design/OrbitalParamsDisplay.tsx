@@ -1,6 +1,7 @@
 import { useStore } from '@/stores'
 import { classifyOrbit } from '@/types/orbit'
-import { R_EARTH_EQUATORIAL, MU_EARTH_KM, getAtmosphericDensity } from '@/lib/constants'
+import { R_EARTH_EQUATORIAL, MU_EARTH_KM } from '@/lib/constants'
+import { orbitAveragedDensity } from '@/lib/atmosphere'
 import {
   formatDistance,
   formatVelocity,
@@ -20,6 +21,7 @@ export default function OrbitalParamsDisplay() {
   const elements = useStore((s) => s.elements)
   const propagationMode = useStore((s) => s.propagationMode)
   const osculatingElements = useStore((s) => s.osculatingElements)
+  const spaceWeather = useStore((s) => s.spaceWeather)
 
   if (!derivedParams) {
     return (
@@ -51,7 +53,7 @@ export default function OrbitalParamsDisplay() {
 
   const avgAlt = (periapsisAlt + apoapsisAlt) / 2
   const orbitType = classifyOrbit(avgAlt, ecc, displayElements.inclination, derivedParams.raanDrift)
-  const atmDensity = getAtmosphericDensity(periapsisAlt)
+  const atmDensity = orbitAveragedDensity(periapsisAlt, spaceWeather, { inclinationDeg: elements.inclination })
 
   return (
     <div className="space-y-3">
@@ -0,0 +1,134 @@
+import { useState, useRef } from 'react'
+import { useStore } from '@/stores'
+import SectionHeader from '@/components/ui/SectionHeader'
+import { parseTLEText, tleToOrbitalElements } from '@/lib/tle'
+import type { ParsedTLE } from '@/lib/tle'
+
+export default function TLEImportSection() {
+  const tles = useStore((s) => s.tles)
+  const activeTleIndex = useStore((s) => s.activeTleIndex)
+  const setTLEs = useStore((s) => s.setTLEs)
+  const setActiveTleIndex = useStore((s) => s.setActiveTleIndex)
+  const setPropagationMode = useStore((s) => s.setPropagationMode)
+  const updateElements = useStore((s) => s.updateElements)
+  const missionEpoch = useStore((s) => s.mission.epoch)
+
+  const [text, setText] = useState('')
+  const [errors, setErrors] = useState<string[]>([])
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  // Seed the Keplerian sliders with the osculating elements of the selected object
+  // at the mission epoch, the time the analytical modules evaluate them at
+  const applyTLE = (tle: ParsedTLE) => {
+    const elements = tleToOrbitalElements(tle, missionEpoch)
+    if (elements) updateElements(elements)
+  }
+
+  const handleParse = (raw: string) => {
+    const result = parseTLEText(raw, missionEpoch)
+    setErrors(result.errors)
+    if (result.tles.length === 0) return
+    setTLEs(result.tles)
+    setPropagationMode('sgp4')
+    applyTLE(result.tles[0])
+  }
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (!file) return
+    const reader = new FileReader()
+    reader.onload = () => {
+      const raw = reader.result as string
+      setText(raw)
+      handleParse(raw)
+    }
+    reader.onerror = () => setErrors(['Failed to read file'])
+    reader.readAsText(file)
+    e.target.value = ''
+  }
+
+  const handleSelect = (index: number) => {
+    setActiveTleIndex(index)
+    applyTLE(tles[index])
+  }
+
+  const activeTle = tles[activeTleIndex]
+
+  return (
+    <SectionHeader title="TLE Import" defaultOpen={false}>
+      <textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        placeholder={'Paste TLE / 3LE (one or more objects)\nISS (ZARYA)\n1 25544U ...\n2 25544 ...'}
+        rows={4}
+        spellCheck={false}
+        className="input-field w-full text-[9px] font-mono resize-y"
+      />
+      <div className="flex gap-1.5 mt-1">
+        <button
+          onClick={() => handleParse(text)}
+          disabled={!text.trim()}
+          className="flex-1 px-2 py-1.5 rounded text-[10px] font-sans bg-accent-blue/15 border border-accent-blue/30 text-accent-blue hover:bg-accent-blue/25 transition-colors disabled:opacity-40"
+        >
+          Parse TLE
+        </button>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="flex-1 px-2 py-1.5 rounded text-[10px] font-sans border border-white/10 text-[var(--text-secondary)] hover:border-accent-blue/40 hover:text-accent-blue transition-all"
+        >
+          Upload File
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".tle,.txt,.3le"
+          onChange={handleFile}
+          className="hidden"
+        />
+      </div>
+
+      {errors.length > 0 && (
+        <div className="mt-1 space-y-0.5 max-h-20 overflow-y-auto">
+          {errors.map((err, i) => (
+            <p key={i} className="text-[9px] text-accent-red font-mono">{err}</p>
+          ))}
+        </div>
+      )}
+
+      {tles.length > 0 && (
+        <div className="mt-2 space-y-1">
+          <div className="text-[9px] uppercase tracking-wider text-[var(--text-tertiary)]">
+            Objects ({tles.length})
+          </div>
+          <div className="space-y-0.5 max-h-32 overflow-y-auto">
+            {tles.map((tle, i) => (
+              <button
+                key={`${tle.noradId}-${i}`}
+                onClick={() => handleSelect(i)}
+                className={`w-full flex items-center justify-between px-2 py-1 rounded text-[10px] font-mono border transition-all ${
+                  i === activeTleIndex
+                    ? 'bg-accent-blue/15 text-accent-blue border-accent-blue/30'
+                    : 'text-[var(--text-secondary)] border-transparent hover:bg-white/5'
+                }`}
+              >
+                <span className="truncate max-w-[140px]">{tle.name}</span>
+                <span className="text-[var(--text-tertiary)]">{tle.noradId}</span>
+              </button>
+            ))}
+          </div>
+          {activeTle && (
+            <div className="text-[9px] font-mono text-[var(--text-tertiary)] space-y-0.5">
+              <p>Epoch: {new Date(activeTle.epochMs).toISOString().slice(0, 19).replace('T', ' ')} UTC</p>
+              <p>
+                n = {activeTle.meanMotionRevPerDay.toFixed(4)} rev/day, B* = {activeTle.bstar.toExponential(3)}
+              </p>
+              {activeTle.warnings.map((w, i) => (
+                <p key={i} className="text-accent-amber">{w}</p>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </SectionHeader>
+  )
+}
@@ -4,41 +4,84 @@ import { useStore } from '@/stores'
 import {
   computeBallisticCoefficient,
   simulateDecay,
+  simulateEccentricDecay,
   type SolarActivity,
 } from '@/lib/orbital-lifetime'
+import { forecastWeather, SOLAR_CYCLE_CASES } from '@/lib/solar-cycle'
+import type { SolarCycleCase } from '@/lib/solar-cycle'
+
+const ACTIVITY_COLORS: Record<SolarActivity, string> = {
+  low: '#10B981',
+  moderate: '#3B82F6',
+  high: '#EF4444',
+}
+
+const CYCLE_STYLES: Record<SolarCycleCase, { color: string; dash: string; label: string }> = {
+  min: { color: '#10B981', dash: 'dash', label: 'Weak cycle' },
+  nominal: { color: '#3B82F6', dash: 'solid', label: 'Nominal cycle' },
+  max: { color: '#EF4444', dash: 'dash', label: 'Strong cycle' },
+}
 
 export default function DecayCurveChart() {
   const elements = useStore((s) => s.elements)
   const mission = useStore((s) => s.mission)
+  const spaceWeather = useStore((s) => s.spaceWeather)
+  const solarForecast = useStore((s) => s.solarForecast)
+  const isForecast = solarForecast.source !== 'fixed'
 
   const avgAlt = elements.semiMajorAxis - 6378.137
+  const apogeeAlt = elements.semiMajorAxis * (1 + elements.eccentricity) - 6378.137
+  const isElliptical = apogeeAlt - avgAlt > 1
+  const yTop = apogeeAlt * 1.1
   const crossSection = mission.spacecraft.crossSectionArea
   const cd = mission.spacecraft.dragCoefficient
   const bStar = computeBallisticCoefficient(mission.spacecraft.mass, crossSection, cd)
 
-  // Simulate decay for all three solar activity levels
+  // Simulate perigee/apogee decay of the actual orbit across the solar forecast
+  // envelope from the mission epoch, or for the three fixed activity levels
   const decayData = useMemo(() => {
+    const options = { inclinationDeg: elements.inclination, startDate: mission.epoch }
+    if (isForecast) {
+      return SOLAR_CYCLE_CASES.map((cycleCase) => {
+        const style = CYCLE_STYLES[cycleCase]
+        return {
+          name: style.label,
+          line: { color: style.color, width: cycleCase === 'nominal' ? 2 : 1.5, dash: style.dash },
+          data: simulateEccentricDecay(elements, bStar, forecastWeather(solarForecast, spaceWeather, cycleCase), 30, 5, options),
+        }
+      })
+    }
     const activities: SolarActivity[] = ['low', 'moderate', 'high']
     return activities.map((activity) => ({
-      activity,
-      data: simulateDecay(avgAlt, bStar, activity, 30, 1),
+      name: `${activity.charAt(0).toUpperCase() + activity.slice(1)} solar`,
+      line: { color: ACTIVITY_COLORS[activity], width: 2 },
+      data: simulateEccentricDecay(elements, bStar, activity, 30, 5, options),
     }))
-  }, [avgAlt, bStar])
+  }, [elements, bStar, mission.epoch, isForecast, solarForecast, spaceWeather])
 
-  const traces: any[] = decayData.map(({ activity, data }) => {
-    const colors: Record<SolarActivity, string> = {
-      low: '#10B981',
-      moderate: '#3B82F6',
-      high: '#EF4444',
-    }
-    return {
-      x: data.map((d) => d.days / 365.25),
-      y: data.map((d) => d.altitude),
+  // Perigee curves carry the legend; apogee curves (elliptical orbits only) share each group
+  const traces: any[] = decayData.flatMap(({ name, line, data }) => {
+    const x = data.map((d) => d.days / 365.25)
+    const perigee = {
+      x,
+      y: data.map((d) => d.perigee),
       type: 'scatter',
       mode: 'lines',
-      name: `${activity.charAt(0).toUpperCase() + activity.slice(1)} solar`,
-      line: { color: colors[activity], width: 2 },
+      name: isElliptical ? `${name} (perigee)` : name,
+      legendgroup: name,
+      line,
     }
+    if (!isElliptical) return [perigee]
+    return [perigee, {
+      x,
+      y: data.map((d) => d.apogee),
+      type: 'scatter',
+      mode: 'lines',
+      name: `${name} (apogee)`,
+      legendgroup: name,
+      showlegend: false,
+      line: { ...line, width: 1, dash: 'dot' },
+    }]
   })
 
   // Add horizontal lines for compliance thresholds
@@ -47,12 +90,37 @@ export default function DecayCurveChart() {
     5
   )
 
-  // Parametric study: altitude vs lifetime for moderate solar activity
+  // Nominal forecast F10.7 on a secondary axis so the decay knees line up with solar maxima
+  const fluxTrace: any = useMemo(() => {
+    if (!isForecast) return null
+    const forecast = forecastWeather(solarForecast, spaceWeather)
+    if (typeof forecast !== 'function') return null
+    const years: number[] = []
+    const flux: number[] = []
+    for (let m = 0; m <= maxYears * 12; m++) {
+      years.push(m / 12)
+      flux.push(forecast(new Date(mission.epoch.getTime() + (m / 12) * 365.25 * 86400000)).f107)
+    }
+    return {
+      x: years,
+      y: flux,
+      type: 'scatter',
+      mode: 'lines',
+      name: 'F10.7 (nominal)',
+      yaxis: 'y2',
+      line: { color: 'rgba(245, 158, 11, 0.35)', width: 1 },
+    }
+  }, [isForecast, solarForecast, spaceWeather, maxYears, mission.epoch])
+  if (fluxTrace) traces.push(fluxTrace)
+
+  // Parametric study: altitude vs lifetime for the configured (nominal) solar input
   const parametricTrace: any = useMemo(() => {
     const altitudes = []
     const lifetimes = []
+    const weather = forecastWeather(solarForecast, spaceWeather)
+    const options = { inclinationDeg: elements.inclination, startDate: mission.epoch }
     for (let alt = 200; alt <= 800; alt += 25) {
-      const decay = simulateDecay(alt, bStar, 'moderate', 50, 5)
+      const decay = simulateDecay(alt, bStar, weather, 50, 5, options)
       const last = decay[decay.length - 1]
       altitudes.push(alt)
       lifetimes.push(last.altitude <= 80 ? last.days / 365.25 : 50)
@@ -66,7 +134,7 @@ export default function DecayCurveChart() {
       line: { color: '#8B5CF6', width: 2 },
       marker: { size: 4, color: '#8B5CF6' },
     }
-  }, [bStar])
+  }, [bStar, solarForecast, spaceWeather, elements.inclination, mission.epoch])
 
   const darkLayout = {
     paper_bgcolor: 'transparent',
@@ -90,6 +158,7 @@ export default function DecayCurveChart() {
           layout={{
             ...darkLayout,
             title: { text: 'Orbital Decay Curve', font: { size: 11, color: '#9CA3AF' } },
+            margin: { ...darkLayout.margin, r: fluxTrace ? 45 : darkLayout.margin.r },
             xaxis: {
               title: { text: 'Time (years)', font: { size: 9 } },
               gridcolor: 'rgba(255,255,255,0.05)',
@@ -99,33 +168,43 @@ export default function DecayCurveChart() {
               title: { text: 'Altitude (km)', font: { size: 9 } },
               gridcolor: 'rgba(255,255,255,0.05)',
               color: '#6B7280',
-              range: [0, avgAlt * 1.1],
+              range: [0, yTop],
             },
+            ...(fluxTrace && {
+              yaxis2: {
+                title: { text: 'F10.7 (sfu)', font: { size: 9 } },
+                overlaying: 'y',
+                side: 'right',
+                showgrid: false,
+                color: '#6B7280',
+                rangemode: 'tozero',
+              },
+            }),
             shapes: [
               // 5-year line
               {
                 type: 'line',
                 x0: 5, x1: 5,
-                y0: 0, y1: avgAlt * 1.1,
+                y0: 0, y1: yTop,
                 line: { color: 'rgba(245, 158, 11, 0.5)', width: 1, dash: 'dash' },
               },
               // 25-year line
               {
                 type: 'line',
                 x0: 25, x1: 25,
-                y0: 0, y1: avgAlt * 1.1,
+                y0: 0, y1: yTop,
                 line: { color: 'rgba(239, 68, 68, 0.5)', width: 1, dash: 'dash' },
               },
             ],
             annotations: [
               {
-                x: 5, y: avgAlt * 1.05,
+                x: 5, y: apogeeAlt * 1.05,
                 text: 'FCC 5yr',
                 showarrow: false,
                 font: { size: 8, color: '#F59E0B' },
               },
               {
-                x: 25, y: avgAlt * 1.05,
+                x: 25, y: apogeeAlt * 1.05,
                 text: 'IADC 25yr',
                 showarrow: false,
                 font: { size: 8, color: '#EF4444' },
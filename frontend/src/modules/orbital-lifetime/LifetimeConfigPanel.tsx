@@ -1,45 +1,54 @@
-import { useState, useMemo } from 'react'
+import { useMemo } from 'react'
 import { useStore } from '@/stores'
 import SectionHeader from '@/components/ui/SectionHeader'
 import MetricCard from '@/components/ui/MetricCard'
 import {
   computeBallisticCoefficient,
   checkCompliance,
-  type SolarActivity,
+  estimateLifetime,
 } from '@/lib/orbital-lifetime'
+import { forecastWeather } from '@/lib/solar-cycle'
+import SolarForecastSection from './SolarForecastSection'
 
 export default function LifetimeConfigPanel() {
   const elements = useStore((s) => s.elements)
   const mission = useStore((s) => s.mission)
 
-  const [solarActivity, setSolarActivity] = useState<SolarActivity>('moderate')
+  const spaceWeather = useStore((s) => s.spaceWeather)
+  const solarForecast = useStore((s) => s.solarForecast)
 
-  const avgAlt = elements.semiMajorAxis - 6378.137
   const crossSection = mission.spacecraft.crossSectionArea
   const dragCoeff = mission.spacecraft.dragCoefficient
   const bStar = computeBallisticCoefficient(mission.spacecraft.mass, crossSection, dragCoeff)
 
+  const decayOptions = useMemo(
+    () => ({ inclinationDeg: elements.inclination, startDate: mission.epoch }),
+    [elements.inclination, mission.epoch]
+  )
+
   const compliance = useMemo(
-    () => checkCompliance(avgAlt, bStar, solarActivity),
-    [avgAlt, bStar, solarActivity]
+    () => checkCompliance(elements, bStar, forecastWeather(solarForecast, spaceWeather), decayOptions),
+    [elements, bStar, solarForecast, spaceWeather, decayOptions]
   )
 
+  // Lifetime spread across the forecast envelope (strong cycles decay fastest)
+  const lifetimeRange = useMemo(() => {
+    if (solarForecast.source === 'fixed') return null
+    const shortest = estimateLifetime(elements, bStar, forecastWeather(solarForecast, spaceWeather, 'max'), decayOptions)
+    const longest = estimateLifetime(elements, bStar, forecastWeather(solarForecast, spaceWeather, 'min'), decayOptions)
+    return { shortestYears: shortest / 365.25, longestYears: longest / 365.25 }
+  }, [elements, bStar, solarForecast, spaceWeather, decayOptions])
+
+  const formatYears = (years: number) => (years > 50 ? '>50' : years.toFixed(1))
+
   return (
     <div className="space-y-2">
+      <SectionHeader title="Solar Activity">
+        <SolarForecastSection />
+      </SectionHeader>
+
       <SectionHeader title="Drag Parameters">
         <div className="space-y-2">
-          <label className="flex items-center justify-between">
-            <span className="text-[10px] text-[var(--text-secondary)]">Solar Activity</span>
-            <select
-              value={solarActivity}
-              onChange={(e) => setSolarActivity(e.target.value as SolarActivity)}
-              className="input-field w-24 text-xs"
-            >
-              <option value="low">Low (F10.7=70)</option>
-              <option value="moderate">Moderate (140)</option>
-              <option value="high">High (250)</option>
-            </select>
-          </label>
           <div className="flex items-center justify-between text-[10px]">
             <span className="text-[var(--text-tertiary)]">Drag Coeff (Cd)</span>
             <span className="text-accent-cyan font-mono">{dragCoeff.toFixed(1)}</span>
@@ -71,6 +80,14 @@ export default function LifetimeConfigPanel() {
             status="nominal"
           />
         </div>
+        {lifetimeRange && (
+          <div className="flex items-center justify-between text-[10px] mt-2">
+            <span className="text-[var(--text-tertiary)]">Cycle envelope (max → min)</span>
+            <span className="text-accent-cyan font-mono">
+              {formatYears(lifetimeRange.shortestYears)} – {formatYears(lifetimeRange.longestYears)} yr
+            </span>
+          </div>
+        )}
       </SectionHeader>
 
       <SectionHeader title="Compliance">
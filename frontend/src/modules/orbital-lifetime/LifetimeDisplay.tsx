@@ -1,4 +1,4 @@
-import { useMemo, useState } from 'react'
+import { useMemo } from 'react'
 import { useStore } from '@/stores'
 import DataReadout from '@/components/ui/DataReadout'
 import SectionHeader from '@/components/ui/SectionHeader'
@@ -6,31 +6,39 @@ import {
   computeBallisticCoefficient,
   estimateLifetime,
   computeDeorbitDeltaV,
-  type SolarActivity,
 } from '@/lib/orbital-lifetime'
-import { getAtmosphericDensity } from '@/lib/constants'
+import { orbitAveragedDensity } from '@/lib/atmosphere'
+import { forecastWeather } from '@/lib/solar-cycle'
 
 export default function LifetimeDisplay() {
   const elements = useStore((s) => s.elements)
   const mission = useStore((s) => s.mission)
-  const [solarActivity] = useState<SolarActivity>('moderate')
+  const spaceWeather = useStore((s) => s.spaceWeather)
+  const solarForecast = useStore((s) => s.solarForecast)
 
-  const avgAlt = elements.semiMajorAxis - 6378.137
+  const perigeeAlt = elements.semiMajorAxis * (1 - elements.eccentricity) - 6378.137
+  const apogeeAlt = elements.semiMajorAxis * (1 + elements.eccentricity) - 6378.137
   const crossSection = mission.spacecraft.crossSectionArea
   const cd = mission.spacecraft.dragCoefficient
   const bStar = computeBallisticCoefficient(mission.spacecraft.mass, crossSection, cd)
 
   const lifetimeDays = useMemo(
-    () => estimateLifetime(avgAlt, bStar, solarActivity),
-    [avgAlt, bStar, solarActivity]
+    () => estimateLifetime(elements, bStar, forecastWeather(solarForecast, spaceWeather), {
+      inclinationDeg: elements.inclination,
+      startDate: mission.epoch,
+    }),
+    [elements, bStar, solarForecast, spaceWeather, mission.epoch]
   )
 
   const deorbitDV = useMemo(
-    () => computeDeorbitDeltaV(avgAlt),
-    [avgAlt]
+    () => computeDeorbitDeltaV(perigeeAlt, apogeeAlt),
+    [perigeeAlt, apogeeAlt]
   )
 
-  const density = getAtmosphericDensity(avgAlt)
+  // Space weather at the mission epoch under the selected forecast
+  const weatherInput = forecastWeather(solarForecast, spaceWeather)
+  const epochWeather = typeof weatherInput === 'function' ? weatherInput(mission.epoch) : weatherInput
+  const density = orbitAveragedDensity(perigeeAlt, epochWeather, { inclinationDeg: elements.inclination, date: mission.epoch })
 
   return (
     <div className="space-y-3">
@@ -61,15 +69,29 @@ export default function LifetimeDisplay() {
       <SectionHeader title="Atmospheric Environment">
         <div className="grid grid-cols-2 gap-2">
           <DataReadout
-            label="Altitude"
-            value={avgAlt.toFixed(1)}
+            label="Perigee Alt"
+            value={perigeeAlt.toFixed(1)}
             unit="km"
           />
           <DataReadout
-            label="Density"
+            label="Apogee Alt"
+            value={apogeeAlt.toFixed(1)}
+            unit="km"
+          />
+          <DataReadout
+            label="Perigee Density"
             value={density.toExponential(2)}
             unit="kg/m³"
           />
+          <DataReadout
+            label="F10.7 @ Epoch"
+            value={epochWeather.f107.toFixed(0)}
+            unit="sfu"
+          />
+          <DataReadout
+            label="Ap @ Epoch"
+            value={epochWeather.ap.toFixed(0)}
+          />
         </div>
       </SectionHeader>
 
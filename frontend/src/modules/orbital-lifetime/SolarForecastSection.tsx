@@ -0,0 +1,105 @@
+import { useState, useRef } from 'react'
+import { useStore } from '@/stores'
+import SpaceWeatherInputs from '@/components/ui/SpaceWeatherInputs'
+import { parseSolarFluxCSV } from '@/lib/solar-cycle'
+import type { SolarForecastSource } from '@/lib/solar-cycle'
+
+const SOURCES: { source: SolarForecastSource; label: string }[] = [
+  { source: 'fixed', label: 'Fixed' },
+  { source: 'cycle', label: 'Solar Cycle' },
+  { source: 'imported', label: 'CSV' },
+]
+
+function formatMonth(ms: number): string {
+  return new Date(ms).toISOString().slice(0, 7)
+}
+
+export default function SolarForecastSection() {
+  const solarForecast = useStore((s) => s.solarForecast)
+  const setSolarForecast = useStore((s) => s.setSolarForecast)
+  const epoch = useStore((s) => s.mission.epoch)
+
+  const [errors, setErrors] = useState<string[]>([])
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (!file) return
+    const reader = new FileReader()
+    reader.onload = () => {
+      const result = parseSolarFluxCSV(reader.result as string)
+      setErrors(result.errors)
+      if (result.records.length === 0) return
+      setSolarForecast({ source: 'imported', fileName: file.name, records: result.records })
+    }
+    reader.onerror = () => setErrors(['Failed to read file'])
+    reader.readAsText(file)
+    e.target.value = ''
+  }
+
+  const { records } = solarForecast
+  const hasRecords = records.length > 0
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-1">
+        {SOURCES.map(({ source, label }) => (
+          <button
+            key={source}
+            onClick={() => {
+              if (source === 'imported' && !hasRecords) fileInputRef.current?.click()
+              else setSolarForecast({ source })
+            }}
+            className={`flex-1 px-1.5 py-1 rounded text-[10px] font-mono border transition-all ${
+              solarForecast.source === source
+                ? 'bg-accent-blue/15 text-accent-blue border-accent-blue/30'
+                : 'text-[var(--text-secondary)] border-white/10 hover:bg-white/5'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".csv,.txt"
+        onChange={handleFile}
+        className="hidden"
+      />
+
+      {solarForecast.source === 'fixed' && <SpaceWeatherInputs />}
+
+      {solarForecast.source === 'cycle' && (
+        <p className="text-[9px] text-[var(--text-tertiary)] leading-relaxed">
+          Built-in solar-cycle model from the mission epoch ({formatMonth(epoch.getTime())}).
+          Min/max cases span the forecast amplitude uncertainty.
+        </p>
+      )}
+
+      {solarForecast.source === 'imported' && hasRecords && (
+        <div className="text-[9px] font-mono text-[var(--text-tertiary)] space-y-0.5">
+          <p className="truncate">{solarForecast.fileName ?? 'Imported forecast'}</p>
+          <p>
+            {records.length} rows, {formatMonth(records[0].epochMs)} → {formatMonth(records[records.length - 1].epochMs)}
+          </p>
+          <p>Built-in cycle model is used outside this range.</p>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="mt-1 w-full px-2 py-1 rounded text-[10px] font-sans border border-white/10 text-[var(--text-secondary)] hover:border-accent-blue/40 hover:text-accent-blue transition-all"
+          >
+            Replace CSV
+          </button>
+        </div>
+      )}
+
+      {errors.length > 0 && (
+        <div className="space-y-0.5 max-h-20 overflow-y-auto">
+          {errors.map((err, i) => (
+            <p key={i} className="text-[9px] text-accent-red font-mono">{err}</p>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,164 @@
+import { useStore } from '@/stores'
+import SectionHeader from '@/components/ui/SectionHeader'
+import NumberInput from '@/components/ui/NumberInput'
+import {
+  BATTERY_CHEMISTRIES,
+  defaultBatteryPack,
+  packEnergyWh,
+  packNominalVoltage,
+  capacityDerating,
+} from '@/lib/battery'
+import type { BatteryChemistry, BatteryPackConfig } from '@/types/mission'
+
+const inputClass =
+  'w-full rounded border border-white/10 bg-white/[0.06] px-1 py-1 text-xs font-mono text-[var(--text-primary)] text-center focus:border-accent-blue focus:outline-none'
+const labelClass = 'text-[9px] uppercase tracking-wider text-[var(--text-secondary)] block mb-1'
+
+function PackField({ label, value, step, min, max, onChange }: {
+  label: string
+  value: number
+  step: number
+  min: number
+  max: number
+  onChange: (v: number) => void
+}) {
+  return (
+    <div>
+      <label className={labelClass}>{label}</label>
+      <NumberInput value={value} step={step} min={min} max={max} onChange={onChange} className={inputClass} />
+    </div>
+  )
+}
+
+export default function BatteryPackSection() {
+  const spacecraft = useStore((s) => s.mission.spacecraft)
+  const updateSpacecraft = useStore((s) => s.updateSpacecraft)
+  const pack = spacecraft.battery
+
+  // The cell layout is authoritative; keep the spacecraft capacity in step
+  const setPack = (next: BatteryPackConfig | undefined) =>
+    updateSpacecraft(next ? { battery: next, batteryCapacity: packEnergyWh(next) } : { battery: undefined })
+
+  const update = (partial: Partial<BatteryPackConfig>) => {
+    if (pack) setPack({ ...pack, ...partial })
+  }
+
+  return (
+    <SectionHeader title="Battery Pack" defaultOpen={false}>
+      <div className="space-y-2">
+        <label className="flex items-center justify-between">
+          <span className="text-[10px] text-[var(--text-secondary)]">Li-ion cell model</span>
+          <input
+            type="checkbox"
+            checked={!!pack}
+            onChange={(e) => setPack(e.target.checked ? defaultBatteryPack(spacecraft) : undefined)}
+            className="accent-accent-blue w-3 h-3"
+          />
+        </label>
+        <div className="text-[10px] text-[var(--text-tertiary)]">
+          {pack
+            ? 'Cells set the capacity, voltage curve, C-rate limits and cycle life; fade is estimated over the mission lifetime.'
+            : 'Off: the battery is an ideal energy store of the configured capacity.'}
+        </div>
+
+        {pack && (
+          <>
+            <div>
+              <label className={labelClass}>Chemistry</label>
+              <select
+                value={pack.chemistry}
+                onChange={(e) => update({ chemistry: e.target.value as BatteryChemistry })}
+                className="input-field w-full text-xs"
+              >
+                {(Object.keys(BATTERY_CHEMISTRIES) as BatteryChemistry[]).map((c) => (
+                  <option key={c} value={c}>{BATTERY_CHEMISTRIES[c].name}</option>
+                ))}
+              </select>
+            </div>
+            <div className="grid grid-cols-3 gap-2">
+              <PackField
+                label="Cell (Ah)"
+                value={+pack.cellCapacityAh.toFixed(3)}
+                step={0.1}
+                min={0.01}
+                max={500}
+                onChange={(v) => update({ cellCapacityAh: v })}
+              />
+              <PackField
+                label="Series"
+                value={pack.seriesCells}
+                step={1}
+                min={1}
+                max={100}
+                onChange={(v) => update({ seriesCells: Math.round(v) })}
+              />
+              <PackField
+                label="Parallel"
+                value={pack.parallelStrings}
+                step={1}
+                min={1}
+                max={100}
+                onChange={(v) => update({ parallelStrings: Math.round(v) })}
+              />
+              <PackField
+                label="Charge Eff (%)"
+                value={+(pack.chargeEfficiency * 100).toFixed(1)}
+                step={1}
+                min={50}
+                max={100}
+                onChange={(v) => update({ chargeEfficiency: v / 100 })}
+              />
+              <PackField
+                label="Max Charge (C)"
+                value={pack.maxChargeC}
+                step={0.1}
+                min={0.05}
+                max={10}
+                onChange={(v) => update({ maxChargeC: v })}
+              />
+              <PackField
+                label="Max Disch. (C)"
+                value={pack.maxDischargeC}
+                step={0.1}
+                min={0.05}
+                max={20}
+                onChange={(v) => update({ maxDischargeC: v })}
+              />
+            </div>
+            <PackField
+              label="Pack Temperature (°C)"
+              value={pack.tempC}
+              step={1}
+              min={-40}
+              max={80}
+              onChange={(v) => update({ tempC: v })}
+            />
+
+            <div className="space-y-1 text-[10px] font-mono text-[var(--text-secondary)]">
+              <div className="flex items-center justify-between">
+                <span>Nominal voltage</span>
+                <span className="text-accent-cyan">{packNominalVoltage(pack).toFixed(1)} V</span>
+              </div>
+              <div className="flex items-center justify-between">
+                <span>Rated energy</span>
+                <span className="text-accent-cyan">{packEnergyWh(pack).toFixed(1)} Wh</span>
+              </div>
+              <div className="flex items-center justify-between">
+                <span>Usable at {pack.tempC.toFixed(0)} °C</span>
+                <span className="text-accent-cyan">
+                  {(packEnergyWh(pack) * capacityDerating(pack.tempC)).toFixed(1)} Wh
+                </span>
+              </div>
+            </div>
+            <button
+              onClick={() => setPack(defaultBatteryPack(spacecraft))}
+              className="w-full px-3 py-1.5 rounded-md border border-white/10 text-[var(--text-secondary)] text-xs font-sans hover:bg-white/5 transition-colors"
+            >
+              Reset from Config
+            </button>
+          </>
+        )}
+      </div>
+    </SectionHeader>
+  )
+}
@@ -0,0 +1,108 @@
+import { useMemo } from 'react'
+import Plot from 'react-plotly.js'
+import { useStore } from '@/stores'
+import { computePowerAnalysis } from '@/lib/power-budget'
+
+export default function EclipseChart() {
+  const elements = useStore((s) => s.elements)
+  const mission = useStore((s) => s.mission)
+  const subsystems = useStore((s) => s.subsystems)
+
+  const analysis = useMemo(
+    () => computePowerAnalysis(elements, mission.spacecraft, subsystems, mission.lifetimeTarget, undefined, mission.epoch),
+    [elements, mission.spacecraft, subsystems, mission.lifetimeTarget, mission.epoch]
+  )
+
+  const timeline = analysis.eclipseTimeline
+  if (!timeline) return null
+
+  const dates = timeline.days.map((d) => d.dateISO)
+  const worst = timeline.days[timeline.worstIndex]
+  const best = timeline.days[timeline.bestIndex]
+
+  const traces: any[] = [
+    {
+      x: dates,
+      y: timeline.days.map((d) => d.umbraMin),
+      type: 'scatter',
+      mode: 'lines',
+      name: 'Umbra',
+      line: { color: '#6B7280', width: 1.5 },
+      fill: 'tozeroy',
+      fillcolor: 'rgba(107, 114, 128, 0.25)',
+      yaxis: 'y2',
+    },
+    {
+      x: dates,
+      y: timeline.days.map((d) => d.umbraMin + d.penumbraMin),
+      type: 'scatter',
+      mode: 'lines',
+      name: 'Umbra + Penumbra',
+      line: { color: '#9CA3AF', width: 1, dash: 'dot' },
+      yaxis: 'y2',
+    },
+    {
+      x: dates,
+      y: timeline.days.map((d) => d.betaDeg),
+      type: 'scatter',
+      mode: 'lines',
+      name: 'Beta Angle',
+      line: { color: '#F59E0B', width: 2 },
+    },
+    {
+      x: [worst.dateISO, best.dateISO],
+      y: [worst.umbraMin + worst.penumbraMin, best.umbraMin + best.penumbraMin],
+      type: 'scatter',
+      mode: 'markers+text',
+      name: 'Worst / Best Day',
+      text: ['Worst', 'Best'],
+      textposition: 'top center',
+      textfont: { size: 9, color: '#F9FAFB' },
+      marker: { color: ['#EF4444', '#10B981'], size: 8 },
+      yaxis: 'y2',
+    },
+  ]
+
+  return (
+    <div className="h-full">
+      <Plot
+        data={traces}
+        layout={{
+          paper_bgcolor: 'transparent',
+          plot_bgcolor: 'transparent',
+          font: { family: 'JetBrains Mono', size: 10, color: '#9CA3AF' },
+          margin: { l: 50, r: 50, t: 30, b: 40 },
+          legend: {
+            font: { size: 9, color: '#9CA3AF' },
+            bgcolor: 'transparent',
+            orientation: 'h' as const,
+            y: 1.12,
+          },
+          title: { text: 'Beta Angle & Eclipse Duration — Mission', font: { size: 11, color: '#9CA3AF' } },
+          xaxis: {
+            type: 'date',
+            gridcolor: 'rgba(255,255,255,0.05)',
+            color: '#6B7280',
+          },
+          yaxis: {
+            title: { text: 'Beta (deg)', font: { size: 9 } },
+            gridcolor: 'rgba(255,255,255,0.05)',
+            color: '#F59E0B',
+            range: [-90, 90],
+          },
+          yaxis2: {
+            title: { text: 'Eclipse (min)', font: { size: 9 } },
+            overlaying: 'y',
+            side: 'right',
+            gridcolor: 'transparent',
+            color: '#9CA3AF',
+            rangemode: 'tozero',
+          },
+        }}
+        config={{ displayModeBar: false, responsive: true }}
+        style={{ width: '100%', height: '100%' }}
+        useResizeHandler
+      />
+    </div>
+  )
+}
@@ -0,0 +1,371 @@
+import { useStore } from '@/stores'
+import SectionHeader from '@/components/ui/SectionHeader'
+import NumberInput from '@/components/ui/NumberInput'
+import SliderInput from '@/components/ui/SliderInput'
+import { selectActiveTLE } from '@/stores/propagation-slice'
+import { MODE_TRIGGER_LABELS, modeLoadW } from '@/lib/mode-scheduler'
+import type { ModeRule, ModeTrigger, SpacecraftMode, ScheduleTarget } from '@/lib/mode-scheduler'
+
+const inputClass =
+  'w-full rounded border border-white/10 bg-white/[0.06] px-1 py-1 text-xs font-mono text-[var(--text-primary)] text-center focus:border-accent-blue focus:outline-none'
+const labelClass = 'text-[9px] uppercase tracking-wider text-[var(--text-secondary)] block mb-1'
+const cardClass = 'rounded-md border border-white/5 bg-white/[0.03] px-2 py-2 group space-y-2'
+const removeClass =
+  'text-[9px] text-accent-red/40 hover:text-accent-red transition-colors opacity-0 group-hover:opacity-100 px-1'
+const secondaryButtonClass =
+  'w-full px-3 py-1.5 rounded-md border border-white/10 text-[var(--text-secondary)] text-xs font-sans hover:bg-white/5 transition-colors'
+
+export default function ModeScheduleSection() {
+  const config = useStore((s) => s.modeScheduleConfig)
+  const subsystems = useStore((s) => s.subsystems)
+  const progress = useStore((s) => s.modeScheduleProgress)
+  const error = useStore((s) => s.modeScheduleError)
+  const updateConfig = useStore((s) => s.updateModeScheduleConfig)
+  const resetConfig = useStore((s) => s.resetModeScheduleConfig)
+  const runModeSchedule = useStore((s) => s.runModeSchedule)
+  const cancelModeSchedule = useStore((s) => s.cancelModeSchedule)
+
+  const handleRun = () => {
+    const state = useStore.getState()
+    runModeSchedule({
+      elements: state.elements,
+      spacecraft: state.mission.spacecraft,
+      subsystems: state.subsystems,
+      groundStations: state.groundStations,
+      epochMs: state.mission.epoch.getTime(),
+      lifetimeYears: state.mission.lifetimeTarget,
+      degradationRate: state.degradationRate,
+      tle: selectActiveTLE(state),
+    })
+  }
+
+  const updateMode = (id: string, partial: Partial<SpacecraftMode>) =>
+    updateConfig({ modes: config.modes.map((m) => (m.id === id ? { ...m, ...partial } : m)) })
+  const removeMode = (id: string) => {
+    const modes = config.modes.filter((m) => m.id !== id)
+    updateConfig({
+      modes,
+      rules: config.rules.filter((r) => r.modeId !== id),
+      defaultModeId: config.defaultModeId === id ? (modes[0]?.id ?? '') : config.defaultModeId,
+    })
+  }
+
+  const updateRule = (id: string, partial: Partial<ModeRule>) =>
+    updateConfig({ rules: config.rules.map((r) => (r.id === id ? { ...r, ...partial } : r)) })
+  const moveRule = (index: number, delta: number) => {
+    const target = index + delta
+    if (target < 0 || target >= config.rules.length) return
+    const rules = [...config.rules]
+    ;[rules[index], rules[target]] = [rules[target], rules[index]]
+    updateConfig({ rules })
+  }
+
+  const updateTarget = (id: string, partial: Partial<ScheduleTarget>) =>
+    updateConfig({ targets: config.targets.map((t) => (t.id === id ? { ...t, ...partial } : t)) })
+
+  return (
+    <SectionHeader title="Mode Schedule" defaultOpen={false}>
+      <div className="space-y-3">
+        <SliderInput
+          label="Duration"
+          value={config.durationDays}
+          min={0.5}
+          max={14}
+          step={0.5}
+          unit="d"
+          precision={1}
+          onChange={(v) => updateConfig({ durationDays: v })}
+        />
+        <SliderInput
+          label="Time Step"
+          value={config.stepSec}
+          min={10}
+          max={120}
+          step={10}
+          unit="s"
+          precision={0}
+          onChange={(v) => updateConfig({ stepSec: Math.round(v) })}
+        />
+        <SliderInput
+          label="Initial SOC"
+          value={config.initialSoc * 100}
+          min={0}
+          max={100}
+          step={5}
+          unit="%"
+          precision={0}
+          onChange={(v) => updateConfig({ initialSoc: v / 100 })}
+        />
+        <SliderInput
+          label="SOC Hysteresis"
+          value={config.socHysteresis * 100}
+          min={0}
+          max={50}
+          step={1}
+          unit="%"
+          precision={0}
+          onChange={(v) => updateConfig({ socHysteresis: v / 100 })}
+        />
+        <label className="flex items-center justify-between">
+          <span className="text-[10px] text-[var(--text-secondary)]">End-of-life generation</span>
+          <input
+            type="checkbox"
+            checked={config.endOfLife}
+            onChange={(e) => updateConfig({ endOfLife: e.target.checked })}
+            className="accent-accent-blue w-3 h-3"
+          />
+        </label>
+        <div>
+          <label className={labelClass}>Default Mode</label>
+          <select
+            value={config.defaultModeId}
+            onChange={(e) => updateConfig({ defaultModeId: e.target.value })}
+            className="input-field w-full text-xs"
+          >
+            {config.modes.map((m) => <option key={m.id} value={m.id}>{m.name}</option>)}
+          </select>
+        </div>
+
+        {/* Modes */}
+        <div className="space-y-2">
+          <span className={labelClass}>Modes — subsystem load (%)</span>
+          {config.modes.map((mode) => (
+            <div key={mode.id} className={cardClass}>
+              <div className="flex items-center justify-between gap-2">
+                <input
+                  type="text"
+                  value={mode.name}
+                  onChange={(e) => updateMode(mode.id, { name: e.target.value })}
+                  className="input-field flex-1 min-w-0 text-xs"
+                />
+                <span className="text-[10px] font-mono text-accent-cyan shrink-0">
+                  {modeLoadW(mode, subsystems).toFixed(2)} W
+                </span>
+                <button onClick={() => removeMode(mode.id)} className={removeClass}>Remove</button>
+              </div>
+              <div className="grid grid-cols-3 gap-2">
+                {subsystems.map((sub) => (
+                  <div key={sub.id}>
+                    <label className={`${labelClass} truncate`} title={sub.name}>{sub.name}</label>
+                    <NumberInput
+                      value={Math.round((mode.loads[sub.id] ?? 0) * 100)}
+                      onChange={(v) => updateMode(mode.id, { loads: { ...mode.loads, [sub.id]: v / 100 } })}
+                      min={0}
+                      max={100}
+                      step={10}
+                      className={inputClass}
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+          <button
+            onClick={() => updateConfig({
+              modes: [...config.modes, { id: `mode-${Date.now()}`, name: `Mode ${config.modes.length + 1}`, loads: {} }],
+            })}
+            className={secondaryButtonClass}
+          >
+            Add Mode
+          </button>
+        </div>
+
+        {/* Rules */}
+        <div className="space-y-2">
+          <span className={labelClass}>Rules — first match wins</span>
+          {config.rules.map((rule, k) => (
+            <div key={rule.id} className={cardClass}>
+              <div className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={rule.enabled}
+                  onChange={(e) => updateRule(rule.id, { enabled: e.target.checked })}
+                  className="accent-accent-blue w-3 h-3"
+                />
+                <select
+                  value={rule.trigger}
+                  onChange={(e) => updateRule(rule.id, { trigger: e.target.value as ModeTrigger })}
+                  className="input-field flex-1 min-w-0 text-xs"
+                >
+                  {(Object.keys(MODE_TRIGGER_LABELS) as ModeTrigger[]).map((t) => (
+                    <option key={t} value={t}>{MODE_TRIGGER_LABELS[t]}</option>
+                  ))}
+                </select>
+                <span className="text-[10px] text-[var(--text-tertiary)]">→</span>
+                <select
+                  value={rule.modeId}
+                  onChange={(e) => updateRule(rule.id, { modeId: e.target.value })}
+                  className="input-field flex-1 min-w-0 text-xs"
+                >
+                  {config.modes.map((m) => <option key={m.id} value={m.id}>{m.name}</option>)}
+                </select>
+              </div>
+              <div className="flex items-center justify-between gap-2">
+                {rule.trigger === 'soc-below' ? (
+                  <div className="flex items-center gap-1.5">
+                    <span className="text-[10px] text-[var(--text-secondary)]">Below</span>
+                    <NumberInput
+                      value={Math.round(rule.socThreshold * 100)}
+                      onChange={(v) => updateRule(rule.id, { socThreshold: v / 100 })}
+                      min={0}
+                      max={100}
+                      step={5}
+                      className={`${inputClass} w-14`}
+                    />
+                    <span className="text-[10px] text-[var(--text-secondary)]">%</span>
+                  </div>
+                ) : (
+                  <label className="flex items-center gap-1.5">
+                    <input
+                      type="checkbox"
+                      checked={rule.sunlitOnly}
+                      onChange={(e) => updateRule(rule.id, { sunlitOnly: e.target.checked })}
+                      className="accent-accent-blue w-3 h-3"
+                    />
+                    <span className="text-[10px] text-[var(--text-secondary)]">Sunlit only</span>
+                  </label>
+                )}
+                <div className="flex items-center">
+                  <button onClick={() => moveRule(k, -1)} className="text-[10px] text-[var(--text-tertiary)] hover:text-[var(--text-primary)] px-1">▲</button>
+                  <button onClick={() => moveRule(k, 1)} className="text-[10px] text-[var(--text-tertiary)] hover:text-[var(--text-primary)] px-1">▼</button>
+                  <button
+                    onClick={() => updateConfig({ rules: config.rules.filter((r) => r.id !== rule.id) })}
+                    className={removeClass}
+                  >
+                    Remove
+                  </button>
+                </div>
+              </div>
+            </div>
+          ))}
+          <button
+            onClick={() => updateConfig({
+              rules: [...config.rules, {
+                id: `rule-${Date.now()}`,
+                enabled: true,
+                trigger: 'pass',
+                modeId: config.defaultModeId,
+                socThreshold: 0.3,
+                sunlitOnly: false,
+              }],
+            })}
+            disabled={config.modes.length === 0}
+            className={`${secondaryButtonClass} disabled:opacity-40 disabled:cursor-not-allowed`}
+          >
+            Add Rule
+          </button>
+        </div>
+
+        {/* Targets */}
+        <div className="space-y-2">
+          <span className={labelClass}>Ground Targets</span>
+          {config.targets.map((target) => (
+            <div key={target.id} className={cardClass}>
+              <div className="flex items-center justify-between gap-2">
+                <input
+                  type="text"
+                  value={target.name}
+                  onChange={(e) => updateTarget(target.id, { name: e.target.value })}
+                  className="input-field flex-1 min-w-0 text-xs"
+                />
+                <button
+                  onClick={() => updateConfig({ targets: config.targets.filter((t) => t.id !== target.id) })}
+                  className={removeClass}
+                >
+                  Remove
+                </button>
+              </div>
+              <div className="grid grid-cols-3 gap-2">
+                <div>
+                  <label className={labelClass}>Lat (°)</label>
+                  <NumberInput
+                    value={target.lat}
+                    onChange={(v) => updateTarget(target.id, { lat: v })}
+                    min={-90}
+                    max={90}
+                    step={0.1}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className={labelClass}>Lon (°)</label>
+                  <NumberInput
+                    value={target.lon}
+                    onChange={(v) => updateTarget(target.id, { lon: v })}
+                    min={-180}
+                    max={180}
+                    step={0.1}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className={labelClass}>Off-Nadir (°)</label>
+                  <NumberInput
+                    value={target.maxOffNadirDeg}
+                    onChange={(v) => updateTarget(target.id, { maxOffNadirDeg: v })}
+                    min={0}
+                    max={89}
+                    step={1}
+                    className={inputClass}
+                  />
+                </div>
+              </div>
+            </div>
+          ))}
+          <button
+            onClick={() => updateConfig({
+              targets: [...config.targets, {
+                id: `target-${Date.now()}`,
+                name: `Target ${config.targets.length + 1}`,
+                lat: 0,
+                lon: 0,
+                maxOffNadirDeg: 30,
+              }],
+            })}
+            className={secondaryButtonClass}
+          >
+            Add Target
+          </button>
+        </div>
+
+        <div className="flex gap-2">
+          <button
+            onClick={handleRun}
+            disabled={progress != null || config.modes.length === 0}
+            className="flex-1 px-3 py-1.5 rounded-md bg-accent-blue text-white text-xs font-sans font-semibold hover:bg-accent-blue-hover transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            Run Schedule
+          </button>
+          <button
+            onClick={resetConfig}
+            className="flex-1 px-3 py-1.5 rounded-md border border-white/10 text-[var(--text-secondary)] text-xs font-sans hover:bg-white/5 transition-colors"
+          >
+            Reset Modes
+          </button>
+        </div>
+        {progress != null && (
+          <div className="space-y-1">
+            <div className="flex items-center justify-between">
+              <p className="text-[10px] text-accent-amber animate-pulse">
+                Simulating... {Math.round(progress * 100)}%
+              </p>
+              <button
+                onClick={cancelModeSchedule}
+                className="text-[9px] px-1.5 py-0.5 rounded border border-white/10 text-[var(--text-tertiary)] hover:text-accent-red hover:border-accent-red/30 transition-all"
+              >
+                Cancel
+              </button>
+            </div>
+            <div className="h-1 rounded bg-white/5 overflow-hidden">
+              <div
+                className="h-full bg-accent-amber/60 transition-[width] duration-150"
+                style={{ width: `${progress * 100}%` }}
+              />
+            </div>
+          </div>
+        )}
+        {error && <p className="text-[10px] text-accent-red font-mono">{error}</p>}
+      </div>
+    </SectionHeader>
+  )
+}
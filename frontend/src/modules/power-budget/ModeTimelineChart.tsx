@@ -0,0 +1,128 @@
+import { useMemo } from 'react'
+import Plot from 'react-plotly.js'
+import { useStore } from '@/stores'
+
+const MODE_COLORS = ['#3B82F6', '#6B7280', '#10B981', '#8B5CF6', '#EF4444', '#F59E0B', '#06B6D4', '#EC4899']
+
+export default function ModeTimelineChart() {
+  const schedule = useStore((s) => s.modeSchedule)
+
+  // One background band per contiguous run of a mode
+  const shapes = useMemo(() => {
+    if (!schedule) return []
+    const bands: any[] = []
+    const { timeHours, modeIndex } = schedule
+    let start = 0
+    for (let k = 1; k <= timeHours.length; k++) {
+      if (k < timeHours.length && modeIndex[k] === modeIndex[start]) continue
+      bands.push({
+        type: 'rect',
+        xref: 'x',
+        yref: 'paper',
+        x0: timeHours[start],
+        x1: timeHours[Math.min(k, timeHours.length - 1)],
+        y0: 0,
+        y1: 1,
+        fillcolor: MODE_COLORS[modeIndex[start] % MODE_COLORS.length],
+        opacity: 0.12,
+        line: { width: 0 },
+        layer: 'below',
+      })
+      start = k
+    }
+    return bands
+  }, [schedule])
+
+  if (!schedule) {
+    return (
+      <div className="h-full flex items-center justify-center text-[11px] text-[var(--text-tertiary)] font-mono">
+        Run the mode schedule in the Power panel to see the energy timeline
+      </div>
+    )
+  }
+
+  const traces: any[] = [
+    {
+      x: schedule.timeHours,
+      y: schedule.generationW,
+      type: 'scatter',
+      mode: 'lines',
+      name: 'Generation',
+      line: { color: '#F59E0B', width: 1 },
+      yaxis: 'y2',
+    },
+    {
+      x: schedule.timeHours,
+      y: schedule.loadW,
+      type: 'scatter',
+      mode: 'lines',
+      name: 'Load',
+      line: { color: '#EF4444', width: 1, shape: 'hv' },
+      yaxis: 'y2',
+    },
+    {
+      x: schedule.timeHours,
+      y: schedule.soc.map((v) => v * 100),
+      type: 'scatter',
+      mode: 'lines',
+      name: 'SOC',
+      line: { color: '#10B981', width: 2 },
+    },
+    // Legend entries for the mode bands
+    ...schedule.modes.map((m, k) => ({
+      x: [null],
+      y: [null],
+      type: 'scatter',
+      mode: 'markers',
+      name: m.name,
+      marker: { color: MODE_COLORS[k % MODE_COLORS.length], symbol: 'square', size: 9, opacity: 0.5 },
+    })),
+  ]
+
+  return (
+    <div className="h-full">
+      <Plot
+        data={traces}
+        layout={{
+          paper_bgcolor: 'transparent',
+          plot_bgcolor: 'transparent',
+          font: { family: 'JetBrains Mono', size: 10, color: '#9CA3AF' },
+          margin: { l: 50, r: 50, t: 30, b: 40 },
+          legend: {
+            font: { size: 9, color: '#9CA3AF' },
+            bgcolor: 'transparent',
+            orientation: 'h' as const,
+            y: 1.12,
+          },
+          title: {
+            text: `Mode Timeline — ${schedule.durationDays.toFixed(1)} d from ${schedule.epochISO.slice(0, 10)}`,
+            font: { size: 11, color: '#9CA3AF' },
+          },
+          shapes,
+          xaxis: {
+            title: { text: 'Time (hours)', font: { size: 9 } },
+            gridcolor: 'rgba(255,255,255,0.05)',
+            color: '#6B7280',
+          },
+          yaxis: {
+            title: { text: 'SOC (%)', font: { size: 9 } },
+            gridcolor: 'rgba(255,255,255,0.05)',
+            color: '#10B981',
+            range: [0, 105],
+          },
+          yaxis2: {
+            title: { text: 'Power (W)', font: { size: 9 } },
+            overlaying: 'y',
+            side: 'right',
+            gridcolor: 'transparent',
+            color: '#F59E0B',
+            rangemode: 'tozero',
+          },
+        }}
+        config={{ displayModeBar: false, responsive: true }}
+        style={{ width: '100%', height: '100%' }}
+        useResizeHandler
+      />
+    </div>
+  )
+}
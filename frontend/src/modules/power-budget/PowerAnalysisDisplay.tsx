@@ -3,17 +3,40 @@ import { useStore } from '@/stores'
 import DataReadout from '@/components/ui/DataReadout'
 import MetricCard from '@/components/ui/MetricCard'
 import SectionHeader from '@/components/ui/SectionHeader'
-import { computePowerAnalysis } from '@/lib/power-budget'
+import { computePowerAnalysis, powerMarginStatus, batteryDoDStatus, type PowerDay } from '@/lib/power-budget'
 import ThermalSection from './ThermalSection'
 
 export default function PowerAnalysisDisplay() {
   const elements = useStore((s) => s.elements)
   const mission = useStore((s) => s.mission)
   const subsystems = useStore((s) => s.subsystems)
+  const schedule = useStore((s) => s.modeSchedule)
 
   const analysis = useMemo(
-    () => computePowerAnalysis(elements, mission.spacecraft, subsystems, mission.lifetimeTarget),
-    [elements, mission.spacecraft, subsystems, mission.lifetimeTarget]
+    () => computePowerAnalysis(elements, mission.spacecraft, subsystems, mission.lifetimeTarget, undefined, mission.epoch),
+    [elements, mission.spacecraft, subsystems, mission.lifetimeTarget, mission.epoch]
+  )
+  const timeline = analysis.eclipseTimeline
+
+  const dayReadouts = (day: PowerDay) => (
+    <div className="grid grid-cols-2 gap-2">
+      <DataReadout label="Date" value={day.dateISO.slice(0, 10)} />
+      <DataReadout label="Beta Angle" value={day.betaDeg.toFixed(1)} unit="°" />
+      <DataReadout label="Eclipse" value={day.eclipseMin.toFixed(1)} unit="min" />
+      <DataReadout label="Avg Generation" value={day.avgPowerGeneration.toFixed(2)} unit="W" />
+      <DataReadout
+        label="Power Margin"
+        value={(day.powerMargin * 100).toFixed(1)}
+        unit="%"
+        status={powerMarginStatus(day.powerMargin)}
+      />
+      <DataReadout
+        label="Battery DoD"
+        value={(day.batteryDoD * 100).toFixed(1)}
+        unit="%"
+        status={batteryDoDStatus(day.batteryDoD)}
+      />
+    </div>
   )
 
   return (
@@ -36,11 +59,25 @@ export default function PowerAnalysisDisplay() {
           status={analysis.dodStatus}
         />
         <MetricCard
-          label="Eclipse Duration"
-          value={analysis.eclipseDurationMin.toFixed(1)}
+          label={analysis.worstDay ? 'Eclipse (Worst Day)' : 'Eclipse Duration'}
+          value={(analysis.worstDay ? analysis.worstDay.eclipseMin : analysis.eclipseDurationMin).toFixed(1)}
           unit="min"
           status="nominal"
         />
+        {analysis.battery && (
+          <>
+            <MetricCard
+              label="Battery Capacity (EOL)"
+              value={`${(analysis.battery.life.eolCapacityFraction * 100).toFixed(1)}%`}
+              status={analysis.battery.life.eolCapacityFraction >= 0.8 ? 'nominal' : analysis.battery.life.eolCapacityFraction >= 0.7 ? 'warning' : 'critical'}
+            />
+            <MetricCard
+              label="Battery DoD (EOL)"
+              value={`${(analysis.battery.eolDoD * 100).toFixed(1)}%`}
+              status={analysis.battery.eolDoDStatus}
+            />
+          </>
+        )}
       </div>
 
       <SectionHeader title="Power Generation">
@@ -93,6 +130,58 @@ export default function PowerAnalysisDisplay() {
         </div>
       </SectionHeader>
 
+      {analysis.arrayPerformance && (
+        <SectionHeader title="Solar Array">
+          <div className="grid grid-cols-2 gap-2">
+            <DataReadout
+              label="Mean Incidence"
+              value={(analysis.arrayPerformance.meanIncidence * 100).toFixed(1)}
+              unit="%"
+            />
+            <DataReadout
+              label="Self-Shadow Loss"
+              value={(analysis.arrayPerformance.shadowLoss * 100).toFixed(1)}
+              unit="%"
+            />
+            <DataReadout
+              label="Temperature Loss"
+              value={(analysis.arrayPerformance.temperatureLoss * 100).toFixed(1)}
+              unit="%"
+            />
+            <DataReadout
+              label="Peak Array Power"
+              value={analysis.arrayPerformance.peakPowerW.toFixed(2)}
+              unit="W"
+            />
+            <DataReadout
+              label="Cell Temp Min"
+              value={analysis.arrayPerformance.minCellTempC.toFixed(0)}
+              unit="°C"
+            />
+            <DataReadout
+              label="Cell Temp Max"
+              value={analysis.arrayPerformance.maxCellTempC.toFixed(0)}
+              unit="°C"
+            />
+          </div>
+        </SectionHeader>
+      )}
+
+      {timeline && analysis.worstDay && analysis.bestDay && (
+        <SectionHeader title="Eclipse Seasons">
+          <div className="grid grid-cols-2 gap-2">
+            <DataReadout label="Min Beta" value={timeline.minBetaDeg.toFixed(1)} unit="°" />
+            <DataReadout label="Max Beta" value={timeline.maxBetaDeg.toFixed(1)} unit="°" />
+            <DataReadout label="Eclipse-Free Days" value={timeline.eclipseFreeDays.toFixed(0)} unit="d" />
+            <DataReadout label="Span" value={timeline.durationDays.toFixed(0)} unit="d" />
+          </div>
+          <div className="text-[10px] text-[var(--text-secondary)] mt-2 mb-1">Worst Day (headline figures)</div>
+          {dayReadouts(analysis.worstDay)}
+          <div className="text-[10px] text-[var(--text-secondary)] mt-2 mb-1">Best Day</div>
+          {dayReadouts(analysis.bestDay)}
+        </SectionHeader>
+      )}
+
       <SectionHeader title="Battery">
         <div className="grid grid-cols-2 gap-2">
           <DataReadout
@@ -106,9 +195,93 @@ export default function PowerAnalysisDisplay() {
             unit="%"
             status={analysis.dodStatus}
           />
+          {analysis.battery && (
+            <>
+              <DataReadout label="Pack Voltage" value={analysis.battery.nominalVoltage.toFixed(1)} unit="V" />
+              <DataReadout label="Usable (Derated)" value={analysis.battery.usableEnergyWh.toFixed(1)} unit="Wh" />
+              <DataReadout label="Max Charge" value={analysis.battery.maxChargeW.toFixed(1)} unit="W" />
+              <DataReadout
+                label="Max Discharge"
+                value={analysis.battery.maxDischargeW.toFixed(1)}
+                unit="W"
+                status={analysis.battery.dischargeLimited ? 'critical' : 'default'}
+              />
+              <DataReadout
+                label="Recharge Margin"
+                value={Number.isFinite(analysis.battery.rechargeMargin) ? (analysis.battery.rechargeMargin * 100).toFixed(0) : '—'}
+                unit="%"
+                status={powerMarginStatus(analysis.battery.rechargeMargin)}
+              />
+              <DataReadout label="Min Voltage (OCV)" value={analysis.battery.minVoltage.toFixed(2)} unit="V" />
+            </>
+          )}
         </div>
+        {analysis.battery && (
+          <>
+            <div className="text-[10px] text-[var(--text-secondary)] mt-2 mb-1">
+              Cycle Life over {mission.lifetimeTarget} yr
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <DataReadout label="Cycles" value={analysis.battery.life.cycles.toFixed(0)} />
+              <DataReadout label="Mean DoD" value={(analysis.battery.life.meanDoD * 100).toFixed(1)} unit="%" />
+              <DataReadout
+                label="Cycle Life at Mean DoD"
+                value={Number.isFinite(analysis.battery.life.cycleLifeAtMeanDoD) ? analysis.battery.life.cycleLifeAtMeanDoD.toFixed(0) : '—'}
+              />
+              <DataReadout label="Max DoD" value={(analysis.battery.life.maxDoD * 100).toFixed(1)} unit="%" />
+              <DataReadout label="Cycle Fade" value={(analysis.battery.life.cycleFade * 100).toFixed(1)} unit="%" />
+              <DataReadout label="Calendar Fade" value={(analysis.battery.life.calendarFade * 100).toFixed(1)} unit="%" />
+              <DataReadout label="EOL Capacity" value={analysis.battery.life.eolCapacityWh.toFixed(1)} unit="Wh" />
+              <DataReadout
+                label="EOL Power Margin"
+                value={(analysis.eolMargin * 100).toFixed(1)}
+                unit="%"
+                status={analysis.eolMarginStatus}
+              />
+            </div>
+          </>
+        )}
       </SectionHeader>
 
+      {schedule && (
+        <SectionHeader title="Mode Schedule">
+          <div className="grid grid-cols-2 gap-2">
+            <DataReadout
+              label="Worst SOC"
+              value={(schedule.worstSoc * 100).toFixed(1)}
+              unit="%"
+              status={batteryDoDStatus(1 - schedule.worstSoc)}
+            />
+            <DataReadout label="Final SOC" value={(schedule.finalSoc * 100).toFixed(1)} unit="%" />
+            <DataReadout label="Avg Load" value={schedule.averageLoadW.toFixed(2)} unit="W" />
+            <DataReadout label="Budget Avg" value={schedule.budgetAverageW.toFixed(2)} unit="W" />
+            <DataReadout label="Generated" value={schedule.generatedWh.toFixed(1)} unit="Wh" />
+            <DataReadout label="Consumed" value={schedule.consumedWh.toFixed(1)} unit="Wh" />
+            <DataReadout
+              label="Unmet Load"
+              value={schedule.unmetWh.toFixed(2)}
+              unit="Wh"
+              status={schedule.unmetWh > 0 ? 'critical' : 'nominal'}
+            />
+            <DataReadout label="Curtailed" value={schedule.curtailedWh.toFixed(1)} unit="Wh" />
+            <DataReadout label="Passes" value={schedule.passCount.toFixed(0)} />
+            <DataReadout label="Target Overflights" value={schedule.targetOverflights.toFixed(0)} />
+          </div>
+          <div className="text-[10px] text-[var(--text-secondary)] mt-2 mb-1">
+            {schedule.durationDays.toFixed(1)} d from {schedule.epochISO.slice(0, 10)} · worst SOC at{' '}
+            {schedule.worstSocISO.slice(0, 16).replace('T', ' ')} UTC · {schedule.modeSwitches} switches
+          </div>
+          <div className="space-y-1">
+            {schedule.modeStats.map((m) => (
+              <div key={m.modeId} className="flex items-center justify-between text-[10px] font-mono text-[var(--text-secondary)]">
+                <span>{m.name}</span>
+                <span className="text-accent-cyan">{m.hours.toFixed(1)} h · {m.energyWh.toFixed(1)} Wh</span>
+              </div>
+            ))}
+          </div>
+        </SectionHeader>
+      )}
+
       <ThermalSection />
     </div>
   )
@@ -1,10 +1,16 @@
 import { useState } from 'react'
 import PowerChart from './PowerChart'
+import EclipseChart from './EclipseChart'
+import ModeTimelineChart from './ModeTimelineChart'
 import ThermalChart from './ThermalChart'
+import ThermalNetworkChart from './ThermalNetworkChart'
 
 const TABS = [
   { id: 'power', label: 'Power Profile' },
+  { id: 'eclipse', label: 'Eclipse Seasons' },
+  { id: 'modes', label: 'Mode Timeline' },
   { id: 'thermal', label: 'Thermal Profile' },
+  { id: 'network', label: 'Thermal Nodes' },
 ] as const
 
 type TabId = (typeof TABS)[number]['id']
@@ -36,7 +42,10 @@ export default function PowerBottomPanel() {
       {/* Content */}
       <div className="flex-1 min-h-0">
         {activeTab === 'power' && <PowerChart />}
+        {activeTab === 'eclipse' && <EclipseChart />}
+        {activeTab === 'modes' && <ModeTimelineChart />}
         {activeTab === 'thermal' && <ThermalChart />}
+        {activeTab === 'network' && <ThermalNetworkChart />}
       </div>
     </div>
   )
@@ -3,7 +3,36 @@ import { useStore } from '@/stores'
 import SectionHeader from '@/components/ui/SectionHeader'
 import ExportCSVButton from '@/components/ui/ExportCSVButton'
 import { subsystemAvgPower, totalAvgPowerDraw } from '@/lib/power-budget'
+import type { PowerSubsystem } from '@/lib/power-budget'
+import { HEATER_SUBSYSTEM_ID, heaterSubsystem } from '@/lib/thermal-network'
+import { useThermalNetwork } from '@/hooks/useThermalNetwork'
 import { exportCSV } from '@/lib/csv-export'
+import SolarArraySection from './SolarArraySection'
+import BatteryPackSection from './BatteryPackSection'
+import ModeScheduleSection from './ModeScheduleSection'
+import ThermalNetworkSection from './ThermalNetworkSection'
+
+/** Flags a heater entry that disagrees with the thermal network's orbit-average heater draw */
+function HeaterNetworkCheck({ heater }: { heater: PowerSubsystem }) {
+  const updateSubsystem = useStore((s) => s.updateSubsystem)
+  const network = useThermalNetwork()
+  const budgetW = subsystemAvgPower(heater)
+  if (Math.abs(budgetW - network.heaterAvgW) <= Math.max(0.05, 0.05 * network.heaterAvgW)) return null
+
+  return (
+    <div className="flex items-center justify-between gap-2 mt-2">
+      <span className="text-[9px] text-accent-amber font-mono">
+        Thermal network heaters average {network.heaterAvgW.toFixed(2)} W
+      </span>
+      <button
+        onClick={() => updateSubsystem(HEATER_SUBSYSTEM_ID, heaterSubsystem(network))}
+        className="text-[9px] text-accent-blue hover:text-accent-blue-hover font-mono shrink-0"
+      >
+        Use network value
+      </button>
+    </div>
+  )
+}
 
 export default function PowerBudgetPanel() {
   const subsystems = useStore((s) => s.subsystems)
@@ -133,6 +162,7 @@ export default function PowerBudgetPanel() {
                     </div>
                   </div>
                 </div>
+                {sub.id === HEATER_SUBSYSTEM_ID && <HeaterNetworkCheck heater={sub} />}
               </div>
             )
           })}
@@ -216,6 +246,14 @@ export default function PowerBudgetPanel() {
         </div>
       </SectionHeader>
 
+      <SolarArraySection />
+
+      <BatteryPackSection />
+
+      <ModeScheduleSection />
+
+      <ThermalNetworkSection />
+
       <SectionHeader title="Panel Degradation">
         <div className="space-y-2">
           <div className="flex items-center justify-between">
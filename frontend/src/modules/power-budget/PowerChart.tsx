@@ -2,20 +2,27 @@ import { useMemo } from 'react'
 import Plot from 'react-plotly.js'
 import { useStore } from '@/stores'
 import { computeOrbitPowerProfile, computePowerAnalysis, totalAvgPowerDraw, subsystemAvgPower } from '@/lib/power-budget'
+import { driftedElements } from '@/lib/eclipse'
 
 export default function PowerChart() {
   const elements = useStore((s) => s.elements)
   const mission = useStore((s) => s.mission)
   const subsystems = useStore((s) => s.subsystems)
 
-  const profile = useMemo(
-    () => computeOrbitPowerProfile(elements, mission.spacecraft, subsystems),
-    [elements, mission.spacecraft, subsystems]
+  const analysis = useMemo(
+    () => computePowerAnalysis(elements, mission.spacecraft, subsystems, mission.lifetimeTarget, undefined, mission.epoch),
+    [elements, mission.spacecraft, subsystems, mission.lifetimeTarget, mission.epoch]
   )
 
-  const analysis = useMemo(
-    () => computePowerAnalysis(elements, mission.spacecraft, subsystems, mission.lifetimeTarget),
-    [elements, mission.spacecraft, subsystems, mission.lifetimeTarget]
+  // One orbit on the longest-eclipse day of the mission
+  const worstDay = analysis.worstDay
+  const profile = useMemo(
+    () => worstDay
+      ? computeOrbitPowerProfile(
+        driftedElements(elements, worstDay.day), mission.spacecraft, subsystems, 120, new Date(worstDay.dateISO),
+      )
+      : computeOrbitPowerProfile(elements, mission.spacecraft, subsystems),
+    [elements, mission.spacecraft, subsystems, worstDay]
   )
 
   // Build eclipse shading shapes
@@ -92,6 +99,11 @@ export default function PowerChart() {
     name: 'Battery',
     line: { color: '#10B981', width: 2 },
     yaxis: 'y2',
+    // Pack voltage from the cell curve, on hover
+    ...(profile.batteryVoltage ? {
+      text: profile.batteryVoltage.map((v) => `${v.toFixed(2)} V`),
+      hovertemplate: '%{y:.1f} Wh · %{text}<extra>Battery</extra>',
+    } : {}),
   }
 
   // Pie chart for subsystem power distribution
@@ -133,7 +145,12 @@ export default function PowerChart() {
           data={[...timelineTraces, batteryTrace]}
           layout={{
             ...darkLayout,
-            title: { text: 'Power Profile — 1 Orbit', font: { size: 11, color: '#9CA3AF' } },
+            title: {
+              text: worstDay
+                ? `Power Profile — 1 Orbit, Worst Day ${worstDay.dateISO.slice(0, 10)} (β ${worstDay.betaDeg.toFixed(1)}°)`
+                : 'Power Profile — 1 Orbit',
+              font: { size: 11, color: '#9CA3AF' },
+            },
             xaxis: {
               title: { text: 'Time (min)', font: { size: 9 } },
               gridcolor: 'rgba(255,255,255,0.05)',
@@ -0,0 +1,218 @@
+import { useStore } from '@/stores'
+import SectionHeader from '@/components/ui/SectionHeader'
+import NumberInput from '@/components/ui/NumberInput'
+import { defaultSolarArray, solarArrayArea } from '@/lib/solar-array'
+import type { SolarArrayConfig, SolarPanel, PanelMount, PanelTracking } from '@/types/mission'
+
+type Triple = [number, number, number]
+
+const inputClass =
+  'w-full rounded border border-white/10 bg-white/[0.06] px-1 py-1 text-xs font-mono text-[var(--text-primary)] text-center focus:border-accent-blue focus:outline-none'
+const labelClass = 'text-[9px] uppercase tracking-wider text-[var(--text-secondary)] block mb-1'
+
+function TripleInput({ label, value, step, onChange }: {
+  label: string
+  value: Triple
+  step: number
+  onChange: (v: Triple) => void
+}) {
+  return (
+    <div>
+      <label className={labelClass}>{label}</label>
+      <div className="grid grid-cols-3 gap-1">
+        {value.map((c, k) => (
+          <input
+            key={k}
+            type="number"
+            value={c}
+            step={step}
+            onChange={(e) => {
+              const next = [...value] as Triple
+              next[k] = parseFloat(e.target.value) || 0
+              onChange(next)
+            }}
+            className={inputClass}
+          />
+        ))}
+      </div>
+    </div>
+  )
+}
+
+export default function SolarArraySection() {
+  const spacecraft = useStore((s) => s.mission.spacecraft)
+  const updateSpacecraft = useStore((s) => s.updateSpacecraft)
+  const array = spacecraft.solarArray
+
+  // Panel areas are authoritative; keep the spacecraft total in step
+  const setArray = (next: SolarArrayConfig | undefined) =>
+    updateSpacecraft(next ? { solarArray: next, solarPanelArea: solarArrayArea(next) } : { solarArray: undefined })
+
+  const updatePanel = (id: string, partial: Partial<SolarPanel>) => {
+    if (!array) return
+    setArray({ ...array, panels: array.panels.map((p) => (p.id === id ? { ...p, ...partial } : p)) })
+  }
+
+  const addPanel = () => {
+    if (!array) return
+    setArray({
+      ...array,
+      panels: [...array.panels, {
+        id: `panel-${Date.now()}`,
+        name: `Panel ${array.panels.length + 1}`,
+        mount: 'deployable',
+        tracking: 'fixed',
+        areaM2: 0.03,
+        normal: [0, 0, -1],
+        axis: [0, 1, 0],
+        position: [0, 0, -array.bodyDimsM[2]],
+      }],
+    })
+  }
+
+  return (
+    <SectionHeader title="Solar Array Geometry" defaultOpen={false}>
+      <div className="space-y-2">
+        <label className="flex items-center justify-between">
+          <span className="text-[10px] text-[var(--text-secondary)]">Panel geometry model</span>
+          <input
+            type="checkbox"
+            checked={!!array}
+            onChange={(e) => setArray(e.target.checked ? defaultSolarArray(spacecraft) : undefined)}
+            className="accent-accent-blue w-3 h-3"
+          />
+        </label>
+        <div className="text-[10px] text-[var(--text-tertiary)]">
+          {array
+            ? 'Body frame: +X along-track, +Y anti-orbit-normal, +Z nadir when nadir-pointing; sun-pointing turns −Z to the Sun.'
+            : 'Off: generation uses the incidence factor for the panel config and pointing mode.'}
+        </div>
+
+        {array && (
+          <>
+            <TripleInput
+              label="Bus Box X / Y / Z (m)"
+              value={array.bodyDimsM}
+              step={0.01}
+              onChange={(v) => setArray({ ...array, bodyDimsM: v.map((d) => Math.max(0.01, d)) as Triple })}
+            />
+            <div className="grid grid-cols-3 gap-2">
+              <div>
+                <label className={labelClass}>Temp Coef (%/°C)</label>
+                <input
+                  type="number"
+                  value={+(array.tempCoeffPerC * 100).toFixed(3)}
+                  step={0.01}
+                  onChange={(e) => setArray({ ...array, tempCoeffPerC: (parseFloat(e.target.value) || 0) / 100 })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className={labelClass}>Absorptance</label>
+                <NumberInput
+                  value={array.absorptance}
+                  step={0.01}
+                  min={0}
+                  max={1}
+                  onChange={(v) => setArray({ ...array, absorptance: v })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className={labelClass}>Emittance</label>
+                <NumberInput
+                  value={array.emittance}
+                  step={0.01}
+                  min={0}
+                  max={1}
+                  onChange={(v) => setArray({ ...array, emittance: v })}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+
+            {array.panels.map((panel) => (
+              <div
+                key={panel.id}
+                className="rounded-md border border-white/5 bg-white/[0.03] px-2 py-2 group space-y-2"
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <input
+                    type="text"
+                    value={panel.name}
+                    onChange={(e) => updatePanel(panel.id, { name: e.target.value })}
+                    className="input-field flex-1 min-w-0 text-xs"
+                  />
+                  <button
+                    onClick={() => setArray({ ...array, panels: array.panels.filter((p) => p.id !== panel.id) })}
+                    className="text-[9px] text-accent-red/40 hover:text-accent-red transition-colors opacity-0 group-hover:opacity-100 px-1"
+                  >
+                    Remove
+                  </button>
+                </div>
+                <div className="grid grid-cols-3 gap-2">
+                  <div>
+                    <label className={labelClass}>Mount</label>
+                    <select
+                      value={panel.mount}
+                      onChange={(e) => updatePanel(panel.id, { mount: e.target.value as PanelMount })}
+                      className="input-field w-full text-xs"
+                    >
+                      <option value="body">Body</option>
+                      <option value="deployable">Deployable</option>
+                    </select>
+                  </div>
+                  <div>
+                    <label className={labelClass}>Drive</label>
+                    <select
+                      value={panel.tracking}
+                      onChange={(e) => updatePanel(panel.id, { tracking: e.target.value as PanelTracking })}
+                      className="input-field w-full text-xs"
+                    >
+                      <option value="fixed">Fixed</option>
+                      <option value="1-axis">1-Axis</option>
+                      <option value="2-axis">2-Axis</option>
+                    </select>
+                  </div>
+                  <div>
+                    <label className={labelClass}>Area (m²)</label>
+                    <NumberInput
+                      value={panel.areaM2}
+                      precision={4}
+                      step={0.005}
+                      min={0}
+                      onChange={(v) => updatePanel(panel.id, { areaM2: v })}
+                      className={inputClass}
+                    />
+                  </div>
+                </div>
+                <TripleInput label="Normal" value={panel.normal} step={0.1} onChange={(v) => updatePanel(panel.id, { normal: v })} />
+                <TripleInput label="Hinge / Drive Axis" value={panel.axis} step={0.1} onChange={(v) => updatePanel(panel.id, { axis: v })} />
+                <TripleInput label="Centre (m)" value={panel.position} step={0.01} onChange={(v) => updatePanel(panel.id, { position: v })} />
+              </div>
+            ))}
+
+            <div className="flex items-center justify-between text-[10px] font-mono text-[var(--text-secondary)]">
+              <span>Total cell area</span>
+              <span className="text-accent-cyan">{solarArrayArea(array).toFixed(4)} m²</span>
+            </div>
+            <div className="flex gap-2">
+              <button
+                onClick={addPanel}
+                className="flex-1 px-3 py-1.5 rounded-md bg-accent-blue text-white text-xs font-sans font-semibold hover:bg-accent-blue-hover transition-colors"
+              >
+                Add Panel
+              </button>
+              <button
+                onClick={() => setArray(defaultSolarArray(spacecraft))}
+                className="flex-1 px-3 py-1.5 rounded-md border border-white/10 text-[var(--text-secondary)] text-xs font-sans hover:bg-white/5 transition-colors"
+              >
+                Reset from Config
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </SectionHeader>
+  )
+}
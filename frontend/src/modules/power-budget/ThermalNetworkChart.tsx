@@ -0,0 +1,134 @@
+import { useMemo } from 'react'
+import Plot from 'react-plotly.js'
+import { useThermalNetwork } from '@/hooks/useThermalNetwork'
+
+const COMPONENT_COLORS: Record<string, string> = {
+  battery: '#10B981',
+  payload: '#8B5CF6',
+  electronics: '#06B6D4',
+}
+
+export default function ThermalNetworkChart() {
+  const result = useThermalNetwork()
+  const { timeMinutes, illumination } = result
+
+  // Eclipse shading where the Sun is more than half hidden
+  const eclipseShapes = useMemo(() => {
+    const shapes: any[] = []
+    let start: number | null = null
+    for (let i = 0; i <= timeMinutes.length; i++) {
+      const dark = i < timeMinutes.length && illumination[i] < 0.5
+      if (dark && start === null) start = timeMinutes[i]
+      if (!dark && start !== null) {
+        shapes.push({
+          type: 'rect',
+          xref: 'x',
+          yref: 'paper',
+          x0: start,
+          x1: timeMinutes[Math.min(i, timeMinutes.length - 1)],
+          y0: 0,
+          y1: 1,
+          fillcolor: 'rgba(107, 114, 128, 0.15)',
+          line: { width: 0 },
+          layer: 'below',
+        })
+        start = null
+      }
+    }
+    return shapes
+  }, [timeMinutes, illumination])
+
+  const components = result.nodes.filter((n) => n.limitMinC !== null && n.limitMaxC !== null)
+
+  const traces: any[] = [
+    // Structure first and faint, so the components read on top
+    ...result.nodes
+      .filter((n) => n.kind === 'face' || n.kind === 'panel')
+      .map((n) => ({
+        x: timeMinutes,
+        y: n.tempC,
+        type: 'scatter',
+        mode: 'lines',
+        name: n.name,
+        line: { color: n.kind === 'panel' ? '#F59E0B' : '#6B7280', width: 1 },
+        opacity: 0.45,
+        legendgroup: n.kind,
+      })),
+    ...components.map((n) => ({
+      x: timeMinutes,
+      y: n.tempC,
+      type: 'scatter',
+      mode: 'lines',
+      name: n.name,
+      line: { color: COMPONENT_COLORS[n.kind] ?? '#EF4444', width: 2 },
+    })),
+    {
+      x: timeMinutes,
+      y: result.heaterW,
+      type: 'scatter',
+      mode: 'lines',
+      name: 'Heaters',
+      line: { color: '#EF4444', width: 1, shape: 'hv' },
+      yaxis: 'y2',
+    },
+  ]
+
+  // Dashed operating limits per component, in the component's colour
+  const limitShapes = components.flatMap((n) =>
+    [n.limitMinC, n.limitMaxC].map((y) => ({
+      type: 'line',
+      xref: 'paper',
+      x0: 0, x1: 1,
+      yref: 'y',
+      y0: y, y1: y,
+      line: { color: COMPONENT_COLORS[n.kind] ?? '#EF4444', width: 1, dash: 'dash' },
+      opacity: 0.5,
+    }))
+  )
+
+  return (
+    <div className="h-full">
+      <Plot
+        data={traces}
+        layout={{
+          paper_bgcolor: 'transparent',
+          plot_bgcolor: 'transparent',
+          font: { family: 'JetBrains Mono', size: 10, color: '#9CA3AF' },
+          margin: { l: 55, r: 50, t: 30, b: 45 },
+          legend: {
+            font: { size: 9, color: '#9CA3AF' },
+            bgcolor: 'transparent',
+            orientation: 'h' as const,
+            y: 1.12,
+          },
+          title: {
+            text: `Thermal Nodes — ${result.dateISO.slice(0, 10)}, β ${result.betaDeg.toFixed(1)}°`,
+            font: { size: 11, color: '#9CA3AF' },
+          },
+          shapes: [...eclipseShapes, ...limitShapes],
+          xaxis: {
+            title: { text: 'Time (min)', font: { size: 9 } },
+            gridcolor: 'rgba(255,255,255,0.05)',
+            color: '#6B7280',
+          },
+          yaxis: {
+            title: { text: 'Temperature (°C)', font: { size: 9 } },
+            gridcolor: 'rgba(255,255,255,0.05)',
+            color: '#9CA3AF',
+          },
+          yaxis2: {
+            title: { text: 'Heater (W)', font: { size: 9 } },
+            overlaying: 'y',
+            side: 'right',
+            gridcolor: 'transparent',
+            color: '#EF4444',
+            rangemode: 'tozero',
+          },
+        }}
+        config={{ displayModeBar: false, responsive: true }}
+        style={{ width: '100%', height: '100%' }}
+        useResizeHandler
+      />
+    </div>
+  )
+}
@@ -0,0 +1,269 @@
+import { useStore } from '@/stores'
+import SectionHeader from '@/components/ui/SectionHeader'
+import NumberInput from '@/components/ui/NumberInput'
+import { SURFACE_MATERIALS } from '@/lib/thermal-analysis'
+import { FACE_IDS, HEATER_SUBSYSTEM_ID, heaterSubsystem } from '@/lib/thermal-network'
+import type { ComponentNodeConfig, HeaterConfig, ThermalOrbitCase } from '@/lib/thermal-network'
+import { useThermalNetwork } from '@/hooks/useThermalNetwork'
+
+const inputClass =
+  'w-full rounded border border-white/10 bg-white/[0.06] px-1 py-1 text-xs font-mono text-[var(--text-primary)] text-center focus:border-accent-blue focus:outline-none'
+const labelClass = 'text-[9px] uppercase tracking-wider text-[var(--text-secondary)] block mb-1'
+const cardClass = 'rounded-md border border-white/5 bg-white/[0.03] px-2 py-2 group space-y-2'
+const secondaryButtonClass =
+  'w-full px-3 py-1.5 rounded-md border border-white/10 text-[var(--text-secondary)] text-xs font-sans hover:bg-white/5 transition-colors'
+
+const ORBIT_CASE_LABELS: Record<ThermalOrbitCase, string> = {
+  epoch: 'Mission epoch',
+  hot: 'Hot (shortest eclipse)',
+  cold: 'Cold (longest eclipse)',
+}
+
+function NodeField({ label, value, step, min, max, disabled, onChange }: {
+  label: string
+  value: number
+  step: number
+  min: number
+  max: number
+  disabled?: boolean
+  onChange: (v: number) => void
+}) {
+  return (
+    <div>
+      <label className={labelClass}>{label}</label>
+      <NumberInput
+        value={value}
+        step={step}
+        min={min}
+        max={max}
+        disabled={disabled}
+        onChange={onChange}
+        className={`${inputClass} disabled:opacity-50`}
+      />
+    </div>
+  )
+}
+
+export default function ThermalNetworkSection() {
+  const config = useStore((s) => s.thermalNetworkConfig)
+  const subsystems = useStore((s) => s.subsystems)
+  const payloadShared = useStore((s) => s.payloadShared)
+  const updateConfig = useStore((s) => s.updateThermalNetworkConfig)
+  const resetConfig = useStore((s) => s.resetThermalNetworkConfig)
+  const addSubsystem = useStore((s) => s.addSubsystem)
+  const updateSubsystem = useStore((s) => s.updateSubsystem)
+  const result = useThermalNetwork()
+
+  const updateComponent = (id: string, partial: Partial<ComponentNodeConfig>) =>
+    updateConfig({ components: config.components.map((c) => (c.id === id ? { ...c, ...partial } : c)) })
+  const updateHeater = (node: ComponentNodeConfig, partial: Partial<HeaterConfig>) =>
+    updateComponent(node.id, { heater: { ...node.heater, ...partial } })
+
+  // A subsystem dissipates in one component at most
+  const toggleSubsystem = (node: ComponentNodeConfig, subsystemId: string, on: boolean) =>
+    updateConfig({
+      components: config.components.map((c) => {
+        const rest = c.subsystemIds.filter((id) => id !== subsystemId)
+        return { ...c, subsystemIds: on && c.id === node.id ? [...rest, subsystemId] : rest }
+      }),
+    })
+
+  const applyHeaterLoad = () => {
+    const heater = heaterSubsystem(result)
+    if (subsystems.some((s) => s.id === HEATER_SUBSYSTEM_ID)) updateSubsystem(HEATER_SUBSYSTEM_ID, heater)
+    else addSubsystem(heater)
+  }
+
+  const dissipating = subsystems.filter((s) => s.id !== HEATER_SUBSYSTEM_ID)
+
+  return (
+    <SectionHeader title="Thermal Network" defaultOpen={false}>
+      <div className="space-y-3">
+        <div>
+          <label className={labelClass}>Orbit Case</label>
+          <select
+            value={config.orbitCase}
+            onChange={(e) => updateConfig({ orbitCase: e.target.value as ThermalOrbitCase })}
+            className="input-field w-full text-xs"
+          >
+            {(Object.keys(ORBIT_CASE_LABELS) as ThermalOrbitCase[]).map((c) => (
+              <option key={c} value={c}>{ORBIT_CASE_LABELS[c]}</option>
+            ))}
+          </select>
+        </div>
+
+        {/* Face finishes, on the area not covered by body-mounted cells */}
+        <div>
+          <label className={labelClass}>Face Materials</label>
+          <div className="grid grid-cols-2 gap-x-2 gap-y-1">
+            {FACE_IDS.map((face) => (
+              <label key={face} className="flex items-center gap-1.5">
+                <span className="w-5 text-[10px] font-mono text-[var(--text-secondary)]">{face}</span>
+                <select
+                  value={config.faceMaterials[face]}
+                  onChange={(e) => updateConfig({ faceMaterials: { ...config.faceMaterials, [face]: e.target.value } })}
+                  className="input-field w-full text-xs min-w-0"
+                >
+                  {Object.entries(SURFACE_MATERIALS).map(([id, mat]) => (
+                    <option key={id} value={id}>{mat.name}</option>
+                  ))}
+                </select>
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          {config.components.map((node) => {
+            const isPayload = node.kind === 'payload'
+            return (
+              <div key={node.id} className={cardClass}>
+                <div className="text-xs text-[var(--text-primary)] font-mono font-semibold">{node.name}</div>
+                <div className="grid grid-cols-3 gap-2">
+                  <NodeField
+                    label="Mass (kg)"
+                    value={node.massKg}
+                    step={0.05}
+                    min={0.01}
+                    max={100}
+                    onChange={(v) => updateComponent(node.id, { massKg: v })}
+                  />
+                  <NodeField
+                    label="Cp (J/kg K)"
+                    value={node.specificHeat}
+                    step={50}
+                    min={100}
+                    max={5000}
+                    onChange={(v) => updateComponent(node.id, { specificHeat: v })}
+                  />
+                  <NodeField
+                    label="Mount (W/K)"
+                    value={node.mountConductance}
+                    step={0.05}
+                    min={0}
+                    max={20}
+                    onChange={(v) => updateComponent(node.id, { mountConductance: v })}
+                  />
+                  <NodeField
+                    label="Area (m²)"
+                    value={node.areaM2}
+                    step={0.005}
+                    min={0}
+                    max={2}
+                    onChange={(v) => updateComponent(node.id, { areaM2: v })}
+                  />
+                  <NodeField
+                    label="Emittance"
+                    value={node.emittance}
+                    step={0.05}
+                    min={0.01}
+                    max={1}
+                    onChange={(v) => updateComponent(node.id, { emittance: v })}
+                  />
+                  <div />
+                  <NodeField
+                    label="Min (°C)"
+                    value={isPayload ? payloadShared.tempMin : node.tempMinC}
+                    step={1}
+                    min={-100}
+                    max={150}
+                    disabled={isPayload}
+                    onChange={(v) => updateComponent(node.id, { tempMinC: v })}
+                  />
+                  <NodeField
+                    label="Max (°C)"
+                    value={isPayload ? payloadShared.tempMax : node.tempMaxC}
+                    step={1}
+                    min={-100}
+                    max={150}
+                    disabled={isPayload}
+                    onChange={(v) => updateComponent(node.id, { tempMaxC: v })}
+                  />
+                </div>
+                {isPayload && (
+                  <div className="text-[10px] text-[var(--text-tertiary)]">Limits from the payload configuration.</div>
+                )}
+
+                {/* Budget loads dissipated in this node */}
+                <div className="flex flex-wrap gap-x-3 gap-y-1">
+                  {dissipating.map((sub) => (
+                    <label key={sub.id} className="flex items-center gap-1">
+                      <input
+                        type="checkbox"
+                        checked={node.subsystemIds.includes(sub.id)}
+                        onChange={(e) => toggleSubsystem(node, sub.id, e.target.checked)}
+                        className="accent-accent-blue w-3 h-3"
+                      />
+                      <span className="text-[10px] text-[var(--text-secondary)]">{sub.name}</span>
+                    </label>
+                  ))}
+                </div>
+
+                <label className="flex items-center justify-between">
+                  <span className="text-[10px] text-[var(--text-secondary)]">Thermostatic heater</span>
+                  <input
+                    type="checkbox"
+                    checked={node.heater.enabled}
+                    onChange={(e) => updateHeater(node, { enabled: e.target.checked })}
+                    className="accent-accent-blue w-3 h-3"
+                  />
+                </label>
+                {node.heater.enabled && (
+                  <div className="grid grid-cols-3 gap-2">
+                    <NodeField
+                      label="Heater (W)"
+                      value={node.heater.powerW}
+                      step={0.1}
+                      min={0}
+                      max={50}
+                      onChange={(v) => updateHeater(node, { powerW: v })}
+                    />
+                    <NodeField
+                      label="On below (°C)"
+                      value={node.heater.onBelowC}
+                      step={1}
+                      min={-100}
+                      max={100}
+                      onChange={(v) => updateHeater(node, { onBelowC: v, offAboveC: Math.max(v, node.heater.offAboveC) })}
+                    />
+                    <NodeField
+                      label="Off above (°C)"
+                      value={node.heater.offAboveC}
+                      step={1}
+                      min={-100}
+                      max={100}
+                      onChange={(v) => updateHeater(node, { offAboveC: v, onBelowC: Math.min(v, node.heater.onBelowC) })}
+                    />
+                  </div>
+                )}
+              </div>
+            )
+          })}
+        </div>
+
+        <div className="space-y-1 text-[10px] font-mono text-[var(--text-secondary)]">
+          <div className="flex items-center justify-between">
+            <span>Heater average</span>
+            <span className="text-accent-cyan">
+              {result.heaterAvgW.toFixed(2)} / {result.heaterInstalledW.toFixed(2)} W
+            </span>
+          </div>
+          <div className="flex items-center justify-between">
+            <span>Internal dissipation</span>
+            <span className="text-accent-cyan">{result.dissipationW.toFixed(2)} W</span>
+          </div>
+        </div>
+
+        <button
+          onClick={applyHeaterLoad}
+          className="w-full px-3 py-1.5 rounded-md bg-accent-blue text-white text-xs font-sans font-semibold hover:bg-accent-blue-hover transition-colors"
+        >
+          Apply Heater Load to Budget
+        </button>
+        <button onClick={resetConfig} className={secondaryButtonClass}>
+          Reset Thermal Network
+        </button>
+      </div>
+    </SectionHeader>
+  )
+}
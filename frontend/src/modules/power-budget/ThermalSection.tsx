@@ -11,6 +11,7 @@ import {
   computeThermalSummary,
   computeEarthViewFactor,
 } from '@/lib/thermal-analysis'
+import { useThermalNetwork } from '@/hooks/useThermalNetwork'
 
 export default function ThermalSection() {
   const elements = useStore((s) => s.elements)
@@ -31,6 +32,8 @@ export default function ThermalSection() {
   )
 
   const viewFactor = computeEarthViewFactor(avgAlt)
+  const network = useThermalNetwork()
+  const componentNodes = network.nodes.filter((n) => n.limitMinC !== null && n.limitMaxC !== null)
 
   return (
     <div className="space-y-3">
@@ -73,6 +76,40 @@ export default function ThermalSection() {
         </div>
       </SectionHeader>
 
+      <SectionHeader title="Thermal Network" defaultOpen={true}>
+        <div className="text-[10px] font-mono text-[var(--text-tertiary)] mb-2">
+          {network.dateISO.slice(0, 10)} · β {network.betaDeg.toFixed(1)}°
+          {network.converged
+            ? ` · periodic after ${network.orbitsToConverge} orbits`
+            : ` · not periodic after ${network.orbitsToConverge} orbits`}
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          {componentNodes.map((node) => (
+            <MetricCard
+              key={node.id}
+              label={node.name}
+              value={`${node.minC.toFixed(1)} / ${node.maxC.toFixed(1)}\u00B0C`}
+              status={node.status}
+            />
+          ))}
+        </div>
+        <div className="space-y-1 mt-2 text-[10px] font-mono text-[var(--text-secondary)]">
+          {componentNodes.map((node) => (
+            <div key={node.id} className="flex items-center justify-between">
+              <span>{node.name} limits</span>
+              <span>
+                {node.limitMinC?.toFixed(0)} to {node.limitMaxC?.toFixed(0)} °C
+                {node.heaterDuty > 0 && ` · heater ${(node.heaterDuty * 100).toFixed(0)}%`}
+              </span>
+            </div>
+          ))}
+        </div>
+        <div className="grid grid-cols-2 gap-2 mt-2">
+          <DataReadout label="Heater Avg" value={network.heaterAvgW.toFixed(2)} unit="W" />
+          <DataReadout label="Heater Installed" value={network.heaterInstalledW.toFixed(2)} unit="W" />
+        </div>
+      </SectionHeader>
+
       <SectionHeader title="Surface Properties" defaultOpen={false}>
         <div className="grid grid-cols-2 gap-2">
           <DataReadout
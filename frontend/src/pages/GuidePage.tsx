@@ -14,15 +14,16 @@ const TAB_SECTIONS = [
     { label: 'Presets', text: 'ISS (408 km/51.6°), Landsat (705 km SSO), Starlink (550 km/53°), Sentinel (786 km SSO), GPS (20,200 km MEO), GEO (35,786 km/0°), Molniya (HEO).' },
     { label: 'Overlays', text: 'Station coverage cones, sensor footprint, comm links, swath corridor — toggle these in the overlay panel.' },
     { label: 'Time Simulation', text: 'Play/pause, speed controls (1× to 1000×), rotating Earth with day/night cycle.' },
-    { label: 'Propagation Modes', text: 'Keplerian (analytical, fast), J2 (numerical with J2 oblateness), Full (all perturbations — J2–J6, drag, SRP, third-body Sun/Moon). Full mode shows real orbital decay from atmospheric drag.' },
+    { label: 'Propagation Modes', text: 'Keplerian (analytical, fast), J2 (numerical with J2 oblateness), Full (all perturbations — spherical-harmonic Earth gravity, drag, SRP, third-body Sun/Moon). Full mode shows real orbital decay from atmospheric drag.' },
     { label: 'Sun-Sync Calculator', text: 'Automatically computes the required inclination for a sun-synchronous orbit at your current altitude.' },
   ] },
-  { id: 'power-tab', num: '03', title: 'Power', what: 'Solar panel sizing, battery capacity, and eclipse analysis.', inputs: 'Solar panel area, efficiency, battery capacity, power consumption profile.', outputs: 'Power generation per orbit, eclipse duration, battery depth of discharge, power margin.', tips: 'Eclipse fraction increases with lower altitudes. Sun-synchronous dawn-dusk orbits minimize eclipse time.' },
+  { id: 'power-tab', num: '03', title: 'Power', what: 'Solar panel sizing, battery capacity, and eclipse analysis.', inputs: 'Solar panel area, efficiency, battery capacity, power consumption profile.', outputs: 'Power generation per orbit, eclipse duration, battery depth of discharge, power margin. Eclipses use a conical umbra and penumbra shadow with the Sun from the ephemeris and the orbit plane drifting under J2, giving a beta angle and eclipse timeline over the mission (at least one year) in the Eclipse Seasons tab. Headline margin and DoD are for the worst (lowest-generation) day, shown next to the best day. Solar Array Geometry replaces the incidence-factor lookup with body-mounted and deployable panels (area, normal, hinge or gimbal axis, position): power follows the cosine loss from the pointing mode and Sun direction around the orbit, with self-shadowing by wings and the bus and cell efficiency falling as the panels heat up. Battery Pack models Li-ion cells in series and parallel with a voltage curve, charge efficiency, C-rate limits and temperature derating, and estimates capacity fade from the DoD of every eclipse cycle plus calendar ageing, giving the end-of-life capacity and DoD next to the EOL power margin. Mode Schedule defines operating modes (a load level per subsystem) and prioritised rules that switch between them on low battery, ground passes, target overflights and eclipse; Run Schedule simulates several days and plots state of charge, generation and load with the active mode in the Mode Timeline tab. Thermal Network splits the spacecraft into six faces, each with its own surface finish, the deployable panels and battery, payload and electronics nodes joined by conduction and radiation; subsystems dissipate in the node they are assigned to and thermostatic heaters switch on below a set point. The hot or cold case orbit is run until it repeats, and the Thermal Nodes tab plots every node against its limits with the heater draw. The heater entry of the budget is flagged when it differs from that orbit average, and the network value can be applied to it in one click.', tips: 'Eclipse fraction increases with lower altitudes and smaller beta angles. Sun-synchronous dawn-dusk orbits minimize eclipse time but still see a short eclipse season around one solstice below roughly 1400 km.' },
   { id: 'passes-tab', num: '04', title: 'Passes', what: 'Ground station contact scheduling and communication analysis.', inputs: 'Ground station locations, minimum elevation angle, frequency band.', outputs: 'Pass timeline, contact duration, azimuth/elevation plots, link budget per pass.', tips: 'High-latitude ground stations (Svalbard, Fairbanks) get more passes for polar/SSO orbits. Add multiple stations for better coverage.' },
   { id: 'lifetime-tab', num: '05', title: 'Lifetime', what: 'Orbital decay estimation from atmospheric drag.', inputs: 'Spacecraft mass, cross-section area, drag coefficient, initial altitude.', outputs: 'Estimated orbital lifetime, de-orbit timeline, altitude vs time plot.', tips: 'Below 400 km, lifetime drops dramatically. CubeSats with high area-to-mass ratios decay faster. Use this to verify compliance with the 25-year de-orbit guideline (or the newer 5-year guideline).' },
-  { id: 'constellation-tab', num: '06', title: 'Constellation', what: 'Design multi-satellite constellation patterns.', inputs: 'Number of planes, satellites per plane, relative spacing, Walker Delta parameters.', outputs: 'Constellation visualization, ground coverage analysis, revisit time.', tips: 'Walker Delta notation is T/P/F where T = total satellites, P = planes, F = phasing factor. Classic examples: GPS is 24/6/1, Iridium is 66/6/1.' },
+  { id: 'constellation-tab', num: '06', title: 'Constellation', what: 'Design multi-satellite constellation patterns.', inputs: 'Number of planes, satellites per plane, relative spacing, Walker Delta parameters.', outputs: 'Constellation visualization, grid coverage percentage, mean/max revisit and maximum gap maps, coverage by latitude.', tips: 'Walker Delta notation is T/P/F where T = total satellites, P = planes, F = phasing factor. Classic examples: GPS is 24/6/1, Iridium is 66/6/1. Compute Coverage propagates every satellite over a lat/lon grid and paints coverage, mean revisit or maximum gap on the globe; add a sensor cone to model a payload narrower than the elevation mask.' },
   { id: 'deltav-tab', num: '07', title: 'Delta-V Budget', what: 'Maneuver planning and propellant mass estimation.', inputs: 'Required maneuvers (orbit raising, plane change, de-orbit, station-keeping), propulsion type, specific impulse.', outputs: 'Total delta-V required, propellant mass, remaining delta-V margin.', tips: 'A positive margin (green bar) means your propulsion system has enough delta-V. A negative margin (red bar) means you need more propellant or a more efficient thruster.', extra: [
     { label: 'Propulsion Presets', text: 'Cold Gas, Monopropellant, Bipropellant, Hall Thruster, Ion Thruster, Resistojet.' },
+    { label: 'Low-Thrust Transfer', text: 'Ion and Hall thrusters add an input power and a duty cycle. The Edelbaum spiral from the current orbit to a target altitude and inclination reports transfer time, propellant and the days spent coasting through eclipse, with thrust throttled to the sunlit power left over after the bus loads. Low-Thrust burns in the burn plan are integrated by the numerical propagator and pause in Earth shadow.' },
   ] },
   { id: 'radiation-tab', num: '08', title: 'Radiation', what: 'Radiation environment analysis and shielding requirements.', inputs: 'Orbit altitude, inclination, shielding thickness (aluminum equivalent).', outputs: 'Trapped particle flux, total ionizing dose (TID), dose vs shielding curve, Van Allen belt classification.', tips: 'The inner Van Allen belt (1,000–6,000 km) is the most intense radiation region. LEO satellites below 1,000 km experience relatively low radiation. Higher inclinations see more exposure from polar regions.' },
   { id: 'payload-tab', num: '09', title: 'Payload', what: 'Payload performance analysis for three payload types.', inputs: 'Payload-specific parameters (see sub-types below).', outputs: 'Payload-specific performance metrics.', tips: 'Use presets to see what established satellites achieve, then modify parameters for your design. GSD improves (smaller number) with lower altitude, longer focal length, or smaller pixel size.', extra: [
@@ -32,11 +33,12 @@ const TAB_SECTIONS = [
     { label: 'Presets', text: 'PlanetScope, SkySat, Sentinel-1, Sentinel-2, ICEYE, Capella, VIREON, CubeSat UHF, Iridium, Starlink.' },
   ] },
   { id: 'beyond-leo-tab', num: '10', title: 'Beyond LEO', what: 'Mission design for destinations beyond Low Earth Orbit.', inputs: 'Destination and mission parameters (see sub-modules below).', outputs: 'Transfer trajectories, delta-V budgets, mission timelines.', tips: 'Start with Hohmann transfer for a quick estimate, then use Lambert solver with specific departure/arrival dates for more accurate results.', extra: [
-    { label: 'Lagrange Points', text: 'Sun-Earth and Earth-Moon L1–L5, with Halo/Lissajous/Lyapunov orbit types. Computes transfer delta-V, station-keeping requirements. Validated against JWST (L2) and SOHO (L1).' },
-    { label: 'Lunar Missions', text: 'Four mission types — Orbit Insertion, Flyby, Free-Return, and Landing. Uses RK4 numerical propagation with combined Earth+Moon gravity. Validated against Apollo TLI and LOI burns.' },
-    { label: 'Interplanetary', text: 'Hohmann transfers and Lambert solver for all planets plus Ceres and Vesta. Porkchop plots for launch window analysis. Validated against Mars, Venus, and Jupiter missions.' },
+    { label: 'Lagrange Points', text: 'Sun-Earth and Earth-Moon L1–L5, with Halo/Lissajous/Lyapunov orbit types. Computes transfer delta-V, station-keeping requirements. Validated against JWST (L2) and SOHO (L1). Compute Periodic Orbit integrates the circular restricted three-body problem and differentially corrects a true halo, vertical or planar Lyapunov orbit (single or multiple shooting) for the requested amplitude or Jacobi constant, reporting the period, initial state and monodromy stability index. Compute Manifold Transfer traces the stable-manifold tube of the orbit back toward Earth and picks the trajectory whose perigee meets the parking orbit, so the Low-Energy transfer reports a real TLI ΔV, insertion ΔV and time of flight and draws the tube in the 3D view. Simulate Station-Keeping flies that orbit with insertion, navigation and burn-execution errors under x-axis crossing or Floquet-mode control at the chosen cadence, and the 95th-percentile annual ΔV across runs replaces the rule-of-thumb station-keeping budget.' },
+    { label: 'Lunar Missions', text: 'Four mission types — Orbit Insertion, Flyby, Free-Return, and Landing. Uses RK4 numerical propagation with combined Earth+Moon gravity. Validated against Apollo TLI and LOI burns. TLI targeting scans daily launch opportunities against the ephemeris Moon from a chosen launch date and parking-orbit inclination, then differentially corrects the launch-day transfer through an Earth+Moon propagation to hit the target perilune altitude and arrival inclination. Orbit stability propagates the target lunar orbit under a bundled low-degree lunar gravity field (zonals to J7, tesserals to degree 3 only) with Earth and Sun perturbations, reporting periselene evolution, impact date, frozen-orbit inclinations and station-keeping ΔV per year (burns correct the half-month mean periselene). The field cannot represent mascons, so results below about 100 km are optimistic.' },
+    { label: 'Interplanetary', text: 'Hohmann transfers and Lambert solver for all planets plus Ceres and Vesta. Porkchop plots for launch window analysis with selectable C3, arrival V∞, DLA and total-ΔV layers, multi-revolution Lambert arcs and the launch vehicle C3 limit. The Launch Period optimizer finds the minimum-ΔV date pair and the best run of consecutive departure days (e.g. 21 days) within the vehicle C3 capability for the spacecraft mass. The Gravity Assist transfer designs multiple-flyby sequences such as E-V-E-J: Lambert legs are chained through powered patched-conic flybys limited by each body minimum flyby altitude, and the launch date and leg flight times are optimized for total ΔV, with the legs drawn in the 3D view. With an ion or Hall thruster selected in the Delta-V module, an Electric Propulsion estimate adds the escape spiral, heliocentric low-thrust arc and capture spiral. Planet positions use inclined, precessing 3D orbits from JPL approximate mean elements; accuracy is limited to that theory (errors grow to about 100,000 km for Mars and 2 million km for Jupiter against DE440), so treat launch dates and C3 as preliminary. Validated against Mars, Venus, and Jupiter missions.' },
   ] },
-  { id: 'compare-tab', num: '11', title: 'Compare', what: 'Side-by-side comparison of two mission configurations.', inputs: 'Two saved mission configurations.', outputs: 'All parameters displayed side by side with differences highlighted.', tips: 'Useful for trade studies — compare different altitudes, inclinations, or payload configurations to see how they affect the overall mission.' },
+  { id: 'compare-tab', num: '11', title: 'Compare', what: 'Side-by-side comparison of two mission configurations.', inputs: 'Two saved mission configurations.', outputs: 'All parameters displayed side by side with differences highlighted.', tips: 'Useful for trade studies — compare different altitudes, inclinations, or payload configurations to see how they affect the overall mission. Switch to Trade Sweep to vary any two inputs over a grid and see the results as a heatmap or contour plot, with constraint limits (e.g. lifetime < 5 yr, EOL power margin > 20%) drawn as lines and infeasible cells shaded.' },
+  { id: 'monte-carlo-tab', num: '12', title: 'Monte Carlo', what: 'Uncertainty analysis that re-runs the lifetime, power and link models over randomly perturbed inputs.', inputs: 'Sample count, random seed, link elevation, and a normal or uniform spread for each uncertain input (mass, drag coefficient, cross-section, solar flux, panel degradation, antenna gains, injection errors).', outputs: 'Percentile statistics (P5/P50/P95), 95% confidence values, success probabilities against the lifetime target and zero margin, and output histograms.', tips: 'Quote the P5 value as the 95% confidence number. Runs with the same seed are repeatable, so change one spread at a time to see which input drives the scatter.' },
 ]
 
 const FEATURES = [
@@ -44,7 +46,7 @@ const FEATURES = [
   { title: 'PDF Report', items: ['Generate a comprehensive PDF mission report covering all active modules.', 'Includes all computed parameters, charts, and analysis results.'] },
   { title: 'CSV Export', items: ['Export data tables from any module as CSV files.', 'Available on all tables via the "Export CSV" button.'] },
   { title: 'Mission Architect', items: ['AI-powered conversational mission analysis.', 'Ask questions about your mission in natural language.', 'The AI has access to all your current mission parameters.'] },
-  { title: 'Numerical Propagation', items: ['Three modes: Keplerian (analytical), J2 (numerical with oblateness), Full (all perturbations).', 'Full mode includes: J2–J6 zonal harmonics, atmospheric drag, solar radiation pressure, Sun and Moon third-body gravity.', 'Spacecraft properties (drag coefficient, SRP coefficient, cross-section area, mass) can be configured.', 'Osculating orbital elements update in real time during simulation.', 'Use the propagation orbits slider to control simulation duration.'] },
+  { title: 'Numerical Propagation', items: ['Four modes: Keplerian (analytical), J2 (numerical with oblateness), Full (all perturbations), SGP4 (Two-Line Element sets).', 'SGP4 mode: paste or upload TLE / 3LE text (single or multi-object) in the TLE Import section. Checksums and epochs are validated, and the selected object drives the trajectory, ground track and pass prediction through SGP4/SDP4. Burns are not applied in this mode.', 'Full mode includes: spherical-harmonic Earth gravity (bundled EGM96 coefficients, selectable degree and order up to 8×8, including tesseral and sectoral terms for repeat-ground-track and GEO longitude drift studies), atmospheric drag, solar radiation pressure, Sun and Moon third-body gravity (positions from the analytic ephemeris, good to roughly 200 km for the Moon and 18,000 km for the Sun).', 'Spacecraft properties (drag coefficient, SRP coefficient, cross-section area, mass) can be configured.', 'Osculating orbital elements update in real time during simulation.', 'Use the propagation orbits slider to control simulation duration.'] },
 ]
 
 const FAQ_ITEMS = [
@@ -9,46 +9,432 @@ import type {
 import {
   DEFAULT_BEYOND_LEO_STATE,
 } from '@/types/beyond-leo'
+import { DEFAULT_PERIODIC_ORBIT_CONFIG, type PeriodicOrbitConfig, type PeriodicOrbitResult } from '@/lib/cr3bp'
+import { DEFAULT_MANIFOLD_CONFIG, type ManifoldConfig, type ManifoldTransferResult } from '@/lib/invariant-manifolds'
+import { DEFAULT_STATION_KEEPING_CONFIG, type StationKeepingConfig, type StationKeepingResult } from '@/lib/station-keeping'
+import { DEFAULT_LAUNCH_PERIOD_CONFIG, type LaunchPeriodConfig, type LaunchPeriodResult } from '@/lib/launch-period'
+import { DEFAULT_MGA_CONFIG } from '@/lib/gravity-assist'
+import type { MgaConfig, MgaResult } from '@/lib/interplanetary'
+import { DEFAULT_LUNAR_TARGETING_CONFIG, type LunarTargetingConfig, type LunarTargetingResult } from '@/lib/lunar-targeting'
+import { DEFAULT_LUNAR_STABILITY_CONFIG, type LunarStabilityConfig, type LunarStabilityResult } from '@/lib/lunar-stability'
+import { runComputeJob, isComputeCancelled } from '@/lib/compute-client'
+import type { ComputeJob } from '@/lib/compute-client'
 
 export interface BeyondLeoSlice {
   beyondLeo: BeyondLeoState
+  periodicOrbitConfig: PeriodicOrbitConfig
+  periodicOrbit: PeriodicOrbitResult | null
+  periodicOrbitProgress: number | null  // 0-1 while continuation runs, null when idle
+  periodicOrbitError: string | null
+  manifoldConfig: ManifoldConfig
+  manifoldTransfer: ManifoldTransferResult | null
+  manifoldProgress: number | null  // 0-1 while the tube is traced, null when idle
+  manifoldError: string | null
+  stationKeepingConfig: StationKeepingConfig
+  stationKeeping: StationKeepingResult | null
+  stationKeepingProgress: number | null  // 0-1 while runs execute, null when idle
+  stationKeepingError: string | null
+  launchPeriodConfig: LaunchPeriodConfig
+  launchPeriod: LaunchPeriodResult | null
+  launchPeriodProgress: number | null  // 0-1 while departure days are searched, null when idle
+  launchPeriodError: string | null
+  mgaConfig: MgaConfig
+  mga: MgaResult | null
+  mgaProgress: number | null  // 0-1 while the optimizer runs, null when idle
+  mgaError: string | null
+  lunarTargetingConfig: LunarTargetingConfig
+  lunarTargeting: LunarTargetingResult | null
+  lunarTargetingProgress: number | null  // 0-1 while launch days are scanned, null when idle
+  lunarTargetingError: string | null
+  lunarStabilityConfig: LunarStabilityConfig
+  lunarStability: LunarStabilityResult | null
+  lunarStabilityProgress: number | null  // 0-1 while the lunar orbit is propagated, null when idle
+  lunarStabilityError: string | null
   setBeyondLeoMode: (mode: BeyondLeoMode) => void
   updateLagrangeParams: (partial: Partial<LagrangeParams>) => void
   updateLunarParams: (partial: Partial<LunarParams>) => void
   updateInterplanetaryParams: (partial: Partial<InterplanetaryParams>) => void
+  updatePeriodicOrbitConfig: (partial: Partial<PeriodicOrbitConfig>) => void
+  runPeriodicOrbit: () => void
+  cancelPeriodicOrbit: () => void
+  updateManifoldConfig: (partial: Partial<ManifoldConfig>) => void
+  runManifoldTransfer: () => void
+  cancelManifoldTransfer: () => void
+  updateStationKeepingConfig: (partial: Partial<StationKeepingConfig>) => void
+  runStationKeeping: () => void
+  cancelStationKeeping: () => void
+  updateLaunchPeriodConfig: (partial: Partial<LaunchPeriodConfig>) => void
+  runLaunchPeriod: () => void
+  cancelLaunchPeriod: () => void
+  updateMgaConfig: (partial: Partial<MgaConfig>) => void
+  runMga: () => void
+  cancelMga: () => void
+  updateLunarTargetingConfig: (partial: Partial<LunarTargetingConfig>) => void
+  runLunarTargeting: () => void
+  cancelLunarTargeting: () => void
+  updateLunarStabilityConfig: (partial: Partial<LunarStabilityConfig>) => void
+  runLunarStability: () => void
+  cancelLunarStability: () => void
   resetBeyondLeo: () => void
 }
 
-export const createBeyondLeoSlice: StateCreator<BeyondLeoSlice, [], [], BeyondLeoSlice> = (set) => ({
-  beyondLeo: { ...DEFAULT_BEYOND_LEO_STATE },
-
-  setBeyondLeoMode: (mode) =>
-    set((s) => ({ beyondLeo: { ...s.beyondLeo, mode } })),
-
-  updateLagrangeParams: (partial) =>
-    set((s) => ({
-      beyondLeo: {
-        ...s.beyondLeo,
-        lagrangeParams: { ...s.beyondLeo.lagrangeParams, ...partial },
-      },
-    })),
-
-  updateLunarParams: (partial) =>
-    set((s) => ({
-      beyondLeo: {
-        ...s.beyondLeo,
-        lunarParams: { ...s.beyondLeo.lunarParams, ...partial },
-      },
-    })),
-
-  updateInterplanetaryParams: (partial) =>
-    set((s) => ({
-      beyondLeo: {
-        ...s.beyondLeo,
-        interplanetaryParams: { ...s.beyondLeo.interplanetaryParams, ...partial },
-      },
-    })),
-
-  resetBeyondLeo: () =>
-    set({ beyondLeo: { ...DEFAULT_BEYOND_LEO_STATE } }),
-})
+export const createBeyondLeoSlice: StateCreator<BeyondLeoSlice, [], [], BeyondLeoSlice> = (set, get) => {
+  let activeJob: ComputeJob<PeriodicOrbitResult> | null = null
+  let activeManifoldJob: ComputeJob<ManifoldTransferResult> | null = null
+  let activeStationKeepingJob: ComputeJob<StationKeepingResult> | null = null
+  let activeLaunchPeriodJob: ComputeJob<LaunchPeriodResult> | null = null
+  let activeMgaJob: ComputeJob<MgaResult> | null = null
+  let activeLunarTargetingJob: ComputeJob<LunarTargetingResult> | null = null
+  let activeLunarStabilityJob: ComputeJob<LunarStabilityResult> | null = null
+
+  const cancelActiveJob = () => {
+    activeJob?.cancel()
+    activeJob = null
+  }
+
+  const cancelManifoldJob = () => {
+    activeManifoldJob?.cancel()
+    activeManifoldJob = null
+  }
+
+  const cancelStationKeepingJob = () => {
+    activeStationKeepingJob?.cancel()
+    activeStationKeepingJob = null
+  }
+
+  const cancelLaunchPeriodJob = () => {
+    activeLaunchPeriodJob?.cancel()
+    activeLaunchPeriodJob = null
+  }
+
+  const cancelMgaJob = () => {
+    activeMgaJob?.cancel()
+    activeMgaJob = null
+  }
+
+  const cancelLunarTargetingJob = () => {
+    activeLunarTargetingJob?.cancel()
+    activeLunarTargetingJob = null
+  }
+
+  const cancelLunarStabilityJob = () => {
+    activeLunarStabilityJob?.cancel()
+    activeLunarStabilityJob = null
+  }
+
+  return {
+    beyondLeo: { ...DEFAULT_BEYOND_LEO_STATE },
+    periodicOrbitConfig: { ...DEFAULT_PERIODIC_ORBIT_CONFIG },
+    periodicOrbit: null,
+    periodicOrbitProgress: null,
+    periodicOrbitError: null,
+    manifoldConfig: { ...DEFAULT_MANIFOLD_CONFIG },
+    manifoldTransfer: null,
+    manifoldProgress: null,
+    manifoldError: null,
+    stationKeepingConfig: { ...DEFAULT_STATION_KEEPING_CONFIG },
+    stationKeeping: null,
+    stationKeepingProgress: null,
+    stationKeepingError: null,
+    launchPeriodConfig: { ...DEFAULT_LAUNCH_PERIOD_CONFIG },
+    launchPeriod: null,
+    launchPeriodProgress: null,
+    launchPeriodError: null,
+    mgaConfig: { ...DEFAULT_MGA_CONFIG },
+    mga: null,
+    mgaProgress: null,
+    mgaError: null,
+    lunarTargetingConfig: { ...DEFAULT_LUNAR_TARGETING_CONFIG },
+    lunarTargeting: null,
+    lunarTargetingProgress: null,
+    lunarTargetingError: null,
+    lunarStabilityConfig: { ...DEFAULT_LUNAR_STABILITY_CONFIG },
+    lunarStability: null,
+    lunarStabilityProgress: null,
+    lunarStabilityError: null,
+
+    setBeyondLeoMode: (mode) =>
+      set((s) => ({ beyondLeo: { ...s.beyondLeo, mode } })),
+
+    updateLagrangeParams: (partial) =>
+      set((s) => ({
+        beyondLeo: {
+          ...s.beyondLeo,
+          lagrangeParams: { ...s.beyondLeo.lagrangeParams, ...partial },
+        },
+      })),
+
+    updateLunarParams: (partial) =>
+      set((s) => ({
+        beyondLeo: {
+          ...s.beyondLeo,
+          lunarParams: { ...s.beyondLeo.lunarParams, ...partial },
+        },
+      })),
+
+    updateInterplanetaryParams: (partial) =>
+      set((s) => ({
+        beyondLeo: {
+          ...s.beyondLeo,
+          interplanetaryParams: { ...s.beyondLeo.interplanetaryParams, ...partial },
+        },
+      })),
+
+    updatePeriodicOrbitConfig: (partial) =>
+      set((s) => ({ periodicOrbitConfig: { ...s.periodicOrbitConfig, ...partial } })),
+
+    runPeriodicOrbit: () => {
+      cancelActiveJob()
+      const { system, point, amplitudeKm } = get().beyondLeo.lagrangeParams
+      const job = runComputeJob(
+        { job: 'cr3bp-periodic-orbit', request: { ...get().periodicOrbitConfig, system, point, amplitudeKm } },
+        (progress) => {
+          if (activeJob === job) set({ periodicOrbitProgress: progress })
+        },
+      )
+      activeJob = job
+      set({ periodicOrbitProgress: 0, periodicOrbitError: null })
+      job.promise
+        .then((result) => {
+          if (activeJob !== job) return
+          activeJob = null
+          set({ periodicOrbit: result, periodicOrbitProgress: null })
+        })
+        .catch((err) => {
+          if (isComputeCancelled(err) || activeJob !== job) return
+          activeJob = null
+          set({ periodicOrbitProgress: null, periodicOrbitError: err instanceof Error ? err.message : String(err) })
+        })
+    },
+
+    cancelPeriodicOrbit: () => {
+      cancelActiveJob()
+      set({ periodicOrbitProgress: null })
+    },
+
+    updateManifoldConfig: (partial) =>
+      set((s) => ({ manifoldConfig: { ...s.manifoldConfig, ...partial } })),
+
+    runManifoldTransfer: () => {
+      const orbit = get().periodicOrbit
+      if (!orbit) return
+      cancelManifoldJob()
+      const { departureAltKm } = get().beyondLeo.lagrangeParams
+      const job = runComputeJob(
+        { job: 'cr3bp-manifold-transfer', orbit, departureAltKm, config: get().manifoldConfig },
+        (progress) => {
+          if (activeManifoldJob === job) set({ manifoldProgress: progress })
+        },
+      )
+      activeManifoldJob = job
+      set({ manifoldProgress: 0, manifoldError: null })
+      job.promise
+        .then((result) => {
+          if (activeManifoldJob !== job) return
+          activeManifoldJob = null
+          set({ manifoldTransfer: result, manifoldProgress: null })
+        })
+        .catch((err) => {
+          if (isComputeCancelled(err) || activeManifoldJob !== job) return
+          activeManifoldJob = null
+          set({ manifoldProgress: null, manifoldError: err instanceof Error ? err.message : String(err) })
+        })
+    },
+
+    cancelManifoldTransfer: () => {
+      cancelManifoldJob()
+      set({ manifoldProgress: null })
+    },
+
+    updateStationKeepingConfig: (partial) =>
+      set((s) => ({ stationKeepingConfig: { ...s.stationKeepingConfig, ...partial } })),
+
+    runStationKeeping: () => {
+      const orbit = get().periodicOrbit
+      if (!orbit) return
+      cancelStationKeepingJob()
+      const job = runComputeJob(
+        { job: 'cr3bp-station-keeping', orbit, config: get().stationKeepingConfig },
+        (progress) => {
+          if (activeStationKeepingJob === job) set({ stationKeepingProgress: progress })
+        },
+      )
+      activeStationKeepingJob = job
+      set({ stationKeepingProgress: 0, stationKeepingError: null })
+      job.promise
+        .then((result) => {
+          if (activeStationKeepingJob !== job) return
+          activeStationKeepingJob = null
+          set({ stationKeeping: result, stationKeepingProgress: null })
+        })
+        .catch((err) => {
+          if (isComputeCancelled(err) || activeStationKeepingJob !== job) return
+          activeStationKeepingJob = null
+          set({ stationKeepingProgress: null, stationKeepingError: err instanceof Error ? err.message : String(err) })
+        })
+    },
+
+    cancelStationKeeping: () => {
+      cancelStationKeepingJob()
+      set({ stationKeepingProgress: null })
+    },
+
+    updateLaunchPeriodConfig: (partial) =>
+      set((s) => ({ launchPeriodConfig: { ...s.launchPeriodConfig, ...partial } })),
+
+    runLaunchPeriod: () => {
+      cancelLaunchPeriodJob()
+      const job = runComputeJob(
+        { job: 'launch-period', params: get().beyondLeo.interplanetaryParams, config: get().launchPeriodConfig },
+        (progress) => {
+          if (activeLaunchPeriodJob === job) set({ launchPeriodProgress: progress })
+        },
+      )
+      activeLaunchPeriodJob = job
+      set({ launchPeriodProgress: 0, launchPeriodError: null })
+      job.promise
+        .then((result) => {
+          if (activeLaunchPeriodJob !== job) return
+          activeLaunchPeriodJob = null
+          set({ launchPeriod: result, launchPeriodProgress: null })
+        })
+        .catch((err) => {
+          if (isComputeCancelled(err) || activeLaunchPeriodJob !== job) return
+          activeLaunchPeriodJob = null
+          set({ launchPeriodProgress: null, launchPeriodError: err instanceof Error ? err.message : String(err) })
+        })
+    },
+
+    cancelLaunchPeriod: () => {
+      cancelLaunchPeriodJob()
+      set({ launchPeriodProgress: null })
+    },
+
+    updateMgaConfig: (partial) =>
+      set((s) => ({ mgaConfig: { ...s.mgaConfig, ...partial } })),
+
+    runMga: () => {
+      cancelMgaJob()
+      const job = runComputeJob(
+        { job: 'mga-trajectory', params: get().beyondLeo.interplanetaryParams, config: get().mgaConfig },
+        (progress) => {
+          if (activeMgaJob === job) set({ mgaProgress: progress })
+        },
+      )
+      activeMgaJob = job
+      set({ mgaProgress: 0, mgaError: null })
+      job.promise
+        .then((result) => {
+          if (activeMgaJob !== job) return
+          activeMgaJob = null
+          set({ mga: result, mgaProgress: null })
+        })
+        .catch((err) => {
+          if (isComputeCancelled(err) || activeMgaJob !== job) return
+          activeMgaJob = null
+          set({ mgaProgress: null, mgaError: err instanceof Error ? err.message : String(err) })
+        })
+    },
+
+    cancelMga: () => {
+      cancelMgaJob()
+      set({ mgaProgress: null })
+    },
+
+    updateLunarTargetingConfig: (partial) =>
+      set((s) => ({ lunarTargetingConfig: { ...s.lunarTargetingConfig, ...partial } })),
+
+    runLunarTargeting: () => {
+      cancelLunarTargetingJob()
+      const job = runComputeJob(
+        { job: 'lunar-targeting', params: get().beyondLeo.lunarParams, config: get().lunarTargetingConfig },
+        (progress) => {
+          if (activeLunarTargetingJob === job) set({ lunarTargetingProgress: progress })
+        },
+      )
+      activeLunarTargetingJob = job
+      set({ lunarTargetingProgress: 0, lunarTargetingError: null })
+      job.promise
+        .then((result) => {
+          if (activeLunarTargetingJob !== job) return
+          activeLunarTargetingJob = null
+          set({ lunarTargeting: result, lunarTargetingProgress: null })
+        })
+        .catch((err) => {
+          if (isComputeCancelled(err) || activeLunarTargetingJob !== job) return
+          activeLunarTargetingJob = null
+          set({ lunarTargetingProgress: null, lunarTargetingError: err instanceof Error ? err.message : String(err) })
+        })
+    },
+
+    cancelLunarTargeting: () => {
+      cancelLunarTargetingJob()
+      set({ lunarTargetingProgress: null })
+    },
+
+    updateLunarStabilityConfig: (partial) =>
+      set((s) => ({ lunarStabilityConfig: { ...s.lunarStabilityConfig, ...partial } })),
+
+    runLunarStability: () => {
+      cancelLunarStabilityJob()
+      const job = runComputeJob(
+        { job: 'lunar-stability', params: get().beyondLeo.lunarParams, config: get().lunarStabilityConfig },
+        (progress) => {
+          if (activeLunarStabilityJob === job) set({ lunarStabilityProgress: progress })
+        },
+      )
+      activeLunarStabilityJob = job
+      set({ lunarStabilityProgress: 0, lunarStabilityError: null })
+      job.promise
+        .then((result) => {
+          if (activeLunarStabilityJob !== job) return
+          activeLunarStabilityJob = null
+          set({ lunarStability: result, lunarStabilityProgress: null })
+        })
+        .catch((err) => {
+          if (isComputeCancelled(err) || activeLunarStabilityJob !== job) return
+          activeLunarStabilityJob = null
+          set({ lunarStabilityProgress: null, lunarStabilityError: err instanceof Error ? err.message : String(err) })
+        })
+    },
+
+    cancelLunarStability: () => {
+      cancelLunarStabilityJob()
+      set({ lunarStabilityProgress: null })
+    },
+
+    resetBeyondLeo: () => {
+      cancelActiveJob()
+      cancelManifoldJob()
+      cancelStationKeepingJob()
+      cancelLaunchPeriodJob()
+      cancelMgaJob()
+      cancelLunarTargetingJob()
+      cancelLunarStabilityJob()
+      set({
+        beyondLeo: { ...DEFAULT_BEYOND_LEO_STATE },
+        periodicOrbit: null,
+        periodicOrbitProgress: null,
+        periodicOrbitError: null,
+        manifoldTransfer: null,
+        manifoldProgress: null,
+        manifoldError: null,
+        stationKeeping: null,
+        stationKeepingProgress: null,
+        stationKeepingError: null,
+        launchPeriod: null,
+        launchPeriodProgress: null,
+        launchPeriodError: null,
+        mga: null,
+        mgaProgress: null,
+        mgaError: null,
+        lunarTargeting: null,
+        lunarTargetingProgress: null,
+        lunarTargetingError: null,
+        lunarStability: null,
+        lunarStabilityProgress: null,
+        lunarStabilityError: null,
+      })
+    },
+  }
+}
@@ -40,16 +40,21 @@ export interface Scenario {
   beyondLeoSummary?: BeyondLeoSummary
 }
 
+export type ComparisonMode = 'scenarios' | 'sweep'
+
 export interface ComparisonSlice {
   scenarios: Scenario[]
+  comparisonMode: ComparisonMode
   addScenario: (scenario: Scenario) => void
   removeScenario: (id: string) => void
   clearScenarios: () => void
   setScenarios: (scenarios: Scenario[]) => void
+  setComparisonMode: (mode: ComparisonMode) => void
 }
 
 export const createComparisonSlice: StateCreator<ComparisonSlice, [], [], ComparisonSlice> = (set) => ({
   scenarios: [],
+  comparisonMode: 'scenarios',
 
   addScenario: (scenario) =>
     set((s) => ({
@@ -62,4 +67,6 @@ export const createComparisonSlice: StateCreator<ComparisonSlice, [], [], Compar
   clearScenarios: () => set({ scenarios: [] }),
 
   setScenarios: (scenarios) => set({ scenarios }),
+
+  setComparisonMode: (mode) => set({ comparisonMode: mode }),
 })
@@ -1,20 +1,86 @@
 import { StateCreator } from 'zustand'
-import { DEFAULT_WALKER, type WalkerParams, type WalkerType } from '@/lib/constellation'
+import { DEFAULT_WALKER, generateWalkerConstellation, type WalkerParams, type WalkerType } from '@/lib/constellation'
+import { DEFAULT_COVERAGE_CONFIG, type CoverageConfig, type CoverageMapMetric, type CoverageResult } from '@/lib/coverage'
+import { runComputeJob, isComputeCancelled } from '@/lib/compute-client'
+import type { ComputeJob } from '@/lib/compute-client'
 
 export interface ConstellationSlice {
   walkerParams: WalkerParams
+  coverageConfig: CoverageConfig
+  coverageResult: CoverageResult | null
+  coverageRunParams: WalkerParams | null  // constellation the result was computed for
+  coverageProgress: number | null  // 0-1 while a run is active, null when idle
+  coverageError: string | null
+  coverageMapMetric: CoverageMapMetric
   updateWalkerParams: (partial: Partial<WalkerParams>) => void
   setWalkerParams: (params: WalkerParams) => void
   resetWalkerParams: () => void
+  updateCoverageConfig: (partial: Partial<CoverageConfig>) => void
+  setCoverageMapMetric: (metric: CoverageMapMetric) => void
+  runCoverage: (params: WalkerParams, epoch: Date) => void
+  cancelCoverage: () => void
 }
 
-export const createConstellationSlice: StateCreator<ConstellationSlice, [], [], ConstellationSlice> = (set) => ({
-  walkerParams: { ...DEFAULT_WALKER },
+export const createConstellationSlice: StateCreator<ConstellationSlice, [], [], ConstellationSlice> = (set, get) => {
+  let activeJob: ComputeJob<CoverageResult> | null = null
 
-  updateWalkerParams: (partial) =>
-    set((s) => ({ walkerParams: { ...s.walkerParams, ...partial } })),
+  const cancelActiveJob = () => {
+    activeJob?.cancel()
+    activeJob = null
+  }
 
-  setWalkerParams: (params) => set({ walkerParams: params }),
+  return {
+    walkerParams: { ...DEFAULT_WALKER },
+    coverageConfig: { ...DEFAULT_COVERAGE_CONFIG },
+    coverageResult: null,
+    coverageRunParams: null,
+    coverageProgress: null,
+    coverageError: null,
+    coverageMapMetric: 'coverage',
 
-  resetWalkerParams: () => set({ walkerParams: { ...DEFAULT_WALKER } }),
-})
+    updateWalkerParams: (partial) =>
+      set((s) => ({ walkerParams: { ...s.walkerParams, ...partial } })),
+
+    setWalkerParams: (params) => set({ walkerParams: params }),
+
+    resetWalkerParams: () => set({ walkerParams: { ...DEFAULT_WALKER } }),
+
+    updateCoverageConfig: (partial) =>
+      set((s) => ({ coverageConfig: { ...s.coverageConfig, ...partial } })),
+
+    setCoverageMapMetric: (metric) => set({ coverageMapMetric: metric }),
+
+    runCoverage: (params, epoch) => {
+      cancelActiveJob()
+      const job = runComputeJob(
+        {
+          job: 'constellation-coverage',
+          satellites: generateWalkerConstellation(params),
+          epochMs: epoch.getTime(),
+          config: get().coverageConfig,
+        },
+        (progress) => {
+          if (activeJob === job) set({ coverageProgress: progress })
+        },
+      )
+      activeJob = job
+      set({ coverageProgress: 0, coverageError: null })
+      job.promise
+        .then((result) => {
+          if (activeJob !== job) return
+          activeJob = null
+          set({ coverageResult: result, coverageRunParams: params, coverageProgress: null })
+        })
+        .catch((err) => {
+          if (isComputeCancelled(err) || activeJob !== job) return
+          activeJob = null
+          set({ coverageProgress: null, coverageError: err instanceof Error ? err.message : String(err) })
+        })
+    },
+
+    cancelCoverage: () => {
+      cancelActiveJob()
+      set({ coverageProgress: null })
+    },
+  }
+}
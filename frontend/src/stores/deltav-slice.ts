@@ -1,22 +1,31 @@
 import { StateCreator } from 'zustand'
-import { DEFAULT_PROPULSION, DEFAULT_MANEUVERS } from '@/types/propulsion'
-import type { PropulsionConfig, DeltaVManeuver } from '@/types/propulsion'
+import { DEFAULT_PROPULSION, DEFAULT_MANEUVERS, DEFAULT_LOW_THRUST } from '@/types/propulsion'
+import type { PropulsionConfig, DeltaVManeuver, PlannedBurn, LowThrustConfig } from '@/types/propulsion'
 
 export interface DeltaVSlice {
   propulsion: PropulsionConfig
   maneuvers: DeltaVManeuver[]
+  burnPlan: PlannedBurn[]  // executed by the numerical propagator, in order
+  lowThrust: LowThrustConfig
   updatePropulsion: (partial: Partial<PropulsionConfig>) => void
   setPropulsion: (config: PropulsionConfig) => void
   setManeuvers: (m: DeltaVManeuver[]) => void
   updateManeuver: (id: string, partial: Partial<DeltaVManeuver>) => void
   addManeuver: (m: DeltaVManeuver) => void
   removeManeuver: (id: string) => void
+  setBurnPlan: (burns: PlannedBurn[]) => void
+  addPlannedBurn: (burn: PlannedBurn) => void
+  updatePlannedBurn: (id: string, partial: Partial<PlannedBurn>) => void
+  removePlannedBurn: (id: string) => void
+  updateLowThrust: (partial: Partial<LowThrustConfig>) => void
   resetDeltaV: () => void
 }
 
 export const createDeltaVSlice: StateCreator<DeltaVSlice, [], [], DeltaVSlice> = (set) => ({
   propulsion: { ...DEFAULT_PROPULSION },
   maneuvers: DEFAULT_MANEUVERS.map((m) => ({ ...m })),
+  burnPlan: [],
+  lowThrust: { ...DEFAULT_LOW_THRUST },
 
   updatePropulsion: (partial) =>
     set((s) => ({ propulsion: { ...s.propulsion, ...partial } })),
@@ -36,9 +45,27 @@ export const createDeltaVSlice: StateCreator<DeltaVSlice, [], [], DeltaVSlice> =
   removeManeuver: (id) =>
     set((s) => ({ maneuvers: s.maneuvers.filter((m) => m.id !== id) })),
 
+  setBurnPlan: (burns) => set({ burnPlan: burns }),
+
+  addPlannedBurn: (burn) =>
+    set((s) => ({ burnPlan: [...s.burnPlan, burn] })),
+
+  updatePlannedBurn: (id, partial) =>
+    set((s) => ({
+      burnPlan: s.burnPlan.map((b) => (b.id === id ? { ...b, ...partial } : b)),
+    })),
+
+  removePlannedBurn: (id) =>
+    set((s) => ({ burnPlan: s.burnPlan.filter((b) => b.id !== id) })),
+
+  updateLowThrust: (partial) =>
+    set((s) => ({ lowThrust: { ...s.lowThrust, ...partial } })),
+
   resetDeltaV: () =>
     set({
       propulsion: { ...DEFAULT_PROPULSION },
       maneuvers: DEFAULT_MANEUVERS.map((m) => ({ ...m })),
+      burnPlan: [],
+      lowThrust: { ...DEFAULT_LOW_THRUST },
     }),
 })
@@ -15,8 +15,14 @@ import { ArchitectSlice, createArchitectSlice } from './architect-slice'
 import { SimulationSlice, createSimulationSlice } from './simulation-slice'
 import { PropagationSlice, createPropagationSlice } from './propagation-slice'
 import { CommSlice, createCommSlice } from './comm-slice'
+import { MonteCarloSlice, createMonteCarloSlice } from './monte-carlo-slice'
+import { TradeStudySlice, createTradeStudySlice } from './trade-study-slice'
+import { PROPULSION_PRESETS } from '@/types/propulsion'
+import type { PropulsionType } from '@/types/propulsion'
+import { DEFAULT_LUNAR_PARAMS } from '@/types/beyond-leo'
+import { GRAVITY_FIELD_DEFAULTS } from '@/lib/numerical-propagator'
 
-export type AppStore = UISlice & MissionSlice & OrbitSlice & GroundSlice & PowerSlice & ConstellationSlice & DeltaVSlice & RadiationSlice & ComparisonSlice & PayloadSlice & BeyondLeoSlice & ArchitectSlice & SimulationSlice & PropagationSlice & CommSlice
+export type AppStore = UISlice & MissionSlice & OrbitSlice & GroundSlice & PowerSlice & ConstellationSlice & DeltaVSlice & RadiationSlice & ComparisonSlice & PayloadSlice & BeyondLeoSlice & ArchitectSlice & SimulationSlice & PropagationSlice & CommSlice & MonteCarloSlice & TradeStudySlice
 
 export const useStore = create<AppStore>()(
   devtools(
@@ -37,10 +43,12 @@ export const useStore = create<AppStore>()(
         ...createSimulationSlice(...a),
         ...createPropagationSlice(...a),
         ...createCommSlice(...a),
+        ...createMonteCarloSlice(...a),
+        ...createTradeStudySlice(...a),
       }),
       {
         name: 'orbitforge-autosave',
-        version: 17,
+        version: 38,
         migrate: (persisted: any, version: number) => {
           if (version < 8) {
             const { groundStations, ...rest } = persisted || {}
@@ -93,6 +101,128 @@ export const useStore = create<AppStore>()(
           if (version < 17) {
             // No migration needed — new slice fields get defaults
           }
+          // v18: TLE set and SGP4 mode are new; defaults applied by slice initializer
+          if (version < 18) {
+            // No migration needed — new slice fields get defaults
+          }
+          // v19: Integrator config is new; defaults applied by slice initializer
+          if (version < 19) {
+            // No migration needed — new slice fields get defaults
+          }
+          // v20: Add thruster force to propulsion config (burn plan is new; defaults applied by slice initializer)
+          if (version < 20) {
+            if (persisted?.propulsion && persisted.propulsion.thrust == null) {
+              persisted = {
+                ...persisted,
+                propulsion: {
+                  ...persisted.propulsion,
+                  thrust: PROPULSION_PRESETS[persisted.propulsion.type as PropulsionType]?.thrust ?? 0,
+                },
+              }
+            }
+          }
+          // v21: Space weather inputs are new; defaults applied by slice initializer
+          if (version < 21) {
+            // No migration needed — new slice fields get defaults
+          }
+          // v22: Solar-cycle forecast config is new; defaults applied by slice initializer
+          if (version < 22) {
+            // No migration needed — new slice fields get defaults
+          }
+          // v23: Monte Carlo config is new; defaults applied by slice initializer
+          if (version < 23) {
+            // No migration needed — new slice fields get defaults
+          }
+          // v24: Comparison mode and trade-study config are new; defaults applied by slice initializer
+          if (version < 24) {
+            // No migration needed — new slice fields get defaults
+          }
+          // v25: Constellation coverage config is new; defaults applied by slice initializer
+          if (version < 25) {
+            // No migration needed — new slice fields get defaults
+          }
+          // v26: CR3BP periodic-orbit config is new; defaults applied by slice initializer
+          if (version < 26) {
+            // No migration needed — new slice fields get defaults
+          }
+          // v27: Invariant-manifold transfer config is new; defaults applied by slice initializer
+          if (version < 27) {
+            // No migration needed — new slice fields get defaults
+          }
+          // v28: Station-keeping simulation config is new; defaults applied by slice initializer
+          if (version < 28) {
+            // No migration needed — new slice fields get defaults
+          }
+          // v29: Launch-period optimizer config is new; defaults applied by slice initializer
+          if (version < 29) {
+            // No migration needed — new slice fields get defaults
+          }
+          // v30: Gravity-assist designer config is new; defaults applied by slice initializer
+          if (version < 30) {
+            // No migration needed — new slice fields get defaults
+          }
+          // v31: Add thruster input power to propulsion config (low-thrust config is new; defaults applied by slice initializer)
+          if (version < 31) {
+            if (persisted?.propulsion && persisted.propulsion.power == null) {
+              persisted = {
+                ...persisted,
+                propulsion: {
+                  ...persisted.propulsion,
+                  power: PROPULSION_PRESETS[persisted.propulsion.type as PropulsionType]?.power ?? 0,
+                },
+              }
+            }
+          }
+          // v32: Add launch date and parking inclination to lunar params (targeting config is new; defaults applied by slice initializer)
+          if (version < 32) {
+            if (persisted?.beyondLeo?.lunarParams && persisted.beyondLeo.lunarParams.launchDateISO == null) {
+              persisted = {
+                ...persisted,
+                beyondLeo: {
+                  ...persisted.beyondLeo,
+                  lunarParams: {
+                    ...persisted.beyondLeo.lunarParams,
+                    launchDateISO: DEFAULT_LUNAR_PARAMS.launchDateISO,
+                    parkingOrbitIncDeg: DEFAULT_LUNAR_PARAMS.parkingOrbitIncDeg,
+                  },
+                },
+              }
+            }
+          }
+          // v33: Lunar orbit stability config is new; defaults applied by slice initializer
+          if (version < 33) {
+            // No migration needed — new slice fields get defaults
+          }
+          // v34: J3-J6 zonal toggle becomes the spherical-harmonic Earth field with a degree/order
+          if (version < 34) {
+            if (persisted?.perturbationConfig && 'j3j6' in persisted.perturbationConfig) {
+              const { j3j6, ...rest } = persisted.perturbationConfig
+              persisted = {
+                ...persisted,
+                perturbationConfig: { ...rest, harmonics: !!j3j6, ...GRAVITY_FIELD_DEFAULTS },
+              }
+            }
+          }
+          // v35: Power mode schedule config is new; defaults applied by slice initializer
+          if (version < 35) {
+            // No migration needed — new slice fields get defaults
+          }
+          // v36: Thermal network config is new; defaults applied by slice initializer
+          if (version < 36) {
+            // No migration needed — new slice fields get defaults
+          }
+          // v37: Lunar field degree is bounded by the bundled degree-7 coefficient file
+          if (version < 37) {
+            if (persisted?.lunarStabilityConfig?.maxDegree > 7) {
+              persisted = { ...persisted, lunarStabilityConfig: { ...persisted.lunarStabilityConfig, maxDegree: 7 } }
+            }
+          }
+          // v38: Monte Carlo default drops from 200 to 50 samples; keep any other count the user chose
+          if (version < 38) {
+            if (persisted?.monteCarloConfig?.samples === 200) {
+              persisted = { ...persisted, monteCarloConfig: { ...persisted.monteCarloConfig, samples: 50 } }
+            }
+          }
           return persisted as any
         },
         merge: (persisted, current) => {
@@ -121,21 +251,41 @@ export const useStore = create<AppStore>()(
           groundStations: state.groundStations,
           subsystems: state.subsystems,
           degradationRate: state.degradationRate,
+          modeScheduleConfig: state.modeScheduleConfig,
+          thermalNetworkConfig: state.thermalNetworkConfig,
           walkerParams: state.walkerParams,
+          coverageConfig: state.coverageConfig,
           propulsion: state.propulsion,
           maneuvers: state.maneuvers,
+          burnPlan: state.burnPlan,
+          lowThrust: state.lowThrust,
           shieldingThicknessMm: state.shieldingThicknessMm,
           scenarios: state.scenarios,
+          comparisonMode: state.comparisonMode,
+          tradeStudyConfig: state.tradeStudyConfig,
           payloadType: state.payloadType,
           payloadShared: state.payloadShared,
           payloadEO: state.payloadEO,
           payloadSAR: state.payloadSAR,
           payloadSATCOM: state.payloadSATCOM,
           beyondLeo: state.beyondLeo,
+          periodicOrbitConfig: state.periodicOrbitConfig,
+          manifoldConfig: state.manifoldConfig,
+          stationKeepingConfig: state.stationKeepingConfig,
+          launchPeriodConfig: state.launchPeriodConfig,
+          mgaConfig: state.mgaConfig,
+          lunarTargetingConfig: state.lunarTargetingConfig,
+          lunarStabilityConfig: state.lunarStabilityConfig,
           propagationMode: state.propagationMode,
           perturbationConfig: state.perturbationConfig,
           spacecraftProps: state.spacecraftProps,
+          spaceWeather: state.spaceWeather,
+          solarForecast: state.solarForecast,
+          monteCarloConfig: state.monteCarloConfig,
+          integratorConfig: state.integratorConfig,
           numOrbits: state.numOrbits,
+          tles: state.tles,
+          activeTleIndex: state.activeTleIndex,
           commConfig: state.commConfig,
           mission: {
             ...state.mission,
@@ -1,5 +1,7 @@
 import { StateCreator } from 'zustand'
 import { MissionConfig, SpacecraftConfig, DEFAULT_MISSION } from '@/types/mission'
+import { scaleSolarArray } from '@/lib/solar-array'
+import { scaleBatteryPack } from '@/lib/battery'
 
 export interface MissionSlice {
   mission: MissionConfig
@@ -13,11 +15,17 @@ export const createMissionSlice: StateCreator<MissionSlice, [], [], MissionSlice
   updateMission: (partial) =>
     set((s) => ({ mission: { ...s.mission, ...partial } })),
   updateSpacecraft: (partial) =>
-    set((s) => ({
-      mission: {
-        ...s.mission,
-        spacecraft: { ...s.mission.spacecraft, ...partial },
-      },
-    })),
+    set((s) => {
+      const spacecraft = { ...s.mission.spacecraft, ...partial }
+      // A new total panel area rescales the panel geometry to match
+      if (partial.solarPanelArea !== undefined && !('solarArray' in partial) && spacecraft.solarArray) {
+        spacecraft.solarArray = scaleSolarArray(spacecraft.solarArray, partial.solarPanelArea)
+      }
+      // Likewise a new battery capacity resizes the pack's cells
+      if (partial.batteryCapacity !== undefined && !('battery' in partial) && spacecraft.battery) {
+        spacecraft.battery = scaleBatteryPack(spacecraft.battery, partial.batteryCapacity)
+      }
+      return { mission: { ...s.mission, spacecraft } }
+    }),
   resetMission: () => set({ mission: { ...DEFAULT_MISSION, epoch: new Date() } }),
 })
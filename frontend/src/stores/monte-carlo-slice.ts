@@ -0,0 +1,80 @@
+import { StateCreator } from 'zustand'
+import { DEFAULT_MONTE_CARLO_CONFIG } from '@/lib/monte-carlo'
+import type {
+  MonteCarloConfig, MonteCarloInputs, MonteCarloResult, UncertainParameter, UncertainParameterId,
+} from '@/lib/monte-carlo'
+import { runComputeJob, isComputeCancelled } from '@/lib/compute-client'
+import type { ComputeJob } from '@/lib/compute-client'
+
+export interface MonteCarloSlice {
+  monteCarloConfig: MonteCarloConfig
+  monteCarloResult: MonteCarloResult | null
+  monteCarloProgress: number | null  // 0-1 while a run is active, null when idle
+  monteCarloError: string | null
+
+  updateMonteCarloConfig: (partial: Partial<Omit<MonteCarloConfig, 'parameters'>>) => void
+  updateUncertainParameter: (id: UncertainParameterId, partial: Partial<UncertainParameter>) => void
+  resetMonteCarloConfig: () => void
+  runMonteCarlo: (inputs: MonteCarloInputs) => void
+  cancelMonteCarlo: () => void
+}
+
+export const createMonteCarloSlice: StateCreator<MonteCarloSlice, [], [], MonteCarloSlice> = (set, get) => {
+  let activeJob: ComputeJob<MonteCarloResult> | null = null
+
+  const cancelActiveJob = () => {
+    activeJob?.cancel()
+    activeJob = null
+  }
+
+  return {
+    monteCarloConfig: DEFAULT_MONTE_CARLO_CONFIG,
+    monteCarloResult: null,
+    monteCarloProgress: null,
+    monteCarloError: null,
+
+    updateMonteCarloConfig: (partial) =>
+      set((s) => ({ monteCarloConfig: { ...s.monteCarloConfig, ...partial } })),
+
+    updateUncertainParameter: (id, partial) =>
+      set((s) => ({
+        monteCarloConfig: {
+          ...s.monteCarloConfig,
+          parameters: {
+            ...s.monteCarloConfig.parameters,
+            [id]: { ...s.monteCarloConfig.parameters[id], ...partial },
+          },
+        },
+      })),
+
+    resetMonteCarloConfig: () => set({ monteCarloConfig: DEFAULT_MONTE_CARLO_CONFIG }),
+
+    runMonteCarlo: (inputs) => {
+      cancelActiveJob()
+      const job = runComputeJob(
+        { job: 'monte-carlo', inputs, config: get().monteCarloConfig },
+        (progress) => {
+          if (activeJob === job) set({ monteCarloProgress: progress })
+        },
+      )
+      activeJob = job
+      set({ monteCarloProgress: 0, monteCarloError: null })
+      job.promise
+        .then((result) => {
+          if (activeJob !== job) return
+          activeJob = null
+          set({ monteCarloResult: result, monteCarloProgress: null })
+        })
+        .catch((err) => {
+          if (isComputeCancelled(err) || activeJob !== job) return
+          activeJob = null
+          set({ monteCarloProgress: null, monteCarloError: err instanceof Error ? err.message : String(err) })
+        })
+    },
+
+    cancelMonteCarlo: () => {
+      cancelActiveJob()
+      set({ monteCarloProgress: null })
+    },
+  }
+}
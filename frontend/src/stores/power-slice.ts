@@ -1,37 +1,106 @@
 import { StateCreator } from 'zustand'
 import { PowerSubsystem, DEFAULT_SUBSYSTEMS } from '@/lib/power-budget'
+import { DEFAULT_MODE_SCHEDULE_CONFIG } from '@/lib/mode-scheduler'
+import type { ModeScheduleConfig, ModeScheduleInputs, ModeScheduleResult } from '@/lib/mode-scheduler'
+import { DEFAULT_THERMAL_NETWORK_CONFIG } from '@/lib/thermal-network'
+import type { ThermalNetworkConfig } from '@/lib/thermal-network'
+import { runComputeJob, isComputeCancelled } from '@/lib/compute-client'
+import type { ComputeJob } from '@/lib/compute-client'
 
 export interface PowerSlice {
   subsystems: PowerSubsystem[]
   degradationRate: number  // % per year, e.g. 0.03 = 3%
+  modeScheduleConfig: ModeScheduleConfig
+  modeSchedule: ModeScheduleResult | null
+  modeScheduleProgress: number | null  // 0-1 while a run is active, null when idle
+  modeScheduleError: string | null
+  thermalNetworkConfig: ThermalNetworkConfig
   addSubsystem: (sub: PowerSubsystem) => void
   removeSubsystem: (id: string) => void
   updateSubsystem: (id: string, partial: Partial<PowerSubsystem>) => void
   setDegradationRate: (rate: number) => void
   setSubsystems: (subs: PowerSubsystem[]) => void
   resetSubsystems: () => void
+  updateModeScheduleConfig: (partial: Partial<ModeScheduleConfig>) => void
+  resetModeScheduleConfig: () => void
+  runModeSchedule: (inputs: ModeScheduleInputs) => void
+  cancelModeSchedule: () => void
+  updateThermalNetworkConfig: (partial: Partial<ThermalNetworkConfig>) => void
+  resetThermalNetworkConfig: () => void
 }
 
-export const createPowerSlice: StateCreator<PowerSlice, [], [], PowerSlice> = (set) => ({
-  subsystems: [...DEFAULT_SUBSYSTEMS],
-  degradationRate: 0.03,
+export const createPowerSlice: StateCreator<PowerSlice, [], [], PowerSlice> = (set, get) => {
+  let activeJob: ComputeJob<ModeScheduleResult> | null = null
 
-  addSubsystem: (sub) =>
-    set((s) => ({ subsystems: [...s.subsystems, sub] })),
+  const cancelActiveJob = () => {
+    activeJob?.cancel()
+    activeJob = null
+  }
 
-  removeSubsystem: (id) =>
-    set((s) => ({ subsystems: s.subsystems.filter((sub) => sub.id !== id) })),
+  return {
+    subsystems: [...DEFAULT_SUBSYSTEMS],
+    degradationRate: 0.03,
+    modeScheduleConfig: DEFAULT_MODE_SCHEDULE_CONFIG,
+    modeSchedule: null,
+    modeScheduleProgress: null,
+    modeScheduleError: null,
+    thermalNetworkConfig: DEFAULT_THERMAL_NETWORK_CONFIG,
 
-  updateSubsystem: (id, partial) =>
-    set((s) => ({
-      subsystems: s.subsystems.map((sub) =>
-        sub.id === id ? { ...sub, ...partial } : sub
-      ),
-    })),
+    addSubsystem: (sub) =>
+      set((s) => ({ subsystems: [...s.subsystems, sub] })),
 
-  setDegradationRate: (rate) => set({ degradationRate: rate }),
+    removeSubsystem: (id) =>
+      set((s) => ({ subsystems: s.subsystems.filter((sub) => sub.id !== id) })),
 
-  setSubsystems: (subs) => set({ subsystems: subs }),
+    updateSubsystem: (id, partial) =>
+      set((s) => ({
+        subsystems: s.subsystems.map((sub) =>
+          sub.id === id ? { ...sub, ...partial } : sub
+        ),
+      })),
 
-  resetSubsystems: () => set({ subsystems: [...DEFAULT_SUBSYSTEMS] }),
-})
+    setDegradationRate: (rate) => set({ degradationRate: rate }),
+
+    setSubsystems: (subs) => set({ subsystems: subs }),
+
+    resetSubsystems: () => set({ subsystems: [...DEFAULT_SUBSYSTEMS] }),
+
+    updateModeScheduleConfig: (partial) =>
+      set((s) => ({ modeScheduleConfig: { ...s.modeScheduleConfig, ...partial } })),
+
+    resetModeScheduleConfig: () => set({ modeScheduleConfig: DEFAULT_MODE_SCHEDULE_CONFIG }),
+
+    runModeSchedule: (inputs) => {
+      cancelActiveJob()
+      const job = runComputeJob(
+        { job: 'mode-schedule', inputs, config: get().modeScheduleConfig },
+        (progress) => {
+          if (activeJob === job) set({ modeScheduleProgress: progress })
+        },
+      )
+      activeJob = job
+      set({ modeScheduleProgress: 0, modeScheduleError: null })
+      job.promise
+        .then((result) => {
+          if (activeJob !== job) return
+          activeJob = null
+          set({ modeSchedule: result, modeScheduleProgress: null })
+        })
+        .catch((err) => {
+          if (isComputeCancelled(err) || activeJob !== job) return
+          activeJob = null
+          set({ modeScheduleProgress: null, modeScheduleError: err instanceof Error ? err.message : String(err) })
+        })
+    },
+
+    cancelModeSchedule: () => {
+      cancelActiveJob()
+      set({ modeScheduleProgress: null })
+    },
+
+    updateThermalNetworkConfig: (partial) =>
+      set((s) => ({ thermalNetworkConfig: { ...s.thermalNetworkConfig, ...partial } })),
+
+    resetThermalNetworkConfig: () => set({ thermalNetworkConfig: DEFAULT_THERMAL_NETWORK_CONFIG }),
+  }
+}
@@ -1,33 +1,63 @@
 import { StateCreator } from 'zustand'
 import type {
   PropagationMode, PerturbationConfig, SpacecraftProps, TrajectoryPoint,
+  IntegratorConfig, IntegrationStats, BurnPlan,
 } from '@/lib/numerical-propagator'
-import { propagateNumerical, configForMode } from '@/lib/numerical-propagator'
+import { configForMode, DEFAULT_INTEGRATOR_CONFIG, GRAVITY_FIELD_DEFAULTS } from '@/lib/numerical-propagator'
+import type { ParsedTLE } from '@/lib/tle'
+import { SOLAR_ACTIVITY_WEATHER } from '@/lib/atmosphere'
+import type { SpaceWeather } from '@/lib/atmosphere'
+import { DEFAULT_SOLAR_FORECAST } from '@/lib/solar-cycle'
+import type { SolarForecastConfig } from '@/lib/solar-cycle'
+import type { ExecutedBurn } from '@/types/propulsion'
+import { runComputeJob, isComputeCancelled } from '@/lib/compute-client'
+import type { ComputeJob } from '@/lib/compute-client'
 import type { OrbitalElements } from '@/types/orbit'
 
 export interface PropagationSlice {
   propagationMode: PropagationMode
   perturbationConfig: PerturbationConfig
   spacecraftProps: SpacecraftProps
+  spaceWeather: SpaceWeather  // drives the drag density and lifetime estimates
+  solarForecast: SolarForecastConfig  // time-varying solar input for decay studies
+  integratorConfig: IntegratorConfig
+  integrationStats: IntegrationStats | null  // from the last numerical run
+  executedBurns: ExecutedBurn[]               // burn plan outcome from the last numerical run
   propagatedTrajectory: TrajectoryPoint[]
   propagationEpochMs: number
   numOrbits: number
   dtSec: number
-  isPropagating: boolean
+  propagationProgress: number | null  // 0-1 while a worker run is active, null when idle
+  propagationError: string | null     // message from the last failed worker run
   osculatingElements: OrbitalElements | null
+  tles: ParsedTLE[]
+  activeTleIndex: number
 
   setPropagationMode: (mode: PropagationMode) => void
   setPerturbationConfig: (config: Partial<PerturbationConfig>) => void
   setSpacecraftProps: (props: Partial<SpacecraftProps>) => void
+  setSpaceWeather: (weather: Partial<SpaceWeather>) => void
+  setSolarForecast: (config: Partial<SolarForecastConfig>) => void
+  setIntegratorConfig: (config: Partial<IntegratorConfig>) => void
   setNumOrbits: (n: number) => void
-  runPropagation: (elements: OrbitalElements, epochMs: number) => void
+  runPropagation: (elements: OrbitalElements, epochMs: number, burnPlan?: BurnPlan | null) => void
+  cancelPropagation: () => void
   clearTrajectory: () => void
   setOsculatingElements: (elements: OrbitalElements | null) => void
+  setTLEs: (tles: ParsedTLE[]) => void
+  setActiveTleIndex: (index: number) => void
+}
+
+/** The TLE driving SGP4 propagation, or null when not in SGP4 mode */
+export function selectActiveTLE(s: PropagationSlice): ParsedTLE | null {
+  if (s.propagationMode !== 'sgp4') return null
+  return s.tles[s.activeTleIndex] ?? null
 }
 
 const DEFAULT_PERTURBATION_CONFIG: PerturbationConfig = {
+  ...GRAVITY_FIELD_DEFAULTS,
   j2: true,
-  j3j6: false,
+  harmonics: false,
   drag: true,
   srp: false,
   thirdBodyMoon: false,
@@ -41,46 +71,126 @@ const DEFAULT_SPACECRAFT_PROPS: SpacecraftProps = {
   mass: 4.0,   // kg
 }
 
-export const createPropagationSlice: StateCreator<PropagationSlice, [], [], PropagationSlice> = (set, get) => ({
-  propagationMode: 'keplerian',
-  perturbationConfig: DEFAULT_PERTURBATION_CONFIG,
-  spacecraftProps: DEFAULT_SPACECRAFT_PROPS,
-  propagatedTrajectory: [],
-  propagationEpochMs: 0,
-  numOrbits: 10,
-  dtSec: 30,
-  isPropagating: false,
-  osculatingElements: null,
-
-  setPropagationMode: (mode) => {
-    const config = mode === 'numerical-full'
-      ? { ...get().perturbationConfig }
-      : configForMode(mode)
-    set({ propagationMode: mode, perturbationConfig: config })
-  },
-
-  setPerturbationConfig: (partial) =>
-    set((s) => ({ perturbationConfig: { ...s.perturbationConfig, ...partial } })),
-
-  setSpacecraftProps: (partial) =>
-    set((s) => ({ spacecraftProps: { ...s.spacecraftProps, ...partial } })),
-
-  setNumOrbits: (n) => set({ numOrbits: n }),
-
-  runPropagation: (elements, epochMs) => {
-    const { propagationMode, perturbationConfig, spacecraftProps, numOrbits, dtSec } = get()
-    if (propagationMode === 'keplerian') {
-      set({ propagatedTrajectory: [], propagationEpochMs: 0 })
-      return
-    }
-    set({ isPropagating: true })
-    const trajectory = propagateNumerical(
-      elements, epochMs, numOrbits, dtSec, perturbationConfig, spacecraftProps,
-    )
-    set({ propagatedTrajectory: trajectory, propagationEpochMs: epochMs, isPropagating: false })
-  },
-
-  clearTrajectory: () => set({ propagatedTrajectory: [], propagationEpochMs: 0, osculatingElements: null }),
-
-  setOsculatingElements: (elements) => set({ osculatingElements: elements }),
-})
+export const createPropagationSlice: StateCreator<PropagationSlice, [], [], PropagationSlice> = (set, get) => {
+  // In-flight worker run; superseded runs are cancelled so stale results never land
+  let activeJob: ComputeJob<unknown> | null = null
+
+  const cancelActiveJob = () => {
+    activeJob?.cancel()
+    activeJob = null
+  }
+
+  return {
+    propagationMode: 'keplerian',
+    perturbationConfig: DEFAULT_PERTURBATION_CONFIG,
+    spacecraftProps: DEFAULT_SPACECRAFT_PROPS,
+    spaceWeather: { ...SOLAR_ACTIVITY_WEATHER.moderate },
+    solarForecast: DEFAULT_SOLAR_FORECAST,
+    integratorConfig: DEFAULT_INTEGRATOR_CONFIG,
+    integrationStats: null,
+    executedBurns: [],
+    propagatedTrajectory: [],
+    propagationEpochMs: 0,
+    numOrbits: 10,
+    dtSec: 30,
+    propagationProgress: null,
+    propagationError: null,
+    osculatingElements: null,
+    tles: [],
+    activeTleIndex: 0,
+
+    setPropagationMode: (mode) => {
+      const config = mode === 'numerical-full'
+        ? { ...get().perturbationConfig }
+        : configForMode(mode)
+      set({ propagationMode: mode, perturbationConfig: config })
+    },
+
+    setPerturbationConfig: (partial) =>
+      set((s) => ({ perturbationConfig: { ...s.perturbationConfig, ...partial } })),
+
+    setSpacecraftProps: (partial) =>
+      set((s) => ({ spacecraftProps: { ...s.spacecraftProps, ...partial } })),
+
+    setSpaceWeather: (partial) =>
+      set((s) => ({ spaceWeather: { ...s.spaceWeather, ...partial } })),
+
+    setSolarForecast: (partial) =>
+      set((s) => ({ solarForecast: { ...s.solarForecast, ...partial } })),
+
+    setIntegratorConfig: (partial) =>
+      set((s) => ({ integratorConfig: { ...s.integratorConfig, ...partial } })),
+
+    setNumOrbits: (n) => set({ numOrbits: n }),
+
+    runPropagation: (elements, epochMs, burnPlan = null) => {
+      const { propagationMode, perturbationConfig, spacecraftProps, spaceWeather, integratorConfig, numOrbits, dtSec } = get()
+      cancelActiveJob()
+      if (propagationMode === 'keplerian') {
+        set({ propagatedTrajectory: [], propagationEpochMs: 0, propagationProgress: null, propagationError: null, executedBurns: [] })
+        return
+      }
+
+      let job: ComputeJob<{ trajectory: TrajectoryPoint[]; stats: IntegrationStats | null; burns: ExecutedBurn[] }>
+      const onProgress = (progress: number) => {
+        if (activeJob === job) set({ propagationProgress: progress })
+      }
+      if (propagationMode === 'sgp4') {
+        const tle = selectActiveTLE(get())
+        if (!tle) {
+          set({ propagatedTrajectory: [], propagationEpochMs: 0, propagationProgress: null, propagationError: null, executedBurns: [] })
+          return
+        }
+        // SGP4 cannot apply burns; the plan only runs under numerical propagation
+        const sgp4Job = runComputeJob({ job: 'propagate-sgp4', tle, epochMs, numOrbits, dtSec }, onProgress)
+        job = { ...sgp4Job, promise: sgp4Job.promise.then((trajectory) => ({ trajectory, stats: null, burns: [] })) }
+      } else {
+        job = runComputeJob({
+          job: 'propagate-numerical',
+          elements, epochMs, numOrbits, dtSec,
+          config: perturbationConfig,
+          sc: spacecraftProps,
+          integrator: integratorConfig,
+          burnPlan,
+          spaceWeather,
+        }, onProgress)
+      }
+
+      activeJob = job
+      set({ propagationProgress: 0, propagationError: null })
+      job.promise
+        .then(({ trajectory, stats, burns }) => {
+          if (activeJob !== job) return
+          activeJob = null
+          set({
+            propagatedTrajectory: trajectory,
+            propagationEpochMs: trajectory.length > 0 ? epochMs : 0,
+            integrationStats: stats,
+            executedBurns: burns,
+            propagationProgress: null,
+          })
+        })
+        .catch((err) => {
+          if (isComputeCancelled(err) || activeJob !== job) return
+          activeJob = null
+          set({ propagationProgress: null, propagationError: err instanceof Error ? err.message : String(err) })
+        })
+    },
+
+    cancelPropagation: () => {
+      cancelActiveJob()
+      set({ propagationProgress: null })
+    },
+
+    clearTrajectory: () => {
+      cancelActiveJob()
+      set({ propagatedTrajectory: [], propagationEpochMs: 0, osculatingElements: null, propagationProgress: null, propagationError: null, executedBurns: [] })
+    },
+
+    setOsculatingElements: (elements) => set({ osculatingElements: elements }),
+
+    setTLEs: (tles) => set({ tles, activeTleIndex: 0 }),
+
+    setActiveTleIndex: (index) => set({ activeTleIndex: index }),
+  }
+}
@@ -0,0 +1,80 @@
+import { StateCreator } from 'zustand'
+import { DEFAULT_TRADE_STUDY_CONFIG } from '@/lib/trade-study'
+import type { ScenarioInputs, SweepAxis, TradeConstraint, TradeStudyConfig, TradeStudyResult } from '@/lib/trade-study'
+import { runComputeJob, isComputeCancelled } from '@/lib/compute-client'
+import type { ComputeJob } from '@/lib/compute-client'
+
+export interface TradeStudySlice {
+  tradeStudyConfig: TradeStudyConfig
+  tradeStudyResult: TradeStudyResult | null
+  tradeStudyProgress: number | null  // 0-1 while a sweep is active, null when idle
+  tradeStudyError: string | null
+
+  updateTradeStudyConfig: (partial: Partial<Omit<TradeStudyConfig, 'x' | 'y' | 'constraints'>>) => void
+  updateSweepAxis: (axis: 'x' | 'y', partial: Partial<SweepAxis>) => void
+  addTradeConstraint: (constraint: Omit<TradeConstraint, 'id'>) => void
+  updateTradeConstraint: (id: string, partial: Partial<TradeConstraint>) => void
+  removeTradeConstraint: (id: string) => void
+  runTradeStudy: (inputs: ScenarioInputs) => void
+  cancelTradeStudy: () => void
+}
+
+export const createTradeStudySlice: StateCreator<TradeStudySlice, [], [], TradeStudySlice> = (set, get) => {
+  let activeJob: ComputeJob<TradeStudyResult> | null = null
+
+  const cancelActiveJob = () => {
+    activeJob?.cancel()
+    activeJob = null
+  }
+
+  const setConfig = (fn: (c: TradeStudyConfig) => Partial<TradeStudyConfig>) =>
+    set((s) => ({ tradeStudyConfig: { ...s.tradeStudyConfig, ...fn(s.tradeStudyConfig) } }))
+
+  return {
+    tradeStudyConfig: DEFAULT_TRADE_STUDY_CONFIG,
+    tradeStudyResult: null,
+    tradeStudyProgress: null,
+    tradeStudyError: null,
+
+    updateTradeStudyConfig: (partial) => setConfig(() => partial),
+
+    updateSweepAxis: (axis, partial) => setConfig((c) => ({ [axis]: { ...c[axis], ...partial } })),
+
+    addTradeConstraint: (constraint) =>
+      setConfig((c) => ({ constraints: [...c.constraints, { ...constraint, id: `c-${Date.now()}` }] })),
+
+    updateTradeConstraint: (id, partial) =>
+      setConfig((c) => ({ constraints: c.constraints.map((k) => (k.id === id ? { ...k, ...partial } : k)) })),
+
+    removeTradeConstraint: (id) =>
+      setConfig((c) => ({ constraints: c.constraints.filter((k) => k.id !== id) })),
+
+    runTradeStudy: (inputs) => {
+      cancelActiveJob()
+      const job = runComputeJob(
+        { job: 'trade-study', inputs, config: get().tradeStudyConfig },
+        (progress) => {
+          if (activeJob === job) set({ tradeStudyProgress: progress })
+        },
+      )
+      activeJob = job
+      set({ tradeStudyProgress: 0, tradeStudyError: null })
+      job.promise
+        .then((result) => {
+          if (activeJob !== job) return
+          activeJob = null
+          set({ tradeStudyResult: result, tradeStudyProgress: null })
+        })
+        .catch((err) => {
+          if (isComputeCancelled(err) || activeJob !== job) return
+          activeJob = null
+          set({ tradeStudyProgress: null, tradeStudyError: err instanceof Error ? err.message : String(err) })
+        })
+    },
+
+    cancelTradeStudy: () => {
+      cancelActiveJob()
+      set({ tradeStudyProgress: null })
+    },
+  }
+}
@@ -6,6 +6,7 @@ export interface OverlayToggles {
   sensorFootprint: boolean
   commLinks: boolean
   swathCorridor: boolean
+  constellationCoverage: boolean
 }
 
 export interface UISlice {
@@ -34,6 +35,7 @@ export const createUISlice: StateCreator<UISlice, [], [], UISlice> = (set) => ({
     sensorFootprint: true,
     commLinks: true,
     swathCorridor: false,
+    constellationCoverage: true,
   },
   setActiveModule: (id) => set({ activeModule: id }),
   toggleBottomPanel: () => set((s) => ({ bottomPanelExpanded: !s.bottomPanelExpanded })),
@@ -50,6 +50,8 @@ export interface LunarParams {
   ispS: number
   propellantMassKg: number
   closestApproachAltKm: number
+  launchDateISO: string         // TLI search starts at 00:00 UTC on this day
+  parkingOrbitIncDeg: number    // TLI is constrained to this parking-orbit plane
 }
 
 export interface LunarResult {
@@ -71,8 +73,10 @@ export type TargetBody =
   'saturn' | 'uranus' | 'neptune' | 'ceres' | 'vesta'
 
 export type InterplanetaryMissionType = 'flyby' | 'orbiter' | 'lander'
-export type InterplanetaryTransferType = 'hohmann' | 'lambert'
+export type InterplanetaryTransferType = 'hohmann' | 'lambert' | 'mga'
 export type ArrivalOrbitType = 'circular' | 'elliptical'
+export type LaunchVehicleId =
+  'falcon-9' | 'atlas-v-551' | 'ariane-64' | 'vulcan-vc6' | 'falcon-heavy' | 'sls-block-1'
 
 export interface InterplanetaryParams {
   targetBody: TargetBody
@@ -89,6 +93,7 @@ export interface InterplanetaryParams {
 
 export interface InterplanetaryResult {
   c3Km2s2: number               // characteristic energy (km²/s²)
+  dlaDeg: number | null         // declination of launch asymptote (Lambert only)
   departureDeltaVms: number     // from parking orbit (m/s)
   transferTimeDays: number
   arrivalVinfKms: number        // arrival v-infinity (km/s)
@@ -108,6 +113,9 @@ export interface PorkchopPoint {
   flightTimeDays: number
   c3: number                    // km²/s²
   vInfArr: number               // km/s
+  dlaDeg: number                // declination of launch asymptote
+  totalDeltaVms: number         // departure + arrival insertion
+  revs: number                  // complete revolutions of the best branch
 }
 
 // ─── Store shape ───
@@ -142,6 +150,8 @@ export const DEFAULT_LUNAR_PARAMS: LunarParams = {
   ispS: 450,
   propellantMassKg: 100,
   closestApproachAltKm: 250,
+  launchDateISO: '2026-11-01T00:00:00.000Z',
+  parkingOrbitIncDeg: 28.5,
 }
 
 /** Per-body default arrival orbit configs */
@@ -10,6 +10,7 @@ export enum ModuleId {
   Payload = 'payload',
   BeyondLeo = 'beyond-leo',
   Comparison = 'comparison',
+  MonteCarlo = 'monte-carlo',
   MissionArchitect = 'mission-architect',
 }
 
@@ -25,6 +26,7 @@ export const MODULE_LABELS: Record<ModuleId, string> = {
   [ModuleId.Payload]: 'Payload',
   [ModuleId.BeyondLeo]: 'Beyond-LEO',
   [ModuleId.Comparison]: 'Compare',
+  [ModuleId.MonteCarlo]: 'Monte Carlo',
   [ModuleId.MissionArchitect]: 'Architect',
 }
 
@@ -40,7 +42,8 @@ export const MODULE_NUMBERS: Record<ModuleId, number> = {
   [ModuleId.Payload]: 9,
   [ModuleId.BeyondLeo]: 10,
   [ModuleId.Comparison]: 11,
-  [ModuleId.MissionArchitect]: 12,
+  [ModuleId.MonteCarlo]: 12,
+  [ModuleId.MissionArchitect]: 13,
 }
 
 export interface Vec3 {
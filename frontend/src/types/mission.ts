@@ -38,6 +38,47 @@ export const SOLAR_EFFICIENCIES = [
   { label: 'Advanced GaAs', value: 0.30 },
 ]
 
+// ─── Solar array geometry ───
+// Body frame: +X along-track, +Y anti-orbit-normal, +Z nadir when nadir-pointing;
+// sun-pointing turns −Z to the Sun.
+
+export type PanelMount = 'body' | 'deployable'
+export type PanelTracking = 'fixed' | '1-axis' | '2-axis'
+
+export interface SolarPanel {
+  id: string
+  name: string
+  mount: PanelMount
+  tracking: PanelTracking
+  areaM2: number                        // active cell area
+  normal: [number, number, number]      // cell-side normal at zero drive angle
+  axis: [number, number, number]        // hinge / drive axis ('1-axis' tracking)
+  position: [number, number, number]    // panel centre, m (self-shadowing)
+}
+
+export interface SolarArrayConfig {
+  bodyDimsM: [number, number, number]   // bus box along X, Y, Z (casts shadows)
+  panels: SolarPanel[]
+  tempCoeffPerC: number                 // relative efficiency change per °C from 28 °C
+  absorptance: number                   // cell-side solar absorptance
+  emittance: number                     // IR emittance of each radiating side
+}
+
+// ─── Battery pack ───
+
+export type BatteryChemistry = 'nmc' | 'lfp' | 'lco'
+
+export interface BatteryPackConfig {
+  chemistry: BatteryChemistry           // cell voltage curve and cycle life
+  cellCapacityAh: number
+  seriesCells: number
+  parallelStrings: number
+  chargeEfficiency: number              // energy stored ÷ energy delivered to the pack (0-1)
+  maxChargeC: number                    // charge current limit, multiples of capacity
+  maxDischargeC: number
+  tempC: number                         // pack operating temperature
+}
+
 export interface SpacecraftConfig {
   size: CubeSatSize
   mass: number               // kg
@@ -47,7 +88,9 @@ export interface SpacecraftConfig {
   solarPanelArea: number     // m^2
   solarCellEfficiency: number // 0-1
   pointingMode: PointingMode  // affects solar power incidence angle
+  solarArray?: SolarArrayConfig  // panel geometry; absent = incidence-factor lookup
   batteryCapacity: number    // Wh
+  battery?: BatteryPackConfig  // cell/pack model; absent = ideal energy store
   powerIdle: number          // W
   powerPeak: number          // W
   powerAverage: number       // W
@@ -1,9 +1,20 @@
+import type { OrbitalElements } from './orbit'
+
 export type PropulsionType = 'none' | 'cold-gas' | 'resistojet' | 'ion' | 'hall-thruster'
 
 export interface PropulsionConfig {
   type: PropulsionType
   specificImpulse: number  // seconds
   propellantMass: number   // kg
+  thrust: number           // N, used for finite burns
+  power: number            // W, electrical input at full thrust (electric propulsion)
+}
+
+/** Continuous-thrust operation of an electric thruster (spiral transfers and low-thrust burns) */
+export interface LowThrustConfig {
+  dutyCycle: number             // fraction of sunlit time the thruster fires (0-1)
+  targetAltitudeKm: number      // spiral transfer target (circular)
+  targetInclinationDeg: number
 }
 
 export interface DeltaVManeuver {
@@ -13,18 +24,70 @@ export interface DeltaVManeuver {
   perYear: boolean      // if true, multiply by mission lifetime
 }
 
-export const PROPULSION_PRESETS: Record<PropulsionType, { isp: number; label: string }> = {
-  'none': { isp: 0, label: 'No Propulsion' },
-  'cold-gas': { isp: 70, label: 'Cold Gas' },
-  'resistojet': { isp: 150, label: 'Resistojet' },
-  'ion': { isp: 3000, label: 'Ion Thruster' },
-  'hall-thruster': { isp: 1500, label: 'Hall Thruster' },
+// ─── Burn plan (executed by the numerical propagator) ───
+
+/** What fires a planned burn: a fixed time, or the Nth orbit event after the previous burn */
+export type BurnTrigger = 'epoch' | 'perigee' | 'apogee' | 'ascending-node' | 'descending-node'
+
+/** RTN: radial / along-track (transverse) / orbit normal. VNB: velocity / normal / binormal. */
+export type BurnFrame = 'rtn' | 'vnb'
+
+export type BurnModel = 'impulsive' | 'finite' | 'low-thrust'
+
+export interface PlannedBurn {
+  id: string
+  name: string
+  enabled: boolean
+  trigger: BurnTrigger
+  offsetSec: number               // 'epoch' trigger: seconds after propagation start
+  occurrence: number              // event triggers: fire at the Nth event (1 = next)
+  frame: BurnFrame
+  direction: [number, number, number]  // components in the chosen frame; normalized before use
+  deltaV: number                  // m/s
+  model: BurnModel
 }
 
+export type ExecutedBurnStatus = 'executed' | 'truncated' | 'no-propellant' | 'not-reached'
+
+export interface ExecutedBurn {
+  id: string
+  name: string
+  status: ExecutedBurnStatus      // 'truncated' = propellant ran out, or the run ended mid-burn; 'no-propellant' = tank empty when armed, not fired
+  startMs: number
+  durationSec: number             // 0 for impulsive burns
+  deltaV: number                  // m/s actually delivered
+  propellantKg: number            // propellant actually consumed
+  massBeforeKg: number
+  massAfterKg: number
+  elementsBefore: OrbitalElements | null  // osculating, at burn start
+  elementsAfter: OrbitalElements | null   // osculating, at burn end
+  eclipseCoastSec?: number        // low-thrust burns: time spent coasting in Earth shadow
+  eclipsePasses?: number          // low-thrust burns: shadow entries while the burn was active
+}
+
+export const PROPULSION_PRESETS: Record<PropulsionType, { isp: number; thrust: number; power: number; label: string }> = {
+  'none': { isp: 0, thrust: 0, power: 0, label: 'No Propulsion' },
+  'cold-gas': { isp: 70, thrust: 0.1, power: 0, label: 'Cold Gas' },
+  'resistojet': { isp: 150, thrust: 0.05, power: 50, label: 'Resistojet' },
+  'ion': { isp: 3000, thrust: 0.001, power: 25, label: 'Ion Thruster' },
+  'hall-thruster': { isp: 1500, thrust: 0.015, power: 220, label: 'Hall Thruster' },
+}
+
+/** Thrusters that can fly continuous low-thrust arcs */
+export const ELECTRIC_PROPULSION: PropulsionType[] = ['ion', 'hall-thruster']
+
 export const DEFAULT_PROPULSION: PropulsionConfig = {
   type: 'none',
   specificImpulse: 0,
   propellantMass: 0,
+  thrust: 0,
+  power: 0,
+}
+
+export const DEFAULT_LOW_THRUST: LowThrustConfig = {
+  dutyCycle: 0.9,
+  targetAltitudeKm: 800,
+  targetInclinationDeg: 51.6,
 }
 
 export const DEFAULT_MANEUVERS: DeltaVManeuver[] = [
@@ -33,3 +96,15 @@ export const DEFAULT_MANEUVERS: DeltaVManeuver[] = [
   { id: 'collision', name: 'Collision Avoidance', deltaV: 1, perYear: true },
   { id: 'deorbit', name: 'Deorbit', deltaV: 0, perYear: false },
 ]
+
+export const DEFAULT_PLANNED_BURN: Omit<PlannedBurn, 'id'> = {
+  name: 'Burn',
+  enabled: true,
+  trigger: 'apogee',
+  offsetSec: 0,
+  occurrence: 1,
+  frame: 'vnb',
+  direction: [1, 0, 0],
+  deltaV: 1,
+  model: 'impulsive',
+}